@@ -32,10 +32,21 @@ contract BecasTrustScore {
     // Array to track all user IDs
     bytes32[] public allUsers;
 
+    // Merkle roots of batched score updates (epoch => root)
+    struct ScoreRoot {
+        bytes32 root;
+        uint256 leafCount;
+        uint256 publishedAt;
+    }
+    mapping(uint256 => ScoreRoot) public scoreRoots;
+    uint256 public latestEpoch;
+
     // Events
     event TrustScoreUpdated(bytes32 indexed userId, uint256 score, uint256 riskScore);
     event UserRegistered(bytes32 indexed userId, address indexed wallet);
     event BasenameLinked(string indexed basename, bytes32 indexed userId);
+    event WalletUnlinked(bytes32 indexed userId, address indexed wallet);
+    event ScoreRootPublished(uint256 indexed epoch, bytes32 root, uint256 leafCount);
 
     // Modifiers
     modifier onlyOwner() {
@@ -76,6 +87,47 @@ contract BecasTrustScore {
         emit TrustScoreUpdated(userId, score, riskScore);
     }
 
+    /**
+     * @dev Commit the Merkle root of a batch of score updates
+     * @param epoch Batch number (must increase)
+     * @param root Merkle root over leaves keccak256(keccak256(abi.encode(userId, score, riskScore, violations, epoch)))
+     * @param leafCount Number of scores in the batch
+     */
+    function publishScoreRoot(uint256 epoch, bytes32 root, uint256 leafCount) external onlyOwner {
+        require(epoch > latestEpoch, "Epoch must increase");
+        require(root != bytes32(0), "Invalid root");
+
+        scoreRoots[epoch] = ScoreRoot(root, leafCount, block.timestamp);
+        latestEpoch = epoch;
+
+        emit ScoreRootPublished(epoch, root, leafCount);
+    }
+
+    /**
+     * @dev Verify a score against a published batch root
+     * @param proof Sibling hashes from leaf to root (pairs are hashed in sorted order)
+     */
+    function verifyScore(
+        uint256 epoch,
+        bytes32 userId,
+        uint256 score,
+        uint256 riskScore,
+        uint256 violations,
+        bytes32[] calldata proof
+    ) external view returns (bool) {
+        bytes32 root = scoreRoots[epoch].root;
+        if (root == bytes32(0)) return false;
+
+        bytes32 hash = keccak256(bytes.concat(keccak256(abi.encode(userId, score, riskScore, violations, epoch))));
+        for (uint256 i = 0; i < proof.length; i++) {
+            hash = hash < proof[i]
+                ? keccak256(abi.encodePacked(hash, proof[i]))
+                : keccak256(abi.encodePacked(proof[i], hash));
+        }
+
+        return hash == root;
+    }
+
     /**
      * @dev Link wallet address to user ID (Base Account integration)
      * @param userId Discord user ID hash
@@ -87,6 +139,17 @@ contract BecasTrustScore {
         emit UserRegistered(userId, wallet);
     }
 
+    /**
+     * @dev Remove a wallet link (user unlinked or re-linked elsewhere)
+     * @param wallet Linked wallet address
+     */
+    function unlinkWallet(address wallet) external onlyOwner {
+        bytes32 userId = walletToUserId[wallet];
+        require(userId != bytes32(0), "Wallet not linked");
+        delete walletToUserId[wallet];
+        emit WalletUnlinked(userId, wallet);
+    }
+
     /**
      * @dev Link Basename to user ID (Basename integration)
      * @param basename User's Basename (e.g., "alice.base.eth")
@@ -13,6 +13,11 @@ module.exports = {
     }
   },
   networks: {
+    // Local Hardhat node (npx hardhat node)
+    localhost: {
+      url: "http://127.0.0.1:8545",
+      chainId: 31337
+    },
     // Base Sepolia Testnet
     baseSepolia: {
       url: process.env.BASE_SEPOLIA_RPC || "https://sepolia.base.org",
@@ -1,7 +1,8 @@
 const hre = require("hardhat");
 
 async function main() {
-  console.log("🚀 Deploying BecasTrustScore to Base Sepolia Testnet...\n");
+  const isLocal = ["hardhat", "localhost"].includes(hre.network.name);
+  console.log(`🚀 Deploying BecasTrustScore to ${isLocal ? "local Hardhat network" : "Base Sepolia Testnet"}...\n`);
 
   // Get deployer account
   const [deployer] = await hre.ethers.getSigners();
@@ -24,7 +25,7 @@ async function main() {
 
   // Wait for a few block confirmations
   console.log("\n⏳ Waiting for block confirmations...");
-  await contract.deploymentTransaction().wait(5);
+  await contract.deploymentTransaction().wait(isLocal ? 1 : 5);
 
   // Perform test transactions
   console.log("\n🧪 Running test transactions...");
@@ -49,6 +50,20 @@ async function main() {
   await tx3.wait();
   console.log("   ✅ Basename linked! TX:", tx3.hash);
 
+  // Test 4: Publish a Merkle root for a one-score batch (root = leaf) and verify it
+  console.log("4️⃣ Publishing score batch root...");
+  const epoch = (await contract.latestEpoch()) + 1n;
+  const leaf = hre.ethers.keccak256(hre.ethers.keccak256(
+    hre.ethers.AbiCoder.defaultAbiCoder().encode(
+      ["bytes32", "uint256", "uint256", "uint256", "uint256"],
+      [testUserId, 85, 15, 2, epoch]
+    )
+  ));
+  const tx4 = await contract.publishScoreRoot(epoch, leaf, 1);
+  await tx4.wait();
+  const verified = await contract.verifyScore(epoch, testUserId, 85, 15, 2, []);
+  console.log("   ✅ Root published! TX:", tx4.hash, "Verified:", verified);
+
   // Read back the data
   console.log("\n📊 Verifying stored data...");
   const trustData = await contract.getTrustScore(testUserId);
@@ -63,10 +78,10 @@ async function main() {
   console.log("\n📋 DEPLOYMENT SUMMARY:");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   console.log("Contract Address:", contractAddress);
-  console.log("Network: Base Sepolia Testnet");
-  console.log("Chain ID: 84532");
+  console.log("Network:", isLocal ? "Local Hardhat" : "Base Sepolia Testnet");
+  console.log("Chain ID:", (await hre.ethers.provider.getNetwork()).chainId.toString());
   console.log("Deployer:", deployer.address);
-  console.log("Total Transactions:", 4); // 1 deploy + 3 test txs
+  console.log("Total Transactions:", 5); // 1 deploy + 4 test txs
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   console.log("\n🔗 View Contract:", `https://sepolia.basescan.org/address/${contractAddress}`);
 }
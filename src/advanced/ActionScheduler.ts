@@ -1,236 +1,498 @@
 // ActionScheduler.ts
 
-import { Task } from '../types/Task.types';
-
-export interface ScheduledAction {
+import os from 'os';
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ENV } from '../config/environment';
+import { getPostgresPool } from '../database/config';
+import type { EventQueue } from '../queue/EventQueue';
+import { createLogger } from '../services/Logger';
+
+const logger = createLogger('ActionScheduler');
+
+/**
+ * ACTION SCHEDULER - Durable delayed and recurring jobs
+ *
+ * Jobs live in scheduled_jobs (Postgres), so pending unbans, delayed
+ * moderation tasks and active watches survive restarts and deploys:
+ * - Handlers are registered per job type; payloads are plain JSON
+ * - Jobs that came due while the bot was down run on the next start (catch-up)
+ * - A job is claimed (FOR UPDATE SKIP LOCKED) right before it runs, one at a
+ *   time, so with several bot processes each run happens at most once and no
+ *   claimed job waits behind others while its lease runs out. A job whose
+ *   process died mid-run is marked failed instead of being run again.
+ * - A handler that throws is retried with backoff, up to maxAttempts
+ * - Recurring jobs (intervalMs) keep their phase; missed occurrences collapse
+ *   into one catch-up run
+ *
+ * Due jobs are picked up by a poll timer, or with SCHEDULER_DRIVER=bullmq by
+ * delayed jobs on the EventQueue 'scheduled-actions' queue (polling then only
+ * runs as a slow safety net). Postgres stays the source of truth either way.
+ */
+
+export type ScheduledJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledJob<P = any> {
   id: string;
-  taskId: string;
-  executeAt: Date;
-  action: () => Promise<void>;
-  timer?: NodeJS.Timeout;
-  status: 'pending' | 'executing' | 'completed' | 'cancelled';
+  type: string;
+  guildId: string | null;
+  payload: P;
+  runAt: Date;
+  intervalMs: number | null;
+  status: ScheduledJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  lastRunAt: Date | null;
+  createdAt: Date;
 }
 
-export class ActionScheduler {
-  private scheduledActions: Map<string, ScheduledAction> = new Map();
+export interface ScheduleOptions<P = any> {
+  type: string;
+  runAt: Date;
+  payload?: P;
+  guildId?: string;
+  id?: string; // Stable ID (e.g. task:<taskId>) - replaces a job with the same ID unless it is running
+  intervalMs?: number; // Recurring
+  maxAttempts?: number;
+  ifMissing?: boolean; // Leave an existing job with this ID as it is
+}
 
-  /**
-   * Schedule an action for future execution
-   */
-  schedule(task: Task, action: () => Promise<void>): string {
-    if (!task.executeAt) {
-      throw new Error('Task must have executeAt date');
-    }
+export type ScheduledJobHandler<P = any> = (job: ScheduledJob<P>) => Promise<void>;
 
-    const delay = task.executeAt.getTime() - Date.now();
+/**
+ * What wakes the scheduler when jobs come due
+ */
+export interface SchedulerDriver {
+  start(runDue: () => Promise<void>): Promise<void>;
+  notify(runAt: Date): Promise<void>; // A job was (re)scheduled for runAt
+  stop(): Promise<void>;
+}
 
-    if (delay <= 0) {
-      // Execute immediately
-      console.log(`⚡ Executing task ${task.id} immediately (scheduled time passed)`);
-      this.executeNow(task.id, action);
-      return task.id;
-    }
+const LEASE_MS = 10 * 60 * 1000; // A run still 'running' after this is considered interrupted
+const RETRY_BASE_MS = 30000; // 30s, 60s, 120s, ...
 
-    const scheduledAction: ScheduledAction = {
-      id: task.id,
-      taskId: task.id,
-      executeAt: task.executeAt,
-      action,
-      status: 'pending',
-    };
+/**
+ * Poll every intervalMs, plus a timer for jobs due before the next poll
+ */
+export class TimerDriver implements SchedulerDriver {
+  private poll?: NodeJS.Timeout;
+  private wake?: { timer: NodeJS.Timeout; at: number };
+  private runDue?: () => Promise<void>;
 
-    const timer = setTimeout(async () => {
-      await this.execute(task.id);
-    }, delay);
+  constructor(private intervalMs: number = ENV.SCHEDULER_POLL_INTERVAL) {}
 
-    scheduledAction.timer = timer;
-    this.scheduledActions.set(task.id, scheduledAction);
+  async start(runDue: () => Promise<void>): Promise<void> {
+    this.runDue = runDue;
+    this.poll = setInterval(() => runDue(), this.intervalMs);
+  }
 
-    console.log(`⏰ Scheduled task ${task.id} for ${this.formatDelay(delay)} from now`);
+  async notify(runAt: Date): Promise<void> {
+    if (!this.runDue || runAt.getTime() - Date.now() >= this.intervalMs) return;
+    if (this.wake && this.wake.at <= runAt.getTime()) return;
+
+    if (this.wake) clearTimeout(this.wake.timer);
+    const runDue = this.runDue;
+    this.wake = {
+      at: runAt.getTime(),
+      timer: setTimeout(() => {
+        this.wake = undefined;
+        runDue();
+      }, Math.max(0, runAt.getTime() - Date.now())),
+    };
+  }
 
-    return task.id;
+  async stop(): Promise<void> {
+    if (this.poll) clearInterval(this.poll);
+    if (this.wake) clearTimeout(this.wake.timer);
+    this.poll = undefined;
+    this.wake = undefined;
+    this.runDue = undefined;
   }
+}
 
-  /**
-   * Execute a scheduled action
-   */
-  private async execute(actionId: string): Promise<void> {
-    const scheduled = this.scheduledActions.get(actionId);
-    
-    if (!scheduled || scheduled.status !== 'pending') {
-      return;
-    }
+/**
+ * Delayed BullMQ jobs on the 'scheduled-actions' queue wake every bot process's
+ * worker; claiming in Postgres decides which one runs each job
+ */
+export class EventQueueDriver implements SchedulerDriver {
+  private fallback: TimerDriver;
 
-    console.log(`⚡ Executing scheduled action ${actionId}`);
+  constructor(private queue: EventQueue, safetyPollMs: number = 60000) {
+    this.fallback = new TimerDriver(safetyPollMs);
+  }
 
-    scheduled.status = 'executing';
+  async start(runDue: () => Promise<void>): Promise<void> {
+    this.queue.registerWorker('scheduled-actions', () => runDue(), 1);
+    await this.fallback.start(runDue);
+  }
 
-    try {
-      await scheduled.action();
-      scheduled.status = 'completed';
-      console.log(`✓ Scheduled action ${actionId} completed`);
-    } catch (error) {
-      console.error(`✗ Scheduled action ${actionId} failed:`, error);
-      scheduled.status = 'cancelled';
-    }
+  async notify(runAt: Date): Promise<void> {
+    // One wake-up per due time, however many jobs share it
+    await this.queue.addJob('scheduled-actions', { runAt: runAt.toISOString() }, {
+      delay: Math.max(0, runAt.getTime() - Date.now()),
+      jobId: `wake-${runAt.getTime()}`,
+    });
+  }
 
-    // Clean up after 1 minute
-    setTimeout(() => {
-      this.scheduledActions.delete(actionId);
-    }, 60000);
+  async stop(): Promise<void> {
+    await this.fallback.stop();
   }
+}
+
+export class ActionScheduler {
+  private handlers: Map<string, ScheduledJobHandler> = new Map();
+  private started = false;
+  private draining: Promise<void> | null = null;
+  private readonly workerId = `${os.hostname()}:${process.pid}`;
+
+  constructor(
+    private db?: Pool,
+    private driver: SchedulerDriver = new TimerDriver()
+  ) {}
 
   /**
-   * Execute action immediately
+   * Run jobs of this type with handler (jobs of unregistered types are left for other processes)
    */
-  private async executeNow(actionId: string, action: () => Promise<void>): Promise<void> {
-    const scheduled: ScheduledAction = {
-      id: actionId,
-      taskId: actionId,
-      executeAt: new Date(),
-      action,
-      status: 'executing',
-    };
-
-    this.scheduledActions.set(actionId, scheduled);
+  registerHandler<P = any>(type: string, handler: ScheduledJobHandler<P>): void {
+    this.handlers.set(type, handler);
+  }
 
-    try {
-      await action();
-      scheduled.status = 'completed';
-    } catch (error) {
-      console.error(`Failed to execute action ${actionId}:`, error);
-      scheduled.status = 'cancelled';
-    }
+  /**
+   * Replace the driver (before start)
+   */
+  setDriver(driver: SchedulerDriver): void {
+    if (this.started) throw new Error('ActionScheduler already started');
+    this.driver = driver;
   }
 
   /**
-   * Cancel a scheduled action
+   * Start picking up due jobs, beginning with the ones missed while stopped
    */
-  cancel(actionId: string): boolean {
-    const scheduled = this.scheduledActions.get(actionId);
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
 
-    if (!scheduled) {
-      return false;
-    }
+    await this.driver.start(() => this.runDue());
+    await this.runDue();
 
-    if (scheduled.timer) {
-      clearTimeout(scheduled.timer);
-    }
+    const stats = await this.getStats();
+    logger.info(`ActionScheduler started (${stats.pending} pending job(s), handlers: ${Array.from(this.handlers.keys()).join(', ')})`);
+  }
 
-    scheduled.status = 'cancelled';
-    console.log(`❌ Cancelled scheduled action ${actionId}`);
+  async stop(): Promise<void> {
+    if (!this.started) return;
+    this.started = false;
 
-    return true;
+    await this.driver.stop();
+    await this.draining;
+    logger.info('ActionScheduler stopped');
   }
 
   /**
-   * Reschedule an action
+   * Schedule a job, returning its ID
    */
-  reschedule(actionId: string, newExecuteAt: Date): boolean {
-    const scheduled = this.scheduledActions.get(actionId);
-
-    if (!scheduled || scheduled.status !== 'pending') {
-      return false;
-    }
-
-    // Cancel existing timer
-    if (scheduled.timer) {
-      clearTimeout(scheduled.timer);
+  async schedule<P = any>(options: ScheduleOptions<P>): Promise<string> {
+    const id = options.id || uuidv4();
+
+    const result = await this.pool.query(
+      `
+      INSERT INTO scheduled_jobs (id, job_type, guild_id, payload, run_at, interval_ms, max_attempts)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (id) DO ${options.ifMissing ? 'NOTHING' : `UPDATE
+        SET job_type = EXCLUDED.job_type,
+            guild_id = EXCLUDED.guild_id,
+            payload = EXCLUDED.payload,
+            run_at = EXCLUDED.run_at,
+            interval_ms = EXCLUDED.interval_ms,
+            max_attempts = EXCLUDED.max_attempts,
+            status = 'pending',
+            attempts = 0,
+            last_error = NULL,
+            updated_at = NOW()
+        WHERE scheduled_jobs.status <> 'running'`}
+      `,
+      [
+        id,
+        options.type,
+        options.guildId || null,
+        JSON.stringify(options.payload ?? {}),
+        options.runAt,
+        options.intervalMs || null,
+        options.maxAttempts ?? 3,
+      ]
+    );
+
+    if (result.rowCount === 0) {
+      if (options.ifMissing) return id;
+      throw new Error(`Scheduled job ${id} is running and cannot be replaced`);
     }
 
-    // Set new schedule
-    const delay = newExecuteAt.getTime() - Date.now();
+    logger.info(`Scheduled ${options.type} job ${id} for ${options.runAt.toISOString()}${options.intervalMs ? ` (every ${formatDelay(options.intervalMs)})` : ''}`);
+    await this.notify(options.runAt);
 
-    if (delay <= 0) {
-      this.execute(actionId);
-      return true;
-    }
+    return id;
+  }
 
-    scheduled.executeAt = newExecuteAt;
-    scheduled.timer = setTimeout(async () => {
-      await this.execute(actionId);
-    }, delay);
+  /**
+   * Cancel a pending job (false if it already ran, is running or does not exist)
+   */
+  async cancel(jobId: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE scheduled_jobs SET status = 'cancelled', updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
+      [jobId]
+    );
 
-    console.log(`🔄 Rescheduled action ${actionId} for ${this.formatDelay(delay)} from now`);
+    if (result.rowCount === 0) return false;
 
+    logger.info(`Cancelled scheduled job ${jobId}`);
     return true;
   }
 
   /**
-   * Get scheduled action info
+   * Move a pending job to a new time
    */
-  getScheduled(actionId: string): ScheduledAction | undefined {
-    return this.scheduledActions.get(actionId);
+  async reschedule(jobId: string, runAt: Date): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE scheduled_jobs SET run_at = $2, updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
+      [jobId, runAt]
+    );
+
+    if (result.rowCount === 0) return false;
+
+    logger.info(`Rescheduled job ${jobId} for ${runAt.toISOString()}`);
+    await this.notify(runAt);
+    return true;
   }
 
   /**
-   * Get all pending actions
+   * Replace the payload of a job that has not finished (state that must survive restarts)
    */
-  getPending(): ScheduledAction[] {
-    return Array.from(this.scheduledActions.values())
-      .filter(a => a.status === 'pending');
+  async updatePayload<P = any>(jobId: string, payload: P): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE scheduled_jobs SET payload = $2, updated_at = NOW() WHERE id = $1 AND status IN ('pending', 'running')`,
+      [jobId, JSON.stringify(payload)]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getJob<P = any>(jobId: string): Promise<ScheduledJob<P> | null> {
+    const result = await this.pool.query('SELECT * FROM scheduled_jobs WHERE id = $1', [jobId]);
+    return result.rows[0] ? toJob<P>(result.rows[0]) : null;
   }
 
   /**
-   * Get time until execution
+   * Jobs matching the filter, soonest first
    */
-  getTimeUntilExecution(actionId: string): number | null {
-    const scheduled = this.scheduledActions.get(actionId);
+  async list<P = any>(filter: { type?: string; guildId?: string; status?: ScheduledJobStatus } = {}, limit: number = 100): Promise<ScheduledJob<P>[]> {
+    const result = await this.pool.query(
+      `
+      SELECT * FROM scheduled_jobs
+      WHERE ($1::text IS NULL OR job_type = $1)
+        AND ($2::text IS NULL OR guild_id = $2)
+        AND ($3::text IS NULL OR status = $3)
+      ORDER BY run_at
+      LIMIT $4
+      `,
+      [filter.type ?? null, filter.guildId ?? null, filter.status ?? null, limit]
+    );
+    return result.rows.map(row => toJob<P>(row));
+  }
+
+  async getStats(guildId?: string): Promise<Record<ScheduledJobStatus, number>> {
+    const stats: Record<ScheduledJobStatus, number> = { pending: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
 
-    if (!scheduled || scheduled.status !== 'pending') {
-      return null;
+    const result = await this.pool.query(
+      `SELECT status, COUNT(*)::int AS count FROM scheduled_jobs WHERE ($1::text IS NULL OR guild_id = $1) GROUP BY status`,
+      [guildId ?? null]
+    );
+    for (const row of result.rows) {
+      stats[row.status as ScheduledJobStatus] = row.count;
     }
 
-    return scheduled.executeAt.getTime() - Date.now();
+    return stats;
   }
 
   /**
-   * Format delay for human reading
+   * Run every due job this process has a handler for (overlapping calls share one pass)
    */
-  private formatDelay(ms: number): string {
-    const seconds = Math.floor(ms / 1000);
-    const minutes = Math.floor(seconds / 60);
-    const hours = Math.floor(minutes / 60);
+  runDue(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
 
-    if (hours > 0) return `${hours}h ${minutes % 60}m`;
-    if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
-    return `${seconds}s`;
+  private async drain(): Promise<void> {
+    if (this.handlers.size === 0) return;
+
+    try {
+      await this.recoverInterrupted();
+
+      let job: ScheduledJob | null;
+      while ((job = await this.claimNext())) {
+        await this.execute(job);
+        if (!this.started) break;
+      }
+    } catch (error) {
+      logger.error('Failed to run due scheduled jobs', error);
+    }
   }
 
   /**
-   * Clean up completed/cancelled actions
+   * Claim the most overdue job this process can run (its lease starts now)
    */
-  cleanup(): void {
-    let cleaned = 0;
+  private async claimNext(): Promise<ScheduledJob | null> {
+    const result = await this.pool.query(
+      `
+      UPDATE scheduled_jobs
+      SET status = 'running',
+          locked_by = $1,
+          locked_until = NOW() + $2 * INTERVAL '1 millisecond',
+          attempts = attempts + 1,
+          last_run_at = NOW(),
+          updated_at = NOW()
+      WHERE id IN (
+        SELECT id FROM scheduled_jobs
+        WHERE status = 'pending' AND run_at <= NOW() AND job_type = ANY($3)
+        ORDER BY run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+      `,
+      [this.workerId, LEASE_MS, Array.from(this.handlers.keys())]
+    );
+    return result.rows[0] ? toJob(result.rows[0]) : null;
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    const late = Date.now() - job.runAt.getTime();
+    logger.info(`Running ${job.type} job ${job.id}${late > 60000 ? ` (${formatDelay(late)} late)` : ''}`);
+
+    try {
+      await this.handlers.get(job.type)!(job);
 
-    for (const [id, scheduled] of this.scheduledActions.entries()) {
-      if (scheduled.status === 'completed' || scheduled.status === 'cancelled') {
-        this.scheduledActions.delete(id);
-        cleaned++;
+      if (job.intervalMs) {
+        await this.finish(job.id, 'pending', { runAt: nextOccurrence(job), resetAttempts: true });
+      } else {
+        await this.finish(job.id, 'completed');
+      }
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      logger.error(`Scheduled ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}): ${message}`);
+
+      if (job.attempts < job.maxAttempts) {
+        const retryAt = new Date(Date.now() + RETRY_BASE_MS * Math.pow(2, job.attempts - 1));
+        await this.finish(job.id, 'pending', { runAt: retryAt, error: message });
+        await this.notify(retryAt);
+      } else if (job.intervalMs) {
+        await this.finish(job.id, 'pending', { runAt: nextOccurrence(job), error: message, resetAttempts: true });
+      } else {
+        await this.finish(job.id, 'failed', { error: message });
       }
     }
+  }
 
-    if (cleaned > 0) {
-      console.log(`🧹 Cleaned up ${cleaned} scheduled actions`);
-    }
+  private async finish(
+    jobId: string,
+    status: ScheduledJobStatus,
+    options: { runAt?: Date; error?: string; resetAttempts?: boolean } = {}
+  ): Promise<void> {
+    await this.pool.query(
+      `
+      UPDATE scheduled_jobs
+      SET status = $2,
+          run_at = COALESCE($3, run_at),
+          last_error = COALESCE($4, last_error),
+          attempts = CASE WHEN $5 THEN 0 ELSE attempts END,
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE id = $1 AND locked_by = $6
+      `,
+      [jobId, status, options.runAt ?? null, options.error ?? null, options.resetAttempts ?? false, this.workerId]
+    );
   }
 
   /**
-   * Get statistics
+   * Runs whose lease expired (process died mid-run) are not repeated; recurring jobs move on
    */
-  getStats(): {
-    pending: number;
-    executing: number;
-    completed: number;
-    cancelled: number;
-  } {
-    const actions = Array.from(this.scheduledActions.values());
-
-    return {
-      pending: actions.filter(a => a.status === 'pending').length,
-      executing: actions.filter(a => a.status === 'executing').length,
-      completed: actions.filter(a => a.status === 'completed').length,
-      cancelled: actions.filter(a => a.status === 'cancelled').length,
-    };
+  private async recoverInterrupted(): Promise<void> {
+    const result = await this.pool.query(
+      `
+      UPDATE scheduled_jobs
+      SET status = CASE WHEN interval_ms IS NULL THEN 'failed' ELSE 'pending' END,
+          run_at = CASE WHEN interval_ms IS NULL THEN run_at ELSE NOW() + interval_ms * INTERVAL '1 millisecond' END,
+          last_error = 'Interrupted while running (process stopped) - not retried',
+          locked_by = NULL,
+          locked_until = NULL,
+          updated_at = NOW()
+      WHERE status = 'running' AND locked_until < NOW()
+      RETURNING id
+      `
+    );
+
+    if ((result.rowCount ?? 0) > 0) {
+      logger.warn(`Marked ${result.rowCount} interrupted scheduled job(s): ${result.rows.map(r => r.id).join(', ')}`);
+    }
+  }
+
+  private async notify(runAt: Date): Promise<void> {
+    if (!this.started) return;
+
+    try {
+      await this.driver.notify(runAt);
+    } catch (error) {
+      logger.warn('Scheduler driver could not be notified (job will be picked up by polling)', error);
+    }
   }
-}
\ No newline at end of file
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
+
+/**
+ * Next run of a recurring job after now, keeping its phase
+ */
+function nextOccurrence(job: ScheduledJob): Date {
+  const interval = job.intervalMs!;
+  const missed = Math.max(1, Math.ceil((Date.now() - job.runAt.getTime()) / interval));
+  return new Date(job.runAt.getTime() + missed * interval);
+}
+
+/**
+ * Format delay for human reading
+ */
+function formatDelay(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  if (hours > 0) return `${hours}h ${minutes % 60}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
+
+function toJob<P = any>(row: any): ScheduledJob<P> {
+  return {
+    id: row.id,
+    type: row.job_type,
+    guildId: row.guild_id,
+    payload: row.payload,
+    runAt: new Date(row.run_at),
+    intervalMs: row.interval_ms !== null ? Number(row.interval_ms) : null,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    lastError: row.last_error,
+    lastRunAt: row.last_run_at ? new Date(row.last_run_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Singleton instance
+export const actionScheduler = new ActionScheduler();
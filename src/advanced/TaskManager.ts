@@ -2,6 +2,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { StorageService } from '../services/StorageService';
+import { actionScheduler } from './ActionScheduler';
 import { Task, TaskAction, TaskCondition, CancelCondition, MonitoringConfig, TaskUpdate } from '../types/Task.types';
 
 interface CreateTaskInput {
@@ -22,6 +23,11 @@ interface CreateTaskInput {
   monitoring?: MonitoringConfig;
 }
 
+/**
+ * Tasks are persisted in storage; when each one runs is owned by the durable
+ * ActionScheduler (job "task:<id>", type "task"), so scheduled and monitoring
+ * tasks survive restarts. The "task" handler is registered by BecasCore.
+ */
 export class TaskManager {
   private storage: StorageService;
   private tasks: Map<string, Task> = new Map();
@@ -49,6 +55,20 @@ export class TaskManager {
 
           this.tasks.set(task.id, task);
         });
+
+        // Tasks stored before the scheduler owned them get their job now
+        for (const task of this.tasks.values()) {
+          if (task.status === 'pending' || task.status === 'monitoring') {
+            await actionScheduler.schedule({
+              id: TaskManager.jobId(task.id),
+              type: 'task',
+              guildId: task.guildId,
+              runAt: this.runAt(task),
+              payload: { taskId: task.id },
+              ifMissing: true,
+            });
+          }
+        }
         console.log(`=� Loaded ${this.tasks.size} tasks`);
       }
     } catch (error) {
@@ -89,9 +109,70 @@ export class TaskManager {
 
     console.log(` Task created: ${task.id} (${task.type})`);
 
+    await actionScheduler.schedule({
+      id: TaskManager.jobId(task.id),
+      type: 'task',
+      guildId: task.guildId,
+      runAt: this.runAt(task),
+      payload: { taskId: task.id },
+    });
+
     return task;
   }
 
+  /**
+   * Cancel a task before it runs
+   */
+  async cancelTask(taskId: string, reason: string = 'Cancelled'): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task || !['pending', 'monitoring'].includes(task.status)) {
+      return false;
+    }
+
+    const cancelled = await actionScheduler.cancel(TaskManager.jobId(taskId));
+    if (!cancelled) {
+      return false; // Already running or ran
+    }
+
+    await this.updateTask(taskId, { status: 'cancelled', result: reason });
+    return true;
+  }
+
+  /**
+   * Move a scheduled task to a new time
+   */
+  async rescheduleTask(taskId: string, executeAt: Date): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task || !['pending', 'monitoring'].includes(task.status)) {
+      return false;
+    }
+
+    const rescheduled = await actionScheduler.reschedule(TaskManager.jobId(taskId), executeAt);
+    if (rescheduled) {
+      task.executeAt = executeAt;
+      task.updatedAt = new Date();
+      await this.saveTasks();
+    }
+
+    return rescheduled;
+  }
+
+  /**
+   * Scheduler job ID for a task
+   */
+  static jobId(taskId: string): string {
+    return `task:${taskId}`;
+  }
+
+  /**
+   * When a task's action is due: its time, the end of monitoring, or now
+   */
+  private runAt(task: Task): Date {
+    if (task.executeAt) return task.executeAt;
+    if (task.monitoring) return new Date(task.createdAt.getTime() + task.monitoring.duration);
+    return new Date();
+  }
+
   /**
    * Get all monitoring tasks for a guild
    */
@@ -152,10 +233,8 @@ export class TaskManager {
 
     if (matched) {
       console.log(`=� Cancel condition matched for task ${taskId}`);
-      this.updateTask(taskId, {
-        status: 'cancelled',
-        result: `Cancelled: user said "${pattern}"`,
-      });
+      this.cancelTask(taskId, `Cancelled: user said "${pattern}"`)
+        .catch(error => console.error(`Failed to cancel task ${taskId}:`, error));
     }
 
     return matched;
@@ -201,6 +280,11 @@ export class TaskManager {
    * Delete task
    */
   async deleteTask(taskId: string): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (task && ['pending', 'monitoring'].includes(task.status)) {
+      await actionScheduler.cancel(TaskManager.jobId(taskId));
+    }
+
     this.tasks.delete(taskId);
     await this.saveTasks();
   }
@@ -216,38 +300,12 @@ export class TaskManager {
   }
 
   /**
-   * Process scheduled and monitoring tasks
+   * Clean up finished tasks (running them is up to the ActionScheduler)
    */
   private async processTasks(): Promise<void> {
     const now = new Date();
 
     for (const task of this.tasks.values()) {
-      // Check scheduled tasks
-      if (task.type === 'scheduled' && task.status === 'pending' && task.executeAt) {
-        if (now >= task.executeAt) {
-          console.log(`� Scheduled task ${task.id} is ready to execute`);
-          await this.updateTask(task.id, {
-            status: 'completed',
-            executedAt: now,
-            result: 'Ready for execution',
-          });
-        }
-      }
-
-      // Check monitoring tasks
-      if (task.status === 'monitoring' && task.monitoring) {
-        const monitoringSince = task.createdAt.getTime();
-        const monitoringDuration = task.monitoring.duration;
-
-        if (now.getTime() - monitoringSince >= monitoringDuration) {
-          console.log(`� Monitoring period ended for task ${task.id}`);
-          await this.updateTask(task.id, {
-            status: 'completed',
-            result: 'Monitoring period ended - executing action',
-          });
-        }
-      }
-
       // Clean up old completed/cancelled tasks (older than 24 hours)
       if ((task.status === 'completed' || task.status === 'cancelled' || task.status === 'failed') &&
           now.getTime() - task.updatedAt.getTime() > 86400000) {
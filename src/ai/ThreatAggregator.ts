@@ -3,6 +3,7 @@
  *
  * Combines results from all analysis layers to make final threat assessment:
  * - Reflex Layer (fast pattern matching)
+ * - Link intelligence (shorteners, lookalike domains, domain reputation)
  * - Semantic Layer (intent, sentiment, emotion)
  * - Content Layer (deep scam/phishing analysis)
  * - Context Layer (conversation context, provocation)
@@ -19,6 +20,7 @@ import { UserCharacterProfile } from '../services/ProfileBuilder';
 import { TrustScore } from '../types/Trust.types';
 import { MessageRepository } from '../database/repositories/MessageRepository';
 import { createLogger } from '../services/Logger';
+import { LinkAnalysis, linkAnalyzer, SUSPICIOUS_RISK } from '../analyzers/links/LinkAnalyzer';
 
 const logger = createLogger('ThreatAggregator');
 
@@ -35,6 +37,7 @@ export interface AggregatedThreatResult {
   // Layer Results
   layers: {
     reflex: ReflexResult;
+    links?: LinkAnalysis;
     semantic?: SemanticResult;
     content?: ContentResult;
     context?: ContextResult;
@@ -60,6 +63,7 @@ export interface AggregatedThreatResult {
   processingTime: number;
   layerTimings: {
     reflex: number;
+    links?: number;
     semantic?: number;
     content?: number;
     context?: number;
@@ -103,8 +107,37 @@ export class ThreatAggregator {
 
       logger.debug(`Reflex result: ${reflexResult.classification} (${reflexResult.processingTime}ms)`);
 
+      // ==========================================
+      // LINKS: expansion, lookalikes, reputation
+      // ==========================================
+      let linkResult: LinkAnalysis | undefined;
+      if (!this.reflexLayer.needsImmediateAction(reflexResult) && /https?:\/\//i.test(message.content)) {
+        const linksStart = Date.now();
+        linkResult = await linkAnalyzer.analyze(message.content, message.guildId || undefined);
+        layerTimings.links = Date.now() - linksStart;
+        logger.debug(`Link analysis complete: max risk ${linkResult.maxRisk.toFixed(2)} (${layerTimings.links}ms)`);
+      }
+
+      if (linkResult?.malicious) {
+        logger.info('Malicious link detected, skipping deeper analysis');
+        const reasons = linkResult.links.filter(l => l.risk >= linkResult!.maxRisk).flatMap(l => l.reasons);
+
+        return this.buildResult(
+          'critical',
+          linkResult.maxRisk * 100,
+          linkResult.maxRisk,
+          'ban',
+          `Malicious link: ${reasons.join('; ')}`,
+          { reflex: reflexResult, links: linkResult },
+          [{ type: 'malicious_link', severity: linkResult.maxRisk * 10, source: 'links', confidence: linkResult.maxRisk }],
+          { trustScore: 0, profileRisk: 0, provocation: 0, context: 0, total: 0 },
+          Date.now() - startTime,
+          layerTimings
+        );
+      }
+
       // Early exit for trusted users or clean messages
-      if (reflexResult.classification === 'CLEAN' && reflexResult.confidence >= 0.8) {
+      if (reflexResult.classification === 'CLEAN' && reflexResult.confidence >= 0.8 && !(linkResult && linkResult.maxRisk >= SUSPICIOUS_RISK)) {
         logger.info('Clean message, skipping deeper analysis');
         return this.buildResult(
           'none',
@@ -182,6 +215,7 @@ export class ThreatAggregator {
       // ==========================================
       return this.aggregateResults(
         reflexResult,
+        linkResult,
         semanticResult,
         contentResult,
         contextResult,
@@ -215,6 +249,7 @@ export class ThreatAggregator {
    */
   private aggregateResults(
     reflex: ReflexResult,
+    links: LinkAnalysis | undefined,
     semantic: SemanticResult | undefined,
     content: ContentResult | undefined,
     context: ContextResult,
@@ -236,6 +271,16 @@ export class ThreatAggregator {
       });
     }
 
+    // Link threats
+    if (links && links.maxRisk >= SUSPICIOUS_RISK) {
+      threats.push({
+        type: 'suspicious_link',
+        severity: links.maxRisk * 5,
+        source: 'links',
+        confidence: links.maxRisk,
+      });
+    }
+
     // Semantic threats
     if (semantic?.manipulation.isManipulative) {
       threats.push({
@@ -298,7 +343,7 @@ export class ThreatAggregator {
       confidence,
       action,
       reason,
-      { reflex, semantic, content, context },
+      { reflex, links, semantic, content, context },
       threats,
       modifiers,
       processingTime,
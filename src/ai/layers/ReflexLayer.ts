@@ -21,6 +21,8 @@
 import { Message } from 'discord.js';
 import { TrustScore } from '../../types/Trust.types';
 import { createLogger } from '../../services/Logger';
+import { lookalikeDetector } from '../../analyzers/links/LookalikeDetector';
+import { extractUrls, hostnameOf } from '../../analyzers/links/UrlExpander';
 
 const logger = createLogger('ReflexLayer');
 
@@ -83,10 +85,33 @@ export class ReflexLayer {
     message: Message,
     trustScore?: TrustScore
   ): Promise<ReflexResult> {
+    return this.analyzeText(message.content, message.mentions.users.size, trustScore);
+  }
+
+  /**
+   * Same triage for raw text (heuristic fallback when AI checks miss their deadline)
+   */
+  analyzeText(content: string, mentionCount: number = 0, trustScore?: TrustScore): ReflexResult {
     const startTime = Date.now();
-    const content = message.content.toLowerCase();
     const patterns: string[] = [];
 
+    // ==========================================
+    // CHECK 0: LOOKALIKE LINKS (before the trust bypass -
+    // phishing links usually come from compromised accounts)
+    // ==========================================
+    for (const url of extractUrls(content)) {
+      const lookalike = lookalikeDetector.check(hostnameOf(url));
+      if (lookalike && lookalike.confidence >= 0.75) {
+        return {
+          classification: 'SCAM',
+          confidence: lookalike.confidence,
+          reason: `Link to ${lookalike.hostname} imitates ${lookalike.brand} (${lookalike.technique})`,
+          patterns: [`lookalike:${lookalike.technique}`],
+          processingTime: Date.now() - startTime,
+        };
+      }
+    }
+
     // ==========================================
     // BYPASS: Trusted Users
     // ==========================================
@@ -105,7 +130,7 @@ export class ReflexLayer {
     // CHECK 1: SCAM PATTERNS
     // ==========================================
     for (const pattern of this.scamPatterns) {
-      if (pattern.test(message.content)) {
+      if (pattern.test(content)) {
         patterns.push(pattern.source);
       }
     }
@@ -124,7 +149,7 @@ export class ReflexLayer {
     // CHECK 2: TOXIC PATTERNS
     // ==========================================
     for (const pattern of this.toxicPatterns) {
-      if (pattern.test(message.content)) {
+      if (pattern.test(content)) {
         patterns.push(pattern.source);
       }
     }
@@ -144,17 +169,17 @@ export class ReflexLayer {
     // ==========================================
     const spamMatches: string[] = [];
     for (const pattern of this.spamPatterns) {
-      if (pattern.test(message.content)) {
+      if (pattern.test(content)) {
         spamMatches.push(pattern.source);
       }
     }
 
     // Additional spam checks
-    if (message.content.length > 1000) {
+    if (content.length > 1000) {
       spamMatches.push('message_too_long');
     }
 
-    if (message.mentions.users.size > 5) {
+    if (mentionCount > 5) {
       spamMatches.push('excessive_mentions');
     }
 
@@ -172,7 +197,7 @@ export class ReflexLayer {
     // CHECK 4: SUSPICIOUS PATTERNS
     // ==========================================
     for (const pattern of this.suspiciousPatterns) {
-      if (pattern.test(message.content)) {
+      if (pattern.test(content)) {
         patterns.push(pattern.source);
       }
     }
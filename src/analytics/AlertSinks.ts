@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import logger from '../utils/logger';
+import { ENV } from '../config/environment';
+import { sendMail } from '../utils/SmtpClient';
+import { isPrivateHost, resolvesToPrivateHost } from '../utils/privateHosts';
+import type { Alert, AlertSeverity, AlertType } from './AlertSystem';
+
+/**
+ * AlertSinks
+ *
+ * Delivery targets for alerts besides the guild's Discord alert channel.
+ *
+ * Sink types:
+ * 1. webhook - POST of the alert as JSON (optionally HMAC-signed)
+ * 2. slack   - Slack-compatible incoming webhook (also Mattermost, Discord /slack)
+ * 3. email   - Plain-text mail through the SMTP relay configured in ENV
+ *
+ * A sink can be limited to some severities/types, and can be marked
+ * escalationOnly so it is only used when an unacknowledged incident escalates.
+ */
+
+export type AlertSinkType = 'webhook' | 'slack' | 'email';
+
+export interface AlertSinkConfig {
+  name: string;
+  type: AlertSinkType;
+  url?: string; // webhook, slack
+  secret?: string; // webhook: X-Becas-Signature = sha256=HMAC(secret, body)
+  headers?: Record<string, string>; // webhook
+  to?: string[]; // email
+  minSeverity?: AlertSeverity;
+  types?: AlertType[];
+  escalationOnly?: boolean;
+}
+
+export interface AlertDeliveryContext {
+  alertId?: number;
+  incidentId?: number;
+  occurrences?: number; // Alerts grouped into the incident so far
+  escalation?: boolean;
+  update?: boolean; // Incident already notified, severity went up
+}
+
+export interface AlertSink {
+  readonly config: AlertSinkConfig;
+  send(alert: Alert, context: AlertDeliveryContext): Promise<void>;
+}
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  critical: '#FF0000',
+  high: '#FF9900',
+  medium: '#FFFF00',
+  low: '#0099FF'
+};
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/**
+ * Whether a sink takes this alert (escalation-only sinks are skipped here)
+ */
+export function sinkAccepts(config: AlertSinkConfig, alert: Alert): boolean {
+  if (config.minSeverity && SEVERITY_ORDER[alert.severity] < SEVERITY_ORDER[config.minSeverity]) return false;
+  if (config.types && config.types.length > 0 && !config.types.includes(alert.type)) return false;
+  return true;
+}
+
+/**
+ * Check a sink config, returning the reason if it is invalid
+ */
+export function validateSinkConfig(config: any): string | null {
+  if (!config || typeof config !== 'object') return 'sink must be an object';
+  if (typeof config.name !== 'string' || !config.name.trim()) return 'sink name required';
+  if (config.minSeverity && !(config.minSeverity in SEVERITY_ORDER)) return `invalid minSeverity for ${config.name}`;
+
+  switch (config.type) {
+    case 'webhook':
+    case 'slack': {
+      let url: URL;
+      try {
+        url = new URL(config.url);
+      } catch {
+        return `invalid url for ${config.name}`;
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') return `url for ${config.name} must be http(s)`;
+      if (!ENV.ALERT_ALLOW_PRIVATE_SINKS && isPrivateHost(url.hostname)) {
+        return `url for ${config.name} points to a private address`;
+      }
+      return null;
+    }
+
+    case 'email':
+      if (!Array.isArray(config.to) || config.to.length === 0) return `recipients required for ${config.name}`;
+      if (!config.to.every((to: any) => typeof to === 'string' && /^[^\s@<>]+@[^\s@<>]+$/.test(to))) {
+        return `invalid recipient for ${config.name}`;
+      }
+      if (!ENV.SMTP_HOST) return 'SMTP is not configured (SMTP_HOST)';
+      return null;
+
+    default:
+      return `unknown sink type ${config.type}`;
+  }
+}
+
+/**
+ * Check that a webhook URL doesn't resolve to a private address, returning
+ * the reason if it does (validateSinkConfig only sees the literal host)
+ */
+export async function checkWebhookAddress(name: string, url: string | undefined): Promise<string | null> {
+  if (!url || ENV.ALERT_ALLOW_PRIVATE_SINKS) return null;
+
+  try {
+    if (await resolvesToPrivateHost(new URL(url).hostname)) {
+      return `url for ${name} resolves to a private address`;
+    }
+  } catch (error: any) {
+    return `url for ${name} does not resolve: ${error.code || error.message}`;
+  }
+
+  return null;
+}
+
+export function createAlertSink(config: AlertSinkConfig): AlertSink {
+  switch (config.type) {
+    case 'webhook': return new WebhookAlertSink(config);
+    case 'slack': return new SlackAlertSink(config);
+    case 'email': return new EmailAlertSink(config);
+    default: throw new Error(`Unknown alert sink type: ${(config as any).type}`);
+  }
+}
+
+/**
+ * Generic JSON webhook
+ */
+export class WebhookAlertSink implements AlertSink {
+  constructor(readonly config: AlertSinkConfig) {}
+
+  async send(alert: Alert, context: AlertDeliveryContext): Promise<void> {
+    const body = JSON.stringify({
+      event: context.escalation ? 'alert.escalated' : context.update ? 'alert.updated' : 'alert.created',
+      alertId: context.alertId,
+      incidentId: context.incidentId,
+      occurrences: context.occurrences,
+      serverId: alert.serverId,
+      type: alert.type,
+      severity: alert.severity,
+      title: alert.title,
+      message: alert.message,
+      relatedUsers: alert.relatedUsers || [],
+      relatedChannels: alert.relatedChannels || [],
+      suggestedActions: alert.suggestedActions || [],
+      timestamp: new Date().toISOString()
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...(this.config.headers || {}) };
+    if (this.config.secret) {
+      headers['X-Becas-Signature'] = `sha256=${crypto.createHmac('sha256', this.config.secret).update(body).digest('hex')}`;
+    }
+
+    await postWebhook(this.config.url!, headers, body);
+  }
+}
+
+/**
+ * Slack-compatible incoming webhook
+ */
+export class SlackAlertSink implements AlertSink {
+  constructor(readonly config: AlertSinkConfig) {}
+
+  async send(alert: Alert, context: AlertDeliveryContext): Promise<void> {
+    const fields = [
+      { title: 'Severity', value: alert.severity.toUpperCase(), short: true },
+      { title: 'Server', value: alert.serverId, short: true }
+    ];
+
+    if (context.incidentId) {
+      fields.push({ title: 'Incident', value: `#${context.incidentId} (${context.occurrences || 1} alert(s))`, short: true });
+    }
+    if (alert.suggestedActions && alert.suggestedActions.length > 0) {
+      fields.push({ title: 'Suggested Actions', value: alert.suggestedActions.join('\n'), short: false });
+    }
+
+    const body = JSON.stringify({
+      text: `${prefix(context)}${alert.title}`,
+      attachments: [{
+        color: SEVERITY_COLORS[alert.severity],
+        title: alert.title,
+        text: alert.message,
+        fields,
+        ts: Math.floor(Date.now() / 1000)
+      }]
+    });
+
+    await postWebhook(this.config.url!, { 'Content-Type': 'application/json' }, body);
+  }
+}
+
+/**
+ * Plain-text email through the configured SMTP relay
+ */
+export class EmailAlertSink implements AlertSink {
+  constructor(readonly config: AlertSinkConfig) {}
+
+  async send(alert: Alert, context: AlertDeliveryContext): Promise<void> {
+    if (!ENV.SMTP_HOST) throw new Error('SMTP is not configured');
+
+    const lines = [
+      alert.message,
+      '',
+      `Severity: ${alert.severity.toUpperCase()}`,
+      `Type: ${alert.type}`,
+      `Server: ${alert.serverId}`
+    ];
+
+    if (context.incidentId) lines.push(`Incident: #${context.incidentId} (${context.occurrences || 1} alert(s))`);
+    if (alert.relatedUsers?.length) lines.push(`Users: ${alert.relatedUsers.join(', ')}`);
+    if (alert.relatedChannels?.length) lines.push(`Channels: ${alert.relatedChannels.join(', ')}`);
+    if (alert.suggestedActions?.length) {
+      lines.push('', 'Suggested actions:', ...alert.suggestedActions.map((a, i) => `${i + 1}. ${a}`));
+    }
+    if (context.alertId) {
+      lines.push('', `Acknowledge: POST /api/analytics/alerts/${context.alertId}/acknowledge`);
+    }
+
+    await sendMail(
+      {
+        host: ENV.SMTP_HOST,
+        port: ENV.SMTP_PORT,
+        secure: ENV.SMTP_SECURE,
+        user: ENV.SMTP_USER || undefined,
+        pass: ENV.SMTP_PASS || undefined,
+        from: ENV.SMTP_FROM
+      },
+      {
+        to: this.config.to || [],
+        subject: `[BECAS ${alert.severity.toUpperCase()}] ${prefix(context)}${stripEmoji(alert.title)}`,
+        text: lines.join('\n')
+      }
+    );
+  }
+}
+
+function prefix(context: AlertDeliveryContext): string {
+  if (context.escalation) return 'ESCALATED (unacknowledged): ';
+  if (context.update) return 'Incident update: ';
+  return '';
+}
+
+function stripEmoji(text: string): string {
+  return text.replace(/[\u{1F000}-\u{1FAFF}\u{2600}-\u{27BF}\u{FE0F}]/gu, '').trim();
+}
+
+/**
+ * POST to a webhook. The address is checked again on every delivery (DNS can
+ * change after the sink was saved) and redirects are refused, so a webhook
+ * can't be bounced to an internal service.
+ */
+export async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number = DELIVERY_TIMEOUT_MS
+): Promise<void> {
+  const problem = await checkWebhookAddress(new URL(url).host, url);
+  if (problem) throw new Error(problem);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers,
+    body,
+    redirect: 'error',
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${new URL(url).host}`);
+  }
+}
+
+/**
+ * Example preferences:
+ *
+ * await alertSystem.updatePreferences(serverId, {
+ *   sinks: [
+ *     { name: 'oncall', type: 'slack', url: 'https://hooks.slack.com/services/...', minSeverity: 'high' },
+ *     { name: 'pager', type: 'webhook', url: 'https://pager.example.com/hook', secret: '...', escalationOnly: true },
+ *     { name: 'owners', type: 'email', to: ['owner@example.com'], minSeverity: 'critical' }
+ *   ],
+ *   escalation: { afterMinutes: 15, sink: 'pager' }
+ * });
+ */
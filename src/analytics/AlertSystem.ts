@@ -1,9 +1,18 @@
 import { Pool } from 'pg';
-import { Client, EmbedBuilder, TextChannel, ButtonBuilder, ActionRowBuilder, ButtonStyle } from 'discord.js';
+import crypto from 'crypto';
+import { Client, EmbedBuilder, TextChannel, ButtonBuilder, ButtonInteraction, ActionRowBuilder, ButtonStyle } from 'discord.js';
 import logger from '../utils/logger';
 import { AnomalyResult } from './AnomalyDetector';
 import { ConflictPrediction } from './ConflictPredictor';
 import { HealthSnapshot } from './ServerHealthMonitor';
+import {
+  AlertDeliveryContext,
+  AlertSinkConfig,
+  checkWebhookAddress,
+  createAlertSink,
+  sinkAccepts,
+  validateSinkConfig
+} from './AlertSinks';
 
 /**
  * AlertSystem
@@ -17,6 +26,15 @@ import { HealthSnapshot } from './ServerHealthMonitor';
  * 3. Health Alerts - Server health degradation
  * 4. Behavior Alerts - Dynamic behavior triggered
  * 5. Trend Alerts - Significant trend changes
+ *
+ * Delivery:
+ * - Discord alert channel, plus any extra sinks (webhook, Slack, email)
+ * - Repeats of the same alert within dedupWindowMinutes are counted, not re-sent
+ * - Related alerts (same type, or shared users/channels) within
+ *   groupWindowMinutes join one incident; only new incidents and severity
+ *   increases notify
+ * - Incidents not acknowledged within escalation.afterMinutes are sent to
+ *   the escalation sink
  */
 
 export type AlertType = 'anomaly' | 'conflict' | 'health' | 'behavior' | 'trend';
@@ -42,10 +60,54 @@ export interface AlertPreferences {
   minSeverity: AlertSeverity;
   enabledTypes: AlertType[];
   quietHours?: { start: number; end: number }; // Hours 0-23
+  sinks?: AlertSinkConfig[]; // Extra delivery targets besides the Discord channel
+  dedupWindowMinutes?: number; // Default 30
+  groupWindowMinutes?: number; // Default 15
+  escalation?: {
+    afterMinutes: number;
+    sink: string; // Name of a configured sink
+    minSeverity?: AlertSeverity; // Default critical
+  };
+}
+
+export interface AlertIncident {
+  id: number;
+  serverId: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  title: string;
+  status: 'open' | 'acknowledged';
+  alertCount: number;
+  firstAlertAt: Date;
+  lastAlertAt: Date;
+  acknowledgedBy?: string;
+  acknowledgedAt?: Date;
+  escalatedAt?: Date;
+  escalatedTo?: string;
 }
 
+interface OpenIncident {
+  id: number;
+  serverId: string;
+  type: AlertType;
+  severity: AlertSeverity;
+  relatedUsers: Set<string>;
+  relatedChannels: Set<string>;
+  alertCount: number;
+  lastAlertAt: number;
+}
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+const DEFAULT_DEDUP_WINDOW_MINUTES = 30;
+const DEFAULT_GROUP_WINDOW_MINUTES = 15;
+const ESCALATION_CHECK_INTERVAL = 60 * 1000; // 1 minute
+
 export class AlertSystem {
   private alertPreferences: Map<string, AlertPreferences> = new Map();
+  private recentFingerprints: Map<string, { alertId: number | null; lastSeen: number }> = new Map();
+  private openIncidents: Map<number, OpenIncident> = new Map();
+  private escalationInterval?: NodeJS.Timeout;
+  private escalating = false;
 
   constructor(
     private db: Pool,
@@ -58,8 +120,7 @@ export class AlertSystem {
   async initialize(): Promise<void> {
     logger.info('Initializing AlertSystem...');
 
-    // Load alert preferences from database or config
-    // For now, use defaults
+    // Defaults for every guild
     for (const guild of this.discordClient.guilds.cache.values()) {
       this.alertPreferences.set(guild.id, {
         serverId: guild.id,
@@ -69,9 +130,45 @@ export class AlertSystem {
       });
     }
 
+    // Saved preferences override the defaults
+    try {
+      const result = await this.db.query('SELECT server_id, preferences FROM alert_preferences');
+      for (const row of result.rows) {
+        const current = this.alertPreferences.get(row.server_id) || this.defaultPreferences(row.server_id);
+        this.alertPreferences.set(row.server_id, { ...current, ...row.preferences, serverId: row.server_id });
+      }
+    } catch (error) {
+      logger.warn('Could not load saved alert preferences:', error);
+    }
+
+    // Acknowledge buttons on posted alerts
+    this.discordClient.on('interactionCreate', async (interaction) => {
+      if (!interaction.isButton()) return;
+
+      const match = interaction.customId.match(/^alert_ack_(\d+)$/);
+      if (!match) return;
+
+      await this.handleAcknowledgeButton(interaction, parseInt(match[1]));
+    });
+
+    // Escalate unacknowledged incidents
+    this.escalationInterval = setInterval(() => {
+      this.checkEscalations().catch(error => logger.error('Escalation check failed:', error));
+    }, ESCALATION_CHECK_INTERVAL);
+
     logger.info('✓ AlertSystem initialized');
   }
 
+  /**
+   * Stop escalation checks
+   */
+  shutdown(): void {
+    if (this.escalationInterval) {
+      clearInterval(this.escalationInterval);
+      this.escalationInterval = undefined;
+    }
+  }
+
   /**
    * Send anomaly alert
    */
@@ -149,36 +246,292 @@ export class AlertSystem {
         return;
       }
 
-      // Get alert channel
-      const channel = await this.getAlertChannel(alert.serverId);
-      if (!channel) {
-        logger.warn(`No alert channel configured for server ${alert.serverId}`);
+      const prefs = this.alertPreferences.get(alert.serverId);
+      const now = Date.now();
+
+      // Deduplicate repeats of the same alert
+      const fingerprint = this.getFingerprint(alert);
+      const previous = this.recentFingerprints.get(fingerprint);
+      const dedupWindow = (prefs?.dedupWindowMinutes ?? DEFAULT_DEDUP_WINDOW_MINUTES) * 60 * 1000;
+
+      if (previous && now - previous.lastSeen < dedupWindow) {
+        previous.lastSeen = now;
+        await this.recordDuplicate(previous.alertId);
+        logger.debug(`Duplicate alert suppressed: ${alert.title}`);
         return;
       }
 
-      // Create embed
-      const embed = this.createAlertEmbed(alert);
+      // Group related alerts into one incident
+      const groupWindow = (prefs?.groupWindowMinutes ?? DEFAULT_GROUP_WINDOW_MINUTES) * 60 * 1000;
+      const { incident, isNew, severityRaised } = await this.assignIncident(alert, groupWindow);
+      const notify = isNew || severityRaised;
 
-      // Create action buttons if actionable
-      const components = alert.actionable ? this.createActionButtons(alert) : [];
+      const context: AlertDeliveryContext = {
+        incidentId: incident?.id,
+        occurrences: incident?.alertCount,
+        update: !isNew
+      };
 
-      // Send alert
-      const message = await channel.send({
-        content: this.getMentionString(alert),
-        embeds: [embed],
-        components
-      });
+      // Store alert in database (before posting - the acknowledge button carries its ID)
+      const alertId = await this.storeAlert(alert, null, incident?.id ?? null, fingerprint);
+      this.recentFingerprints.set(fingerprint, { alertId, lastSeen: now });
+      this.pruneFingerprints(now);
+
+      if (!notify) {
+        logger.info(`Alert grouped into incident #${incident!.id}: ${alert.title} (${alert.severity})`);
+        return;
+      }
+
+      // Post to the Discord alert channel
+      const channel = await this.getAlertChannel(alert.serverId);
+      if (channel) {
+        await channel.send({
+          content: this.getMentionString(alert),
+          embeds: [this.createAlertEmbed(alert, context)],
+          components: alert.actionable ? this.createActionButtons(alert, alertId) : []
+        });
+        if (alertId) {
+          await this.db.query('UPDATE alert_history SET sent_to_channel = $1 WHERE id = $2', [channel.id, alertId]);
+        }
+      } else {
+        logger.warn(`No alert channel configured for server ${alert.serverId}`);
+      }
 
-      // Store alert in database
-      await this.storeAlert(alert, channel.id);
+      // Deliver to extra sinks
+      const deliveredTo = await this.deliverToSinks(alert, prefs, { ...context, alertId: alertId ?? undefined });
+      if (alertId && deliveredTo.length > 0) {
+        await this.db.query('UPDATE alert_history SET delivered_to = $1 WHERE id = $2', [deliveredTo, alertId]);
+      }
 
-      logger.info(`Alert sent: ${alert.title} (${alert.severity})`);
+      logger.info(`Alert sent: ${alert.title} (${alert.severity})${deliveredTo.length ? ` → ${deliveredTo.join(', ')}` : ''}`);
 
     } catch (error) {
       logger.error('Error sending alert:', error);
     }
   }
 
+  /**
+   * Identity of an alert for deduplication (message text is ignored, it
+   * usually contains changing numbers)
+   */
+  private getFingerprint(alert: Alert): string {
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([
+        alert.serverId,
+        alert.type,
+        alert.severity,
+        alert.title,
+        [...(alert.relatedUsers || [])].sort(),
+        [...(alert.relatedChannels || [])].sort()
+      ]))
+      .digest('hex');
+  }
+
+  private pruneFingerprints(now: number): void {
+    const maxWindow = 24 * 60 * 60 * 1000;
+    for (const [fingerprint, entry] of this.recentFingerprints) {
+      if (now - entry.lastSeen > maxWindow) this.recentFingerprints.delete(fingerprint);
+    }
+  }
+
+  /**
+   * Count a suppressed repeat on the original alert
+   */
+  private async recordDuplicate(alertId: number | null): Promise<void> {
+    if (!alertId) return;
+
+    try {
+      await this.db.query(
+        'UPDATE alert_history SET duplicate_count = duplicate_count + 1, last_duplicate_at = NOW() WHERE id = $1',
+        [alertId]
+      );
+    } catch (error) {
+      logger.error('Error recording duplicate alert:', error);
+    }
+  }
+
+  /**
+   * Attach the alert to an open related incident, or open a new one
+   */
+  private async assignIncident(
+    alert: Alert,
+    groupWindow: number
+  ): Promise<{ incident: OpenIncident | null; isNew: boolean; severityRaised: boolean }> {
+    const now = Date.now();
+    const users = alert.relatedUsers || [];
+    const channels = alert.relatedChannels || [];
+
+    let match: OpenIncident | undefined;
+    for (const incident of this.openIncidents.values()) {
+      // Quiet incidents stop collecting alerts (they stay open until acknowledged)
+      if (now - incident.lastAlertAt > groupWindow) {
+        this.openIncidents.delete(incident.id);
+        continue;
+      }
+
+      if (incident.serverId !== alert.serverId) continue;
+
+      // Related: shares a user or channel, or is a server-wide alert of the same
+      // type (same-type alerts about different users are separate incidents)
+      const sharesSubject = users.some(u => incident.relatedUsers.has(u)) ||
+        channels.some(c => incident.relatedChannels.has(c));
+      const serverWide = users.length === 0 && channels.length === 0 &&
+        incident.relatedUsers.size === 0 && incident.relatedChannels.size === 0;
+
+      if (sharesSubject || (serverWide && incident.type === alert.type)) {
+        match = incident;
+        break;
+      }
+    }
+
+    try {
+      if (match) {
+        match.alertCount++;
+        match.lastAlertAt = now;
+        users.forEach(u => match!.relatedUsers.add(u));
+        channels.forEach(c => match!.relatedChannels.add(c));
+
+        const severityRaised = SEVERITY_ORDER[alert.severity] > SEVERITY_ORDER[match.severity];
+        if (severityRaised) match.severity = alert.severity;
+
+        await this.db.query(
+          `UPDATE alert_incidents
+           SET alert_count = $2, last_alert_at = NOW(), severity = $3,
+               related_users = $4, related_channels = $5,
+               severity_changed_at = CASE WHEN $6 THEN NOW() ELSE severity_changed_at END
+           WHERE id = $1`,
+          [match.id, match.alertCount, match.severity, [...match.relatedUsers], [...match.relatedChannels], severityRaised]
+        );
+
+        return { incident: match, isNew: false, severityRaised };
+      }
+
+      const result = await this.db.query(
+        `INSERT INTO alert_incidents (server_id, alert_type, severity, title, related_users, related_channels)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id`,
+        [alert.serverId, alert.type, alert.severity, alert.title, users, channels]
+      );
+
+      const incident: OpenIncident = {
+        id: result.rows[0].id,
+        serverId: alert.serverId,
+        type: alert.type,
+        severity: alert.severity,
+        relatedUsers: new Set(users),
+        relatedChannels: new Set(channels),
+        alertCount: 1,
+        lastAlertAt: now
+      };
+      this.openIncidents.set(incident.id, incident);
+
+      return { incident, isNew: true, severityRaised: false };
+
+    } catch (error) {
+      // Without incident tracking every alert is delivered on its own
+      logger.error('Error tracking alert incident:', error);
+      return { incident: null, isNew: true, severityRaised: false };
+    }
+  }
+
+  /**
+   * Send to every matching non-escalation sink, returning the names delivered to
+   */
+  private async deliverToSinks(
+    alert: Alert,
+    prefs: AlertPreferences | undefined,
+    context: AlertDeliveryContext
+  ): Promise<string[]> {
+    const sinks = (prefs?.sinks || []).filter(config => !config.escalationOnly && sinkAccepts(config, alert));
+
+    const results = await Promise.allSettled(
+      sinks.map(config => createAlertSink(config).send(alert, context))
+    );
+
+    const delivered: string[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        delivered.push(sinks[i].name);
+      } else {
+        logger.error(`Alert sink ${sinks[i].name} failed:`, result.reason);
+      }
+    });
+
+    return delivered;
+  }
+
+  /**
+   * Send unacknowledged incidents past their escalation time to the escalation sink
+   */
+  async checkEscalations(): Promise<number> {
+    if (this.escalating) return 0;
+    this.escalating = true;
+
+    try {
+      const result = await this.db.query(`
+        SELECT i.*,
+          (SELECT message FROM alert_history h WHERE h.incident_id = i.id ORDER BY sent_at DESC LIMIT 1) AS last_message
+        FROM alert_incidents i
+        WHERE i.status = 'open'
+        AND i.escalated_at IS NULL
+        AND i.last_alert_at >= NOW() - INTERVAL '1 day'
+      `);
+
+      let escalated = 0;
+
+      for (const row of result.rows) {
+        const prefs = this.alertPreferences.get(row.server_id);
+        const escalation = prefs?.escalation;
+        if (!escalation) continue;
+
+        if (SEVERITY_ORDER[row.severity as AlertSeverity] < SEVERITY_ORDER[escalation.minSeverity || 'critical']) continue;
+        if (Date.now() - new Date(row.severity_changed_at).getTime() < escalation.afterMinutes * 60 * 1000) continue;
+
+        const sinkConfig = prefs!.sinks?.find(sink => sink.name === escalation.sink);
+        if (!sinkConfig) {
+          logger.warn(`Escalation sink ${escalation.sink} not configured for server ${row.server_id}`);
+          continue;
+        }
+
+        const alert: Alert = {
+          type: row.alert_type,
+          severity: row.severity,
+          title: row.title,
+          message: `Not acknowledged after ${escalation.afterMinutes} minutes.\n\n${row.last_message || ''}`.trim(),
+          serverId: row.server_id,
+          relatedUsers: row.related_users || [],
+          relatedChannels: row.related_channels || [],
+          actionable: false
+        };
+
+        try {
+          await createAlertSink(sinkConfig).send(alert, {
+            incidentId: row.id,
+            occurrences: row.alert_count,
+            escalation: true
+          });
+
+          await this.db.query(
+            'UPDATE alert_incidents SET escalated_at = NOW(), escalated_to = $2 WHERE id = $1',
+            [row.id, sinkConfig.name]
+          );
+
+          escalated++;
+          logger.warn(`Incident #${row.id} escalated to ${sinkConfig.name} (${row.severity})`);
+        } catch (error) {
+          // Retried on the next check
+          logger.error(`Escalation of incident #${row.id} to ${sinkConfig.name} failed:`, error);
+        }
+      }
+
+      return escalated;
+
+    } finally {
+      this.escalating = false;
+    }
+  }
+
   /**
    * Check if alert should be sent based on preferences
    */
@@ -247,7 +600,7 @@ export class AlertSystem {
   /**
    * Create alert embed
    */
-  private createAlertEmbed(alert: Alert): EmbedBuilder {
+  private createAlertEmbed(alert: Alert, context: AlertDeliveryContext = {}): EmbedBuilder {
     const embed = new EmbedBuilder()
       .setTitle(alert.title)
       .setDescription(alert.message)
@@ -281,7 +634,10 @@ export class AlertSystem {
     }
 
     // Add severity indicator
-    embed.setFooter({ text: `Severity: ${alert.severity.toUpperCase()}` });
+    const incident = context.incidentId
+      ? ` • Incident #${context.incidentId}${context.update ? ` (${context.occurrences} alerts, severity raised)` : ''}`
+      : '';
+    embed.setFooter({ text: `Severity: ${alert.severity.toUpperCase()}${incident}` });
 
     return embed;
   }
@@ -289,16 +645,18 @@ export class AlertSystem {
   /**
    * Create action buttons for alert
    */
-  private createActionButtons(alert: Alert): ActionRowBuilder<ButtonBuilder>[] {
+  private createActionButtons(alert: Alert, alertId: number | null): ActionRowBuilder<ButtonBuilder>[] {
     const row = new ActionRowBuilder<ButtonBuilder>();
 
-    // Acknowledge button
-    row.addComponents(
-      new ButtonBuilder()
-        .setCustomId(`alert_ack_${Date.now()}`)
-        .setLabel('✅ Acknowledge')
-        .setStyle(ButtonStyle.Success)
-    );
+    // Acknowledge button (handled in handleAcknowledgeButton; needs the stored alert)
+    if (alertId) {
+      row.addComponents(
+        new ButtonBuilder()
+          .setCustomId(`alert_ack_${alertId}`)
+          .setLabel('✅ Acknowledge')
+          .setStyle(ButtonStyle.Success)
+      );
+    }
 
     // Type-specific action buttons
     if (alert.type === 'conflict' && alert.relatedUsers && alert.relatedUsers.length === 2) {
@@ -372,18 +730,24 @@ export class AlertSystem {
   }
 
   /**
-   * Store alert in database
+   * Store alert in database, returning its ID
    */
-  private async storeAlert(alert: Alert, channelId: string): Promise<void> {
+  private async storeAlert(
+    alert: Alert,
+    channelId: string | null,
+    incidentId: number | null,
+    fingerprint: string
+  ): Promise<number | null> {
     try {
       const query = `
         INSERT INTO alert_history
         (server_id, alert_type, severity, title, message,
-         related_users, related_channels, sent_to_channel)
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         related_users, related_channels, sent_to_channel, incident_id, fingerprint)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING id
       `;
 
-      await this.db.query(query, [
+      const result = await this.db.query(query, [
         alert.serverId,
         alert.type,
         alert.severity,
@@ -391,31 +755,152 @@ export class AlertSystem {
         alert.message,
         alert.relatedUsers || [],
         alert.relatedChannels || [],
-        channelId
+        channelId,
+        incidentId,
+        fingerprint
       ]);
 
+      return result.rows[0]?.id ?? null;
+
     } catch (error) {
       logger.error('Error storing alert:', error);
+      return null;
     }
   }
 
   /**
-   * Acknowledge alert
+   * Acknowledge alert (and the incident it belongs to, which stops escalation).
+   * With serverId, only an alert of that server is acknowledged.
    */
-  async acknowledgeAlert(alertId: number, moderatorId: string): Promise<void> {
+  async acknowledgeAlert(alertId: number, moderatorId: string, serverId?: string): Promise<boolean> {
     try {
-      await this.db.query(
-        'UPDATE alert_history SET acknowledged = true, acknowledged_by = $1, acknowledged_at = CURRENT_TIMESTAMP WHERE id = $2',
-        [moderatorId, alertId]
+      const result = await this.db.query(
+        `UPDATE alert_history SET acknowledged = true, acknowledged_by = $1, acknowledged_at = CURRENT_TIMESTAMP
+         WHERE id = $2 AND ($3::text IS NULL OR server_id = $3)
+         RETURNING incident_id`,
+        [moderatorId, alertId, serverId ?? null]
       );
 
+      if (result.rows.length === 0) return false;
+
       logger.info(`Alert ${alertId} acknowledged by ${moderatorId}`);
 
+      const incidentId = result.rows[0].incident_id;
+      if (incidentId) {
+        await this.acknowledgeIncident(incidentId, moderatorId);
+      }
+
+      return true;
     } catch (error) {
       logger.error('Error acknowledging alert:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Acknowledge button on an alert posted to the alert channel
+   */
+  private async handleAcknowledgeButton(interaction: ButtonInteraction, alertId: number): Promise<void> {
+    if (!interaction.memberPermissions?.has('ModerateMembers')) {
+      await interaction.reply({ content: '❌ You need moderator permissions to acknowledge alerts', ephemeral: true });
+      return;
+    }
+
+    if (!interaction.guildId || !(await this.acknowledgeAlert(alertId, interaction.user.id, interaction.guildId))) {
+      await interaction.reply({ content: '⚠️ Could not acknowledge this alert', ephemeral: true });
+      return;
+    }
+
+    await interaction.update({ content: `✅ Acknowledged by <@${interaction.user.id}>`, components: [] });
+  }
+
+  /**
+   * Acknowledge an incident and all of its alerts
+   */
+  async acknowledgeIncident(incidentId: number, moderatorId: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `UPDATE alert_incidents
+         SET status = 'acknowledged', acknowledged_by = $1, acknowledged_at = NOW()
+         WHERE id = $2 AND status = 'open'`,
+        [moderatorId, incidentId]
+      );
+
+      await this.db.query(
+        `UPDATE alert_history
+         SET acknowledged = true, acknowledged_by = $1, acknowledged_at = CURRENT_TIMESTAMP
+         WHERE incident_id = $2 AND NOT acknowledged`,
+        [moderatorId, incidentId]
+      );
+
+      this.openIncidents.delete(incidentId);
+
+      if ((result.rowCount || 0) > 0) {
+        logger.info(`Incident #${incidentId} acknowledged by ${moderatorId}`);
+        return true;
+      }
+      return false;
+
+    } catch (error) {
+      logger.error('Error acknowledging incident:', error);
+      return false;
     }
   }
 
+  /**
+   * Get recent incidents
+   */
+  async getIncidents(serverId: string, status?: 'open' | 'acknowledged', limit: number = 50): Promise<AlertIncident[]> {
+    try {
+      const result = await this.db.query(
+        `SELECT * FROM alert_incidents
+         WHERE server_id = $1 AND ($2::text IS NULL OR status = $2)
+         ORDER BY last_alert_at DESC
+         LIMIT $3`,
+        [serverId, status || null, limit]
+      );
+
+      return result.rows.map(row => ({
+        id: row.id,
+        serverId: row.server_id,
+        type: row.alert_type,
+        severity: row.severity,
+        title: row.title,
+        status: row.status,
+        alertCount: row.alert_count,
+        firstAlertAt: row.first_alert_at,
+        lastAlertAt: row.last_alert_at,
+        acknowledgedBy: row.acknowledged_by || undefined,
+        acknowledgedAt: row.acknowledged_at || undefined,
+        escalatedAt: row.escalated_at || undefined,
+        escalatedTo: row.escalated_to || undefined
+      }));
+
+    } catch (error) {
+      logger.error('Error getting incidents:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Send a test alert to one configured sink
+   */
+  async testSink(serverId: string, sinkName: string): Promise<void> {
+    const sinkConfig = this.alertPreferences.get(serverId)?.sinks?.find(sink => sink.name === sinkName);
+    if (!sinkConfig) {
+      throw new Error(`Sink ${sinkName} not configured`);
+    }
+
+    await createAlertSink(sinkConfig).send({
+      type: 'health',
+      severity: 'low',
+      title: '🔔 BECAS test alert',
+      message: `This is a test of the "${sinkName}" alert sink.`,
+      serverId,
+      actionable: false
+    }, {});
+  }
+
   /**
    * Get recent alerts
    */
@@ -524,18 +1009,83 @@ export class AlertSystem {
   }
 
   /**
-   * Update alert preferences
+   * Get alert preferences
+   */
+  getPreferences(serverId: string): AlertPreferences {
+    return this.alertPreferences.get(serverId) || this.defaultPreferences(serverId);
+  }
+
+  /**
+   * Update alert preferences (validated and persisted)
    */
   async updatePreferences(serverId: string, prefs: Partial<AlertPreferences>): Promise<void> {
-    const current = this.alertPreferences.get(serverId) || {
-      serverId,
-      minSeverity: 'medium',
-      enabledTypes: ['anomaly', 'conflict', 'health', 'behavior', 'trend']
-    };
+    const current = this.alertPreferences.get(serverId) || this.defaultPreferences(serverId);
+    const updated: AlertPreferences = { ...current, ...prefs, serverId };
 
-    this.alertPreferences.set(serverId, { ...current, ...prefs });
+    const problem = validateAlertPreferences(updated);
+    if (problem) throw new Error(problem);
+
+    for (const sink of updated.sinks || []) {
+      const addressProblem = await checkWebhookAddress(sink.name, sink.url);
+      if (addressProblem) throw new Error(addressProblem);
+    }
+
+    await this.db.query(
+      `INSERT INTO alert_preferences (server_id, preferences, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (server_id) DO UPDATE SET preferences = $2, updated_at = NOW()`,
+      [serverId, JSON.stringify(updated)]
+    );
+
+    this.alertPreferences.set(serverId, updated);
     logger.info(`Updated alert preferences for server ${serverId}`);
   }
+
+  /**
+   * Reload one server's saved preferences (after they were written elsewhere, e.g. by a config bundle)
+   */
+  async reloadPreferences(serverId: string): Promise<void> {
+    const result = await this.db.query('SELECT preferences FROM alert_preferences WHERE server_id = $1', [serverId]);
+    const saved = result.rows[0]?.preferences;
+    this.alertPreferences.set(serverId, { ...this.defaultPreferences(serverId), ...saved, serverId });
+  }
+
+  private defaultPreferences(serverId: string): AlertPreferences {
+    return defaultAlertPreferences(serverId);
+  }
+}
+
+/**
+ * Preferences of a server that never saved any
+ */
+export function defaultAlertPreferences(serverId: string): AlertPreferences {
+  return {
+    serverId,
+    minSeverity: 'medium',
+    enabledTypes: ['anomaly', 'conflict', 'health', 'behavior', 'trend']
+  };
+}
+
+/**
+ * Check sinks and escalation, returning the reason if the preferences are invalid
+ */
+export function validateAlertPreferences(prefs: AlertPreferences): string | null {
+  for (const sink of prefs.sinks || []) {
+    const problem = validateSinkConfig(sink);
+    if (problem) return problem;
+  }
+
+  const names = (prefs.sinks || []).map(sink => sink.name);
+  if (new Set(names).size !== names.length) {
+    return 'Sink names must be unique';
+  }
+
+  if (prefs.escalation) {
+    if (!(prefs.escalation.afterMinutes > 0)) return 'escalation.afterMinutes must be positive';
+    if (!names.includes(prefs.escalation.sink)) return `Escalation sink ${prefs.escalation.sink} is not configured`;
+  }
+
+  return null;
 }
 
 /**
@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import { AttachmentBuilder, Client, EmbedBuilder, TextChannel } from 'discord.js';
+import { ENV } from '../config/environment';
+import { sendMail } from '../utils/SmtpClient';
+import { postWebhook, validateSinkConfig } from './AlertSinks';
+import { REPORT_FORMATS, ReportFormat, renderMarkdown, renderReport } from './ReportRenderer';
+import type { GeneratedReport, ReportType } from './ReportGenerator';
+
+/**
+ * ReportDestinations
+ *
+ * Where a guild's generated reports are delivered.
+ *
+ * Destination types:
+ * 1. channel - Discord embed in a channel of the guild (optionally with the report attached)
+ * 2. webhook - POST of the report as JSON (optionally HMAC-signed, with a rendered copy)
+ * 3. email   - Markdown body with the rendered report attached, via the SMTP relay in ENV
+ *
+ * A destination can be limited to some report types (e.g. monthly only).
+ */
+
+export type ReportDestinationType = 'channel' | 'webhook' | 'email';
+
+export interface ReportDestinationConfig {
+  name: string;
+  type: ReportDestinationType;
+  channelId?: string; // channel
+  url?: string; // webhook
+  secret?: string; // webhook: X-Becas-Signature = sha256=HMAC(secret, body)
+  headers?: Record<string, string>; // webhook
+  to?: string[]; // email
+  format?: ReportFormat; // Attached/embedded rendering (email defaults to html)
+  reportTypes?: ReportType[];
+}
+
+export interface ReportDestination {
+  readonly config: ReportDestinationConfig;
+  deliver(report: GeneratedReport): Promise<void>;
+}
+
+const REPORT_TYPES: ReportType[] = ['weekly', 'monthly', 'custom', 'incident'];
+const DELIVERY_TIMEOUT_MS = 15000;
+
+/**
+ * Whether a destination takes this report
+ */
+export function destinationAccepts(config: ReportDestinationConfig, report: GeneratedReport): boolean {
+  return !config.reportTypes || config.reportTypes.length === 0 || config.reportTypes.includes(report.data.reportType);
+}
+
+/**
+ * Check a destination config, returning the reason if it is invalid
+ */
+export function validateReportDestination(config: any): string | null {
+  if (!config || typeof config !== 'object') return 'destination must be an object';
+  if (typeof config.name !== 'string' || !config.name.trim()) return 'destination name required';
+  if (config.format && !REPORT_FORMATS.includes(config.format)) return `invalid format for ${config.name}`;
+  if (config.reportTypes && (!Array.isArray(config.reportTypes) || !config.reportTypes.every((t: any) => REPORT_TYPES.includes(t)))) {
+    return `invalid reportTypes for ${config.name}`;
+  }
+
+  switch (config.type) {
+    case 'channel':
+      return typeof config.channelId === 'string' && /^\d{17,20}$/.test(config.channelId)
+        ? null
+        : `invalid channelId for ${config.name}`;
+
+    // Same URL/recipient rules as alert sinks
+    case 'webhook':
+    case 'email':
+      return validateSinkConfig(config);
+
+    default:
+      return `unknown destination type ${config.type}`;
+  }
+}
+
+export function createReportDestination(config: ReportDestinationConfig, discordClient: Client): ReportDestination {
+  switch (config.type) {
+    case 'channel': return new ChannelReportDestination(config, discordClient);
+    case 'webhook': return new WebhookReportDestination(config);
+    case 'email': return new EmailReportDestination(config);
+    default: throw new Error(`Unknown report destination type: ${(config as any).type}`);
+  }
+}
+
+/**
+ * Discord embed for a report (respects the report's sections)
+ */
+export function buildReportEmbed(report: GeneratedReport): EmbedBuilder {
+  const sections = report.data.sections;
+
+  const embed = new EmbedBuilder()
+    .setTitle(report.title)
+    .setDescription(report.summary)
+    .setColor(healthColor(report.data.avgHealthScore))
+    .setTimestamp(report.generatedAt);
+
+  if (sections.includes('insights') && report.insights.length > 0) {
+    embed.addFields({
+      name: '💡 Key Insights',
+      value: report.insights.map((insight, i) => `${i + 1}. ${insight}`).join('\n').slice(0, 1024)
+    });
+  }
+
+  if (sections.includes('recommendations') && report.recommendations.length > 0) {
+    embed.addFields({
+      name: '📋 Recommendations',
+      value: report.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n').slice(0, 1024)
+    });
+  }
+
+  if (sections.includes('topics') && report.data.topTopics.length > 0) {
+    embed.addFields({
+      name: '🔥 Trending Topics',
+      value: report.data.topTopics.join(', ').slice(0, 1024)
+    });
+  }
+
+  embed.setFooter({ text: `Report #${report.id ?? '-'} · Generated in ${report.generationTimeMs}ms` });
+  return embed;
+}
+
+/**
+ * Embed in a channel of the report's guild
+ */
+export class ChannelReportDestination implements ReportDestination {
+  constructor(readonly config: ReportDestinationConfig, private discordClient: Client) {}
+
+  async deliver(report: GeneratedReport): Promise<void> {
+    const channel = await this.discordClient.channels.fetch(this.config.channelId!).catch(() => null);
+
+    // Only channels of the report's own guild
+    if (!channel || !channel.isTextBased() || !('guildId' in channel) || channel.guildId !== report.data.serverId) {
+      throw new Error(`Channel ${this.config.channelId} not found in guild ${report.data.serverId}`);
+    }
+
+    const files = [];
+    if (this.config.format) {
+      const rendered = renderReport(report, this.config.format);
+      files.push(new AttachmentBuilder(Buffer.from(rendered.content, 'utf-8'), { name: rendered.filename }));
+    }
+
+    await (channel as TextChannel).send({ embeds: [buildReportEmbed(report)], files });
+  }
+}
+
+/**
+ * Generic JSON webhook
+ */
+export class WebhookReportDestination implements ReportDestination {
+  constructor(readonly config: ReportDestinationConfig) {}
+
+  async deliver(report: GeneratedReport): Promise<void> {
+    const rendered = this.config.format && this.config.format !== 'json'
+      ? renderReport(report, this.config.format)
+      : null;
+
+    const body = JSON.stringify({
+      event: 'report.generated',
+      report,
+      rendered: rendered
+        ? { format: rendered.format, contentType: rendered.contentType, filename: rendered.filename, content: rendered.content }
+        : undefined,
+      timestamp: new Date().toISOString()
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...(this.config.headers || {}) };
+    if (this.config.secret) {
+      headers['X-Becas-Signature'] = `sha256=${crypto.createHmac('sha256', this.config.secret).update(body).digest('hex')}`;
+    }
+
+    // Same address checks as alert webhooks, and no redirects
+    await postWebhook(this.config.url!, headers, body, DELIVERY_TIMEOUT_MS);
+  }
+}
+
+/**
+ * Email through the configured SMTP relay
+ */
+export class EmailReportDestination implements ReportDestination {
+  constructor(readonly config: ReportDestinationConfig) {}
+
+  async deliver(report: GeneratedReport): Promise<void> {
+    if (!ENV.SMTP_HOST) throw new Error('SMTP is not configured');
+
+    const rendered = renderReport(report, this.config.format || 'html');
+
+    await sendMail(
+      {
+        host: ENV.SMTP_HOST,
+        port: ENV.SMTP_PORT,
+        secure: ENV.SMTP_SECURE,
+        user: ENV.SMTP_USER || undefined,
+        pass: ENV.SMTP_PASS || undefined,
+        from: ENV.SMTP_FROM
+      },
+      {
+        to: this.config.to || [],
+        subject: `[BECAS] ${report.title.replace(/^[^\w(]+/u, '')}`,
+        text: renderMarkdown(report),
+        attachments: [{ filename: rendered.filename, contentType: rendered.contentType, content: rendered.content }]
+      }
+    );
+  }
+}
+
+function healthColor(healthScore: number): number {
+  if (healthScore >= 80) return 0x00FF00; // Green
+  if (healthScore >= 60) return 0xFFFF00; // Yellow
+  if (healthScore >= 40) return 0xFF9900; // Orange
+  return 0xFF0000; // Red
+}
+
+/**
+ * Example destinations:
+ *
+ * await reportGenerator.updateDestinations(serverId, [
+ *   { name: 'mod-channel', type: 'channel', channelId: '123456789012345678', format: 'markdown' },
+ *   { name: 'archive', type: 'webhook', url: 'https://reports.example.com/hook', secret: '...', format: 'html' },
+ *   { name: 'owners', type: 'email', to: ['owner@example.com'], reportTypes: ['monthly'] }
+ * ]);
+ */
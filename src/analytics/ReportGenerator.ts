@@ -1,7 +1,15 @@
 import { Pool } from 'pg';
-import { Client, EmbedBuilder, TextChannel } from 'discord.js';
+import { Client, TextChannel } from 'discord.js';
 import * as cron from 'node-cron';
 import logger from '../utils/logger';
+import { checkWebhookAddress } from './AlertSinks';
+import {
+  ReportDestinationConfig,
+  buildReportEmbed,
+  createReportDestination,
+  destinationAccepts,
+  validateReportDestination
+} from './ReportDestinations';
 
 /**
  * ReportGenerator
@@ -15,13 +23,49 @@ import logger from '../utils/logger';
  * 2. Monthly Summary - First day of month at 9 AM
  * 3. Custom Reports - On-demand for specific periods
  * 4. Incident Reports - After major events
+ *
+ * Reports are delivered to the guild's configured destinations (see
+ * ReportDestinations) and can be downloaded in other formats (see ReportRenderer).
  */
 
+export type ReportType = 'weekly' | 'monthly' | 'custom' | 'incident';
+
+export type ReportSection =
+  | 'overview'
+  | 'health'
+  | 'moderation'
+  | 'anomalies'
+  | 'conflicts'
+  | 'engagement'
+  | 'topics'
+  | 'insights'
+  | 'recommendations';
+
+export const REPORT_SECTIONS: ReportSection[] = [
+  'overview', 'health', 'moderation', 'anomalies', 'conflicts',
+  'engagement', 'topics', 'insights', 'recommendations'
+];
+
+export interface DailyReportStats {
+  date: string; // YYYY-MM-DD
+  healthScore: number;
+  messages: number;
+  activeUsers: number;
+  toxicityRate: number;
+  sentiment: number;
+  moderationActions: number;
+}
+
+export interface CustomReportOptions {
+  sections?: ReportSection[]; // Defaults to all sections
+}
+
 export interface ReportData {
   serverId: string;
-  reportType: 'weekly' | 'monthly' | 'custom' | 'incident';
+  reportType: ReportType;
   periodStart: Date;
   periodEnd: Date;
+  sections: ReportSection[];
 
   // Summary stats
   totalMessages: number;
@@ -56,6 +100,9 @@ export interface ReportData {
   topTopics: string[];
   risingTopics: string[];
   decliningTopics: string[];
+
+  // Per-day series for charts and the daily CSV appendix
+  dailyStats: DailyReportStats[];
 }
 
 export interface GeneratedReport {
@@ -124,7 +171,7 @@ export class ReportGenerator {
     for (const serverId of serverIds) {
       try {
         const report = await this.generateWeeklyReport(serverId);
-        await this.sendReportToServer(serverId, report);
+        await this.deliverReport(report);
       } catch (error) {
         logger.error(`Error generating weekly report for ${serverId}:`, error);
       }
@@ -140,7 +187,7 @@ export class ReportGenerator {
     for (const serverId of serverIds) {
       try {
         const report = await this.generateMonthlyReport(serverId);
-        await this.sendReportToServer(serverId, report);
+        await this.deliverReport(report);
       } catch (error) {
         logger.error(`Error generating monthly report for ${serverId}:`, error);
       }
@@ -170,14 +217,19 @@ export class ReportGenerator {
   }
 
   /**
-   * Generate custom report for specific period
+   * Generate custom report for specific period (optionally only some sections)
    */
   async generateCustomReport(
     serverId: string,
     periodStart: Date,
-    periodEnd: Date
+    periodEnd: Date,
+    options: CustomReportOptions = {}
   ): Promise<GeneratedReport> {
-    return await this.generateReport(serverId, 'custom', periodStart, periodEnd);
+    const sections = options.sections && options.sections.length > 0
+      ? REPORT_SECTIONS.filter(section => options.sections!.includes(section))
+      : REPORT_SECTIONS;
+
+    return await this.generateReport(serverId, 'custom', periodStart, periodEnd, sections);
   }
 
   /**
@@ -185,9 +237,10 @@ export class ReportGenerator {
    */
   private async generateReport(
     serverId: string,
-    reportType: 'weekly' | 'monthly' | 'custom' | 'incident',
+    reportType: ReportType,
     periodStart: Date,
-    periodEnd: Date
+    periodEnd: Date,
+    sections: ReportSection[] = REPORT_SECTIONS
   ): Promise<GeneratedReport> {
     const startTime = Date.now();
 
@@ -196,9 +249,12 @@ export class ReportGenerator {
 
       // 1. Collect report data
       const data = await this.collectReportData(serverId, reportType, periodStart, periodEnd);
+      data.sections = sections;
 
-      // 2. Generate AI insights and recommendations
-      const { insights, recommendations } = await this.generateAIAnalysis(data);
+      // 2. Generate AI insights and recommendations (only if one of them is wanted)
+      const { insights, recommendations } = sections.includes('insights') || sections.includes('recommendations')
+        ? await this.generateAIAnalysis(data)
+        : { insights: [], recommendations: [] };
 
       // 3. Generate title and summary
       const title = this.generateTitle(data);
@@ -215,7 +271,7 @@ export class ReportGenerator {
       };
 
       // 4. Store report in database
-      await this.storeReport(report);
+      report.id = await this.storeReport(report);
 
       logger.info(`✓ Report generated in ${report.generationTimeMs}ms`);
       return report;
@@ -328,11 +384,37 @@ export class ReportGenerator {
     const topicsResult = await this.db.query(topicsQuery, [serverId, periodStart, periodEnd]);
     const allTopics = topicsResult.rows;
 
+    // Get per-day series and moderation breakdown
+    const dailyQuery = `
+      SELECT
+        DATE_TRUNC('day', snapshot_time) as day,
+        AVG(health_score) as health_score,
+        SUM(messages_count) as messages,
+        MAX(active_users_count) as active_users,
+        AVG(toxicity_rate) as toxicity_rate,
+        AVG(avg_sentiment) as sentiment,
+        SUM(moderation_actions_count) as moderation_actions,
+        SUM(warnings_count) as warnings,
+        SUM(timeouts_count) as timeouts,
+        SUM(kicks_count) as kicks,
+        SUM(bans_count) as bans
+      FROM server_health_snapshots
+      WHERE server_id = $1
+      AND snapshot_time >= $2
+      AND snapshot_time <= $3
+      GROUP BY DATE_TRUNC('day', snapshot_time)
+      ORDER BY day ASC
+    `;
+
+    const dailyResult = await this.db.query(dailyQuery, [serverId, periodStart, periodEnd]);
+    const sumDaily = (column: string) => dailyResult.rows.reduce((sum, row) => sum + (parseInt(row[column]) || 0), 0);
+
     return {
       serverId,
-      reportType: reportType as 'custom' | 'weekly' | 'monthly' | 'incident',
+      reportType: reportType as ReportType,
       periodStart,
       periodEnd,
+      sections: REPORT_SECTIONS,
 
       totalMessages: parseInt(summary.total_messages) || 0,
       totalActiveUsers: parseInt(summary.total_active_users) || 0,
@@ -354,10 +436,10 @@ export class ReportGenerator {
       })),
 
       totalModerationActions: parseInt(summary.total_moderation_actions) || 0,
-      warningsCount: 0, // Would need breakdown
-      timeoutsCount: 0,
-      kicksCount: 0,
-      bansCount: 0,
+      warningsCount: sumDaily('warnings'),
+      timeoutsCount: sumDaily('timeouts'),
+      kicksCount: sumDaily('kicks'),
+      bansCount: sumDaily('bans'),
 
       avgMessagesPerDay: (parseInt(summary.total_messages) || 0) / days,
       peakActivityHour: peakHour,
@@ -366,7 +448,17 @@ export class ReportGenerator {
 
       topTopics: allTopics.slice(0, 5).map(t => t.topic),
       risingTopics: allTopics.filter(t => t.trend_status === 'rising').slice(0, 3).map(t => t.topic),
-      decliningTopics: allTopics.filter(t => t.trend_status === 'declining').slice(0, 3).map(t => t.topic)
+      decliningTopics: allTopics.filter(t => t.trend_status === 'declining').slice(0, 3).map(t => t.topic),
+
+      dailyStats: dailyResult.rows.map(row => ({
+        date: new Date(row.day).toISOString().slice(0, 10),
+        healthScore: Math.round(parseFloat(row.health_score) || 0),
+        messages: parseInt(row.messages) || 0,
+        activeUsers: parseInt(row.active_users) || 0,
+        toxicityRate: parseFloat(row.toxicity_rate) || 0,
+        sentiment: parseFloat(row.sentiment) || 0,
+        moderationActions: parseInt(row.moderation_actions) || 0
+      }))
     };
   }
 
@@ -540,13 +632,16 @@ RECOMMENDATIONS:
     summary += `📈 **Activity:** ${data.totalMessages} messages from ${data.totalActiveUsers} users (${data.avgMessagesPerDay.toFixed(0)}/day)\n`;
     summary += `😊 **Sentiment:** ${data.avgSentiment >= 0 ? 'Positive' : 'Negative'} (${data.avgSentiment.toFixed(2)})\n`;
     summary += `🛡️ **Toxicity:** ${(data.avgToxicityRate * 100).toFixed(1)}%\n`;
-    summary += `⚖️ **Moderation:** ${data.totalModerationActions} actions taken\n`;
 
-    if (data.anomaliesCount > 0) {
+    if (data.sections.includes('moderation')) {
+      summary += `⚖️ **Moderation:** ${data.totalModerationActions} actions taken\n`;
+    }
+
+    if (data.sections.includes('anomalies') && data.anomaliesCount > 0) {
       summary += `⚠️ **Anomalies:** ${data.anomaliesCount} detected (${data.criticalAnomalies} critical)\n`;
     }
 
-    if (data.conflictsCount > 0) {
+    if (data.sections.includes('conflicts') && data.conflictsCount > 0) {
       summary += `🤝 **Conflicts:** ${data.conflictsCount} predicted, ${data.conflictsAvoided} avoided\n`;
     }
 
@@ -562,8 +657,8 @@ RECOMMENDATIONS:
       (server_id, report_type, report_period_start, report_period_end,
        title, summary, key_metrics, insights, recommendations,
        health_trend, anomalies_count, conflicts_count, top_topics,
-       generated_at, generation_time_ms)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       generated_at, generation_time_ms, report_data, sections)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
       RETURNING id
     `;
 
@@ -588,86 +683,151 @@ RECOMMENDATIONS:
       report.data.conflictsCount,
       report.data.topTopics,
       report.generatedAt,
-      report.generationTimeMs
+      report.generationTimeMs,
+      JSON.stringify(report.data),
+      report.data.sections
     ]);
 
     return result.rows[0].id;
   }
 
   /**
-   * Send report to server's mod channel
+   * Deliver a report to the guild's configured destinations.
+   * Guilds without destinations keep the old behaviour (first mod/admin channel).
    */
-  private async sendReportToServer(serverId: string, report: GeneratedReport): Promise<void> {
+  async deliverReport(report: GeneratedReport): Promise<string[]> {
+    const serverId = report.data.serverId;
+    const destinations = await this.getDestinations(serverId);
+    const delivered: string[] = [];
+
+    if (destinations.length === 0) {
+      const channelId = await this.sendToModChannel(report);
+      if (channelId) delivered.push(`channel:${channelId}`);
+    } else {
+      for (const config of destinations) {
+        if (!destinationAccepts(config, report)) continue;
+
+        try {
+          await createReportDestination(config, this.discordClient).deliver(report);
+          delivered.push(config.name);
+        } catch (error) {
+          logger.error(`Report destination ${config.name} failed for ${serverId}:`, error);
+        }
+      }
+    }
+
+    if (report.id && delivered.length > 0) {
+      const channel = destinations.find(d => d.type === 'channel' && delivered.includes(d.name));
+      await this.db.query(
+        `UPDATE analytics_reports
+         SET delivered_to = $1, sent_at = CURRENT_TIMESTAMP, sent_to_channel = COALESCE($2, sent_to_channel)
+         WHERE id = $3`,
+        [delivered, channel?.channelId || null, report.id]
+      ).catch(error => logger.error('Error recording report delivery:', error));
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Fallback for guilds without configured destinations: first channel named like mod/admin
+   */
+  private async sendToModChannel(report: GeneratedReport): Promise<string | null> {
     try {
-      // Find mod/admin channel
-      const guild = this.discordClient.guilds.cache.get(serverId);
-      if (!guild) return;
+      const guild = this.discordClient.guilds.cache.get(report.data.serverId);
+      if (!guild) return null;
 
-      // Look for a channel named "mod-logs", "admin", or first text channel
       const modChannel = guild.channels.cache.find(
         ch => ch.isTextBased() && (ch.name.includes('mod') || ch.name.includes('admin'))
       ) as TextChannel | undefined;
 
       if (!modChannel) {
-        logger.warn(`No mod channel found for server ${serverId}`);
-        return;
+        logger.warn(`No report destinations configured and no mod channel found for server ${report.data.serverId}`);
+        return null;
       }
 
-      // Create Discord embed
-      const embed = new EmbedBuilder()
-        .setTitle(report.title)
-        .setDescription(report.summary)
-        .setColor(this.getHealthColor(report.data.avgHealthScore))
-        .setTimestamp(report.generatedAt);
-
-      // Add insights
-      if (report.insights.length > 0) {
-        embed.addFields({
-          name: '💡 Key Insights',
-          value: report.insights.map((insight, i) => `${i + 1}. ${insight}`).join('\n').slice(0, 1024)
-        });
-      }
+      await modChannel.send({ embeds: [buildReportEmbed(report)] });
+      logger.info(`Report sent to ${guild.name} (no destinations configured, used #${modChannel.name})`);
+      return modChannel.id;
 
-      // Add recommendations
-      if (report.recommendations.length > 0) {
-        embed.addFields({
-          name: '📋 Recommendations',
-          value: report.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n').slice(0, 1024)
-        });
-      }
+    } catch (error) {
+      logger.error('Error sending report to server:', error);
+      return null;
+    }
+  }
 
-      // Add top topics if available
-      if (report.data.topTopics.length > 0) {
-        embed.addFields({
-          name: '🔥 Trending Topics',
-          value: report.data.topTopics.join(', ')
-        });
-      }
+  /**
+   * Get a guild's report destinations
+   */
+  async getDestinations(serverId: string): Promise<ReportDestinationConfig[]> {
+    const result = await this.db.query(
+      'SELECT destinations FROM report_destinations WHERE server_id = $1',
+      [serverId]
+    );
 
-      embed.setFooter({ text: `Generated in ${report.generationTimeMs}ms` });
+    return result.rows[0]?.destinations || [];
+  }
 
-      await modChannel.send({ embeds: [embed] });
-      logger.info(`Report sent to ${guild.name}`);
+  /**
+   * Replace a guild's report destinations (validated and persisted)
+   */
+  async updateDestinations(serverId: string, destinations: ReportDestinationConfig[]): Promise<void> {
+    if (!Array.isArray(destinations)) throw new Error('destinations must be an array');
 
-      // Update database
-      await this.db.query(
-        'UPDATE analytics_reports SET sent_to_channel = $1, sent_at = CURRENT_TIMESTAMP WHERE id = $2',
-        [modChannel.id, report.id]
-      );
+    for (const destination of destinations) {
+      const problem = validateReportDestination(destination);
+      if (problem) throw new Error(problem);
 
-    } catch (error) {
-      logger.error('Error sending report to server:', error);
+      if (destination.type === 'webhook') {
+        const addressProblem = await checkWebhookAddress(destination.name, destination.url);
+        if (addressProblem) throw new Error(addressProblem);
+      }
+
+      // Channels must belong to this guild
+      if (destination.type === 'channel') {
+        const channel = await this.discordClient.channels.fetch(destination.channelId!).catch(() => null);
+        if (!channel || !channel.isTextBased() || !('guildId' in channel) || channel.guildId !== serverId) {
+          throw new Error(`Channel ${destination.channelId} is not a text channel of this server`);
+        }
+      }
+    }
+
+    const names = destinations.map(d => d.name);
+    if (new Set(names).size !== names.length) {
+      throw new Error('Destination names must be unique');
     }
+
+    await this.db.query(
+      `INSERT INTO report_destinations (server_id, destinations, updated_at)
+       VALUES ($1, $2, NOW())
+       ON CONFLICT (server_id) DO UPDATE SET destinations = $2, updated_at = NOW()`,
+      [serverId, JSON.stringify(destinations)]
+    );
+
+    logger.info(`Updated report destinations for server ${serverId} (${destinations.length})`);
   }
 
   /**
-   * Get color based on health score
+   * Send the latest report (or a placeholder) to one destination
    */
-  private getHealthColor(healthScore: number): number {
-    if (healthScore >= 80) return 0x00FF00; // Green
-    if (healthScore >= 60) return 0xFFFF00; // Yellow
-    if (healthScore >= 40) return 0xFF9900; // Orange
-    return 0xFF0000; // Red
+  async testDestination(serverId: string, name: string): Promise<void> {
+    const config = (await this.getDestinations(serverId)).find(d => d.name === name);
+    if (!config) {
+      throw new Error(`Destination ${name} not configured`);
+    }
+
+    const [latest] = await this.getRecentReports(serverId, 1);
+    const report: GeneratedReport = latest || {
+      data: this.emptyReportData(serverId, 'custom', new Date(), new Date()),
+      title: '🔔 BECAS test report',
+      summary: `This is a test of the "${name}" report destination.`,
+      insights: [],
+      recommendations: [],
+      generatedAt: new Date(),
+      generationTimeMs: 0
+    };
+
+    await createReportDestination(config, this.discordClient).deliver(report);
   }
 
   /**
@@ -682,39 +842,94 @@ RECOMMENDATIONS:
     `;
 
     const result = await this.db.query(query, [serverId, limit]);
+    return result.rows.map(row => this.rowToReport(row));
+  }
+
+  /**
+   * Get a single report
+   */
+  async getReport(serverId: string, reportId: number): Promise<GeneratedReport | null> {
+    const result = await this.db.query(
+      'SELECT * FROM analytics_reports WHERE server_id = $1 AND id = $2',
+      [serverId, reportId]
+    );
+
+    return result.rows[0] ? this.rowToReport(result.rows[0]) : null;
+  }
+
+  private rowToReport(row: any): GeneratedReport {
+    const stored = parseJson(row.report_data, null);
 
-    return result.rows.map(row => ({
+    // Reports stored before report_data existed only kept the key metrics
+    const data: ReportData = stored
+      ? { ...stored, periodStart: new Date(stored.periodStart), periodEnd: new Date(stored.periodEnd) }
+      : {
+          ...this.emptyReportData(row.server_id, row.report_type, new Date(row.report_period_start), new Date(row.report_period_end)),
+          ...parseJson(row.key_metrics, {}),
+          healthTrend: row.health_trend,
+          anomaliesCount: row.anomalies_count,
+          conflictsCount: row.conflicts_count,
+          topTopics: row.top_topics || []
+        };
+
+    data.sections = row.sections || data.sections || REPORT_SECTIONS;
+
+    return {
       id: row.id,
-      data: {
-        serverId: row.server_id,
-        reportType: row.report_type,
-        periodStart: new Date(row.report_period_start),
-        periodEnd: new Date(row.report_period_end),
-        ...JSON.parse(row.key_metrics || '{}'),
-        healthTrend: row.health_trend,
-        anomaliesCount: row.anomalies_count,
-        conflictsCount: row.conflicts_count,
-        topTopics: row.top_topics || [],
-        topAnomalyTypes: [],
-        conflictsAvoided: 0,
-        topConflictUsers: [],
-        totalModerationActions: 0,
-        warningsCount: 0,
-        timeoutsCount: 0,
-        kicksCount: 0,
-        bansCount: 0,
-        avgMessagesPerDay: 0,
-        peakActivityHour: 12,
-        risingTopics: [],
-        decliningTopics: []
-      },
+      data,
       title: row.title,
       summary: row.summary,
-      insights: JSON.parse(row.insights || '[]'),
-      recommendations: JSON.parse(row.recommendations || '[]'),
+      insights: parseJson(row.insights, []),
+      recommendations: parseJson(row.recommendations, []),
       generatedAt: new Date(row.generated_at),
       generationTimeMs: row.generation_time_ms
-    }));
+    };
+  }
+
+  private emptyReportData(serverId: string, reportType: ReportType, periodStart: Date, periodEnd: Date): ReportData {
+    return {
+      serverId,
+      reportType,
+      periodStart,
+      periodEnd,
+      sections: REPORT_SECTIONS,
+      totalMessages: 0,
+      totalActiveUsers: 0,
+      avgHealthScore: 100,
+      healthTrend: 'stable',
+      anomaliesCount: 0,
+      criticalAnomalies: 0,
+      topAnomalyTypes: [],
+      conflictsCount: 0,
+      conflictsAvoided: 0,
+      topConflictUsers: [],
+      totalModerationActions: 0,
+      warningsCount: 0,
+      timeoutsCount: 0,
+      kicksCount: 0,
+      bansCount: 0,
+      avgMessagesPerDay: 0,
+      peakActivityHour: 12,
+      avgToxicityRate: 0,
+      avgSentiment: 0,
+      topTopics: [],
+      risingTopics: [],
+      decliningTopics: [],
+      dailyStats: []
+    };
+  }
+}
+
+/**
+ * pg returns JSONB already parsed; older rows may hold JSON text
+ */
+function parseJson<T>(value: any, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fallback;
   }
 }
 
@@ -731,13 +946,20 @@ RECOMMENDATIONS:
  * console.log(report.title);
  * console.log(report.insights);
  *
- * // Generate custom report
+ * // Generate custom report with only some sections
  * const customReport = await generator.generateCustomReport(
  *   serverId,
  *   new Date('2025-01-01'),
- *   new Date('2025-01-31')
+ *   new Date('2025-01-31'),
+ *   { sections: ['overview', 'moderation', 'recommendations'] }
  * );
  *
+ * // Deliver it to the guild's configured destinations
+ * await generator.deliverReport(customReport);
+ *
+ * // Render for download
+ * const html = renderReport(customReport, 'html');
+ *
  * // Get recent reports
  * const reports = await generator.getRecentReports(serverId, 5);
  */
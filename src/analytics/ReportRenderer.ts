@@ -0,0 +1,436 @@
+import type { GeneratedReport, ReportSection } from './ReportGenerator';
+import { csvCell } from '../utils/csv';
+
+/**
+ * ReportRenderer
+ *
+ * Renders a generated report for download or delivery outside Discord.
+ *
+ * Formats:
+ * 1. markdown - Readable text report (also used as the email body)
+ * 2. html     - Self-contained page with inline SVG charts (no external assets)
+ * 3. csv      - Data appendices (metrics, daily, anomalies, conflicts, topics)
+ * 4. json     - The full report object
+ *
+ * Only the sections selected for the report are rendered.
+ */
+
+export type ReportFormat = 'markdown' | 'html' | 'csv' | 'json';
+export type ReportAppendix = 'metrics' | 'daily' | 'anomalies' | 'conflicts' | 'topics';
+
+export const REPORT_FORMATS: ReportFormat[] = ['markdown', 'html', 'csv', 'json'];
+export const REPORT_APPENDICES: ReportAppendix[] = ['metrics', 'daily', 'anomalies', 'conflicts', 'topics'];
+
+export interface RenderedReport {
+  format: ReportFormat;
+  contentType: string;
+  filename: string;
+  content: string;
+}
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8'
+};
+
+const EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  csv: 'csv',
+  json: 'json'
+};
+
+/**
+ * Render a report in the given format
+ */
+export function renderReport(
+  report: GeneratedReport,
+  format: ReportFormat,
+  appendix: ReportAppendix = 'metrics'
+): RenderedReport {
+  let content: string;
+
+  switch (format) {
+    case 'markdown': content = renderMarkdown(report); break;
+    case 'html': content = renderHtml(report); break;
+    case 'csv': content = renderCsv(report, appendix); break;
+    case 'json': content = JSON.stringify(report, null, 2); break;
+    default: throw new Error(`Unknown report format: ${format}`);
+  }
+
+  const suffix = format === 'csv' ? `-${appendix}` : '';
+
+  return {
+    format,
+    contentType: CONTENT_TYPES[format],
+    filename: `becas-report-${report.data.serverId}-${report.id ?? 'draft'}${suffix}.${EXTENSIONS[format]}`,
+    content
+  };
+}
+
+/**
+ * Markdown
+ */
+export function renderMarkdown(report: GeneratedReport): string {
+  const { data } = report;
+  const has = (section: ReportSection) => data.sections.includes(section);
+  const lines: string[] = [
+    `# ${report.title}`,
+    '',
+    `_Period: ${formatDate(data.periodStart)} – ${formatDate(data.periodEnd)} · Generated ${report.generatedAt.toISOString()}_`,
+    ''
+  ];
+
+  if (has('overview')) {
+    lines.push('## Overview', '', '| Metric | Value |', '| --- | --- |');
+    for (const [label, value] of overviewMetrics(report)) {
+      lines.push(`| ${label} | ${mdCell(value)} |`);
+    }
+    lines.push('');
+  }
+
+  if (has('health')) {
+    lines.push('## Health', '', `Average health score **${data.avgHealthScore}/100**, trend **${data.healthTrend}**.`, '');
+    if (data.dailyStats.length > 0) {
+      lines.push('| Date | Health | Messages | Toxicity |', '| --- | --- | --- | --- |');
+      for (const day of data.dailyStats) {
+        lines.push(`| ${day.date} | ${day.healthScore} | ${day.messages} | ${percent(day.toxicityRate)} |`);
+      }
+      lines.push('');
+    }
+  }
+
+  if (has('moderation')) {
+    lines.push(
+      '## Moderation',
+      '',
+      `- Total actions: ${data.totalModerationActions}`,
+      `- Warnings: ${data.warningsCount}`,
+      `- Timeouts: ${data.timeoutsCount}`,
+      `- Kicks: ${data.kicksCount}`,
+      `- Bans: ${data.bansCount}`,
+      ''
+    );
+  }
+
+  if (has('anomalies')) {
+    lines.push('## Anomalies', '', `${data.anomaliesCount} detected (${data.criticalAnomalies} high/critical).`, '');
+    for (const anomaly of data.topAnomalyTypes) {
+      lines.push(`- ${mdText(anomaly.type)}: ${anomaly.count}`);
+    }
+    if (data.topAnomalyTypes.length > 0) lines.push('');
+  }
+
+  if (has('conflicts')) {
+    lines.push('## Conflicts', '', `${data.conflictsCount} predicted, ${data.conflictsAvoided} avoided.`, '');
+    for (const user of data.topConflictUsers) {
+      lines.push(`- <@${user.userId}>: ${user.conflictCount} conflict(s)`);
+    }
+    if (data.topConflictUsers.length > 0) lines.push('');
+  }
+
+  if (has('engagement')) {
+    lines.push(
+      '## Engagement',
+      '',
+      `- Messages per day: ${data.avgMessagesPerDay.toFixed(0)}`,
+      `- Peak activity hour: ${String(data.peakActivityHour).padStart(2, '0')}:00`,
+      `- Average sentiment: ${data.avgSentiment.toFixed(2)}`,
+      `- Toxicity rate: ${percent(data.avgToxicityRate)}`,
+      ''
+    );
+  }
+
+  if (has('topics')) {
+    lines.push('## Topics', '');
+    lines.push(`- Top: ${data.topTopics.map(mdText).join(', ') || 'none'}`);
+    lines.push(`- Rising: ${data.risingTopics.map(mdText).join(', ') || 'none'}`);
+    lines.push(`- Declining: ${data.decliningTopics.map(mdText).join(', ') || 'none'}`);
+    lines.push('');
+  }
+
+  if (has('insights') && report.insights.length > 0) {
+    lines.push('## Key Insights', '', ...report.insights.map((insight, i) => `${i + 1}. ${mdText(insight)}`), '');
+  }
+
+  if (has('recommendations') && report.recommendations.length > 0) {
+    lines.push('## Recommendations', '', ...report.recommendations.map((rec, i) => `${i + 1}. ${mdText(rec)}`), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Self-contained HTML with inline SVG charts
+ */
+export function renderHtml(report: GeneratedReport): string {
+  const { data } = report;
+  const has = (section: ReportSection) => data.sections.includes(section);
+  const body: string[] = [];
+
+  if (has('overview')) {
+    body.push('<h2>Overview</h2><div class="cards">');
+    for (const [label, value] of overviewMetrics(report)) {
+      body.push(`<div class="card"><div class="label">${esc(label)}</div><div class="value">${esc(value)}</div></div>`);
+    }
+    body.push('</div>');
+  }
+
+  if (has('health')) {
+    body.push(`<h2>Health</h2><p>Average health score <b>${data.avgHealthScore}/100</b>, trend <b>${esc(data.healthTrend)}</b>.</p>`);
+    if (data.dailyStats.length > 0) {
+      body.push(lineChart(data.dailyStats.map(d => ({ label: d.date.slice(5), value: d.healthScore })), 100, '#2e9e5b'));
+    }
+  }
+
+  if (has('moderation')) {
+    body.push(`<h2>Moderation</h2><p>${data.totalModerationActions} action(s) taken.</p>`);
+    body.push(barChart([
+      { label: 'Warnings', value: data.warningsCount },
+      { label: 'Timeouts', value: data.timeoutsCount },
+      { label: 'Kicks', value: data.kicksCount },
+      { label: 'Bans', value: data.bansCount }
+    ], '#e67e22'));
+  }
+
+  if (has('anomalies')) {
+    body.push(`<h2>Anomalies</h2><p>${data.anomaliesCount} detected (${data.criticalAnomalies} high/critical).</p>`);
+    if (data.topAnomalyTypes.length > 0) {
+      body.push(barChart(data.topAnomalyTypes.map(a => ({ label: a.type, value: a.count })), '#c0392b'));
+    }
+  }
+
+  if (has('conflicts')) {
+    body.push(`<h2>Conflicts</h2><p>${data.conflictsCount} predicted, ${data.conflictsAvoided} avoided.</p>`);
+    if (data.topConflictUsers.length > 0) {
+      body.push('<table><tr><th>User</th><th>Conflicts</th></tr>');
+      for (const user of data.topConflictUsers) {
+        body.push(`<tr><td>${esc(user.userId)}</td><td>${user.conflictCount}</td></tr>`);
+      }
+      body.push('</table>');
+    }
+  }
+
+  if (has('engagement')) {
+    body.push(
+      '<h2>Engagement</h2><ul>',
+      `<li>Messages per day: ${data.avgMessagesPerDay.toFixed(0)}</li>`,
+      `<li>Peak activity hour: ${String(data.peakActivityHour).padStart(2, '0')}:00</li>`,
+      `<li>Average sentiment: ${data.avgSentiment.toFixed(2)}</li>`,
+      `<li>Toxicity rate: ${percent(data.avgToxicityRate)}</li>`,
+      '</ul>'
+    );
+    if (data.dailyStats.length > 0) {
+      body.push(barChart(data.dailyStats.map(d => ({ label: d.date.slice(5), value: d.messages })), '#3498db'));
+    }
+  }
+
+  if (has('topics')) {
+    body.push(
+      '<h2>Topics</h2><ul>',
+      `<li>Top: ${esc(data.topTopics.join(', ') || 'none')}</li>`,
+      `<li>Rising: ${esc(data.risingTopics.join(', ') || 'none')}</li>`,
+      `<li>Declining: ${esc(data.decliningTopics.join(', ') || 'none')}</li>`,
+      '</ul>'
+    );
+  }
+
+  if (has('insights') && report.insights.length > 0) {
+    body.push('<h2>Key Insights</h2><ol>', ...report.insights.map(i => `<li>${esc(i)}</li>`), '</ol>');
+  }
+
+  if (has('recommendations') && report.recommendations.length > 0) {
+    body.push('<h2>Recommendations</h2><ol>', ...report.recommendations.map(r => `<li>${esc(r)}</li>`), '</ol>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(report.title)}</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; max-width: 860px; margin: 2em auto; padding: 0 1em; color: #222; }
+h1 { font-size: 1.6em; } h2 { border-bottom: 1px solid #ddd; padding-bottom: .2em; margin-top: 1.6em; }
+.meta { color: #777; font-size: .9em; }
+.cards { display: flex; flex-wrap: wrap; gap: .6em; }
+.card { border: 1px solid #ddd; border-radius: 6px; padding: .6em .9em; min-width: 130px; }
+.card .label { color: #777; font-size: .8em; } .card .value { font-size: 1.3em; font-weight: 600; }
+table { border-collapse: collapse; } td, th { border: 1px solid #ddd; padding: .3em .7em; text-align: left; }
+svg text { font-size: 11px; fill: #555; }
+</style>
+</head>
+<body>
+<h1>${esc(report.title)}</h1>
+<p class="meta">Period: ${formatDate(data.periodStart)} – ${formatDate(data.periodEnd)} · Generated ${esc(report.generatedAt.toISOString())}</p>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * CSV data appendix
+ */
+export function renderCsv(report: GeneratedReport, appendix: ReportAppendix): string {
+  const { data } = report;
+  let rows: any[][];
+
+  switch (appendix) {
+    case 'metrics':
+      rows = [['metric', 'value'], ...metricRows(report)];
+      break;
+    case 'daily':
+      rows = [
+        ['date', 'health_score', 'messages', 'active_users', 'toxicity_rate', 'sentiment', 'moderation_actions'],
+        ...data.dailyStats.map(d => [d.date, d.healthScore, d.messages, d.activeUsers, d.toxicityRate, d.sentiment, d.moderationActions])
+      ];
+      break;
+    case 'anomalies':
+      rows = [['type', 'count'], ...data.topAnomalyTypes.map(a => [a.type, a.count])];
+      break;
+    case 'conflicts':
+      rows = [['user_id', 'conflict_count'], ...data.topConflictUsers.map(u => [u.userId, u.conflictCount])];
+      break;
+    case 'topics':
+      rows = [
+        ['topic', 'category'],
+        ...data.topTopics.map(t => [t, 'top']),
+        ...data.risingTopics.map(t => [t, 'rising']),
+        ...data.decliningTopics.map(t => [t, 'declining'])
+      ];
+      break;
+    default:
+      throw new Error(`Unknown report appendix: ${appendix}`);
+  }
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function overviewMetrics(report: GeneratedReport): Array<[string, string]> {
+  const { data } = report;
+  return [
+    ['Health score', `${data.avgHealthScore}/100 (${data.healthTrend})`],
+    ['Messages', String(data.totalMessages)],
+    ['Active users', String(data.totalActiveUsers)],
+    ['Sentiment', data.avgSentiment.toFixed(2)],
+    ['Toxicity', percent(data.avgToxicityRate)],
+    ['Moderation actions', String(data.totalModerationActions)],
+    ['Anomalies', String(data.anomaliesCount)],
+    ['Conflicts', String(data.conflictsCount)]
+  ];
+}
+
+function metricRows(report: GeneratedReport): any[][] {
+  const { data } = report;
+  return [
+    ['report_id', report.id ?? ''],
+    ['report_type', data.reportType],
+    ['period_start', data.periodStart.toISOString()],
+    ['period_end', data.periodEnd.toISOString()],
+    ['total_messages', data.totalMessages],
+    ['total_active_users', data.totalActiveUsers],
+    ['avg_health_score', data.avgHealthScore],
+    ['health_trend', data.healthTrend],
+    ['anomalies_count', data.anomaliesCount],
+    ['critical_anomalies', data.criticalAnomalies],
+    ['conflicts_count', data.conflictsCount],
+    ['conflicts_avoided', data.conflictsAvoided],
+    ['total_moderation_actions', data.totalModerationActions],
+    ['warnings_count', data.warningsCount],
+    ['timeouts_count', data.timeoutsCount],
+    ['kicks_count', data.kicksCount],
+    ['bans_count', data.bansCount],
+    ['avg_messages_per_day', data.avgMessagesPerDay.toFixed(2)],
+    ['peak_activity_hour', data.peakActivityHour],
+    ['avg_toxicity_rate', data.avgToxicityRate],
+    ['avg_sentiment', data.avgSentiment]
+  ];
+}
+
+interface ChartPoint {
+  label: string;
+  value: number;
+}
+
+function barChart(points: ChartPoint[], color: string): string {
+  const width = 760;
+  const barArea = width - 140;
+  const rowHeight = 22;
+  const max = Math.max(1, ...points.map(p => p.value));
+
+  const bars = points.map((p, i) => {
+    const y = i * rowHeight;
+    const w = Math.max(1, Math.round((p.value / max) * (barArea - 50)));
+    return `<text x="0" y="${y + 15}">${esc(truncate(p.label, 20))}</text>` +
+      `<rect x="140" y="${y + 4}" width="${w}" height="14" fill="${color}" rx="2"/>` +
+      `<text x="${140 + w + 6}" y="${y + 15}">${p.value}</text>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${points.length * rowHeight + 4}" role="img">${bars.join('')}</svg>`;
+}
+
+function lineChart(points: ChartPoint[], maxValue: number, color: string): string {
+  const width = 760;
+  const height = 200;
+  const pad = { left: 36, right: 10, top: 10, bottom: 24 };
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+  const step = points.length > 1 ? plotW / (points.length - 1) : 0;
+
+  const coords = points.map((p, i) => ({
+    x: pad.left + i * step,
+    y: pad.top + plotH - (Math.min(p.value, maxValue) / maxValue) * plotH
+  }));
+
+  const grid = [0, 25, 50, 75, 100].map(v => {
+    const y = pad.top + plotH - (v / 100) * plotH;
+    return `<line x1="${pad.left}" y1="${y}" x2="${width - pad.right}" y2="${y}" stroke="#eee"/>` +
+      `<text x="4" y="${y + 4}">${Math.round((v / 100) * maxValue)}</text>`;
+  });
+
+  // Label at most ~12 days along the x axis
+  const every = Math.max(1, Math.ceil(points.length / 12));
+  const labels = points
+    .map((p, i) => (i % every === 0 ? `<text x="${coords[i].x - 14}" y="${height - 6}">${esc(p.label)}</text>` : ''))
+    .join('');
+
+  const path = coords.map(c => `${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(' ');
+  const dots = coords.map(c => `<circle cx="${c.x.toFixed(1)}" cy="${c.y.toFixed(1)}" r="3" fill="${color}"/>`).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img">${grid.join('')}` +
+    `<polyline points="${path}" fill="none" stroke="${color}" stroke-width="2"/>${dots}${labels}</svg>`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function percent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.slice(0, length - 1) + '…' : text;
+}
+
+function esc(value: any): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Topics and AI text are user-influenced - keep them from breaking Markdown structure
+ */
+function mdText(value: string): string {
+  return value.replace(/([\\`*_[\]<>|])/g, '\\$1').replace(/\s*\n\s*/g, ' ');
+}
+
+function mdCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
@@ -2,6 +2,8 @@
 
 import { OllamaService } from '../services/OllamaService';
 import axios from 'axios';
+import { lookalikeDetector } from './links/LookalikeDetector';
+import { hostnameOf, isShortener } from './links/UrlExpander';
 
 export interface ImageAnalysis {
   isInappropriate: boolean;
@@ -99,12 +101,12 @@ Respond with:
    */
   isSuspiciousUrl(url: string): boolean {
     const suspiciousPatterns = [
-      /bit\.ly/i,
-      /tinyurl/i,
       /\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}/i, // Raw IP
       /scam|phishing|malware/i,
     ];
 
-    return suspiciousPatterns.some(pattern => pattern.test(url));
+    return suspiciousPatterns.some(pattern => pattern.test(url)) ||
+      isShortener(url) ||
+      (lookalikeDetector.check(hostnameOf(url))?.confidence ?? 0) >= 0.5;
   }
 }
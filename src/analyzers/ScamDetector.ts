@@ -2,6 +2,9 @@
 
 import { OllamaService } from '../services/OllamaService';
 import { metricsService } from '../services/MetricsService';
+import { inferenceScheduler, InferenceSchedulingError } from '../services/InferenceScheduler';
+import { ReflexLayer } from '../ai/layers/ReflexLayer';
+import { LinkAnalysis, linkAnalyzer } from './links/LinkAnalyzer';
 
 export interface ScamAnalysis {
   isScam: boolean;
@@ -15,6 +18,7 @@ export interface ScamAnalysis {
 
 export class ScamDetector {
   private ollama: OllamaService;
+  private reflex: ReflexLayer = new ReflexLayer();
 
   constructor() {
     // 🔥 USE QWEN3:1.7B for scam detection - fast & intelligent context understanding
@@ -28,8 +32,15 @@ export class ScamDetector {
   async analyze(text: string, authorHistory?: string, guildId?: string): Promise<ScamAnalysis> {
     console.log('🧠 Running AI-powered scam detection...');
 
-    // AI does ALL the work - no cheap patterns
-    const aiResult = await this.aiAnalysis(text, authorHistory);
+    // Link intelligence first - a lookalike or known-bad domain needs no model call
+    const links = await linkAnalyzer.analyze(text, guildId);
+
+    // AI does ALL the other work - no cheap patterns (unless the reflex-class deadline passes)
+    const aiResult = links.malicious
+      ? this.linkAnalysis(links)
+      : await inferenceScheduler.withPriority('reflex', () => this.aiAnalysis(text, authorHistory, links), {
+        degrade: () => this.reflexAnalysis(text),
+      });
 
     // STRICTER DETECTION: Lower thresholds to catch scammers faster
     // NO MERCY for scammers - they deserve ZERO second chances
@@ -50,6 +61,14 @@ export class ScamDetector {
       );
     }
 
+    // Teach domain reputation what the links led to (reputation-only verdicts would just reinforce themselves)
+    const learned = !links.malicious || links.links.some(link => link.lookalike);
+    if (guildId && learned && (isScam || aiResult.confidence < 0.3)) {
+      linkAnalyzer
+        .reportOutcome(guildId, links.links, isScam, `${aiResult.scamType}: ${aiResult.reasoning}`.slice(0, 500), aiResult.confidence)
+        .catch(error => console.error('Failed to record link outcome:', error));
+    }
+
     return {
       isScam,
       confidence: aiResult.confidence,
@@ -64,7 +83,7 @@ export class ScamDetector {
   /**
    * AI-powered contextual analysis - THE ONLY ANALYSIS
    */
-  private async aiAnalysis(text: string, authorHistory?: string): Promise<{
+  private async aiAnalysis(text: string, authorHistory?: string, links?: LinkAnalysis): Promise<{
     confidence: number;
     indicators: string[];
     reasoning: string;
@@ -85,6 +104,9 @@ export class ScamDetector {
 MESSAGE: "${cleanText}"
 
 ${urls.length > 0 ? `URLs FOUND: ${urls.join(', ')}` : ''}
+${links && links.links.some(link => link.reasons.length > 0 || link.finalUrl !== link.url)
+  ? `LINK CHECKS:\n${links.links.map(link => `- ${link.url}${link.finalUrl !== link.url ? ` -> ${link.finalUrl}` : ''}${link.reasons.length > 0 ? ` (${link.reasons.join('; ')})` : ''}`).join('\n')}`
+  : ''}
 
 ${authorHistory ? `USER CONTEXT: ${authorHistory}` : ''}
 
@@ -156,6 +178,8 @@ Legitimate bot interactions are NOT scams.`;
         severity: result.severity || 'none',
       };
     } catch (error) {
+      if (error instanceof InferenceSchedulingError) throw error; // analyze() degrades to ReflexLayer
+
       console.error('AI scam analysis failed:', error);
 
       // 🔥 FALLBACK: When AI fails, use aggressive pattern matching to catch scams!
@@ -217,4 +241,47 @@ Legitimate bot interactions are NOT scams.`;
       };
     }
   }
+  /**
+   * Verdict straight from link intelligence (lookalike brand domain, blocked or known-bad domain)
+   */
+  private linkAnalysis(links: LinkAnalysis): {
+    confidence: number;
+    indicators: string[];
+    reasoning: string;
+    scamType: ScamAnalysis['scamType'];
+    severity: ScamAnalysis['severity'];
+  } {
+    const flagged = links.links.filter(link => link.risk >= links.maxRisk);
+
+    return {
+      confidence: links.maxRisk,
+      indicators: flagged.flatMap(link => link.reasons),
+      reasoning: `Link intelligence flagged ${flagged.map(link => link.domain).join(', ')}`,
+      scamType: flagged.some(link => link.lookalike) ? 'phishing' : 'malicious_link',
+      severity: links.maxRisk >= 0.9 ? 'critical' : 'high',
+    };
+  }
+
+  /**
+   * ReflexLayer heuristic when the AI check is shed under load or misses its deadline
+   */
+  private reflexAnalysis(text: string): {
+    confidence: number;
+    indicators: string[];
+    reasoning: string;
+    scamType: ScamAnalysis['scamType'];
+    severity: ScamAnalysis['severity'];
+  } {
+    const reflex = this.reflex.analyzeText(text);
+    const isScam = reflex.classification === 'SCAM';
+    const isSuspicious = reflex.classification === 'SUSPICIOUS';
+
+    return {
+      confidence: isScam || isSuspicious ? Math.min(reflex.confidence, 1) : 0,
+      indicators: reflex.patterns.map(pattern => 'Pattern match: ' + pattern),
+      reasoning: `AI check missed its deadline - ReflexLayer heuristic: ${reflex.reason}`,
+      scamType: isScam ? 'social_engineering' : 'none',
+      severity: isScam ? 'high' : isSuspicious ? 'low' : 'none',
+    };
+  }
 }
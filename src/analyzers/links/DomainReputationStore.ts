@@ -0,0 +1,218 @@
+import { Pool } from 'pg';
+import { getPostgresPool } from '../../database/config';
+import type { FederationNode } from '../../federation/FederationNode';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('DomainReputationStore');
+
+/**
+ * DOMAIN REPUTATION STORE - What moderation outcomes say about a domain
+ *
+ * Every link verdict is counted twice: on the guild's row and on the network
+ * row (server_id '*'), which also collects malicious_domain threats received
+ * from federation peers. Risk is a smoothed share of malicious reports; a
+ * verdict pinned by a guild admin overrides the counts for that guild.
+ * Network risk only reaches full weight once NETWORK_MIN_SOURCES distinct
+ * guilds or peers reported the domain, so one source cannot make it malicious.
+ * Database errors are logged and treated as "no reputation".
+ */
+
+export type DomainVerdict = 'trusted' | 'blocked';
+
+export const NETWORK_SERVER_ID = '*';
+
+export interface DomainReputation {
+  domain: string;
+  serverId: string;
+  maliciousReports: number;
+  benignReports: number;
+  verdict: DomainVerdict | null;
+  maliciousSources: string[]; // Guilds and peer:<instanceId> that reported it malicious
+  lastReason: string | null;
+  firstSeen: Date;
+  lastSeen: Date;
+}
+
+export interface DomainRisk {
+  domain: string;
+  risk: number; // 0-1
+  source: 'override' | 'guild' | 'network' | 'none';
+  verdict: DomainVerdict | null;
+  guild?: DomainReputation;
+  network?: DomainReputation;
+}
+
+const NETWORK_WEIGHT = 0.8; // Network reports count slightly less than the guild's own
+const NETWORK_MIN_SOURCES = 3; // Distinct reporters before network reports carry their full weight
+const SHARE_MIN_CONFIDENCE = 0.8; // Same bar ServerFederation.shareThreat applies
+
+export class DomainReputationStore {
+  private node?: FederationNode;
+
+  constructor(private db?: Pool) {}
+
+  /**
+   * Publish high-confidence malicious domains to federation peers
+   */
+  setFederationNode(node: FederationNode): void {
+    this.node = node;
+  }
+
+  async getRisk(domain: string, serverId?: string): Promise<DomainRisk> {
+    const rows = await this.fetch(domain, serverId ? [serverId, NETWORK_SERVER_ID] : [NETWORK_SERVER_ID]);
+    const guild = serverId ? rows.find(r => r.serverId === serverId) : undefined;
+    const network = rows.find(r => r.serverId === NETWORK_SERVER_ID);
+
+    const verdict = guild?.verdict ?? network?.verdict ?? null;
+    if (verdict) {
+      return { domain, risk: verdict === 'blocked' ? 1 : 0, source: 'override', verdict, guild, network };
+    }
+
+    const guildRisk = guild ? score(guild) : 0;
+    const networkRisk = network
+      ? score(network) * NETWORK_WEIGHT * Math.min(1, network.maliciousSources.length / NETWORK_MIN_SOURCES)
+      : 0;
+
+    if (guildRisk === 0 && networkRisk === 0) {
+      return { domain, risk: 0, source: 'none', verdict: null, guild, network };
+    }
+
+    return {
+      domain,
+      risk: Math.max(guildRisk, networkRisk),
+      source: guildRisk >= networkRisk ? 'guild' : 'network',
+      verdict: null,
+      guild,
+      network,
+    };
+  }
+
+  /**
+   * Count a moderation outcome for a domain in a guild (and the network row)
+   */
+  async recordReport(domain: string, serverId: string, malicious: boolean, reason: string, confidence: number = 1): Promise<void> {
+    try {
+      await this.increment(domain, serverId, malicious, reason);
+      await this.increment(domain, NETWORK_SERVER_ID, malicious, reason, serverId);
+    } catch (error) {
+      logger.error(`Failed to record domain report for ${domain}`, error);
+      return;
+    }
+
+    if (malicious && this.node && confidence >= SHARE_MIN_CONFIDENCE) {
+      try {
+        await this.node.federationFor(serverId).shareThreat({
+          type: 'malicious_domain',
+          severity: 'high',
+          confidence,
+          description: `Malicious link domain ${domain}: ${reason}`,
+          metadata: { domain },
+        });
+      } catch (error) {
+        logger.warn(`Could not share malicious domain ${domain} with federation`, error);
+      }
+    }
+  }
+
+  /**
+   * Count a malicious_domain threat received from a federation peer
+   */
+  async recordFederatedReport(domain: string, peerInstanceId: string, reason: string): Promise<void> {
+    await this.increment(domain, NETWORK_SERVER_ID, true, reason, `peer:${peerInstanceId}`);
+  }
+
+  /**
+   * Pin (or with null, clear) a guild's verdict for a domain
+   */
+  async setVerdict(domain: string, serverId: string, verdict: DomainVerdict | null, reason: string): Promise<void> {
+    await this.pool.query(
+      `
+      INSERT INTO domain_reputation (domain, server_id, verdict, last_reason)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (domain, server_id) DO UPDATE
+        SET verdict = EXCLUDED.verdict, last_reason = EXCLUDED.last_reason, last_seen = NOW()
+      `,
+      [domain, serverId, verdict, reason]
+    );
+  }
+
+  /**
+   * A guild's domains, most recently seen first
+   */
+  async list(serverId: string, limit: number = 100): Promise<DomainReputation[]> {
+    const result = await this.pool.query(
+      `
+      SELECT * FROM domain_reputation
+      WHERE server_id = $1
+      ORDER BY last_seen DESC
+      LIMIT $2
+      `,
+      [serverId, limit]
+    );
+    return result.rows.map(toReputation);
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+
+  private async fetch(domain: string, serverIds: string[]): Promise<DomainReputation[]> {
+    try {
+      const result = await this.pool.query(
+        'SELECT * FROM domain_reputation WHERE domain = $1 AND server_id = ANY($2)',
+        [domain, serverIds]
+      );
+      return result.rows.map(toReputation);
+    } catch (error) {
+      logger.warn(`Domain reputation lookup failed for ${domain}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Add one report; a malicious report also adds its source to malicious_sources
+   */
+  private async increment(domain: string, serverId: string, malicious: boolean, reason: string, source?: string): Promise<void> {
+    const sources = malicious ? [source ?? serverId] : [];
+
+    await this.pool.query(
+      `
+      INSERT INTO domain_reputation (domain, server_id, malicious_reports, benign_reports, malicious_sources, last_reason)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (domain, server_id) DO UPDATE
+        SET malicious_reports = domain_reputation.malicious_reports + EXCLUDED.malicious_reports,
+            benign_reports = domain_reputation.benign_reports + EXCLUDED.benign_reports,
+            malicious_sources = ARRAY(
+              SELECT DISTINCT unnest(domain_reputation.malicious_sources || EXCLUDED.malicious_sources)
+            ),
+            last_reason = EXCLUDED.last_reason,
+            last_seen = NOW()
+      `,
+      [domain, serverId, malicious ? 1 : 0, malicious ? 0 : 1, sources, reason]
+    );
+  }
+}
+
+/**
+ * Malicious share with two phantom benign reports, so one report is not a verdict
+ */
+function score(reputation: DomainReputation): number {
+  return reputation.maliciousReports / (reputation.maliciousReports + reputation.benignReports + 2);
+}
+
+function toReputation(row: any): DomainReputation {
+  return {
+    domain: row.domain,
+    serverId: row.server_id,
+    maliciousReports: row.malicious_reports,
+    benignReports: row.benign_reports,
+    verdict: row.verdict,
+    maliciousSources: row.malicious_sources || [],
+    lastReason: row.last_reason,
+    firstSeen: row.first_seen,
+    lastSeen: row.last_seen,
+  };
+}
+
+// Singleton instance
+export const domainReputation = new DomainReputationStore();
@@ -0,0 +1,138 @@
+import { ENV } from '../../config/environment';
+import { createLogger } from '../../services/Logger';
+import { DomainReputationStore, DomainRisk, domainReputation } from './DomainReputationStore';
+import { LookalikeDetector, LookalikeMatch, lookalikeDetector } from './LookalikeDetector';
+import { extractUrls, hostnameOf, UrlExpander } from './UrlExpander';
+
+const logger = createLogger('LinkAnalyzer');
+
+/**
+ * LINK ANALYZER - Link intelligence for one message
+ *
+ * For every link: unwrap shorteners (UrlExpander), check each hop of the
+ * redirect chain for lookalikes of protected brands (LookalikeDetector) and
+ * look the final domain up in the guild/network reputation table
+ * (DomainReputationStore). Moderation outcomes are fed back through
+ * reportOutcome() so the reputation table learns.
+ */
+
+export interface LinkVerdict {
+  url: string;
+  finalUrl: string;
+  redirectChain: string[];
+  domain: string; // Final hostname
+  shortened: boolean;
+  lookalike: LookalikeMatch | null;
+  reputation: DomainRisk | null;
+  risk: number; // 0-1
+  reasons: string[];
+}
+
+export interface LinkAnalysis {
+  links: LinkVerdict[];
+  maxRisk: number;
+  malicious: boolean; // At least one link at or above MALICIOUS_RISK
+}
+
+export const MALICIOUS_RISK = 0.75;
+export const SUSPICIOUS_RISK = 0.5; // Worth a closer look, not a verdict on its own
+const MAX_LINKS = 10; // Links analyzed per message
+
+export class LinkAnalyzer {
+  constructor(
+    private expander: UrlExpander = new UrlExpander(undefined, ENV.LINK_EXPAND_SHORTENERS),
+    private lookalikes: LookalikeDetector = lookalikeDetector,
+    private reputation: DomainReputationStore = domainReputation
+  ) {}
+
+  /**
+   * Analyze the links in a message (serverId enables the guild's reputation and overrides)
+   */
+  async analyze(text: string, serverId?: string): Promise<LinkAnalysis> {
+    const urls = extractUrls(text).slice(0, MAX_LINKS);
+    if (urls.length === 0) {
+      return { links: [], maxRisk: 0, malicious: false };
+    }
+
+    const links = await Promise.all(urls.map(url => this.analyzeUrl(url, serverId)));
+    const maxRisk = Math.max(...links.map(link => link.risk));
+
+    if (maxRisk > 0) {
+      logger.debug(`Links scored ${maxRisk.toFixed(2)}: ${links.filter(l => l.risk > 0).map(l => l.domain).join(', ')}`);
+    }
+
+    return { links, maxRisk, malicious: maxRisk >= MALICIOUS_RISK };
+  }
+
+  /**
+   * Feed a moderation outcome back into the reputation of the final domains
+   */
+  async reportOutcome(serverId: string, links: LinkVerdict[], malicious: boolean, reason: string, confidence: number = 1): Promise<void> {
+    const domains = new Set(
+      links.map(link => link.domain).filter(domain => domain && !this.lookalikes.isProtected(domain))
+    );
+
+    for (const domain of domains) {
+      await this.reputation.recordReport(domain, serverId, malicious, reason, confidence);
+    }
+  }
+
+  private async analyzeUrl(url: string, serverId?: string): Promise<LinkVerdict> {
+    const expanded = await this.expander.expand(url);
+    const domain = hostnameOf(expanded.finalUrl);
+    const reasons: string[] = [];
+    let risk = 0;
+
+    // Any hop may be the impersonation (a lookalike that redirects onwards)
+    let lookalike: LookalikeMatch | null = null;
+    for (const hop of expanded.redirectChain) {
+      const match = this.lookalikes.check(hostnameOf(hop));
+      if (match && (!lookalike || match.confidence > lookalike.confidence)) lookalike = match;
+    }
+    if (lookalike) {
+      risk = Math.max(risk, lookalike.confidence);
+      reasons.push(`${lookalike.hostname} imitates ${lookalike.brand} (${lookalike.technique})`);
+    }
+
+    const reputation = domain ? await this.reputation.getRisk(domain, serverId) : null;
+    if (reputation?.verdict === 'trusted') {
+      return { ...this.base(expanded, domain, lookalike, reputation), risk: 0, reasons: ['domain trusted by guild'] };
+    }
+    if (reputation && reputation.risk > 0) {
+      risk = Math.max(risk, reputation.risk);
+      reasons.push(reputation.verdict === 'blocked'
+        ? 'domain blocked'
+        : `${reputation.source} reputation ${(reputation.risk * 100).toFixed(0)}% malicious`);
+    }
+
+    if (expanded.shortened && !expanded.complete) {
+      risk = Math.max(risk, 0.3);
+      reasons.push(`shortened link could not be expanded (${expanded.error})`);
+    } else if (expanded.redirectChain.length > 3) {
+      risk = Math.max(risk, 0.3);
+      reasons.push(`${expanded.redirectChain.length - 1} redirects`);
+    }
+
+    return { ...this.base(expanded, domain, lookalike, reputation), risk, reasons };
+  }
+
+  private base(
+    expanded: { url: string; finalUrl: string; redirectChain: string[]; shortened: boolean },
+    domain: string,
+    lookalike: LookalikeMatch | null,
+    reputation: DomainRisk | null
+  ): Omit<LinkVerdict, 'risk' | 'reasons'> {
+    return {
+      url: expanded.url,
+      finalUrl: expanded.finalUrl,
+      redirectChain: expanded.redirectChain,
+      domain,
+      shortened: expanded.shortened,
+      lookalike,
+      reputation,
+    };
+  }
+}
+
+// Singleton instance
+export const linkAnalyzer = new LinkAnalyzer();
@@ -0,0 +1,191 @@
+import { domainToUnicode } from 'url';
+import { ENV } from '../../config/environment';
+
+/**
+ * LOOKALIKE DETECTOR - Domains impersonating protected brands
+ *
+ * Catches the tricks phishing links use against discord.com, steamcommunity.com
+ * and our own domains:
+ * - punycode:  xn--dscord-6ve.com (dіscord.com with a Cyrillic і)
+ * - homoglyph: d1scord.com, steamcornmunity.com (rn → m)
+ * - typo:      discrod.com, steamcommnity.com (edit distance)
+ * - tld_swap:  discord.ru, steamcommunity.co
+ * - embedded:  discord.com.verify-login.ru (strong), steamcommunity-trade.com,
+ *              discordnitro.gift (weak - plenty of fan sites carry the name)
+ *
+ * Pure and synchronous, so ReflexLayer can run it on every message.
+ */
+
+export type LookalikeTechnique = 'punycode' | 'homoglyph' | 'typo' | 'tld_swap' | 'embedded';
+
+export interface LookalikeMatch {
+  hostname: string;
+  brand: string; // Protected domain being imitated
+  technique: LookalikeTechnique;
+  confidence: number; // 0-1
+}
+
+export const DEFAULT_PROTECTED_DOMAINS = [
+  'discord.com',
+  'discord.gg',
+  'discordapp.com',
+  'discordapp.net',
+  'discord.gift',
+  'discord.media',
+  'steamcommunity.com',
+  'steampowered.com',
+];
+
+// Characters commonly swapped in for Latin letters (Cyrillic, Greek, digits, accents)
+const CONFUSABLES: Record<string, string> = {
+  'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c', 'у': 'y', 'х': 'x', 'к': 'k', 'м': 'm', 'т': 't',
+  'н': 'h', 'в': 'b', 'ѕ': 's', 'і': 'l', 'ї': 'l', 'ј': 'j', 'ԁ': 'd', 'ɡ': 'g', 'ո': 'n', 'ս': 'u',
+  'α': 'a', 'ο': 'o', 'ρ': 'p', 'ε': 'e', 'ν': 'v', 'τ': 't', 'κ': 'k', 'ι': 'l',
+  'á': 'a', 'à': 'a', 'â': 'a', 'ä': 'a', 'é': 'e', 'è': 'e', 'ê': 'e', 'ë': 'e', 'í': 'l', 'ì': 'l',
+  'ó': 'o', 'ò': 'o', 'ô': 'o', 'ö': 'o', 'ú': 'u', 'ù': 'u', 'ü': 'u', 'ç': 'c', 'ñ': 'n',
+  '0': 'o', '1': 'l', 'i': 'l', '|': 'l', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b',
+};
+
+// Second-level labels under which registrations happen (example.co.uk)
+const SECOND_LEVEL_SUFFIXES = new Set(['co', 'com', 'net', 'org', 'gov', 'ac', 'edu']);
+
+export class LookalikeDetector {
+  private brands: Array<{ domain: string; label: string; skeleton: string }>;
+
+  constructor(protectedDomains: string[] = DEFAULT_PROTECTED_DOMAINS) {
+    const domains = Array.from(new Set(protectedDomains.map(d => d.trim().toLowerCase()).filter(d => d.includes('.'))));
+    this.brands = domains.map(domain => {
+      const label = registrableLabel(domain);
+      return { domain, label, skeleton: skeleton(label) };
+    });
+  }
+
+  /**
+   * Is this one of the protected domains (or a subdomain of one)?
+   */
+  isProtected(hostname: string): boolean {
+    const host = normalizeHost(hostname);
+    return this.brands.some(b => host === b.domain || host.endsWith(`.${b.domain}`));
+  }
+
+  /**
+   * Best lookalike match for a hostname, or null
+   */
+  check(hostname: string): LookalikeMatch | null {
+    const host = normalizeHost(hostname);
+    if (!host || this.isProtected(host)) return null;
+
+    const unicode = domainToUnicode(host) || host;
+    const punycode = host.split('.').some(label => label.startsWith('xn--'));
+    const registrable = registrableDomain(unicode);
+    const label = registrableLabel(unicode);
+    const labelSkeleton = skeleton(label);
+
+    let best: LookalikeMatch | null = null;
+    const consider = (match: LookalikeMatch) => {
+      if (!best || match.confidence > best.confidence) best = match;
+    };
+
+    for (const brand of this.brands) {
+      // Same name, different spelling of the characters
+      if (label !== brand.label && labelSkeleton === brand.skeleton) {
+        consider({ hostname: host, brand: brand.domain, technique: punycode ? 'punycode' : 'homoglyph', confidence: 0.95 });
+        continue;
+      }
+
+      // Same name under a TLD we don't own
+      if (label === brand.label && registrable !== registrableDomain(brand.domain) && !this.ownsRegistrable(registrable)) {
+        consider({ hostname: host, brand: brand.domain, technique: 'tld_swap', confidence: 0.85 });
+        continue;
+      }
+
+      // Near-miss spelling
+      const maxDistance = brand.label.length >= 10 ? 2 : 1;
+      if (brand.label.length >= 5 && label !== brand.label &&
+          editDistance(labelSkeleton, brand.skeleton) <= maxDistance) {
+        consider({ hostname: host, brand: brand.domain, technique: 'typo', confidence: 0.85 });
+        continue;
+      }
+
+      // Brand inside another domain
+      if (brand.skeleton.length < 5 || label === brand.label) continue;
+
+      const subdomains = unicode.slice(0, unicode.length - registrable.length).split('.').map(skeleton);
+      if (skeleton(unicode).includes(skeleton(brand.domain))) {
+        consider({ hostname: host, brand: brand.domain, technique: 'embedded', confidence: 0.85 }); // Full brand domain
+      } else if (subdomains.includes(brand.skeleton) || label.split('-').some(part => skeleton(part) === brand.skeleton)) {
+        consider({ hostname: host, brand: brand.domain, technique: 'embedded', confidence: 0.6 }); // Brand as its own word
+      } else if (labelSkeleton.includes(brand.skeleton)) {
+        consider({ hostname: host, brand: brand.domain, technique: 'embedded', confidence: 0.45 }); // Brand run into another word
+      }
+    }
+
+    return best;
+  }
+
+  private ownsRegistrable(registrable: string): boolean {
+    return this.brands.some(b => registrableDomain(b.domain) === registrable);
+  }
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.trim().toLowerCase().replace(/\.$/, '').replace(/^www\./, '');
+}
+
+/**
+ * Domain a registrant controls: example.com, example.co.uk
+ */
+function registrableDomain(host: string): string {
+  const labels = host.split('.');
+  if (labels.length <= 2) return host;
+
+  const take = labels[labels.length - 1].length === 2 && SECOND_LEVEL_SUFFIXES.has(labels[labels.length - 2]) ? 3 : 2;
+  return labels.slice(-take).join('.');
+}
+
+/**
+ * Name part of the registrable domain: "discord" for discord.com
+ */
+function registrableLabel(host: string): string {
+  return registrableDomain(host).split('.')[0];
+}
+
+function skeleton(text: string): string {
+  return Array.from(text.toLowerCase())
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('')
+    .replace(/rn/g, 'm')
+    .replace(/vv/g, 'w')
+    .replace(/cl/g, 'd')
+    .replace(/[-_]/g, '');
+}
+
+/**
+ * Edit distance counting a swap of two adjacent characters as one edit
+ */
+function editDistance(a: string, b: string): number {
+  if (Math.abs(a.length - b.length) > 2) return 3; // Further apart than we ever care about
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Singleton instance (built-in brands plus LINK_PROTECTED_DOMAINS)
+export const lookalikeDetector = new LookalikeDetector([
+  ...DEFAULT_PROTECTED_DOMAINS,
+  ...ENV.LINK_PROTECTED_DOMAINS.split(','),
+]);
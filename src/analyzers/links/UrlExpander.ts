@@ -0,0 +1,183 @@
+import { createLogger } from '../../services/Logger';
+import { resolvesToPrivateHost } from '../../utils/privateHosts';
+
+const logger = createLogger('UrlExpander');
+
+/**
+ * URL EXPANDER - Extract links from messages and unwrap shorteners
+ *
+ * Only links on known shortener hosts are fetched (HEAD, redirects not
+ * followed automatically); the redirect chain is then followed hop by hop
+ * up to MAX_HOPS. Hops to hosts that are or resolve to private/loopback
+ * addresses are never requested.
+ * The HTTP fetcher is injectable so expansion can run against a local stub.
+ */
+
+export interface FetchedResponse {
+  status: number;
+  location: string | null;
+}
+
+export type HttpFetcher = (url: string, method: 'HEAD' | 'GET', timeoutMs: number) => Promise<FetchedResponse>;
+
+export interface ExpandedUrl {
+  url: string;
+  finalUrl: string;
+  redirectChain: string[]; // Every URL visited, starting with url
+  shortened: boolean;
+  complete: boolean; // false when the chain was cut short (error, hop limit, private host)
+  error?: string;
+}
+
+export const KNOWN_SHORTENERS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'v.gd', 'buff.ly',
+  'cutt.ly', 'rb.gy', 'shorturl.at', 'tiny.cc', 'rebrand.ly', 's.id', 't.ly', 'lnkd.in', 'bl.ink',
+  'shorte.st', 'adf.ly', 'bit.do', 'qrco.de', 'tiny.one', 'shorturl.gg', 'clck.ru', 'u.to', 'urlz.fr',
+]);
+
+const MAX_HOPS = 5;
+const HOP_TIMEOUT_MS = 3000;
+const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+const MAX_CACHE_SIZE = 1000;
+
+/**
+ * Default fetcher: global fetch without following redirects, body discarded
+ */
+export const defaultFetcher: HttpFetcher = async (url, method, timeoutMs) => {
+  const response = await fetch(url, {
+    method,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(timeoutMs),
+    headers: { 'User-Agent': 'BecasLinkCheck/1.0' },
+  });
+  await response.body?.cancel().catch(() => undefined);
+
+  return { status: response.status, location: response.headers.get('location') };
+};
+
+/**
+ * http(s) links in a message, normalized and de-duplicated
+ * (handles <suppressed embeds>, markdown links and trailing punctuation)
+ */
+export function extractUrls(text: string): string[] {
+  const matches = text.match(/https?:\/\/[^\s<>"'`|\]]+/gi) || [];
+  const urls = new Set<string>();
+
+  for (const match of matches) {
+    const trimmed = match.replace(/[)\].,!?;:*_~]+$/, '');
+    try {
+      const url = new URL(trimmed);
+      urls.add(url.toString());
+    } catch {
+      // Not a valid URL - ignore
+    }
+  }
+
+  return Array.from(urls);
+}
+
+export function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+  } catch {
+    return '';
+  }
+}
+
+export function isShortener(url: string): boolean {
+  return KNOWN_SHORTENERS.has(hostnameOf(url).replace(/^www\./, ''));
+}
+
+export class UrlExpander {
+  private cache: Map<string, { result: ExpandedUrl; expiresAt: number }> = new Map();
+
+  constructor(
+    private fetcher: HttpFetcher = defaultFetcher,
+    private enabled: boolean = true
+  ) {}
+
+  /**
+   * Follow a shortened link's redirect chain (other links are returned as-is)
+   */
+  async expand(url: string): Promise<ExpandedUrl> {
+    const shortened = isShortener(url);
+
+    if (!shortened || !this.enabled) {
+      return { url, finalUrl: url, redirectChain: [url], shortened, complete: !shortened };
+    }
+
+    const cached = this.cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const result = await this.follow(url);
+    this.remember(url, result);
+    return result;
+  }
+
+  async expandAll(urls: string[]): Promise<ExpandedUrl[]> {
+    return Promise.all(urls.map(url => this.expand(url)));
+  }
+
+  private async follow(url: string): Promise<ExpandedUrl> {
+    const chain = [url];
+    let current = url;
+
+    for (let hop = 0; hop < MAX_HOPS; hop++) {
+      try {
+        if (await resolvesToPrivateHost(hostnameOf(current))) {
+          return this.partial(url, chain, 'redirects to a private address');
+        }
+      } catch (error: any) {
+        return this.partial(url, chain, `${hostnameOf(current)} does not resolve: ${error.code || error.message}`);
+      }
+
+      let response: FetchedResponse;
+      try {
+        response = await this.fetcher(current, 'HEAD', HOP_TIMEOUT_MS);
+        if (response.status === 405 || response.status === 501) {
+          response = await this.fetcher(current, 'GET', HOP_TIMEOUT_MS); // Shorteners that refuse HEAD
+        }
+      } catch (error) {
+        logger.debug(`Link expansion failed at ${current}: ${error instanceof Error ? error.message : error}`);
+        return this.partial(url, chain, error instanceof Error ? error.message : String(error));
+      }
+
+      if (response.status < 300 || response.status >= 400 || !response.location) {
+        return { url, finalUrl: current, redirectChain: chain, shortened: true, complete: true };
+      }
+
+      let next: string;
+      try {
+        next = new URL(response.location, current).toString();
+      } catch {
+        return this.partial(url, chain, `invalid redirect location "${response.location}"`);
+      }
+
+      if (!/^https?:$/.test(new URL(next).protocol)) {
+        return this.partial(url, chain, `redirect to ${new URL(next).protocol} URL`);
+      }
+      if (chain.includes(next)) {
+        return this.partial(url, chain, 'redirect loop');
+      }
+
+      chain.push(next);
+      current = next;
+    }
+
+    return this.partial(url, chain, `more than ${MAX_HOPS} redirects`);
+  }
+
+  private partial(url: string, chain: string[], error: string): ExpandedUrl {
+    return { url, finalUrl: chain[chain.length - 1], redirectChain: chain, shortened: true, complete: false, error };
+  }
+
+  private remember(url: string, result: ExpandedUrl): void {
+    if (this.cache.size >= MAX_CACHE_SIZE) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest) this.cache.delete(oldest);
+    }
+    this.cache.set(url, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+}
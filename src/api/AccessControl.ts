@@ -0,0 +1,607 @@
+/**
+ * ACCESS CONTROL
+ *
+ * Shared authentication and per-guild RBAC for the admin and analytics HTTP APIs.
+ *
+ * Principals:
+ * - Discord OAuth sessions (the becas_session JWT issued via AuthService), sent
+ *   as the becas_session cookie or as "Authorization: Bearer <jwt>"
+ * - API keys ("becas_..."), sent as "Authorization: Bearer <key>" or X-API-Key.
+ *   A key has one role and is scoped to a list of guilds, or to everything
+ *   (guild_ids NULL). ADMIN_API_KEY is a bootstrap key with global owner access.
+ *
+ * Roles (viewer < moderator < admin < owner) are resolved per guild:
+ * - Session: owner/admin from the member's current permissions in the guild
+ *   (looked up through the bot on every request, not taken from the token),
+ *   raised by any guild_role_grants row. ADMIN_USER_IDS are owners everywhere.
+ *   Sessions are refused while SESSION_SECRET is unset.
+ * - API key: the key's role, for the guilds it is scoped to.
+ *
+ * Global routes (metrics, circuit breaker, audit verification, ...) need a
+ * global principal: an unscoped API key, ADMIN_API_KEY or an ADMIN_USER_IDS user.
+ *
+ * Every privileged call (anything but GET, or requiring admin or above) and
+ * every denial is written to the audit log.
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import cookieParser from 'cookie-parser';
+import { Client, PermissionFlagsBits } from 'discord.js';
+import { AuthService, AuthSession } from '../services/AuthService';
+import { DatabaseService, getDatabaseService } from '../database/DatabaseService';
+import { ENV } from '../config/environment';
+import { createLogger } from '../services/Logger';
+import type { AuditLogger } from '../systems/AuditLogger';
+
+const logger = createLogger('AccessControl');
+
+export type AccessRole = 'viewer' | 'moderator' | 'admin' | 'owner';
+
+export const ACCESS_ROLES: AccessRole[] = ['viewer', 'moderator', 'admin', 'owner'];
+
+const API_KEY_PREFIX = 'becas_';
+const CACHE_TTL_MS = 30 * 1000;
+
+const ACTOR_TYPES: Record<AccessRole, 'user' | 'moderator' | 'admin'> = {
+  viewer: 'user',
+  moderator: 'moderator',
+  admin: 'admin',
+  owner: 'admin',
+};
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  role: AccessRole;
+  guildIds: string[] | null; // null = unscoped (all guilds + global routes)
+  createdBy: string | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}
+
+export interface RoleGrant {
+  guildId: string;
+  userId: string;
+  role: AccessRole;
+  grantedBy: string | null;
+  createdAt: Date;
+}
+
+export interface Principal {
+  type: 'session' | 'api_key';
+  id: string; // Discord user ID, or API key ID
+  name: string;
+  globalRole: AccessRole | null; // Role on global (non-guild) routes
+  session?: AuthSession;
+  apiKey?: ApiKeyRecord;
+}
+
+/**
+ * Finds the guild a request targets (null if it cannot be determined)
+ */
+export type GuildResolver = (req: Request) => string | null | undefined | Promise<string | null | undefined>;
+
+export function roleRank(role: AccessRole | null | undefined): number {
+  return role ? ACCESS_ROLES.indexOf(role) + 1 : 0;
+}
+
+export function isAccessRole(value: any): value is AccessRole {
+  return ACCESS_ROLES.includes(value);
+}
+
+/**
+ * A request names more than one guild, so it's unclear which one to authorize
+ */
+export class GuildScopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GuildScopeError';
+  }
+}
+
+/**
+ * Default resolver: :guildId / :serverId route params, serverId / guildId in
+ * the query string and in the JSON body. Handlers may read any of these, so
+ * they must all name the same guild (GuildScopeError otherwise).
+ */
+export function guildIdFromRequest(req: Request): string | null {
+  const candidates = [
+    req.params?.guildId,
+    req.params?.serverId,
+    req.query?.serverId,
+    req.query?.guildId,
+    req.body?.serverId,
+    req.body?.guildId,
+  ].filter(c => c !== undefined && c !== null && c !== '');
+
+  if (candidates.some(c => typeof c !== 'string')) {
+    throw new GuildScopeError('Guild IDs must be strings');
+  }
+
+  const guildIds = new Set(candidates as string[]);
+  if (guildIds.size > 1) {
+    throw new GuildScopeError('Request names more than one guild');
+  }
+
+  return candidates.length > 0 ? (candidates[0] as string) : null;
+}
+
+export class AccessControl {
+  private db: DatabaseService | null = null;
+  private client?: Client;
+  private auditLogger?: AuditLogger;
+  private keyCache: Map<string, { key: ApiKeyRecord | null; expiresAt: number }> = new Map(); // key hash -> record
+  private grantCache: Map<string, { role: AccessRole | null; expiresAt: number }> = new Map(); // guild:user -> role
+
+  setAuditLogger(auditLogger: AuditLogger): void {
+    this.auditLogger = auditLogger;
+  }
+
+  /**
+   * The bot client sessions' guild permissions are checked with (without it sessions only get granted roles)
+   */
+  setClient(client: Client): void {
+    this.client = client;
+  }
+
+  /**
+   * The authenticated principal of a request (set by authenticate())
+   */
+  static principalOf(res: Response): Principal | undefined {
+    return res.locals.principal;
+  }
+
+  /**
+   * Middleware: identify the caller, or reply 401
+   */
+  authenticate(): RequestHandler[] {
+    return [
+      cookieParser(),
+      async (req: Request, res: Response, next: NextFunction) => {
+        if (res.locals.principal) return next();
+
+        try {
+          const principal = await this.identify(req);
+
+          if (!principal) {
+            res.status(401).json({ error: 'Authentication required' });
+            return;
+          }
+
+          res.locals.principal = principal;
+          next();
+        } catch (error) {
+          logger.error('Authentication failed', error);
+          res.status(503).json({ error: 'Authentication unavailable' });
+        }
+      },
+    ];
+  }
+
+  /**
+   * Middleware: require at least minRole in the guild the request targets
+   */
+  requireGuildRole(minRole: AccessRole, resolveGuild: GuildResolver = guildIdFromRequest): RequestHandler {
+    return async (req: Request, res: Response, next: NextFunction) => {
+      const principal = AccessControl.principalOf(res);
+      if (!principal) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      try {
+        const guildId = await resolveGuild(req);
+
+        if (!guildId) {
+          // Unknown resource or no guild given - only global principals may continue
+          if (roleRank(principal.globalRole) >= roleRank(minRole)) {
+            this.grant(req, res, principal, 'global', principal.globalRole!, minRole);
+            return next();
+          }
+
+          this.deny(req, res, principal, 'global', minRole, 'No guild scope for this request');
+          return;
+        }
+
+        const role = await this.resolveRole(principal, guildId);
+
+        if (roleRank(role) < roleRank(minRole)) {
+          this.deny(req, res, principal, guildId, minRole, `Requires ${minRole} role in this guild`);
+          return;
+        }
+
+        this.grant(req, res, principal, guildId, role!, minRole);
+        next();
+      } catch (error) {
+        if (error instanceof GuildScopeError) {
+          this.deny(req, res, principal, 'global', minRole, error.message, 400);
+          return;
+        }
+
+        logger.error('Authorization failed', error);
+        res.status(503).json({ error: 'Authorization unavailable' });
+      }
+    };
+  }
+
+  /**
+   * Middleware: require at least minRole globally (not tied to one guild)
+   */
+  requireGlobalRole(minRole: AccessRole): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      const principal = AccessControl.principalOf(res);
+      if (!principal) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      if (roleRank(principal.globalRole) < roleRank(minRole)) {
+        this.deny(req, res, principal, 'global', minRole, `Requires global ${minRole} access`);
+        return;
+      }
+
+      this.grant(req, res, principal, 'global', principal.globalRole!, minRole);
+      next();
+    };
+  }
+
+  /**
+   * Resolver for routes addressed by a row ID: looks up the row's server_id
+   */
+  guildOf(table: string, param: string, column: string = 'id'): GuildResolver {
+    return async (req: Request) => {
+      const id = req.params[param];
+      if (!id) return null;
+
+      const row = await this.getDb().queryOne(`SELECT server_id FROM ${table} WHERE ${column} = $1`, [id]);
+      return row?.server_id || null;
+    };
+  }
+
+  /**
+   * Effective role of a principal in a guild (null = no access)
+   */
+  async resolveRole(principal: Principal, guildId: string): Promise<AccessRole | null> {
+    if (principal.type === 'api_key') {
+      const key = principal.apiKey;
+      if (!key) return principal.globalRole; // Bootstrap key
+      return key.guildIds === null || key.guildIds.includes(guildId) ? key.role : null;
+    }
+
+    if (principal.globalRole) return principal.globalRole;
+
+    const role = await this.getDiscordRole(guildId, principal.id);
+    const granted = await this.getGrantedRole(guildId, principal.id);
+    return roleRank(granted) > roleRank(role) ? granted : role;
+  }
+
+  /**
+   * Whether a principal with actorRole may hand out targetRole
+   * (only roles below their own, unless they are a global owner)
+   */
+  canAssign(principal: Principal, actorRole: AccessRole | null, targetRole: AccessRole): boolean {
+    if (principal.globalRole === 'owner') return true;
+    return roleRank(targetRole) < roleRank(actorRole);
+  }
+
+  // ========================================
+  // API KEYS
+  // ========================================
+
+  /**
+   * Create an API key. The plaintext key is only returned here.
+   */
+  async createApiKey(options: {
+    name: string;
+    role: AccessRole;
+    guildIds: string[] | null;
+    createdBy?: string;
+    expiresAt?: Date;
+  }): Promise<{ key: string; record: ApiKeyRecord }> {
+    const id = crypto.randomUUID();
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}_${crypto.randomBytes(24).toString('base64url')}`;
+    const keyPrefix = key.slice(0, API_KEY_PREFIX.length + 8);
+
+    const row = await this.getDb().queryOne(
+      `INSERT INTO admin_api_keys (id, name, key_prefix, key_hash, role, guild_ids, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [id, options.name, keyPrefix, this.hashKey(key), options.role, options.guildIds, options.createdBy || null, options.expiresAt || null]
+    );
+
+    logger.info(`API key ${keyPrefix}… created (${options.role}, ${options.guildIds ? options.guildIds.join(',') : 'unscoped'})`);
+    return { key, record: this.toApiKeyRecord(row) };
+  }
+
+  /**
+   * List keys (all, or those scoped to a guild)
+   */
+  async listApiKeys(guildId?: string): Promise<ApiKeyRecord[]> {
+    const rows = guildId
+      ? await this.getDb().queryMany(
+          `SELECT * FROM admin_api_keys WHERE $1 = ANY(guild_ids) ORDER BY created_at DESC`,
+          [guildId]
+        )
+      : await this.getDb().queryMany(`SELECT * FROM admin_api_keys ORDER BY created_at DESC`);
+
+    return rows.map(row => this.toApiKeyRecord(row));
+  }
+
+  async getApiKey(id: string): Promise<ApiKeyRecord | null> {
+    const row = await this.getDb().queryOne(`SELECT * FROM admin_api_keys WHERE id = $1`, [id]);
+    return row ? this.toApiKeyRecord(row) : null;
+  }
+
+  async revokeApiKey(id: string): Promise<boolean> {
+    const result = await this.getDb().query(
+      `UPDATE admin_api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL`,
+      [id]
+    );
+
+    this.keyCache.clear();
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ========================================
+  // ROLE GRANTS
+  // ========================================
+
+  async grantRole(guildId: string, userId: string, role: AccessRole, grantedBy?: string): Promise<RoleGrant> {
+    const row = await this.getDb().queryOne(
+      `INSERT INTO guild_role_grants (guild_id, user_id, role, granted_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (guild_id, user_id) DO UPDATE SET role = $3, granted_by = $4, created_at = NOW()
+       RETURNING *`,
+      [guildId, userId, role, grantedBy || null]
+    );
+
+    this.grantCache.delete(`${guildId}:${userId}`);
+    return this.toRoleGrant(row);
+  }
+
+  async revokeRole(guildId: string, userId: string): Promise<boolean> {
+    const result = await this.getDb().query(
+      `DELETE FROM guild_role_grants WHERE guild_id = $1 AND user_id = $2`,
+      [guildId, userId]
+    );
+
+    this.grantCache.delete(`${guildId}:${userId}`);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async listGrants(guildId: string): Promise<RoleGrant[]> {
+    const rows = await this.getDb().queryMany(
+      `SELECT * FROM guild_role_grants WHERE guild_id = $1 ORDER BY created_at`,
+      [guildId]
+    );
+    return rows.map(row => this.toRoleGrant(row));
+  }
+
+  async getGrant(guildId: string, userId: string): Promise<RoleGrant | null> {
+    const row = await this.getDb().queryOne(
+      `SELECT * FROM guild_role_grants WHERE guild_id = $1 AND user_id = $2`,
+      [guildId, userId]
+    );
+    return row ? this.toRoleGrant(row) : null;
+  }
+
+  // ========================================
+  // INTERNALS
+  // ========================================
+
+  private async identify(req: Request): Promise<Principal | null> {
+    const token = this.extractToken(req);
+    if (!token) return null;
+
+    if (ENV.ADMIN_API_KEY && this.safeEqual(token, ENV.ADMIN_API_KEY)) {
+      return { type: 'api_key', id: 'bootstrap', name: 'ADMIN_API_KEY', globalRole: 'owner' };
+    }
+
+    if (token.startsWith(API_KEY_PREFIX)) {
+      const key = await this.findApiKey(token);
+      if (!key) return null;
+
+      return {
+        type: 'api_key',
+        id: key.id,
+        name: `key:${key.name}`,
+        globalRole: key.guildIds === null ? key.role : null,
+        apiKey: key,
+      };
+    }
+
+    const session = AuthService.verifySessionToken(token);
+    if (!session) return null;
+
+    return {
+      type: 'session',
+      id: session.userId,
+      name: session.username,
+      globalRole: this.getAdminUserIds().includes(session.userId) ? 'owner' : null,
+      session,
+    };
+  }
+
+  private extractToken(req: Request): string | null {
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim();
+    }
+
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey) return apiKey;
+
+    return req.cookies?.becas_session || null;
+  }
+
+  private async findApiKey(key: string): Promise<ApiKeyRecord | null> {
+    const hash = this.hashKey(key);
+    const cached = this.keyCache.get(hash);
+
+    let record: ApiKeyRecord | null;
+    if (cached && cached.expiresAt > Date.now()) {
+      record = cached.key;
+    } else {
+      const row = await this.getDb().queryOne(`SELECT * FROM admin_api_keys WHERE key_hash = $1`, [hash]);
+      record = row ? this.toApiKeyRecord(row) : null;
+      this.keyCache.set(hash, { key: record, expiresAt: Date.now() + CACHE_TTL_MS });
+
+      if (record) {
+        this.getDb()
+          .query(`UPDATE admin_api_keys SET last_used_at = NOW() WHERE id = $1`, [record.id])
+          .catch(error => logger.warn('Failed to update API key last_used_at', error));
+      }
+    }
+
+    if (!record || record.revokedAt) return null;
+    if (record.expiresAt && record.expiresAt.getTime() < Date.now()) return null;
+
+    return record;
+  }
+
+  /**
+   * Owner/admin from the member's current Discord permissions (null if the bot is not in the guild or they are not a member)
+   */
+  private async getDiscordRole(guildId: string, userId: string): Promise<AccessRole | null> {
+    const guild = this.client?.guilds.cache.get(guildId);
+    if (!guild) return null;
+    if (guild.ownerId === userId) return 'owner';
+
+    try {
+      const member = await guild.members.fetch(userId);
+      // has() counts Administrator as every permission
+      return member.permissions.has(PermissionFlagsBits.ManageGuild) ? 'admin' : null;
+    } catch (error) {
+      logger.debug(`No member ${userId} in guild ${guildId}`, error);
+      return null;
+    }
+  }
+
+  private async getGrantedRole(guildId: string, userId: string): Promise<AccessRole | null> {
+    const cacheKey = `${guildId}:${userId}`;
+    const cached = this.grantCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) return cached.role;
+
+    try {
+      const grant = await this.getGrant(guildId, userId);
+      const role = grant?.role || null;
+      this.grantCache.set(cacheKey, { role, expiresAt: Date.now() + CACHE_TTL_MS });
+      return role;
+    } catch (error) {
+      // Fall back to Discord permissions only
+      logger.warn('Failed to load role grants', error);
+      return null;
+    }
+  }
+
+  private grant(
+    req: Request,
+    res: Response,
+    principal: Principal,
+    guildId: string,
+    role: AccessRole,
+    required: AccessRole
+  ): void {
+    res.locals.access = { guildId, role };
+
+    if (req.method === 'GET' && roleRank(required) < roleRank('admin')) return;
+
+    res.once('finish', () => {
+      this.auditLogger?.log({
+        type: 'api_call',
+        guildId,
+        actorId: principal.id,
+        actorName: principal.name,
+        actorType: ACTOR_TYPES[role],
+        action: `${req.method} ${req.baseUrl}${req.path}`,
+        details: {
+          via: principal.type,
+          role,
+          required,
+          status: res.statusCode,
+          params: req.params,
+          query: req.query,
+          ip: req.ip,
+        },
+        success: res.statusCode < 400,
+      });
+    });
+  }
+
+  private deny(
+    req: Request,
+    res: Response,
+    principal: Principal,
+    guildId: string,
+    required: AccessRole,
+    reason: string,
+    status: number = 403
+  ): void {
+    res.status(status).json({ error: reason });
+
+    this.auditLogger?.log({
+      type: 'permission_denied',
+      guildId,
+      actorId: principal.id,
+      actorName: principal.name,
+      actorType: 'user',
+      action: `${req.method} ${req.baseUrl}${req.path}`,
+      details: { via: principal.type, required, reason, ip: req.ip },
+      success: false,
+    });
+  }
+
+  private getAdminUserIds(): string[] {
+    return ENV.ADMIN_USER_IDS.split(',').map(id => id.trim()).filter(Boolean);
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    return crypto.timingSafeEqual(
+      Buffer.from(this.hashKey(a), 'hex'),
+      Buffer.from(this.hashKey(b), 'hex')
+    );
+  }
+
+  private toApiKeyRecord(row: any): ApiKeyRecord {
+    return {
+      id: row.id,
+      name: row.name,
+      keyPrefix: row.key_prefix,
+      role: row.role,
+      guildIds: row.guild_ids,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : null,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : null,
+    };
+  }
+
+  private toRoleGrant(row: any): RoleGrant {
+    return {
+      guildId: row.guild_id,
+      userId: row.user_id,
+      role: row.role,
+      grantedBy: row.granted_by,
+      createdAt: new Date(row.created_at),
+    };
+  }
+
+  private getDb(): DatabaseService {
+    if (!this.db) {
+      this.db = getDatabaseService();
+    }
+    return this.db;
+  }
+}
+
+// Singleton instance
+export const accessControl = new AccessControl();
@@ -4,8 +4,21 @@ import { createLogger } from '../services/Logger';
 import { GuildConfigManager } from '../config/GuildConfig';
 import { OllamaConnectionPool } from '../services/OllamaConnectionPool';
 import { metricsService } from '../services/MetricsService';
+import { llmRouter } from '../services/LLMRouter';
+import { inferenceScheduler } from '../services/InferenceScheduler';
+import { domainReputation } from '../analyzers/links/DomainReputationStore';
+import { actionScheduler, ScheduledJobStatus } from '../advanced/ActionScheduler';
+import { privacyService } from '../privacy/PrivacyService';
+import { retentionService } from '../privacy/RetentionService';
+import { INSTANCE_GUILD_ID, retentionStore } from '../privacy/RetentionStore';
+import { RETENTION_CATEGORIES, isRetentionCategory } from '../privacy/RetentionTarget';
+import { BundleFormat, bundleSchema, parseBundle, serializeBundle } from '../config/bundles/ConfigBundle';
+import { configBundleService } from '../config/bundles/ConfigBundleService';
+import { configBundleStore } from '../config/bundles/ConfigBundleStore';
 import { PortManager } from '../utils/PortManager';
 import { Server } from 'http';
+import type { AuditLogger } from '../systems/AuditLogger';
+import { AccessControl, AccessRole, accessControl, isAccessRole, roleRank } from './AccessControl';
 
 const logger = createLogger('AdminServer');
 
@@ -16,6 +29,7 @@ export interface AdminServerDependencies {
   getTrustScores?: () => any;
   getRules?: () => any;
   analyticsManager?: any; // AnalyticsManager instance
+  auditLogger?: AuditLogger;
 }
 
 export class AdminServer {
@@ -36,6 +50,7 @@ export class AdminServer {
   private setupMiddleware(): void {
     this.app.use(cors());
     this.app.use(express.json());
+    this.app.use(express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml'] })); // Config bundles
 
     // Request logging
     this.app.use((req, res, next) => {
@@ -45,38 +60,323 @@ export class AdminServer {
   }
 
   private setupRoutes(): void {
-    // Health check
+    const guild = (role: AccessRole) => accessControl.requireGuildRole(role);
+    const global = (role: AccessRole) => accessControl.requireGlobalRole(role);
+
+    // Health check (public)
     this.app.get('/health', this.handleHealthCheck.bind(this));
 
+    // Static dashboard (public - data is loaded through the authenticated routes)
+    this.app.use(express.static('public'));
+
+    // Everything below requires a session or API key
+    this.app.use(accessControl.authenticate());
+
+    // Caller identity and roles
+    this.app.get('/auth/me', this.handleGetIdentity.bind(this));
+
+    // API keys
+    this.app.get('/auth/keys', this.handleListApiKeys.bind(this));
+    this.app.post('/auth/keys', this.handleCreateApiKey.bind(this));
+    this.app.delete('/auth/keys/:keyId', this.handleRevokeApiKey.bind(this));
+
+    // Per-guild role grants
+    this.app.get('/guilds/:guildId/roles', guild('admin'), this.handleListGrants.bind(this));
+    this.app.put('/guilds/:guildId/roles/:userId', guild('admin'), this.handleGrantRole.bind(this));
+    this.app.delete('/guilds/:guildId/roles/:userId', guild('admin'), this.handleRevokeRole.bind(this));
+
     // Metrics
-    this.app.get('/metrics', this.handleMetrics.bind(this));
-    this.app.get('/metrics/ollama', this.handleOllamaMetrics.bind(this));
+    this.app.get('/metrics', global('viewer'), this.handleMetrics.bind(this));
+    this.app.get('/metrics/ollama', global('viewer'), this.handleOllamaMetrics.bind(this));
 
     // Guild configuration
-    this.app.get('/config/guilds', this.handleGetAllConfigs.bind(this));
-    this.app.get('/config/guild/:guildId', this.handleGetConfig.bind(this));
-    this.app.put('/config/guild/:guildId', this.handleUpdateConfig.bind(this));
-    this.app.post('/config/guild/:guildId/reset', this.handleResetConfig.bind(this));
-    this.app.post('/config/guild/:guildId/feature/:feature', this.handleToggleFeature.bind(this));
+    this.app.get('/config/guilds', global('admin'), this.handleGetAllConfigs.bind(this));
+    this.app.get('/config/guild/:guildId', guild('viewer'), this.handleGetConfig.bind(this));
+    this.app.put('/config/guild/:guildId', guild('admin'), this.handleUpdateConfig.bind(this));
+    this.app.post('/config/guild/:guildId/reset', guild('admin'), this.handleResetConfig.bind(this));
+    this.app.post('/config/guild/:guildId/feature/:feature', guild('admin'), this.handleToggleFeature.bind(this));
 
     // Trust scores (if available)
-    this.app.get('/trust', this.handleGetTrustScores.bind(this));
+    this.app.get('/trust', global('viewer'), this.handleGetTrustScores.bind(this));
 
     // Rules (if available)
-    this.app.get('/rules', this.handleGetRules.bind(this));
+    this.app.get('/rules', global('viewer'), this.handleGetRules.bind(this));
 
     // Circuit breaker control
-    this.app.post('/circuit/open', this.handleOpenCircuit.bind(this));
-    this.app.post('/circuit/close', this.handleCloseCircuit.bind(this));
+    this.app.post('/circuit/open', global('admin'), this.handleOpenCircuit.bind(this));
+    this.app.post('/circuit/close', global('admin'), this.handleCloseCircuit.bind(this));
 
     // Analytics endpoints (if available)
-    this.app.get('/analytics/dashboard/:guildId', this.handleGetDashboard.bind(this));
-    this.app.get('/analytics/relationships/:guildId', this.handleGetRelationships.bind(this));
-    this.app.get('/analytics/events/:guildId', this.handleGetEvents.bind(this));
-    this.app.get('/analytics/timeline/:guildId', this.handleGetTimeline.bind(this));
+    this.app.get('/analytics/dashboard/:guildId', guild('viewer'), this.handleGetDashboard.bind(this));
+    this.app.get('/analytics/relationships/:guildId', guild('moderator'), this.handleGetRelationships.bind(this));
+    this.app.get('/analytics/events/:guildId', guild('viewer'), this.handleGetEvents.bind(this));
+    this.app.get('/analytics/timeline/:guildId', guild('viewer'), this.handleGetTimeline.bind(this));
 
-    // Static dashboard
-    this.app.use(express.static('public'));
+    // Audit log integrity and export (if available)
+    this.app.get('/audit/verify', global('admin'), this.handleVerifyAudit.bind(this));
+    this.app.get('/audit/checkpoints', global('admin'), this.handleGetAuditCheckpoints.bind(this));
+    this.app.post('/audit/checkpoints', global('admin'), this.handleCreateAuditCheckpoint.bind(this));
+    this.app.get('/audit/export/:guildId', guild('admin'), this.handleExportAudit.bind(this));
+
+    // Link domain reputation and per-guild overrides
+    this.app.get('/guilds/:guildId/domains', guild('moderator'), this.handleListDomains.bind(this));
+    this.app.put('/guilds/:guildId/domains/:domain', guild('admin'), this.handleSetDomainVerdict.bind(this));
+    this.app.get('/guilds/:guildId/scheduled-jobs', guild('moderator'), this.handleListScheduledJobs.bind(this));
+    this.app.delete('/guilds/:guildId/scheduled-jobs/:jobId', guild('admin'), this.handleCancelScheduledJob.bind(this));
+
+    // Data subject export and erasure (guild routes only reach guild-scoped stores)
+    this.app.get('/privacy/users/:userId/export', global('admin'), this.handleExportSubject.bind(this));
+    this.app.post('/privacy/users/:userId/erase', global('owner'), this.handleEraseSubject.bind(this));
+    this.app.get('/guilds/:guildId/privacy/users/:userId/export', guild('admin'), this.handleExportSubject.bind(this));
+    this.app.post('/guilds/:guildId/privacy/users/:userId/erase', guild('admin'), this.handleEraseSubject.bind(this));
+    this.app.get('/privacy/requests/:requestId', global('admin'), this.handleGetPrivacyRequest.bind(this));
+    this.app.get('/privacy/signing-key', global('viewer'), this.handleGetPrivacySigningKey.bind(this));
+
+    // Data retention: rules per category (instance-wide or per guild), legal holds, enforcement runs
+    this.app.get('/retention', global('admin'), this.handleGetRetention.bind(this));
+    this.app.put('/retention/rules/:category', global('admin'), this.handleSetRetentionRule.bind(this));
+    this.app.delete('/retention/rules/:category', global('admin'), this.handleDeleteRetentionRule.bind(this));
+    this.app.post('/retention/holds', global('admin'), this.handleCreateLegalHold.bind(this));
+    this.app.delete('/retention/holds/:holdId', global('admin'), this.handleReleaseLegalHold.bind(this));
+    this.app.post('/retention/run', global('owner'), this.handleRunRetention.bind(this));
+    this.app.get('/retention/runs', global('admin'), this.handleListRetentionRuns.bind(this));
+    this.app.get('/guilds/:guildId/retention', guild('moderator'), this.handleGetRetention.bind(this));
+    this.app.put('/guilds/:guildId/retention/rules/:category', guild('admin'), this.handleSetRetentionRule.bind(this));
+    this.app.delete('/guilds/:guildId/retention/rules/:category', guild('admin'), this.handleDeleteRetentionRule.bind(this));
+    this.app.post('/guilds/:guildId/retention/holds', guild('moderator'), this.handleCreateLegalHold.bind(this));
+    this.app.delete('/guilds/:guildId/retention/holds/:holdId', guild('admin'), this.handleReleaseLegalHold.bind(this));
+    this.app.post('/guilds/:guildId/retention/dry-run', guild('admin'), this.handleRunRetention.bind(this));
+    this.app.get('/guilds/:guildId/retention/runs', guild('moderator'), this.handleListRetentionRuns.bind(this));
+
+    // Config bundles: config, policies, behaviors and alert routing as one versioned document
+    this.app.get('/config-bundles/schema', global('viewer'), this.handleGetBundleSchema.bind(this));
+    this.app.post('/config-bundles/apply', this.handleApplyBundleToGuilds.bind(this)); // Admin in every listed guild
+    this.app.get('/guilds/:guildId/config-bundle', guild('admin'), this.handleExportBundle.bind(this));
+    this.app.post('/guilds/:guildId/config-bundle', guild('admin'), this.handleApplyBundle.bind(this));
+    this.app.post('/guilds/:guildId/config-bundle/validate', guild('admin'), this.handleApplyBundle.bind(this));
+    this.app.post('/guilds/:guildId/config-bundle/rollback', guild('admin'), this.handleRollbackBundle.bind(this));
+    this.app.get('/guilds/:guildId/config-bundle/versions', guild('admin'), this.handleListBundleVersions.bind(this));
+    this.app.get('/guilds/:guildId/config-bundle/versions/:version', guild('admin'), this.handleGetBundleVersion.bind(this));
+    this.app.get('/guilds/:guildId/config-bundle/diff', guild('admin'), this.handleDiffBundle.bind(this));
+  }
+
+  /**
+   * Who is calling, and their role in each guild they can see
+   */
+  private async handleGetIdentity(req: Request, res: Response): Promise<void> {
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      const guildIds = principal.apiKey?.guildIds || principal.session?.guilds.map(g => g.id) || [];
+
+      const guilds: Record<string, AccessRole | null> = {};
+      for (const guildId of guildIds) {
+        guilds[guildId] = await accessControl.resolveRole(principal, guildId);
+      }
+
+      res.json({
+        type: principal.type,
+        id: principal.id,
+        name: principal.name,
+        globalRole: principal.globalRole,
+        guilds,
+      });
+    } catch (error) {
+      logger.error('Failed to get identity', error);
+      res.status(500).json({ error: 'Failed to retrieve identity' });
+    }
+  }
+
+  /**
+   * List API keys (all for global admins, otherwise ?guildId= where the caller is admin)
+   */
+  private async handleListApiKeys(req: Request, res: Response): Promise<void> {
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      const guildId = req.query.guildId as string | undefined;
+
+      if (!guildId && roleRank(principal.globalRole) < roleRank('admin')) {
+        res.status(403).json({ error: 'Requires global admin access (or pass ?guildId=)' });
+        return;
+      }
+      if (guildId && roleRank(await accessControl.resolveRole(principal, guildId)) < roleRank('admin')) {
+        res.status(403).json({ error: 'Requires admin role in this guild' });
+        return;
+      }
+
+      const keys = await accessControl.listApiKeys(guildId);
+      res.json({ keys });
+    } catch (error) {
+      logger.error('Failed to list API keys', error);
+      res.status(500).json({ error: 'Failed to list API keys' });
+    }
+  }
+
+  /**
+   * Create an API key
+   * Body: { name, role, guildIds?: string[] (omit for an unscoped key), expiresAt? }
+   */
+  private async handleCreateApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      const { name, role, guildIds, expiresAt } = req.body || {};
+
+      if (typeof name !== 'string' || !name.trim() || !isAccessRole(role)) {
+        res.status(400).json({ error: 'name and role (owner|admin|moderator|viewer) required' });
+        return;
+      }
+      if (guildIds !== undefined && (!Array.isArray(guildIds) || guildIds.length === 0 || !guildIds.every(g => typeof g === 'string'))) {
+        res.status(400).json({ error: 'guildIds must be a non-empty array of guild IDs' });
+        return;
+      }
+
+      const expires = expiresAt ? new Date(expiresAt) : undefined;
+      if (expires && isNaN(expires.getTime())) {
+        res.status(400).json({ error: 'expiresAt must be a valid date' });
+        return;
+      }
+
+      // The caller must be allowed to hand out this role everywhere the key applies
+      if (!guildIds) {
+        if (!accessControl.canAssign(principal, principal.globalRole, role)) {
+          res.status(403).json({ error: 'Only global owners can create unscoped keys with this role' });
+          return;
+        }
+      } else {
+        for (const guildId of guildIds) {
+          const actorRole = await accessControl.resolveRole(principal, guildId);
+          if (roleRank(actorRole) < roleRank('admin') || !accessControl.canAssign(principal, actorRole, role)) {
+            res.status(403).json({ error: `Cannot create a ${role} key for guild ${guildId}` });
+            return;
+          }
+        }
+      }
+
+      const { key, record } = await accessControl.createApiKey({
+        name: name.trim(),
+        role,
+        guildIds: guildIds || null,
+        createdBy: principal.id,
+        expiresAt: expires,
+      });
+
+      this.auditPrivileged(res, guildIds?.[0] || 'global', 'api_key_created', { keyId: record.id, role, guildIds: guildIds || null });
+
+      res.status(201).json({ key, record });
+    } catch (error) {
+      logger.error('Failed to create API key', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  }
+
+  /**
+   * Revoke an API key
+   */
+  private async handleRevokeApiKey(req: Request, res: Response): Promise<void> {
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      const key = await accessControl.getApiKey(req.params.keyId);
+
+      if (!key) {
+        res.status(404).json({ error: 'API key not found' });
+        return;
+      }
+
+      // Global admins can revoke anything; guild admins only keys scoped to their guilds
+      let allowed = roleRank(principal.globalRole) >= roleRank('admin');
+      if (!allowed && key.guildIds) {
+        allowed = true;
+        for (const guildId of key.guildIds) {
+          if (roleRank(await accessControl.resolveRole(principal, guildId)) < roleRank('admin')) {
+            allowed = false;
+            break;
+          }
+        }
+      }
+
+      if (!allowed) {
+        res.status(403).json({ error: 'Cannot revoke this API key' });
+        return;
+      }
+
+      const revoked = await accessControl.revokeApiKey(key.id);
+      this.auditPrivileged(res, key.guildIds?.[0] || 'global', 'api_key_revoked', { keyId: key.id });
+
+      res.json({ success: true, revoked });
+    } catch (error) {
+      logger.error('Failed to revoke API key', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  }
+
+  /**
+   * List role grants for a guild
+   */
+  private async handleListGrants(req: Request, res: Response): Promise<void> {
+    try {
+      const grants = await accessControl.listGrants(req.params.guildId);
+      res.json({ grants });
+    } catch (error) {
+      logger.error('Failed to list role grants', error);
+      res.status(500).json({ error: 'Failed to list role grants' });
+    }
+  }
+
+  /**
+   * Grant a role in a guild
+   * Body: { role }
+   */
+  private async handleGrantRole(req: Request, res: Response): Promise<void> {
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      const { guildId, userId } = req.params;
+      const { role } = req.body || {};
+
+      if (!isAccessRole(role)) {
+        res.status(400).json({ error: 'role (owner|admin|moderator|viewer) required' });
+        return;
+      }
+
+      const actorRole = res.locals.access.role as AccessRole;
+      const existing = await accessControl.getGrant(guildId, userId);
+
+      if (!accessControl.canAssign(principal, actorRole, role) ||
+          (existing && !accessControl.canAssign(principal, actorRole, existing.role))) {
+        res.status(403).json({ error: 'You can only grant roles below your own' });
+        return;
+      }
+
+      const grant = await accessControl.grantRole(guildId, userId, role, principal.id);
+      res.json({ success: true, grant });
+    } catch (error) {
+      logger.error('Failed to grant role', error);
+      res.status(500).json({ error: 'Failed to grant role' });
+    }
+  }
+
+  /**
+   * Remove a role grant
+   */
+  private async handleRevokeRole(req: Request, res: Response): Promise<void> {
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      const { guildId, userId } = req.params;
+      const existing = await accessControl.getGrant(guildId, userId);
+
+      if (!existing) {
+        res.status(404).json({ error: 'No role granted to this user' });
+        return;
+      }
+      if (!accessControl.canAssign(principal, res.locals.access.role, existing.role)) {
+        res.status(403).json({ error: 'You can only revoke roles below your own' });
+        return;
+      }
+
+      await accessControl.revokeRole(guildId, userId);
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Failed to revoke role', error);
+      res.status(500).json({ error: 'Failed to revoke role' });
+    }
   }
 
   /**
@@ -120,7 +420,7 @@ export class AdminServer {
   }
 
   /**
-   * Get Ollama connection pool metrics
+   * Get Ollama connection pool metrics and per-provider LLM metrics
    */
   private handleOllamaMetrics(req: Request, res: Response): void {
     try {
@@ -128,6 +428,9 @@ export class AdminServer {
       res.json({
         timestamp: new Date().toISOString(),
         ollama: metrics,
+        providers: llmRouter.getMetrics(),
+        routing: llmRouter.describe(),
+        scheduler: inferenceScheduler.getStats(),
       });
     } catch (error) {
       logger.error('Failed to get Ollama metrics', error);
@@ -395,6 +698,680 @@ export class AdminServer {
     }
   }
 
+  /**
+   * Verify the audit hash chain
+   */
+  private async handleVerifyAudit(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.dependencies.auditLogger) {
+        res.status(404).json({ error: 'Audit log not available' });
+        return;
+      }
+
+      const result = await this.dependencies.auditLogger.verifyIntegrity();
+      res.status(result.valid ? 200 : 409).json(result);
+    } catch (error) {
+      logger.error('Failed to verify audit log', error);
+      res.status(500).json({ error: 'Failed to verify audit log' });
+    }
+  }
+
+  /**
+   * List signed audit checkpoints
+   */
+  private async handleGetAuditCheckpoints(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.dependencies.auditLogger) {
+        res.status(404).json({ error: 'Audit log not available' });
+        return;
+      }
+
+      const checkpoints = await this.dependencies.auditLogger.getCheckpoints();
+      res.json({ count: checkpoints.length, checkpoints });
+    } catch (error) {
+      logger.error('Failed to get audit checkpoints', error);
+      res.status(500).json({ error: 'Failed to retrieve audit checkpoints' });
+    }
+  }
+
+  /**
+   * Sign the audit chain head now
+   */
+  private async handleCreateAuditCheckpoint(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.dependencies.auditLogger) {
+        res.status(404).json({ error: 'Audit log not available' });
+        return;
+      }
+
+      const checkpoint = await this.dependencies.auditLogger.checkpoint();
+      res.json({ success: true, checkpoint });
+    } catch (error) {
+      logger.error('Failed to create audit checkpoint', error);
+      res.status(500).json({ error: 'Failed to create audit checkpoint' });
+    }
+  }
+
+  /**
+   * Export a guild's audit history (?format=jsonl|csv&from=ISO&to=ISO)
+   */
+  private async handleExportAudit(req: Request, res: Response): Promise<void> {
+    if (!this.dependencies.auditLogger) {
+      res.status(404).json({ error: 'Audit log not available' });
+      return;
+    }
+
+    const { guildId } = req.params;
+    const format = (req.query.format as string) || 'jsonl';
+    const from = req.query.from ? new Date(req.query.from as string) : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+    if (format !== 'jsonl' && format !== 'csv') {
+      res.status(400).json({ error: 'format must be jsonl or csv' });
+      return;
+    }
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      res.status(400).json({ error: 'from/to must be valid dates' });
+      return;
+    }
+
+    try {
+      res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-${guildId}.${format}"`);
+
+      for await (const chunk of this.dependencies.auditLogger.exportGuild(guildId, format, { from, to })) {
+        if (!res.write(chunk)) {
+          await new Promise(resolve => res.once('drain', resolve));
+        }
+      }
+      res.end();
+
+      logger.info(`Audit log exported for guild ${guildId} (${format})`);
+    } catch (error) {
+      logger.error('Failed to export audit log', error);
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else {
+        res.status(500).json({ error: 'Failed to export audit log' });
+      }
+    }
+  }
+
+  /**
+   * Link domains seen in a guild with their report counts and verdicts
+   */
+  private async handleListDomains(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const domains = await domainReputation.list(req.params.guildId, limit);
+      res.json({ guildId: req.params.guildId, domains });
+    } catch (error) {
+      logger.error('Failed to list domains', error);
+      res.status(500).json({ error: 'Failed to retrieve domain reputation' });
+    }
+  }
+
+  /**
+   * Pin a guild's verdict for a domain ({ verdict: 'trusted' | 'blocked' | null, reason? })
+   */
+  private async handleSetDomainVerdict(req: Request, res: Response): Promise<void> {
+    const domain = req.params.domain.toLowerCase();
+    const { verdict, reason } = req.body || {};
+
+    if (!/^[a-z0-9.-]+\.[a-z0-9-]+$/.test(domain)) {
+      res.status(400).json({ error: 'domain must be a hostname (punycode for IDNs)' });
+      return;
+    }
+    if (verdict !== null && verdict !== 'trusted' && verdict !== 'blocked') {
+      res.status(400).json({ error: 'verdict must be trusted, blocked or null' });
+      return;
+    }
+
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      await domainReputation.setVerdict(
+        domain,
+        req.params.guildId,
+        verdict,
+        typeof reason === 'string' && reason ? reason : `Set by ${principal.name}`
+      );
+
+      logger.info(`Domain ${domain} ${verdict ?? 'override cleared'} in guild ${req.params.guildId} by ${principal.name}`);
+      res.json({ success: true, domain, verdict });
+    } catch (error) {
+      logger.error('Failed to set domain verdict', error);
+      res.status(500).json({ error: 'Failed to set domain verdict' });
+    }
+  }
+
+  /**
+   * A guild's scheduled jobs (temp ban expiries, delayed tasks, watches) with counts by status
+   */
+  private async handleListScheduledJobs(req: Request, res: Response): Promise<void> {
+    const status = req.query.status as ScheduledJobStatus | undefined;
+    if (status && !['pending', 'running', 'completed', 'failed', 'cancelled'].includes(status)) {
+      res.status(400).json({ error: 'status must be pending, running, completed, failed or cancelled' });
+      return;
+    }
+
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const [jobs, stats] = await Promise.all([
+        actionScheduler.list({
+          guildId: req.params.guildId,
+          type: req.query.type as string | undefined,
+          status,
+        }, limit),
+        actionScheduler.getStats(req.params.guildId),
+      ]);
+      res.json({ guildId: req.params.guildId, stats, jobs });
+    } catch (error) {
+      logger.error('Failed to list scheduled jobs', error);
+      res.status(500).json({ error: 'Failed to retrieve scheduled jobs' });
+    }
+  }
+
+  /**
+   * Cancel a pending scheduled job of this guild
+   */
+  private async handleCancelScheduledJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await actionScheduler.getJob(req.params.jobId);
+      if (!job || job.guildId !== req.params.guildId) {
+        res.status(404).json({ error: 'Scheduled job not found' });
+        return;
+      }
+
+      const cancelled = await actionScheduler.cancel(job.id);
+      if (!cancelled) {
+        res.status(409).json({ error: `Job is ${job.status}, only pending jobs can be cancelled` });
+        return;
+      }
+
+      logger.info(`Scheduled job ${job.id} cancelled in guild ${req.params.guildId} by ${AccessControl.principalOf(res)!.name}`);
+      res.json({ success: true, jobId: job.id });
+    } catch (error) {
+      logger.error('Failed to cancel scheduled job', error);
+      res.status(500).json({ error: 'Failed to cancel scheduled job' });
+    }
+  }
+
+  /**
+   * Export everything stored about a user (one guild, or every guild)
+   */
+  private async handleExportSubject(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId || null;
+      const principal = AccessControl.principalOf(res)!;
+
+      const result = await privacyService.exportSubject({ userId: req.params.userId, guildId }, `api:${principal.name}`);
+      this.auditPrivileged(res, guildId || 'global', 'privacy_export', { requestId: result.requestId, status: result.status });
+
+      res.json(result);
+    } catch (error) {
+      logger.error('Failed to export user data', error);
+      res.status(500).json({ error: 'Failed to export user data' });
+    }
+  }
+
+  /**
+   * Erase a user and return the signed receipt (body must be { confirm: true })
+   */
+  private async handleEraseSubject(req: Request, res: Response): Promise<void> {
+    if (req.body?.confirm !== true) {
+      res.status(400).json({ error: 'Erasure cannot be undone; send { "confirm": true } to proceed' });
+      return;
+    }
+
+    try {
+      const guildId = req.params.guildId || null;
+      const principal = AccessControl.principalOf(res)!;
+
+      const receipt = await privacyService.eraseSubject({ userId: req.params.userId, guildId }, `api:${principal.name}`);
+      this.auditPrivileged(res, guildId || 'global', 'privacy_erasure', { requestId: receipt.requestId, status: receipt.status });
+
+      res.json(receipt);
+    } catch (error) {
+      logger.error('Failed to erase user data', error);
+      res.status(500).json({ error: 'Failed to erase user data' });
+    }
+  }
+
+  /**
+   * A logged privacy request, with its receipt signature checked
+   */
+  private async handleGetPrivacyRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const request = await privacyService.getRequest(req.params.requestId);
+      if (!request) {
+        res.status(404).json({ error: 'Privacy request not found' });
+        return;
+      }
+
+      res.json({
+        ...request,
+        receiptValid: request.receipt ? privacyService.verifyReceipt(request.receipt) : null,
+      });
+    } catch (error) {
+      logger.error('Failed to get privacy request', error);
+      res.status(500).json({ error: 'Failed to retrieve privacy request' });
+    }
+  }
+
+  private async handleGetPrivacySigningKey(req: Request, res: Response): Promise<void> {
+    try {
+      res.json(privacyService.getSigningKey());
+    } catch (error) {
+      logger.error('Failed to get privacy signing key', error);
+      res.status(500).json({ error: 'Failed to retrieve signing key' });
+    }
+  }
+
+  /**
+   * Effective retention per category, the rules behind it and the active legal holds
+   */
+  private async handleGetRetention(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId;
+      const [policy, rules, holds, incidentHolds] = await Promise.all([
+        retentionService.getEffectivePolicy(guildId),
+        retentionStore.listRules(guildId || INSTANCE_GUILD_ID),
+        retentionStore.listHolds({ guildId }),
+        retentionStore.listIncidentHolds(guildId),
+      ]);
+
+      res.json({
+        guildId: guildId || null,
+        categories: RETENTION_CATEGORIES,
+        policy,
+        rules,
+        holds,
+        incidentHolds,
+      });
+    } catch (error) {
+      logger.error('Failed to get retention policy', error);
+      res.status(500).json({ error: 'Failed to retrieve retention policy' });
+    }
+  }
+
+  /**
+   * Set a category's retention ({ retainDays: number } or { retainDays: null } to keep forever)
+   */
+  private async handleSetRetentionRule(req: Request, res: Response): Promise<void> {
+    const { category } = req.params;
+    const guildId = req.params.guildId;
+    const retainDays = req.body?.retainDays;
+
+    if (!isRetentionCategory(category)) {
+      res.status(400).json({ error: `category must be one of: ${Object.keys(RETENTION_CATEGORIES).join(', ')}` });
+      return;
+    }
+    if (guildId && !RETENTION_CATEGORIES[category].guildRules) {
+      res.status(400).json({ error: `${category} retention is instance-wide and cannot be set per guild` });
+      return;
+    }
+    if (retainDays !== null && !(Number.isInteger(retainDays) && retainDays > 0)) {
+      res.status(400).json({ error: 'retainDays must be a positive whole number of days, or null to keep forever' });
+      return;
+    }
+
+    try {
+      const rule = await retentionStore.setRule(guildId || INSTANCE_GUILD_ID, category, retainDays, AccessControl.principalOf(res)!.name);
+      this.auditPrivileged(res, guildId || 'global', 'retention_rule_set', { category, retainDays });
+      res.json(rule);
+    } catch (error) {
+      logger.error('Failed to set retention rule', error);
+      res.status(500).json({ error: 'Failed to set retention rule' });
+    }
+  }
+
+  private async handleDeleteRetentionRule(req: Request, res: Response): Promise<void> {
+    const { category } = req.params;
+    const guildId = req.params.guildId;
+
+    if (!isRetentionCategory(category)) {
+      res.status(400).json({ error: `category must be one of: ${Object.keys(RETENTION_CATEGORIES).join(', ')}` });
+      return;
+    }
+
+    try {
+      const deleted = await retentionStore.deleteRule(guildId || INSTANCE_GUILD_ID, category);
+      if (!deleted) {
+        res.status(404).json({ error: 'No retention rule for this category' });
+        return;
+      }
+
+      this.auditPrivileged(res, guildId || 'global', 'retention_rule_deleted', { category });
+      res.json({ success: true, category });
+    } catch (error) {
+      logger.error('Failed to delete retention rule', error);
+      res.status(500).json({ error: 'Failed to delete retention rule' });
+    }
+  }
+
+  /**
+   * Exempt a user from retention (in one guild, or in every guild on the global route)
+   */
+  private async handleCreateLegalHold(req: Request, res: Response): Promise<void> {
+    const { userId, reason } = req.body || {};
+
+    if (typeof userId !== 'string' || !userId || typeof reason !== 'string' || !reason.trim()) {
+      res.status(400).json({ error: 'userId and reason are required' });
+      return;
+    }
+
+    try {
+      const guildId = req.params.guildId || null;
+      const hold = await retentionStore.createHold(guildId, userId, reason.trim(), AccessControl.principalOf(res)!.name);
+      this.auditPrivileged(res, guildId || 'global', 'legal_hold_created', { holdId: hold.id, userId, reason: hold.reason });
+      res.status(201).json(hold);
+    } catch (error) {
+      logger.error('Failed to create legal hold', error);
+      res.status(500).json({ error: 'Failed to create legal hold' });
+    }
+  }
+
+  private async handleReleaseLegalHold(req: Request, res: Response): Promise<void> {
+    const holdId = parseInt(req.params.holdId);
+    if (!Number.isInteger(holdId)) {
+      res.status(400).json({ error: 'holdId must be a number' });
+      return;
+    }
+
+    try {
+      const guildId = req.params.guildId;
+      const released = await retentionStore.releaseHold(holdId, AccessControl.principalOf(res)!.name, guildId);
+      if (!released) {
+        res.status(404).json({ error: 'Active legal hold not found' });
+        return;
+      }
+
+      this.auditPrivileged(res, guildId || 'global', 'legal_hold_released', { holdId });
+      res.json({ success: true, holdId });
+    } catch (error) {
+      logger.error('Failed to release legal hold', error);
+      res.status(500).json({ error: 'Failed to release legal hold' });
+    }
+  }
+
+  /**
+   * Enforce retention now. Guild routes are always dry runs; the global route
+   * only deletes with { dryRun: false }.
+   */
+  private async handleRunRetention(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId;
+      const dryRun = guildId ? true : req.body?.dryRun !== false;
+
+      const report = await retentionService.enforce({ dryRun, guildId });
+      this.auditPrivileged(res, guildId || 'global', dryRun ? 'retention_dry_run' : 'retention_run', {
+        runId: report.runId,
+        expired: report.expired,
+        held: report.held,
+      });
+
+      res.json(report);
+    } catch (error) {
+      logger.error('Failed to run retention enforcement', error);
+      res.status(500).json({ error: 'Failed to run retention enforcement' });
+    }
+  }
+
+  private async handleListRetentionRuns(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId;
+      const runs = await retentionStore.listRuns({ guildId, limit: parseInt(req.query.limit as string) || 20 });
+      res.json({ guildId: guildId || null, runs });
+    } catch (error) {
+      logger.error('Failed to list retention runs', error);
+      res.status(500).json({ error: 'Failed to list retention runs' });
+    }
+  }
+
+  private handleGetBundleSchema(req: Request, res: Response): void {
+    res.json(bundleSchema());
+  }
+
+  /**
+   * Current setup as a bundle (?format=yaml for YAML)
+   */
+  private async handleExportBundle(req: Request, res: Response): Promise<void> {
+    try {
+      const bundle = await configBundleService.exportBundle(req.params.guildId);
+      this.sendBundle(req, res, bundle);
+    } catch (error) {
+      logger.error('Failed to export config bundle', error);
+      res.status(500).json({ error: 'Failed to export config bundle' });
+    }
+  }
+
+  /**
+   * Apply a bundle to this guild (the validate route, or dryRun, only reports issues and changes)
+   */
+  private async handleApplyBundle(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId;
+      const request = this.bundleRequest(req);
+      if (!request) {
+        res.status(400).json({ error: 'Send a bundle: JSON { "bundle": ... } or a YAML body' });
+        return;
+      }
+
+      let bundle: any;
+      try {
+        bundle = parseBundle(request.bundle);
+      } catch (parseError: any) {
+        res.status(400).json({ error: parseError.message });
+        return;
+      }
+
+      const dryRun = request.dryRun || req.path.endsWith('/validate');
+      const result = await configBundleService.apply(guildId, bundle, {
+        appliedBy: AccessControl.principalOf(res)!.name,
+        note: request.note,
+        dryRun,
+      });
+
+      if (result.status === 'applied') {
+        this.auditPrivileged(res, guildId, 'config_bundle_apply', { version: result.version, bundleName: bundle.name, changes: result.changes.length });
+      }
+
+      res.status(result.status === 'invalid' ? 400 : 200).json(result);
+    } catch (error) {
+      logger.error('Failed to apply config bundle', error);
+      res.status(500).json({ error: 'Failed to apply config bundle' });
+    }
+  }
+
+  /**
+   * Apply one bundle to several guilds ({ bundle, guildIds }, or guildIds=a,b in the query with a YAML body)
+   */
+  private async handleApplyBundleToGuilds(req: Request, res: Response): Promise<void> {
+    try {
+      const principal = AccessControl.principalOf(res)!;
+      const request = this.bundleRequest(req);
+      const guildIds = [...new Set(request?.guildIds || [])];
+      if (!request || guildIds.length === 0) {
+        res.status(400).json({ error: 'bundle and guildIds required' });
+        return;
+      }
+
+      for (const guildId of guildIds) {
+        if (roleRank(await accessControl.resolveRole(principal, guildId)) < roleRank('admin')) {
+          res.status(403).json({ error: `Requires admin role in guild ${guildId}` });
+          return;
+        }
+      }
+
+      let bundle: any;
+      try {
+        bundle = parseBundle(request.bundle);
+      } catch (parseError: any) {
+        res.status(400).json({ error: parseError.message });
+        return;
+      }
+
+      const batch = await configBundleService.applyToGuilds(guildIds, bundle, {
+        appliedBy: principal.name,
+        note: request.note,
+        dryRun: request.dryRun,
+      });
+
+      for (const result of batch.results.filter(r => r.status === 'applied')) {
+        this.auditPrivileged(res, result.guildId, 'config_bundle_apply', {
+          version: result.version,
+          bundleName: bundle.name,
+          batchId: batch.batchId,
+          changes: result.changes.length,
+        });
+      }
+
+      const invalid = batch.issues.some(issue => issue.severity === 'error');
+      res.status(invalid ? 400 : 200).json(batch);
+    } catch (error) {
+      logger.error('Failed to apply config bundle to guilds', error);
+      res.status(500).json({ error: 'Failed to apply config bundle' });
+    }
+  }
+
+  /**
+   * Restore a version ({ version }, default: the one before the latest)
+   */
+  private async handleRollbackBundle(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId;
+      const version = req.body?.version;
+      if (version !== undefined && !(Number.isInteger(version) && version > 0)) {
+        res.status(400).json({ error: 'version must be a positive integer' });
+        return;
+      }
+
+      const result = await configBundleService.rollback(guildId, {
+        version,
+        appliedBy: AccessControl.principalOf(res)!.name,
+        note: req.body?.note,
+        dryRun: req.body?.dryRun === true,
+      });
+      if (!result) {
+        res.status(404).json({ error: version ? `Version ${version} not found` : 'No earlier version to roll back to' });
+        return;
+      }
+
+      if (result.status === 'applied') {
+        this.auditPrivileged(res, guildId, 'config_bundle_rollback', { version: result.version, restored: version ?? null, changes: result.changes.length });
+      }
+
+      res.status(result.status === 'invalid' ? 400 : 200).json(result);
+    } catch (error) {
+      logger.error('Failed to roll back config bundle', error);
+      res.status(500).json({ error: 'Failed to roll back config bundle' });
+    }
+  }
+
+  private async handleListBundleVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId;
+      const versions = await configBundleStore.listVersions(guildId, parseInt(req.query.limit as string) || 50);
+      res.json({ guildId, versions });
+    } catch (error) {
+      logger.error('Failed to list config bundle versions', error);
+      res.status(500).json({ error: 'Failed to list config bundle versions' });
+    }
+  }
+
+  /**
+   * One version's bundle (?format=yaml for YAML)
+   */
+  private async handleGetBundleVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const record = await configBundleStore.getVersion(req.params.guildId, parseInt(req.params.version));
+      if (!record) {
+        res.status(404).json({ error: 'Version not found' });
+        return;
+      }
+      this.sendBundle(req, res, record.bundle);
+    } catch (error) {
+      logger.error('Failed to get config bundle version', error);
+      res.status(500).json({ error: 'Failed to get config bundle version' });
+    }
+  }
+
+  /**
+   * Changes between two versions (?from=3&to=5; either may be 'current', to defaults to current)
+   */
+  private async handleDiffBundle(req: Request, res: Response): Promise<void> {
+    try {
+      const guildId = req.params.guildId;
+      const parseVersion = (value: any): number | 'current' | null => {
+        if (value === undefined || value === 'current') return 'current';
+        const version = parseInt(value);
+        return version > 0 ? version : null;
+      };
+      const from = parseVersion(req.query.from);
+      const to = parseVersion(req.query.to);
+      if (!req.query.from || from === null || to === null) {
+        res.status(400).json({ error: 'from (and optionally to) must be a version number or current' });
+        return;
+      }
+
+      const changes = await configBundleService.diff(guildId, from, to);
+      if (!changes) {
+        res.status(404).json({ error: 'Version not found' });
+        return;
+      }
+      res.json({ guildId, from, to, changes });
+    } catch (error) {
+      logger.error('Failed to diff config bundle versions', error);
+      res.status(500).json({ error: 'Failed to diff config bundle versions' });
+    }
+  }
+
+  /**
+   * Bundle and options from a JSON body ({ bundle, dryRun, note, guildIds }) or a YAML body (options in the query)
+   */
+  private bundleRequest(req: Request): { bundle: any; dryRun: boolean; note?: string; guildIds?: string[] } | null {
+    if (typeof req.body === 'string') {
+      if (!req.body.trim()) return null;
+      return {
+        bundle: req.body,
+        dryRun: req.query.dryRun === 'true',
+        note: req.query.note as string | undefined,
+        guildIds: typeof req.query.guildIds === 'string' ? req.query.guildIds.split(',').map(id => id.trim()).filter(Boolean) : undefined,
+      };
+    }
+
+    if (!req.body?.bundle) return null;
+    return {
+      bundle: req.body.bundle,
+      dryRun: req.body.dryRun === true,
+      note: typeof req.body.note === 'string' ? req.body.note : undefined,
+      guildIds: Array.isArray(req.body.guildIds) ? req.body.guildIds.map(String) : undefined,
+    };
+  }
+
+  private sendBundle(req: Request, res: Response, bundle: any): void {
+    const format: BundleFormat = req.query.format === 'yaml' ? 'yaml' : 'json';
+    res.type(format === 'yaml' ? 'application/yaml' : 'application/json').send(serializeBundle(bundle, format));
+  }
+
+  /**
+   * Audit a key-management call (these routes have no role guard of their own)
+   */
+  private auditPrivileged(res: Response, guildId: string, action: string, details: any): void {
+    const principal = AccessControl.principalOf(res)!;
+
+    this.dependencies.auditLogger?.log({
+      type: 'api_call',
+      guildId,
+      actorId: principal.id,
+      actorName: principal.name,
+      actorType: 'admin',
+      action,
+      details: { via: principal.type, ...details },
+      success: true,
+    });
+  }
+
   /**
    * Start server with port conflict resolution
    */
@@ -4,10 +4,12 @@ import { Client } from 'discord.js';
 import { AnomalyDetector } from '../analytics/AnomalyDetector';
 import { ConflictPredictor } from '../analytics/ConflictPredictor';
 import { ServerHealthMonitor } from '../analytics/ServerHealthMonitor';
-import { ReportGenerator } from '../analytics/ReportGenerator';
+import { REPORT_SECTIONS, ReportGenerator } from '../analytics/ReportGenerator';
+import { REPORT_APPENDICES, REPORT_FORMATS, ReportAppendix, ReportFormat, renderReport } from '../analytics/ReportRenderer';
 import { AlertSystem } from '../analytics/AlertSystem';
 import { TopicAnalyzer } from '../analytics/TopicAnalyzer';
 import logger from '../utils/logger';
+import { AccessControl, accessControl } from './AccessControl';
 
 /**
  * AnalyticsAPI
@@ -22,7 +24,9 @@ import logger from '../utils/logger';
  * - GET /api/analytics/conflicts/:serverId - Active conflict predictions
  * - GET /api/analytics/topics/:serverId - Trending topics
  * - GET /api/analytics/reports/:serverId - Recent reports
+ * - GET /api/analytics/reports/:serverId/:reportId?format=markdown|html|csv|json - Download report
  * - POST /api/analytics/reports/:serverId/generate - Generate custom report
+ * - GET/PUT /api/analytics/reports/:serverId/destinations - Report delivery destinations
  * - GET /api/analytics/alerts/:serverId - Recent alerts
  * - GET /api/analytics/trends/:serverId - Trend data for charts
  * - GET /api/analytics/summary/:serverId - Complete analytics summary
@@ -59,40 +63,56 @@ export class AnalyticsAPI {
    * Setup all API routes
    */
   private setupRoutes(): void {
+    // Every route requires a session or API key with a role in the target guild
+    this.router.use(accessControl.authenticate());
+    const alertGuild = accessControl.guildOf('alert_history', 'alertId');
+    const incidentGuild = accessControl.guildOf('alert_incidents', 'incidentId');
+
     // Health endpoints
-    this.router.get('/health/:serverId', this.getCurrentHealth.bind(this));
-    this.router.get('/health/:serverId/history', this.getHealthHistory.bind(this));
+    this.router.get('/health/:serverId', accessControl.requireGuildRole('viewer'), this.getCurrentHealth.bind(this));
+    this.router.get('/health/:serverId/history', accessControl.requireGuildRole('viewer'), this.getHealthHistory.bind(this));
 
     // Anomaly endpoints
-    this.router.get('/anomalies/:serverId', this.getAnomalies.bind(this));
-    this.router.post('/anomalies/:serverId/detect', this.detectAnomalies.bind(this));
+    this.router.get('/anomalies/:serverId', accessControl.requireGuildRole('viewer'), this.getAnomalies.bind(this));
+    this.router.post('/anomalies/:serverId/detect', accessControl.requireGuildRole('moderator'), this.detectAnomalies.bind(this));
 
     // Conflict endpoints
-    this.router.get('/conflicts/:serverId', this.getConflicts.bind(this));
-    this.router.post('/conflicts/:serverId/predict', this.predictConflicts.bind(this));
-    this.router.get('/conflicts/:serverId/accuracy', this.getConflictAccuracy.bind(this));
+    this.router.get('/conflicts/:serverId', accessControl.requireGuildRole('viewer'), this.getConflicts.bind(this));
+    this.router.post('/conflicts/:serverId/predict', accessControl.requireGuildRole('moderator'), this.predictConflicts.bind(this));
+    this.router.get('/conflicts/:serverId/accuracy', accessControl.requireGuildRole('viewer'), this.getConflictAccuracy.bind(this));
 
     // Topic endpoints
-    this.router.get('/topics/:serverId', this.getTopics.bind(this));
-    this.router.get('/topics/:serverId/trending', this.getTrendingTopics.bind(this));
-    this.router.post('/topics/:serverId/analyze', this.analyzeTopics.bind(this));
+    this.router.get('/topics/:serverId', accessControl.requireGuildRole('viewer'), this.getTopics.bind(this));
+    this.router.get('/topics/:serverId/trending', accessControl.requireGuildRole('viewer'), this.getTrendingTopics.bind(this));
+    this.router.post('/topics/:serverId/analyze', accessControl.requireGuildRole('moderator'), this.analyzeTopics.bind(this));
 
     // Report endpoints
-    this.router.get('/reports/:serverId', this.getReports.bind(this));
-    this.router.get('/reports/:serverId/:reportId', this.getReport.bind(this));
-    this.router.post('/reports/:serverId/generate', this.generateReport.bind(this));
+    this.router.get('/reports/:serverId', accessControl.requireGuildRole('viewer'), this.getReports.bind(this));
+    this.router.get('/reports/:serverId/destinations', accessControl.requireGuildRole('admin'), this.getReportDestinations.bind(this));
+    this.router.put('/reports/:serverId/destinations', accessControl.requireGuildRole('admin'), this.updateReportDestinations.bind(this));
+    this.router.post('/reports/:serverId/destinations/:name/test', accessControl.requireGuildRole('admin'), this.testReportDestination.bind(this));
+    this.router.get('/reports/:serverId/:reportId', accessControl.requireGuildRole('viewer'), this.getReport.bind(this));
+    this.router.post('/reports/:serverId/:reportId/deliver', accessControl.requireGuildRole('moderator'), this.deliverReport.bind(this));
+    this.router.post('/reports/:serverId/generate', accessControl.requireGuildRole('moderator'), this.generateReport.bind(this));
 
     // Alert endpoints
-    this.router.get('/alerts/:serverId', this.getAlerts.bind(this));
-    this.router.get('/alerts/:serverId/stats', this.getAlertStats.bind(this));
-    this.router.post('/alerts/:alertId/acknowledge', this.acknowledgeAlert.bind(this));
+    this.router.get('/alerts/:serverId', accessControl.requireGuildRole('viewer'), this.getAlerts.bind(this));
+    this.router.get('/alerts/:serverId/stats', accessControl.requireGuildRole('viewer'), this.getAlertStats.bind(this));
+    this.router.post('/alerts/:alertId/acknowledge', accessControl.requireGuildRole('moderator', alertGuild), this.acknowledgeAlert.bind(this));
+    this.router.get('/alerts/:serverId/preferences', accessControl.requireGuildRole('admin'), this.getAlertPreferences.bind(this));
+    this.router.put('/alerts/:serverId/preferences', accessControl.requireGuildRole('admin'), this.updateAlertPreferences.bind(this));
+    this.router.post('/alerts/:serverId/sinks/:sinkName/test', accessControl.requireGuildRole('admin'), this.testAlertSink.bind(this));
+
+    // Incident endpoints
+    this.router.get('/incidents/:serverId', accessControl.requireGuildRole('viewer'), this.getIncidents.bind(this));
+    this.router.post('/incidents/:incidentId/acknowledge', accessControl.requireGuildRole('moderator', incidentGuild), this.acknowledgeIncident.bind(this));
 
     // Trend/visualization endpoints
-    this.router.get('/trends/:serverId', this.getTrends.bind(this));
-    this.router.get('/summary/:serverId', this.getSummary.bind(this));
+    this.router.get('/trends/:serverId', accessControl.requireGuildRole('viewer'), this.getTrends.bind(this));
+    this.router.get('/summary/:serverId', accessControl.requireGuildRole('viewer'), this.getSummary.bind(this));
 
     // Statistics endpoints
-    this.router.get('/stats/:serverId', this.getStats.bind(this));
+    this.router.get('/stats/:serverId', accessControl.requireGuildRole('viewer'), this.getStats.bind(this));
   }
 
   /**
@@ -350,31 +370,49 @@ export class AnalyticsAPI {
   }
 
   /**
-   * GET /api/analytics/reports/:serverId/:reportId
-   * Get specific report
+   * GET /api/analytics/reports/:serverId/:reportId?format=markdown|html|csv|json&appendix=metrics|daily|...
+   * Get specific report (as a download when a format is given)
    */
   private async getReport(req: Request, res: Response): Promise<void> {
     try {
       const { serverId, reportId } = req.params;
+      const format = req.query.format as ReportFormat | undefined;
+      const appendix = (req.query.appendix as ReportAppendix | undefined) || 'metrics';
+
+      if (format && !REPORT_FORMATS.includes(format)) {
+        res.status(400).json({ error: `format must be one of ${REPORT_FORMATS.join(', ')}` });
+        return;
+      }
+      if (!REPORT_APPENDICES.includes(appendix)) {
+        res.status(400).json({ error: `appendix must be one of ${REPORT_APPENDICES.join(', ')}` });
+        return;
+      }
 
-      // Query database for specific report
-      const query = 'SELECT * FROM analytics_reports WHERE server_id = $1 AND id = $2';
-      const result = await this.db.query(query, [serverId, reportId]);
+      const id = parseInt(reportId);
+      const report = Number.isNaN(id) ? null : await this.reportGenerator.getReport(serverId, id);
 
-      if (result.rows.length === 0) {
+      if (!report) {
         res.status(404).json({ error: 'Report not found' });
         return;
       }
 
-      const row = result.rows[0];
-      res.json({
-        id: row.id,
-        title: row.title,
-        summary: row.summary,
-        insights: JSON.parse(row.insights || '[]'),
-        recommendations: JSON.parse(row.recommendations || '[]'),
-        generatedAt: row.generated_at
-      });
+      if (!format) {
+        res.json({
+          id: report.id,
+          title: report.title,
+          summary: report.summary,
+          insights: report.insights,
+          recommendations: report.recommendations,
+          sections: report.data.sections,
+          generatedAt: report.generatedAt
+        });
+        return;
+      }
+
+      const rendered = renderReport(report, format, appendix);
+      res.setHeader('Content-Type', rendered.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+      res.send(rendered.content);
 
     } catch (error) {
       logger.error('Error getting report:', error);
@@ -389,7 +427,12 @@ export class AnalyticsAPI {
   private async generateReport(req: Request, res: Response): Promise<void> {
     try {
       const { serverId } = req.params;
-      const { reportType, periodStart, periodEnd } = req.body;
+      const { reportType, periodStart, periodEnd, sections, deliver } = req.body;
+
+      if (sections !== undefined && (!Array.isArray(sections) || !sections.every(s => REPORT_SECTIONS.includes(s)))) {
+        res.status(400).json({ error: `sections must be a list of ${REPORT_SECTIONS.join(', ')}` });
+        return;
+      }
 
       let report;
 
@@ -401,16 +444,20 @@ export class AnalyticsAPI {
         report = await this.reportGenerator.generateCustomReport(
           serverId,
           new Date(periodStart),
-          new Date(periodEnd)
+          new Date(periodEnd),
+          { sections }
         );
       } else {
         res.status(400).json({ error: 'Invalid report type or period' });
         return;
       }
 
+      const deliveredTo = deliver ? await this.reportGenerator.deliverReport(report) : undefined;
+
       res.json({
         success: true,
-        report
+        report,
+        deliveredTo
       });
 
     } catch (error) {
@@ -419,6 +466,82 @@ export class AnalyticsAPI {
     }
   }
 
+  /**
+   * POST /api/analytics/reports/:serverId/:reportId/deliver
+   * Send an existing report to the configured destinations
+   */
+  private async deliverReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { serverId, reportId } = req.params;
+
+      const id = parseInt(reportId);
+      const report = Number.isNaN(id) ? null : await this.reportGenerator.getReport(serverId, id);
+
+      if (!report) {
+        res.status(404).json({ error: 'Report not found' });
+        return;
+      }
+
+      const deliveredTo = await this.reportGenerator.deliverReport(report);
+      res.json({ success: deliveredTo.length > 0, deliveredTo });
+
+    } catch (error) {
+      logger.error('Error delivering report:', error);
+      res.status(500).json({ error: 'Failed to deliver report' });
+    }
+  }
+
+  /**
+   * GET /api/analytics/reports/:serverId/destinations
+   * Get report delivery destinations
+   */
+  private async getReportDestinations(req: Request, res: Response): Promise<void> {
+    try {
+      const { serverId } = req.params;
+      const destinations = await this.reportGenerator.getDestinations(serverId);
+
+      res.json({ serverId, destinations });
+
+    } catch (error) {
+      logger.error('Error getting report destinations:', error);
+      res.status(500).json({ error: 'Failed to get report destinations' });
+    }
+  }
+
+  /**
+   * PUT /api/analytics/reports/:serverId/destinations
+   * Replace report delivery destinations
+   */
+  private async updateReportDestinations(req: Request, res: Response): Promise<void> {
+    const { serverId } = req.params;
+
+    try {
+      await this.reportGenerator.updateDestinations(serverId, req.body?.destinations);
+      res.json({ success: true, destinations: await this.reportGenerator.getDestinations(serverId) });
+
+    } catch (error) {
+      logger.error('Error updating report destinations:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update report destinations' });
+    }
+  }
+
+  /**
+   * POST /api/analytics/reports/:serverId/destinations/:name/test
+   * Send the latest report to one destination
+   */
+  private async testReportDestination(req: Request, res: Response): Promise<void> {
+    const { serverId, name } = req.params;
+
+    try {
+      await this.reportGenerator.testDestination(serverId, name);
+      res.json({ success: true });
+
+    } catch (error) {
+      logger.error('Error testing report destination:', error);
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to deliver test report' });
+    }
+  }
+
   /**
    * GET /api/analytics/alerts/:serverId
    * Get recent alerts
@@ -474,7 +597,9 @@ export class AnalyticsAPI {
   private async acknowledgeAlert(req: Request, res: Response): Promise<void> {
     try {
       const { alertId } = req.params;
-      const { moderatorId } = req.body;
+      // Sessions act as themselves; API keys name the moderator in the body
+      const principal = AccessControl.principalOf(res);
+      const moderatorId = principal?.type === 'session' ? principal.id : req.body.moderatorId;
 
       if (!moderatorId) {
         res.status(400).json({ error: 'moderatorId required' });
@@ -491,6 +616,99 @@ export class AnalyticsAPI {
     }
   }
 
+
+  /**
+   * GET /api/analytics/alerts/:serverId/preferences
+   * Get alert preferences (including delivery sinks and escalation)
+   */
+  private async getAlertPreferences(req: Request, res: Response): Promise<void> {
+    const { serverId } = req.params;
+    res.json({ serverId, preferences: this.alertSystem.getPreferences(serverId) });
+  }
+
+  /**
+   * PUT /api/analytics/alerts/:serverId/preferences
+   * Update alert preferences
+   */
+  private async updateAlertPreferences(req: Request, res: Response): Promise<void> {
+    const { serverId } = req.params;
+
+    try {
+      await this.alertSystem.updatePreferences(serverId, req.body || {});
+      res.json({ success: true, preferences: this.alertSystem.getPreferences(serverId) });
+
+    } catch (error) {
+      logger.error('Error updating alert preferences:', error);
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update alert preferences' });
+    }
+  }
+
+  /**
+   * POST /api/analytics/alerts/:serverId/sinks/:sinkName/test
+   * Send a test alert to one sink
+   */
+  private async testAlertSink(req: Request, res: Response): Promise<void> {
+    const { serverId, sinkName } = req.params;
+
+    try {
+      await this.alertSystem.testSink(serverId, sinkName);
+      res.json({ success: true });
+
+    } catch (error) {
+      logger.error('Error testing alert sink:', error);
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to deliver test alert' });
+    }
+  }
+
+  /**
+   * GET /api/analytics/incidents/:serverId?status=open|acknowledged
+   * Get grouped alert incidents
+   */
+  private async getIncidents(req: Request, res: Response): Promise<void> {
+    try {
+      const { serverId } = req.params;
+      const status = req.query.status as 'open' | 'acknowledged' | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      const incidents = await this.alertSystem.getIncidents(serverId, status, limit);
+
+      res.json({
+        serverId,
+        count: incidents.length,
+        incidents
+      });
+
+    } catch (error) {
+      logger.error('Error getting incidents:', error);
+      res.status(500).json({ error: 'Failed to get incidents' });
+    }
+  }
+
+  /**
+   * POST /api/analytics/incidents/:incidentId/acknowledge
+   * Acknowledge an incident (stops escalation)
+   */
+  private async acknowledgeIncident(req: Request, res: Response): Promise<void> {
+    try {
+      const incidentId = parseInt(req.params.incidentId);
+      // Sessions act as themselves; API keys name the moderator in the body
+      const principal = AccessControl.principalOf(res);
+      const moderatorId = principal?.type === 'session' ? principal.id : req.body.moderatorId;
+
+      if (!moderatorId) {
+        res.status(400).json({ error: 'moderatorId required' });
+        return;
+      }
+
+      const acknowledged = await this.alertSystem.acknowledgeIncident(incidentId, moderatorId);
+
+      res.json({ success: true, acknowledged });
+
+    } catch (error) {
+      logger.error('Error acknowledging incident:', error);
+      res.status(500).json({ error: 'Failed to acknowledge incident' });
+    }
+  }
   /**
    * GET /api/analytics/trends/:serverId
    * Get trend data for charts (time-series data)
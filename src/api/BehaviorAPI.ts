@@ -4,6 +4,7 @@ import { BehaviorParser, BDLBehavior } from '../services/BehaviorParser';
 import { BehaviorTemplates } from '../templates/BehaviorTemplates';
 import { BehaviorEngine } from '../core/BehaviorEngine';
 import logger from '../utils/logger';
+import { AccessControl, accessControl } from './AccessControl';
 
 /**
  * BehaviorAPI
@@ -31,27 +32,40 @@ export class BehaviorAPI {
    * Setup all API routes
    */
   private setupRoutes(): void {
+    // Every route requires a session or API key; guild routes also need a role there
+    this.router.use(accessControl.authenticate());
+    const behaviorGuild = accessControl.guildOf('dynamic_behaviors', 'behaviorId');
+    const approvalGuild = accessControl.guildOf('behavior_action_approvals', 'approvalId');
+
     // Behaviors CRUD
-    this.router.post('/behaviors', this.createBehavior.bind(this));
-    this.router.get('/behaviors/:serverId', this.getBehaviors.bind(this));
-    this.router.get('/behaviors/:serverId/:behaviorId', this.getBehavior.bind(this));
-    this.router.put('/behaviors/:behaviorId', this.updateBehavior.bind(this));
-    this.router.delete('/behaviors/:behaviorId', this.deleteBehavior.bind(this));
+    this.router.post('/behaviors', accessControl.requireGuildRole('admin'), this.createBehavior.bind(this));
+    this.router.get('/behaviors/:serverId', accessControl.requireGuildRole('viewer'), this.getBehaviors.bind(this));
+    this.router.get('/behaviors/:serverId/:behaviorId', accessControl.requireGuildRole('viewer', behaviorGuild), this.getBehavior.bind(this));
+    this.router.put('/behaviors/:behaviorId', accessControl.requireGuildRole('admin', behaviorGuild), this.updateBehavior.bind(this));
+    this.router.delete('/behaviors/:behaviorId', accessControl.requireGuildRole('admin', behaviorGuild), this.deleteBehavior.bind(this));
 
     // Enable/Disable
-    this.router.post('/behaviors/:behaviorId/enable', this.enableBehavior.bind(this));
-    this.router.post('/behaviors/:behaviorId/disable', this.disableBehavior.bind(this));
+    this.router.post('/behaviors/:behaviorId/enable', accessControl.requireGuildRole('admin', behaviorGuild), this.enableBehavior.bind(this));
+    this.router.post('/behaviors/:behaviorId/disable', accessControl.requireGuildRole('moderator', behaviorGuild), this.disableBehavior.bind(this));
 
     // Executions
-    this.router.get('/behaviors/:behaviorId/executions', this.getExecutions.bind(this));
+    this.router.get('/behaviors/:behaviorId/executions', accessControl.requireGuildRole('viewer', behaviorGuild), this.getExecutions.bind(this));
+
+    // Sandbox (dry-run against recorded or synthetic events)
+    this.router.post('/behaviors/:behaviorId/simulate', accessControl.requireGuildRole('moderator', behaviorGuild), this.simulateBehavior.bind(this));
+    this.router.post('/simulate', accessControl.requireGuildRole('moderator'), this.simulateDraft.bind(this));
+
+    // Moderator approval queue
+    this.router.get('/approvals/:serverId', accessControl.requireGuildRole('moderator'), this.getPendingApprovals.bind(this));
+    this.router.post('/approvals/:approvalId/decide', accessControl.requireGuildRole('moderator', approvalGuild), this.decideApproval.bind(this));
 
     // Templates
     this.router.get('/templates', this.getTemplates.bind(this));
     this.router.get('/templates/:templateId', this.getTemplate.bind(this));
-    this.router.post('/templates/:templateId/instantiate', this.instantiateTemplate.bind(this));
+    this.router.post('/templates/:templateId/instantiate', accessControl.requireGuildRole('admin'), this.instantiateTemplate.bind(this));
 
     // Statistics
-    this.router.get('/stats/:serverId', this.getStats.bind(this));
+    this.router.get('/stats/:serverId', accessControl.requireGuildRole('viewer'), this.getStats.bind(this));
   }
 
   /**
@@ -60,10 +74,12 @@ export class BehaviorAPI {
    */
   private async createBehavior(req: Request, res: Response): Promise<void> {
     try {
-      const { serverId, userId, description, bdl } = req.body;
+      const { serverId, description, bdl } = req.body;
+      // Recorded as created by whoever authenticated (user or API key)
+      const userId = AccessControl.principalOf(res)!.id;
 
-      if (!serverId || !userId) {
-        res.status(400).json({ error: 'serverId and userId required' });
+      if (!serverId) {
+        res.status(400).json({ error: 'serverId required' });
         return;
       }
 
@@ -392,7 +408,8 @@ export class BehaviorAPI {
         actionsExecuted: row.actions_executed,
         analysisResult: row.analysis_result,
         error: row.error,
-        executionTimeMs: row.execution_time_ms
+        executionTimeMs: row.execution_time_ms,
+        actionResults: row.action_results || []
       }));
 
       res.json({ executions });
@@ -403,6 +420,165 @@ export class BehaviorAPI {
     }
   }
 
+  /**
+   * GET /api/approvals/:serverId
+   * Get actions waiting for moderator approval
+   */
+  private async getPendingApprovals(req: Request, res: Response): Promise<void> {
+    try {
+      const { serverId } = req.params;
+
+      const rows = await this.engine.getPendingApprovals(serverId);
+
+      const approvals = rows.map(row => ({
+        id: row.id,
+        behaviorId: row.behavior_id,
+        executionId: row.execution_id,
+        actionIndex: row.action_index,
+        action: row.action,
+        requestedAt: row.requested_at,
+        expiresAt: row.expires_at
+      }));
+
+      res.json({ approvals });
+
+    } catch (error) {
+      logger.error('Error getting approvals:', error);
+      res.status(500).json({ error: 'Failed to get approvals' });
+    }
+  }
+
+  /**
+   * POST /api/approvals/:approvalId/decide
+   * Approve or deny a pending action
+   */
+  private async decideApproval(req: Request, res: Response): Promise<void> {
+    try {
+      const approvalId = parseInt(req.params.approvalId);
+      // Sessions act as themselves; API keys name the moderator in the body
+      const principal = AccessControl.principalOf(res);
+      const approve = req.body.approve;
+      const userId = principal?.type === 'session' ? principal.id : req.body.userId;
+
+      if (typeof approve !== 'boolean' || !userId) {
+        res.status(400).json({ error: 'approve (boolean) and userId required' });
+        return;
+      }
+
+      const decision = await this.engine.decideApproval(approvalId, approve, userId);
+
+      if (!decision) {
+        res.status(404).json({ error: 'Approval not found or already decided' });
+        return;
+      }
+
+      res.json({ success: true, decision });
+
+    } catch (error) {
+      logger.error('Error deciding approval:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to decide approval' });
+    }
+  }
+
+  /**
+   * POST /api/behaviors/:behaviorId/simulate
+   * Replay events through a saved behavior without executing actions
+   * Body: { events?: SimulatedEvent[], source?: 'synthetic'|'recorded', channelId?, userId?, limit?, skipAI? }
+   */
+  private async simulateBehavior(req: Request, res: Response): Promise<void> {
+    try {
+      const { behaviorId } = req.params;
+
+      const result = await this.db.query('SELECT * FROM dynamic_behaviors WHERE id = $1', [behaviorId]);
+
+      if (result.rows.length === 0) {
+        res.status(404).json({ error: 'Behavior not found' });
+        return;
+      }
+
+      const row = result.rows[0];
+      const behavior: BDLBehavior = {
+        id: row.id,
+        name: row.name,
+        description: row.description,
+        enabled: row.enabled,
+        trigger: row.trigger,
+        tracking: row.tracking,
+        analysis: row.analysis,
+        actions: row.actions,
+        safety: row.safety
+      };
+
+      await this.runSimulation(behavior, row.server_id, req.body || {}, res);
+
+    } catch (error) {
+      logger.error('Error simulating behavior:', error);
+      res.status(500).json({ error: 'Failed to simulate behavior' });
+    }
+  }
+
+  /**
+   * POST /api/simulate
+   * Replay events through an unsaved BDL behavior
+   * Body: { serverId, bdl, events?, source?, channelId?, userId?, limit?, skipAI? }
+   */
+  private async simulateDraft(req: Request, res: Response): Promise<void> {
+    try {
+      const { serverId, bdl } = req.body;
+
+      if (!serverId || !bdl) {
+        res.status(400).json({ error: 'serverId and bdl required' });
+        return;
+      }
+
+      try {
+        this.parser.validateBDL(bdl);
+      } catch (error) {
+        res.status(400).json({ error: 'Invalid BDL', details: error instanceof Error ? error.message : 'Unknown error' });
+        return;
+      }
+
+      await this.runSimulation({ ...bdl, safety: bdl.safety || {} }, serverId, req.body, res);
+
+    } catch (error) {
+      logger.error('Error simulating draft behavior:', error);
+      res.status(500).json({ error: 'Failed to simulate behavior' });
+    }
+  }
+
+  /**
+   * Run the sandbox and send the trace (bad input is a 400)
+   */
+  private async runSimulation(behavior: BDLBehavior, serverId: string, body: any, res: Response): Promise<void> {
+    const { events, source, channelId, userId, limit, skipAI } = body;
+
+    if (source !== 'recorded' && !Array.isArray(events)) {
+      res.status(400).json({ error: 'events array required unless source is "recorded"' });
+      return;
+    }
+
+    try {
+      const trace = await this.engine.simulate(behavior, events || null, {
+        serverId,
+        source: source === 'recorded' ? 'recorded' : 'synthetic',
+        channelId,
+        userId,
+        limit: limit ? parseInt(limit) : undefined,
+        skipAI: !!skipAI
+      });
+
+      res.json({ trace });
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (/No events|Too many events|Unsupported sandbox event/.test(message)) {
+        res.status(400).json({ error: message });
+        return;
+      }
+      throw error;
+    }
+  }
+
   /**
    * GET /api/templates
    * Get all templates
@@ -455,10 +631,11 @@ export class BehaviorAPI {
   private async instantiateTemplate(req: Request, res: Response): Promise<void> {
     try {
       const { templateId } = req.params;
-      const { serverId, userId, placeholders } = req.body;
+      const { serverId, placeholders } = req.body;
+      const userId = AccessControl.principalOf(res)!.id;
 
-      if (!serverId || !userId) {
-        res.status(400).json({ error: 'serverId and userId required' });
+      if (!serverId) {
+        res.status(400).json({ error: 'serverId required' });
         return;
       }
 
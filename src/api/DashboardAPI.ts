@@ -18,6 +18,8 @@ import { SicilRepository } from '../database/repositories/SicilRepository';
 import { UserRepository } from '../database/repositories/UserRepository';
 import { Client } from 'discord.js';
 import { createLogger } from '../services/Logger';
+import { walletLinkService, WalletLinkError } from '../services/WalletLinkService';
+import { trustScorePublisher } from '../services/TrustScorePublisher';
 
 const logger = createLogger('DashboardAPI');
 
@@ -104,6 +106,16 @@ export class DashboardAPI {
     // Get global statistics
     this.app.get('/api/stats', this.getStats.bind(this));
 
+    // Merkle inclusion proof for a user's published on-chain trust score
+    this.app.get('/api/trust-proof/:userId', this.getTrustProof.bind(this));
+
+    // Wallet ownership proof (/linkwallet signing page)
+    this.app.get('/linkwallet', (req, res) => {
+      res.sendFile(path.resolve(__dirname, '..', '..', 'public', 'linkwallet.html'));
+    });
+    this.app.get('/api/wallet/challenge/:nonce', this.getWalletChallenge.bind(this));
+    this.app.post('/api/wallet/verify', this.verifyWalletSignature.bind(this));
+
     // 404 handler
     this.app.use((req, res) => {
       res.status(404).json({ error: 'Not found' });
@@ -154,6 +166,74 @@ export class DashboardAPI {
     }
   }
 
+  /**
+   * GET /api/trust-proof/:userId
+   * Returns the user's latest published score with its Merkle proof, verifiable
+   * with BecasTrustScore.verifyScore(epoch, userHash, score, riskScore, violations, proof)
+   */
+  private async getTrustProof(req: Request, res: Response): Promise<void> {
+    try {
+      const proof = await trustScorePublisher.getProof(req.params.userId);
+
+      if (!proof) {
+        res.status(404).json({ error: 'No published score for this user' });
+        return;
+      }
+
+      res.json(proof);
+    } catch (error) {
+      logger.error('Error building trust score proof:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * GET /api/wallet/challenge/:nonce
+   * Returns the message a user must sign to prove wallet ownership
+   */
+  private async getWalletChallenge(req: Request, res: Response): Promise<void> {
+    const challenge = walletLinkService.getChallenge(req.params.nonce);
+
+    if (!challenge) {
+      res.status(410).json({ error: 'Challenge not found, already used or expired. Run /linkwallet again.' });
+      return;
+    }
+
+    res.json({
+      address: challenge.address,
+      username: challenge.username,
+      message: challenge.message,
+      expiresAt: challenge.expiresAt.toISOString()
+    });
+  }
+
+  /**
+   * POST /api/wallet/verify
+   * Body: { nonce, signature } - links the wallet if the signature matches
+   */
+  private async verifyWalletSignature(req: Request, res: Response): Promise<void> {
+    try {
+      const { nonce, signature } = req.body || {};
+
+      if (typeof nonce !== 'string' || typeof signature !== 'string') {
+        res.status(400).json({ error: 'nonce and signature are required' });
+        return;
+      }
+
+      const result = await walletLinkService.verifyAndLink(nonce, signature);
+
+      res.json({ success: true, address: result.address, txHash: result.txHash });
+    } catch (error) {
+      if (error instanceof WalletLinkError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+
+      logger.error('Error verifying wallet signature:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
   /**
    * GET /api/profile/:id
    * Returns detailed user profile with deep analysis
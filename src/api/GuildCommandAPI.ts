@@ -642,6 +642,11 @@ Respond helpfully to the admin's question. Keep responses under 200 words.`;
    */
   private async handleOAuthCallback(req: Request, res: Response): Promise<void> {
     try {
+      if (!AuthService.sessionsEnabled()) {
+        res.status(503).send('Dashboard login is disabled: set SESSION_SECRET');
+        return;
+      }
+
       const { code } = req.query;
 
       if (!code || typeof code !== 'string') {
@@ -3,6 +3,7 @@ import { FeedbackCollector } from '../services/FeedbackCollector';
 import { LearningEngine } from '../services/LearningEngine';
 import { ABTesting } from '../services/ABTesting';
 import logger from '../utils/logger';
+import { accessControl } from './AccessControl';
 
 /**
  * LearningAPI
@@ -43,27 +44,31 @@ export class LearningAPI {
    * Setup all API routes
    */
   private setupRoutes(): void {
+    // Every route requires a session or API key with a role in the target guild
+    this.router.use(accessControl.authenticate());
+    const testGuild = accessControl.guildOf('ab_tests', 'testId');
+
     // Learning metrics
-    this.router.get('/metrics/:serverId', this.getMetrics.bind(this));
+    this.router.get('/metrics/:serverId', accessControl.requireGuildRole('viewer'), this.getMetrics.bind(this));
 
     // Feedback data
-    this.router.get('/feedback/:serverId', this.getFeedback.bind(this));
+    this.router.get('/feedback/:serverId', accessControl.requireGuildRole('viewer'), this.getFeedback.bind(this));
 
     // Learning adjustments
-    this.router.get('/adjustments/:serverId', this.getAdjustments.bind(this));
+    this.router.get('/adjustments/:serverId', accessControl.requireGuildRole('viewer'), this.getAdjustments.bind(this));
 
     // A/B tests
-    this.router.get('/tests/:serverId', this.getTests.bind(this));
-    this.router.get('/tests/:testId/details', this.getTestDetails.bind(this));
+    this.router.get('/tests/:serverId', accessControl.requireGuildRole('viewer'), this.getTests.bind(this));
+    this.router.get('/tests/:testId/details', accessControl.requireGuildRole('viewer', testGuild), this.getTestDetails.bind(this));
 
     // Trigger learning
-    this.router.post('/analyze/:serverId', this.triggerAnalysis.bind(this));
+    this.router.post('/analyze/:serverId', accessControl.requireGuildRole('admin'), this.triggerAnalysis.bind(this));
 
     // Performance over time
-    this.router.get('/performance/:serverId', this.getPerformance.bind(this));
+    this.router.get('/performance/:serverId', accessControl.requireGuildRole('viewer'), this.getPerformance.bind(this));
 
     // Confidence calibration
-    this.router.get('/calibration/:serverId', this.getCalibration.bind(this));
+    this.router.get('/calibration/:serverId', accessControl.requireGuildRole('viewer'), this.getCalibration.bind(this));
   }
 
   /**
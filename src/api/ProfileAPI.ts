@@ -18,6 +18,7 @@ import { UserRepository } from '../database/repositories/UserRepository';
 import { MessageRepository } from '../database/repositories/MessageRepository';
 import { SicilRepository } from '../database/repositories/SicilRepository';
 import { createLogger } from '../services/Logger';
+import { accessControl } from './AccessControl';
 
 const logger = createLogger('ProfileAPI');
 
@@ -37,26 +38,29 @@ export class ProfileAPI {
   }
 
   private setupRoutes(): void {
+    // Every route requires a session or API key; profiles are visible to moderators of the guild (?serverId=)
+    this.router.use(accessControl.authenticate());
+
     // Get user profile
-    this.router.get('/profile/:userId', this.getProfile.bind(this));
+    this.router.get('/profile/:userId', accessControl.requireGuildRole('moderator'), this.getProfile.bind(this));
 
     // Force rebuild profile
-    this.router.post('/profile/:userId/rebuild', this.rebuildProfile.bind(this));
+    this.router.post('/profile/:userId/rebuild', accessControl.requireGuildRole('moderator'), this.rebuildProfile.bind(this));
 
     // Get specific trait category
-    this.router.get('/profile/:userId/traits/:category', this.getTraits.bind(this));
+    this.router.get('/profile/:userId/traits/:category', accessControl.requireGuildRole('moderator'), this.getTraits.bind(this));
 
     // Compare two users
-    this.router.get('/profile/compare/:userId1/:userId2', this.compareProfiles.bind(this));
+    this.router.get('/profile/compare/:userId1/:userId2', accessControl.requireGuildRole('moderator'), this.compareProfiles.bind(this));
 
     // Get all profiles for server (paginated)
-    this.router.get('/profiles/server/:serverId', this.getServerProfiles.bind(this));
+    this.router.get('/profiles/server/:serverId', accessControl.requireGuildRole('moderator'), this.getServerProfiles.bind(this));
 
     // Get high-risk users
-    this.router.get('/profiles/risky/:serverId', this.getRiskyUsers.bind(this));
+    this.router.get('/profiles/risky/:serverId', accessControl.requireGuildRole('moderator'), this.getRiskyUsers.bind(this));
 
     // Get update automation stats
-    this.router.get('/profiles/stats', this.getStats.bind(this));
+    this.router.get('/profiles/stats', accessControl.requireGlobalRole('viewer'), this.getStats.bind(this));
   }
 
   /**
@@ -0,0 +1,250 @@
+/**
+ * BECAS COMPENSATION - PLAN UNDO / ROLLBACK
+ *
+ * Records the side-effecting steps of each executed plan together with the
+ * inverse operation each tool declares (ban -> unban, timeout -> remove_timeout,
+ * add_role -> remove_role, lock_channel -> unlock_channel, set_slowmode -> previous
+ * slowmode), and replays those inverses in reverse order to undo a plan.
+ *
+ * Singleton so every executor (BecasCore, ExecutionEngine, BecasFlow) shares
+ * the same per-guild history and "undo last plan" works regardless of which
+ * one ran the plan. Logs are stored in becasflow_compensation_logs so undo
+ * survives restarts; the plans of this process are also kept in memory, which
+ * is all there is when the database is unavailable.
+ */
+
+import {
+  BecasPlan,
+  BecasTool,
+  BecasToolResult,
+  BecasContext,
+  BecasCompensationLog,
+  BecasUndoResult,
+} from '../types/BecasFlow.types';
+import { Pool } from 'pg';
+import { BecasToolRegistry } from '../registry/BecasToolRegistry';
+import { getPostgresPool } from '../../database/config';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('BecasCompensation');
+
+const MAX_LOGS_PER_GUILD = 10;
+
+export class BecasCompensationStore {
+  private static instance: BecasCompensationStore;
+  private logs: Map<string, BecasCompensationLog[]> = new Map();  // guildId -> oldest first
+
+  constructor(private db?: Pool) {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): BecasCompensationStore {
+    if (!BecasCompensationStore.instance) {
+      BecasCompensationStore.instance = new BecasCompensationStore();
+    }
+    return BecasCompensationStore.instance;
+  }
+
+  /**
+   * Start a compensation log for a plan
+   */
+  begin(plan: BecasPlan, context: BecasContext): BecasCompensationLog {
+    return {
+      planId: plan.id,
+      query: plan.query,
+      guildId: context.guild.id,
+      executedBy: context.member.id,
+      createdAt: Date.now(),
+      entries: [],
+      undone: false,
+    };
+  }
+
+  /**
+   * Record a successful tool call. Tools that declare an inverse are recorded
+   * when there is something to reverse; side-effecting tools without one
+   * (requiresConfirmation) are recorded as irreversible.
+   */
+  record(log: BecasCompensationLog, stepId: string, tool: BecasTool, params: any, result: BecasToolResult): void {
+    if (!result.success) return;
+
+    if (tool.inverse) {
+      const inverse = tool.inverse(params, result);
+      if (!inverse) return;
+
+      log.entries.push({ stepId, toolName: tool.name, inverse, executedAt: Date.now(), status: 'pending' });
+      return;
+    }
+
+    if (tool.requiresConfirmation) {
+      log.entries.push({ stepId, toolName: tool.name, inverse: null, executedAt: Date.now(), status: 'pending' });
+    }
+  }
+
+  /**
+   * Keep a finished plan's log for "undo last plan"
+   */
+  async save(log: BecasCompensationLog): Promise<void> {
+    if (log.entries.length === 0) return;
+
+    const guildLogs = (this.logs.get(log.guildId) || []).filter((l) => l.planId !== log.planId);
+    guildLogs.push(log);
+    this.logs.set(log.guildId, guildLogs.slice(-MAX_LOGS_PER_GUILD));
+
+    await this.persist(log);
+  }
+
+  /**
+   * Most recent plan in the guild that still has something to undo
+   */
+  async getLastUndoable(guildId: string): Promise<BecasCompensationLog | undefined> {
+    const guildLogs = await this.load(guildId);
+
+    for (let i = guildLogs.length - 1; i >= 0; i--) {
+      const log = guildLogs[i];
+      if (!log.undone && log.entries.some((e) => e.inverse && e.status !== 'undone')) {
+        return log;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find a plan's log by ID
+   */
+  async get(guildId: string, planId: string): Promise<BecasCompensationLog | undefined> {
+    return (await this.load(guildId)).find((log) => log.planId === planId);
+  }
+
+  /**
+   * Replay a log's inverse operations in reverse completion order.
+   * Inverse tools run with the requesting member's context, so their own
+   * permission checks apply. Failed entries stay retryable.
+   */
+  async undo(log: BecasCompensationLog, context: BecasContext, registry?: BecasToolRegistry): Promise<BecasUndoResult> {
+    const reg = registry || BecasToolRegistry.getInstance();
+    const result: BecasUndoResult = { success: true, planId: log.planId, undone: [], failed: [], irreversible: [], finalOutput: '' };
+
+    logger.info(`Undoing plan ${log.planId} (${log.entries.length} entries)`);
+
+    for (const entry of [...log.entries].reverse()) {
+      if (entry.status === 'undone') continue;
+
+      if (!entry.inverse) {
+        result.irreversible.push({ stepId: entry.stepId, toolName: entry.toolName });
+        continue;
+      }
+
+      const tool = reg.get(entry.inverse.toolName);
+      let toolResult: BecasToolResult;
+
+      try {
+        toolResult = tool
+          ? await tool.execute(entry.inverse.params, context)
+          : { success: false, error: `Tool not found: ${entry.inverse.toolName}` };
+      } catch (error) {
+        toolResult = { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (toolResult.success) {
+        entry.status = 'undone';
+        delete entry.error;
+        result.undone.push({ stepId: entry.stepId, description: entry.inverse.description });
+      } else {
+        entry.status = 'failed';
+        entry.error = toolResult.error || 'Unknown error';
+        result.failed.push({ stepId: entry.stepId, error: entry.error });
+        logger.warn(`Failed to undo ${entry.stepId} (${entry.toolName}): ${entry.error}`);
+      }
+    }
+
+    result.success = result.failed.length === 0;
+    log.undone = result.success;
+    result.finalOutput = this.summarize(log, result);
+
+    await this.persist(log);
+
+    return result;
+  }
+
+  /**
+   * The guild's recent logs, oldest first. Logs of this process are used as is
+   * (they may be mid-undo); older ones come from the database.
+   */
+  private async load(guildId: string): Promise<BecasCompensationLog[]> {
+    const cached = this.logs.get(guildId) || [];
+    let stored: BecasCompensationLog[] = [];
+
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM becasflow_compensation_logs
+         WHERE guild_id = $1
+         ORDER BY created_at DESC
+         LIMIT $2`,
+        [guildId, MAX_LOGS_PER_GUILD]
+      );
+      stored = result.rows.map(toLog);
+    } catch (error) {
+      logger.warn(`Failed to load compensation logs for guild ${guildId}:`, error);
+    }
+
+    const cachedIds = new Set(cached.map((log) => log.planId));
+    return [...stored.filter((log) => !cachedIds.has(log.planId)), ...cached]
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .slice(-MAX_LOGS_PER_GUILD);
+  }
+
+  /**
+   * Write a log (and its entry statuses) to the database
+   */
+  private async persist(log: BecasCompensationLog): Promise<void> {
+    try {
+      await this.pool.query(
+        `INSERT INTO becasflow_compensation_logs
+           (guild_id, plan_id, query, executed_by, entries, undone, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (guild_id, plan_id)
+         DO UPDATE SET entries = EXCLUDED.entries, undone = EXCLUDED.undone, updated_at = NOW()`,
+        [log.guildId, log.planId, log.query, log.executedBy, JSON.stringify(log.entries), log.undone, new Date(log.createdAt)]
+      );
+    } catch (error) {
+      logger.warn(`Failed to store compensation log for plan ${log.planId}:`, error);
+    }
+  }
+
+  /**
+   * Natural language summary of an undo
+   */
+  private summarize(log: BecasCompensationLog, result: BecasUndoResult): string {
+    const parts: string[] = [
+      result.success ? `Undid "${log.query}".` : `Partially undid "${log.query}".`,
+    ];
+
+    result.undone.forEach((u) => parts.push(`↩ ${u.description}`));
+    result.failed.forEach((f) => parts.push(`✗ ${f.stepId}: ${f.error}`));
+
+    if (result.irreversible.length > 0) {
+      parts.push(`Cannot be undone: ${result.irreversible.map((i) => i.toolName).join(', ')}`);
+    }
+
+    return parts.join('\n');
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
+
+function toLog(row: any): BecasCompensationLog {
+  return {
+    planId: row.plan_id,
+    query: row.query,
+    guildId: row.guild_id,
+    executedBy: row.executed_by,
+    createdAt: new Date(row.created_at).getTime(),
+    entries: typeof row.entries === 'string' ? JSON.parse(row.entries) : row.entries,
+    undone: row.undone,
+  };
+}
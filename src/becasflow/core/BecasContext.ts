@@ -18,9 +18,18 @@ import { createLogger } from '../../services/Logger';
 
 const logger = createLogger('BecasContext');
 
+/**
+ * Where a context comes from when there is no message (slash commands)
+ */
+export interface BecasContextOrigin {
+  guild: Guild;
+  channel: TextChannel;
+  member: GuildMember;
+}
+
 export class BecasContext implements IBecasContext {
-  // Discord context
-  message: Message;
+  // Discord context (no message for slash commands)
+  message?: Message;
   guild: Guild;
   channel: TextChannel;
   member: GuildMember;
@@ -36,6 +45,9 @@ export class BecasContext implements IBecasContext {
   stepResults: Map<string, any> = new Map();
   variables: Map<string, any> = new Map();
 
+  // Dry run (set by the executor)
+  dryRun = false;
+
   // References from previous queries
   lastUsers?: string[];
   lastMessages?: string[];
@@ -55,7 +67,7 @@ export class BecasContext implements IBecasContext {
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
   constructor(
-    message: Message,
+    source: Message | BecasContextOrigin,
     services: {
       trustEngine?: any;
       v3Integration?: any;
@@ -64,10 +76,16 @@ export class BecasContext implements IBecasContext {
       [key: string]: any;
     } = {}
   ) {
-    this.message = message;
-    this.guild = message.guild!;
-    this.channel = message.channel as TextChannel;
-    this.member = message.member!;
+    if (source instanceof Message) {
+      this.message = source;
+      this.guild = source.guild!;
+      this.channel = source.channel as TextChannel;
+      this.member = source.member!;
+    } else {
+      this.guild = source.guild;
+      this.channel = source.channel;
+      this.member = source.member;
+    }
     this.services = services;
   }
 
@@ -291,7 +309,7 @@ export class BecasContext implements IBecasContext {
    * Clone context (for parallel execution)
    */
   clone(): BecasContext {
-    const cloned = new BecasContext(this.message, this.services);
+    const cloned = new BecasContext(this.message ?? this, this.services);
     cloned.conversationHistory = [...this.conversationHistory];
     cloned.stepResults = new Map(this.stepResults);
     cloned.variables = new Map(this.variables);
@@ -0,0 +1,275 @@
+/**
+ * BECAS DEPENDENCY GRAPH - STEP ORDERING
+ *
+ * Builds the dependency graph of a BecasFlow plan so independent steps can
+ * run concurrently while dependent steps wait for their inputs.
+ *
+ * Edges come from:
+ * - dependsOn (explicit - the dependency must produce a result)
+ * - References in params and conditions (implicit - ordering only):
+ *   {{step_1.field}}, {{variable}}, $variable, stepResults.step_1.field
+ * - Plan order between side-effecting steps (implicit - ordering only), so
+ *   "warn then ban" or "remove role then add role" never run concurrently.
+ *   Read-only steps still run alongside them.
+ *
+ * Steps nested in ifTrue/ifFalse/loop/fallback belong to their top-level step,
+ * so a reference to a nested step waits for the step that contains it.
+ */
+
+import { BecasPlan, BecasStep, BecasCondition } from '../types/BecasFlow.types';
+
+export interface BecasStepNode {
+  step: BecasStep;
+  index: number;  // Position in plan.steps
+  explicit: Set<string>;  // dependsOn
+  implicit: Set<string>;  // Referenced by params/conditions, or the previous side-effecting step
+  dependents: Set<string>;
+  branch: number;  // Connected component of the graph
+}
+
+export class BecasDependencyGraph {
+  readonly nodes: Map<string, BecasStepNode> = new Map();
+  readonly branchCount: number;
+
+  private constructor(plan: BecasPlan, hasSideEffects?: (step: BecasStep) => boolean) {
+    const owners = new Map<string, string>();  // Step ID or outputAs variable -> top-level step ID
+
+    plan.steps.forEach((step, index) => {
+      this.nodes.set(step.id, {
+        step,
+        index,
+        explicit: new Set(step.dependsOn || []),
+        implicit: new Set(),
+        dependents: new Set(),
+        branch: -1,
+      });
+
+      for (const nested of BecasDependencyGraph.flatten(step)) {
+        owners.set(nested.id, step.id);
+        if (nested.outputAs) {
+          owners.set(nested.outputAs, step.id);
+        }
+      }
+    });
+
+    for (const node of this.nodes.values()) {
+      for (const ref of BecasDependencyGraph.collectReferences(node.step)) {
+        const owner = owners.get(ref);
+        if (owner && owner !== node.step.id && !node.explicit.has(owner)) {
+          node.implicit.add(owner);
+        }
+      }
+    }
+
+    if (hasSideEffects) {
+      this.orderSideEffects(plan, hasSideEffects);
+    }
+
+    for (const node of this.nodes.values()) {
+      for (const depId of this.dependenciesOf(node.step.id)) {
+        this.nodes.get(depId)?.dependents.add(node.step.id);
+      }
+    }
+
+    this.branchCount = this.assignBranches();
+  }
+
+  /**
+   * Build the graph for a plan. With hasSideEffects, side-effecting steps
+   * also wait for the one before them in plan order.
+   */
+  static build(plan: BecasPlan, hasSideEffects?: (step: BecasStep) => boolean): BecasDependencyGraph {
+    return new BecasDependencyGraph(plan, hasSideEffects);
+  }
+
+  /**
+   * All dependencies (explicit and implicit) of a step
+   */
+  dependenciesOf(stepId: string): string[] {
+    const node = this.nodes.get(stepId);
+    if (!node) return [];
+    return [...node.explicit, ...node.implicit];
+  }
+
+  /**
+   * dependsOn entries that point at steps not in the plan
+   */
+  findMissingDependencies(): Array<{ stepId: string; depId: string }> {
+    const missing: Array<{ stepId: string; depId: string }> = [];
+
+    for (const node of this.nodes.values()) {
+      for (const depId of node.explicit) {
+        if (!this.nodes.has(depId)) {
+          missing.push({ stepId: node.step.id, depId });
+        }
+      }
+    }
+
+    return missing;
+  }
+
+  /**
+   * Find a dependency cycle. Returns the step IDs along the cycle
+   * (first and last are the same step), or null if the graph is acyclic.
+   */
+  findCycle(): string[] | null {
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+
+    const visit = (stepId: string): string[] | null => {
+      state.set(stepId, 'visiting');
+      path.push(stepId);
+
+      for (const depId of this.dependenciesOf(stepId)) {
+        if (!this.nodes.has(depId)) continue;
+
+        if (state.get(depId) === 'visiting') {
+          return [...path.slice(path.indexOf(depId)), depId];
+        }
+
+        if (!state.has(depId)) {
+          const cycle = visit(depId);
+          if (cycle) return cycle;
+        }
+      }
+
+      path.pop();
+      state.set(stepId, 'done');
+      return null;
+    };
+
+    for (const stepId of this.nodes.keys()) {
+      if (!state.has(stepId)) {
+        const cycle = visit(stepId);
+        if (cycle) return cycle;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Chain side-effecting steps in plan order. A step already ordered the
+   * other way round (the earlier step depends on it) keeps that order.
+   */
+  private orderSideEffects(plan: BecasPlan, hasSideEffects: (step: BecasStep) => boolean): void {
+    let previous: string | null = null;
+
+    for (const step of plan.steps) {
+      if (!BecasDependencyGraph.flatten(step).some(hasSideEffects)) continue;
+
+      if (previous && !this.dependsOn(previous, step.id)) {
+        const node = this.nodes.get(step.id)!;
+        if (!node.explicit.has(previous)) {
+          node.implicit.add(previous);
+        }
+      }
+
+      previous = step.id;
+    }
+  }
+
+  /**
+   * Whether a step waits (directly or transitively) for another
+   */
+  private dependsOn(stepId: string, otherId: string): boolean {
+    const seen = new Set<string>();
+    const queue = [stepId];
+
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      if (id === otherId) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      queue.push(...this.dependenciesOf(id));
+    }
+
+    return false;
+  }
+
+  /**
+   * Group steps into connected components so progress can be reported per branch
+   */
+  private assignBranches(): number {
+    let branch = 0;
+
+    for (const start of this.nodes.values()) {
+      if (start.branch !== -1) continue;
+
+      const queue = [start.step.id];
+      while (queue.length > 0) {
+        const node = this.nodes.get(queue.pop()!);
+        if (!node || node.branch !== -1) continue;
+
+        node.branch = branch;
+        queue.push(...this.dependenciesOf(node.step.id), ...node.dependents);
+      }
+
+      branch++;
+    }
+
+    return branch;
+  }
+
+  /**
+   * A step plus every step nested inside it
+   */
+  static flatten(step: BecasStep): BecasStep[] {
+    const nested = [
+      ...(step.ifTrue || []),
+      ...(step.ifFalse || []),
+      ...(step.loop?.steps || []),
+      ...(step.onError?.fallback || []),
+      ...Object.values(step.switch?.cases || {}).flat(),
+      ...(step.switch?.default || []),
+    ];
+
+    return [step, ...nested.flatMap((s) => BecasDependencyGraph.flatten(s))];
+  }
+
+  /**
+   * Names (step IDs or variables) referenced by a step's params and conditions,
+   * including those of its nested steps
+   */
+  private static collectReferences(step: BecasStep): Set<string> {
+    const refs = new Set<string>();
+
+    const fromString = (value: string) => {
+      for (const match of value.matchAll(/\{\{([^}]+)\}\}/g)) {
+        refs.add(match[1].trim().split('.')[0]);
+      }
+      if (value.startsWith('$')) {
+        refs.add(value.substring(1).split('.')[0]);
+      }
+      const stepRef = value.match(/^(?:stepResults|variables)\.([^.]+)/);
+      if (stepRef) {
+        refs.add(stepRef[1]);
+      }
+    };
+
+    const fromValue = (value: any) => {
+      if (typeof value === 'string') {
+        fromString(value);
+      } else if (Array.isArray(value)) {
+        value.forEach(fromValue);
+      } else if (value && typeof value === 'object') {
+        Object.values(value).forEach(fromValue);
+      }
+    };
+
+    const fromConditions = (conditions?: BecasCondition | BecasCondition[]) => {
+      for (const condition of Array.isArray(conditions) ? conditions : conditions ? [conditions] : []) {
+        if (condition.field) fromString(condition.field);
+      }
+    };
+
+    for (const s of BecasDependencyGraph.flatten(step)) {
+      fromValue(s.params);
+      fromConditions(s.condition);
+      fromConditions(s.loop?.condition);
+      if (s.switch?.field) fromString(s.switch.field);
+    }
+
+    return refs;
+  }
+}
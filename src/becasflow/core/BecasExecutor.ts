@@ -10,9 +10,10 @@
  * - Dry-run mode
  *
  * Features:
- * - Step dependency resolution
+ * - Step dependency resolution (steps form a DAG; independent steps run concurrently)
  * - Result chaining (reference previous step outputs)
  * - Error recovery with fallback steps
+ * - Compensation log per plan (undo / rollback on failure)
  * - Execution timeouts
  * - Detailed logging and metrics
  */
@@ -24,9 +25,15 @@ import {
   BecasExecutionOptions,
   BecasContext,
   BecasToolResult,
+  BecasTool,
+  BecasCompensationLog,
+  BecasUndoResult,
 } from '../types/BecasFlow.types';
 import { BecasToolRegistry } from '../registry/BecasToolRegistry';
 import { BecasConditions } from './BecasConditions';
+import { BecasDependencyGraph } from './BecasDependencyGraph';
+import { BecasCompensationStore } from './BecasCompensation';
+import { BecasImpactAnalyzer } from './BecasImpact';
 import { createLogger } from '../../services/Logger';
 import { SelfHealingEngine } from '../services/SelfHealingEngine';
 import { SafetyValidator } from '../services/SafetyValidator';
@@ -34,25 +41,44 @@ import { LoopDetector } from '../services/BecasFlowAI';
 
 const logger = createLogger('BecasExecutor');
 
-interface ExecutionProgress {
+export type StepStatus = 'pending' | 'running' | 'completed' | 'skipped' | 'failed';
+
+/**
+ * Progress of one branch (connected group of dependent steps)
+ */
+export interface BranchProgress {
+  branch: number;
+  steps: string[];
+  completedSteps: number;
+  runningSteps: string[];
+  status: 'pending' | 'running' | 'completed' | 'failed';
+}
+
+export interface ExecutionProgress {
   totalSteps: number;
   completedSteps: number;
   currentStep?: string;
+  runningSteps?: string[];
+  branches?: BranchProgress[];
   status: 'running' | 'paused' | 'completed' | 'failed';
 }
 
+const DEFAULT_MAX_CONCURRENCY = 4;
+
 export class BecasExecutor {
   private registry: BecasToolRegistry;
   private progressCallback?: (progress: ExecutionProgress) => void;
   private selfHealing: SelfHealingEngine;
   private safetyValidator: SafetyValidator;
   private loopDetector: LoopDetector;
+  private compensations: BecasCompensationStore;
 
   constructor(registry?: BecasToolRegistry) {
     this.registry = registry || BecasToolRegistry.getInstance();
     this.selfHealing = new SelfHealingEngine(this.registry);
     this.safetyValidator = new SafetyValidator();
     this.loopDetector = new LoopDetector();
+    this.compensations = BecasCompensationStore.getInstance();
     logger.info('BecasExecutor initialized with AI enhancements');
   }
 
@@ -82,42 +108,36 @@ export class BecasExecutor {
 
     // Set plan in context
     context.currentPlan = plan;
+    context.dryRun = !!options.dryRun;
+
+    // Side-effecting steps are logged so the plan can be undone (nothing to undo in a dry run)
+    const compensationLog = options.dryRun ? undefined : this.compensations.begin(plan, context);
 
     try {
-      // Execute steps in order
-      for (let i = 0; i < plan.steps.length; i++) {
-        const step = plan.steps[i];
-
-        // Update progress
-        this.reportProgress({
-          totalSteps: plan.steps.length,
-          completedSteps: i,
-          currentStep: step.id,
-          status: 'running',
-        });
-
-        // Check timeout
-        if (options.maxExecutionTime && Date.now() - startTime > options.maxExecutionTime) {
-          throw new Error('Execution timeout exceeded');
-        }
+      const graph = BecasDependencyGraph.build(plan, (step) => !this.registry.get(step.toolName)?.readOnly);
 
-        // Check if step should be executed (dependencies)
-        if (step.dependsOn && step.dependsOn.length > 0) {
-          const unmetDeps = step.dependsOn.filter((depId) => !context.stepResults.has(depId));
-          if (unmetDeps.length > 0) {
-            logger.warn(`Step ${step.id} has unmet dependencies: ${unmetDeps.join(', ')}`);
-            stepsSkipped++;
-            continue;
-          }
-        }
+      const cycle = graph.findCycle();
+      if (cycle) {
+        throw new Error(`Dependency cycle: ${cycle.join(' -> ')}`);
+      }
 
-        // Execute step
+      const maxConcurrency = Math.max(1, options.maxConcurrency || DEFAULT_MAX_CONCURRENCY);
+      const statuses = new Map<string, StepStatus>(plan.steps.map((step) => [step.id, 'pending']));
+      const running = new Map<string, Promise<void>>();
+      let abortError: Error | null = null;
+
+      const report = (currentStep?: string) => {
+        this.reportProgress(this.buildProgress(graph, statuses, currentStep));
+      };
+
+      const runStep = async (step: BecasStep) => {
         try {
-          const stepResult = await this.executeStep(step, context, options);
+          const stepResult = await this.executeStep(step, context, options, compensationLog);
 
           if (stepResult) {
             results.push(stepResult);
             stepsExecuted++;
+            statuses.set(step.id, 'completed');
 
             // Handle loops
             if (stepResult.result.metadata?.loopBack) {
@@ -125,30 +145,95 @@ export class BecasExecutor {
             }
           } else {
             stepsSkipped++;
+            statuses.set(step.id, 'skipped');
           }
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           logger.error(`Error executing step ${step.id}:`, error);
 
+          statuses.set(step.id, 'failed');
           errors.push({
             stepId: step.id,
             error: errorMessage,
           });
 
-          if (options.pauseOnError) {
-            throw error;
+          if (options.pauseOnError && !abortError) {
+            abortError = error instanceof Error ? error : new Error(errorMessage);
+          }
+        } finally {
+          running.delete(step.id);
+          report();
+        }
+      };
+
+      // Launch every step whose dependencies have finished, up to the concurrency cap
+      const schedule = () => {
+        let changed = true;
+
+        while (changed) {
+          changed = false;
+
+          for (const step of plan.steps) {
+            if (statuses.get(step.id) !== 'pending') continue;
+            if (abortError || running.size >= maxConcurrency) return;
+
+            // Check timeout
+            if (options.maxExecutionTime && Date.now() - startTime > options.maxExecutionTime) {
+              abortError = new Error('Execution timeout exceeded');
+              return;
+            }
+
+            const deps = graph.dependenciesOf(step.id);
+            const waiting = deps.some((depId) => ['pending', 'running'].includes(statuses.get(depId)!));
+            if (waiting) continue;
+
+            // dependsOn requires a result; implicit references only order the steps
+            const unmetDeps = (step.dependsOn || []).filter((depId) => !context.stepResults.has(depId));
+            if (unmetDeps.length > 0) {
+              logger.warn(`Step ${step.id} has unmet dependencies: ${unmetDeps.join(', ')}`);
+              stepsSkipped++;
+              statuses.set(step.id, 'skipped');
+              changed = true;
+              continue;
+            }
+
+            statuses.set(step.id, 'running');
+            running.set(step.id, runStep(step));
+            report(step.id);
           }
         }
+      };
+
+      schedule();
+      while (running.size > 0) {
+        await Promise.race(running.values());
+        schedule();
       }
 
-      // Generate natural language summary
-      const finalOutput = this.generateSummary(results, errors, plan.query);
+      if (abortError) {
+        throw abortError;
+      }
+
+      // Keep results in plan order regardless of completion order
+      results.sort((a, b) => (graph.nodes.get(a.stepId)?.index ?? 0) - (graph.nodes.get(b.stepId)?.index ?? 0));
+
+      // Generate natural language summary (dry runs report their impact instead)
+      const impact = options.dryRun ? BecasImpactAnalyzer.buildReport(plan, context, this.registry) : undefined;
+      let finalOutput = impact ? impact.rendered : this.generateSummary(results, errors, plan.query);
+
+      // Keep the compensation log; roll back if requested and the plan failed
+      const rollback = await this.finishCompensation(compensationLog, context, options, errors.length > 0);
+      if (rollback) {
+        finalOutput += `\n\nRolled back:\n${rollback.finalOutput}`;
+      }
 
       const executionResult: BecasExecutionResult = {
         success: errors.length === 0,
         results,
         errors,
         finalOutput,
+        rollback,
+        impact,
         metadata: {
           totalTime: Date.now() - startTime,
           stepsExecuted,
@@ -173,6 +258,8 @@ export class BecasExecutor {
     } catch (error) {
       logger.error('Fatal execution error:', error);
 
+      const rollback = await this.finishCompensation(compensationLog, context, options, true);
+
       // Update progress - failed
       this.reportProgress({
         totalSteps: plan.steps.length,
@@ -190,7 +277,9 @@ export class BecasExecutor {
             error: error instanceof Error ? error.message : String(error),
           },
         ],
-        finalOutput: `Execution failed: ${error instanceof Error ? error.message : String(error)}`,
+        finalOutput: `Execution failed: ${error instanceof Error ? error.message : String(error)}` +
+          (rollback ? `\n\nRolled back:\n${rollback.finalOutput}` : ''),
+        rollback,
         metadata: {
           totalTime: Date.now() - startTime,
           stepsExecuted,
@@ -201,13 +290,121 @@ export class BecasExecutor {
     }
   }
 
+  /**
+   * Dry-run a plan on a copy of the context and return its impact report.
+   * Read-only steps really run so later steps see real data.
+   */
+  async preview(
+    plan: BecasPlan,
+    context: BecasContext,
+    options: BecasExecutionOptions = {}
+  ): Promise<BecasExecutionResult> {
+    return this.execute(plan, context.clone(), { ...options, dryRun: true });
+  }
+
+  /**
+   * Whether any step of the plan (including nested steps) uses a tool that requires confirmation
+   */
+  needsConfirmation(plan: BecasPlan): boolean {
+    return plan.steps
+      .flatMap((step) => BecasDependencyGraph.flatten(step))
+      .some((step) => this.registry.get(step.toolName)?.requiresConfirmation);
+  }
+
+  /**
+   * Undo the most recent plan in the context's guild that still has reversible steps
+   */
+  async undoLastPlan(context: BecasContext): Promise<BecasUndoResult> {
+    const log = await this.compensations.getLastUndoable(context.guild.id);
+
+    if (!log) {
+      return {
+        success: false,
+        undone: [],
+        failed: [],
+        irreversible: [],
+        finalOutput: 'There is no recent plan that can be undone.',
+      };
+    }
+
+    return this.compensations.undo(log, context, this.registry);
+  }
+
+  /**
+   * Undo a specific plan by ID
+   */
+  async undoPlan(planId: string, context: BecasContext): Promise<BecasUndoResult> {
+    const log = await this.compensations.get(context.guild.id, planId);
+
+    if (!log || log.undone) {
+      return {
+        success: false,
+        planId,
+        undone: [],
+        failed: [],
+        irreversible: [],
+        finalOutput: log ? 'That plan has already been undone.' : `No undo history for plan ${planId}.`,
+      };
+    }
+
+    return this.compensations.undo(log, context, this.registry);
+  }
+
+  /**
+   * Save the plan's compensation log, rolling it back when the plan failed and
+   * options.rollbackOnFailure is set
+   */
+  private async finishCompensation(
+    compensationLog: BecasCompensationLog | undefined,
+    context: BecasContext,
+    options: BecasExecutionOptions,
+    failed: boolean
+  ): Promise<BecasUndoResult | undefined> {
+    if (!compensationLog) return undefined;
+
+    await this.compensations.save(compensationLog);
+
+    if (!failed || !options.rollbackOnFailure || compensationLog.entries.length === 0) {
+      return undefined;
+    }
+
+    logger.warn(`Plan ${compensationLog.planId} failed, rolling back ${compensationLog.entries.length} step(s)`);
+
+    try {
+      return await this.compensations.undo(compensationLog, context, this.registry);
+    } catch (error) {
+      logger.error('Rollback failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record a successful tool call in the plan's compensation log
+   */
+  private recordCompensation(
+    compensationLog: BecasCompensationLog | undefined,
+    stepId: string,
+    tool: BecasTool,
+    params: any,
+    result: BecasToolResult
+  ): void {
+    if (!compensationLog) return;
+
+    try {
+      this.compensations.record(compensationLog, stepId, tool, params, result);
+    } catch (error) {
+      logger.warn(`Failed to record compensation for ${stepId}:`, error);
+    }
+  }
+
   /**
    * Execute a single step
    */
   private async executeStep(
     step: BecasStep,
     context: BecasContext,
-    options: BecasExecutionOptions
+    options: BecasExecutionOptions,
+    compensationLog?: BecasCompensationLog
   ): Promise<BecasExecutionResult['results'][0] | null> {
     const stepStartTime = Date.now();
 
@@ -252,14 +449,14 @@ export class BecasExecutor {
         // Execute ifFalse branch
         logger.info(`Executing ifFalse branch for ${step.id}`);
         for (const falseStep of step.ifFalse) {
-          await this.executeStep(falseStep, context, options);
+          await this.executeStep(falseStep, context, options, compensationLog);
         }
         return null;
       } else if (conditionMet && step.ifTrue) {
         // Execute ifTrue branch
         logger.info(`Executing ifTrue branch for ${step.id}`);
         for (const trueStep of step.ifTrue) {
-          await this.executeStep(trueStep, context, options);
+          await this.executeStep(trueStep, context, options, compensationLog);
         }
       } else if (!conditionMet) {
         // Skip step
@@ -270,7 +467,7 @@ export class BecasExecutor {
 
     // Handle loop
     if (step.loop) {
-      return await this.handleLoop(step, context, options);
+      return await this.handleLoop(step, context, options, compensationLog);
     }
 
     // Resolve parameters (handle references to previous results)
@@ -278,15 +475,23 @@ export class BecasExecutor {
     logger.info(`🔍 Step ${step.id} - Original params:`, step.params);
     logger.info(`🔍 Step ${step.id} - Resolved params:`, resolvedParams);
 
-    // Dry run mode
-    if (options.dryRun) {
+    // Dry run mode - read-only tools run for real, the rest report what they would change
+    if (options.dryRun && !tool.readOnly) {
       logger.info(`[DRY RUN] Would execute ${step.toolName} with params:`, resolvedParams);
+      const impact = await BecasImpactAnalyzer.simulate(tool, resolvedParams, context);
       const dryRunResult: BecasToolResult = {
         success: true,
-        data: { dryRun: true },
+        data: { ...resolvedParams, dryRun: true, impact },
+        metadata: {
+          affectedUsers: impact.users.map((u) => u.id),
+          affectedMessages: impact.messages,
+        },
       };
 
       context.setStepResult(step.id, dryRunResult.data);
+      if (step.outputAs) {
+        context.setVariable(step.outputAs, dryRunResult.data);
+      }
 
       return {
         stepId: step.id,
@@ -320,6 +525,7 @@ export class BecasExecutor {
 
         // Store result
         context.setStepResult(step.id, stepResult.data);
+        this.recordCompensation(compensationLog, step.id, tool, resolvedParams, stepResult);
 
         // Store in variable if specified
         if (step.outputAs) {
@@ -365,6 +571,7 @@ export class BecasExecutor {
               stepResult = await tool.execute(resolvedParams, context);
               if (stepResult.success) {
                 context.setStepResult(step.id, stepResult.data);
+                this.recordCompensation(compensationLog, step.id, tool, resolvedParams, stepResult);
                 if (step.outputAs) {
                   context.setVariable(step.outputAs, stepResult.data);
                 }
@@ -386,6 +593,7 @@ export class BecasExecutor {
                 stepResult = await altTool.execute(healing.alternativeStep.params, context);
                 if (stepResult.success) {
                   context.setStepResult(step.id, stepResult.data);
+                  this.recordCompensation(compensationLog, step.id, altTool, healing.alternativeStep.params, stepResult);
                   if (step.outputAs) {
                     context.setVariable(step.outputAs, stepResult.data);
                   }
@@ -417,7 +625,7 @@ export class BecasExecutor {
     if (step.onError?.fallback) {
       logger.info(`Executing fallback steps for ${step.id}`);
       for (const fallbackStep of step.onError.fallback) {
-        await this.executeStep(fallbackStep, context, options);
+        await this.executeStep(fallbackStep, context, options, compensationLog);
       }
 
       if (step.onError.continueOnError) {
@@ -435,7 +643,8 @@ export class BecasExecutor {
   private async handleLoop(
     step: BecasStep,
     context: BecasContext,
-    options: BecasExecutionOptions
+    options: BecasExecutionOptions,
+    compensationLog?: BecasCompensationLog
   ): Promise<BecasExecutionResult['results'][0] | null> {
     if (!step.loop) return null;
 
@@ -458,7 +667,7 @@ export class BecasExecutor {
 
       // Execute loop steps
       for (const loopStep of step.loop.steps) {
-        const result = await this.executeStep(loopStep, context, options);
+        const result = await this.executeStep(loopStep, context, options, compensationLog);
         if (result) {
           loopResults.push(result);
         }
@@ -621,6 +830,43 @@ export class BecasExecutor {
     return parts.join('\n');
   }
 
+  /**
+   * Build a progress snapshot with per-branch status
+   */
+  private buildProgress(
+    graph: BecasDependencyGraph,
+    statuses: Map<string, StepStatus>,
+    currentStep?: string
+  ): ExecutionProgress {
+    const isDone = (status?: StepStatus) => status === 'completed' || status === 'skipped' || status === 'failed';
+    const branches: BranchProgress[] = [];
+
+    for (let branch = 0; branch < graph.branchCount; branch++) {
+      const steps = [...graph.nodes.values()].filter((n) => n.branch === branch).map((n) => n.step.id);
+      const branchStatuses = steps.map((id) => statuses.get(id));
+      const completedSteps = branchStatuses.filter(isDone).length;
+      const runningSteps = steps.filter((id) => statuses.get(id) === 'running');
+
+      let status: BranchProgress['status'] = 'running';
+      if (branchStatuses.includes('failed')) status = 'failed';
+      else if (completedSteps === steps.length) status = 'completed';
+      else if (completedSteps === 0 && runningSteps.length === 0) status = 'pending';
+
+      branches.push({ branch, steps, completedSteps, runningSteps, status });
+    }
+
+    const runningSteps = [...statuses.entries()].filter(([, status]) => status === 'running').map(([id]) => id);
+
+    return {
+      totalSteps: statuses.size,
+      completedSteps: [...statuses.values()].filter(isDone).length,
+      currentStep,
+      runningSteps,
+      branches,
+      status: 'running',
+    };
+  }
+
   /**
    * Report progress
    */
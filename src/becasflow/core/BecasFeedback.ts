@@ -0,0 +1,254 @@
+/**
+ * BECAS FEEDBACK - PLANNER LEARNING LOOP
+ *
+ * Stores moderator feedback on executed plans (thumbs up/down, 1-5 rating,
+ * "should have done X") per guild and turns it into planning hints:
+ * - Accepted corrections for similar queries become few-shot examples
+ * - Tools are boosted or penalized for similar queries when re-ranking
+ *   BecasToolRegistry.findBestMatches
+ *
+ * Feedback is persisted in becasflow_feedback. If the database is
+ * unavailable it is still kept in memory for the running process.
+ */
+
+import { BecasPlan, BecasFeedback, BecasFeedbackRecord } from '../types/BecasFlow.types';
+import { BecasDependencyGraph } from './BecasDependencyGraph';
+import { DatabaseService, getDatabaseService } from '../../database/DatabaseService';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('BecasFeedback');
+
+const MAX_TRACKED_PLANS = 200;  // Plans that can still receive feedback
+const MAX_RECORDS_PER_GUILD = 200;
+const MIN_SIMILARITY = 0.3;  // Word overlap needed for feedback to apply to a query
+
+// Re-ranking weights (scaled by query similarity)
+const CORRECT_BOOST = 10;
+const WRONG_PENALTY = 25;
+const SUGGESTED_BOOST = 30;
+
+interface TrackedPlan {
+  guildId: string;
+  query: string;
+  toolsUsed: string[];
+}
+
+export class BecasFeedbackStore {
+  private static instance: BecasFeedbackStore;
+  private db: DatabaseService | null = null;
+  private plans: Map<string, TrackedPlan> = new Map();  // planId -> plan, oldest first
+  private records: Map<string, BecasFeedbackRecord[]> = new Map();  // guildId -> newest first
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance
+   */
+  static getInstance(): BecasFeedbackStore {
+    if (!BecasFeedbackStore.instance) {
+      BecasFeedbackStore.instance = new BecasFeedbackStore();
+    }
+    return BecasFeedbackStore.instance;
+  }
+
+  /**
+   * Remember an executed plan so feedback on it can be attributed
+   */
+  trackPlan(plan: BecasPlan, guildId: string): void {
+    const toolsUsed = [...new Set(
+      plan.steps.flatMap((step) => BecasDependencyGraph.flatten(step)).map((step) => step.toolName)
+    )];
+
+    this.plans.set(plan.id, { guildId, query: plan.query, toolsUsed });
+
+    if (this.plans.size > MAX_TRACKED_PLANS) {
+      this.plans.delete(this.plans.keys().next().value!);
+    }
+  }
+
+  /**
+   * Record feedback for a tracked plan. Returns null if the plan is unknown
+   * (too old, or the bot restarted since it ran).
+   */
+  async submit(feedback: BecasFeedback): Promise<BecasFeedbackRecord | null> {
+    const plan = this.plans.get(feedback.planId);
+    if (!plan) return null;
+
+    const record: BecasFeedbackRecord = {
+      ...feedback,
+      guildId: plan.guildId,
+      query: plan.query,
+      toolsUsed: plan.toolsUsed,
+      accepted: feedback.providedBy.role !== 'user',
+      createdAt: Date.now(),
+    };
+
+    const guildRecords = (await this.getGuildFeedback(plan.guildId))
+      .filter((r) => !(r.planId === record.planId && r.providedBy.userId === record.providedBy.userId));
+    this.records.set(plan.guildId, [record, ...guildRecords].slice(0, MAX_RECORDS_PER_GUILD));
+
+    try {
+      await this.getDb()?.query(
+        `INSERT INTO becasflow_feedback
+         (guild_id, plan_id, query, tools_used, was_correct, rating, should_have_done, suggested_tools,
+          reason, comment, provided_by_id, provided_by_name, provided_by_role, accepted)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         ON CONFLICT (plan_id, provided_by_id) DO UPDATE SET
+           was_correct = EXCLUDED.was_correct,
+           rating = COALESCE(EXCLUDED.rating, becasflow_feedback.rating),
+           should_have_done = COALESCE(EXCLUDED.should_have_done, becasflow_feedback.should_have_done),
+           suggested_tools = EXCLUDED.suggested_tools,
+           reason = EXCLUDED.reason,
+           comment = EXCLUDED.comment,
+           accepted = EXCLUDED.accepted,
+           created_at = NOW()`,
+        [
+          record.guildId,
+          record.planId,
+          record.query,
+          record.toolsUsed,
+          record.wasCorrect,
+          record.rating ?? null,
+          record.correction?.shouldHaveDone ?? null,
+          record.correction?.suggestedTools ?? [],
+          record.correction?.reason ?? null,
+          record.comment ?? null,
+          record.providedBy.userId,
+          record.providedBy.username,
+          record.providedBy.role,
+          record.accepted,
+        ]
+      );
+    } catch (error) {
+      logger.warn('Failed to persist feedback (kept in memory):', error);
+    }
+
+    logger.info(`Feedback on ${record.planId} from ${record.providedBy.username}: ${record.wasCorrect ? 'correct' : 'wrong'}`);
+    return record;
+  }
+
+  /**
+   * Feedback for a guild, newest first
+   */
+  async getGuildFeedback(guildId: string): Promise<BecasFeedbackRecord[]> {
+    const cached = this.records.get(guildId);
+    if (cached) return cached;
+
+    let loaded: BecasFeedbackRecord[] = [];
+
+    try {
+      const rows = await this.getDb()?.queryMany(
+        `SELECT * FROM becasflow_feedback WHERE guild_id = $1 ORDER BY created_at DESC LIMIT $2`,
+        [guildId, MAX_RECORDS_PER_GUILD]
+      );
+      loaded = (rows || []).map((row) => this.fromRow(row));
+    } catch (error) {
+      logger.warn(`Failed to load feedback for guild ${guildId}:`, error);
+    }
+
+    this.records.set(guildId, loaded);
+    return loaded;
+  }
+
+  /**
+   * Accepted corrections for queries similar to this one, most similar first
+   */
+  async getCorrections(guildId: string, query: string, limit: number = 3): Promise<BecasFeedbackRecord[]> {
+    const records = await this.getGuildFeedback(guildId);
+
+    return records
+      .filter((r) => r.accepted && !r.wasCorrect && r.correction?.shouldHaveDone)
+      .map((r) => ({ record: r, similarity: BecasFeedbackStore.similarity(query, r.query) }))
+      .filter((item) => item.similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map((item) => item.record);
+  }
+
+  /**
+   * Score adjustments per tool for a query, from accepted feedback on similar queries.
+   * Positive = moderators confirmed or suggested the tool, negative = it was the wrong choice.
+   */
+  async getToolAdjustments(guildId: string, query: string): Promise<Map<string, number>> {
+    const adjustments = new Map<string, number>();
+    const add = (tool: string, amount: number) => adjustments.set(tool, (adjustments.get(tool) || 0) + amount);
+
+    for (const record of await this.getGuildFeedback(guildId)) {
+      if (!record.accepted) continue;
+
+      const similarity = BecasFeedbackStore.similarity(query, record.query);
+      if (similarity < MIN_SIMILARITY) continue;
+
+      const suggested = record.correction?.suggestedTools || [];
+
+      if (record.wasCorrect) {
+        record.toolsUsed.forEach((tool) => add(tool, CORRECT_BOOST * similarity));
+      } else {
+        record.toolsUsed
+          .filter((tool) => !suggested.includes(tool))
+          .forEach((tool) => add(tool, -WRONG_PENALTY * similarity));
+      }
+
+      suggested.forEach((tool) => add(tool, SUGGESTED_BOOST * similarity));
+    }
+
+    return adjustments;
+  }
+
+  /**
+   * Word overlap (Jaccard) between two queries, ignoring mentions and IDs
+   */
+  static similarity(a: string, b: string): number {
+    const words = (text: string) => new Set(
+      text
+        .toLowerCase()
+        .replace(/<[@#&!]*\d+>|\d{5,}/g, ' ')
+        .split(/[^a-z0-9]+/)
+        .filter((w) => w.length >= 3)
+    );
+
+    const wordsA = words(a);
+    const wordsB = words(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+    return shared / (wordsA.size + wordsB.size - shared);
+  }
+
+  private getDb(): DatabaseService | null {
+    if (!this.db) {
+      try {
+        this.db = getDatabaseService();
+      } catch (error) {
+        logger.warn('Database unavailable, feedback kept in memory only');
+      }
+    }
+    return this.db;
+  }
+
+  private fromRow(row: any): BecasFeedbackRecord {
+    return {
+      planId: row.plan_id,
+      guildId: row.guild_id,
+      query: row.query,
+      toolsUsed: row.tools_used || [],
+      wasCorrect: row.was_correct,
+      rating: row.rating ?? undefined,
+      correction: row.should_have_done
+        ? {
+            shouldHaveDone: row.should_have_done,
+            suggestedTools: row.suggested_tools || [],
+            reason: row.reason ?? undefined,
+          }
+        : undefined,
+      comment: row.comment ?? undefined,
+      providedBy: {
+        userId: row.provided_by_id,
+        username: row.provided_by_name,
+        role: row.provided_by_role,
+      },
+      accepted: row.accepted,
+      createdAt: new Date(row.created_at).getTime(),
+    };
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * BECAS FEEDBACK UI - RATE A FINISHED PLAN
+ *
+ * Adds 👍 / 👎 / ✏️ buttons to a plan's result message. ✏️ opens a form for a
+ * 1-5 rating and "should have done X" (plus optional tools). Only members who
+ * can moderate may give feedback; it is stored through BecasFeedbackStore.
+ */
+
+import {
+  Client,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ButtonInteraction,
+  ModalBuilder,
+  ModalSubmitInteraction,
+  TextInputBuilder,
+  TextInputStyle,
+  PermissionFlagsBits,
+  PermissionsBitField,
+} from 'discord.js';
+import { BecasFeedback } from '../types/BecasFlow.types';
+import { BecasFeedbackStore } from './BecasFeedback';
+import { BecasToolRegistry } from '../registry/BecasToolRegistry';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('BecasFeedbackUI');
+
+const ID_PATTERN = /^becasfb_(up|down|fix|modal)_(.+)$/;
+
+export class BecasFeedbackUI {
+  private static initialized = false;
+
+  /**
+   * Listen for feedback buttons and forms (once per process)
+   */
+  static initialize(client: Client, registry?: BecasToolRegistry): void {
+    if (BecasFeedbackUI.initialized) return;
+    BecasFeedbackUI.initialized = true;
+
+    const reg = registry || BecasToolRegistry.getInstance();
+
+    client.on('interactionCreate', async (interaction) => {
+      if (!interaction.isButton() && !interaction.isModalSubmit()) return;
+
+      const match = interaction.customId.match(ID_PATTERN);
+      if (!match) return;
+
+      try {
+        if (interaction.isButton()) {
+          await BecasFeedbackUI.handleButton(interaction, match[1], match[2]);
+        } else {
+          await BecasFeedbackUI.handleModal(interaction, match[2], reg);
+        }
+      } catch (error) {
+        logger.error('Error handling feedback interaction:', error);
+        if (!interaction.replied && !interaction.deferred) {
+          await interaction.reply({ content: '❌ Could not save feedback.', ephemeral: true }).catch(() => {});
+        }
+      }
+    });
+
+    logger.info('BecasFeedbackUI initialized');
+  }
+
+  /**
+   * Feedback buttons for a plan's result message
+   */
+  static buildRow(planId: string): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder().setCustomId(`becasfb_up_${planId}`).setEmoji('👍').setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder().setCustomId(`becasfb_down_${planId}`).setEmoji('👎').setStyle(ButtonStyle.Secondary),
+      new ButtonBuilder().setCustomId(`becasfb_fix_${planId}`).setLabel('Correct me').setEmoji('✏️').setStyle(ButtonStyle.Secondary)
+    );
+  }
+
+  private static async handleButton(interaction: ButtonInteraction, kind: string, planId: string): Promise<void> {
+    const role = BecasFeedbackUI.roleOf(interaction.memberPermissions);
+    if (role === 'user') {
+      await interaction.reply({ content: '❌ Only moderators can rate my actions.', ephemeral: true });
+      return;
+    }
+
+    if (kind === 'fix') {
+      await interaction.showModal(BecasFeedbackUI.buildModal(planId));
+      return;
+    }
+
+    const record = await BecasFeedbackStore.getInstance().submit({
+      planId,
+      wasCorrect: kind === 'up',
+      providedBy: { userId: interaction.user.id, username: interaction.user.tag, role },
+    });
+
+    await interaction.reply({
+      content: !record
+        ? '⏱️ That plan is too old to rate.'
+        : kind === 'up'
+          ? '👍 Thanks - noted.'
+          : '👎 Noted. Use ✏️ **Correct me** to tell me what I should have done.',
+      ephemeral: true,
+    });
+  }
+
+  private static async handleModal(interaction: ModalSubmitInteraction, planId: string, registry: BecasToolRegistry): Promise<void> {
+    const role = BecasFeedbackUI.roleOf(interaction.memberPermissions);
+    if (role === 'user') {
+      await interaction.reply({ content: '❌ Only moderators can rate my actions.', ephemeral: true });
+      return;
+    }
+
+    const ratingText = interaction.fields.getTextInputValue('rating').trim();
+    const rating = parseInt(ratingText);
+    const shouldHaveDone = interaction.fields.getTextInputValue('shouldHaveDone').trim();
+    const toolNames = interaction.fields.getTextInputValue('tools')
+      .split(/[,\s]+/)
+      .map((t) => t.trim().toLowerCase())
+      .filter((t) => t.length > 0);
+
+    const unknownTools = toolNames.filter((t) => !registry.get(t));
+    if (unknownTools.length > 0) {
+      await interaction.reply({ content: `❌ Unknown tool(s): ${unknownTools.join(', ')}`, ephemeral: true });
+      return;
+    }
+
+    const feedback: BecasFeedback = {
+      planId,
+      wasCorrect: false,
+      rating: rating >= 1 && rating <= 5 ? rating : undefined,
+      correction: {
+        shouldHaveDone,
+        suggestedTools: toolNames,
+      },
+      providedBy: { userId: interaction.user.id, username: interaction.user.tag, role },
+    };
+
+    const record = await BecasFeedbackStore.getInstance().submit(feedback);
+
+    await interaction.reply({
+      content: record
+        ? '✏️ Thanks - I\'ll use this correction for similar requests.'
+        : '⏱️ That plan is too old to correct.',
+      ephemeral: true,
+    });
+  }
+
+  private static buildModal(planId: string): ModalBuilder {
+    const rating = new TextInputBuilder()
+      .setCustomId('rating')
+      .setLabel('Rating (1-5)')
+      .setStyle(TextInputStyle.Short)
+      .setMaxLength(1)
+      .setRequired(false);
+
+    const shouldHaveDone = new TextInputBuilder()
+      .setCustomId('shouldHaveDone')
+      .setLabel('What should I have done?')
+      .setStyle(TextInputStyle.Paragraph)
+      .setMaxLength(500)
+      .setRequired(true);
+
+    const tools = new TextInputBuilder()
+      .setCustomId('tools')
+      .setLabel('Tools to use (optional, e.g. timeout, warn)')
+      .setStyle(TextInputStyle.Short)
+      .setMaxLength(200)
+      .setRequired(false);
+
+    return new ModalBuilder()
+      .setCustomId(`becasfb_modal_${planId}`)
+      .setTitle('Correct Becas')
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(rating),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(shouldHaveDone),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(tools)
+      );
+  }
+
+  private static roleOf(permissions: Readonly<PermissionsBitField> | null): BecasFeedback['providedBy']['role'] {
+    if (permissions?.has(PermissionFlagsBits.Administrator)) return 'admin';
+    if (permissions?.has(PermissionFlagsBits.ModerateMembers) || permissions?.has(PermissionFlagsBits.ManageMessages)) {
+      return 'moderator';
+    }
+    return 'user';
+  }
+}
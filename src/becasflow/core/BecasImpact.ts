@@ -0,0 +1,175 @@
+/**
+ * BECAS IMPACT - DRY-RUN IMPACT PREVIEW
+ *
+ * During a dry run read-only tools execute for real, while mutating tools are
+ * simulated: instead of acting they report exactly which users, messages,
+ * roles and channels they would touch. The simulated results are aggregated
+ * into an impact report that is shown before confirmation-gated tools run.
+ *
+ * Tools can provide their own `simulate` (e.g. delete_messages resolves the
+ * messages its filters would match); otherwise the impact is derived from the
+ * userId/channelId/roleId parameters of the call.
+ */
+
+import {
+  BecasPlan,
+  BecasTool,
+  BecasContext,
+  BecasImpact,
+  BecasImpactReport,
+} from '../types/BecasFlow.types';
+import { BecasToolRegistry } from '../registry/BecasToolRegistry';
+import { BecasDependencyGraph } from './BecasDependencyGraph';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('BecasImpact');
+
+const MAX_LISTED = 10;  // Names listed per category in the rendered report
+
+export class BecasImpactAnalyzer {
+  /**
+   * What a mutating tool call would change
+   */
+  static async simulate(tool: BecasTool, params: any, context: BecasContext): Promise<BecasImpact> {
+    if (tool.simulate) {
+      try {
+        return await tool.simulate(params, context);
+      } catch (error) {
+        logger.warn(`simulate() failed for ${tool.name}, falling back to params:`, error);
+      }
+    }
+
+    return BecasImpactAnalyzer.fromParams(tool, params, context);
+  }
+
+  /**
+   * Build the impact report from a dry-run plan's simulated step results
+   */
+  static buildReport(plan: BecasPlan, context: BecasContext, registry: BecasToolRegistry): BecasImpactReport {
+    const steps: BecasImpactReport['steps'] = [];
+
+    for (const topLevel of plan.steps) {
+      for (const step of BecasDependencyGraph.flatten(topLevel)) {
+        const data = context.stepResults.get(step.id);
+        if (!data?.dryRun || !data.impact) continue;
+
+        const tool = registry.get(step.toolName);
+        steps.push({
+          stepId: step.id,
+          toolName: step.toolName,
+          impact: data.impact,
+          irreversible: !tool?.inverse,
+          requiresConfirmation: !!tool?.requiresConfirmation,
+        });
+      }
+    }
+
+    const unique = (ids: string[]) => new Set(ids).size;
+    const report: BecasImpactReport = {
+      steps,
+      totals: {
+        users: unique(steps.flatMap((s) => s.impact.users.map((u) => u.id))),
+        messages: unique(steps.flatMap((s) => s.impact.messages)),
+        roles: unique(steps.flatMap((s) => s.impact.roles.map((r) => r.id))),
+        channels: unique(steps.flatMap((s) => s.impact.channels.map((c) => c.id))),
+      },
+      irreversible: steps.filter((s) => s.irreversible).map((s) => s.stepId),
+      rendered: '',
+    };
+
+    report.rendered = BecasImpactAnalyzer.render(report, plan.query);
+    return report;
+  }
+
+  /**
+   * Human-readable impact report (fits in a Discord message)
+   */
+  static render(report: BecasImpactReport, query: string): string {
+    const lines: string[] = [`🔍 **Preview: "${query}"**`];
+
+    if (report.steps.length === 0) {
+      lines.push('No changes would be made.');
+      return lines.join('\n');
+    }
+
+    const { users, messages, roles, channels } = report.totals;
+    const counts = [
+      users > 0 ? `${users} user(s)` : null,
+      messages > 0 ? `${messages} message(s)` : null,
+      roles > 0 ? `${roles} role(s)` : null,
+      channels > 0 ? `${channels} channel(s)` : null,
+    ].filter(Boolean);
+
+    lines.push(`${report.steps.length} action(s)${counts.length > 0 ? ` affecting ${counts.join(', ')}` : ''}:`);
+
+    report.steps.forEach((step, i) => {
+      lines.push(`${i + 1}. ${step.impact.description}${step.irreversible ? ' ⚠️ *irreversible*' : ''}`);
+
+      const { users: u, messages: m, roles: r, channels: c } = step.impact;
+      if (u.length > 0) lines.push(`   Users: ${BecasImpactAnalyzer.list(u)}`);
+      if (m.length > 0) lines.push(`   Messages: ${m.length}`);
+      if (r.length > 0) lines.push(`   Roles: ${BecasImpactAnalyzer.list(r)}`);
+      if (c.length > 0) lines.push(`   Channels: ${BecasImpactAnalyzer.list(c, '#')}`);
+    });
+
+    if (report.irreversible.length > 0) {
+      const tools = [...new Set(report.steps.filter((s) => s.irreversible).map((s) => s.toolName))];
+      lines.push('', `⚠️ Cannot be undone: ${tools.join(', ')}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Default impact: the users, channels and roles named in the call's params
+   */
+  private static async fromParams(tool: BecasTool, params: any, context: BecasContext): Promise<BecasImpact> {
+    const impact: BecasImpact = {
+      description: BecasImpactAnalyzer.describe(tool, params),
+      users: [],
+      messages: [],
+      roles: [],
+      channels: [],
+    };
+
+    for (const [name, schema] of Object.entries(tool.parameters)) {
+      const value = params[name];
+      const ids: string[] = (Array.isArray(value) ? value : [value])
+        .filter((id) => typeof id === 'string' && id.length > 0);
+
+      for (const id of ids) {
+        if (schema.type === 'userId') {
+          const member = await context.guild.members.fetch(id).catch(() => null);
+          impact.users.push({ id, name: member?.user.tag });
+        } else if (schema.type === 'channelId') {
+          impact.channels.push({ id, name: context.guild.channels.cache.get(id)?.name });
+        } else if (schema.type === 'roleId') {
+          impact.roles.push({ id, name: context.guild.roles.cache.get(id)?.name });
+        }
+      }
+    }
+
+    return impact;
+  }
+
+  /**
+   * One-line description of a call, from the tool's confirmation message when it has one
+   */
+  private static describe(tool: BecasTool, params: any): string {
+    if (tool.confirmationMessage) {
+      try {
+        return tool.confirmationMessage(params).split('\n')[0].replace(/\?$/, '');
+      } catch (error) {
+        // Fall through to the generic description
+      }
+    }
+
+    return `${tool.name} (${tool.description})`;
+  }
+
+  private static list(items: Array<{ id: string; name?: string }>, prefix = ''): string {
+    const shown = items.slice(0, MAX_LISTED).map((item) => `${prefix}${item.name || item.id}`);
+    const more = items.length - shown.length;
+    return shown.join(', ') + (more > 0 ? ` (+${more} more)` : '');
+  }
+}
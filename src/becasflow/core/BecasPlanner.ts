@@ -24,6 +24,8 @@ import {
   BecasCondition,
 } from '../types/BecasFlow.types';
 import { BecasToolRegistry } from '../registry/BecasToolRegistry';
+import { BecasDependencyGraph } from './BecasDependencyGraph';
+import { BecasFeedbackStore } from './BecasFeedback';
 import { createLogger } from '../../services/Logger';
 import { ParameterInferenceEngine } from '../services/ParameterInferenceEngine';
 import { ContextSelector, IntentEnhancer } from '../services/BecasFlowAI';
@@ -36,6 +38,7 @@ export class BecasPlanner {
   private parameterInference: ParameterInferenceEngine;
   private contextSelector: ContextSelector;
   private intentEnhancer: IntentEnhancer;
+  private feedback: BecasFeedbackStore;
 
   constructor(ollama?: OllamaService, registry?: BecasToolRegistry) {
     this.ollama = ollama || new OllamaService('planning');
@@ -43,6 +46,7 @@ export class BecasPlanner {
     this.parameterInference = new ParameterInferenceEngine();
     this.contextSelector = new ContextSelector(this.registry);
     this.intentEnhancer = new IntentEnhancer();
+    this.feedback = BecasFeedbackStore.getInstance();
     logger.info('BecasPlanner initialized with AI enhancements');
   }
 
@@ -57,12 +61,20 @@ export class BecasPlanner {
     try {
       logger.info(`Planning for query: "${query}"`);
 
+      // Moderator feedback on similar queries in this guild (tool score adjustments)
+      const guildId = context.guild?.id;
+      const adjustments = guildId ? await this.feedback.getToolAdjustments(guildId, query) : new Map<string, number>();
+
       // 🔥 FAST PATH: Common query patterns that don't need AI
       // This bypasses AI planning for frequently used queries to avoid JSON parsing issues
       const fastPlan = this.tryFastPath(query, context);
       if (fastPlan) {
-        logger.info(`✅ Fast path matched - skipping AI planning`);
-        return fastPlan;
+        const rejected = fastPlan.plan?.steps.some((step) => (adjustments.get(step.toolName) || 0) < 0);
+        if (!rejected) {
+          logger.info(`✅ Fast path matched - skipping AI planning`);
+          return fastPlan;
+        }
+        logger.info(`Fast path matched but moderators corrected similar plans - using AI planning`);
       }
 
       // Classify intent before planning
@@ -89,6 +101,7 @@ export class BecasPlanner {
 
       // 🔥 BECAS COGNITIVE: ALWAYS include conversation history for context-aware planning
       const contextInfo = this.buildContextInfo(context);
+      const feedbackInfo = guildId ? await this.buildFeedbackInfo(guildId, query, adjustments) : '';
 
       // 🔥 Add conversation summary for EVERY query (not just retries!)
       const conversationSummary = context.conversationHistory
@@ -98,7 +111,7 @@ export class BecasPlanner {
 
       const fullPrompt = `${contextInfo}
 
-${conversationSummary ? `RECENT CONVERSATION:\n${conversationSummary}\n\n` : ''}User Query: "${query}"
+${conversationSummary ? `RECENT CONVERSATION:\n${conversationSummary}\n\n` : ''}${feedbackInfo ? `${feedbackInfo}\n\n` : ''}User Query: "${query}"
 
 CRITICAL INSTRUCTIONS:
 1. If query is ONLY casual conversation (like "hello", "thanks", "goodbye"), return EMPTY steps array []
@@ -537,7 +550,7 @@ RULES:
 1. Use ONLY tools from the available list
 2. If information is missing, populate "missingInfo" array
 3. Use "condition", "ifTrue", "ifFalse" for conditional logic
-4. Use "dependsOn" to ensure proper execution order
+4. Independent steps run in parallel - use "dependsOn" when a step must wait for another
 5. Reference previous step results with: "stepResults.step_id.fieldName"
 6. Use "outputAs" to store results for later steps
 7. Maximum ${options.maxSteps || 10} steps
@@ -594,6 +607,39 @@ CONDITION TYPES:
 RETURN ONLY THE JSON PLAN, NO OTHER TEXT.`;
   }
 
+  /**
+   * Few-shot corrections and tool preferences learned from the guild's moderators
+   */
+  private async buildFeedbackInfo(guildId: string, query: string, adjustments: Map<string, number>): Promise<string> {
+    const parts: string[] = [];
+
+    const corrections = await this.feedback.getCorrections(guildId, query);
+    if (corrections.length > 0) {
+      parts.push(`LEARNED FROM THIS SERVER'S MODERATORS (similar requests you got wrong before):`);
+      corrections.forEach((c) => {
+        const tools = c.correction!.suggestedTools?.length ? ` (tools: ${c.correction!.suggestedTools.join(', ')})` : '';
+        parts.push(`- "${c.query}" → you used ${c.toolsUsed.join(', ') || 'no tools'}. Should have: ${c.correction!.shouldHaveDone}${tools}`);
+      });
+    }
+
+    if (adjustments.size > 0) {
+      const avoid = [...adjustments].filter(([, score]) => score < 0).map(([tool]) => tool);
+      const preferred = this.registry
+        .findBestMatches(query, 5, adjustments)
+        .map((t) => t.name)
+        .filter((name) => !avoid.includes(name));
+
+      if (preferred.length > 0) {
+        parts.push(`PREFERRED TOOLS FOR THIS REQUEST (ranked with moderator feedback): ${preferred.join(', ')}`);
+      }
+      if (avoid.length > 0) {
+        parts.push(`AVOID (moderators marked these wrong for similar requests): ${avoid.join(', ')}`);
+      }
+    }
+
+    return parts.join('\n');
+  }
+
   /**
    * Build context information for AI
    */
@@ -726,19 +772,27 @@ RETURN ONLY THE JSON PLAN, NO OTHER TEXT.`;
         return { valid: false, error: `Unknown tool: ${step.toolName}` };
       }
 
-      // Check dependencies
-      if (step.dependsOn) {
-        for (const depId of step.dependsOn) {
-          if (!stepIds.has(depId)) {
-            return {
-              valid: false,
-              error: `Step ${step.id} depends on non-existent step: ${depId}`,
-            };
-          }
-        }
+      if (step.dependsOn?.includes(step.id)) {
+        return { valid: false, error: `Step ${step.id} depends on itself` };
       }
     }
 
+    // Check dependencies (steps may depend on steps listed later - the executor orders them)
+    const graph = BecasDependencyGraph.build(plan);
+
+    const missing = graph.findMissingDependencies();
+    if (missing.length > 0) {
+      return {
+        valid: false,
+        error: `Step ${missing[0].stepId} depends on non-existent step: ${missing[0].depId}`,
+      };
+    }
+
+    const cycle = graph.findCycle();
+    if (cycle) {
+      return { valid: false, error: `Dependency cycle: ${cycle.join(' -> ')}` };
+    }
+
     return { valid: true };
   }
 
@@ -1275,7 +1329,7 @@ RETURN ONLY THE JSON PLAN, NO OTHER TEXT.`;
 
     if ((isTrustQuery || hasTrustWord)) {
       // Extract user ID - if no mention, use message author (for "my score")
-      const targetUserId = userId || context.message.author.id;
+      const targetUserId = userId || context.member.id;
       logger.info(`🎯 Fast path: Trust score query detected for user ${targetUserId}`);
       return {
         success: true,
@@ -23,7 +23,12 @@ export * from './types/BecasFlow.types';
 export { BecasConditions } from './core/BecasConditions';
 export { BecasContext } from './core/BecasContext';
 export { BecasPlanner } from './core/BecasPlanner';
-export { BecasExecutor } from './core/BecasExecutor';
+export { BecasExecutor, ExecutionProgress, BranchProgress, StepStatus } from './core/BecasExecutor';
+export { BecasDependencyGraph } from './core/BecasDependencyGraph';
+export { BecasCompensationStore } from './core/BecasCompensation';
+export { BecasImpactAnalyzer } from './core/BecasImpact';
+export { BecasFeedbackStore } from './core/BecasFeedback';
+export { BecasFeedbackUI } from './core/BecasFeedbackUI';
 export { BecasInteractive } from './core/BecasInteractive';
 
 // Registry
@@ -35,10 +40,18 @@ export * from './tools';
 // Main BecasFlow class
 import { OllamaService } from '../services/OllamaService';
 import { BecasPlanner } from './core/BecasPlanner';
-import { BecasExecutor } from './core/BecasExecutor';
+import { BecasExecutor, ExecutionProgress } from './core/BecasExecutor';
 import { BecasToolRegistry } from './registry/BecasToolRegistry';
 import { BecasContext } from './core/BecasContext';
-import { BecasExecutionResult, BecasPlanningOptions, BecasExecutionOptions } from './types/BecasFlow.types';
+import { BecasFeedbackStore } from './core/BecasFeedback';
+import {
+  BecasExecutionResult,
+  BecasPlanningOptions,
+  BecasExecutionOptions,
+  BecasUndoResult,
+  BecasFeedback,
+  BecasFeedbackRecord,
+} from './types/BecasFlow.types';
 import { Message } from 'discord.js';
 import { createLogger } from '../services/Logger';
 
@@ -113,6 +126,11 @@ export class BecasFlow {
         };
       }
 
+      // Executed plans can be rated (see submitFeedback)
+      if (!options.execution?.dryRun && message.guild) {
+        BecasFeedbackStore.getInstance().trackPlan(planningResult.plan, message.guild.id);
+      }
+
       // Execute plan
       const executionResult = await this.executor.execute(
         planningResult.plan,
@@ -137,6 +155,41 @@ export class BecasFlow {
     }
   }
 
+  /**
+   * Dry-run a natural language query: read-only tools run, the rest are
+   * simulated, and result.impact / finalOutput describe what would change
+   */
+  async preview(
+    query: string,
+    message: Message,
+    services: any = {},
+    options: {
+      planning?: BecasPlanningOptions;
+      execution?: BecasExecutionOptions;
+    } = {}
+  ): Promise<BecasExecutionResult> {
+    return this.execute(query, message, services, {
+      ...options,
+      execution: { ...options.execution, dryRun: true },
+    });
+  }
+
+  /**
+   * Rate an executed plan. Accepted corrections teach the planner for similar queries in the guild.
+   * Returns null if the plan is no longer tracked.
+   */
+  async submitFeedback(feedback: BecasFeedback): Promise<BecasFeedbackRecord | null> {
+    return BecasFeedbackStore.getInstance().submit(feedback);
+  }
+
+  /**
+   * Undo the most recent plan executed in the message's guild
+   */
+  async undoLastPlan(message: Message, services: any = {}): Promise<BecasUndoResult> {
+    const context = new BecasContext(message, services);
+    return this.executor.undoLastPlan(context);
+  }
+
   /**
    * Get planner instance
    */
@@ -161,7 +214,7 @@ export class BecasFlow {
   /**
    * Set progress callback for real-time updates
    */
-  setProgressCallback(callback: (progress: any) => void): void {
+  setProgressCallback(callback: (progress: ExecutionProgress) => void): void {
     this.executor.setProgressCallback(callback);
   }
 }
@@ -133,9 +133,10 @@ export class BecasToolRegistry {
   }
 
   /**
-   * Find best matching tools for a natural language query
+   * Find best matching tools for a natural language query.
+   * adjustments (tool name -> score delta) re-rank the matches, e.g. from guild feedback.
    */
-  findBestMatches(query: string, limit: number = 5): BecasTool[] {
+  findBestMatches(query: string, limit: number = 5, adjustments?: Map<string, number>): BecasTool[] {
     const normalizedQuery = query.toLowerCase().trim();
     if (!normalizedQuery) return [];
 
@@ -172,6 +173,9 @@ export class BecasToolRegistry {
         if (tool.description.toLowerCase().includes(word)) score += 5;
       });
 
+      // Feedback re-ranking
+      score += adjustments?.get(tool.name) || 0;
+
       return { tool, score };
     });
 
@@ -378,7 +378,8 @@ async function updatePolicy(params: any, context: BecasContext, startTime: numbe
   }
 
   try {
-    const policies = await policyEngine.getGuildPolicies(context.guild.id);
+    // Inactive policies too, so they can be re-activated
+    const policies = await policyEngine.getAllGuildPolicies(context.guild.id);
     const policy = policies.find(p => p.id.startsWith(params.policyId));
 
     if (!policy) {
@@ -15,6 +15,7 @@ export const moderationHistoryTool: BecasTool = {
   name: 'moderation_history',
   description: 'View moderation history for a user or the entire server',
   category: 'analytics',
+  readOnly: true,
 
   parameters: {
     userId: {
@@ -265,8 +266,10 @@ export const moderationHistoryTool: BecasTool = {
         }
       }
 
-      // Send embed
-      await context.channel.send({ embeds: [embed] });
+      // Send embed (not during dry runs)
+      if (!context.dryRun) {
+        await context.channel.send({ embeds: [embed] });
+      }
 
       const executionTime = Date.now() - startTime;
 
@@ -18,6 +18,7 @@ export const serverStatsTool: BecasTool = {
   name: 'server_stats',
   description: 'Display comprehensive server statistics',
   category: 'analytics',
+  readOnly: true,
 
   parameters: {
     period: {
@@ -211,8 +212,10 @@ export const serverStatsTool: BecasTool = {
         });
       }
 
-      // Send embed
-      await context.channel.send({ embeds: [embed] });
+      // Send embed (not during dry runs)
+      if (!context.dryRun) {
+        await context.channel.send({ embeds: [embed] });
+      }
 
       const executionTime = Date.now() - startTime;
 
@@ -18,6 +18,7 @@ export const userActivityTool: BecasTool = {
   name: 'user_activity',
   description: 'Analyze user activity patterns and engagement',
   category: 'analytics',
+  readOnly: true,
 
   parameters: {
     userId: {
@@ -236,8 +237,10 @@ export const userActivityTool: BecasTool = {
         value: `${engagementLevel.emoji} **${engagementLevel.label}**\n${engagementLevel.description}`,
       });
 
-      // Send embed
-      await context.channel.send({ embeds: [embed] });
+      // Send embed (not during dry runs)
+      if (!context.dryRun) {
+        await context.channel.send({ embeds: [embed] });
+      }
 
       const executionTime = Date.now() - startTime;
 
@@ -14,6 +14,7 @@ export const dataAggregateTool: BecasTool = {
   name: 'data_aggregate',
   description: 'Perform aggregation operations on data - count, sum, average, min, max. Can group by field.',
   category: 'data',
+  readOnly: true,
 
   parameters: {
     data: {
@@ -14,6 +14,7 @@ export const dataFilterTool: BecasTool = {
   name: 'data_filter',
   description: 'Filter an array of data based on conditions (equals, contains, greater than, etc.)',
   category: 'data',
+  readOnly: true,
 
   parameters: {
     data: {
@@ -14,6 +14,7 @@ export const dataGroupTool: BecasTool = {
   name: 'data_group',
   description: 'Group an array of data by a specified field, creating an object with field values as keys',
   category: 'data',
+  readOnly: true,
 
   parameters: {
     data: {
@@ -14,6 +14,7 @@ export const dataJoinTool: BecasTool = {
   name: 'data_join',
   description: 'Join two datasets based on a common field (inner join, left join, right join)',
   category: 'data',
+  readOnly: true,
 
   parameters: {
     left: {
@@ -14,6 +14,7 @@ export const dataSliceTool: BecasTool = {
   name: 'data_slice',
   description: 'Extract a portion of data array - first N, last N, or specific range',
   category: 'data',
+  readOnly: true,
 
   parameters: {
     data: {
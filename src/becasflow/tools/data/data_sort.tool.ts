@@ -14,6 +14,7 @@ export const dataSortTool: BecasTool = {
   name: 'data_sort',
   description: 'Sort an array of data by a specified field in ascending or descending order',
   category: 'data',
+  readOnly: true,
 
   parameters: {
     data: {
@@ -14,6 +14,7 @@ export const dataTransformTool: BecasTool = {
   name: 'data_transform',
   description: 'Transform data by picking specific fields, omitting fields, or renaming fields',
   category: 'data',
+  readOnly: true,
 
   parameters: {
     data: {
@@ -6,7 +6,9 @@
 
 // Moderation tools
 export { banTool } from './moderation/ban.tool';
+export { unbanTool } from './moderation/unban.tool';
 export { timeoutTool } from './moderation/timeout.tool';
+export { removeTimeoutTool } from './moderation/remove_timeout.tool';
 export { kickTool } from './moderation/kick.tool';
 export { warnTool } from './moderation/warn.tool';
 export { deleteMessagesTool } from './moderation/delete_messages.tool';
@@ -46,7 +48,9 @@ import { BecasToolRegistry } from '../registry/BecasToolRegistry';
 
 // Import all tools
 import { banTool } from './moderation/ban.tool';
+import { unbanTool } from './moderation/unban.tool';
 import { timeoutTool } from './moderation/timeout.tool';
+import { removeTimeoutTool } from './moderation/remove_timeout.tool';
 import { kickTool } from './moderation/kick.tool';
 import { warnTool } from './moderation/warn.tool';
 import { deleteMessagesTool } from './moderation/delete_messages.tool';
@@ -81,7 +85,9 @@ export const ALL_TOOLS: BecasTool[] = [
 
   // Moderation
   banTool,
+  unbanTool,
   timeoutTool,
+  removeTimeoutTool,
   kickTool,
   warnTool,
   deleteMessagesTool,
@@ -32,6 +32,7 @@ export const intentRouterTool: BecasTool = {
   name: 'intent_router',
   description: 'Analyzes message intent and routes to appropriate tools (runs first on all messages)',
   category: 'intelligence',
+  readOnly: true,
   parameters: {
     message: {
       type: 'string',
@@ -69,10 +70,10 @@ export const intentRouterTool: BecasTool = {
     const startTime = Date.now();
 
     try {
-      const message = params.message || context.message.content;
+      const message = params.message || context.message?.content;
       const hasUrls = params.hasUrls || /https?:\/\/|www\./i.test(message);
       const hasMentions = params.hasMentions || /@everyone|@here/i.test(message);
-      const hasAttachments = params.hasAttachments || (context.message.attachments?.size ?? 0) > 0;
+      const hasAttachments = params.hasAttachments || (context.message?.attachments?.size ?? 0) > 0;
 
       // Determine user authority level
       const authorityLevel = getUserAuthorityLevel(context);
@@ -148,21 +148,17 @@ export const addRoleTool: BecasTool = {
         };
       }
 
-      // Check if member already has the role
-      if (member.roles.cache.has(roleId)) {
-        return {
-          success: false,
-          error: 'User already has this role',
-        };
+      // A member who already has the role is left as is (and undo leaves the role on)
+      const hadRole = member.roles.cache.has(roleId);
+      if (hadRole) {
+        logger.info(`User ${userId} already has role ${roleId}`);
+      } else {
+        await member.roles.add(role, `${reason} | By: ${context.member.user.tag}`);
+        logger.info(`Successfully added role ${roleId} to user ${userId}`);
       }
 
-      // Add the role
-      await member.roles.add(role, `${reason} | By: ${context.member.user.tag}`);
-
-      logger.info(`Successfully added role ${roleId} to user ${userId}`);
-
       // Record to V3
-      if (context.services.v3Integration) {
+      if (!hadRole && context.services.v3Integration) {
         try {
           await context.services.v3Integration.recordAction({
             type: 'add_role',
@@ -175,7 +171,7 @@ export const addRoleTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -191,6 +187,7 @@ export const addRoleTool: BecasTool = {
           username: member.user.tag,
           roleId,
           roleName: role.name,
+          hadRole,
           reason,
           executedBy: context.member.user.tag,
           executedAt: new Date().toISOString(),
@@ -215,6 +212,13 @@ export const addRoleTool: BecasTool = {
   confirmationMessage: (params) =>
     `Add role <@&${params.roleId}> to user <@${params.userId}>?\nReason: ${params.reason || 'No reason'}`,
 
+  // Nothing to undo if the member already had the role
+  inverse: (params, result) => result.data?.hadRole ? null : {
+    toolName: 'remove_role',
+    params: { userId: params.userId, roleId: params.roleId, reason: 'Undo add_role' },
+    description: `Remove ${result.data?.roleName || 'role'} from <@${params.userId}>`,
+  },
+
   preconditions: [
     {
       type: 'custom',
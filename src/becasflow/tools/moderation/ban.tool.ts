@@ -8,6 +8,7 @@
 import { BecasTool, BecasContext, BecasToolResult, BecasMissingParam } from '../../types/BecasFlow.types';
 import { PermissionFlagsBits } from 'discord.js';
 import { createLogger } from '../../../services/Logger';
+import { cancelScheduledUnban } from '../../../systems/ModerationHandler';
 
 const logger = createLogger('BanTool');
 
@@ -115,9 +116,12 @@ export const banTool: BecasTool = {
       // Execute ban
       await context.guild.members.ban(userId, {
         reason: `${reason} | By: ${context.member.user.tag}`,
-        deleteMessageSeconds: Math.min(Math.max(deleteMessageDays || 1, 0), 7) * 24 * 60 * 60,
+        deleteMessageSeconds: Math.min(Math.max(deleteMessageDays ?? 1, 0), 7) * 24 * 60 * 60,
       });
 
+      // Permanent - an earlier temp ban's unban must not lift it
+      await cancelScheduledUnban(context.guild.id, userId);
+
       logger.info(`Successfully banned user ${userId}`);
 
       // Update trust score to 0 (permanent)
@@ -151,7 +155,7 @@ export const banTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -188,7 +192,13 @@ export const banTool: BecasTool = {
   canChainTo: ['trust_report', 'moderation_history', 'delete_messages'],
   requiresConfirmation: true,
   confirmationMessage: (params) =>
-    `Ban user <@${params.userId}>?\nReason: ${params.reason || 'No reason'}\nDelete messages: ${params.deleteMessageDays || 1} days`,
+    `Ban user <@${params.userId}>?\nReason: ${params.reason || 'No reason'}\nDelete messages: ${params.deleteMessageDays ?? 1} days`,
+
+  inverse: (params) => ({
+    toolName: 'unban',
+    params: { userId: params.userId, reason: `Undo ban: ${params.reason || 'No reason'}` },
+    description: `Unban <@${params.userId}>`,
+  }),
 
   preconditions: [
     {
@@ -102,7 +102,7 @@ export const createChannelTool: BecasTool = {
             category: category || 'none',
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -5,12 +5,50 @@
  * Can delete by user, content pattern, time range, or count.
  */
 
-import { BecasTool, BecasContext, BecasToolResult, BecasMissingParam } from '../../types/BecasFlow.types';
+import { BecasTool, BecasContext, BecasToolResult, BecasMissingParam, BecasImpact } from '../../types/BecasFlow.types';
 import { PermissionFlagsBits, Message, Collection, TextChannel } from 'discord.js';
 import { createLogger } from '../../../services/Logger';
 
 const logger = createLogger('DeleteMessagesTool');
 
+const MAX_OLD_MESSAGES = 10;  // Messages past the bulk-delete window are deleted one by one
+
+/**
+ * Apply the deletion criteria to fetched messages
+ */
+function selectMessages(messages: Collection<string, Message>, params: any): {
+  filteredMessages: Message[];
+  bulkDeletable: Message[];
+  oldMessages: Message[];
+} {
+  const { userId, pattern, olderThan } = params;
+  let filteredMessages = Array.from(messages.values());
+
+  // Filter by user
+  if (userId) {
+    filteredMessages = filteredMessages.filter((m) => m.author.id === userId);
+  }
+
+  // Filter by pattern
+  if (pattern) {
+    const regex = new RegExp(pattern, 'i');
+    filteredMessages = filteredMessages.filter((m) => regex.test(m.content));
+  }
+
+  // Filter by age
+  if (olderThan) {
+    const cutoffTime = Date.now() - olderThan * 60 * 1000;
+    filteredMessages = filteredMessages.filter((m) => m.createdTimestamp < cutoffTime);
+  }
+
+  // Discord has a 14-day limit for bulk delete
+  const twoWeeksAgo = Date.now() - 14 * 24 * 60 * 60 * 1000;
+  const bulkDeletable = filteredMessages.filter((m) => m.createdTimestamp > twoWeeksAgo);
+  const oldMessages = filteredMessages.filter((m) => m.createdTimestamp <= twoWeeksAgo);
+
+  return { filteredMessages, bulkDeletable, oldMessages };
+}
+
 export const deleteMessagesTool: BecasTool = {
   name: 'delete_messages',
   description: 'Bulk delete messages from a channel based on criteria',
@@ -123,29 +161,7 @@ export const deleteMessagesTool: BecasTool = {
       }
 
       // Filter messages based on criteria
-      let filteredMessages = Array.from(messages.values());
-
-      // Filter by user
-      if (userId) {
-        filteredMessages = filteredMessages.filter((m) => m.author.id === userId);
-      }
-
-      // Filter by pattern
-      if (pattern) {
-        const regex = new RegExp(pattern, 'i');
-        filteredMessages = filteredMessages.filter((m) => regex.test(m.content));
-      }
-
-      // Filter by age
-      if (olderThan) {
-        const cutoffTime = Date.now() - olderThan * 60 * 1000;
-        filteredMessages = filteredMessages.filter((m) => m.createdTimestamp < cutoffTime);
-      }
-
-      // Discord has a 14-day limit for bulk delete
-      const twoWeeksAgo = Date.now() - 14 * 24 * 60 * 60 * 1000;
-      const bulkDeletable = filteredMessages.filter((m) => m.createdTimestamp > twoWeeksAgo);
-      const oldMessages = filteredMessages.filter((m) => m.createdTimestamp <= twoWeeksAgo);
+      const { filteredMessages, bulkDeletable, oldMessages } = selectMessages(messages, params);
 
       logger.info(`Found ${bulkDeletable.length} messages to bulk delete, ${oldMessages.length} old messages`);
 
@@ -171,7 +187,7 @@ export const deleteMessagesTool: BecasTool = {
       }
 
       // Delete old messages individually (slower)
-      for (const msg of oldMessages.slice(0, 10)) { // Limit to 10 old messages
+      for (const msg of oldMessages.slice(0, MAX_OLD_MESSAGES)) {
         try {
           await msg.delete();
           deletedIds.push(msg.id);
@@ -194,7 +210,7 @@ export const deleteMessagesTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -224,7 +240,7 @@ export const deleteMessagesTool: BecasTool = {
           },
           affectedUsers: affectedUserIds,
           deletedMessages: deletedIds,
-          oldMessagesSkipped: oldMessages.length - Math.min(oldMessages.length, 10),
+          oldMessagesSkipped: oldMessages.length - Math.min(oldMessages.length, MAX_OLD_MESSAGES),
         },
         metadata: {
           executionTime,
@@ -242,6 +258,25 @@ export const deleteMessagesTool: BecasTool = {
     }
   },
 
+  // Dry run: resolve exactly which messages the criteria would delete
+  async simulate(params: any, context: BecasContext): Promise<BecasImpact> {
+    const channel = await context.guild.channels.fetch(params.channelId || context.channel.id) as TextChannel;
+    const messages = await channel.messages.fetch({ limit: Math.min(params.count || 100, 100) });
+    const { bulkDeletable, oldMessages } = selectMessages(messages, params);
+    const toDelete = [...bulkDeletable, ...oldMessages.slice(0, MAX_OLD_MESSAGES)];
+
+    const authors = new Map<string, string>();
+    toDelete.forEach((m) => authors.set(m.author.id, m.author.tag));
+
+    return {
+      description: `Delete ${toDelete.length} message(s) from #${channel.name}`,
+      users: [...authors].map(([id, name]) => ({ id, name })),
+      messages: toDelete.map((m) => m.id),
+      roles: [],
+      channels: [{ id: channel.id, name: channel.name }],
+    };
+  },
+
   canChainTo: ['check_trust', 'warn', 'timeout'],
   requiresConfirmation: true,
   confirmationMessage: (params) => {
@@ -134,7 +134,7 @@ export const kickTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
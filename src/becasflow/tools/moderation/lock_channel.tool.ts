@@ -91,6 +91,7 @@ export const lockChannelTool: BecasTool = {
 
       // Lock the channel by denying SEND_MESSAGES for @everyone
       const everyoneRole = context.guild.roles.everyone;
+      const wasLocked = channel.permissionOverwrites.cache.get(everyoneRole.id)?.deny.has(PermissionFlagsBits.SendMessages) ?? false;
       await channel.permissionOverwrites.edit(everyoneRole, {
         SendMessages: false,
       }, {
@@ -111,7 +112,7 @@ export const lockChannelTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -125,6 +126,7 @@ export const lockChannelTool: BecasTool = {
         data: {
           channelId,
           channelName: channel.name,
+          wasLocked,
           reason,
           executedBy: context.member.user.tag,
           executedAt: new Date().toISOString(),
@@ -148,6 +150,13 @@ export const lockChannelTool: BecasTool = {
   confirmationMessage: (params) =>
     `Lock channel <#${params.channelId}>?\nReason: ${params.reason || 'No reason'}`,
 
+  // Nothing to undo if the channel was already locked
+  inverse: (params, result) => result.data?.wasLocked ? null : {
+    toolName: 'unlock_channel',
+    params: { channelId: params.channelId, reason: 'Undo lock_channel' },
+    description: `Unlock <#${params.channelId}>`,
+  },
+
   preconditions: [
     {
       type: 'custom',
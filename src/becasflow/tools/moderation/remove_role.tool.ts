@@ -203,7 +203,7 @@ export const removeRoleTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -243,6 +243,12 @@ export const removeRoleTool: BecasTool = {
   confirmationMessage: (params) =>
     `Remove role <@&${params.roleId}> from user <@${params.userId}>?\nReason: ${params.reason || 'No reason'}`,
 
+  inverse: (params, result) => ({
+    toolName: 'add_role',
+    params: { userId: params.userId, roleId: params.roleId, reason: 'Undo remove_role' },
+    description: `Re-add ${result.data?.roleName || 'role'} to <@${params.userId}>`,
+  }),
+
   preconditions: [
     {
       type: 'custom',
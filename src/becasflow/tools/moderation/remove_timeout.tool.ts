@@ -0,0 +1,163 @@
+/**
+ * REMOVE TIMEOUT TOOL
+ *
+ * Lifts an active timeout so the user can talk again.
+ * Also used as the inverse of timeout when undoing a plan.
+ */
+
+import { BecasTool, BecasContext, BecasToolResult, BecasMissingParam } from '../../types/BecasFlow.types';
+import { PermissionFlagsBits } from 'discord.js';
+import { createLogger } from '../../../services/Logger';
+
+const logger = createLogger('RemoveTimeoutTool');
+
+export const removeTimeoutTool: BecasTool = {
+  name: 'remove_timeout',
+  description: 'Remove an active timeout from a user',
+  category: 'moderation',
+
+  parameters: {
+    userId: {
+      type: 'userId',
+      description: 'The ID of the user to remove the timeout from',
+      required: true,
+    },
+    reason: {
+      type: 'string',
+      description: 'Reason for removing the timeout',
+      required: false,
+      default: 'No reason provided',
+    },
+  },
+
+  detectMissing: (params: any, context: BecasContext): BecasMissingParam | null => {
+    // Check userId
+    if (!params.userId) {
+      if (context.lastUsers && context.lastUsers.length === 1) {
+        params.userId = context.lastUsers[0];
+      } else if (context.lastUsers && context.lastUsers.length > 1) {
+        return {
+          param: 'userId',
+          prompt: 'Which user should have their timeout removed?',
+          type: 'select',
+          options: context.lastUsers.map((id) => ({
+            label: id,
+            value: id,
+          })),
+        };
+      } else {
+        return {
+          param: 'userId',
+          prompt: 'Enter the user ID or @mention the user to remove the timeout from',
+          type: 'text',
+        };
+      }
+    }
+
+    return null;
+  },
+
+  async execute(params: any, context: BecasContext): Promise<BecasToolResult> {
+    const startTime = Date.now();
+
+    try {
+      const { userId, reason } = params;
+
+      logger.info(`Attempting to remove timeout from user ${userId}`);
+
+      // Permission check
+      if (!context.member.permissions.has(PermissionFlagsBits.ModerateMembers)) {
+        return {
+          success: false,
+          error: 'You do not have permission to moderate members',
+        };
+      }
+
+      // Get member
+      let member;
+      try {
+        member = await context.guild.members.fetch(userId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'User not found in this server',
+        };
+      }
+
+      if (!member.isCommunicationDisabled()) {
+        return {
+          success: false,
+          error: 'User is not timed out',
+        };
+      }
+
+      // Check if target is moderatable
+      if (!member.moderatable) {
+        return {
+          success: false,
+          error: 'Cannot remove timeout from this user (they may have higher permissions)',
+        };
+      }
+
+      // Remove timeout
+      await member.timeout(null, `${reason} | By: ${context.member.user.tag}`);
+
+      logger.info(`Successfully removed timeout from user ${userId}`);
+
+      // Record to V3
+      if (context.services.v3Integration) {
+        try {
+          await context.services.v3Integration.recordAction({
+            type: 'remove_timeout',
+            targetUserId: userId,
+            targetUsername: member.user.tag,
+            executedBy: context.member.id,
+            executedByName: context.member.user.tag,
+            reason,
+            guildId: context.guild.id,
+            channelId: context.channel.id,
+            messageId: context.message?.id,
+          });
+        } catch (error) {
+          logger.warn('Failed to record action to V3:', error);
+        }
+      }
+
+      const executionTime = Date.now() - startTime;
+
+      return {
+        success: true,
+        data: {
+          userId,
+          username: member.user.tag,
+          reason,
+          executedBy: context.member.user.tag,
+          executedAt: new Date().toISOString(),
+        },
+        metadata: {
+          executionTime,
+          affectedUsers: [userId],
+          nextSuggestedTool: 'check_trust',
+        },
+      };
+    } catch (error) {
+      logger.error('Error executing remove_timeout:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+
+  canChainTo: ['check_trust', 'warn'],
+  requiresConfirmation: false,  // Lifting a timeout is not destructive
+
+  preconditions: [
+    {
+      type: 'custom',
+      field: 'member',
+      customFn: (context) => context.member.permissions.has(PermissionFlagsBits.ModerateMembers),
+      message: 'User must have MODERATE_MEMBERS permission',
+    },
+  ],
+};
@@ -127,6 +127,8 @@ export const setSlowmodeTool: BecasTool = {
         };
       }
 
+      const previousDuration = channel.rateLimitPerUser || 0;
+
       // Execute slowmode
       await channel.setRateLimitPerUser(duration, `${reason} | By: ${context.member.user.tag}`);
 
@@ -145,7 +147,7 @@ export const setSlowmodeTool: BecasTool = {
             duration,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -163,6 +165,7 @@ export const setSlowmodeTool: BecasTool = {
           channelId,
           channelName: channel.name,
           duration,
+          previousDuration,
           durationText,
           reason,
           executedBy: context.member.user.tag,
@@ -188,6 +191,12 @@ export const setSlowmodeTool: BecasTool = {
   confirmationMessage: (params) =>
     `Set slowmode on <#${params.channelId}>?\nDuration: ${(setSlowmodeTool as any).formatDuration(params.duration)}\nReason: ${params.reason || 'No reason'}`,
 
+  inverse: (params, result) => result.data?.previousDuration === result.data?.duration ? null : {
+    toolName: 'set_slowmode',
+    params: { channelId: params.channelId, duration: result.data?.previousDuration ?? 0, reason: 'Undo set_slowmode' },
+    description: `Restore slowmode on <#${params.channelId}> to ${(setSlowmodeTool as any).formatDuration(result.data?.previousDuration ?? 0)}`,
+  },
+
   preconditions: [
     {
       type: 'custom',
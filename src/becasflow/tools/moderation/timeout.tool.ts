@@ -141,7 +141,10 @@ export const timeoutTool: BecasTool = {
         };
       }
 
-      // Execute timeout
+      // Execute timeout (remember a timeout that was already running)
+      const previousTimeoutUntil = member.communicationDisabledUntilTimestamp && member.communicationDisabledUntilTimestamp > Date.now()
+        ? new Date(member.communicationDisabledUntilTimestamp).toISOString()
+        : null;
       await member.timeout(duration, `${reason} | By: ${context.member.user.tag}`);
 
       logger.info(`Successfully timed out user ${userId}`);
@@ -178,7 +181,7 @@ export const timeoutTool: BecasTool = {
             duration,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -201,6 +204,7 @@ export const timeoutTool: BecasTool = {
           executedBy: context.member.user.tag,
           executedAt: new Date().toISOString(),
           expiresAt: new Date(Date.now() + duration).toISOString(),
+          previousTimeoutUntil,
         },
         metadata: {
           executionTime,
@@ -222,6 +226,13 @@ export const timeoutTool: BecasTool = {
   confirmationMessage: (params) =>
     `Timeout user <@${params.userId}>?\nDuration: ${(timeoutTool as any).formatDuration(params.duration)}\nReason: ${params.reason || 'No reason'}`,
 
+  // Nothing to undo if the member was already timed out (removing it would lift the earlier timeout too)
+  inverse: (params, result) => result.data?.previousTimeoutUntil ? null : {
+    toolName: 'remove_timeout',
+    params: { userId: params.userId, reason: `Undo timeout: ${params.reason || 'No reason'}` },
+    description: `Remove timeout from <@${params.userId}>`,
+  },
+
   preconditions: [
     {
       type: 'custom',
@@ -0,0 +1,146 @@
+/**
+ * UNBAN TOOL
+ *
+ * Lifts a ban so the user can rejoin the server.
+ * Also used as the inverse of ban when undoing a plan.
+ */
+
+import { BecasTool, BecasContext, BecasToolResult, BecasMissingParam } from '../../types/BecasFlow.types';
+import { PermissionFlagsBits } from 'discord.js';
+import { createLogger } from '../../../services/Logger';
+import { cancelScheduledUnban } from '../../../systems/ModerationHandler';
+
+const logger = createLogger('UnbanTool');
+
+export const unbanTool: BecasTool = {
+  name: 'unban',
+  description: 'Unban a previously banned user',
+  category: 'moderation',
+
+  parameters: {
+    userId: {
+      type: 'userId',
+      description: 'The ID of the user to unban',
+      required: true,
+    },
+    reason: {
+      type: 'string',
+      description: 'Reason for the unban',
+      required: false,
+      default: 'No reason provided',
+    },
+  },
+
+  detectMissing: (params: any, context: BecasContext): BecasMissingParam | null => {
+    // Check userId
+    if (!params.userId) {
+      if (context.lastUsers && context.lastUsers.length === 1) {
+        params.userId = context.lastUsers[0];
+      } else {
+        return {
+          param: 'userId',
+          prompt: 'Enter the user ID of the user to unban',
+          type: 'text',
+        };
+      }
+    }
+
+    return null;
+  },
+
+  async execute(params: any, context: BecasContext): Promise<BecasToolResult> {
+    const startTime = Date.now();
+
+    try {
+      const { userId, reason } = params;
+
+      logger.info(`Attempting to unban user ${userId} in ${context.guild.name}`);
+
+      // Permission check
+      if (!context.member.permissions.has(PermissionFlagsBits.BanMembers)) {
+        return {
+          success: false,
+          error: 'You do not have permission to unban members',
+        };
+      }
+
+      // Check the user is actually banned
+      let ban;
+      try {
+        ban = await context.guild.bans.fetch(userId);
+      } catch (error) {
+        return {
+          success: false,
+          error: 'User is not banned',
+        };
+      }
+
+      // Execute unban
+      await context.guild.members.unban(userId, `${reason} | By: ${context.member.user.tag}`);
+      await cancelScheduledUnban(context.guild.id, userId);
+
+      logger.info(`Successfully unbanned user ${userId}`);
+
+      // Record to V3
+      if (context.services.v3Integration) {
+        try {
+          await context.services.v3Integration.recordAction({
+            type: 'unban',
+            targetUserId: userId,
+            targetUsername: ban.user.tag,
+            executedBy: context.member.id,
+            executedByName: context.member.user.tag,
+            reason,
+            guildId: context.guild.id,
+            channelId: context.channel.id,
+            messageId: context.message?.id,
+          });
+        } catch (error) {
+          logger.warn('Failed to record action to V3:', error);
+        }
+      }
+
+      const executionTime = Date.now() - startTime;
+
+      return {
+        success: true,
+        data: {
+          userId,
+          username: ban.user.tag,
+          reason,
+          executedBy: context.member.user.tag,
+          executedAt: new Date().toISOString(),
+        },
+        metadata: {
+          executionTime,
+          affectedUsers: [userId],
+          nextSuggestedTool: 'check_trust',
+        },
+      };
+    } catch (error) {
+      logger.error('Error executing unban:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  },
+
+  canChainTo: ['check_trust', 'moderation_history'],
+  requiresConfirmation: false,  // Lifting a ban is not destructive
+
+  inverse: (params) => ({
+    toolName: 'ban',
+    params: { userId: params.userId, reason: 'Undo unban', deleteMessageDays: 0 },
+    description: `Re-ban <@${params.userId}>`,
+  }),
+
+  preconditions: [
+    {
+      type: 'custom',
+      field: 'member',
+      customFn: (context) => context.member.permissions.has(PermissionFlagsBits.BanMembers),
+      message: 'User must have BAN_MEMBERS permission',
+    },
+  ],
+};
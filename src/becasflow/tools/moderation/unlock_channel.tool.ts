@@ -91,6 +91,7 @@ export const unlockChannelTool: BecasTool = {
 
       // Unlock the channel by allowing SEND_MESSAGES for @everyone (or null to remove override)
       const everyoneRole = context.guild.roles.everyone;
+      const wasLocked = channel.permissionOverwrites.cache.get(everyoneRole.id)?.deny.has(PermissionFlagsBits.SendMessages) ?? false;
       await channel.permissionOverwrites.edit(everyoneRole, {
         SendMessages: null,  // Remove the override, reverting to role defaults
       }, {
@@ -111,7 +112,7 @@ export const unlockChannelTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -125,6 +126,7 @@ export const unlockChannelTool: BecasTool = {
         data: {
           channelId,
           channelName: channel.name,
+          wasLocked,
           reason,
           executedBy: context.member.user.tag,
           executedAt: new Date().toISOString(),
@@ -146,6 +148,13 @@ export const unlockChannelTool: BecasTool = {
   canChainTo: ['set_slowmode', 'lock_channel'],
   requiresConfirmation: false,  // Unlocking is less destructive, no confirmation needed
 
+  // Only re-lock channels that were actually locked before
+  inverse: (params, result) => !result.data?.wasLocked ? null : {
+    toolName: 'lock_channel',
+    params: { channelId: params.channelId, reason: 'Undo unlock_channel' },
+    description: `Re-lock <#${params.channelId}>`,
+  },
+
   preconditions: [
     {
       type: 'custom',
@@ -111,7 +111,7 @@ export const warnTool: BecasTool = {
         issuedByName: context.member.user.tag,
         timestamp: new Date().toISOString(),
         channelId: context.channel.id,
-        messageId: context.message.id,
+        messageId: context.message?.id,
       };
 
       // Record to V3
@@ -126,7 +126,7 @@ export const warnTool: BecasTool = {
             reason,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -19,6 +19,7 @@ export const checkTrustTool: BecasTool = {
   name: 'check_trust',
   description: 'Check trust score and history for a user',
   category: 'trust',
+  readOnly: true,
 
   parameters: {
     userId: {
@@ -182,8 +183,10 @@ export const checkTrustTool: BecasTool = {
         embed.addFields({ name: '💡 Recommendations', value: recommendations.join('\n') });
       }
 
-      // Send embed
-      await context.channel.send({ embeds: [embed] });
+      // Send embed (not during dry runs)
+      if (!context.dryRun) {
+        await context.channel.send({ embeds: [embed] });
+      }
 
       const executionTime = Date.now() - startTime;
 
@@ -15,6 +15,7 @@ export const trustReportTool: BecasTool = {
   name: 'trust_report',
   description: 'Generate comprehensive trust score report for the server',
   category: 'trust',
+  readOnly: true,
 
   parameters: {
     topCount: {
@@ -168,8 +169,10 @@ export const trustReportTool: BecasTool = {
         });
       }
 
-      // Send embed
-      await context.channel.send({ embeds: [embed] });
+      // Send embed (not during dry runs)
+      if (!context.dryRun) {
+        await context.channel.send({ embeds: [embed] });
+      }
 
       const executionTime = Date.now() - startTime;
 
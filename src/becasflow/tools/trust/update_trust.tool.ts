@@ -166,7 +166,7 @@ export const updateTrustTool: BecasTool = {
             reason: `Trust update: ${reason} (${changeNum >= 0 ? '+' : ''}${changeNum})`,
             guildId: context.guild.id,
             channelId: context.channel.id,
-            messageId: context.message.id,
+            messageId: context.message?.id,
           });
         } catch (error) {
           logger.warn('Failed to record action to V3:', error);
@@ -63,8 +63,8 @@ export interface BecasToolResult {
  * Execution context for tools
  */
 export interface BecasContext {
-  // Discord context
-  message: Message;
+  // Discord context (no message for slash commands)
+  message?: Message;
   guild: Guild;
   channel: TextChannel;
   member: GuildMember;
@@ -95,6 +95,9 @@ export interface BecasContext {
     [key: string]: any;
   };
 
+  // Set by the executor during dry runs - tools must not post or mutate anything
+  dryRun?: boolean;
+
   // Methods
   addToHistory(query: string, results: Map<string, any>): void;
   resolveReference(reference: string): any;
@@ -143,6 +146,13 @@ export interface BecasTool {
   requiresConfirmation?: boolean;  // Should ask user before executing
   confirmationMessage?: (params: any) => string;
 
+  // Undo - the operation that reverses a successful execution (null if there is nothing to reverse)
+  inverse?: (params: any, result: BecasToolResult) => BecasInverseOperation | null;
+
+  // Dry run - read-only tools execute for real; others are simulated
+  readOnly?: boolean;
+  simulate?: (params: any, context: BecasContext) => Promise<BecasImpact>;  // Defaults to the targets in params
+
   // Allow additional tool-specific helper methods and properties
   [key: string]: any;
 }
@@ -295,6 +305,8 @@ export interface BecasExecutionResult {
     error: string;
   }>;
   finalOutput: string;  // Natural language summary
+  rollback?: BecasUndoResult;  // Set when rollbackOnFailure undid the plan
+  impact?: BecasImpactReport;  // Set for dry runs
   metadata?: {
     totalTime: number;
     stepsExecuted: number;
@@ -303,14 +315,94 @@ export interface BecasExecutionResult {
   };
 }
 
+/**
+ * Tool call that reverses a previous tool call
+ */
+export interface BecasInverseOperation {
+  toolName: string;
+  params: Record<string, any>;
+  description: string;  // e.g. "Unban <@123>"
+}
+
+/**
+ * One executed side-effecting step in a compensation log
+ */
+export interface BecasCompensationEntry {
+  stepId: string;
+  toolName: string;
+  inverse: BecasInverseOperation | null;  // null = irreversible (kick, delete_messages, ...)
+  executedAt: number;
+  status: 'pending' | 'undone' | 'failed';
+  error?: string;
+}
+
+/**
+ * Compensation log for one executed plan
+ */
+export interface BecasCompensationLog {
+  planId: string;
+  query: string;
+  guildId: string;
+  executedBy: string;
+  createdAt: number;
+  entries: BecasCompensationEntry[];  // In completion order
+  undone: boolean;
+}
+
+/**
+ * Result of undoing a plan
+ */
+export interface BecasUndoResult {
+  success: boolean;
+  planId?: string;
+  undone: Array<{ stepId: string; description: string }>;
+  failed: Array<{ stepId: string; error: string }>;
+  irreversible: Array<{ stepId: string; toolName: string }>;
+  finalOutput: string;
+}
+
+/**
+ * What a mutating tool would change if it ran
+ */
+export interface BecasImpact {
+  description: string;  // e.g. "Ban <@123>"
+  users: Array<{ id: string; name?: string }>;
+  messages: string[];  // Message IDs
+  roles: Array<{ id: string; name?: string }>;
+  channels: Array<{ id: string; name?: string }>;
+}
+
+/**
+ * Impact preview of a dry-run plan
+ */
+export interface BecasImpactReport {
+  steps: Array<{
+    stepId: string;
+    toolName: string;
+    impact: BecasImpact;
+    irreversible: boolean;  // No inverse - cannot be undone
+    requiresConfirmation: boolean;
+  }>;
+  totals: {
+    users: number;
+    messages: number;
+    roles: number;
+    channels: number;
+  };
+  irreversible: string[];  // Step IDs
+  rendered: string;  // Human-readable report
+}
+
 /**
  * Execution options
  */
 export interface BecasExecutionOptions {
-  dryRun?: boolean;  // Don't actually execute, just simulate
+  dryRun?: boolean;  // Run read-only tools, simulate the rest and report their impact
   verbose?: boolean;  // Detailed logging
   pauseOnError?: boolean;  // Stop execution on first error
   maxExecutionTime?: number;  // Timeout in milliseconds
+  maxConcurrency?: number;  // Max independent steps running at once (default 4, 1 = sequential; side-effecting steps always run in plan order)
+  rollbackOnFailure?: boolean;  // Undo completed steps if the plan fails
 }
 
 // ============================================
@@ -398,6 +490,17 @@ export interface BecasFeedback {
   };
 }
 
+/**
+ * Stored feedback together with the plan it rates
+ */
+export interface BecasFeedbackRecord extends BecasFeedback {
+  guildId: string;
+  query: string;
+  toolsUsed: string[];
+  accepted: boolean;  // Used for planner learning (given by an admin/moderator)
+  createdAt: number;
+}
+
 // ============================================
 // EXPORTS
 // ============================================
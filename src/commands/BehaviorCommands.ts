@@ -2,6 +2,7 @@ import { Message, EmbedBuilder, ActionRowBuilder, ButtonBuilder, ButtonStyle } f
 import { Pool } from 'pg';
 import { BehaviorParser } from '../services/BehaviorParser';
 import { BehaviorEngine } from '../core/BehaviorEngine';
+import { SimulatedEvent, SandboxTrace } from '../services/BehaviorSandbox';
 import { BehaviorTemplates } from '../templates/BehaviorTemplates';
 import logger from '../utils/logger';
 
@@ -18,7 +19,7 @@ import logger from '../utils/logger';
  * - @BECAS disable behavior [id/name]
  * - @BECAS delete behavior [id/name]
  * - @BECAS show templates
- * - @BECAS test behavior [id/name]
+ * - @BECAS test behavior [id/name] [--join | --message <text>]
  */
 
 export class BehaviorCommands {
@@ -352,7 +353,118 @@ export class BehaviorCommands {
    * Test behavior (dry run)
    */
   private async handleTest(message: Message, args: string[]): Promise<void> {
-    await message.reply('⚠️ Test mode coming soon! This will simulate behavior execution without actually performing actions.');
+    // Split "[name] --join" / "[name] --message hello there"
+    const flagIndex = args.findIndex(arg => arg === '--join' || arg === '--message');
+    const identifier = (flagIndex === -1 ? args : args.slice(0, flagIndex)).join(' ');
+    const flag = flagIndex === -1 ? undefined : args[flagIndex];
+
+    if (!identifier) {
+      await message.reply('❌ Please provide behavior ID or name\nExample: `@BECAS test behavior Welcome DM --join`');
+      return;
+    }
+
+    const row = await this.findBehavior(message.guildId!, identifier);
+
+    if (!row) {
+      await message.reply(`❌ Behavior not found: ${identifier}`);
+      return;
+    }
+
+    const behavior = {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      enabled: row.enabled,
+      trigger: row.trigger,
+      tracking: row.tracking,
+      analysis: row.analysis,
+      actions: row.actions,
+      safety: row.safety
+    };
+
+    const self = {
+      userId: message.author.id,
+      username: message.author.username,
+      channelId: message.channelId,
+      roles: message.member ? Array.from(message.member.roles.cache.keys()) : []
+    };
+
+    let events: SimulatedEvent[] | null = null;
+    let source: 'synthetic' | 'recorded' = 'synthetic';
+
+    if (flag === '--join') {
+      events = [{ event: 'guildMemberAdd', ...self }];
+    } else if (flag === '--message') {
+      events = [{ event: 'messageCreate', ...self, content: args.slice(flagIndex + 1).join(' ') }];
+    } else {
+      // Default: replay this channel's recent history
+      source = 'recorded';
+    }
+
+    await message.reply(`🧪 Running **${behavior.name}** in sandbox mode (no actions will be performed)...`);
+
+    let trace: SandboxTrace;
+    try {
+      trace = await this.engine.simulate(behavior, events, {
+        serverId: message.guildId!,
+        source,
+        channelId: message.channelId,
+        limit: 50
+      });
+    } catch (error) {
+      await message.reply(`❌ Sandbox run failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    await message.reply({ embeds: [this.buildTraceEmbed(trace)] });
+  }
+
+  /**
+   * Summarize a sandbox trace as an embed
+   */
+  private buildTraceEmbed(trace: SandboxTrace): EmbedBuilder {
+    const actionSummary = Object.entries(trace.actionCounts)
+      .map(([type, count]) => `${type} × ${count}`)
+      .join('\n') || 'None';
+
+    const embed = new EmbedBuilder()
+      .setTitle(`🧪 Sandbox: ${trace.behaviorName}`)
+      .setDescription(`${trace.source === 'recorded' ? 'Replayed recent channel history' : 'Simulated event'} — nothing was sent to Discord`)
+      .setColor(trace.executions > 0 ? '#F1C40F' : '#95A5A6')
+      .addFields(
+        { name: 'Events', value: trace.eventsReplayed.toString(), inline: true },
+        { name: 'Triggered', value: trace.triggered.toString(), inline: true },
+        { name: 'Executions', value: trace.executions.toString(), inline: true },
+        { name: 'Actions that would run', value: actionSummary }
+      );
+
+    // Detail the first few triggered events, or why the first event did not trigger
+    const triggered = trace.events.filter(e => e.trigger.matched).slice(0, 3);
+
+    if (triggered.length === 0 && trace.events.length > 0) {
+      embed.addFields({ name: 'Trigger (first event)', value: trace.events[0].trigger.reason.substring(0, 1024) });
+    }
+
+    for (const event of triggered) {
+      const lines = [`Trigger: ${event.trigger.reason}`];
+
+      if (event.skippedReason) {
+        lines.push(`Skipped: ${event.skippedReason}`);
+      }
+      if (event.preview?.analysisError) {
+        lines.push(`Analysis failed: ${event.preview.analysisError}`);
+      } else if (event.preview?.analysis) {
+        lines.push(`Analysis: \`${JSON.stringify(event.preview.analysis).substring(0, 300)}\``);
+      }
+      for (const action of event.preview?.actions || []) {
+        const status = action.wouldExecute ? (action.requiresApproval ? '⏳ needs approval' : '✅ would run') : '⏭️ condition not met';
+        lines.push(`${status}: ${action.type}${action.target ? ` → ${action.target}` : ''}`);
+      }
+
+      embed.addFields({ name: `Event #${event.index + 1} (${event.event})`, value: lines.join('\n').substring(0, 1024) });
+    }
+
+    return embed;
   }
 
   /**
@@ -424,6 +536,10 @@ export class BehaviorCommands {
         {
           name: 'Info',
           value: '`@BECAS show behavior [name/id]` - Show detailed info'
+        },
+        {
+          name: 'Test (sandbox)',
+          value: '`@BECAS test behavior [name/id]` - Replay recent channel messages\n`@BECAS test behavior [name/id] --join` - Simulate you joining\n`@BECAS test behavior [name/id] --message [text]` - Simulate a message'
         }
       );
 
@@ -1,6 +1,11 @@
-import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
-import { blockchainService } from '../services/BlockchainService';
-import { getSupabaseClient } from '../database/SupabaseClient';
+import {
+  ChatInputCommandInteraction,
+  SlashCommandBuilder,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle
+} from 'discord.js';
+import { walletLinkService, WalletLinkError } from '../services/WalletLinkService';
 
 export const data = new SlashCommandBuilder()
   .setName('linkwallet')
@@ -27,50 +32,46 @@ export async function execute(interaction: ChatInputCommandInteraction) {
   }
 
   try {
-    // 1. Update database (Supabase)
-    const supabase = getSupabaseClient();
-    const { error } = await supabase
-      .from('users')
-      .update({
-        wallet_address: walletAddress.toLowerCase(),
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', userId);
+    // 1. Issue a challenge - the wallet is only linked once the user proves they own it
+    const challenge = walletLinkService.createChallenge(userId, userName, walletAddress, async (result) => {
+      // 3. Signature verified and wallet linked (called from the signing page's request)
+      let message = `✅ **Wallet Linked Successfully!**\n\n`;
+      message += `👤 Discord: ${userName}\n`;
+      message += `💳 Wallet: \`${result.address}\`\n\n`;
 
-    if (error) {
-      console.error('Failed to update wallet in database:', error);
-      return interaction.editReply({
-        content: '❌ Failed to link wallet to database. This wallet may already be linked to another account.'
-      });
-    }
-
-    // 2. Link on blockchain
-    let txHash: string | null = null;
-    if (blockchainService.isEnabled()) {
-      try {
-        txHash = await blockchainService.linkWallet(userId, walletAddress);
-      } catch (error) {
-        console.error('Failed to link wallet on blockchain:', error);
-        // Don't fail the command - database link is more important
+      if (result.txHash) {
+        message += `⛓️ **Blockchain Confirmation:**\n`;
+        message += `Transaction: [View on BaseScan](https://sepolia.basescan.org/tx/${result.txHash})\n\n`;
       }
-    }
 
-    // 3. Success response
-    let message = `✅ **Wallet Linked Successfully!**\n\n`;
-    message += `👤 Discord: ${userName}\n`;
-    message += `💳 Wallet: \`${walletAddress}\`\n\n`;
+      message += `📊 Your trust score will now be visible on the blockchain!\n`;
+      message += `🌐 View on dashboard: https://becascore.xyz/checkscore.html`;
 
-    if (txHash) {
-      message += `⛓️ **Blockchain Confirmation:**\n`;
-      message += `Transaction: [View on BaseScan](https://sepolia.basescan.org/tx/${txHash})\n\n`;
-    }
+      await interaction.editReply({ content: message, components: [] });
+    });
+
+    // 2. Send the user to the signing page
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setLabel('Sign with wallet')
+        .setEmoji('✍️')
+        .setStyle(ButtonStyle.Link)
+        .setURL(walletLinkService.getSigningUrl(challenge))
+    );
 
-    message += `📊 Your trust score will now be visible on the blockchain!\n`;
-    message += `🌐 View on dashboard: https://becascore.xyz/checkscore.html`;
+    let message = `🔐 **Prove you own this wallet**\n\n`;
+    message += `💳 Wallet: \`${challenge.address}\`\n\n`;
+    message += `Open the signing page and sign the message with this wallet. `;
+    message += `Signing is free and does not send a transaction.\n\n`;
+    message += `⏱️ Expires <t:${Math.floor(challenge.expiresAt.getTime() / 1000)}:R>`;
 
-    await interaction.editReply({ content: message });
+    await interaction.editReply({ content: message, components: [row] });
 
   } catch (error) {
+    if (error instanceof WalletLinkError) {
+      return interaction.editReply({ content: `❌ ${error.message}` });
+    }
+
     console.error('Error linking wallet:', error);
     await interaction.editReply({
       content: '❌ An unexpected error occurred while linking your wallet. Please try again later.'
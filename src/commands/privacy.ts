@@ -0,0 +1,162 @@
+/**
+ * PRIVACY COMMANDS
+ *
+ * Lets any member see or delete what Becas knows about them. Results go to
+ * the member's DMs, never to the channel.
+ *
+ * Usage:
+ * - becas privacy export          → JSON file with everything stored about you
+ * - becas privacy delete          → explains what erasure does
+ * - becas privacy delete confirm  → erases you and sends a signed receipt
+ */
+
+import { AttachmentBuilder, Message } from 'discord.js';
+import { ENV } from '../config/environment';
+import { privacyService } from '../privacy/PrivacyService';
+import { createLogger } from '../services/Logger';
+
+const logger = createLogger('PrivacyCommand');
+
+const COOLDOWN_MS = 10 * 60 * 1000; // One request per member every 10 minutes
+
+export class PrivacyCommand {
+  private lastRequest: Map<string, number> = new Map();
+
+  /**
+   * Main command handler
+   */
+  async execute(message: Message, args: string[]): Promise<void> {
+    const subcommand = args[0]?.toLowerCase();
+
+    switch (subcommand) {
+      case 'export':
+        await this.exportData(message);
+        break;
+
+      case 'delete':
+      case 'erase':
+        if (args[1]?.toLowerCase() === 'confirm') {
+          await this.eraseData(message);
+        } else {
+          await this.explainErasure(message);
+        }
+        break;
+
+      case 'help':
+      default:
+        await this.showHelp(message);
+        break;
+    }
+  }
+
+  private async exportData(message: Message): Promise<void> {
+    if (!this.takeCooldown(message, 'export')) return;
+
+    try {
+      const result = await privacyService.exportSubject(
+        { userId: message.author.id, guildId: null },
+        'self' // The subject is already recorded as a hash
+      );
+
+      const records = result.holders.reduce((n, h) => n + h.records.length, 0);
+      const file = new AttachmentBuilder(Buffer.from(JSON.stringify(result, null, 2)), {
+        name: `becas-data-${message.author.id}.json`,
+      });
+
+      const sent = await this.sendDM(message, {
+        content: `📦 Everything Becas stores about you: ${records} records from ${result.holders.length} stores.` +
+          (result.status === 'partial' ? '\n⚠️ Some stores could not be read; their entries in the file say why.' : ''),
+        files: [file],
+      });
+
+      if (sent) {
+        await message.reply('📬 I sent your data export to your DMs.');
+      }
+    } catch (error) {
+      logger.error('Data export failed', error);
+      await message.reply('❌ Could not export your data. Please try again later.');
+    }
+  }
+
+  private async explainErasure(message: Message): Promise<void> {
+    await message.reply(
+      '🗑️ **Delete my data**\n\n' +
+      'This deletes your profile, messages, memories, embeddings, voice and reaction history from every server Becas runs in. ' +
+      `Moderation records (warnings, bans, reported threats) from the last ${ENV.PRIVACY_EVIDENCE_RETENTION_DAYS} days are kept as evidence. ` +
+      'Where other people\'s records mention you, your ID is replaced with a pseudonym.\n\n' +
+      'This cannot be undone. To continue, send `becas privacy delete confirm`.'
+    );
+  }
+
+  private async eraseData(message: Message): Promise<void> {
+    if (!this.takeCooldown(message, 'erasure')) return;
+
+    try {
+      const receipt = await privacyService.eraseSubject(
+        { userId: message.author.id, guildId: null },
+        'self' // The subject is already recorded as a hash
+      );
+
+      if (receipt.status === 'held') {
+        await message.reply(
+          `⚖️ Your data is under a legal hold and cannot be erased yet. Request \`${receipt.requestId}\` has been logged; please contact an admin.`
+        );
+        return;
+      }
+
+      const deleted = receipt.holders.reduce((n, h) => n + h.deleted, 0);
+      const retained = receipt.holders.reduce((n, h) => n + h.retained, 0);
+      const file = new AttachmentBuilder(Buffer.from(JSON.stringify(receipt, null, 2)), {
+        name: `becas-erasure-${receipt.requestId}.json`,
+      });
+
+      const sent = await this.sendDM(message, {
+        content: `🧾 Erasure receipt \`${receipt.requestId}\`: ${deleted} records deleted, ${retained} kept as moderation evidence.\n` +
+          'The receipt is signed by this Becas instance. Keep it to prove what was erased.',
+        files: [file],
+      });
+
+      const where = sent ? 'The receipt is in your DMs.' : `An admin can look up receipt \`${receipt.requestId}\`.`;
+      await message.reply(
+        receipt.status === 'completed'
+          ? `✅ Your data has been erased (${deleted} records). ${where}`
+          : `⚠️ Your data was erased from most stores, but some failed and are listed in the receipt. ${where} Please ask an admin to follow up.`
+      );
+    } catch (error) {
+      logger.error('Data erasure failed', error);
+      await message.reply('❌ Could not erase your data. Please try again later.');
+    }
+  }
+
+  private async showHelp(message: Message): Promise<void> {
+    await message.reply(
+      '🔒 **Your data**\n\n' +
+      '`becas privacy export` - Get a file with everything Becas stores about you\n' +
+      '`becas privacy delete` - Delete what Becas stores about you'
+    );
+  }
+
+  private takeCooldown(message: Message, kind: 'export' | 'erasure'): boolean {
+    const key = `${kind}:${message.author.id}`;
+    const last = this.lastRequest.get(key);
+    if (last && Date.now() - last < COOLDOWN_MS) {
+      message.reply(`⏳ Please wait <t:${Math.ceil((last + COOLDOWN_MS) / 1000)}:R> before the next privacy request.`)
+        .catch(() => undefined);
+      return false;
+    }
+
+    this.lastRequest.set(key, Date.now());
+    return true;
+  }
+
+  private async sendDM(message: Message, payload: { content: string; files: AttachmentBuilder[] }): Promise<boolean> {
+    try {
+      await message.author.send(payload);
+      return true;
+    } catch (error) {
+      logger.warn(`Could not DM ${message.author.id}`, error);
+      await message.reply('❌ I could not DM you. Allow direct messages from server members and try again.');
+      return false;
+    }
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * SLASH COMMAND SHARED TYPES & HELPERS
+ *
+ * Every slash command module exports `data` (the builder) and `execute`,
+ * plus `autocomplete` when one of its options autocompletes. Commands that
+ * change something run the matching BecasFlow tool through the executor, so
+ * they leave the same trail as natural-language commands: the tool's own
+ * V3 record and trust update, the executor's undo log and an audit event.
+ */
+
+import {
+  ActionRowBuilder,
+  AutocompleteInteraction,
+  ButtonBuilder,
+  ButtonStyle,
+  ChatInputCommandInteraction,
+  ComponentType,
+  PermissionResolvable,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  TextChannel,
+} from 'discord.js';
+import { BecasContext } from '../../becasflow/core/BecasContext';
+import { BecasExecutor } from '../../becasflow/core/BecasExecutor';
+import { BecasToolResult } from '../../becasflow/types/BecasFlow.types';
+import { TrustScoreEngineDB } from '../../systems/TrustScoreEngineDB';
+import { WatchSystem } from '../../systems/WatchSystem';
+import { AuditLogger } from '../../systems/AuditLogger';
+import { GuildPolicyEngineDB } from '../../intelligence/GuildPolicyEngineDB';
+import { V3Integration } from '../../integration/V3Integration';
+import { UnifiedMemoryStore } from '../../persistence/UnifiedMemoryStore';
+import { BehaviorEngine } from '../../core/BehaviorEngine';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('SlashCommand');
+
+const CONFIRM_TIMEOUT_MS = 60000;
+
+/**
+ * Live components the commands work with (attached once they exist)
+ */
+export interface SlashServices {
+  executor: BecasExecutor;
+  trustEngine: TrustScoreEngineDB;
+  v3Integration: V3Integration;
+  unifiedMemory: UnifiedMemoryStore;
+  watchSystem: WatchSystem;
+  policyEngine: GuildPolicyEngineDB;
+  auditLogger: AuditLogger;
+  behaviorEngine: BehaviorEngine;
+}
+
+export interface SlashCommandModule {
+  data: { name: string; toJSON(): RESTPostAPIChatInputApplicationCommandsJSONBody };
+  execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>): Promise<unknown>;
+  autocomplete?(interaction: AutocompleteInteraction, services: Partial<SlashServices>): Promise<void>;
+}
+
+/**
+ * Check the caller's permission at run time (server admins can loosen the
+ * command's default permissions in the integration settings)
+ */
+export async function requirePermission(
+  interaction: ChatInputCommandInteraction,
+  services: Partial<SlashServices>,
+  permission: PermissionResolvable,
+  label: string
+): Promise<boolean> {
+  if (interaction.inCachedGuild() && interaction.memberPermissions.has(permission)) {
+    return true;
+  }
+
+  await audit(interaction, services, {
+    type: 'command_denied',
+    action: `/${interaction.commandName}`,
+    details: { required: label },
+    success: false,
+  });
+
+  const content = `❌ You need the **${label}** permission to use \`/${interaction.commandName}\`.`;
+  if (interaction.deferred || interaction.replied) {
+    await interaction.editReply({ content });
+  } else {
+    await interaction.reply({ content, ephemeral: true });
+  }
+  return false;
+}
+
+/**
+ * Run one BecasFlow tool for a slash command (the interaction must be
+ * deferred). Tools that require confirmation show their impact preview with
+ * Confirm / Cancel buttons first. Returns null when not confirmed.
+ */
+export async function runTool(
+  interaction: ChatInputCommandInteraction<'cached'>,
+  services: Partial<SlashServices>,
+  toolName: string,
+  params: Record<string, any>
+): Promise<BecasToolResult | null> {
+  const { executor } = services;
+  if (!executor) {
+    return { success: false, error: 'BecasFlow is not ready yet, try again in a moment' };
+  }
+
+  const context = new BecasContext(
+    {
+      guild: interaction.guild,
+      channel: interaction.channel as TextChannel,
+      member: interaction.member,
+    },
+    {
+      trustEngine: services.trustEngine,
+      v3Integration: services.v3Integration,
+      unifiedMemory: services.unifiedMemory,
+      policyEngine: services.v3Integration?.policyEngine,
+    }
+  );
+
+  const plan = {
+    id: `slash_${interaction.id}`,
+    query: `/${interaction.commandName} ${interaction.options.getSubcommand(false) || ''}`.trim(),
+    steps: [{ id: 'step_1', toolName, params }],
+    metadata: { createdAt: Date.now() },
+  };
+
+  if (executor.needsConfirmation(plan)) {
+    const preview = await executor.preview(plan, context);
+    const confirmed = await confirm(interaction, preview.finalOutput.substring(0, 1800));
+    if (!confirmed) return null;
+  }
+
+  const execution = await executor.execute(plan, context);
+  const step = execution.results.find(r => r.stepId === 'step_1');
+  const result: BecasToolResult = step?.result || {
+    success: false,
+    error: execution.errors[0]?.error || 'Preconditions not met',
+  };
+
+  await audit(interaction, services, {
+    type: 'command_executed',
+    action: `/${interaction.commandName}`,
+    targetId: params.userId,
+    details: { tool: toolName, params, planId: plan.id },
+    success: result.success,
+    error: result.error,
+  });
+
+  return result;
+}
+
+/**
+ * Show a tool's outcome on the deferred reply (nothing to show when it was not confirmed)
+ */
+export async function reportResult(
+  interaction: ChatInputCommandInteraction,
+  result: BecasToolResult | null,
+  success: string
+): Promise<void> {
+  if (!result) return;
+  await interaction.editReply({
+    content: result.success ? success : `❌ ${result.error || 'The action failed'}`,
+    components: [],
+  });
+}
+
+/**
+ * Ask the caller to confirm on the deferred reply
+ */
+async function confirm(interaction: ChatInputCommandInteraction, prompt: string): Promise<boolean> {
+  const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+    new ButtonBuilder().setCustomId('slash_confirm_yes').setLabel('Confirm').setStyle(ButtonStyle.Danger),
+    new ButtonBuilder().setCustomId('slash_confirm_no').setLabel('Cancel').setStyle(ButtonStyle.Secondary)
+  );
+
+  const reply = await interaction.editReply({ content: `${prompt}\n\nProceed?`, components: [row] });
+
+  try {
+    const click = await reply.awaitMessageComponent<ComponentType.Button>({
+      filter: (i) => i.user.id === interaction.user.id,
+      time: CONFIRM_TIMEOUT_MS,
+    });
+    const confirmed = click.customId === 'slash_confirm_yes';
+    await click.update({ content: confirmed ? '⏳ Running...' : '✗ Cancelled', components: [] });
+    return confirmed;
+  } catch {
+    await interaction.editReply({ content: '⏱️ Timed out, nothing was done.', components: [] });
+    return false;
+  }
+}
+
+/**
+ * Write a slash command event to the audit log
+ */
+export async function audit(
+  interaction: ChatInputCommandInteraction,
+  services: Partial<SlashServices>,
+  event: {
+    type: 'command_executed' | 'command_denied';
+    action: string;
+    targetId?: string;
+    details: any;
+    success: boolean;
+    error?: string;
+  }
+): Promise<void> {
+  if (!services.auditLogger) return;
+
+  try {
+    await services.auditLogger.log({
+      ...event,
+      guildId: interaction.guildId!,
+      guildName: interaction.guild?.name,
+      actorId: interaction.user.id,
+      actorName: interaction.user.username,
+      actorType: 'moderator',
+      channelId: interaction.channelId,
+    });
+  } catch (error) {
+    logger.warn(`Failed to audit /${interaction.commandName}:`, error);
+  }
+}
+
+/**
+ * Autocomplete choices matching what the caller typed so far (Discord allows 25)
+ */
+export function matchChoices(
+  interaction: AutocompleteInteraction,
+  choices: Array<{ name: string; value: string }>
+): Array<{ name: string; value: string }> {
+  const typed = String(interaction.options.getFocused()).toLowerCase();
+  return choices
+    .filter(c => !typed || c.name.toLowerCase().includes(typed) || c.value.toLowerCase().startsWith(typed))
+    .slice(0, 25)
+    .map(c => ({ name: c.name.substring(0, 100), value: c.value.substring(0, 100) }));
+}
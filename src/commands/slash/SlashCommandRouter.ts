@@ -0,0 +1,112 @@
+/**
+ * SLASH COMMAND ROUTER
+ *
+ * Registers the bot's slash commands with Discord once the client is ready
+ * and dispatches command and autocomplete interactions to them. Routine
+ * moderation (trust lookup, case history, warn/timeout/ban, watches,
+ * policies and behaviors) runs here deterministically instead of through
+ * natural-language parsing.
+ */
+
+import { Client, Interaction } from 'discord.js';
+import { SlashCommandModule, SlashServices } from './SlashCommand';
+import * as linkwallet from '../linkwallet';
+import * as unlinkwallet from '../unlinkwallet';
+import * as linkbasename from '../linkbasename';
+import * as trust from './trust';
+import * as cases from './cases';
+import * as warn from './warn';
+import * as timeout from './timeout';
+import * as ban from './ban';
+import * as watch from './watch';
+import * as policy from './policy';
+import * as behavior from './behavior';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('SlashCommandRouter');
+
+const COMMANDS: SlashCommandModule[] = [
+  linkwallet,
+  unlinkwallet,
+  linkbasename,
+  trust,
+  cases,
+  warn,
+  timeout,
+  ban,
+  watch,
+  policy,
+  behavior,
+];
+
+export class SlashCommandRouter {
+  private services: Partial<SlashServices> = {};
+  private commands: Map<string, SlashCommandModule>;
+
+  constructor(commands: SlashCommandModule[] = COMMANDS) {
+    this.commands = new Map(commands.map(command => [command.data.name, command]));
+  }
+
+  /**
+   * Connect the live components the commands use (commands report what is missing)
+   */
+  attach(services: Partial<SlashServices>): void {
+    Object.assign(this.services, services);
+  }
+
+  /**
+   * Listen for interactions and register the commands once the client is ready
+   */
+  register(client: Client): void {
+    client.on('interactionCreate', interaction => {
+      this.handle(interaction).catch(error => logger.error('Slash interaction failed:', error));
+    });
+
+    if (client.isReady()) {
+      this.deploy(client).catch(error => logger.error('Failed to register slash commands:', error));
+    } else {
+      client.once('ready', () => {
+        this.deploy(client).catch(error => logger.error('Failed to register slash commands:', error));
+      });
+    }
+  }
+
+  private async deploy(client: Client): Promise<void> {
+    const body = Array.from(this.commands.values()).map(command => command.data.toJSON());
+    await client.application!.commands.set(body);
+    logger.info(`Registered ${body.length} slash commands`);
+  }
+
+  private async handle(interaction: Interaction): Promise<void> {
+    if (interaction.isAutocomplete()) {
+      const command = this.commands.get(interaction.commandName);
+      try {
+        await command?.autocomplete?.(interaction, this.services);
+      } catch (error) {
+        logger.warn(`Autocomplete for /${interaction.commandName} failed:`, error);
+        if (!interaction.responded) await interaction.respond([]).catch(() => undefined);
+      }
+      return;
+    }
+
+    if (!interaction.isChatInputCommand()) return;
+
+    const command = this.commands.get(interaction.commandName);
+    if (!command) return;
+
+    try {
+      await command.execute(interaction, this.services);
+    } catch (error) {
+      logger.error(`/${interaction.commandName} failed:`, error);
+      const content = '❌ An unexpected error occurred while running this command.';
+      if (interaction.deferred || interaction.replied) {
+        await interaction.editReply({ content, components: [] }).catch(() => undefined);
+      } else {
+        await interaction.reply({ content, ephemeral: true }).catch(() => undefined);
+      }
+    }
+  }
+}
+
+// Singleton instance
+export const slashCommands = new SlashCommandRouter();
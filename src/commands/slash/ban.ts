@@ -0,0 +1,43 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { SlashServices, reportResult, requirePermission, runTool } from './SlashCommand';
+import { autocompleteReason } from './reasonPresets';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('BanSlashCommand');
+
+export const data = new SlashCommandBuilder()
+  .setName('ban')
+  .setDescription('Ban a member (asks for confirmation)')
+  .setDefaultMemberPermissions(PermissionFlagsBits.BanMembers)
+  .setContexts(InteractionContextType.Guild)
+  .addUserOption(option =>
+    option.setName('user').setDescription('Member to ban').setRequired(true))
+  .addStringOption(option =>
+    option.setName('reason').setDescription('Reason (pick a preset or policy, or type your own)').setRequired(true).setAutocomplete(true).setMaxLength(500))
+  .addIntegerOption(option =>
+    option.setName('delete_days').setDescription('Delete their messages from the last N days (default 0)').setMinValue(0).setMaxValue(7));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.BanMembers, 'Ban Members'))) return;
+  if (!interaction.inCachedGuild()) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  const user = interaction.options.getUser('user', true);
+  const reason = interaction.options.getString('reason', true);
+
+  try {
+    const result = await runTool(interaction, services, 'ban', {
+      userId: user.id,
+      reason,
+      deleteMessageDays: interaction.options.getInteger('delete_days') ?? 0,
+    });
+    await reportResult(interaction, result, `🔨 Banned ${user} — ${reason}`);
+  } catch (error) {
+    logger.error('Error banning member:', error);
+    await interaction.editReply({ content: '❌ An unexpected error occurred while banning the member.', components: [] });
+  }
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction, services: Partial<SlashServices>) {
+  await autocompleteReason(interaction, services);
+}
@@ -0,0 +1,108 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, EmbedBuilder, InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { getPostgresPool } from '../../database/config';
+import { SlashServices, audit, matchChoices, requirePermission } from './SlashCommand';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('BehaviorSlashCommand');
+
+export const data = new SlashCommandBuilder()
+  .setName('behavior')
+  .setDescription('List or switch server behaviors on and off')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+  .setContexts(InteractionContextType.Guild)
+  .addSubcommand(sub => sub
+    .setName('list')
+    .setDescription('List server behaviors, enabled and disabled'))
+  .addSubcommand(sub => sub
+    .setName('toggle')
+    .setDescription('Switch a behavior on or off')
+    .addStringOption(option =>
+      option.setName('behavior').setDescription('Behavior to change').setRequired(true).setAutocomplete(true))
+    .addBooleanOption(option =>
+      option.setName('enabled').setDescription('Whether the behavior runs').setRequired(true)));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  // Administrators pass too: has() counts Administrator as every permission
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.ManageGuild, 'Manage Server'))) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  try {
+    if (interaction.options.getSubcommand() === 'list') {
+      return await listBehaviors(interaction);
+    }
+    return await toggleBehavior(interaction, services);
+  } catch (error) {
+    logger.error('Error handling /behavior:', error);
+    await interaction.editReply({ content: '❌ An unexpected error occurred while managing behaviors.' });
+  }
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  const result = await getPostgresPool().query(
+    'SELECT id, name, enabled FROM dynamic_behaviors WHERE server_id = $1 ORDER BY name',
+    [interaction.guildId]
+  );
+
+  await interaction.respond(matchChoices(interaction, result.rows.map(row => ({
+    name: `${row.enabled ? '✅' : '⏸️'} ${row.name}`,
+    value: row.id,
+  }))));
+}
+
+async function listBehaviors(interaction: ChatInputCommandInteraction) {
+  const result = await getPostgresPool().query(
+    'SELECT * FROM dynamic_behaviors WHERE server_id = $1 ORDER BY enabled DESC, name',
+    [interaction.guildId]
+  );
+
+  if (result.rows.length === 0) {
+    return interaction.editReply({ content: '📭 No behaviors found for this server.' });
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle('📋 Server Behaviors')
+    .setDescription(`Found ${result.rows.length} behavior(s)`)
+    .setColor(0x0099ff);
+
+  for (const row of result.rows.slice(0, 20)) {
+    const trigger = row.trigger.event || row.trigger.cron || row.trigger.type;
+    embed.addFields({
+      name: `${row.enabled ? '✅' : '⏸️'} ${row.name}`.substring(0, 256),
+      value: `ID: \`${row.id.split('-').pop()}\` | Trigger: ${trigger} | Executions: ${row.execution_count}`,
+    });
+  }
+
+  if (result.rows.length > 20) {
+    embed.setFooter({ text: `Showing 20 of ${result.rows.length} behaviors` });
+  }
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function toggleBehavior(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  const behaviorId = interaction.options.getString('behavior', true);
+  const enabled = interaction.options.getBoolean('enabled', true);
+
+  const result = await getPostgresPool().query(
+    'UPDATE dynamic_behaviors SET enabled = $3 WHERE server_id = $1 AND id = $2 RETURNING id, name',
+    [interaction.guildId, behaviorId, enabled]
+  );
+  const behavior = result.rows[0];
+
+  await audit(interaction, services, {
+    type: 'command_executed',
+    action: '/behavior toggle',
+    details: { behaviorId: behavior?.id ?? behaviorId, name: behavior?.name, enabled },
+    success: !!behavior,
+    error: behavior ? undefined : 'Behavior not found',
+  });
+
+  if (!behavior) {
+    return interaction.editReply({ content: `❌ Behavior not found: \`${behaviorId}\`` });
+  }
+
+  await services.behaviorEngine?.reloadBehavior(behavior.id);
+  logger.info(`${enabled ? 'Enabled' : 'Disabled'} behavior ${behavior.id} via /behavior`);
+
+  await interaction.editReply({ content: `${enabled ? '✅ Enabled' : '⏸️ Disabled'} behavior: **${behavior.name}**` });
+}
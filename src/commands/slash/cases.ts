@@ -0,0 +1,74 @@
+import { ChatInputCommandInteraction, EmbedBuilder, InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { SicilRepository } from '../../database/repositories/SicilRepository';
+import { SlashServices, requirePermission } from './SlashCommand';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('CasesSlashCommand');
+
+const ACTION_EMOJI: Record<string, string> = {
+  warn: '⚠️',
+  timeout: '⏰',
+  kick: '👢',
+  ban: '🔨',
+  delete: '🗑️',
+};
+
+export const data = new SlashCommandBuilder()
+  .setName('cases')
+  .setDescription('Show a member\'s sicil: violation counts and recent moderation cases')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+  .setContexts(InteractionContextType.Guild)
+  .addUserOption(option =>
+    option.setName('user').setDescription('Member to look up').setRequired(true))
+  .addIntegerOption(option =>
+    option.setName('limit').setDescription('Cases to show (default 10)').setMinValue(1).setMaxValue(25));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.ModerateMembers, 'Moderate Members'))) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  const user = interaction.options.getUser('user', true);
+  const limit = interaction.options.getInteger('limit') ?? 10;
+
+  try {
+    const sicilRepo = new SicilRepository();
+    const [summary, cases] = await Promise.all([
+      sicilRepo.getSicilSummary(interaction.guildId!, user.id),
+      sicilRepo.getModerationCases(interaction.guildId!, user.id, limit),
+    ]);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Sicil: ${user.tag}`)
+      .setThumbnail(user.displayAvatarURL())
+      .setColor(0x5865f2)
+      .addFields(
+        { name: 'Warnings', value: `${summary.total_warnings}`, inline: true },
+        { name: 'Timeouts', value: `${summary.total_timeouts}`, inline: true },
+        { name: 'Kicks', value: `${summary.total_kicks}`, inline: true },
+        { name: 'Bans', value: `${summary.total_bans}`, inline: true },
+        { name: 'Risk', value: summary.risk_category, inline: true },
+        { name: 'Clean Streak', value: `${summary.clean_streak_days} days`, inline: true },
+      );
+
+    embed.addFields({
+      name: `Recent Cases (${cases.length})`,
+      value: cases.length === 0
+        ? 'No moderation cases'
+        : cases
+          .map(c => {
+            const type = c.moderation_action || c.action_type;
+            const when = Math.floor(new Date(c.timestamp).getTime() / 1000);
+            const by = c.moderator_id ? `<@${c.moderator_id}>` : 'Becas';
+            const reason = c.metadata?.reason || c.content || 'No reason';
+            return `${ACTION_EMOJI[type] || '•'} **${type}** <t:${when}:R> by ${by}\n   ${reason.substring(0, 100)}`;
+          })
+          .join('\n')
+          .substring(0, 1024),
+    });
+
+    await interaction.editReply({ embeds: [embed] });
+  } catch (error) {
+    logger.error('Error fetching cases:', error);
+    await interaction.editReply({ content: '❌ Could not fetch the case history. Please try again later.' });
+  }
+}
@@ -0,0 +1,93 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, EmbedBuilder, InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { SlashServices, matchChoices, reportResult, requirePermission, runTool } from './SlashCommand';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('PolicySlashCommand');
+
+const SEVERITY_EMOJI: Record<string, string> = { high: '🔴', medium: '🟡', low: '🟢' };
+
+export const data = new SlashCommandBuilder()
+  .setName('policy')
+  .setDescription('List or switch guild policies on and off')
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .setContexts(InteractionContextType.Guild)
+  .addSubcommand(sub => sub
+    .setName('list')
+    .setDescription('List guild policies, active and inactive'))
+  .addSubcommand(sub => sub
+    .setName('toggle')
+    .setDescription('Switch a policy on or off')
+    .addStringOption(option =>
+      option.setName('policy').setDescription('Policy to change').setRequired(true).setAutocomplete(true))
+    .addBooleanOption(option =>
+      option.setName('active').setDescription('Whether the policy is enforced').setRequired(true)));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.Administrator, 'Administrator'))) return;
+  if (!interaction.inCachedGuild()) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  const { policyEngine } = services;
+  if (!policyEngine) {
+    return interaction.editReply({ content: '❌ Policies are not available yet, try again in a moment.' });
+  }
+
+  try {
+    const policies = await policyEngine.getAllGuildPolicies(interaction.guildId);
+
+    if (interaction.options.getSubcommand() === 'list') {
+      if (policies.length === 0) {
+        return interaction.editReply({ content: '📋 No policies found for this server.' });
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle('📋 Guild Policies')
+        .setDescription(`${policies.filter(p => p.isActive).length} active, ${policies.filter(p => !p.isActive).length} inactive`)
+        .setColor(0x0099ff)
+        .setFooter({ text: 'LOCAL policies: they do not affect global trust scores' });
+
+      for (const policy of policies.slice(0, 20)) {
+        embed.addFields({
+          name: `${policy.isActive ? '✅' : '⏸️'} ${policy.ruleText}`.substring(0, 256),
+          value: `${SEVERITY_EMOJI[policy.severity] || '•'} ${policy.severity} → ${policy.actionType} | \`${policy.id.substring(0, 8)}\``,
+        });
+      }
+
+      return interaction.editReply({ embeds: [embed] });
+    }
+
+    const policyId = interaction.options.getString('policy', true);
+    const active = interaction.options.getBoolean('active', true);
+    const policy = policies.find(p => p.id === policyId || p.id.startsWith(policyId));
+
+    if (!policy) {
+      return interaction.editReply({ content: `❌ Policy not found: \`${policyId}\`` });
+    }
+
+    const result = await runTool(interaction, services, 'policy_management', {
+      action: 'update',
+      policyId: policy.id,
+      updateField: 'active',
+      updateValue: String(active),
+    });
+
+    // The enforcing engine caches active policies
+    if (result?.success) policyEngine.clearCache(interaction.guildId);
+
+    await reportResult(interaction, result, `${active ? '✅ Enabled' : '⏸️ Disabled'} policy: **${policy.ruleText}**`);
+  } catch (error) {
+    logger.error('Error handling /policy:', error);
+    await interaction.editReply({ content: '❌ An unexpected error occurred while managing policies.', components: [] });
+  }
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction, services: Partial<SlashServices>) {
+  const policies = services.policyEngine && interaction.guildId
+    ? await services.policyEngine.getAllGuildPolicies(interaction.guildId)
+    : [];
+
+  await interaction.respond(matchChoices(interaction, policies.map(p => ({
+    name: `${p.isActive ? '✅' : '⏸️'} ${p.ruleText}`,
+    value: p.id,
+  }))));
+}
@@ -0,0 +1,36 @@
+import { AutocompleteInteraction } from 'discord.js';
+import { SlashServices, matchChoices } from './SlashCommand';
+
+/**
+ * Reasons offered for /warn, /timeout and /ban. The guild's active policies
+ * are offered too, so punishments can cite the rule that was broken. Any
+ * other text can still be typed in.
+ */
+export const REASON_PRESETS = [
+  'Spam',
+  'Harassment',
+  'Hate speech',
+  'Scam or phishing link',
+  'NSFW content',
+  'Off-topic after warning',
+  'Advertising without permission',
+  'Impersonation',
+  'Raid participation',
+  'Ban evasion',
+];
+
+export async function autocompleteReason(
+  interaction: AutocompleteInteraction,
+  services: Partial<SlashServices>
+): Promise<void> {
+  const policies = services.policyEngine && interaction.guildId
+    ? await services.policyEngine.getGuildPolicies(interaction.guildId)
+    : [];
+
+  const choices = [
+    ...policies.map(p => `Guild policy: ${p.ruleText}`),
+    ...REASON_PRESETS,
+  ].map(reason => ({ name: reason, value: reason }));
+
+  await interaction.respond(matchChoices(interaction, choices));
+}
@@ -0,0 +1,57 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { SlashServices, reportResult, requirePermission, runTool } from './SlashCommand';
+import { autocompleteReason } from './reasonPresets';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('TimeoutSlashCommand');
+
+const DURATIONS = [
+  { name: '5 minutes', value: 5 },
+  { name: '10 minutes', value: 10 },
+  { name: '30 minutes', value: 30 },
+  { name: '1 hour', value: 60 },
+  { name: '6 hours', value: 6 * 60 },
+  { name: '12 hours', value: 12 * 60 },
+  { name: '1 day', value: 24 * 60 },
+  { name: '3 days', value: 3 * 24 * 60 },
+  { name: '1 week', value: 7 * 24 * 60 },
+];
+
+export const data = new SlashCommandBuilder()
+  .setName('timeout')
+  .setDescription('Time out a member')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+  .setContexts(InteractionContextType.Guild)
+  .addUserOption(option =>
+    option.setName('user').setDescription('Member to time out').setRequired(true))
+  .addIntegerOption(option =>
+    option.setName('duration').setDescription('How long').setRequired(true).addChoices(...DURATIONS))
+  .addStringOption(option =>
+    option.setName('reason').setDescription('Reason (pick a preset or policy, or type your own)').setRequired(true).setAutocomplete(true).setMaxLength(500));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.ModerateMembers, 'Moderate Members'))) return;
+  if (!interaction.inCachedGuild()) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  const user = interaction.options.getUser('user', true);
+  const minutes = interaction.options.getInteger('duration', true);
+  const reason = interaction.options.getString('reason', true);
+
+  try {
+    const result = await runTool(interaction, services, 'timeout', {
+      userId: user.id,
+      duration: minutes * 60 * 1000,
+      reason,
+    });
+    const label = DURATIONS.find(d => d.value === minutes)?.name || `${minutes} minutes`;
+    await reportResult(interaction, result, `⏰ Timed out ${user} for ${label} — ${reason}`);
+  } catch (error) {
+    logger.error('Error timing out member:', error);
+    await interaction.editReply({ content: '❌ An unexpected error occurred while timing out the member.', components: [] });
+  }
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction, services: Partial<SlashServices>) {
+  await autocompleteReason(interaction, services);
+}
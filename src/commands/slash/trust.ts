@@ -0,0 +1,66 @@
+import { ChatInputCommandInteraction, EmbedBuilder, InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { SicilRepository } from '../../database/repositories/SicilRepository';
+import { SlashServices, requirePermission } from './SlashCommand';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('TrustSlashCommand');
+
+const LEVEL_COLORS: Record<string, number> = {
+  exemplary: 0x2ecc71,
+  trusted: 0x3498db,
+  neutral: 0x95a5a6,
+  cautious: 0xf39c12,
+  dangerous: 0xe74c3c,
+};
+
+export const data = new SlashCommandBuilder()
+  .setName('trust')
+  .setDescription('Look up a member\'s trust score')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+  .setContexts(InteractionContextType.Guild)
+  .addUserOption(option =>
+    option.setName('user').setDescription('Member to look up').setRequired(true));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.ModerateMembers, 'Moderate Members'))) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  const user = interaction.options.getUser('user', true);
+
+  try {
+    if (!services.trustEngine) {
+      return interaction.editReply({ content: '❌ Trust scores are not available yet, try again in a moment.' });
+    }
+
+    const [trust, sicil] = await Promise.all([
+      services.trustEngine.getTrustScore(user.id, interaction.guildId!),
+      new SicilRepository().getSicilSummary(interaction.guildId!, user.id),
+    ]);
+
+    const embed = new EmbedBuilder()
+      .setTitle(`Trust: ${user.tag}`)
+      .setThumbnail(user.displayAvatarURL())
+      .setColor(LEVEL_COLORS[trust.level] ?? 0x95a5a6)
+      .addFields(
+        { name: 'Score', value: `${Math.round(trust.score)}`, inline: true },
+        { name: 'Level', value: trust.level, inline: true },
+        { name: 'Risk', value: sicil.risk_category, inline: true },
+      );
+
+    const recent = (trust.history || []).slice(-5).reverse();
+    if (recent.length > 0) {
+      embed.addFields({
+        name: 'Recent Changes',
+        value: recent
+          .map(e => `\`${e.delta > 0 ? '+' : ''}${e.delta}\` ${e.reason} (<t:${Math.floor(new Date(e.timestamp).getTime() / 1000)}:R>)`)
+          .join('\n')
+          .substring(0, 1024),
+      });
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+  } catch (error) {
+    logger.error('Error looking up trust:', error);
+    await interaction.editReply({ content: '❌ Could not look up the trust score. Please try again later.' });
+  }
+}
@@ -0,0 +1,50 @@
+import { AutocompleteInteraction, ChatInputCommandInteraction, InteractionContextType, PermissionFlagsBits, SlashCommandBuilder } from 'discord.js';
+import { SlashServices, reportResult, requirePermission, runTool } from './SlashCommand';
+import { autocompleteReason } from './reasonPresets';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('WarnSlashCommand');
+
+export const data = new SlashCommandBuilder()
+  .setName('warn')
+  .setDescription('Warn a member and record it in their sicil')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+  .setContexts(InteractionContextType.Guild)
+  .addUserOption(option =>
+    option.setName('user').setDescription('Member to warn').setRequired(true))
+  .addStringOption(option =>
+    option.setName('reason').setDescription('Reason (pick a preset or policy, or type your own)').setRequired(true).setAutocomplete(true).setMaxLength(500))
+  .addStringOption(option =>
+    option.setName('severity').setDescription('Severity (default medium)').addChoices(
+      { name: 'Low', value: 'low' },
+      { name: 'Medium', value: 'medium' },
+      { name: 'High', value: 'high' },
+    ))
+  .addBooleanOption(option =>
+    option.setName('dm').setDescription('DM the member about the warning (default yes)'));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.ModerateMembers, 'Moderate Members'))) return;
+  if (!interaction.inCachedGuild()) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  const user = interaction.options.getUser('user', true);
+  const reason = interaction.options.getString('reason', true);
+
+  try {
+    const result = await runTool(interaction, services, 'warn', {
+      userId: user.id,
+      reason,
+      severity: interaction.options.getString('severity') ?? 'medium',
+      dmUser: interaction.options.getBoolean('dm') ?? true,
+    });
+    await reportResult(interaction, result, `⚠️ Warned ${user} — ${reason}`);
+  } catch (error) {
+    logger.error('Error warning member:', error);
+    await interaction.editReply({ content: '❌ An unexpected error occurred while warning the member.', components: [] });
+  }
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction, services: Partial<SlashServices>) {
+  await autocompleteReason(interaction, services);
+}
@@ -0,0 +1,210 @@
+import {
+  AutocompleteInteraction,
+  ChannelType,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+} from 'discord.js';
+import { ConditionType, WatchCondition } from '../../systems/WatchSystem';
+import { SlashServices, audit, matchChoices, requirePermission } from './SlashCommand';
+import { createLogger } from '../../services/Logger';
+
+const logger = createLogger('WatchSlashCommand');
+
+const CONDITIONS: Array<{ name: string; value: ConditionType }> = [
+  { name: 'Toxicity', value: 'toxicity' },
+  { name: 'Spam', value: 'spam_detection' },
+  { name: 'FUD about the project', value: 'fud_detection' },
+  { name: 'Negative sentiment', value: 'negative_sentiment' },
+  { name: 'Declining sentiment', value: 'sentiment_trend' },
+  { name: 'Rapid-fire messages', value: 'message_velocity' },
+  { name: 'Trust drops below threshold', value: 'trust_drop' },
+  { name: 'Violations reach threshold', value: 'violation_count' },
+  { name: 'Keywords', value: 'custom_keyword' },
+];
+
+// Watches that kick or ban need the permission the action itself needs
+const ACTION_PERMISSIONS: Record<string, { permission: bigint; label: string }> = {
+  kick: { permission: PermissionFlagsBits.KickMembers, label: 'Kick Members' },
+  ban: { permission: PermissionFlagsBits.BanMembers, label: 'Ban Members' },
+};
+
+export const data = new SlashCommandBuilder()
+  .setName('watch')
+  .setDescription('Watch members and act automatically when they misbehave')
+  .setDefaultMemberPermissions(PermissionFlagsBits.ModerateMembers)
+  .setContexts(InteractionContextType.Guild)
+  .addSubcommand(sub => sub
+    .setName('create')
+    .setDescription('Watch a member')
+    .addUserOption(option =>
+      option.setName('user').setDescription('Member to watch').setRequired(true))
+    .addStringOption(option =>
+      option.setName('condition').setDescription('What to watch for').setRequired(true).addChoices(...CONDITIONS))
+    .addStringOption(option =>
+      option.setName('action').setDescription('What to do when it triggers (default timeout)').addChoices(
+        { name: 'Timeout', value: 'timeout' },
+        { name: 'Kick', value: 'kick' },
+        { name: 'Ban', value: 'ban' },
+      ))
+    .addIntegerOption(option =>
+      option.setName('hours').setDescription('How long to watch (default 24)').setMinValue(1).setMaxValue(24 * 30))
+    .addIntegerOption(option =>
+      option.setName('timeout_minutes').setDescription('Timeout length when the action is timeout (default 60)').setMinValue(1).setMaxValue(40320))
+    .addNumberOption(option =>
+      option.setName('threshold').setDescription('Threshold for trust drop, violation count or toxicity'))
+    .addStringOption(option =>
+      option.setName('keywords').setDescription('Comma-separated keywords for the keyword condition'))
+    .addChannelOption(option =>
+      option.setName('announce').setDescription('Channel to announce triggers in').addChannelTypes(ChannelType.GuildText)))
+  .addSubcommand(sub => sub
+    .setName('list')
+    .setDescription('List active watches'))
+  .addSubcommand(sub => sub
+    .setName('cancel')
+    .setDescription('Cancel a watch')
+    .addStringOption(option =>
+      option.setName('id').setDescription('Watch to cancel').setRequired(true).setAutocomplete(true)));
+
+export async function execute(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  if (!(await requirePermission(interaction, services, PermissionFlagsBits.ModerateMembers, 'Moderate Members'))) return;
+  await interaction.deferReply({ ephemeral: true });
+
+  const { watchSystem } = services;
+  if (!watchSystem) {
+    return interaction.editReply({ content: '❌ Watches are not available yet, try again in a moment.' });
+  }
+
+  try {
+    switch (interaction.options.getSubcommand()) {
+      case 'create':
+        return await createWatch(interaction, services);
+      case 'list':
+        return await listWatches(interaction, services);
+      case 'cancel':
+        return await cancelWatch(interaction, services);
+    }
+  } catch (error) {
+    logger.error('Error handling /watch:', error);
+    await interaction.editReply({ content: '❌ An unexpected error occurred while managing watches.' });
+  }
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction, services: Partial<SlashServices>) {
+  const watches = services.watchSystem && interaction.guildId
+    ? services.watchSystem.getActiveWatches(interaction.guildId)
+    : [];
+
+  await interaction.respond(matchChoices(interaction, watches.map(w => ({
+    name: `${w.conditions.map(c => c.type).join(', ')} on ${w.userIds.length || 'filtered'} user(s), expires ${w.expiresAt.toISOString().slice(0, 16).replace('T', ' ')}`,
+    value: w.id,
+  }))));
+}
+
+async function createWatch(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  const user = interaction.options.getUser('user', true);
+  const type = interaction.options.getString('condition', true) as ConditionType;
+  const actionId = interaction.options.getString('action') ?? 'timeout';
+  const required = ACTION_PERMISSIONS[actionId];
+  if (required && !(await requirePermission(interaction, services, required.permission, required.label))) return;
+
+  const hours = interaction.options.getInteger('hours') ?? 24;
+  const threshold = interaction.options.getNumber('threshold') ?? undefined;
+  const keywords = (interaction.options.getString('keywords') || '')
+    .split(',')
+    .map(k => k.trim())
+    .filter(k => k.length > 0);
+
+  if (type === 'custom_keyword' && keywords.length === 0) {
+    return interaction.editReply({ content: '❌ The keyword condition needs `keywords`.' });
+  }
+
+  const condition: WatchCondition = {
+    type,
+    threshold,
+    keywords: keywords.length > 0 ? keywords : undefined,
+    description: CONDITIONS.find(c => c.value === type)!.name,
+  };
+
+  const reason = `Watch: ${condition.description}`;
+  const parameters: Record<string, any> = { user: user.id, reason };
+  if (actionId === 'timeout') {
+    parameters.duration_minutes = interaction.options.getInteger('timeout_minutes') ?? 60;
+  }
+
+  const watchId = await services.watchSystem!.createWatch({
+    guildId: interaction.guildId!,
+    createdBy: interaction.user.id,
+    expiresAt: new Date(Date.now() + hours * 60 * 60 * 1000),
+    userIds: [user.id],
+    conditions: [condition],
+    actions: [{ action_id: actionId, parameters }],
+    announceChannel: interaction.options.getChannel('announce')?.id,
+  });
+
+  await audit(interaction, services, {
+    type: 'command_executed',
+    action: '/watch create',
+    targetId: user.id,
+    details: { watchId, condition, action: actionId, hours },
+    success: true,
+  });
+
+  await interaction.editReply({
+    content: `👁️ Watching ${user} for **${condition.description}** for ${hours}h → ${actionId}\n🆔 Watch ID: \`${watchId}\``,
+  });
+}
+
+async function listWatches(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  const watches = services.watchSystem!.getActiveWatches(interaction.guildId!);
+
+  if (watches.length === 0) {
+    return interaction.editReply({ content: '📭 No active watches.' });
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle('👁️ Active Watches')
+    .setDescription(`${watches.length} active watch(es)`)
+    .setColor(0x0099ff);
+
+  for (const watch of watches.slice(0, 10)) {
+    const users = watch.userIds.length > 0 ? watch.userIds.map(id => `<@${id}>`).join(', ') : 'filtered members';
+    embed.addFields({
+      name: `\`${watch.id}\``,
+      value: [
+        `Users: ${users}`.substring(0, 300),
+        `Watching for: ${watch.conditions.map(c => c.description || c.type).join(', ')}`,
+        `Action: ${watch.actions.map(a => a.action_id).join(', ') || 'announce only'} | Triggers: ${watch.triggerCount}`,
+        `Expires <t:${Math.floor(watch.expiresAt.getTime() / 1000)}:R> | By <@${watch.createdBy}>`,
+      ].join('\n'),
+    });
+  }
+
+  if (watches.length > 10) {
+    embed.setFooter({ text: `Showing 10 of ${watches.length} watches` });
+  }
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function cancelWatch(interaction: ChatInputCommandInteraction, services: Partial<SlashServices>) {
+  const watchId = interaction.options.getString('id', true);
+  const watch = services.watchSystem!.getActiveWatches(interaction.guildId!).find(w => w.id === watchId);
+
+  // Only this guild's watches can be cancelled from here
+  const cancelled = !!watch && services.watchSystem!.cancelWatch(watchId);
+
+  await audit(interaction, services, {
+    type: 'command_executed',
+    action: '/watch cancel',
+    details: { watchId },
+    success: cancelled,
+    error: cancelled ? undefined : 'Watch not found',
+  });
+
+  await interaction.editReply({
+    content: cancelled ? `✅ Cancelled watch \`${watchId}\`` : `❌ No active watch with ID \`${watchId}\``,
+  });
+}
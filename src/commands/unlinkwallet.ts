@@ -0,0 +1,38 @@
+import { ChatInputCommandInteraction, SlashCommandBuilder } from 'discord.js';
+import { walletLinkService, WalletLinkError } from '../services/WalletLinkService';
+
+export const data = new SlashCommandBuilder()
+  .setName('unlinkwallet')
+  .setDescription('Remove the Ethereum wallet linked to your Discord account');
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  await interaction.deferReply({ ephemeral: true });
+
+  try {
+    const result = await walletLinkService.unlink(interaction.user.id);
+
+    if (!result) {
+      return interaction.editReply({ content: 'ℹ️ You don\'t have a linked wallet.' });
+    }
+
+    let message = `✅ **Wallet Unlinked**\n\n`;
+    message += `💳 Wallet: \`${result.address}\`\n`;
+
+    if (result.txHash) {
+      message += `\n⛓️ **Blockchain Confirmation:**\n`;
+      message += `Transaction: [View on BaseScan](https://sepolia.basescan.org/tx/${result.txHash})\n`;
+    }
+
+    await interaction.editReply({ content: message });
+
+  } catch (error) {
+    if (error instanceof WalletLinkError) {
+      return interaction.editReply({ content: `❌ ${error.message}` });
+    }
+
+    console.error('Error unlinking wallet:', error);
+    await interaction.editReply({
+      content: '❌ An unexpected error occurred while unlinking your wallet. Please try again later.'
+    });
+  }
+}
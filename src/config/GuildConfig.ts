@@ -53,7 +53,7 @@ export interface GuildConfiguration {
 }
 
 // Default configuration
-const DEFAULT_CONFIG: Omit<GuildConfiguration, 'guildId' | 'guildName'> = {
+export const DEFAULT_CONFIG: Omit<GuildConfiguration, 'guildId' | 'guildName'> = {
   features: {
     scamDetection: true,
     emotionalSupport: true,
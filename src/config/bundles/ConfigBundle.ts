@@ -0,0 +1,449 @@
+import crypto from 'crypto';
+import yaml from 'js-yaml';
+import { AlertPreferences, AlertSeverity, AlertType, validateAlertPreferences } from '../../analytics/AlertSystem';
+import { BDLBehavior, BehaviorParser } from '../../services/BehaviorParser';
+import { canonicalize } from '../../utils/canonicalJson';
+import { DEFAULT_CONFIG, GuildConfiguration } from '../GuildConfig';
+
+/**
+ * CONFIG BUNDLE - One declarative document for a guild's setup
+ *
+ * A bundle (YAML or JSON) covers the guild configuration, guild policies,
+ * BDL behaviors and alert routing. Each section it contains replaces that
+ * part of the guild's setup; sections it leaves out are not touched.
+ * Policies are matched by rule text and behaviors by name, so re-applying a
+ * bundle updates them in place.
+ */
+
+export const BUNDLE_FORMAT_VERSION = 1;
+
+export const CONFIG_SECTIONS = ['features', 'performance', 'moderation', 'ai'] as const;
+export type ConfigSection = typeof CONFIG_SECTIONS[number];
+
+export const BUNDLE_SECTIONS = ['config', 'policies', 'behaviors', 'alerts'] as const;
+export type BundleSection = typeof BUNDLE_SECTIONS[number];
+
+export type BundleConfig = { [S in ConfigSection]?: Partial<GuildConfiguration[S]> };
+
+export interface BundlePolicy {
+  rule: string;
+  interpretation?: string;
+  category?: string;
+  action: 'warn' | 'timeout' | 'ban';
+  duration?: number; // seconds (timeout)
+  reason?: string;
+  severity: 'low' | 'medium' | 'high';
+  channelId?: string;
+}
+
+export type BundleBehavior = Omit<BDLBehavior, 'id' | 'enabled' | 'safety'> & {
+  enabled?: boolean; // Default true
+  safety?: BDLBehavior['safety']; // Default: the parser's safety defaults
+};
+
+export type BundleAlerts = Partial<Omit<AlertPreferences, 'serverId'>>;
+
+export interface ConfigBundle {
+  version: number;
+  name?: string;
+  description?: string;
+  config?: BundleConfig;
+  policies?: BundlePolicy[];
+  behaviors?: BundleBehavior[];
+  alerts?: BundleAlerts;
+}
+
+export interface BundleIssue {
+  path: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface BundleChange {
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+export type BundleFormat = 'json' | 'yaml';
+
+const POLICY_ACTIONS = ['warn', 'timeout', 'ban'];
+const POLICY_SEVERITIES = ['low', 'medium', 'high'];
+const ALERT_SEVERITIES: AlertSeverity[] = ['low', 'medium', 'high', 'critical'];
+const ALERT_TYPES: AlertType[] = ['anomaly', 'conflict', 'health', 'behavior', 'trend'];
+const AI_SENSITIVITIES = ['low', 'medium', 'high'];
+const POLICY_KEYS = ['rule', 'interpretation', 'category', 'action', 'duration', 'reason', 'severity', 'channelId'];
+const BEHAVIOR_KEYS = ['name', 'description', 'enabled', 'trigger', 'tracking', 'analysis', 'actions', 'safety'];
+const ALERT_KEYS = [
+  'alertChannel', 'alertRoles', 'minSeverity', 'enabledTypes', 'quietHours',
+  'sinks', 'dedupWindowMinutes', 'groupWindowMinutes', 'escalation',
+];
+
+// Lists diffed item by item, keyed by this field
+const KEYED_LISTS: Record<string, string> = { policies: 'rule', behaviors: 'name', 'alerts.sinks': 'name' };
+
+let parser: BehaviorParser | null = null;
+
+/**
+ * JSON Schema of the bundle format (for editors and CI; validateBundle also checks what a schema cannot)
+ */
+export function bundleSchema(): any {
+  const configSection = (section: ConfigSection) => {
+    const properties: Record<string, any> = {};
+    for (const [key, value] of Object.entries(DEFAULT_CONFIG[section])) {
+      properties[key] = key === 'sensitivity' ? { enum: AI_SENSITIVITIES } : { type: typeof value, default: value };
+    }
+    return { type: 'object', additionalProperties: false, properties };
+  };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'Becas guild config bundle',
+    type: 'object',
+    required: ['version'],
+    additionalProperties: false,
+    properties: {
+      version: { const: BUNDLE_FORMAT_VERSION },
+      name: { type: 'string' },
+      description: { type: 'string' },
+      config: {
+        type: 'object',
+        additionalProperties: false,
+        properties: Object.fromEntries(CONFIG_SECTIONS.map(section => [section, configSection(section)])),
+      },
+      policies: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['rule', 'action', 'severity'],
+          additionalProperties: false,
+          properties: {
+            rule: { type: 'string', minLength: 1 },
+            interpretation: { type: 'string' },
+            category: { type: 'string' },
+            action: { enum: POLICY_ACTIONS },
+            duration: { type: 'number', exclusiveMinimum: 0 },
+            reason: { type: 'string' },
+            severity: { enum: POLICY_SEVERITIES },
+            channelId: { type: 'string' },
+          },
+        },
+      },
+      behaviors: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['name', 'trigger', 'actions'],
+          additionalProperties: false,
+          properties: {
+            name: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+            enabled: { type: 'boolean', default: true },
+            trigger: {
+              type: 'object',
+              required: ['type'],
+              properties: { type: { enum: ['event', 'schedule', 'condition', 'pattern'] } },
+            },
+            tracking: { type: 'object' },
+            analysis: { type: 'object' },
+            actions: { type: 'array', minItems: 1, items: { type: 'object', required: ['type'] } },
+            safety: { type: 'object' },
+          },
+        },
+      },
+      alerts: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          alertChannel: { type: 'string' },
+          alertRoles: { type: 'array', items: { type: 'string' } },
+          minSeverity: { enum: ALERT_SEVERITIES },
+          enabledTypes: { type: 'array', items: { enum: ALERT_TYPES } },
+          quietHours: {
+            type: 'object',
+            required: ['start', 'end'],
+            properties: {
+              start: { type: 'integer', minimum: 0, maximum: 23 },
+              end: { type: 'integer', minimum: 0, maximum: 23 },
+            },
+          },
+          sinks: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['name', 'type'],
+              properties: { name: { type: 'string' }, type: { enum: ['webhook', 'slack', 'email'] } },
+            },
+          },
+          dedupWindowMinutes: { type: 'number', exclusiveMinimum: 0 },
+          groupWindowMinutes: { type: 'number', exclusiveMinimum: 0 },
+          escalation: {
+            type: 'object',
+            required: ['afterMinutes', 'sink'],
+            properties: {
+              afterMinutes: { type: 'number', exclusiveMinimum: 0 },
+              sink: { type: 'string' },
+              minSeverity: { enum: ALERT_SEVERITIES },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Parse a bundle from YAML or JSON text (an already parsed object is returned as is)
+ */
+export function parseBundle(input: any): any {
+  if (typeof input !== 'string') return input;
+
+  const text = input.trim();
+  if (text.startsWith('{')) {
+    try {
+      return JSON.parse(text);
+    } catch (error: any) {
+      throw new Error(`Invalid JSON: ${error.message}`);
+    }
+  }
+
+  try {
+    return yaml.load(text);
+  } catch (error: any) {
+    throw new Error(`Invalid YAML: ${error.message}`);
+  }
+}
+
+export function serializeBundle(bundle: ConfigBundle, format: BundleFormat): string {
+  return format === 'yaml'
+    ? yaml.dump(bundle, { noRefs: true, lineWidth: 120 })
+    : JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Check a parsed bundle. Only errors block an apply; warnings flag values
+ * that only make sense in one guild when a bundle goes to several.
+ */
+export function validateBundle(bundle: any, options: { multiGuild?: boolean } = {}): BundleIssue[] {
+  const issues: BundleIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ path, severity: 'error', message });
+  const warn = (path: string, message: string) => issues.push({ path, severity: 'warning', message });
+
+  if (!isObject(bundle)) {
+    error('', 'Bundle must be an object');
+    return issues;
+  }
+
+  if (bundle.version !== BUNDLE_FORMAT_VERSION) {
+    error('version', `Unsupported bundle version ${bundle.version} (expected ${BUNDLE_FORMAT_VERSION})`);
+  }
+  for (const key of Object.keys(bundle)) {
+    if (!['version', 'name', 'description', ...BUNDLE_SECTIONS].includes(key)) error(key, 'Unknown section');
+  }
+
+  if (bundle.config !== undefined) {
+    validateConfig(bundle.config, error);
+  }
+
+  if (bundle.policies !== undefined) {
+    if (!Array.isArray(bundle.policies)) {
+      error('policies', 'Must be a list');
+    } else {
+      const rules = new Set<string>();
+      bundle.policies.forEach((policy: any, i: number) => {
+        const path = `policies[${i}]`;
+        if (!isObject(policy)) return error(path, 'Must be an object');
+        unknownKeys(policy, POLICY_KEYS, path, error);
+
+        if (typeof policy.rule !== 'string' || !policy.rule.trim()) error(`${path}.rule`, 'Rule text required');
+        else if (rules.has(policy.rule)) error(`${path}.rule`, `Duplicate rule "${policy.rule}"`);
+        else rules.add(policy.rule);
+
+        if (!POLICY_ACTIONS.includes(policy.action)) error(`${path}.action`, `Must be one of ${POLICY_ACTIONS.join(', ')}`);
+        if (!POLICY_SEVERITIES.includes(policy.severity)) error(`${path}.severity`, `Must be one of ${POLICY_SEVERITIES.join(', ')}`);
+        if (policy.duration !== undefined && !(typeof policy.duration === 'number' && policy.duration > 0)) {
+          error(`${path}.duration`, 'Must be a positive number of seconds');
+        }
+        for (const key of ['interpretation', 'category', 'reason', 'channelId']) {
+          if (policy[key] !== undefined && typeof policy[key] !== 'string') error(`${path}.${key}`, 'Must be a string');
+        }
+        if (options.multiGuild && policy.channelId) warn(`${path}.channelId`, 'Channel IDs belong to one guild');
+      });
+    }
+  }
+
+  if (bundle.behaviors !== undefined) {
+    if (!Array.isArray(bundle.behaviors)) {
+      error('behaviors', 'Must be a list');
+    } else {
+      const names = new Set<string>();
+      bundle.behaviors.forEach((behavior: any, i: number) => {
+        const path = `behaviors[${i}]`;
+        if (!isObject(behavior)) return error(path, 'Must be an object');
+        unknownKeys(behavior, BEHAVIOR_KEYS, path, error);
+
+        try {
+          getParser().validateBDL(behavior);
+        } catch (bdlError: any) {
+          error(path, bdlError.message);
+        }
+        if (typeof behavior.name === 'string') {
+          if (names.has(behavior.name)) error(`${path}.name`, `Duplicate behavior "${behavior.name}"`);
+          names.add(behavior.name);
+        }
+        if (behavior.enabled !== undefined && typeof behavior.enabled !== 'boolean') error(`${path}.enabled`, 'Must be true or false');
+      });
+    }
+  }
+
+  if (bundle.alerts !== undefined) {
+    validateAlerts(bundle.alerts, error);
+    if (options.multiGuild && isObject(bundle.alerts)) {
+      if (bundle.alerts.alertChannel) warn('alerts.alertChannel', 'Channel IDs belong to one guild');
+      if (bundle.alerts.alertRoles?.length) warn('alerts.alertRoles', 'Role IDs belong to one guild');
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Changes between two bundles' sections (policies, behaviors and sinks are compared by rule or name)
+ */
+export function diffBundles(before: ConfigBundle, after: ConfigBundle): BundleChange[] {
+  const changes: BundleChange[] = [];
+  for (const section of BUNDLE_SECTIONS) {
+    diffValue(section, before[section], after[section], changes);
+  }
+  return changes;
+}
+
+/**
+ * Full guild configuration a bundle's config section describes (omitted settings take their defaults)
+ */
+export function resolveConfig(config: BundleConfig): Pick<GuildConfiguration, ConfigSection> {
+  return {
+    features: { ...DEFAULT_CONFIG.features, ...config.features },
+    performance: { ...DEFAULT_CONFIG.performance, ...config.performance },
+    moderation: { ...DEFAULT_CONFIG.moderation, ...config.moderation },
+    ai: { ...DEFAULT_CONFIG.ai, ...config.ai },
+  };
+}
+
+/**
+ * Behavior as stored, with the defaults filled in
+ */
+export function resolveBehavior(behavior: BundleBehavior): BDLBehavior {
+  return {
+    name: behavior.name,
+    description: behavior.description || '',
+    enabled: behavior.enabled !== false,
+    trigger: behavior.trigger,
+    tracking: behavior.tracking,
+    analysis: behavior.analysis,
+    actions: behavior.actions,
+    safety: behavior.safety || getParser().getDefaultSafety(),
+  };
+}
+
+export function bundleHash(bundle: ConfigBundle): string {
+  return crypto.createHash('sha256').update(canonicalize(bundle)).digest('hex');
+}
+
+function validateConfig(config: any, error: (path: string, message: string) => void): void {
+  if (!isObject(config)) return error('config', 'Must be an object');
+
+  for (const [section, values] of Object.entries<any>(config)) {
+    const path = `config.${section}`;
+    if (!(CONFIG_SECTIONS as readonly string[]).includes(section)) {
+      error(path, 'Unknown config section');
+      continue;
+    }
+    if (!isObject(values)) {
+      error(path, 'Must be an object');
+      continue;
+    }
+
+    const defaults: Record<string, any> = DEFAULT_CONFIG[section as ConfigSection];
+    for (const [key, value] of Object.entries(values)) {
+      if (!(key in defaults)) error(`${path}.${key}`, 'Unknown setting');
+      else if (key === 'sensitivity' && !AI_SENSITIVITIES.includes(value as string)) error(`${path}.${key}`, `Must be one of ${AI_SENSITIVITIES.join(', ')}`);
+      else if (typeof value !== typeof defaults[key]) error(`${path}.${key}`, `Must be a ${typeof defaults[key]}`);
+    }
+  }
+}
+
+function validateAlerts(alerts: any, error: (path: string, message: string) => void): void {
+  if (!isObject(alerts)) return error('alerts', 'Must be an object');
+  unknownKeys(alerts, ALERT_KEYS, 'alerts', error);
+
+  if (alerts.minSeverity !== undefined && !ALERT_SEVERITIES.includes(alerts.minSeverity)) {
+    error('alerts.minSeverity', `Must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+  if (alerts.enabledTypes !== undefined &&
+      !(Array.isArray(alerts.enabledTypes) && alerts.enabledTypes.every((type: any) => ALERT_TYPES.includes(type)))) {
+    error('alerts.enabledTypes', `Must be a list of ${ALERT_TYPES.join(', ')}`);
+  }
+  if (alerts.alertRoles !== undefined && !(Array.isArray(alerts.alertRoles) && alerts.alertRoles.every((r: any) => typeof r === 'string'))) {
+    error('alerts.alertRoles', 'Must be a list of role IDs');
+  }
+  if (alerts.quietHours !== undefined) {
+    const { start, end } = alerts.quietHours || {};
+    if (![start, end].every(hour => Number.isInteger(hour) && hour >= 0 && hour <= 23)) {
+      error('alerts.quietHours', 'start and end must be hours 0-23');
+    }
+  }
+  if (alerts.sinks !== undefined && !Array.isArray(alerts.sinks)) {
+    return error('alerts.sinks', 'Must be a list');
+  }
+
+  const problem = validateAlertPreferences({ serverId: '', minSeverity: 'medium', enabledTypes: [], ...alerts });
+  if (problem) error('alerts', problem);
+}
+
+function diffValue(path: string, before: any, after: any, changes: BundleChange[]): void {
+  if (canonicalize(before ?? null) === canonicalize(after ?? null)) return;
+  if (before === undefined) {
+    changes.push({ path, change: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, change: 'removed', before });
+    return;
+  }
+
+  const key = KEYED_LISTS[path];
+  if (key && Array.isArray(before) && Array.isArray(after)) {
+    const was = new Map(before.map(item => [item?.[key], item]));
+    const now = new Map(after.map(item => [item?.[key], item]));
+    for (const id of new Set([...was.keys(), ...now.keys()])) {
+      diffValue(`${path}[${JSON.stringify(id)}]`, was.get(id), now.get(id), changes);
+    }
+    return;
+  }
+
+  if (isObject(before) && isObject(after)) {
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      diffValue(`${path}.${field}`, before[field], after[field], changes);
+    }
+    return;
+  }
+
+  changes.push({ path, change: 'changed', before, after });
+}
+
+function unknownKeys(value: any, allowed: string[], path: string, error: (path: string, message: string) => void): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) error(`${path}.${key}`, 'Unknown field');
+  }
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function getParser(): BehaviorParser {
+  if (!parser) parser = new BehaviorParser(); // Only its validation and defaults are used
+  return parser;
+}
@@ -0,0 +1,496 @@
+import { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { AlertSystem, defaultAlertPreferences } from '../../analytics/AlertSystem';
+import type { BehaviorEngine } from '../../core/BehaviorEngine';
+import { getPostgresPool } from '../../database/config';
+import type { GuildPolicyEngineDB } from '../../intelligence/GuildPolicyEngineDB';
+import { createLogger } from '../../services/Logger';
+import { GuildConfigManager } from '../GuildConfig';
+import {
+  BUNDLE_FORMAT_VERSION,
+  BundleAlerts,
+  BundleBehavior,
+  BundleChange,
+  BundleIssue,
+  BundlePolicy,
+  CONFIG_SECTIONS,
+  ConfigBundle,
+  diffBundles,
+  parseBundle,
+  resolveBehavior,
+  resolveConfig,
+  validateBundle,
+} from './ConfigBundle';
+import { BundleVersionSource, ConfigBundleStore, configBundleStore } from './ConfigBundleStore';
+
+const logger = createLogger('ConfigBundleService');
+
+/**
+ * CONFIG BUNDLE SERVICE - Export, validate, apply and roll back guild bundles
+ *
+ * Policies, behaviors, alert routing and the new version are written in one
+ * transaction. The guild configuration is applied just before it commits and
+ * put back if the commit fails, so a version never records a config the
+ * guild does not have. Live
+ * components attached with attach() are refreshed after each apply, the rest
+ * pick the changes up on their next load.
+ */
+
+export interface ConfigBundleRuntime {
+  configManager: GuildConfigManager;
+  policyEngine: GuildPolicyEngineDB;
+  behaviorEngine: BehaviorEngine;
+  alertSystem: AlertSystem;
+}
+
+export type BundleApplyStatus = 'applied' | 'unchanged' | 'dry_run' | 'invalid' | 'failed';
+
+export interface BundleApplyResult {
+  guildId: string;
+  status: BundleApplyStatus;
+  version: number | null; // Version created (applied), else the guild's latest
+  issues: BundleIssue[];
+  changes: BundleChange[];
+  error?: string; // failed
+}
+
+export interface BundleBatchResult {
+  batchId: string;
+  dryRun: boolean;
+  issues: BundleIssue[];
+  results: BundleApplyResult[]; // Empty when the bundle is invalid
+}
+
+interface ApplyOptions {
+  appliedBy: string;
+  note?: string;
+  dryRun?: boolean;
+  batchId?: string;
+}
+
+export class ConfigBundleService {
+  private runtime: Partial<ConfigBundleRuntime> = {};
+
+  constructor(
+    private store: ConfigBundleStore = configBundleStore,
+    private db?: Pool
+  ) {}
+
+  /**
+   * Connect the live components bundles change (the config manager is required for config sections)
+   */
+  attach(runtime: Partial<ConfigBundleRuntime>): void {
+    Object.assign(this.runtime, runtime);
+  }
+
+  /**
+   * The guild's current setup as a bundle
+   */
+  async exportBundle(guildId: string): Promise<ConfigBundle> {
+    const bundle: ConfigBundle = { version: BUNDLE_FORMAT_VERSION };
+
+    if (this.runtime.configManager) {
+      const config = this.runtime.configManager.getConfig(guildId);
+      bundle.config = Object.fromEntries(CONFIG_SECTIONS.map(section => [section, { ...config[section] }]));
+    }
+
+    const policies = await this.pool.query(
+      `
+      SELECT rule_text, ai_interpretation, category, action_type, action_params, severity, source_channel_id
+      FROM guild_policies
+      WHERE guild_id = $1 AND is_active = true
+      ORDER BY created_at
+      `,
+      [guildId]
+    );
+    bundle.policies = policies.rows.map(row => toBundlePolicy({
+      rule: row.rule_text,
+      interpretation: row.ai_interpretation,
+      category: row.category,
+      action: row.action_type,
+      duration: row.action_params?.duration,
+      reason: row.action_params?.reason,
+      severity: row.severity,
+      channelId: row.source_channel_id,
+    }));
+
+    const behaviors = await this.pool.query(
+      `
+      SELECT name, description, enabled, trigger, tracking, analysis, actions, safety
+      FROM dynamic_behaviors
+      WHERE server_id = $1
+      ORDER BY created_at
+      `,
+      [guildId]
+    );
+    bundle.behaviors = behaviors.rows.map(row => toBundleBehavior(row));
+
+    const alerts = await this.pool.query('SELECT preferences FROM alert_preferences WHERE server_id = $1', [guildId]);
+    bundle.alerts = toBundleAlerts(guildId, alerts.rows[0]?.preferences);
+
+    return bundle;
+  }
+
+  /**
+   * Check a parsed bundle against the format and what this process can apply
+   */
+  validate(bundle: any, options: { multiGuild?: boolean } = {}): BundleIssue[] {
+    const issues = validateBundle(bundle, options);
+    if (bundle?.config !== undefined && !this.runtime.configManager) {
+      issues.push({ path: 'config', severity: 'error', message: 'Guild configuration is not available in this process' });
+    }
+    return issues;
+  }
+
+  /**
+   * Apply a bundle (YAML/JSON text or parsed) to one guild; a dry run only reports the changes
+   */
+  async apply(guildId: string, input: any, options: ApplyOptions): Promise<BundleApplyResult> {
+    const bundle = parseBundle(input);
+    const issues = this.validate(bundle);
+    if (issues.some(issue => issue.severity === 'error')) {
+      return { guildId, status: 'invalid', version: null, issues, changes: [] };
+    }
+    return this.applyValid(guildId, bundle, 'apply', issues, options);
+  }
+
+  /**
+   * Apply one bundle to several guilds, one after another; a failure in one guild does not stop the rest
+   */
+  async applyToGuilds(guildIds: string[], input: any, options: Omit<ApplyOptions, 'batchId'>): Promise<BundleBatchResult> {
+    const batchId = uuidv4();
+    const bundle = parseBundle(input);
+    const issues = this.validate(bundle, { multiGuild: guildIds.length > 1 });
+    const dryRun = options.dryRun === true;
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      return { batchId, dryRun, issues, results: [] };
+    }
+
+    const results: BundleApplyResult[] = [];
+    for (const guildId of guildIds) {
+      try {
+        results.push(await this.applyValid(guildId, bundle, 'apply', [], { ...options, batchId }));
+      } catch (error: any) {
+        logger.error(`Config bundle batch ${batchId} failed for guild ${guildId}`, error);
+        results.push({ guildId, status: 'failed', version: null, issues: [], changes: [], error: error?.message || String(error) });
+      }
+    }
+
+    logger.info(`Config bundle batch ${batchId}${dryRun ? ' (dry run)' : ''}: ${results.filter(r => r.status === 'applied').length}/${guildIds.length} guild(s) changed`);
+    return { batchId, dryRun, issues, results };
+  }
+
+  /**
+   * Restore an earlier version (default: the one before the latest). Null if there is no such version.
+   */
+  async rollback(guildId: string, options: ApplyOptions & { version?: number }): Promise<BundleApplyResult | null> {
+    const latest = await this.store.getLatest(guildId);
+    if (!latest) return null;
+
+    const target = await this.store.getVersion(guildId, options.version ?? latest.version - 1);
+    if (!target) return null;
+
+    const issues = this.validate(target.bundle);
+    if (issues.some(issue => issue.severity === 'error')) {
+      return { guildId, status: 'invalid', version: null, issues, changes: [] };
+    }
+
+    return this.applyValid(guildId, target.bundle, 'rollback', issues, {
+      ...options,
+      note: options.note || `Rollback to version ${target.version}`,
+    }, target.version);
+  }
+
+  /**
+   * Changes from one version to another ('current' is the live setup). Null if a version does not exist.
+   */
+  async diff(guildId: string, from: number | 'current', to: number | 'current'): Promise<BundleChange[] | null> {
+    const [before, after] = await Promise.all([this.load(guildId, from), this.load(guildId, to)]);
+    if (!before || !after) return null;
+    return diffBundles(before, after);
+  }
+
+  private async applyValid(
+    guildId: string,
+    bundle: ConfigBundle,
+    source: BundleVersionSource,
+    issues: BundleIssue[],
+    options: ApplyOptions,
+    restoredVersion?: number
+  ): Promise<BundleApplyResult> {
+    const current = await this.exportBundle(guildId);
+    const target = this.resolve(bundle, current);
+    const changes = diffBundles(current, target);
+
+    if (options.dryRun) {
+      return { guildId, status: 'dry_run', version: null, issues, changes };
+    }
+    if (changes.length === 0) {
+      const latest = await this.store.getLatest(guildId);
+      return { guildId, status: 'unchanged', version: latest?.version ?? null, issues, changes };
+    }
+
+    const client = await this.pool.connect();
+    let version: number;
+    let configApplied = false;
+    try {
+      await client.query('BEGIN');
+
+      // Keep what the guild has now if no version records it yet
+      const latest = await this.store.getLatest(guildId, client);
+      if (!latest || diffBundles(latest.bundle, current).length > 0) {
+        await this.store.addVersion({
+          guildId,
+          source: 'snapshot',
+          bundle: current,
+          note: latest ? 'Changed outside config bundles' : 'Before the first bundle',
+          createdBy: options.appliedBy,
+        }, client);
+      }
+
+      if (bundle.policies) await this.writePolicies(client, guildId, target.policies!, options.appliedBy);
+      if (bundle.behaviors) await this.writeBehaviors(client, guildId, target.behaviors!, options.appliedBy);
+      if (bundle.alerts) {
+        await client.query(
+          `INSERT INTO alert_preferences (server_id, preferences, updated_at)
+           VALUES ($1, $2, NOW())
+           ON CONFLICT (server_id) DO UPDATE SET preferences = $2, updated_at = NOW()`,
+          [guildId, JSON.stringify({ ...target.alerts, serverId: guildId })]
+        );
+      }
+
+      const record = await this.store.addVersion({
+        guildId,
+        source,
+        bundleName: bundle.name,
+        bundle: target,
+        batchId: options.batchId,
+        restoredVersion,
+        note: options.note,
+        createdBy: options.appliedBy,
+      }, client);
+      version = record.version;
+
+      if (bundle.config) {
+        await this.runtime.configManager!.updateConfig(guildId, resolveConfig(bundle.config));
+        configApplied = true;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      if (configApplied) await this.restoreConfig(guildId, current);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await this.refresh(guildId, bundle);
+
+    logger.info(`Config bundle ${source} for guild ${guildId}: version ${version}, ${changes.length} change(s)`);
+    return { guildId, status: 'applied', version, issues, changes };
+  }
+
+  /**
+   * The guild's setup once the bundle is applied: its sections replace the current ones
+   */
+  private resolve(bundle: ConfigBundle, current: ConfigBundle): ConfigBundle {
+    return {
+      version: BUNDLE_FORMAT_VERSION,
+      config: bundle.config ? resolveConfig(bundle.config) : current.config,
+      policies: bundle.policies ? bundle.policies.map(toBundlePolicy) : current.policies,
+      behaviors: bundle.behaviors ? bundle.behaviors.map(b => toBundleBehavior(resolveBehavior(b))) : current.behaviors,
+      alerts: bundle.alerts ? toBundleAlerts('', bundle.alerts) : current.alerts,
+    };
+  }
+
+  /**
+   * Policies are matched by rule text; active policies missing from the bundle are deactivated
+   */
+  private async writePolicies(client: PoolClient, guildId: string, policies: BundlePolicy[], appliedBy: string): Promise<void> {
+    const existing = await client.query(
+      'SELECT id, rule_text FROM guild_policies WHERE guild_id = $1 AND is_active = true ORDER BY created_at',
+      [guildId]
+    );
+    const { byKey, stale } = indexBy(existing.rows, 'rule_text');
+
+    for (const policy of policies) {
+      const params = [
+        policy.interpretation,
+        policy.category || null,
+        policy.action,
+        JSON.stringify(compact({ duration: policy.duration, reason: policy.reason })),
+        policy.severity,
+        policy.channelId || null,
+      ];
+      const id = byKey.get(policy.rule);
+
+      if (id) {
+        byKey.delete(policy.rule);
+        await client.query(
+          `
+          UPDATE guild_policies
+          SET ai_interpretation = $2, category = $3, action_type = $4, action_params = $5,
+              severity = $6, source_channel_id = $7, updated_at = NOW()
+          WHERE id = $1
+          `,
+          [id, ...params]
+        );
+      } else {
+        await client.query(
+          `
+          INSERT INTO guild_policies (
+            guild_id, rule_text, ai_interpretation, category, action_type, action_params,
+            severity, source_channel_id, confidence, learned_from, created_by, is_active
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 1.0, 'manual', $9, true)
+          `,
+          [guildId, policy.rule, ...params, appliedBy]
+        );
+      }
+    }
+
+    const removed = [...stale, ...byKey.values()];
+    if (removed.length > 0) {
+      await client.query('UPDATE guild_policies SET is_active = false, updated_at = NOW() WHERE id = ANY($1)', [removed]);
+    }
+  }
+
+  /**
+   * Behaviors are matched by name; behaviors missing from the bundle are deleted
+   */
+  private async writeBehaviors(client: PoolClient, guildId: string, behaviors: BundleBehavior[], appliedBy: string): Promise<void> {
+    const existing = await client.query(
+      'SELECT id, name FROM dynamic_behaviors WHERE server_id = $1 ORDER BY created_at',
+      [guildId]
+    );
+    const { byKey, stale } = indexBy(existing.rows, 'name');
+
+    for (const [i, behavior] of behaviors.entries()) {
+      const params = [
+        behavior.name,
+        behavior.description,
+        behavior.enabled,
+        JSON.stringify(behavior.trigger),
+        behavior.tracking ? JSON.stringify(behavior.tracking) : null,
+        behavior.analysis ? JSON.stringify(behavior.analysis) : null,
+        JSON.stringify(behavior.actions),
+        JSON.stringify(behavior.safety),
+      ];
+      const id = byKey.get(behavior.name);
+
+      if (id) {
+        byKey.delete(behavior.name);
+        await client.query(
+          `
+          UPDATE dynamic_behaviors
+          SET name = $2, description = $3, enabled = $4, trigger = $5, tracking = $6,
+              analysis = $7, actions = $8, safety = $9, updated_at = NOW()
+          WHERE id = $1
+          `,
+          [id, ...params]
+        );
+      } else {
+        await client.query(
+          `
+          INSERT INTO dynamic_behaviors
+          (id, server_id, created_by, name, description, enabled, trigger, tracking, analysis, actions, safety)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          `,
+          [`behavior-${guildId}-${Date.now()}-${i}`, guildId, appliedBy, ...params]
+        );
+      }
+    }
+
+    const removed = [...stale, ...byKey.values()];
+    if (removed.length > 0) {
+      await client.query('DELETE FROM dynamic_behaviors WHERE id = ANY($1)', [removed]);
+    }
+  }
+
+  /**
+   * Put back the configuration a failed apply replaced
+   */
+  private async restoreConfig(guildId: string, previous: ConfigBundle): Promise<void> {
+    try {
+      await this.runtime.configManager!.updateConfig(guildId, resolveConfig(previous.config!));
+    } catch (error) {
+      logger.error(`Config bundle for guild ${guildId} was rolled back, but its configuration could not be restored`, error);
+    }
+  }
+
+  /**
+   * Let attached components pick up the new setup (failures only delay it until their next load)
+   */
+  private async refresh(guildId: string, bundle: ConfigBundle): Promise<void> {
+    const { policyEngine, behaviorEngine, alertSystem } = this.runtime;
+    try {
+      if (bundle.policies) policyEngine?.clearCache(guildId);
+      if (bundle.behaviors) await behaviorEngine?.reload();
+      if (bundle.alerts) await alertSystem?.reloadPreferences(guildId);
+    } catch (error) {
+      logger.warn(`Applied config bundle, but refreshing live components for guild ${guildId} failed`, error);
+    }
+  }
+
+  private async load(guildId: string, version: number | 'current'): Promise<ConfigBundle | null> {
+    if (version === 'current') return this.exportBundle(guildId);
+    const record = await this.store.getVersion(guildId, version);
+    return record ? record.bundle : null;
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
+
+function toBundlePolicy(policy: BundlePolicy): BundlePolicy {
+  return compact({
+    rule: policy.rule,
+    interpretation: policy.interpretation || policy.rule,
+    category: policy.category,
+    action: policy.action,
+    duration: policy.duration,
+    reason: policy.reason,
+    severity: policy.severity,
+    channelId: policy.channelId,
+  });
+}
+
+function toBundleBehavior(behavior: any): BundleBehavior {
+  return compact({
+    name: behavior.name,
+    description: behavior.description || '',
+    enabled: behavior.enabled !== false,
+    trigger: behavior.trigger,
+    tracking: behavior.tracking,
+    analysis: behavior.analysis,
+    actions: behavior.actions,
+    safety: behavior.safety,
+  });
+}
+
+function toBundleAlerts(guildId: string, saved: BundleAlerts | undefined): BundleAlerts {
+  const { serverId, ...alerts } = { ...defaultAlertPreferences(guildId), ...saved };
+  return compact(alerts);
+}
+
+/**
+ * Rows by a key column; later rows with a key already seen are returned as stale
+ */
+function indexBy(rows: any[], column: string): { byKey: Map<string, string>; stale: string[] } {
+  const byKey = new Map<string, string>();
+  const stale: string[] = [];
+  for (const row of rows) {
+    if (byKey.has(row[column])) stale.push(row.id);
+    else byKey.set(row[column], row.id);
+  }
+  return { byKey, stale };
+}
+
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined && v !== null)) as T;
+}
+
+// Singleton instance
+export const configBundleService = new ConfigBundleService();
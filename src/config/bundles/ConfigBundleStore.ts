@@ -0,0 +1,131 @@
+import { Pool, PoolClient } from 'pg';
+import { getPostgresPool } from '../../database/config';
+import { ConfigBundle, bundleHash } from './ConfigBundle';
+
+/**
+ * CONFIG BUNDLE STORE - Version history of each guild's bundle
+ *
+ * Versions are numbered per guild from 1. Each one holds the guild's full
+ * setup after the change, so any two versions can be diffed and any one
+ * restored.
+ */
+
+export type BundleVersionSource = 'apply' | 'rollback' | 'snapshot';
+
+export interface BundleVersion {
+  guildId: string;
+  version: number;
+  source: BundleVersionSource;
+  bundleName: string | null;
+  bundle: ConfigBundle;
+  hash: string;
+  batchId: string | null;
+  restoredVersion: number | null;
+  note: string | null;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export type BundleVersionSummary = Omit<BundleVersion, 'bundle'>;
+
+export class ConfigBundleStore {
+  constructor(private db?: Pool) {}
+
+  /**
+   * Store the next version (pass the client of an open transaction to commit it with the changes)
+   */
+  async addVersion(
+    version: {
+      guildId: string;
+      source: BundleVersionSource;
+      bundleName?: string;
+      bundle: ConfigBundle;
+      batchId?: string;
+      restoredVersion?: number;
+      note?: string;
+      createdBy: string;
+    },
+    client?: PoolClient
+  ): Promise<BundleVersion> {
+    const result = await (client || this.pool).query(
+      `
+      INSERT INTO config_bundle_versions
+        (guild_id, version, source, bundle_name, bundle, hash, batch_id, restored_version, note, created_by)
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6, $7, $8, $9
+      FROM config_bundle_versions WHERE guild_id = $1
+      RETURNING *
+      `,
+      [
+        version.guildId,
+        version.source,
+        version.bundleName || null,
+        JSON.stringify(version.bundle),
+        bundleHash(version.bundle),
+        version.batchId || null,
+        version.restoredVersion ?? null,
+        version.note || null,
+        version.createdBy,
+      ]
+    );
+    return toVersion(result.rows[0]);
+  }
+
+  async getVersion(guildId: string, version: number): Promise<BundleVersion | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM config_bundle_versions WHERE guild_id = $1 AND version = $2',
+      [guildId, version]
+    );
+    return result.rows[0] ? toVersion(result.rows[0]) : null;
+  }
+
+  async getLatest(guildId: string, client?: PoolClient): Promise<BundleVersion | null> {
+    const result = await (client || this.pool).query(
+      'SELECT * FROM config_bundle_versions WHERE guild_id = $1 ORDER BY version DESC LIMIT 1',
+      [guildId]
+    );
+    return result.rows[0] ? toVersion(result.rows[0]) : null;
+  }
+
+  /**
+   * Version history, newest first (without the bundles themselves)
+   */
+  async listVersions(guildId: string, limit: number = 50): Promise<BundleVersionSummary[]> {
+    const result = await this.pool.query(
+      `
+      SELECT guild_id, version, source, bundle_name, hash, batch_id, restored_version, note, created_by, created_at
+      FROM config_bundle_versions
+      WHERE guild_id = $1
+      ORDER BY version DESC
+      LIMIT $2
+      `,
+      [guildId, Math.min(limit, 200)]
+    );
+    return result.rows.map(row => {
+      const { bundle, ...summary } = toVersion(row);
+      return summary;
+    });
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
+
+function toVersion(row: any): BundleVersion {
+  return {
+    guildId: row.guild_id,
+    version: row.version,
+    source: row.source,
+    bundleName: row.bundle_name,
+    bundle: row.bundle,
+    hash: row.hash,
+    batchId: row.batch_id,
+    restoredVersion: row.restored_version,
+    note: row.note,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+  };
+}
+
+// Singleton instance
+export const configBundleStore = new ConfigBundleStore();
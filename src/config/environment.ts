@@ -11,11 +11,21 @@ export const ENV = {
   DISCORD_REDIRECT_URI: process.env.DISCORD_REDIRECT_URI || 'http://localhost:3002/auth/callback',
 
   // Session
-  SESSION_SECRET: process.env.SESSION_SECRET || 'change_this_secret',
+  SESSION_SECRET: process.env.SESSION_SECRET || '', // Unset (or the old 'change_this_secret'): dashboard sessions are off
 
   // Ollama
   OLLAMA_BASE_URL: process.env.OLLAMA_BASE_URL || 'http://localhost:11434',
   OLLAMA_MODEL: process.env.OLLAMA_MODEL || 'qwen3:8b', // 🔥 PRIMARY MODEL - everything except analytics
+
+  // LLM providers and per-config-type routing (see llm.config.ts)
+  LLM_PROVIDERS: process.env.LLM_PROVIDERS || '', // JSON array of extra providers (ollama / openai-compatible)
+  LLM_ROUTES: process.env.LLM_ROUTES || '', // JSON object: config type -> { provider, model, fallbacks }
+  LLM_FIXTURE_MODE: process.env.LLM_FIXTURE_MODE || 'off', // off | record | replay (see LLMFixtures.ts)
+  LLM_FIXTURE_DIR: process.env.LLM_FIXTURE_DIR || './fixtures/llm',
+
+  // Inference scheduling (see inference.config.ts)
+  INFERENCE_CONCURRENCY: parseInt(process.env.INFERENCE_CONCURRENCY || '1'), // Model calls in flight at once
+  INFERENCE_CLASSES: process.env.INFERENCE_CLASSES || '', // JSON object: priority class -> overrides
   
   // Database (PostgreSQL)
   DB_HOST: process.env.DB_HOST || 'localhost',
@@ -43,11 +53,62 @@ export const ENV = {
   TRUST_DECAY_RATE: parseFloat(process.env.TRUST_DECAY_RATE || '0.01'),
   REFLECTION_INTERVAL: parseInt(process.env.REFLECTION_INTERVAL || '3600000'), // 1 hour
   RULE_EVOLUTION_THRESHOLD: parseFloat(process.env.RULE_EVOLUTION_THRESHOLD || '0.7'),
+
+  // Audit log checkpoints (signed head of the hash chain)
+  AUDIT_CHECKPOINT_INTERVAL: parseInt(process.env.AUDIT_CHECKPOINT_INTERVAL || '3600000'), // 1 hour
+  AUDIT_ANCHOR_CHECKPOINTS: process.env.AUDIT_ANCHOR_CHECKPOINTS === 'true', // Also anchor checkpoints on-chain
+  AUDIT_TRUSTED_INSTANCE_IDS: process.env.AUDIT_TRUSTED_INSTANCE_IDS || '', // Comma-separated IDs of this instance's earlier keys
+
+  // On-chain trust score batching (one Merkle root per batch)
+  TRUST_BATCH_INTERVAL: parseInt(process.env.TRUST_BATCH_INTERVAL || '3600000'), // 1 hour
+  TRUST_BATCH_MAX_SIZE: parseInt(process.env.TRUST_BATCH_MAX_SIZE || '5000'), // Publish early when this many changes are pending
   
   // Development
   NODE_ENV: process.env.NODE_ENV || 'development',
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
 
+  // Public URL of the dashboard API (wallet signing page links)
+  PUBLIC_DASHBOARD_URL: process.env.PUBLIC_DASHBOARD_URL || 'http://localhost:3003',
+
+  // Alert delivery (email sinks and webhook targets)
+  SMTP_HOST: process.env.SMTP_HOST || '',
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || '587'),
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true', // Implicit TLS (port 465); otherwise STARTTLS when offered
+  SMTP_USER: process.env.SMTP_USER || '', // Credentials are only sent over TLS
+  SMTP_PASS: process.env.SMTP_PASS || '',
+  SMTP_FROM: process.env.SMTP_FROM || 'BECAS Alerts <alerts@localhost>',
+  ALERT_ALLOW_PRIVATE_SINKS: process.env.ALERT_ALLOW_PRIVATE_SINKS === 'true', // Allow webhook sinks on private/loopback addresses
+
   // Admin API
   ADMIN_PORT: parseInt(process.env.ADMIN_PORT || '3000'),
+  ADMIN_API_KEY: process.env.ADMIN_API_KEY || '', // Bootstrap key with global owner access
+  ADMIN_USER_IDS: process.env.ADMIN_USER_IDS || '', // Discord user IDs with global owner access (comma-separated)
+
+  // Federation (HTTP protocol between independent deployments)
+  FEDERATION_ENABLED: process.env.FEDERATION_ENABLED === 'true',
+  FEDERATION_PORT: parseInt(process.env.FEDERATION_PORT || '3010'),
+  FEDERATION_INSTANCE_NAME: process.env.FEDERATION_INSTANCE_NAME || 'Becas',
+  FEDERATION_PEERS: process.env.FEDERATION_PEERS || '', // "http://host:3010=trusted,https://other=public"
+  FEDERATION_SYNC_INTERVAL: parseInt(process.env.FEDERATION_SYNC_INTERVAL || '60000'), // 1 minute
+
+  // Link intelligence (see analyzers/links)
+  LINK_PROTECTED_DOMAINS: process.env.LINK_PROTECTED_DOMAINS || 'becascore.xyz', // Added to the built-in brands (Discord, Steam)
+  LINK_EXPAND_SHORTENERS: process.env.LINK_EXPAND_SHORTENERS !== 'false', // Follow shortener redirects (HEAD requests)
+
+  // Durable action scheduler (see advanced/ActionScheduler)
+  SCHEDULER_DRIVER: process.env.SCHEDULER_DRIVER || 'timer', // 'timer' (poll) or 'bullmq' (EventQueue delayed jobs, needs Redis)
+  SCHEDULER_POLL_INTERVAL: parseInt(process.env.SCHEDULER_POLL_INTERVAL || '5000'), // 5 seconds
+
+  // Data subject export and erasure (see privacy/PrivacyService)
+  PRIVACY_EVIDENCE_RETENTION_DAYS: parseInt(process.env.PRIVACY_EVIDENCE_RETENTION_DAYS || '365'), // Moderation evidence younger than this survives erasure
+
+  // Data retention defaults in days, 0 = keep forever (see privacy/RetentionService)
+  RETENTION_RAW_CONTENT_DAYS: parseInt(process.env.RETENTION_RAW_CONTENT_DAYS || '90'),
+  RETENTION_ANALYSIS_SCORES_DAYS: parseInt(process.env.RETENTION_ANALYSIS_SCORES_DAYS || '180'),
+  RETENTION_EMBEDDINGS_DAYS: parseInt(process.env.RETENTION_EMBEDDINGS_DAYS || '90'),
+  RETENTION_PROFILES_DAYS: parseInt(process.env.RETENTION_PROFILES_DAYS || '365'),
+  RETENTION_AUDIT_DAYS: parseInt(process.env.RETENTION_AUDIT_DAYS || '0'),
+  RETENTION_FEDERATION_EVENTS_DAYS: parseInt(process.env.RETENTION_FEDERATION_EVENTS_DAYS || '90'),
+  RETENTION_ENFORCE_INTERVAL: parseInt(process.env.RETENTION_ENFORCE_INTERVAL || '86400000'), // 24 hours
+  RETENTION_DRY_RUN: process.env.RETENTION_DRY_RUN !== 'false', // Scheduled runs only report until set to false
 };
\ No newline at end of file
@@ -0,0 +1,95 @@
+// inference.config.ts
+
+import { ENV } from './environment';
+
+// INFERENCE PRIORITY CLASSES
+//
+// Every model call waits for a slot in InferenceScheduler (INFERENCE_CONCURRENCY
+// slots, 1 by default - Ollama serves one request at a time). Waiting calls are
+// served strictly by class, highest first:
+//
+//   reflex     - time-critical moderation (scam / toxicity checks on live messages)
+//   policy     - guild policy matching and other moderation analysis
+//   planning   - BecasFlow planning and tool orchestration
+//   chat       - conversational replies
+//   background - learning, discovery, reflection
+//
+// deadlineMs:  a call still waiting (or, with a degrade handler, still running)
+//              after this long gives up - time-critical callers then use the
+//              ReflexLayer heuristic result instead
+// maxQueued:   admission limit for the class queue
+// shedAtDepth: reject new calls of the class while this many calls (all classes)
+//              are already waiting - low classes yield under load
+//
+// INFERENCE_CLASSES overrides per class, e.g. {"chat":{"deadlineMs":30000},"background":{"shedAtDepth":2}}
+
+export type InferencePriority = 'reflex' | 'policy' | 'planning' | 'chat' | 'background';
+
+export interface InferenceClassConfig {
+  deadlineMs: number;
+  maxQueued: number;
+  shedAtDepth?: number;
+}
+
+// Highest priority first
+export const INFERENCE_PRIORITIES: InferencePriority[] = ['reflex', 'policy', 'planning', 'chat', 'background'];
+
+const DEFAULT_CLASSES: Record<InferencePriority, InferenceClassConfig> = {
+  reflex: { deadlineMs: 8000, maxQueued: 100 },
+  policy: { deadlineMs: 30000, maxQueued: 50 },
+  planning: { deadlineMs: 90000, maxQueued: 20, shedAtDepth: 40 },
+  chat: { deadlineMs: 90000, maxQueued: 20, shedAtDepth: 20 },
+  background: { deadlineMs: 300000, maxQueued: 10, shedAtDepth: 5 },
+};
+
+export const INFERENCE_CLASSES: Record<InferencePriority, InferenceClassConfig> = mergeOverrides(DEFAULT_CLASSES, ENV.INFERENCE_CLASSES);
+
+// Class for calls made outside inferenceScheduler.withPriority(), by OllamaService config type
+export const CONFIG_TYPE_PRIORITY: Record<string, InferencePriority> = {
+  reflex: 'reflex',
+  coreViolationDetection: 'reflex',
+  analysis: 'policy',
+  guildPolicyMatching: 'policy',
+  governance: 'policy',
+  safetyValidation: 'policy',
+  conflictResolution: 'policy',
+  vision: 'policy',
+  planning: 'planning',
+  becasflow: 'planning',
+  cognitive: 'planning',
+  strategic: 'planning',
+  reasoning: 'planning',
+  parser: 'planning',
+  resultSynthesis: 'planning',
+  parameterInference: 'planning',
+  selfHealing: 'planning',
+  loopDetection: 'planning',
+  chainSuggestion: 'planning',
+  contextSelection: 'planning',
+  intentEnhancement: 'planning',
+  dialogue: 'chat',
+  reflection: 'background',
+  policyDiscovery: 'background',
+  policyLearning: 'background',
+  policySynthesis: 'background',
+};
+
+export const DEFAULT_INFERENCE_PRIORITY: InferencePriority = 'chat';
+
+function mergeOverrides(
+  defaults: Record<InferencePriority, InferenceClassConfig>,
+  value: string
+): Record<InferencePriority, InferenceClassConfig> {
+  if (!value) return defaults;
+  try {
+    const overrides = JSON.parse(value);
+    const merged = { ...defaults };
+    for (const priority of INFERENCE_PRIORITIES) {
+      if (overrides[priority]) merged[priority] = { ...defaults[priority], ...overrides[priority] };
+    }
+    return merged;
+  } catch (error) {
+    console.error('⚠️  INFERENCE_CLASSES is not valid JSON - ignoring it', error);
+    return defaults;
+  }
+}
@@ -0,0 +1,62 @@
+// llm.config.ts
+
+import { ENV } from './environment';
+
+// LLM PROVIDERS & ROUTING
+//
+// Every OllamaService call is made for a config type (dialogue, analysis,
+// governance, vision, becasflow, ...). A route decides which provider and
+// model serve that config type, and which targets to fall back to when the
+// primary's circuit breaker is open or the call fails.
+//
+// Providers:
+//   - "ollama" is always available (OLLAMA_BASE_URL)
+//   - LLM_PROVIDERS adds more, e.g. an OpenAI-compatible API or llama.cpp server:
+//     [{"name":"openai","type":"openai","baseUrl":"https://api.openai.com/v1","apiKeyEnv":"OPENAI_API_KEY"},
+//      {"name":"llamacpp","type":"openai","baseUrl":"http://gpu-box:8080/v1"}]
+//
+// Routes (LLM_ROUTES), keyed by config type, "*" applies to types without a route:
+//   {"analysis":{"provider":"openai","model":"gpt-4o-mini","fallbacks":[{"provider":"ollama"}]},
+//    "*":{"provider":"ollama","fallbacks":[{"provider":"llamacpp","model":"qwen2.5-7b-instruct"}]}}
+//
+// A target without a model uses the model from OLLAMA_CONFIGS for that config type.
+
+export type LLMProviderType = 'ollama' | 'openai';
+
+export interface LLMProviderConfig {
+  name: string;
+  type: LLMProviderType;
+  baseUrl: string;
+  apiKey?: string;
+  apiKeyEnv?: string; // Read the API key from this environment variable instead
+  timeoutMs?: number;
+  headers?: Record<string, string>;
+}
+
+export interface LLMRouteTarget {
+  provider: string;
+  model?: string;
+}
+
+export interface LLMRoute extends LLMRouteTarget {
+  fallbacks?: LLMRouteTarget[];
+}
+
+export const DEFAULT_LLM_PROVIDER = 'ollama';
+
+export const LLM_PROVIDERS: LLMProviderConfig[] = [
+  { name: DEFAULT_LLM_PROVIDER, type: 'ollama', baseUrl: ENV.OLLAMA_BASE_URL },
+  ...parseJson<LLMProviderConfig[]>('LLM_PROVIDERS', ENV.LLM_PROVIDERS, []).filter(p => p.name !== DEFAULT_LLM_PROVIDER),
+];
+
+export const LLM_ROUTES: Record<string, LLMRoute> = parseJson('LLM_ROUTES', ENV.LLM_ROUTES, {});
+
+function parseJson<T>(name: string, value: string, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error(`⚠️  ${name} is not valid JSON - ignoring it`, error);
+    return fallback;
+  }
+}
@@ -14,10 +14,12 @@ import { SelfReflection } from './SelfReflection';
 import { ModerationHandler } from '../systems/ModerationHandler';
 import { MessageContext, AnalyzedMessage } from '../types/Message.types';
 import { TaskManager } from '../advanced/TaskManager';
+import { actionScheduler } from '../advanced/ActionScheduler';
 import { ComplexIntentParser } from '../advanced/ComplexIntentParser';
 import { UserMonitor } from '../monitoring/UserMonitor';
 import { ScamDetector } from '../analyzers/ScamDetector';
 import { CrossGuildMemory } from '../systems/CrossGuildMemory';
+import type { FederationNode } from '../federation/FederationNode';
 
 // 🔥 DATABASE INTEGRATION - PostgreSQL + Redis
 import { BecasDatabaseIntegration } from '../database/BecasDatabaseIntegration';
@@ -134,6 +136,8 @@ import { BecasExecutor } from '../becasflow/core/BecasExecutor';
 import { BecasContext } from '../becasflow/core/BecasContext';
 import { BecasToolRegistry } from '../becasflow/registry/BecasToolRegistry';
 import { BecasInteractive } from '../becasflow/core/BecasInteractive';
+import { BecasFeedbackStore } from '../becasflow/core/BecasFeedback';
+import { BecasFeedbackUI } from '../becasflow/core/BecasFeedbackUI';
 import { registerAllTools } from '../becasflow/tools';
 import { ResultSynthesizer } from '../becasflow/services/ResultSynthesizer';
 
@@ -143,6 +147,7 @@ import { GuildPolicyEngineDB } from '../intelligence/GuildPolicyEngineDB';
 import { PolicyDiscoveryEngine } from '../intelligence/PolicyDiscoveryEngine';
 import { PolicyLearningEngine } from '../intelligence/PolicyLearningEngine';
 import { PolicyCommand } from '../commands/policy';
+import { PrivacyCommand } from '../commands/privacy';
 
 export class BecasCore {
   private client: Client;
@@ -160,6 +165,7 @@ export class BecasCore {
   private userMonitor: UserMonitor;
   private scamDetector: ScamDetector;
   private crossGuild: CrossGuildMemory;
+  private federationNode?: FederationNode;
 
   // 🔥 DATABASE INTEGRATION - PostgreSQL + Redis (REQUIRED)
   private dbIntegration: BecasDatabaseIntegration;
@@ -282,6 +288,7 @@ export class BecasCore {
   private policyDiscovery: PolicyDiscoveryEngine;
   private policyLearning: PolicyLearningEngine;
   private policyCommand: PolicyCommand;
+  private privacyCommand: PrivacyCommand;
 
   private isReady: boolean = false;
   private handlersSetup: boolean = false; // Track if event handlers are already registered
@@ -348,6 +355,7 @@ export class BecasCore {
     
     // Initialize advanced systems
     this.taskManager = new TaskManager(this.storage);
+    actionScheduler.registerHandler<{ taskId: string }>('task', job => this.executeTask(job.payload.taskId));
     this.intentParser = new ComplexIntentParser();
     this.userMonitor = new UserMonitor(this.taskManager);
     this.scamDetector = new ScamDetector();
@@ -727,6 +735,9 @@ export class BecasCore {
     console.log('  ✓ Retry with exponential backoff, fallback steps');
     console.log('  ✓ Dry-run mode, progress tracking');
 
+    BecasFeedbackUI.initialize(client, this.becasflowRegistry);
+    console.log('  ✓ Plan feedback - moderator ratings/corrections feed the planner');
+
     this.resultSynthesizer = new ResultSynthesizer();
     console.log('  ✓ ResultSynthesizer - AI-powered result formatting');
     console.log('  ✓ Discord-friendly message synthesis');
@@ -740,6 +751,7 @@ export class BecasCore {
     this.policyDiscovery = new PolicyDiscoveryEngine();
     this.policyLearning = new PolicyLearningEngine();
     this.policyCommand = new PolicyCommand();
+    this.privacyCommand = new PrivacyCommand();
     console.log('  ✓ BecasCoreViolationEngine - Global violations with trust score impact');
     console.log('  ✓ GuildPolicyEngineDB - Local guild policy enforcement');
     console.log('  ✓ PolicyDiscoveryEngine - Automatic policy discovery');
@@ -1103,9 +1115,6 @@ export class BecasCore {
     // Generate natural response
     const response = await this.generateComplexIntentResponse(intent, task.id);
     await message.reply(response);
-
-    // Check for tasks ready to execute
-    await this.processReadyTasks(message.guild!.id);
   }
 
   /**
@@ -1147,38 +1156,49 @@ Examples:
   }
 
   /**
-   * Process tasks that are ready to execute
+   * Execute a task when its scheduler job comes due (handler for 'task' jobs)
    */
-  private async processReadyTasks(guildId: string): Promise<void> {
-    const tasks = this.taskManager.getMonitoringTasks(guildId);
-    
-    for (const task of tasks) {
-      if (task.status === 'completed') {
-        // Execute the actual moderation action
-        const guild = this.client.guilds.cache.get(task.guildId);
-        if (!guild) continue;
+  private async executeTask(taskId: string): Promise<void> {
+    const task = this.taskManager.getTask(taskId);
+    if (!task || !['pending', 'monitoring'].includes(task.status)) {
+      return; // Deleted or cancelled in the meantime
+    }
 
-        try {
-          await this.moderation.executeAction(
-            task.action as any,
-            task.target.userId,
-            guild,
-            task.action.reason
-          );
+    const guild = this.client.guilds.cache.get(task.guildId);
+    if (!guild) {
+      throw new Error(`Guild ${task.guildId} not available`); // Retried by the scheduler
+    }
 
-          console.log(`✓ Executed task ${task.id}: ${task.action.type} on ${task.target.userName}`);
+    await this.taskManager.updateTask(task.id, { status: 'executing' });
 
-          // Notify in a channel (find a suitable channel)
-          const channels = guild.channels.cache.filter(c => c.isTextBased());
-          const channel = channels.first() as TextChannel;
-          
-          if (channel) {
-            await channel.send(`Task completed: ${task.action.type} applied to ${task.target.userName}. Reason: ${task.action.reason}`);
-          }
-        } catch (error) {
-          console.error(`Failed to execute task ${task.id}:`, error);
-        }
+    try {
+      await this.moderation.executeAction(
+        task.action,
+        task.target.userId,
+        guild,
+        task.action.reason
+      );
+
+      await this.taskManager.updateTask(task.id, {
+        status: 'completed',
+        executedAt: new Date(),
+        result: `${task.action.type} applied`,
+      });
+      logger.info(`Executed task ${task.id}: ${task.action.type} on ${task.target.userName}`);
+
+      // Notify in a channel (find a suitable channel)
+      const channels = guild.channels.cache.filter(c => c.isTextBased());
+      const channel = channels.first() as TextChannel;
+
+      if (channel) {
+        await channel.send(`Task completed: ${task.action.type} applied to ${task.target.userName}. Reason: ${task.action.reason}`);
       }
+    } catch (error) {
+      logger.error(`Failed to execute task ${task.id}`, error);
+      await this.taskManager.updateTask(task.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
   }
 
@@ -1676,6 +1696,7 @@ Return JSON:
               scamAnalysis.severity === 'critical' ? 'critical' : 'high',
               'system'
             );
+            await this.shareGlobalBan(message, scamAnalysis);
             logger.info(`✅ Added to global ban list across all servers`);
           } catch (error) {
             logger.error('Failed to add to global ban list:', error);
@@ -2172,6 +2193,14 @@ Return JSON:
         return;
       }
 
+      // 🔒 PRIVACY COMMAND: Any member can export or erase their own data
+      if (firstWord === 'privacy') {
+        const args = commandContent.split(/\s+/).slice(1);
+        await this.privacyCommand.execute(message, args);
+        logger.info('✅ Handled by PrivacyCommand');
+        return;
+      }
+
       // ============================================
       // 🚀 BECASFLOW: Process ALL commands through BecasFlow
       // ============================================
@@ -4367,6 +4396,7 @@ Generate ONLY the response text (1-3 sentences), no quotes.`;
           scamAnalysis.severity === 'critical' ? 'critical' : 'high',
           'system'
         );
+        await this.shareGlobalBan(message, scamAnalysis);
 
         // Ban from current guild
         try {
@@ -5930,18 +5960,6 @@ DO say something natural and human-like.`;
     setInterval(async () => {
       await this.personality.restoreBalance();
     }, 43200000);
-
-    // Execute ready scheduled tasks every 10 seconds
-    setInterval(async () => {
-      try {
-        // Check all guilds for ready tasks
-        for (const guild of this.client.guilds.cache.values()) {
-          await this.processReadyTasks(guild.id);
-        }
-      } catch (error) {
-        console.error('Error processing scheduled tasks:', error);
-      }
-    }, 10000); // Every 10 seconds
   }
 
   /**
@@ -6028,6 +6046,13 @@ DO say something natural and human-like.`;
     return this.analyticsManager;
   }
 
+  /**
+   * Get audit logger (for admin audit endpoints)
+   */
+  getAuditLogger() {
+    return this.auditLogger;
+  }
+
   /**
    * Get sentient AI systems (for testing/debugging)
    */
@@ -6063,6 +6088,34 @@ DO say something natural and human-like.`;
     return this.predictiveAI.getActivePredictions(minSeverity);
   }
 
+  /**
+   * Publish global bans to federation peers through this node
+   */
+  setFederationNode(node: FederationNode): void {
+    this.federationNode = node;
+  }
+
+  /**
+   * Share a scam ban with federation peers (the local ban list is already updated)
+   */
+  private async shareGlobalBan(message: Message, scamAnalysis: import('../analyzers/ScamDetector').ScamAnalysis): Promise<void> {
+    if (!this.federationNode || !message.guild) return;
+
+    try {
+      await this.federationNode.federationFor(message.guild.id).addGlobalBan({
+        userId: message.author.id,
+        username: message.author.username,
+        reason: `${scamAnalysis.scamType} scam - ${scamAnalysis.reasoning}`,
+        bannedBy: 'system',
+        banType: 'scam',
+        confidence: scamAnalysis.confidence,
+        evidence: { indicators: scamAnalysis.indicators }
+      });
+    } catch (error) {
+      logger.warn('Could not share global ban with federation', error);
+    }
+  }
+
   /**
    * Get TrustScoreEngine (for DashboardAPI)
    */
@@ -6119,6 +6172,20 @@ DO say something natural and human-like.`;
     return this.policyEngine;
   }
 
+  /**
+   * Get GuildPolicyEngineDB (for config bundles)
+   */
+  getGuildPolicyEngine() {
+    return this.guildPolicyEngine;
+  }
+
+  /**
+   * Get BecasFlow executor (for slash commands)
+   */
+  getBecasFlowExecutor() {
+    return this.becasflowExecutor;
+  }
+
   /**
    * Get WorkflowManager (for OnboardingSystem)
    */
@@ -6750,14 +6817,29 @@ Be friendly, casual, and conversational. AVOID technical summaries like "The con
       }
     }
 
-    // 4. Execute the plan
+    // 4. Show the impact preview and ask before running confirmation-gated tools
+    if (this.becasflowExecutor.needsConfirmation(planningResult.plan!)) {
+      const preview = await this.becasflowExecutor.preview(planningResult.plan!, becasContext);
+      const confirmation = await BecasInteractive.prompt(message, {
+        type: 'confirm',
+        message: `${preview.finalOutput.substring(0, 1800)}\n\nProceed?`,
+        param: 'confirm',
+      });
+
+      if (!confirmation.success || !confirmation.value) {
+        logger.info(`🛑 BecasFlow: Plan not confirmed`);
+        return;
+      }
+    }
+
+    // 5. Execute the plan
     logger.info(`🎯 BecasFlow: Executing plan with ${planningResult.plan!.steps.length} steps`);
     const executionResult = await this.becasflowExecutor.execute(
       planningResult.plan!,
       becasContext
     );
 
-    // 5. Check if tools already sent Discord messages (analytics/query tools send embeds directly)
+    // 6. Check if tools already sent Discord messages (analytics/query tools send embeds directly)
     // ONLY skip AI response if:
     // - Single-step plan (user asked for ONE specific thing)
     // - AND that tool sent a self-contained embed (check_trust, moderation_history, etc)
@@ -6769,7 +6851,7 @@ Be friendly, casual, and conversational. AVOID technical summaries like "The con
     );
 
     if (!toolsSentMessages) {
-      // 6. Use ResultSynthesizer to format the response (replaces generateAIResponse)
+      // 7. Use ResultSynthesizer to format the response (replaces generateAIResponse)
       const synthesizedResponse = await this.resultSynthesizer.synthesize(
         commandContent,
         executionResult,
@@ -6780,10 +6862,14 @@ Be friendly, casual, and conversational. AVOID technical summaries like "The con
         }
       );
 
-      // 7. Send synthesized response
-      await message.reply(synthesizedResponse);
+      // 8. Send synthesized response with feedback buttons
+      BecasFeedbackStore.getInstance().trackPlan(planningResult.plan!, message.guild!.id);
+      await message.reply({
+        content: synthesizedResponse,
+        components: [BecasFeedbackUI.buildRow(planningResult.plan!.id)],
+      });
 
-      // 8. Add bot's response to conversation history for better context tracking
+      // 9. Add bot's response to conversation history for better context tracking
       const updatedHistory = this.conversationHistory.get(conversationKey);
       if (updatedHistory) {
         updatedHistory.push({
@@ -1,6 +1,14 @@
 import { Pool } from 'pg';
+import * as cron from 'node-cron';
 import { Client, Message, GuildMember, VoiceState, MessageReaction, User } from 'discord.js';
-import { BDLBehavior, BDLTrigger } from '../services/BehaviorParser';
+import { BDLBehavior, BDLAction } from '../services/BehaviorParser';
+import { ConditionEvaluator } from '../services/ConditionEvaluator';
+import { BehaviorAnalyzer } from '../services/BehaviorAnalyzer';
+import { TrackingSystem, TrackingSession } from '../services/TrackingSystem';
+import { ActionExecutor } from '../services/ActionExecutor';
+import { BehaviorApprovalQueue, PendingApproval, ApprovalDecision } from '../services/BehaviorApprovalQueue';
+import { BehaviorSandbox, SimulatedEvent, SandboxOptions, SandboxTrace } from '../services/BehaviorSandbox';
+import { parseDuration } from '../utils/duration';
 import logger from '../utils/logger';
 
 /**
@@ -31,30 +39,133 @@ export interface BehaviorExecution {
   triggerData: any;
   startedAt: Date;
   completedAt?: Date;
-  status: 'running' | 'completed' | 'failed' | 'skipped';
+  status: 'running' | 'tracking' | 'completed' | 'failed' | 'skipped';
   actionsExecuted: number;
   analysisResult?: any;
   error?: string;
   executionTimeMs?: number;
+  actionResults?: ActionOutcome[];
+}
+
+/**
+ * Outcome of a single action within an execution
+ */
+export interface ActionOutcome {
+  index: number;
+  type: string;
+  status: 'executed' | 'skipped' | 'failed' | 'pending_approval' | 'approved' | 'denied' | 'expired' | 'simulated';
+  attempts: number;
+  error?: string;
+  approvalId?: number;
+  durationMs?: number;
+}
+
+/**
+ * Result of a single trigger filter check
+ */
+export interface FilterCheck {
+  filter: string;
+  expected: any;
+  actual: any;
+  passed: boolean;
+}
+
+/**
+ * Why a trigger did or did not match an event
+ */
+export interface TriggerTrace {
+  matched: boolean;
+  reason: string;
+  filters: FilterCheck[];
+}
+
+/**
+ * What an action would do, without running it
+ */
+export interface ActionPreview {
+  index: number;
+  type: string;
+  condition?: string;
+  conditionMet: boolean;
+  wouldExecute: boolean;
+  requiresApproval: boolean;
+  target?: string;
+  params: Record<string, any>;
+}
+
+/**
+ * Analysis and action plan for an execution, without side effects
+ */
+export interface ExecutionPreview {
+  analysis?: any;
+  analysisError?: string;
+  actions: ActionPreview[];
+}
+
+// Consecutive failed executions before a behavior with safety.disableOnErrors is disabled,
+// unless the behavior sets safety.disableAfterFailures
+const DEFAULT_DISABLE_AFTER_FAILURES = 5;
+
+// Actions without side effects never need moderator approval
+const APPROVAL_EXEMPT_ACTIONS = ['log'];
+
+/**
+ * Parsed form of a pattern trigger such as "5 messages in 10 seconds"
+ */
+interface RatePattern {
+  count: number;
+  event: string;
+  windowMs: number;
+  contentFilter?: (message: Message) => boolean;
 }
 
 export class BehaviorEngine {
   private db: Pool;
   private discordClient: Client;
   private behaviors: Map<string, BDLBehavior> = new Map();
+  private behaviorServers: Map<string, string> = new Map(); // behaviorId -> serverId
 
   // Event listeners registry
   private eventListeners: Map<string, Function[]> = new Map();
 
-  constructor(db: Pool, discordClient: Client) {
+  // Trigger scheduler state
+  private conditionEvaluator = new ConditionEvaluator();
+  private scheduledJobs: Map<string, cron.ScheduledTask> = new Map();
+  private conditionTimers: Map<string, NodeJS.Timeout> = new Map();
+  private conditionStates: Map<string, boolean> = new Map(); // Last result, for edge detection
+  private patternWindows: Map<string, number[]> = new Map(); // behaviorId:scopeKey -> timestamps
+  private serverActivity: Map<string, number[]> = new Map(); // serverId:event -> timestamps (last hour)
+
+  // Action execution and error policy
+  private actionExecutor: ActionExecutor;
+  private approvalQueue: BehaviorApprovalQueue;
+  private analyzer: BehaviorAnalyzer;
+  private trackingSystem?: TrackingSystem;
+  private sandbox: BehaviorSandbox;
+  private consecutiveFailures: Map<string, number> = new Map();
+
+  constructor(db: Pool, discordClient: Client, actionExecutor?: ActionExecutor, trackingSystem?: TrackingSystem) {
     this.db = db;
     this.discordClient = discordClient;
+    this.trackingSystem = trackingSystem;
+    this.actionExecutor = actionExecutor || new ActionExecutor(discordClient, db);
+    this.approvalQueue = new BehaviorApprovalQueue(db, discordClient);
+    this.analyzer = new BehaviorAnalyzer(db, this.conditionEvaluator);
+    this.sandbox = new BehaviorSandbox(db, this);
   }
 
   /**
    * Initialize behavior engine and load all behaviors
    */
   async initialize(): Promise<void> {
+    this.actionExecutor.setBehaviorRunner((behaviorId, context) => this.runBehaviorById(behaviorId, context));
+    this.approvalQueue.initialize((approval, decision, decidedBy) => this.handleApprovalDecision(approval, decision, decidedBy));
+
+    if (this.trackingSystem) {
+      this.actionExecutor.setTrackingSystem(this.trackingSystem);
+      this.trackingSystem.onSessionEnd(session => this.handleTrackingEnd(session));
+    }
+
     await this.loadBehaviors();
     this.setupEventListeners();
     this.startMaintenanceJobs();
@@ -69,26 +180,198 @@ export class BehaviorEngine {
     const result = await this.db.query(query);
 
     this.behaviors.clear();
+    this.behaviorServers.clear();
 
     for (const row of result.rows) {
-      const behavior: BDLBehavior = {
-        id: row.id,
-        name: row.name,
-        description: row.description,
-        enabled: row.enabled,
-        trigger: row.trigger,
-        tracking: row.tracking,
-        analysis: row.analysis,
-        actions: row.actions,
-        safety: row.safety
-      };
-
+      const behavior = this.toBehavior(row);
       this.behaviors.set(behavior.id!, behavior);
+      this.behaviorServers.set(behavior.id!, row.server_id);
     }
 
+    this.registerTriggers();
+
     logger.info(`Loaded ${this.behaviors.size} active behaviors`);
   }
 
+  /**
+   * Register cron jobs and condition pollers for non-event triggers.
+   * Called on every (re)load so disabled or edited behaviors drop their old jobs.
+   */
+  private registerTriggers(): void {
+    this.stopTriggers();
+
+    for (const behavior of this.behaviors.values()) {
+      this.registerTrigger(behavior);
+    }
+
+    logger.info(`Registered ${this.scheduledJobs.size} scheduled and ${this.conditionTimers.size} condition triggers`);
+  }
+
+  /**
+   * Register the cron job or condition poller for one behavior (event and
+   * pattern triggers need none)
+   */
+  private registerTrigger(behavior: BDLBehavior): void {
+    if (behavior.trigger?.type === 'schedule') {
+      this.registerScheduleTrigger(behavior);
+    } else if (behavior.trigger?.type === 'condition') {
+      this.registerConditionTrigger(behavior);
+    }
+  }
+
+  /**
+   * Stop all cron jobs and condition pollers
+   */
+  private stopTriggers(): void {
+    for (const job of this.scheduledJobs.values()) {
+      job.stop();
+    }
+    this.scheduledJobs.clear();
+
+    for (const timer of this.conditionTimers.values()) {
+      clearInterval(timer);
+    }
+    this.conditionTimers.clear();
+
+    // Keep pattern windows only for behaviors that are still loaded
+    for (const key of this.patternWindows.keys()) {
+      if (!this.behaviors.has(key.split(':')[0])) {
+        this.patternWindows.delete(key);
+      }
+    }
+    for (const key of this.conditionStates.keys()) {
+      if (!this.behaviors.has(key)) {
+        this.conditionStates.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Register a cron job for a schedule trigger
+   */
+  private registerScheduleTrigger(behavior: BDLBehavior): void {
+    const { cron: expression, timezone } = behavior.trigger;
+
+    if (!expression || !cron.validate(expression)) {
+      logger.warn(`Behavior ${behavior.name} has invalid cron expression: ${expression}`);
+      return;
+    }
+
+    try {
+      const job = cron.schedule(expression, async () => {
+        await this.fireTrigger(behavior, 'schedule', {
+          cron: expression,
+          timezone: timezone || 'UTC'
+        });
+      }, {
+        timezone: timezone || 'UTC',
+        name: `behavior-${behavior.id}`
+      });
+
+      this.scheduledJobs.set(behavior.id!, job);
+      logger.debug(`Scheduled behavior ${behavior.name} (${expression} ${timezone || 'UTC'})`);
+    } catch (error) {
+      logger.error(`Failed to schedule behavior ${behavior.name}:`, error);
+    }
+  }
+
+  /**
+   * Register a periodic poller for a condition trigger.
+   * Fires only when the check transitions from false to true, so a condition that
+   * stays true does not re-fire on every interval.
+   */
+  private registerConditionTrigger(behavior: BDLBehavior): void {
+    const { check, interval } = behavior.trigger;
+
+    if (!check) {
+      logger.warn(`Behavior ${behavior.name} has condition trigger without a check`);
+      return;
+    }
+
+    const intervalMs = Math.max(parseDuration(interval, 5 * 60 * 1000), 10 * 1000);
+
+    const timer = setInterval(async () => {
+      try {
+        const serverId = this.behaviorServers.get(behavior.id!);
+        if (!serverId) return;
+
+        const state = this.buildServerState(serverId);
+        const result = this.conditionEvaluator.evaluateVariables(check, state);
+        const previous = this.conditionStates.get(behavior.id!) || false;
+        this.conditionStates.set(behavior.id!, result);
+
+        if (result && !previous) {
+          await this.fireTrigger(behavior, 'condition', { check, state });
+        }
+      } catch (error) {
+        logger.error(`Error checking condition for behavior ${behavior.name}:`, error);
+      }
+    }, intervalMs);
+
+    this.conditionTimers.set(behavior.id!, timer);
+  }
+
+  /**
+   * Execute a behavior fired by the scheduler (schedule or condition trigger)
+   */
+  private async fireTrigger(behavior: BDLBehavior, event: string, data: Record<string, any>): Promise<void> {
+    const serverId = this.behaviorServers.get(behavior.id!);
+    if (!serverId) {
+      logger.warn(`Cannot fire behavior ${behavior.name}: unknown server`);
+      return;
+    }
+
+    // Behavior may have been disabled since the job was registered
+    if (!this.behaviors.has(behavior.id!)) return;
+
+    await this.executeBehavior(behavior, {
+      serverId,
+      triggeredAt: new Date(),
+      event,
+      eventData: { serverId, ...data }
+    });
+  }
+
+  /**
+   * Snapshot of server state used by condition triggers
+   */
+  private buildServerState(serverId: string): Record<string, any> {
+    const guild = this.discordClient.guilds.cache.get(serverId);
+
+    const server = {
+      id: serverId,
+      memberCount: guild?.memberCount || 0,
+      channelCount: guild?.channels.cache.size || 0,
+      roleCount: guild?.roles.cache.size || 0,
+      boostCount: guild?.premiumSubscriptionCount || 0,
+      messagesLastHour: this.getActivityCount(serverId, 'messageCreate'),
+      joinsLastHour: this.getActivityCount(serverId, 'guildMemberAdd'),
+      leavesLastHour: this.getActivityCount(serverId, 'guildMemberRemove'),
+      reactionsLastHour: this.getActivityCount(serverId, 'messageReactionAdd')
+    };
+
+    return { server, ...server };
+  }
+
+  /**
+   * Record an event in the per-server activity window (last hour)
+   */
+  private recordActivity(serverId: string, eventName: string): void {
+    const key = `${serverId}:${eventName}`;
+    const cutoff = Date.now() - 60 * 60 * 1000;
+    const timestamps = (this.serverActivity.get(key) || []).filter(t => t >= cutoff);
+    timestamps.push(Date.now());
+    this.serverActivity.set(key, timestamps);
+  }
+
+  /**
+   * Count events of a type in the last hour
+   */
+  private getActivityCount(serverId: string, eventName: string): number {
+    const cutoff = Date.now() - 60 * 60 * 1000;
+    return (this.serverActivity.get(`${serverId}:${eventName}`) || []).filter(t => t >= cutoff).length;
+  }
+
   /**
    * Setup Discord event listeners
    */
@@ -186,6 +469,10 @@ export class BehaviorEngine {
     try {
       const { serverId } = eventData;
 
+      if (serverId) {
+        this.recordActivity(serverId, eventName);
+      }
+
       // Find behaviors triggered by this event
       const matchedBehaviors = this.findMatchingBehaviors(eventName, eventData);
 
@@ -216,7 +503,9 @@ export class BehaviorEngine {
     const matched: BDLBehavior[] = [];
 
     for (const behavior of this.behaviors.values()) {
-      if (this.doesTriggerMatch(behavior.trigger, eventName, eventData)) {
+      if (this.behaviorServers.get(behavior.id!) !== eventData.serverId) continue;
+
+      if (this.doesTriggerMatch(behavior, eventName, eventData)) {
         matched.push(behavior);
       }
     }
@@ -227,88 +516,238 @@ export class BehaviorEngine {
   /**
    * Check if trigger matches event
    */
-  private doesTriggerMatch(trigger: BDLTrigger, eventName: string, eventData: any): boolean {
+  private doesTriggerMatch(behavior: BDLBehavior, eventName: string, eventData: any): boolean {
+    return this.explainTrigger(behavior, eventName, eventData, this.patternWindows, Date.now()).matched;
+  }
+
+  /**
+   * Match a behavior's trigger against an event and explain the result.
+   * Pattern windows and the clock are passed in so the sandbox can replay
+   * events on a simulated timeline without touching live rate windows.
+   */
+  explainTrigger(
+    behavior: BDLBehavior,
+    eventName: string,
+    eventData: any,
+    windows: Map<string, number[]>,
+    now: number
+  ): TriggerTrace {
+    const trigger = behavior.trigger;
+
     // Event trigger
-    if (trigger.type === 'event' && trigger.event === eventName) {
-      // Check filters
-      if (trigger.filters) {
-        return this.checkFilters(trigger.filters, eventData);
+    if (trigger.type === 'event') {
+      if (trigger.event !== eventName) {
+        return { matched: false, reason: `Waiting for ${trigger.event}, got ${eventName}`, filters: [] };
       }
-      return true;
+
+      const filters = trigger.filters ? this.explainFilters(trigger.filters, eventData) : [];
+      const failed = filters.filter(f => !f.passed);
+      return {
+        matched: failed.length === 0,
+        reason: failed.length === 0 ? `Event ${eventName} matched` : `Filter ${failed.map(f => f.filter).join(', ')} did not match`,
+        filters
+      };
     }
 
     // Schedule trigger (handled separately by cron jobs)
     if (trigger.type === 'schedule') {
-      return false;
+      return { matched: false, reason: 'Schedule triggers fire from cron, not events', filters: [] };
     }
 
     // Condition trigger (checked periodically)
     if (trigger.type === 'condition') {
-      return false;
+      return { matched: false, reason: 'Condition triggers are checked periodically, not on events', filters: [] };
     }
 
-    // Pattern trigger (requires analysis)
+    // Pattern trigger (matched against the event stream)
     if (trigger.type === 'pattern') {
-      return false;
+      return this.explainPattern(behavior, eventName, eventData, windows, now);
+    }
+
+    return { matched: false, reason: `Unknown trigger type ${trigger.type}`, filters: [] };
+  }
+
+  /**
+   * Match a pattern trigger against the event stream.
+   *
+   * Supports rate patterns ("5 messages in 10 seconds", "3 links in 1 minute",
+   * "10 joins in 1 minute"), counted per user by default or per channel/server
+   * via trigger.scope. Any other pattern is treated as a regex over message content.
+   */
+  private explainPattern(
+    behavior: BDLBehavior,
+    eventName: string,
+    eventData: any,
+    windows: Map<string, number[]>,
+    now: number
+  ): TriggerTrace {
+    const trigger = behavior.trigger;
+    if (!trigger.pattern) {
+      return { matched: false, reason: 'Pattern trigger has no pattern', filters: [] };
+    }
+
+    const filters = trigger.filters ? this.explainFilters(trigger.filters, eventData) : [];
+    const failed = filters.filter(f => !f.passed);
+    if (failed.length > 0) {
+      return { matched: false, reason: `Filter ${failed.map(f => f.filter).join(', ')} did not match`, filters };
+    }
+
+    const rate = this.parseRatePattern(trigger.pattern);
+
+    // Plain content pattern
+    if (!rate) {
+      if (eventName !== 'messageCreate' || !eventData.message) {
+        return { matched: false, reason: 'Content patterns only match messageCreate', filters };
+      }
+      try {
+        const matched = new RegExp(trigger.pattern, 'i').test((eventData.message as Message).content);
+        return { matched, reason: matched ? `Content matched /${trigger.pattern}/` : `Content did not match /${trigger.pattern}/`, filters };
+      } catch {
+        logger.warn(`Behavior ${behavior.name} has invalid pattern: ${trigger.pattern}`);
+        return { matched: false, reason: `Invalid pattern: ${trigger.pattern}`, filters };
+      }
+    }
+
+    if (rate.event !== eventName) {
+      return { matched: false, reason: `Rate pattern counts ${rate.event}, got ${eventName}`, filters };
+    }
+    if (rate.contentFilter && (!eventData.message || !rate.contentFilter(eventData.message))) {
+      return { matched: false, reason: 'Event does not count towards the pattern', filters };
+    }
+
+    let scopeKey: string;
+    switch (trigger.scope) {
+      case 'channel':
+        scopeKey = eventData.triggeredChannelId || 'none';
+        break;
+      case 'server':
+        scopeKey = 'server';
+        break;
+      default:
+        scopeKey = eventData.triggeredBy || 'unknown';
+    }
+
+    const key = `${behavior.id}:${scopeKey}`;
+    const timestamps = (windows.get(key) || []).filter(t => now - t < rate.windowMs);
+    timestamps.push(now);
+
+    if (timestamps.length >= rate.count) {
+      // Reset window so a sustained burst fires once per window, not once per event
+      windows.delete(key);
+      return { matched: true, reason: `Pattern "${trigger.pattern}" reached ${timestamps.length}/${rate.count}`, filters };
     }
 
-    return false;
+    windows.set(key, timestamps);
+    return { matched: false, reason: `Pattern "${trigger.pattern}" at ${timestamps.length}/${rate.count}`, filters };
   }
 
   /**
-   * Check trigger filters
+   * Parse a rate pattern like "5 messages in 10 seconds"
    */
-  private checkFilters(filters: Record<string, any>, eventData: any): boolean {
+  private parseRatePattern(pattern: string): RatePattern | null {
+    const match = pattern.trim().match(
+      /^(\d+)\s+(messages?|links?|mentions?|attachments?|joins?|leaves?|reactions?)\s+in\s+(\d+)\s*(s|sec|secs|seconds?|m|min|mins|minutes?|h|hours?)$/i
+    );
+    if (!match) return null;
+
+    const count = parseInt(match[1]);
+    const noun = match[2].toLowerCase().replace(/s$/, '');
+    const amount = parseInt(match[3]);
+    const unit = match[4].toLowerCase()[0];
+    const windowMs = amount * (unit === 's' ? 1000 : unit === 'm' ? 60 * 1000 : 60 * 60 * 1000);
+
+    switch (noun) {
+      case 'message':
+        return { count, event: 'messageCreate', windowMs };
+      case 'link':
+        return { count, event: 'messageCreate', windowMs, contentFilter: m => /https?:\/\//.test(m.content) };
+      case 'mention':
+        return { count, event: 'messageCreate', windowMs, contentFilter: m => m.mentions.users.size > 0 };
+      case 'attachment':
+        return { count, event: 'messageCreate', windowMs, contentFilter: m => m.attachments.size > 0 };
+      case 'join':
+        return { count, event: 'guildMemberAdd', windowMs };
+      case 'leave':
+        return { count, event: 'guildMemberRemove', windowMs };
+      case 'reaction':
+        return { count, event: 'messageReactionAdd', windowMs };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Check trigger filters. Filters that need data the event does not carry
+   * (e.g. roleId without a member) are not applied.
+   */
+  private explainFilters(filters: Record<string, any>, eventData: any): FilterCheck[] {
+    const checks: FilterCheck[] = [];
+
     // Channel filter
-    if (filters.channelId && filters.channelId !== eventData.triggeredChannelId) {
-      return false;
+    if (filters.channelId) {
+      checks.push({
+        filter: 'channelId',
+        expected: filters.channelId,
+        actual: eventData.triggeredChannelId,
+        passed: filters.channelId === eventData.triggeredChannelId
+      });
     }
 
     // User filter
-    if (filters.userId && filters.userId !== eventData.triggeredBy) {
-      return false;
+    if (filters.userId) {
+      checks.push({
+        filter: 'userId',
+        expected: filters.userId,
+        actual: eventData.triggeredBy,
+        passed: filters.userId === eventData.triggeredBy
+      });
     }
 
     // Role filter (requires member object)
     if (filters.roleId && eventData.member) {
       const member = eventData.member as GuildMember;
-      if (!member.roles.cache.has(filters.roleId)) {
-        return false;
-      }
+      const hasRole = member.roles.cache.has(filters.roleId);
+      checks.push({ filter: 'roleId', expected: filters.roleId, actual: hasRole, passed: hasRole });
     }
 
     // Content match filter
     if (filters.contentMatches && eventData.message) {
       const message = eventData.message as Message;
-      const regex = new RegExp(filters.contentMatches, 'i');
-      if (!regex.test(message.content)) {
-        return false;
+      let passed = false;
+      try {
+        passed = new RegExp(filters.contentMatches, 'i').test(message.content);
+      } catch {
+        logger.warn(`Invalid contentMatches filter: ${filters.contentMatches}`);
       }
+      checks.push({ filter: 'contentMatches', expected: filters.contentMatches, actual: message.content, passed });
     }
 
     // Has links filter
     if (filters.hasLinks !== undefined && eventData.message) {
       const message = eventData.message as Message;
       const hasLinks = /https?:\/\//.test(message.content);
-      if (hasLinks !== filters.hasLinks) {
-        return false;
-      }
+      checks.push({ filter: 'hasLinks', expected: filters.hasLinks, actual: hasLinks, passed: hasLinks === filters.hasLinks });
     }
 
     // Has attachments filter
     if (filters.hasAttachments !== undefined && eventData.message) {
       const message = eventData.message as Message;
       const hasAttachments = message.attachments.size > 0;
-      if (hasAttachments !== filters.hasAttachments) {
-        return false;
-      }
+      checks.push({
+        filter: 'hasAttachments',
+        expected: filters.hasAttachments,
+        actual: hasAttachments,
+        passed: hasAttachments === filters.hasAttachments
+      });
     }
 
-    return true;
+    return checks;
   }
 
   /**
-   * Execute a behavior
+   * Execute a behavior.
+   * Behaviors with tracking start a session and resume in handleTrackingEnd
+   * once the session has collected its data.
    */
   async executeBehavior(behavior: BDLBehavior, context: ExecutionContext): Promise<void> {
     const startTime = Date.now();
@@ -328,54 +767,295 @@ export class BehaviorEngine {
         return;
       }
 
-      // Start tracking if configured
+      // Start tracking if configured; analysis and actions run when the session ends
       if (behavior.tracking?.enabled) {
-        await this.startTracking(behavior, context, executionId);
+        if (this.trackingSystem) {
+          await this.startTracking(behavior, context, executionId);
+          await this.db.query('UPDATE behavior_executions SET status = $1 WHERE id = $2', ['tracking', executionId]);
+          logger.info(`Behavior ${behavior.name} is tracking; analysis deferred until the session ends`);
+          return;
+        }
+
+        logger.warn(`No TrackingSystem attached; running ${behavior.name} without tracking`);
       }
 
+    } catch (error) {
+      await this.failExecution(behavior, executionId, startTime, error, []);
+      return;
+    }
+
+    await this.completeExecution(behavior, context, executionId, startTime);
+  }
+
+  /**
+   * Run analysis and actions for an execution and record the outcome
+   */
+  private async completeExecution(
+    behavior: BDLBehavior,
+    context: ExecutionContext,
+    executionId: number,
+    startTime: number,
+    trackingData?: Record<string, any>
+  ): Promise<void> {
+    const actionResults: ActionOutcome[] = [];
+
+    try {
       // Run analysis if configured
       let analysisResult: any = undefined;
       if (behavior.analysis && behavior.analysis.type !== 'none') {
-        analysisResult = await this.runAnalysis(behavior, context);
+        analysisResult = await this.runAnalysis(behavior, context, trackingData);
       }
 
       // Execute actions
       let actionsExecuted = 0;
-      for (const action of behavior.actions) {
-        const shouldExecute = await this.shouldExecuteAction(action, context, analysisResult);
-        if (shouldExecute) {
-          await this.executeAction(action, context, analysisResult);
-          actionsExecuted++;
+      for (let index = 0; index < behavior.actions.length; index++) {
+        const action = behavior.actions[index];
+
+        const shouldExecute = await this.shouldExecuteAction(action, context, analysisResult, trackingData);
+        if (!shouldExecute) {
+          actionResults.push({ index, type: action.type, status: 'skipped', attempts: 0 });
+          continue;
+        }
+
+        // Sandboxed behaviors record what they would have done
+        if (behavior.safety?.sandbox) {
+          actionResults.push({ index, type: action.type, status: 'simulated', attempts: 0 });
+          logger.info(`[sandbox] Behavior ${behavior.name} would run ${action.type}`);
+          continue;
+        }
+
+        // Park in the approval queue instead of running
+        if (behavior.safety?.requireModApproval && !APPROVAL_EXEMPT_ACTIONS.includes(action.type)) {
+          const approvalId = await this.approvalQueue.enqueue(
+            behavior.name,
+            behavior.id!,
+            executionId,
+            index,
+            action,
+            context,
+            analysisResult,
+            behavior.safety.approvalChannelId
+          );
+          actionResults.push({ index, type: action.type, status: 'pending_approval', attempts: 0, approvalId });
+          continue;
         }
+
+        const outcome = await this.runActionWithRetries(behavior, action, index, context, analysisResult);
+        actionResults.push(outcome);
+
+        if (outcome.status === 'failed') {
+          throw new Error(`Action ${action.type} failed after ${outcome.attempts} attempt(s): ${outcome.error}`);
+        }
+
+        actionsExecuted++;
       }
 
       // Update execution record
       const executionTime = Date.now() - startTime;
-      await this.updateExecutionRecord(executionId, 'completed', actionsExecuted, analysisResult, undefined, executionTime);
+      await this.updateExecutionRecord(executionId, 'completed', actionsExecuted, analysisResult, undefined, executionTime, actionResults);
 
       // Increment behavior execution count
       await this.db.query('SELECT increment_behavior_execution($1)', [behavior.id]);
+      this.consecutiveFailures.delete(behavior.id!);
 
-      logger.info(`Behavior ${behavior.name} executed successfully (${actionsExecuted} actions in ${executionTime}ms)`);
+      logger.info(`Behavior ${behavior.name} executed successfully (${actionsExecuted} actions in ${executionTime}ms${behavior.safety?.sandbox ? ', sandbox' : ''})`);
 
     } catch (error) {
-      const executionTime = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await this.failExecution(behavior, executionId, startTime, error, actionResults);
+    }
+  }
+
+  /**
+   * Record a failed execution
+   */
+  private async failExecution(
+    behavior: BDLBehavior,
+    executionId: number | null,
+    startTime: number,
+    error: unknown,
+    actionResults: ActionOutcome[]
+  ): Promise<void> {
+    const executionTime = Date.now() - startTime;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    logger.error(`Behavior ${behavior.name} execution failed:`, error);
+
+    if (executionId) {
+      const actionsExecuted = actionResults.filter(r => r.status === 'executed').length;
+      await this.updateExecutionRecord(executionId, 'failed', actionsExecuted, undefined, errorMessage, executionTime, actionResults);
+    }
+
+    await this.handleBehaviorFailure(behavior, errorMessage);
+  }
+
+  /**
+   * Resume an execution when its tracking session completes or expires:
+   * run analysis over the collected dataset, then the actions
+   */
+  private async handleTrackingEnd(session: TrackingSession): Promise<void> {
+    const behavior = this.behaviors.get(session.behaviorId);
+
+    if (!behavior) {
+      await this.updateExecutionRecord(session.executionId, 'skipped', 0, undefined, 'Behavior disabled before tracking ended');
+      return;
+    }
+
+    const context: ExecutionContext = session.context || {
+      serverId: session.serverId,
+      triggeredBy: session.targetType === 'user' ? session.targetId : undefined,
+      triggeredAt: session.startedAt,
+      event: 'tracking',
+      eventData: {}
+    };
+
+    const trackingData = this.trackingSystem!.buildDataset(session);
+
+    logger.info(`Tracking session ${session.id} ended (${session.status}); resuming behavior ${behavior.name}`);
+
+    await this.completeExecution(
+      behavior,
+      { ...context, eventData: { ...context.eventData, trackingSessionId: session.id } },
+      session.executionId,
+      Date.now(),
+      trackingData
+    );
+  }
+
+  /**
+   * Run a single action, retrying up to safety.errorRetries times
+   */
+  private async runActionWithRetries(
+    behavior: BDLBehavior,
+    action: BDLAction,
+    index: number,
+    context: ExecutionContext,
+    analysisResult: any
+  ): Promise<ActionOutcome> {
+    const maxAttempts = 1 + Math.max(0, behavior.safety?.errorRetries || 0);
+    const startTime = Date.now();
+    let lastError = 'Unknown error';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+        await this.executeAction(action, context, analysisResult);
+        return { index, type: action.type, status: 'executed', attempts: attempt, durationMs: Date.now() - startTime };
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`Action ${action.type} of ${behavior.name} failed (attempt ${attempt}/${maxAttempts}): ${lastError}`);
+
+        if (attempt < maxAttempts) {
+          await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+        }
+      }
+    }
+
+    return { index, type: action.type, status: 'failed', attempts: maxAttempts, error: lastError, durationMs: Date.now() - startTime };
+  }
+
+  /**
+   * Record a failed execution and auto-disable the behavior if it keeps failing
+   */
+  private async handleBehaviorFailure(behavior: BDLBehavior, errorMessage: string): Promise<void> {
+    // Record error (the DB function also disables after too many total errors)
+    await this.db.query('SELECT record_behavior_error($1, $2)', [behavior.id, errorMessage]);
+
+    const failures = (this.consecutiveFailures.get(behavior.id!) || 0) + 1;
+    this.consecutiveFailures.set(behavior.id!, failures);
+
+    const limit = behavior.safety?.disableAfterFailures || DEFAULT_DISABLE_AFTER_FAILURES;
+
+    if (behavior.safety?.disableOnErrors && failures >= limit) {
+      await this.db.query(
+        'UPDATE dynamic_behaviors SET enabled = false, last_error = $2 WHERE id = $1',
+        [behavior.id, `Auto-disabled after ${failures} consecutive failures: ${errorMessage}`]
+      );
+      logger.warn(`Behavior ${behavior.name} auto-disabled after ${failures} consecutive failures`);
+      this.unloadBehavior(behavior.id!);
+      return;
+    }
 
-      logger.error(`Behavior ${behavior.name} execution failed:`, error);
+    const result = await this.db.query('SELECT enabled FROM dynamic_behaviors WHERE id = $1', [behavior.id]);
+    if (result.rows[0]?.enabled === false) {
+      logger.warn(`Behavior ${behavior.name} auto-disabled after too many errors`);
+      this.unloadBehavior(behavior.id!);
+    }
+  }
 
-      if (executionId) {
-        await this.updateExecutionRecord(executionId, 'failed', 0, undefined, errorMessage, executionTime);
+  /**
+   * Run or drop an action a moderator decided on
+   */
+  private async handleApprovalDecision(approval: PendingApproval, decision: ApprovalDecision, decidedBy?: string): Promise<void> {
+    const behavior = this.behaviors.get(approval.behaviorId);
+
+    let outcome: ActionOutcome = {
+      index: approval.actionIndex,
+      type: approval.action.type,
+      status: decision,
+      attempts: 0,
+      approvalId: approval.id
+    };
+
+    if (decision === 'approved') {
+      if (!behavior) {
+        throw new Error('Behavior is disabled or no longer exists');
       }
 
-      // Record error
-      await this.db.query('SELECT record_behavior_error($1, $2)', [behavior.id, errorMessage]);
+      const result = await this.runActionWithRetries(behavior, approval.action, approval.actionIndex, approval.context, approval.analysisResult);
+      outcome = { ...result, status: result.status === 'executed' ? 'approved' : 'failed', approvalId: approval.id };
+    }
+
+    await this.updateActionResult(approval.executionId, outcome);
+
+    logger.info(`Approval #${approval.id} for ${approval.behaviorName} ${decision}${decidedBy ? ` by ${decidedBy}` : ''}`);
 
-      // Reload behaviors if this one was auto-disabled
-      await this.loadBehaviors();
+    if (outcome.status === 'failed') {
+      if (behavior) {
+        await this.handleBehaviorFailure(behavior, outcome.error || 'Unknown error');
+      }
+      throw new Error(outcome.error || 'Action failed');
     }
   }
 
+  /**
+   * Decide a pending approval outside Discord (e.g. from the API)
+   */
+  async decideApproval(approvalId: number, approve: boolean, decidedBy: string): Promise<ApprovalDecision | null> {
+    return this.approvalQueue.decide(approvalId, approve, decidedBy);
+  }
+
+  /**
+   * List actions waiting for moderator approval
+   */
+  async getPendingApprovals(serverId: string): Promise<any[]> {
+    return this.approvalQueue.listPending(serverId);
+  }
+
+  /**
+   * Run another behavior on behalf of a runBehavior action
+   */
+  private async runBehaviorById(behaviorId: string, context: ExecutionContext): Promise<void> {
+    const behavior = this.behaviors.get(behaviorId);
+    if (!behavior) {
+      throw new Error(`Behavior ${behaviorId} not found or disabled`);
+    }
+
+    if (this.behaviorServers.get(behaviorId) !== context.serverId) {
+      throw new Error(`Behavior ${behaviorId} belongs to another server`);
+    }
+
+    const chain: string[] = context.eventData?.behaviorChain || [];
+    if (behavior.safety?.preventInfiniteLoops !== false && chain.includes(behaviorId)) {
+      throw new Error(`Behavior loop detected: ${[...chain, behaviorId].join(' -> ')}`);
+    }
+
+    await this.executeBehavior(behavior, {
+      ...context,
+      triggeredAt: new Date(),
+      event: 'runBehavior',
+      eventData: { ...context.eventData, behaviorChain: [...chain, behaviorId] }
+    });
+  }
+
   /**
    * Create execution record in database
    */
@@ -408,7 +1088,8 @@ export class BehaviorEngine {
     actionsExecuted: number,
     analysisResult?: any,
     error?: string,
-    executionTimeMs?: number
+    executionTimeMs?: number,
+    actionResults?: ActionOutcome[]
   ): Promise<void> {
     const query = `
       UPDATE behavior_executions
@@ -417,8 +1098,9 @@ export class BehaviorEngine {
           analysis_result = $3,
           error = $4,
           execution_time_ms = $5,
+          action_results = $6,
           completed_at = CURRENT_TIMESTAMP
-      WHERE id = $6
+      WHERE id = $7
     `;
 
     await this.db.query(query, [
@@ -427,6 +1109,32 @@ export class BehaviorEngine {
       analysisResult ? JSON.stringify(analysisResult) : null,
       error,
       executionTimeMs,
+      JSON.stringify(actionResults || []),
+      executionId
+    ]);
+  }
+
+  /**
+   * Replace one action's outcome on an execution record (after an approval decision)
+   */
+  private async updateActionResult(executionId: number, outcome: ActionOutcome): Promise<void> {
+    const query = `
+      UPDATE behavior_executions
+      SET action_results = (
+            SELECT COALESCE(jsonb_agg(
+              CASE WHEN (elem->>'index')::int = $1 THEN $2::jsonb ELSE elem END
+              ORDER BY ord
+            ), '[]'::jsonb)
+            FROM jsonb_array_elements(COALESCE(action_results, '[]'::jsonb)) WITH ORDINALITY AS t(elem, ord)
+          ),
+          actions_executed = actions_executed + $3
+      WHERE id = $4
+    `;
+
+    await this.db.query(query, [
+      outcome.index,
+      JSON.stringify(outcome),
+      outcome.status === 'approved' ? 1 : 0,
       executionId
     ]);
   }
@@ -477,39 +1185,90 @@ export class BehaviorEngine {
   }
 
   /**
-   * Start tracking session (placeholder - will be implemented in TrackingSystem)
+   * Start a tracking session for the behavior
    */
   private async startTracking(behavior: BDLBehavior, context: ExecutionContext, executionId: number): Promise<void> {
     logger.debug(`Starting tracking for behavior ${behavior.name}`);
-    // TODO: Implement in TrackingSystem.ts
+    await this.trackingSystem!.startTracking(behavior.id!, executionId, context.serverId, behavior.tracking!, context);
   }
 
   /**
-   * Run analysis (placeholder - will integrate with analysis systems)
+   * Run the behavior's analysis step (rules, threshold, pattern or AI)
    */
-  private async runAnalysis(behavior: BDLBehavior, context: ExecutionContext): Promise<any> {
-    logger.debug(`Running analysis for behavior ${behavior.name}`);
-    // TODO: Implement analysis logic
-    return {};
+  private async runAnalysis(behavior: BDLBehavior, context: ExecutionContext, trackingData?: Record<string, any>): Promise<any> {
+    logger.debug(`Running ${behavior.analysis!.type} analysis for behavior ${behavior.name}`);
+    return this.analyzer.analyze(behavior.analysis!, context, trackingData);
   }
 
   /**
-   * Check if action should execute (evaluate condition)
+   * Check if action should execute (evaluate condition against event data and analysis output)
    */
-  private async shouldExecuteAction(action: any, context: ExecutionContext, analysisResult: any): Promise<boolean> {
+  private async shouldExecuteAction(
+    action: BDLAction,
+    context: ExecutionContext,
+    analysisResult: any,
+    trackingData?: Record<string, any>
+  ): Promise<boolean> {
     if (!action.condition) return true;
 
-    // TODO: Implement ConditionEvaluator
-    // For now, always execute
-    return true;
+    return this.conditionEvaluator.evaluate(action.condition, context, analysisResult, trackingData);
+  }
+
+  /**
+   * Run analysis and evaluate action conditions without executing anything.
+   * Used by the sandbox to show what an execution would do.
+   */
+  async previewExecution(
+    behavior: BDLBehavior,
+    context: ExecutionContext,
+    trackingData?: Record<string, any>,
+    options: { skipAI?: boolean } = {}
+  ): Promise<ExecutionPreview> {
+    const preview: ExecutionPreview = { actions: [] };
+
+    if (behavior.analysis && behavior.analysis.type !== 'none') {
+      if (behavior.analysis.type === 'ai' && options.skipAI) {
+        preview.analysisError = 'AI analysis skipped in sandbox';
+      } else {
+        try {
+          preview.analysis = await this.runAnalysis(behavior, context, trackingData);
+        } catch (error) {
+          preview.analysisError = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+    }
+
+    for (let index = 0; index < behavior.actions.length; index++) {
+      const action = behavior.actions[index];
+      const conditionMet = await this.shouldExecuteAction(action, context, preview.analysis, trackingData);
+
+      preview.actions.push({
+        index,
+        type: action.type,
+        condition: action.condition,
+        conditionMet,
+        // A failed analysis fails the execution before any action runs
+        wouldExecute: conditionMet && !preview.analysisError,
+        requiresApproval: !!behavior.safety?.requireModApproval && !APPROVAL_EXEMPT_ACTIONS.includes(action.type),
+        ...this.actionExecutor.preview(action, context, preview.analysis)
+      });
+    }
+
+    return preview;
   }
 
   /**
-   * Execute an action (placeholder - will be implemented in ActionExecutor)
+   * Replay recorded or synthetic events through a behavior without touching Discord
    */
-  private async executeAction(action: any, context: ExecutionContext, analysisResult: any): Promise<void> {
-    logger.debug(`Executing action: ${action.type}`);
-    // TODO: Implement in ActionExecutor.ts
+  async simulate(behavior: BDLBehavior, events: SimulatedEvent[] | null, options: SandboxOptions): Promise<SandboxTrace> {
+    return this.sandbox.run(behavior, events, options);
+  }
+
+  /**
+   * Execute an action through the ActionExecutor
+   */
+  private async executeAction(action: BDLAction, context: ExecutionContext, analysisResult: any): Promise<void> {
+    await this.actionExecutor.execute(action, context, analysisResult);
   }
 
   /**
@@ -517,7 +1276,10 @@ export class BehaviorEngine {
    */
   private startMaintenanceJobs(): void {
     // Clean up expired tracking sessions every 5 minutes
+    // (an attached TrackingSystem expires its own sessions and delivers their data)
     setInterval(async () => {
+      if (this.trackingSystem) return;
+
       try {
         const result = await this.db.query('SELECT cleanup_expired_tracking()');
         const cleaned = result.rows[0].cleanup_expired_tracking;
@@ -540,6 +1302,53 @@ export class BehaviorEngine {
     await this.loadBehaviors();
   }
 
+  /**
+   * Reload a single behavior after it was edited, enabled or disabled,
+   * leaving every other behavior's triggers running
+   */
+  async reloadBehavior(behaviorId: string): Promise<void> {
+    this.unloadBehavior(behaviorId);
+
+    const result = await this.db.query('SELECT * FROM dynamic_behaviors WHERE id = $1 AND enabled = true', [behaviorId]);
+    if (result.rows.length === 0) return;
+
+    const row = result.rows[0];
+    const behavior = this.toBehavior(row);
+    this.behaviors.set(behaviorId, behavior);
+    this.behaviorServers.set(behaviorId, row.server_id);
+    this.registerTrigger(behavior);
+  }
+
+  /**
+   * Drop one behavior and stop its cron job or condition poller
+   */
+  private unloadBehavior(behaviorId: string): void {
+    this.scheduledJobs.get(behaviorId)?.stop();
+    this.scheduledJobs.delete(behaviorId);
+
+    const timer = this.conditionTimers.get(behaviorId);
+    if (timer) clearInterval(timer);
+    this.conditionTimers.delete(behaviorId);
+
+    this.behaviors.delete(behaviorId);
+    this.behaviorServers.delete(behaviorId);
+    this.consecutiveFailures.delete(behaviorId);
+    this.conditionStates.delete(behaviorId);
+    for (const key of this.patternWindows.keys()) {
+      if (key.split(':')[0] === behaviorId) {
+        this.patternWindows.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Stop all scheduled and condition triggers
+   */
+  shutdown(): void {
+    this.stopTriggers();
+    logger.info('BehaviorEngine triggers stopped');
+  }
+
   /**
    * Get behavior by ID
    */
@@ -552,9 +1361,23 @@ export class BehaviorEngine {
    */
   getServerBehaviors(serverId: string): BDLBehavior[] {
     return Array.from(this.behaviors.values()).filter(b =>
-      b.trigger && (b.trigger as any).serverId === serverId
+      this.behaviorServers.get(b.id!) === serverId
     );
   }
+
+  private toBehavior(row: any): BDLBehavior {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      enabled: row.enabled,
+      trigger: row.trigger,
+      tracking: row.tracking,
+      analysis: row.analysis,
+      actions: row.actions,
+      safety: row.safety
+    };
+  }
 }
 
 /**
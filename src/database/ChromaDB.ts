@@ -404,6 +404,94 @@ export class ChromaDBService {
     return count;
   }
 
+  /**
+   * Message and behavior documents stored for a user (data subject export)
+   */
+  async getUserDocuments(userId: string, serverId?: string): Promise<Array<{
+    collection: string;
+    id: string;
+    document: string | null;
+    metadata: Record<string, any> | null;
+  }>> {
+    const documents = [];
+
+    for (const [name, collection] of this.userCollections()) {
+      const result = await collection.get({
+        where: this.userFilter(userId, serverId),
+        include: [IncludeEnum.documents, IncludeEnum.metadatas]
+      });
+
+      result.ids.forEach((id, i) => {
+        documents.push({ collection: name, id, document: result.documents[i], metadata: result.metadatas[i] });
+      });
+    }
+
+    return documents;
+  }
+
+  /**
+   * Delete a user's message and behavior documents, returning how many were deleted
+   */
+  async deleteUserDocuments(userId: string, serverId?: string): Promise<number> {
+    let deleted = 0;
+
+    for (const [name, collection] of this.userCollections()) {
+      const where = this.userFilter(userId, serverId);
+      const existing = await collection.get({ where, include: [] });
+      if (existing.ids.length === 0) continue;
+
+      await collection.delete({ ids: existing.ids });
+      deleted += existing.ids.length;
+      logger.info(`Deleted ${existing.ids.length} ${name} documents of user ${userId}`);
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Delete message and conversation documents older than `before` (epoch ms),
+   * except those `keep` vetoes. Returns how many were (or in a dry run would be) deleted.
+   */
+  async expireDocuments(
+    before: number,
+    options: {
+      serverId?: string;
+      excludeServerIds?: string[];
+      keep?: (metadata: Record<string, any>) => boolean;
+      dryRun?: boolean;
+    } = {}
+  ): Promise<{ expired: number; kept: number }> {
+    if (!this.collections.messages || !this.collections.conversations) {
+      throw new Error('ChromaDB collections not initialized');
+    }
+
+    const filters: Record<string, any>[] = [{ timestamp: { $lt: before } }];
+    if (options.serverId) {
+      filters.push({ serverId: options.serverId });
+    } else if (options.excludeServerIds?.length) {
+      filters.push({ serverId: { $nin: options.excludeServerIds } });
+    }
+    const where = filters.length > 1 ? { $and: filters } : filters[0];
+
+    let expired = 0;
+    let kept = 0;
+
+    for (const [name, collection] of [['messages', this.collections.messages], ['conversations', this.collections.conversations]] as const) {
+      const existing = await collection.get({ where, include: [IncludeEnum.metadatas] });
+      const ids = existing.ids.filter((_, i) => !options.keep?.(existing.metadatas[i] || {}));
+      kept += existing.ids.length - ids.length;
+      if (ids.length === 0) continue;
+
+      if (!options.dryRun) {
+        await collection.delete({ ids });
+        logger.info(`Expired ${ids.length} ${name} documents`);
+      }
+      expired += ids.length;
+    }
+
+    return { expired, kept };
+  }
+
   /**
    * Test connection
    */
@@ -432,6 +520,20 @@ export class ChromaDBService {
     }
   }
 
+  /**
+   * Collections whose documents carry a userId
+   */
+  private userCollections(): Array<[string, Collection]> {
+    if (!this.collections.messages || !this.collections.userBehaviors) {
+      throw new Error('ChromaDB collections not initialized');
+    }
+    return [['messages', this.collections.messages], ['user_behaviors', this.collections.userBehaviors]];
+  }
+
+  private userFilter(userId: string, serverId?: string): Record<string, any> {
+    return serverId ? { $and: [{ userId }, { serverId }] } : { userId };
+  }
+
   /**
    * Generic method to add document to any collection (for PatternRecognition compatibility)
    */
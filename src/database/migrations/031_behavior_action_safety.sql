@@ -0,0 +1,46 @@
+-- =====================================================
+-- BEHAVIOR ACTION SAFETY
+-- Per-action outcomes and moderator approval queue
+-- =====================================================
+
+-- Per-action outcomes for each execution
+-- [{ index, type, status, attempts, error, approvalId, durationMs }]
+ALTER TABLE behavior_executions
+ADD COLUMN IF NOT EXISTS action_results JSONB DEFAULT '[]';
+
+-- Table: behavior_action_approvals
+-- Actions parked until a moderator approves or denies them (safety.requireModApproval)
+CREATE TABLE IF NOT EXISTS behavior_action_approvals (
+    id SERIAL PRIMARY KEY,
+    behavior_id VARCHAR(255) NOT NULL,
+    execution_id INTEGER,
+    action_index INTEGER NOT NULL,
+    server_id VARCHAR(255) NOT NULL,
+
+    -- What would run
+    action JSONB NOT NULL,
+    context JSONB NOT NULL,
+    analysis_result JSONB,
+
+    -- Approval message
+    channel_id VARCHAR(255),
+    message_id VARCHAR(255),
+
+    -- Decision
+    status VARCHAR(50) DEFAULT 'pending',  -- pending, approved, denied, expired, failed
+    requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP,
+    decided_by VARCHAR(255),
+    decided_at TIMESTAMP,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_approvals
+ON behavior_action_approvals(server_id, status)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_approval_execution
+ON behavior_action_approvals(execution_id);
+
+COMMENT ON TABLE behavior_action_approvals IS 'Behavior actions waiting for moderator approval';
+COMMENT ON COLUMN behavior_executions.action_results IS 'Per-action outcomes (executed, skipped, failed, pending_approval, approved, denied)';
@@ -0,0 +1,14 @@
+-- =====================================================
+-- BEHAVIOR TRACKING COLLECTION CONFIG
+-- What each tracking session collects, and the context
+-- needed to resume the behavior when the session ends
+-- =====================================================
+
+ALTER TABLE behavior_active_tracking
+ADD COLUMN IF NOT EXISTS collect JSONB DEFAULT '{}';
+
+ALTER TABLE behavior_active_tracking
+ADD COLUMN IF NOT EXISTS context JSONB;
+
+COMMENT ON COLUMN behavior_active_tracking.collect IS 'BDL collect config (messages limit, reactions, voiceActivity, roleChanges, customData)';
+COMMENT ON COLUMN behavior_active_tracking.context IS 'Serializable execution context used to run analysis/actions when the session ends';
@@ -0,0 +1,13 @@
+-- =====================================================
+-- BEHAVIOR SANDBOX FLAG
+-- safety.sandbox now means dry-run (actions are recorded,
+-- not executed). It used to be a no-op that every parsed
+-- behavior got as true, so every existing row is set to
+-- an explicit false - missing or true - to stay live.
+-- =====================================================
+
+UPDATE dynamic_behaviors
+SET safety = jsonb_set(safety, '{sandbox}', 'false'::jsonb)
+WHERE safety IS NOT NULL
+  AND jsonb_typeof(safety) = 'object'
+  AND (NOT (safety ? 'sandbox') OR safety->'sandbox' <> 'false'::jsonb);
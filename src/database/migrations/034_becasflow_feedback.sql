@@ -0,0 +1,36 @@
+-- ============================================================================
+-- BECASFLOW FEEDBACK
+-- ============================================================================
+-- Moderator ratings and corrections of executed BecasFlow plans.
+-- Accepted corrections become few-shot examples for the planner and
+-- re-rank tool suggestions for similar queries in the same guild.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS becasflow_feedback (
+  id SERIAL PRIMARY KEY,
+  guild_id VARCHAR(64) NOT NULL,
+  plan_id VARCHAR(64) NOT NULL,
+
+  -- What was planned
+  query TEXT NOT NULL,
+  tools_used TEXT[] DEFAULT '{}',
+
+  -- Feedback
+  was_correct BOOLEAN NOT NULL,
+  rating SMALLINT CHECK (rating BETWEEN 1 AND 5),
+  should_have_done TEXT,                      -- "should have done X" (natural language)
+  suggested_tools TEXT[] DEFAULT '{}',
+  reason TEXT,
+  comment TEXT,
+
+  -- Who gave it
+  provided_by_id VARCHAR(64) NOT NULL,
+  provided_by_name VARCHAR(128),
+  provided_by_role VARCHAR(16) NOT NULL,      -- 'admin', 'moderator', 'user'
+
+  accepted BOOLEAN DEFAULT false,             -- Used for planner learning
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_becasflow_feedback_guild ON becasflow_feedback(guild_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_becasflow_feedback_plan_user ON becasflow_feedback(plan_id, provided_by_id);
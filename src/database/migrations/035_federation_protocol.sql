@@ -0,0 +1,57 @@
+/**
+ * Migration 035: Federation Protocol
+ *
+ * Tables for HTTP federation between independent Becas deployments:
+ * - Peer registry (identity keys, per-peer trust level, sync cursor)
+ * - Outbox of locally signed messages, served to peers by sequence number
+ * - Seen message IDs for replay protection
+ *
+ * Each peer is also registered in federation_servers as 'peer:<instanceId>'
+ * so ingested threats, bans and reputation reuse the existing tables.
+ */
+
+-- ============================================================================
+-- FEDERATION PEERS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS federation_peers (
+  instance_id VARCHAR(64) PRIMARY KEY,            -- SHA-256 fingerprint of the public key
+  name VARCHAR(255) NOT NULL,
+  base_url TEXT NOT NULL,
+  public_key TEXT NOT NULL,                       -- Ed25519, PEM (SPKI)
+  federation_level VARCHAR(50) NOT NULL DEFAULT 'public',
+    CHECK (federation_level IN ('public', 'trusted', 'private')),
+  is_active BOOLEAN DEFAULT true,
+  last_pull_seq BIGINT DEFAULT 0,                 -- Highest outbox sequence pulled from this peer
+  last_seen_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_federation_peers_active ON federation_peers(is_active);
+
+-- ============================================================================
+-- OUTBOX (messages signed by this instance)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS federation_outbox (
+  seq BIGSERIAL PRIMARY KEY,
+  message_id UUID NOT NULL UNIQUE,
+  message_type VARCHAR(50) NOT NULL,
+  message JSONB NOT NULL,                         -- Full signed message
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_federation_outbox_created ON federation_outbox(created_at);
+
+-- ============================================================================
+-- SEEN MESSAGES (replay protection)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS federation_seen_messages (
+  message_id UUID PRIMARY KEY,
+  origin_instance_id VARCHAR(64) NOT NULL,
+  received_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_federation_seen_received ON federation_seen_messages(received_at);
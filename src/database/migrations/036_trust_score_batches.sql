@@ -0,0 +1,33 @@
+-- ============================================================================
+-- TRUST SCORE BATCHES
+-- ============================================================================
+-- Batched, Merkle-committed trust score publishing. Score changes are
+-- accumulated and published as one Merkle root per epoch to
+-- BecasTrustScore.publishScoreRoot. The leaves are kept so the API can serve
+-- inclusion proofs for any published score.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS trust_score_batches (
+  epoch INTEGER PRIMARY KEY,
+  merkle_root VARCHAR(66) NOT NULL,
+  leaf_count INTEGER NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'pending',  -- 'pending', 'published', 'failed'
+  tx_hash VARCHAR(66),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  published_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_score_batches_status ON trust_score_batches(status);
+
+CREATE TABLE IF NOT EXISTS trust_score_leaves (
+  epoch INTEGER NOT NULL REFERENCES trust_score_batches(epoch) ON DELETE CASCADE,
+  leaf_index INTEGER NOT NULL,
+  discord_id VARCHAR(64) NOT NULL,
+  user_hash VARCHAR(66) NOT NULL,             -- keccak256(discordId), as stored on-chain
+  score INTEGER NOT NULL,
+  risk_score INTEGER NOT NULL,
+  violations INTEGER NOT NULL,
+  PRIMARY KEY (epoch, leaf_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_score_leaves_user ON trust_score_leaves(discord_id, epoch DESC);
@@ -0,0 +1,33 @@
+-- ============================================================================
+-- ADMIN ACCESS CONTROL
+-- ============================================================================
+-- API keys and per-guild role grants for the admin/analytics HTTP APIs.
+-- Discord OAuth sessions get owner/admin from their Discord permissions;
+-- guild_role_grants adds (or raises) roles for specific users.
+-- API keys are stored as SHA-256 hashes - the plaintext is shown once.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS admin_api_keys (
+  id UUID PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(24) NOT NULL,             -- First characters of the key, for identification
+  key_hash VARCHAR(64) NOT NULL UNIQUE,        -- sha256(key)
+  role VARCHAR(16) NOT NULL CHECK (role IN ('owner', 'admin', 'moderator', 'viewer')),
+  guild_ids TEXT[],                            -- NULL = all guilds and global routes
+  created_by VARCHAR(64),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS guild_role_grants (
+  guild_id VARCHAR(64) NOT NULL,
+  user_id VARCHAR(64) NOT NULL,
+  role VARCHAR(16) NOT NULL CHECK (role IN ('owner', 'admin', 'moderator', 'viewer')),
+  granted_by VARCHAR(64),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (guild_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guild_role_grants_user ON guild_role_grants(user_id);
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- ALERT INCIDENTS, DELIVERY SINKS AND ESCALATION
+-- ============================================================================
+-- Repeats of the same alert are deduplicated (counted on the original
+-- alert_history row), related alerts are grouped into one incident, and
+-- unacknowledged incidents escalate to a second sink after a configured time.
+-- Per-guild alert preferences (including sinks) are persisted here too.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS alert_preferences (
+  server_id VARCHAR(255) PRIMARY KEY,
+  preferences JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS alert_incidents (
+  id SERIAL PRIMARY KEY,
+  server_id VARCHAR(255) NOT NULL,
+  alert_type VARCHAR(50) NOT NULL,            -- Type of the alert that opened the incident
+  severity VARCHAR(20) NOT NULL,              -- Highest severity seen
+  title VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open', -- open, acknowledged
+  alert_count INTEGER NOT NULL DEFAULT 1,
+  related_users TEXT[],
+  related_channels TEXT[],
+  first_alert_at TIMESTAMPTZ DEFAULT NOW(),
+  last_alert_at TIMESTAMPTZ DEFAULT NOW(),
+  severity_changed_at TIMESTAMPTZ DEFAULT NOW(), -- Escalation timer starts here
+  acknowledged_by VARCHAR(255),
+  acknowledged_at TIMESTAMPTZ,
+  escalated_at TIMESTAMPTZ,
+  escalated_to VARCHAR(100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_incidents_server ON alert_incidents(server_id, last_alert_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_incidents_open ON alert_incidents(status, escalated_at) WHERE status = 'open';
+
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS incident_id INTEGER REFERENCES alert_incidents(id) ON DELETE SET NULL;
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(64);
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS duplicate_count INTEGER DEFAULT 0;
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS last_duplicate_at TIMESTAMPTZ;
+ALTER TABLE alert_history ADD COLUMN IF NOT EXISTS delivered_to TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_alert_history_incident ON alert_history(incident_id);
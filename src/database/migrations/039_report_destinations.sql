@@ -0,0 +1,17 @@
+-- ============================================================================
+-- REPORT EXPORT AND DESTINATIONS
+-- ============================================================================
+-- Full report data is kept so reports can be re-rendered (Markdown, HTML,
+-- CSV, JSON) for download, and each guild configures where its reports are
+-- delivered (channel, webhook, email) instead of the first "mod" channel.
+-- ============================================================================
+
+ALTER TABLE analytics_reports ADD COLUMN IF NOT EXISTS report_data JSONB;
+ALTER TABLE analytics_reports ADD COLUMN IF NOT EXISTS sections TEXT[];
+ALTER TABLE analytics_reports ADD COLUMN IF NOT EXISTS delivered_to TEXT[];
+
+CREATE TABLE IF NOT EXISTS report_destinations (
+  server_id VARCHAR(255) PRIMARY KEY,
+  destinations JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,23 @@
+-- ============================================================================
+-- DOMAIN REPUTATION
+-- ============================================================================
+-- Outcome counts for link domains seen in moderated messages, per guild and
+-- network-wide (server_id '*': every guild of this instance plus domains
+-- reported by federation peers). Guild admins can pin a verdict that
+-- overrides the counts.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS domain_reputation (
+  domain VARCHAR(255) NOT NULL,
+  server_id VARCHAR(255) NOT NULL,              -- Guild ID, or '*' for the network row
+  malicious_reports INTEGER NOT NULL DEFAULT 0,
+  benign_reports INTEGER NOT NULL DEFAULT 0,
+  verdict VARCHAR(20),                          -- trusted, blocked (NULL = use the counts)
+  last_reason TEXT,
+  first_seen TIMESTAMPTZ DEFAULT NOW(),
+  last_seen TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (domain, server_id),
+  CONSTRAINT domain_reputation_verdict_check CHECK (verdict IN ('trusted', 'blocked'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_reputation_server ON domain_reputation(server_id, last_seen DESC);
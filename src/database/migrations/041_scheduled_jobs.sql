@@ -0,0 +1,30 @@
+-- ============================================================================
+-- SCHEDULED JOBS
+-- ============================================================================
+-- Durable delayed and recurring jobs for ActionScheduler (temp-ban unbans,
+-- scheduled moderation tasks, watch expiry). A job is claimed by one bot
+-- process (locked_by) before it runs; jobs found still 'running' after their
+-- lease expired are not run again.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS scheduled_jobs (
+  id VARCHAR(255) PRIMARY KEY,
+  job_type VARCHAR(50) NOT NULL,                -- Handler name (task, unban, watch_expire, ...)
+  guild_id VARCHAR(255),
+  payload JSONB NOT NULL DEFAULT '{}',
+  run_at TIMESTAMPTZ NOT NULL,
+  interval_ms BIGINT,                           -- Recurring jobs only
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, running, completed, failed, cancelled
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  locked_by VARCHAR(255),                       -- host:pid of the process running it
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  last_run_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON scheduled_jobs(run_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_guild ON scheduled_jobs(guild_id, status);
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_type ON scheduled_jobs(job_type, status);
@@ -0,0 +1,25 @@
+-- ============================================================================
+-- PRIVACY REQUESTS
+-- ============================================================================
+-- One row per data subject export or erasure. The subject is stored as a
+-- SHA-256 hash of the Discord user ID so the log itself does not keep the
+-- erased identity. Erasures keep their signed completion receipt; exports
+-- only keep the per-holder record counts, never the exported data.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS privacy_requests (
+  id VARCHAR(64) PRIMARY KEY,
+  kind VARCHAR(16) NOT NULL,                    -- export, erasure
+  subject_hash VARCHAR(64) NOT NULL,            -- sha256(user ID)
+  guild_id VARCHAR(64),                         -- NULL = every guild
+  requested_by VARCHAR(255) NOT NULL,
+  status VARCHAR(16) NOT NULL,                  -- completed, partial
+  summary JSONB NOT NULL DEFAULT '{}',          -- Per-holder counts
+  receipt JSONB,                                -- Signed erasure receipt
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT privacy_requests_kind_check CHECK (kind IN ('export', 'erasure'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_subject ON privacy_requests(subject_hash, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_privacy_requests_guild ON privacy_requests(guild_id, created_at DESC);
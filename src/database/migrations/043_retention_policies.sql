@@ -0,0 +1,46 @@
+-- ============================================================================
+-- DATA RETENTION POLICIES, LEGAL HOLDS AND ENFORCEMENT RUNS
+-- ============================================================================
+-- Retention rules are per data category, either instance-wide (guild_id '*')
+-- or for one guild. Categories without a rule fall back to the
+-- RETENTION_*_DAYS defaults. Users under an active legal hold are exempt from
+-- expiry. Every enforcement run (dry runs included) keeps its report.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS retention_policies (
+  guild_id VARCHAR(64) NOT NULL,                -- '*' = instance-wide rule
+  category VARCHAR(32) NOT NULL,                -- raw_content, analysis_scores, embeddings, profiles, audit, federation_events
+  retain_days INTEGER,                          -- NULL = keep forever
+  updated_by VARCHAR(255) NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (guild_id, category),
+  CONSTRAINT retention_policies_days_check CHECK (retain_days IS NULL OR retain_days > 0)
+);
+
+CREATE TABLE IF NOT EXISTS retention_legal_holds (
+  id SERIAL PRIMARY KEY,
+  guild_id VARCHAR(64),                         -- NULL = held in every guild
+  user_id VARCHAR(64) NOT NULL,
+  reason TEXT NOT NULL,
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  released_by VARCHAR(255),
+  released_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_legal_holds_active ON retention_legal_holds(guild_id, user_id) WHERE released_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS retention_runs (
+  id VARCHAR(64) PRIMARY KEY,
+  guild_id VARCHAR(64),                         -- NULL = every guild
+  dry_run BOOLEAN NOT NULL,
+  status VARCHAR(16) NOT NULL,                  -- completed, partial
+  expired INTEGER NOT NULL DEFAULT 0,
+  held INTEGER NOT NULL DEFAULT 0,
+  report JSONB NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  completed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_retention_runs_guild ON retention_runs(guild_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_retention_runs_started ON retention_runs(started_at DESC);
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- GUILD CONFIG BUNDLE VERSIONS
+-- ============================================================================
+-- Every bundle applied to a guild (or rollback) stores the guild's full
+-- resulting setup: configuration, policies, behaviors and alert routing.
+-- When the live setup was changed outside bundles since the last version, a
+-- 'snapshot' version of it is stored first, so rollback can always return to
+-- what the guild had before.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS config_bundle_versions (
+  guild_id VARCHAR(64) NOT NULL,
+  version INTEGER NOT NULL,
+  source VARCHAR(16) NOT NULL,                  -- apply, rollback, snapshot
+  bundle_name VARCHAR(255),                     -- name of the applied bundle
+  bundle JSONB NOT NULL,                        -- full setup after this version
+  hash CHAR(64) NOT NULL,                       -- sha256 of the canonical bundle
+  batch_id UUID,                                -- one bundle applied to several guilds
+  restored_version INTEGER,                     -- rollback: the version restored
+  note TEXT,
+  created_by VARCHAR(255) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (guild_id, version),
+  CONSTRAINT config_bundle_versions_source_check CHECK (source IN ('apply', 'rollback', 'snapshot'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_config_bundle_versions_batch ON config_bundle_versions(batch_id) WHERE batch_id IS NOT NULL;
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- BECASFLOW COMPENSATION LOGS
+-- ============================================================================
+-- Side-effecting steps of each executed BecasFlow plan with the inverse
+-- operation that reverses them, so "undo last plan" keeps working across
+-- restarts. Entry statuses are updated as steps are undone.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS becasflow_compensation_logs (
+  guild_id VARCHAR(64) NOT NULL,
+  plan_id VARCHAR(255) NOT NULL,
+  query TEXT NOT NULL,
+  executed_by VARCHAR(64) NOT NULL,
+  entries JSONB NOT NULL,                       -- in completion order
+  undone BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (guild_id, plan_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_becasflow_compensation_logs_recent
+  ON becasflow_compensation_logs(guild_id, created_at DESC);
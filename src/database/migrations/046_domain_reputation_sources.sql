@@ -0,0 +1,11 @@
+-- ============================================================================
+-- DOMAIN REPUTATION SOURCES
+-- ============================================================================
+-- Distinct reporters (guild IDs, peer:<instanceId>) behind a domain's
+-- malicious reports. Network risk is weighted by how many there are, so a
+-- single guild or peer cannot push a domain over the malicious threshold.
+-- Rows counted before this migration start with no sources.
+-- ============================================================================
+
+ALTER TABLE domain_reputation
+  ADD COLUMN IF NOT EXISTS malicious_sources TEXT[] NOT NULL DEFAULT '{}';
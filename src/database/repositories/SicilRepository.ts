@@ -132,6 +132,23 @@ export class SicilRepository {
     );
   }
 
+  /**
+   * Moderation cases against a user (actions that triggered moderation), newest first
+   */
+  async getModerationCases(
+    serverId: string,
+    userId: string,
+    limit: number = 25
+  ): Promise<UserAction[]> {
+    return this.db.queryMany<UserAction>(
+      `SELECT * FROM user_actions
+       WHERE server_id = $1 AND user_id = $2 AND triggered_moderation = true
+       ORDER BY timestamp DESC
+       LIMIT $3`,
+      [serverId, userId, limit]
+    );
+  }
+
   /**
    * Get or create sicil summary
    */
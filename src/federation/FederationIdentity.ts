@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ENV } from '../config/environment';
+import logger from '../utils/logger';
+
+/**
+ * FederationIdentity
+ *
+ * The Ed25519 keypair that identifies this BECAS instance to its federation
+ * peers. Every message and request we send is signed with it.
+ *
+ * The instance ID is a fingerprint of the public key, so a peer can check
+ * that an ID and a key belong together without a central authority.
+ *
+ * The key is read from FEDERATION_PRIVATE_KEY (PEM) if set, otherwise it is
+ * generated once and stored in <DATA_DIR>/federation/identity.json.
+ */
+
+export class FederationIdentity {
+  readonly instanceId: string;
+  readonly publicKey: string;
+
+  private constructor(private privateKey: crypto.KeyObject) {
+    this.publicKey = crypto
+      .createPublicKey(privateKey)
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+    this.instanceId = FederationIdentity.fingerprint(this.publicKey);
+  }
+
+  /**
+   * Load the instance identity, generating and persisting one on first run
+   */
+  static load(): FederationIdentity {
+    if (process.env.FEDERATION_PRIVATE_KEY) {
+      const pem = process.env.FEDERATION_PRIVATE_KEY.replace(/\\n/g, '\n');
+      return new FederationIdentity(crypto.createPrivateKey(pem));
+    }
+
+    const file = path.join(ENV.DATA_DIR, 'federation', 'identity.json');
+
+    if (fs.existsSync(file)) {
+      const stored = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      return new FederationIdentity(crypto.createPrivateKey(stored.privateKey));
+    }
+
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const identity = new FederationIdentity(privateKey);
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(
+      file,
+      JSON.stringify(
+        {
+          instanceId: identity.instanceId,
+          publicKey: identity.publicKey,
+          privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+          createdAt: new Date().toISOString()
+        },
+        null,
+        2
+      ),
+      { mode: 0o600 }
+    );
+
+    logger.info(`Generated federation identity ${identity.instanceId}`);
+
+    return identity;
+  }
+
+  /**
+   * Sign data, returning a base64 signature
+   */
+  sign(data: string): string {
+    return crypto.sign(null, Buffer.from(data), this.privateKey).toString('base64');
+  }
+
+  /**
+   * Verify a base64 signature against a PEM public key
+   */
+  static verify(data: string, signature: string, publicKey: string): boolean {
+    try {
+      return crypto.verify(null, Buffer.from(data), publicKey, Buffer.from(signature, 'base64'));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Instance ID for a public key (first 32 hex chars of SHA-256 over the DER key)
+   */
+  static fingerprint(publicKey: string): string {
+    const der = crypto.createPublicKey(publicKey).export({ type: 'spki', format: 'der' });
+    return crypto.createHash('sha256').update(der).digest('hex').slice(0, 32);
+  }
+}
+
+export default FederationIdentity;
@@ -0,0 +1,513 @@
+import express, { Express, Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
+import { Pool } from 'pg';
+import logger from '../utils/logger';
+import { DomainReputationStore } from '../analyzers/links/DomainReputationStore';
+import { FederationIdentity } from './FederationIdentity';
+import { FederationPeer, FederationPeerRegistry } from './FederationPeerRegistry';
+import { ServerFederation } from './ServerFederation';
+import {
+  FEDERATION_BASE_PATH,
+  FEDERATION_PROTOCOL_VERSION,
+  LEVEL_PERMISSIONS,
+  MAX_CLOCK_SKEW_MS,
+  MAX_MESSAGE_AGE_MS,
+  FederationLevel,
+  FederationMessage,
+  FederationMessageType,
+  FederationPayloads,
+  createMessage,
+  isAllowed,
+  readRequestHeaders,
+  requestSigningString,
+  signRequest,
+  validateMessage,
+  verifyMessage
+} from './FederationProtocol';
+
+/**
+ * FederationNode
+ *
+ * HTTP federation between independent BECAS deployments (each with its own
+ * database). Replaces the shared-table notifications of ServerFederation
+ * when instances don't share a Postgres.
+ *
+ * - publish(): signs a threat/ban/reputation message, stores it in the
+ *   outbox and pushes it to every peer whose federationLevel allows it
+ * - Push is best-effort; peers also pull our outbox by sequence number,
+ *   so a peer that was down catches up on its next sync
+ * - Incoming messages (pushed or pulled) must be signed by the peer that
+ *   sent them, be allowed at that peer's level, be recent, and not have
+ *   been seen before. They are then stored through ServerFederation with
+ *   the peer as origin (and are not re-published)
+ *
+ * Endpoints (under /federation/v1):
+ *   GET  /identity             public, instance ID + public key
+ *   GET  /messages?since=&limit=  signed, our outbox filtered by caller's level
+ *   POST /messages             signed, { messages: FederationMessage[] }
+ *
+ * Signed endpoints only answer peers registered in our peer registry, so
+ * federation must be set up on both sides.
+ */
+
+export interface FederationNodeOptions {
+  name: string;
+  port: number;
+  syncIntervalMs?: number;
+  peers?: Array<{ baseUrl: string; federationLevel: FederationLevel }>; // Added on start, retried on sync
+}
+
+export type IngestResult = 'accepted' | 'duplicate' | 'rejected' | 'failed';
+
+const MAX_BATCH = 100; // Messages per push/pull request
+const MAX_PULL_PAGES = 20; // Pages pulled from one peer per sync
+
+export class FederationNode {
+  private app: Express;
+  private httpServer?: Server;
+  private registry: FederationPeerRegistry;
+  private syncTimer?: NodeJS.Timeout;
+  private seenNonces: Map<string, number> = new Map(); // `${instanceId}:${nonce}` -> expiry
+  private pendingPeers: Array<{ baseUrl: string; federationLevel: FederationLevel }>;
+
+  constructor(
+    private db: Pool,
+    private identity: FederationIdentity,
+    private options: FederationNodeOptions
+  ) {
+    this.registry = new FederationPeerRegistry(db);
+    this.pendingPeers = [...(options.peers || [])];
+    this.app = express();
+    this.setupRoutes();
+  }
+
+  get instanceId(): string {
+    return this.identity.instanceId;
+  }
+
+  getRegistry(): FederationPeerRegistry {
+    return this.registry;
+  }
+
+  /**
+   * ServerFederation that publishes what it records to federation peers
+   */
+  federationFor(currentServerId: string): ServerFederation {
+    return new ServerFederation(this.db, currentServerId, this);
+  }
+
+  /**
+   * Sign a message, store it in the outbox and push it to eligible peers
+   */
+  async publish<T extends FederationMessageType>(
+    type: T,
+    payload: FederationPayloads[T]
+  ): Promise<FederationMessage<T>> {
+    const message = createMessage(this.identity, type, payload);
+
+    await this.db.query(
+      `
+      INSERT INTO federation_outbox (message_id, message_type, message)
+      VALUES ($1, $2, $3)
+      `,
+      [message.id, type, JSON.stringify(message)]
+    );
+
+    const peers = (await this.registry.listPeers()).filter(peer => isAllowed(peer.federationLevel, type));
+
+    // Best effort - peers that miss the push get the message on their next pull
+    await Promise.allSettled(peers.map(peer => this.push(peer, [message])));
+
+    logger.info(`Published federation ${type} message ${message.id} to ${peers.length} peer(s)`);
+
+    return message;
+  }
+
+  /**
+   * Pull new messages from every active peer
+   */
+  async syncAll(): Promise<void> {
+    await this.addPendingPeers();
+
+    for (const peer of await this.registry.listPeers()) {
+      if (peer.federationLevel === 'private') continue;
+
+      try {
+        await this.pull(peer);
+      } catch (error: any) {
+        logger.warn(`Federation sync with ${peer.name} failed: ${error.message}`);
+      }
+    }
+
+    await this.prune();
+  }
+
+  /**
+   * Pull a peer's outbox since our cursor and ingest it
+   */
+  async pull(peer: FederationPeer): Promise<number> {
+    let cursor = peer.lastPullSeq;
+    let accepted = 0;
+
+    for (let page = 0; page < MAX_PULL_PAGES; page++) {
+      const path = `${FEDERATION_BASE_PATH}/messages?since=${cursor}&limit=${MAX_BATCH}`;
+      const response = await fetch(`${peer.baseUrl}${path}`, {
+        headers: signRequest(this.identity, 'GET', path),
+        signal: AbortSignal.timeout(15000)
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`);
+      }
+
+      const body = (await response.json()) as {
+        messages: Array<{ seq: number; message: FederationMessage }>;
+        lastSeq: number;
+        hasMore: boolean;
+      };
+
+      for (const { seq, message } of body.messages) {
+        const result = await this.ingest(peer, message);
+        if (result === 'failed') {
+          // Retry from here on the next sync
+          await this.registry.updateCursor(peer.instanceId, cursor);
+          return accepted;
+        }
+        if (result === 'accepted') accepted++;
+        cursor = seq;
+      }
+
+      cursor = Math.max(cursor, body.lastSeq);
+      await this.registry.updateCursor(peer.instanceId, cursor);
+
+      if (!body.hasMore) break;
+    }
+
+    if (accepted > 0) {
+      logger.info(`Pulled ${accepted} federation message(s) from ${peer.name}`);
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Verify and store one message received from a peer
+   */
+  async ingest(peer: FederationPeer, message: FederationMessage): Promise<IngestResult> {
+    const invalid = validateMessage(message);
+    if (invalid) {
+      logger.warn(`Rejected federation message from ${peer.name}: ${invalid}`);
+      return 'rejected';
+    }
+
+    if (message.origin !== peer.instanceId) {
+      logger.warn(`Rejected federation message ${message.id} from ${peer.name}: origin ${message.origin} is not the sender`);
+      return 'rejected';
+    }
+
+    if (!isAllowed(peer.federationLevel, message.type)) {
+      logger.debug(`Ignored ${message.type} message from ${peer.name} (${peer.federationLevel} peer)`);
+      return 'rejected';
+    }
+
+    if (!verifyMessage(message, peer.publicKey)) {
+      logger.warn(`Rejected federation message ${message.id} from ${peer.name}: bad signature`);
+      return 'rejected';
+    }
+
+    // Replay protection: a message ID is only ever applied once
+    const seen = await this.db.query(
+      `
+      INSERT INTO federation_seen_messages (message_id, origin_instance_id)
+      VALUES ($1, $2)
+      ON CONFLICT (message_id) DO NOTHING
+      RETURNING message_id
+      `,
+      [message.id, peer.instanceId]
+    );
+    if (seen.rows.length === 0) return 'duplicate';
+
+    try {
+      await this.apply(peer, message);
+      return 'accepted';
+    } catch (error) {
+      logger.error(`Failed to apply federation message ${message.id} from ${peer.name}:`, error);
+      await this.db.query('DELETE FROM federation_seen_messages WHERE message_id = $1', [message.id]);
+      return 'failed';
+    }
+  }
+
+  /**
+   * Start the federation HTTP endpoint and periodic sync
+   */
+  async start(): Promise<number> {
+    // Peers are configured with our URL, so don't fall back to another port
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer = this.app.listen(this.options.port, () => resolve());
+      this.httpServer.once('error', reject);
+    });
+
+    logger.info(`Federation node ${this.identity.instanceId} (${this.options.name}) listening on port ${this.options.port}`);
+
+    await this.addPendingPeers();
+
+    const interval = this.options.syncIntervalMs || 60000;
+    this.syncTimer = setInterval(() => {
+      this.syncAll().catch(error => logger.error('Federation sync error:', error));
+    }, interval);
+
+    this.syncAll().catch(error => logger.error('Federation sync error:', error));
+
+    return this.options.port;
+  }
+
+  /**
+   * Stop syncing and close the endpoint
+   */
+  async stop(): Promise<void> {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = undefined;
+    }
+
+    if (this.httpServer) {
+      return new Promise((resolve, reject) => {
+        this.httpServer!.close((err) => {
+          if (err) {
+            logger.error('Error stopping federation node', err);
+            reject(err);
+          } else {
+            logger.info('Federation node stopped gracefully');
+            resolve();
+          }
+        });
+      });
+    }
+  }
+
+  private setupRoutes(): void {
+    this.app.use(express.json({
+      limit: '1mb',
+      verify: (req, _res, buf) => {
+        (req as any).rawBody = buf.toString('utf-8');
+      }
+    }));
+
+    this.app.get(`${FEDERATION_BASE_PATH}/identity`, (_req: Request, res: Response) => {
+      res.json({
+        version: FEDERATION_PROTOCOL_VERSION,
+        instanceId: this.identity.instanceId,
+        name: this.options.name,
+        publicKey: this.identity.publicKey
+      });
+    });
+
+    this.app.get(`${FEDERATION_BASE_PATH}/messages`, this.authenticate, async (req: Request, res: Response) => {
+      try {
+        const peer: FederationPeer = res.locals.peer;
+        const since = Math.max(0, parseInt(req.query.since as string) || 0);
+        const limit = Math.min(Math.max(1, parseInt(req.query.limit as string) || MAX_BATCH), MAX_BATCH);
+        const types = LEVEL_PERMISSIONS[peer.federationLevel];
+
+        const result = await this.db.query(
+          `
+          SELECT seq, message FROM federation_outbox
+          WHERE seq > $1 AND message_type = ANY($2)
+          ORDER BY seq
+          LIMIT $3
+          `,
+          [since, types, limit]
+        );
+
+        const hasMore = result.rows.length === limit;
+        // Only as far as what was returned - a lower seq can still commit after a
+        // higher one, so jumping to MAX(seq) could skip it for good
+        const lastSeq = result.rows.length > 0 ? parseInt(result.rows[result.rows.length - 1].seq) : since;
+
+        res.json({
+          messages: result.rows.map(row => ({ seq: parseInt(row.seq), message: row.message })),
+          lastSeq,
+          hasMore
+        });
+      } catch (error) {
+        logger.error('Error serving federation messages:', error);
+        res.status(500).json({ error: 'Failed to read messages' });
+      }
+    });
+
+    this.app.post(`${FEDERATION_BASE_PATH}/messages`, this.authenticate, async (req: Request, res: Response) => {
+      try {
+        const peer: FederationPeer = res.locals.peer;
+        const messages = req.body?.messages;
+
+        if (!Array.isArray(messages) || messages.length > MAX_BATCH) {
+          res.status(400).json({ error: `messages must be an array of at most ${MAX_BATCH}` });
+          return;
+        }
+
+        const results: Array<{ id: string; status: IngestResult }> = [];
+        for (const message of messages) {
+          results.push({ id: message?.id, status: await this.ingest(peer, message) });
+        }
+
+        res.json({ results });
+      } catch (error) {
+        logger.error('Error receiving federation messages:', error);
+        res.status(500).json({ error: 'Failed to receive messages' });
+      }
+    });
+  }
+
+  /**
+   * Verify a signed request from a registered peer
+   */
+  private authenticate = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const headers = readRequestHeaders(req.headers);
+    if (!headers) {
+      res.status(401).json({ error: 'Missing signature headers' });
+      return;
+    }
+
+    const now = Date.now();
+    if (Math.abs(now - headers.timestamp) > MAX_CLOCK_SKEW_MS) {
+      res.status(401).json({ error: 'Request timestamp outside allowed window' });
+      return;
+    }
+
+    const peer = await this.registry.getPeer(headers.instanceId);
+    if (!peer || !peer.isActive) {
+      res.status(403).json({ error: 'Unknown peer' });
+      return;
+    }
+
+    const signed = requestSigningString(
+      req.method,
+      req.originalUrl,
+      headers.timestamp,
+      headers.nonce,
+      (req as any).rawBody || ''
+    );
+    if (!FederationIdentity.verify(signed, headers.signature, peer.publicKey)) {
+      res.status(401).json({ error: 'Bad signature' });
+      return;
+    }
+
+    // Replay protection: a nonce is only accepted once within the skew window
+    const nonceKey = `${peer.instanceId}:${headers.nonce}`;
+    this.pruneNonces(now);
+    if (this.seenNonces.has(nonceKey)) {
+      res.status(401).json({ error: 'Replayed request' });
+      return;
+    }
+    this.seenNonces.set(nonceKey, headers.timestamp + MAX_CLOCK_SKEW_MS);
+
+    await this.registry.touch(peer.instanceId).catch(() => {});
+
+    res.locals.peer = peer;
+    next();
+  };
+
+  private async push(peer: FederationPeer, messages: FederationMessage[]): Promise<void> {
+    const path = `${FEDERATION_BASE_PATH}/messages`;
+    const body = JSON.stringify({ messages });
+
+    try {
+      const response = await fetch(`${peer.baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...signRequest(this.identity, 'POST', path, body) },
+        body,
+        signal: AbortSignal.timeout(10000)
+      });
+
+      if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`);
+      }
+    } catch (error: any) {
+      logger.debug(`Push to ${peer.name} failed (will be pulled later): ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a verified message with the peer as origin
+   */
+  private async apply(peer: FederationPeer, message: FederationMessage): Promise<void> {
+    // No node passed, so nothing received is published back out
+    const federation = new ServerFederation(this.db, FederationPeerRegistry.serverIdFor(peer.instanceId));
+
+    switch (message.type) {
+      case 'threat': {
+        const threat = message.payload as FederationPayloads['threat'];
+        await federation.shareThreat({
+          ...threat,
+          metadata: { ...(threat.metadata || {}), federationMessageId: message.id }
+        });
+
+        // Peer-reported phishing domains count towards the network reputation row
+        if (threat.type === 'malicious_domain' && typeof threat.metadata?.domain === 'string') {
+          await new DomainReputationStore(this.db).recordFederatedReport(
+            threat.metadata.domain.toLowerCase(),
+            peer.instanceId,
+            `Reported by ${peer.name}: ${threat.description}`
+          );
+        }
+        break;
+      }
+
+      case 'ban': {
+        const ban = message.payload as FederationPayloads['ban'];
+        await federation.addGlobalBan({
+          ...ban,
+          evidence: { ...(ban.evidence || {}), federationMessageId: message.id },
+          expiresAt: ban.expiresAt ? new Date(ban.expiresAt) : undefined
+        });
+        break;
+      }
+
+      case 'reputation': {
+        const reputation = message.payload as FederationPayloads['reputation'];
+        await federation.updateGlobalReputation(reputation.userId, reputation.username, reputation.delta);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Connect to configured peers that haven't been added yet (they may not be up)
+   */
+  private async addPendingPeers(): Promise<void> {
+    const stillPending: typeof this.pendingPeers = [];
+
+    for (const pending of this.pendingPeers) {
+      try {
+        await this.registry.addPeer(pending.baseUrl, pending.federationLevel);
+      } catch (error: any) {
+        logger.warn(`Could not add federation peer ${pending.baseUrl} (will retry): ${error.message}`);
+        stillPending.push(pending);
+      }
+    }
+
+    this.pendingPeers = stillPending;
+  }
+
+  /**
+   * Drop replay-protection entries for messages too old to be accepted anyway
+   */
+  private async prune(): Promise<void> {
+    try {
+      const cutoff = new Date(Date.now() - MAX_MESSAGE_AGE_MS - MAX_CLOCK_SKEW_MS);
+      await this.db.query('DELETE FROM federation_seen_messages WHERE received_at < $1', [cutoff]);
+      await this.db.query('DELETE FROM federation_outbox WHERE created_at < $1', [cutoff]);
+    } catch (error) {
+      logger.error('Error pruning federation tables:', error);
+    }
+  }
+
+  private pruneNonces(now: number): void {
+    for (const [key, expiresAt] of this.seenNonces) {
+      if (expiresAt < now) this.seenNonces.delete(key);
+    }
+  }
+}
+
+export default FederationNode;
@@ -0,0 +1,234 @@
+import { Pool } from 'pg';
+import logger from '../utils/logger';
+import { FederationIdentity } from './FederationIdentity';
+import {
+  FEDERATION_BASE_PATH,
+  FEDERATION_PROTOCOL_VERSION,
+  FederationIdentityInfo,
+  FederationLevel
+} from './FederationProtocol';
+
+/**
+ * FederationPeerRegistry
+ *
+ * Remote BECAS deployments we federate with. Each peer has:
+ * - Its identity (instance ID + public key), fetched once when the peer is
+ *   added and pinned from then on
+ * - A federationLevel deciding which message types we exchange with it
+ * - A pull cursor (last outbox sequence number we pulled)
+ *
+ * Peers are mirrored into federation_servers as 'peer:<instanceId>' so
+ * threats, bans and reputation received from them can be stored by
+ * ServerFederation with the peer as origin.
+ */
+
+export interface FederationPeer {
+  instanceId: string;
+  name: string;
+  baseUrl: string;
+  publicKey: string;
+  federationLevel: FederationLevel;
+  isActive: boolean;
+  lastPullSeq: number;
+  lastSeenAt?: Date;
+  createdAt: Date;
+}
+
+export class FederationPeerRegistry {
+  constructor(private db: Pool) {}
+
+  /**
+   * Server ID used for a peer in federation_servers and origin columns
+   */
+  static serverIdFor(instanceId: string): string {
+    return `peer:${instanceId}`;
+  }
+
+  /**
+   * Add (or re-activate) a peer by URL. Its identity is fetched from the peer
+   * and must be self-consistent (instance ID = fingerprint of its key).
+   */
+  async addPeer(baseUrl: string, federationLevel: FederationLevel = 'public'): Promise<FederationPeer> {
+    const url = baseUrl.replace(/\/+$/, '');
+
+    const response = await fetch(`${url}${FEDERATION_BASE_PATH}/identity`, {
+      signal: AbortSignal.timeout(10000)
+    });
+    if (!response.ok) {
+      throw new Error(`Peer ${url} returned ${response.status} for identity`);
+    }
+
+    const info = (await response.json()) as FederationIdentityInfo;
+
+    if (info.version !== FEDERATION_PROTOCOL_VERSION) {
+      throw new Error(`Peer ${url} speaks protocol version ${info.version}, expected ${FEDERATION_PROTOCOL_VERSION}`);
+    }
+    if (FederationIdentity.fingerprint(info.publicKey) !== info.instanceId) {
+      throw new Error(`Peer ${url} instance ID does not match its public key`);
+    }
+
+    return this.savePeer({
+      instanceId: info.instanceId,
+      name: info.name || url,
+      baseUrl: url,
+      publicKey: info.publicKey,
+      federationLevel
+    });
+  }
+
+  /**
+   * Store a peer whose identity is already known
+   */
+  async savePeer(peer: {
+    instanceId: string;
+    name: string;
+    baseUrl: string;
+    publicKey: string;
+    federationLevel: FederationLevel;
+  }): Promise<FederationPeer> {
+    try {
+      const result = await this.db.query(
+        `
+        INSERT INTO federation_peers (instance_id, name, base_url, public_key, federation_level)
+        VALUES ($1, $2, $3, $4, $5)
+        ON CONFLICT (instance_id)
+        DO UPDATE SET
+          name = $2,
+          base_url = $3,
+          federation_level = $5,
+          is_active = true,
+          updated_at = NOW()
+        RETURNING *
+        `,
+        [peer.instanceId, peer.name, peer.baseUrl, peer.publicKey, peer.federationLevel]
+      );
+
+      const serverId = FederationPeerRegistry.serverIdFor(peer.instanceId);
+      await this.db.query(
+        `
+        INSERT INTO federation_servers (server_id, server_name, guild_id, federation_level)
+        VALUES ($1, $2, $1, $3)
+        ON CONFLICT (server_id)
+        DO UPDATE SET
+          server_name = $2,
+          federation_level = $3,
+          is_active = true,
+          updated_at = NOW()
+        `,
+        [serverId, peer.name, peer.federationLevel]
+      );
+
+      logger.info(`Federation peer saved: ${peer.name} (${peer.instanceId}, ${peer.federationLevel})`);
+
+      return this.fromRow(result.rows[0]);
+    } catch (error) {
+      logger.error('Error saving federation peer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a peer by instance ID
+   */
+  async getPeer(instanceId: string): Promise<FederationPeer | null> {
+    try {
+      const result = await this.db.query(
+        'SELECT * FROM federation_peers WHERE instance_id = $1',
+        [instanceId]
+      );
+
+      return result.rows.length > 0 ? this.fromRow(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Error getting federation peer:', error);
+      return null;
+    }
+  }
+
+  /**
+   * List peers
+   */
+  async listPeers(activeOnly: boolean = true): Promise<FederationPeer[]> {
+    try {
+      const result = await this.db.query(
+        `SELECT * FROM federation_peers ${activeOnly ? 'WHERE is_active = true' : ''} ORDER BY created_at`
+      );
+
+      return result.rows.map(row => this.fromRow(row));
+    } catch (error) {
+      logger.error('Error listing federation peers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Change how much we trust a peer
+   */
+  async setPeerLevel(instanceId: string, federationLevel: FederationLevel): Promise<void> {
+    await this.db.query(
+      'UPDATE federation_peers SET federation_level = $2, updated_at = NOW() WHERE instance_id = $1',
+      [instanceId, federationLevel]
+    );
+    await this.db.query(
+      'UPDATE federation_servers SET federation_level = $2, updated_at = NOW() WHERE server_id = $1',
+      [FederationPeerRegistry.serverIdFor(instanceId), federationLevel]
+    );
+
+    logger.info(`Federation peer ${instanceId} set to ${federationLevel}`);
+  }
+
+  /**
+   * Stop federating with a peer (data received from it is kept)
+   */
+  async removePeer(instanceId: string): Promise<void> {
+    await this.db.query(
+      'UPDATE federation_peers SET is_active = false, updated_at = NOW() WHERE instance_id = $1',
+      [instanceId]
+    );
+    await this.db.query(
+      'UPDATE federation_servers SET is_active = false, updated_at = NOW() WHERE server_id = $1',
+      [FederationPeerRegistry.serverIdFor(instanceId)]
+    );
+
+    logger.info(`Federation peer removed: ${instanceId}`);
+  }
+
+  /**
+   * Advance a peer's pull cursor (never moves backwards)
+   */
+  async updateCursor(instanceId: string, seq: number): Promise<void> {
+    await this.db.query(
+      `
+      UPDATE federation_peers
+      SET last_pull_seq = GREATEST(last_pull_seq, $2), last_seen_at = NOW()
+      WHERE instance_id = $1
+      `,
+      [instanceId, seq]
+    );
+  }
+
+  /**
+   * Record that a peer contacted us
+   */
+  async touch(instanceId: string): Promise<void> {
+    await this.db.query(
+      'UPDATE federation_peers SET last_seen_at = NOW() WHERE instance_id = $1',
+      [instanceId]
+    );
+  }
+
+  private fromRow(row: any): FederationPeer {
+    return {
+      instanceId: row.instance_id,
+      name: row.name,
+      baseUrl: row.base_url,
+      publicKey: row.public_key,
+      federationLevel: row.federation_level,
+      isActive: row.is_active,
+      lastPullSeq: parseInt(row.last_pull_seq) || 0,
+      lastSeenAt: row.last_seen_at || undefined,
+      createdAt: row.created_at
+    };
+  }
+}
+
+export default FederationPeerRegistry;
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { FederationIdentity } from './FederationIdentity';
+import { canonicalize } from '../utils/canonicalJson';
+
+export { canonicalize };
+
+/**
+ * FederationProtocol
+ *
+ * Wire format for HTTP federation between independent BECAS deployments.
+ *
+ * Messages: every shared threat, global ban and reputation update is wrapped
+ * in a FederationMessage signed by the origin instance. The signature covers
+ * the canonical JSON of every field except `signature`, so messages can be
+ * relayed and re-verified by anyone holding the origin's public key.
+ *
+ * Requests: every call to a peer's signed endpoints carries
+ *   X-Becas-Instance   caller instance ID
+ *   X-Becas-Timestamp  ms since epoch (must be within MAX_CLOCK_SKEW_MS)
+ *   X-Becas-Nonce      random, never reused within the skew window
+ *   X-Becas-Signature  signature over "METHOD\nPATH\nTIMESTAMP\nNONCE\nSHA256(BODY)"
+ */
+
+export const FEDERATION_PROTOCOL_VERSION = 1;
+export const FEDERATION_BASE_PATH = '/federation/v1';
+
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000; // Signed requests older than this are rejected
+export const MAX_MESSAGE_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Messages older than this are rejected
+
+export type FederationLevel = 'public' | 'trusted' | 'private';
+export type FederationMessageType = 'threat' | 'ban' | 'reputation';
+
+/**
+ * Message types exchanged with a peer at each federation level
+ * (applies both to what we accept from a peer and what we share with it)
+ */
+export const LEVEL_PERMISSIONS: Record<FederationLevel, FederationMessageType[]> = {
+  trusted: ['threat', 'ban', 'reputation'],
+  public: ['threat'],
+  private: []
+};
+
+export interface ThreatPayload {
+  type: string;
+  severity: string;
+  confidence: number;
+  description: string;
+  userId?: string;
+  metadata?: any;
+}
+
+export interface BanPayload {
+  userId: string;
+  username: string;
+  reason: string;
+  bannedBy: string;
+  banType: 'scam' | 'raid' | 'spam' | 'toxicity' | 'manual';
+  confidence: number;
+  evidence?: any;
+  expiresAt?: string;
+}
+
+export interface ReputationPayload {
+  userId: string;
+  username: string;
+  delta: {
+    messages?: number;
+    violations?: number;
+    bans?: number;
+    trustScoreChange?: number;
+  };
+}
+
+export interface FederationPayloads {
+  threat: ThreatPayload;
+  ban: BanPayload;
+  reputation: ReputationPayload;
+}
+
+export interface FederationMessage<T extends FederationMessageType = FederationMessageType> {
+  version: number;
+  id: string;
+  type: T;
+  origin: string; // Origin instance ID
+  createdAt: number;
+  payload: FederationPayloads[T];
+  signature: string;
+}
+
+export interface FederationIdentityInfo {
+  version: number;
+  instanceId: string;
+  name: string;
+  publicKey: string;
+}
+
+export interface SignedRequestHeaders {
+  instanceId: string;
+  timestamp: number;
+  nonce: string;
+  signature: string;
+}
+
+/**
+ * Create a message signed by this instance
+ */
+export function createMessage<T extends FederationMessageType>(
+  identity: FederationIdentity,
+  type: T,
+  payload: FederationPayloads[T]
+): FederationMessage<T> {
+  const unsigned = {
+    version: FEDERATION_PROTOCOL_VERSION,
+    id: crypto.randomUUID(),
+    type,
+    origin: identity.instanceId,
+    createdAt: Date.now(),
+    payload: JSON.parse(JSON.stringify(payload))
+  };
+
+  return { ...unsigned, signature: identity.sign(canonicalize(unsigned)) };
+}
+
+/**
+ * Check a message's signature against its origin's public key
+ */
+export function verifyMessage(message: FederationMessage, publicKey: string): boolean {
+  const { signature, ...unsigned } = message;
+  if (typeof signature !== 'string') return false;
+
+  return FederationIdentity.verify(canonicalize(unsigned), signature, publicKey);
+}
+
+/**
+ * Check a message is well-formed, returning the reason if it is not
+ */
+export function validateMessage(message: any): string | null {
+  if (!message || typeof message !== 'object') return 'not an object';
+  if (message.version !== FEDERATION_PROTOCOL_VERSION) return `unsupported version ${message.version}`;
+  if (typeof message.id !== 'string' || !/^[0-9a-f-]{36}$/i.test(message.id)) return 'invalid id';
+  if (typeof message.origin !== 'string') return 'missing origin';
+  if (typeof message.createdAt !== 'number') return 'missing createdAt';
+  if (message.createdAt > Date.now() + MAX_CLOCK_SKEW_MS) return 'createdAt in the future';
+  if (message.createdAt < Date.now() - MAX_MESSAGE_AGE_MS) return 'message too old';
+
+  const p = message.payload;
+  if (!p || typeof p !== 'object') return 'missing payload';
+
+  switch (message.type) {
+    case 'threat':
+      if (typeof p.type !== 'string' || typeof p.severity !== 'string' || typeof p.description !== 'string') {
+        return 'invalid threat payload';
+      }
+      if (typeof p.confidence !== 'number' || p.confidence < 0 || p.confidence > 1) return 'invalid confidence';
+      return null;
+
+    case 'ban':
+      if (typeof p.userId !== 'string' || typeof p.username !== 'string' || typeof p.reason !== 'string') {
+        return 'invalid ban payload';
+      }
+      if (!['scam', 'raid', 'spam', 'toxicity', 'manual'].includes(p.banType)) return 'invalid ban type';
+      if (typeof p.confidence !== 'number' || p.confidence < 0 || p.confidence > 1) return 'invalid confidence';
+      return null;
+
+    case 'reputation':
+      if (typeof p.userId !== 'string' || typeof p.username !== 'string') return 'invalid reputation payload';
+      if (!p.delta || typeof p.delta !== 'object') return 'missing delta';
+      for (const value of Object.values(p.delta)) {
+        if (typeof value !== 'number' || !Number.isFinite(value)) return 'invalid delta';
+      }
+      return null;
+
+    default:
+      return `unknown type ${message.type}`;
+  }
+}
+
+/**
+ * Whether a peer at this level may exchange this message type with us
+ */
+export function isAllowed(level: FederationLevel, type: FederationMessageType): boolean {
+  return LEVEL_PERMISSIONS[level]?.includes(type) ?? false;
+}
+
+/**
+ * The string signed for an HTTP request
+ */
+export function requestSigningString(
+  method: string,
+  pathWithQuery: string,
+  timestamp: number,
+  nonce: string,
+  body: string
+): string {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('hex');
+  return [method.toUpperCase(), pathWithQuery, timestamp, nonce, bodyHash].join('\n');
+}
+
+/**
+ * Headers for a request signed by this instance
+ */
+export function signRequest(
+  identity: FederationIdentity,
+  method: string,
+  pathWithQuery: string,
+  body: string = ''
+): Record<string, string> {
+  const timestamp = Date.now();
+  const nonce = crypto.randomBytes(16).toString('hex');
+
+  return {
+    'X-Becas-Instance': identity.instanceId,
+    'X-Becas-Timestamp': String(timestamp),
+    'X-Becas-Nonce': nonce,
+    'X-Becas-Signature': identity.sign(requestSigningString(method, pathWithQuery, timestamp, nonce, body))
+  };
+}
+
+/**
+ * Read the signature headers of an incoming request (null if any are missing)
+ */
+export function readRequestHeaders(headers: Record<string, any>): SignedRequestHeaders | null {
+  const instanceId = headers['x-becas-instance'];
+  const timestamp = parseInt(headers['x-becas-timestamp']);
+  const nonce = headers['x-becas-nonce'];
+  const signature = headers['x-becas-signature'];
+
+  if (typeof instanceId !== 'string' || typeof nonce !== 'string' || typeof signature !== 'string') return null;
+  if (!Number.isFinite(timestamp)) return null;
+
+  return { instanceId, timestamp, nonce, signature };
+}
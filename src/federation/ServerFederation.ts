@@ -1,5 +1,6 @@
 import { Pool } from 'pg';
 import logger from '../utils/logger';
+import type { FederationNode } from './FederationNode';
 
 /**
  * ServerFederation
@@ -14,6 +15,10 @@ import logger from '../utils/logger';
  * - Federated reputation network
  * - Shared analytics aggregation
  * - Coordinated moderation actions
+ *
+ * Instances sharing one database see each other's records directly. Pass a
+ * FederationNode to also publish threats, bans and reputation updates to
+ * peers running their own deployments (see FederationNode).
  */
 
 export interface FederationServer {
@@ -68,7 +73,11 @@ export interface ReputationEntry {
 }
 
 export class ServerFederation {
-  constructor(private db: Pool, private currentServerId: string) {}
+  constructor(
+    private db: Pool,
+    private currentServerId: string,
+    private node?: FederationNode
+  ) {}
 
   /**
    * Register current server in federation
@@ -157,6 +166,16 @@ export class ServerFederation {
         originServer: this.currentServerId
       });
 
+      // Message content stays local - peers only get the classification
+      await this.publish('threat', {
+        type: threat.type,
+        severity: threat.severity,
+        confidence: threat.confidence,
+        description: threat.description,
+        userId: threat.userId,
+        metadata: threat.metadata
+      });
+
       logger.info(`Shared threat with federation: ${threatId} (${threat.type})`);
 
       return threatId;
@@ -295,6 +314,17 @@ export class ServerFederation {
         originServer: this.currentServerId
       });
 
+      await this.publish('ban', {
+        userId: ban.userId,
+        username: ban.username,
+        reason: ban.reason,
+        bannedBy: ban.bannedBy,
+        banType: ban.banType,
+        confidence: ban.confidence,
+        evidence: ban.evidence,
+        expiresAt: ban.expiresAt?.toISOString()
+      });
+
       logger.info(`Added user to global ban list: ${ban.username} (${ban.userId})`);
     } catch (error) {
       logger.error('Error adding global ban:', error);
@@ -453,9 +483,12 @@ export class ServerFederation {
         [userId, this.currentServerId, delta.trustScoreChange || 0]
       );
 
+      await this.publish('reputation', { userId, username, delta });
+
       logger.debug(`Updated global reputation for ${username}`);
     } catch (error) {
       logger.error('Error updating global reputation:', error);
+      throw error;
     }
   }
 
@@ -601,6 +634,23 @@ export class ServerFederation {
     }
   }
 
+  /**
+   * Publish to federation peers over HTTP (when a FederationNode is attached).
+   * Failures are logged - the local record is already stored.
+   */
+  private async publish(
+    type: 'threat' | 'ban' | 'reputation',
+    payload: any
+  ): Promise<void> {
+    if (!this.node) return;
+
+    try {
+      await this.node.publish(type, payload);
+    } catch (error) {
+      logger.error(`Error publishing ${type} to federation peers:`, error);
+    }
+  }
+
   /**
    * Get federation events for this server
    */
@@ -2,15 +2,34 @@ import { Client, GatewayIntentBits, Partials } from 'discord.js';
 import { BecasCore } from './core/BecasCore';
 import { ENV } from './config/environment';
 import { AdminServer } from './api/AdminServer';
+import { accessControl } from './api/AccessControl';
 import { DashboardAPI } from './api/DashboardAPI';
 import { GuildCommandAPI } from './api/GuildCommandAPI';
 import { GuildConfigManager } from './config/GuildConfig';
 import { OllamaConnectionPool } from './services/OllamaConnectionPool';
+import { llmRouter } from './services/LLMRouter';
 import { StorageService } from './services/StorageService';
+import { AuthService } from './services/AuthService';
 import { createLogger } from './services/Logger';
 import { verifyDatabaseConnection } from './startup-check';
 import { OnboardingSystem } from './systems/OnboardingSystem';
 import { KernelBootstrap } from './kernel/KernelBootstrap';
+import { FederationNode } from './federation/FederationNode';
+import { FederationIdentity } from './federation/FederationIdentity';
+import { FederationLevel } from './federation/FederationProtocol';
+import { domainReputation } from './analyzers/links/DomainReputationStore';
+import { actionScheduler, EventQueueDriver } from './advanced/ActionScheduler';
+import { EventQueue } from './queue/EventQueue';
+import { dataHolderRegistry } from './privacy/DataHolder';
+import { registerBuiltInHolders } from './privacy/holders';
+import { registerBuiltInRetentionTargets } from './privacy/retention';
+import { retentionTargetRegistry } from './privacy/RetentionTarget';
+import { retentionService } from './privacy/RetentionService';
+import { configBundleService } from './config/bundles/ConfigBundleService';
+import { slashCommands } from './commands/slash/SlashCommandRouter';
+import { getPostgresPool } from './database/config';
+import { blockchainService } from './services/BlockchainService';
+import { trustScorePublisher } from './services/TrustScorePublisher';
 
 const logger = createLogger('Main');
 
@@ -76,7 +95,10 @@ async function main() {
     maxConnections: 5,
     maxRetries: 3,
   });
+  llmRouter.setOllamaPool(ollamaPool); // Fallbacks to the default Ollama provider share this pool
   const configManager = new GuildConfigManager(storage);
+  registerBuiltInHolders(dataHolderRegistry); // Stores covered by privacy export and erasure
+  registerBuiltInRetentionTargets(retentionTargetRegistry); // Stores covered by retention enforcement
 
   logger.info('✓ Core services initialized');
 
@@ -110,6 +132,21 @@ async function main() {
     process.exit(1);
   }
 
+  // Config bundles write guild config and policies through the live instances
+  configBundleService.attach({ configManager, policyEngine: becas.getGuildPolicyEngine() });
+
+  // Slash commands run moderation through the same BecasFlow tools (registered with Discord on ready)
+  slashCommands.attach({
+    executor: becas.getBecasFlowExecutor(),
+    trustEngine: becas.getTrustEngine(),
+    v3Integration: becas.getV3Integration(),
+    unifiedMemory: becas.getUnifiedMemory(),
+    watchSystem: becas.getWatchSystem(),
+    policyEngine: becas.getGuildPolicyEngine(),
+    auditLogger: becas.getAuditLogger(),
+  });
+  slashCommands.register(client);
+
   // 🚀 Initialize Kernel Architecture (NEW!)
   logger.info('');
   logger.info('Initializing Kernel Architecture...');
@@ -137,13 +174,19 @@ async function main() {
   logger.info('✓ Onboarding system ready - interactive setup enabled');
   console.log('🎯 Onboarding System: Interactive button-based setup for new servers');
 
-  // Initialize Admin Server
+  // Initialize Admin Server (privileged API calls are written to the audit log)
   logger.info('Starting admin server...');
+  accessControl.setAuditLogger(becas.getAuditLogger());
+  accessControl.setClient(client);
+  if (!AuthService.sessionsEnabled()) {
+    logger.warn('SESSION_SECRET is not set: dashboard logins and session tokens are disabled');
+  }
   const adminServer = new AdminServer(ENV.ADMIN_PORT, {
     configManager,
     ollamaPool,
     getMetrics: () => becas.getMetrics(),
     analyticsManager: becas.getAnalyticsManager(),
+    auditLogger: becas.getAuditLogger(),
   });
 
   try {
@@ -210,6 +253,44 @@ async function main() {
     // Don't exit - continue without command center
   }
 
+  // Initialize Federation Node (HTTP sync with partner deployments)
+  let federationNode: FederationNode | null = null;
+  if (ENV.FEDERATION_ENABLED) {
+    logger.info('Starting federation node...');
+    try {
+      const peers = ENV.FEDERATION_PEERS
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(entry => {
+          const [baseUrl, level] = entry.split('=');
+          return { baseUrl, federationLevel: (level || 'public') as FederationLevel };
+        });
+
+      federationNode = new FederationNode(getPostgresPool(), FederationIdentity.load(), {
+        name: ENV.FEDERATION_INSTANCE_NAME,
+        port: ENV.FEDERATION_PORT,
+        syncIntervalMs: ENV.FEDERATION_SYNC_INTERVAL,
+        peers,
+      });
+
+      await federationNode.start();
+      domainReputation.setFederationNode(federationNode);
+      becas.setFederationNode(federationNode);
+      logger.info(`✓ Federation node ${federationNode.instanceId} on port ${ENV.FEDERATION_PORT} (${peers.length} configured peer(s))`);
+    } catch (error) {
+      logger.error('Failed to start federation node', error);
+      console.error('⚠️ Failed to start federation node:', error);
+      federationNode = null;
+      // Don't exit - continue without federation
+    }
+  }
+
+  // Batched on-chain trust score publishing
+  if (blockchainService.isEnabled()) {
+    trustScorePublisher.start();
+  }
+
   // Login to Discord
   logger.info('Logging into Discord...');
   console.log('\n🔐 Logging into Discord...');
@@ -223,6 +304,38 @@ async function main() {
     process.exit(1);
   }
 
+  // Durable action scheduler (after login: handlers need guilds in cache)
+  let schedulerQueue: EventQueue | null = null;
+  try {
+    if (ENV.SCHEDULER_DRIVER === 'bullmq') {
+      const redisUrl = new URL(ENV.REDIS_URL);
+      schedulerQueue = new EventQueue({
+        redis: {
+          host: redisUrl.hostname,
+          port: Number(redisUrl.port) || 6379,
+          password: redisUrl.password || undefined,
+        },
+      });
+      await schedulerQueue.initialize();
+      actionScheduler.setDriver(new EventQueueDriver(schedulerQueue));
+    }
+
+    await actionScheduler.start();
+    logger.info(`✓ Action scheduler started (${ENV.SCHEDULER_DRIVER} driver)`);
+  } catch (error) {
+    logger.error('Failed to start action scheduler', error);
+    console.error('⚠️ Failed to start action scheduler - temp bans and scheduled tasks will not run:', error);
+    // Don't exit - continue without scheduled actions
+  }
+
+  try {
+    await retentionService.start();
+    logger.info('✓ Retention enforcement scheduled');
+  } catch (error) {
+    logger.error('Failed to schedule retention enforcement', error);
+    console.error('⚠️ Failed to schedule retention enforcement - expired data will be kept:', error);
+  }
+
   // Status update every 5 minutes
   setInterval(() => {
     console.log('\n' + becas.getStatus());
@@ -241,6 +354,19 @@ async function main() {
         await kernelBootstrap.shutdown();
       }
 
+      if (federationNode) {
+        await federationNode.stop();
+      }
+
+      // Let running scheduled jobs finish; pending ones resume on next start
+      await actionScheduler.stop();
+      if (schedulerQueue) {
+        await schedulerQueue.shutdown();
+      }
+
+      // Publish pending trust scores
+      await trustScorePublisher.stop().catch(error => logger.error('Failed to publish pending trust scores', error));
+
       // Perform final backup
       logger.info('Creating final backup...');
       console.log('💾 Creating final backup...');
@@ -8,6 +8,7 @@ import { ServerHealthMonitor } from '../analytics/ServerHealthMonitor';
 import { ReportGenerator } from '../analytics/ReportGenerator';
 import { AlertSystem } from '../analytics/AlertSystem';
 import { TopicAnalyzer } from '../analytics/TopicAnalyzer';
+import { configBundleService } from '../config/bundles/ConfigBundleService';
 import logger from '../utils/logger';
 
 /**
@@ -69,6 +70,7 @@ export class AnalyticsIntegration {
 
       // 1. Initialize Alert System
       await this.alertSystem.initialize();
+      configBundleService.attach({ alertSystem: this.alertSystem }); // Reload after bundles change alert routing
       logger.info('✓ Alert System initialized');
 
       // 2. Start Health Monitoring (hourly snapshots)
@@ -310,6 +312,9 @@ export class AnalyticsIntegration {
     // Stop report generator
     this.reportGenerator.stop();
 
+    // Stop alert escalation checks
+    this.alertSystem.shutdown();
+
     this.initialized = false;
 
     logger.info('Analytics Integration shut down');
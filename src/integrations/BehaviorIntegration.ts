@@ -4,9 +4,10 @@ import { BehaviorEngine } from '../core/BehaviorEngine';
 import { BehaviorParser } from '../services/BehaviorParser';
 import { ActionExecutor } from '../services/ActionExecutor';
 import { TrackingSystem } from '../services/TrackingSystem';
-import { ConditionEvaluator } from '../services/ConditionEvaluator';
 import { BehaviorCommands } from '../commands/BehaviorCommands';
 import { BehaviorAPI } from '../api/BehaviorAPI';
+import { configBundleService } from '../config/bundles/ConfigBundleService';
+import { slashCommands } from '../commands/slash/SlashCommandRouter';
 import logger from '../utils/logger';
 
 /**
@@ -25,7 +26,6 @@ export class BehaviorIntegration {
   private parser!: BehaviorParser;
   private actionExecutor!: ActionExecutor;
   private trackingSystem!: TrackingSystem;
-  private conditionEvaluator!: ConditionEvaluator;
   private commands!: BehaviorCommands;
   private api!: BehaviorAPI;
 
@@ -56,33 +56,19 @@ export class BehaviorIntegration {
       await this.trackingSystem.initialize();
       logger.info('✓ TrackingSystem initialized');
 
-      // 4. Initialize condition evaluator
-      this.conditionEvaluator = new ConditionEvaluator();
-      logger.info('✓ ConditionEvaluator initialized');
-
-      // 5. Initialize behavior engine (core)
-      this.engine = new BehaviorEngine(this.db, this.discordClient);
+      // 4. Initialize behavior engine (core) with the action executor and tracking system
+      this.engine = new BehaviorEngine(this.db, this.discordClient, this.actionExecutor, this.trackingSystem);
       await this.engine.initialize();
+      configBundleService.attach({ behaviorEngine: this.engine }); // Reload after bundles change behaviors
+      slashCommands.attach({ behaviorEngine: this.engine }); // Reload after /behavior toggles
       logger.info('✓ BehaviorEngine initialized');
 
-      // 6. Integrate action executor with engine
-      this.integrateActionExecutor();
-      logger.info('✓ ActionExecutor integrated');
-
-      // 7. Integrate tracking system with engine
-      this.integrateTrackingSystem();
-      logger.info('✓ TrackingSystem integrated');
-
-      // 8. Integrate condition evaluator with engine
-      this.integrateConditionEvaluator();
-      logger.info('✓ ConditionEvaluator integrated');
-
-      // 9. Initialize Discord commands
+      // 5. Initialize Discord commands
       this.commands = new BehaviorCommands(this.db, this.parser, this.engine);
       this.setupCommandHandler();
       logger.info('✓ Discord commands initialized');
 
-      // 10. Initialize API
+      // 6. Initialize API
       this.api = new BehaviorAPI(this.db, this.parser, this.engine);
       logger.info('✓ Behavior API initialized');
 
@@ -97,51 +83,6 @@ export class BehaviorIntegration {
     }
   }
 
-  /**
-   * Integrate ActionExecutor with BehaviorEngine
-   */
-  private integrateActionExecutor(): void {
-    // Monkey-patch executeAction method
-    const originalExecuteAction = (this.engine as any).executeAction;
-
-    (this.engine as any).executeAction = async (action: any, context: any, analysisResult: any) => {
-      await this.actionExecutor.execute(action, context, analysisResult);
-    };
-  }
-
-  /**
-   * Integrate TrackingSystem with BehaviorEngine
-   */
-  private integrateTrackingSystem(): void {
-    // Monkey-patch startTracking method
-    const originalStartTracking = (this.engine as any).startTracking;
-
-    (this.engine as any).startTracking = async (behavior: any, context: any, executionId: number) => {
-      if (behavior.tracking?.enabled) {
-        await this.trackingSystem.startTracking(
-          behavior.id,
-          executionId,
-          context.serverId,
-          behavior.tracking
-        );
-      }
-    };
-  }
-
-  /**
-   * Integrate ConditionEvaluator with BehaviorEngine
-   */
-  private integrateConditionEvaluator(): void {
-    // Monkey-patch shouldExecuteAction method
-    const originalShouldExecuteAction = (this.engine as any).shouldExecuteAction;
-
-    (this.engine as any).shouldExecuteAction = async (action: any, context: any, analysisResult: any) => {
-      if (!action.condition) return true;
-
-      return this.conditionEvaluator.evaluate(action.condition, context, analysisResult);
-    };
-  }
-
   /**
    * Setup Discord command handler
    */
@@ -275,7 +216,8 @@ export class BehaviorIntegration {
     logger.info('Shutting down Dynamic Behavior Engine...');
 
     // Stop tracking system
-    // Stop behavior engine
+    // Stop behavior engine (cron jobs and condition pollers)
+    this.engine?.shutdown();
     // Close connections
 
     this.initialized = false;
@@ -333,6 +333,21 @@ export class ExecutionEngine {
   }
 
   private async executeUndo(step: ExecutionStep, context: ExecutionContext): Promise<string> {
+    // "undo the last plan" / "undo all of that" reverses every step of the last BecasFlow plan
+    if (/\b(plan|all|everything|whole)\b/i.test(step.query)) {
+      const member = await context.guild.members.fetch(context.message.author.id);
+      const becasContext: BecasContext = {
+        guild: context.guild,
+        channel: context.channel,
+        member: member,
+        message: context.message,
+        services: { v3Integration: this.v3Integration },
+      } as BecasContext;
+
+      const undoResult = await this.becasExecutor.undoLastPlan(becasContext);
+      return `${undoResult.success ? '✅' : '❌'} ${undoResult.finalOutput}`;
+    }
+
     const result = await this.v3Integration.handleUndoCommand(
       context.message,
       context.message.member!
@@ -305,20 +305,7 @@ Does this violate the rule?`;
         [guildId]
       );
 
-      const policies: GuildPolicy[] = result.rows.map((row: any) => ({
-        id: row.id,
-        guildId: row.guild_id,
-        ruleText: row.rule_text,
-        aiInterpretation: row.ai_interpretation,
-        category: row.category,
-        actionType: row.action_type,
-        actionParams: row.action_params,
-        severity: row.severity,
-        confidence: row.confidence,
-        learnedFrom: row.learned_from,
-        sourceChannelId: row.source_channel_id,
-        isActive: row.is_active,
-      }));
+      const policies: GuildPolicy[] = result.rows.map(toPolicy);
 
       // Cache for 5 minutes
       this.policyCache.set(guildId, policies);
@@ -332,6 +319,25 @@ Does this violate the rule?`;
     }
   }
 
+  /**
+   * Get every guild policy, including inactive ones (uncached, for management)
+   */
+  async getAllGuildPolicies(guildId: string): Promise<GuildPolicy[]> {
+    const result = await this.db.query(
+      `
+      SELECT
+        id, guild_id, rule_text, ai_interpretation, category,
+        action_type, action_params, severity, confidence,
+        learned_from, source_channel_id, is_active
+      FROM guild_policies
+      WHERE guild_id = $1
+      ORDER BY is_active DESC, severity DESC
+    `,
+      [guildId]
+    );
+    return result.rows.map(toPolicy);
+  }
+
   /**
    * Clear policy cache for guild (call after adding/updating policies)
    */
@@ -446,3 +452,20 @@ Does this violate the rule?`;
     return this.updatePolicy(policyId, { isActive: false });
   }
 }
+
+function toPolicy(row: any): GuildPolicy {
+  return {
+    id: row.id,
+    guildId: row.guild_id,
+    ruleText: row.rule_text,
+    aiInterpretation: row.ai_interpretation,
+    category: row.category,
+    actionType: row.action_type,
+    actionParams: row.action_params,
+    severity: row.severity,
+    confidence: row.confidence,
+    learnedFrom: row.learned_from,
+    sourceChannelId: row.source_channel_id,
+    isActive: row.is_active,
+  };
+}
@@ -10,6 +10,8 @@
 
 import { StorageService } from '../services/StorageService';
 import { createLogger } from '../services/Logger';
+import { DataHolder, DataSubject, ErasureContext, HolderErasure, dataHolderRegistry } from '../privacy/DataHolder';
+import { RetentionCategory, RetentionOutcome, RetentionSweep, inRetentionScope, retentionTargetRegistry } from '../privacy/RetentionTarget';
 
 const logger = createLogger('UnifiedMemoryStore');
 
@@ -64,7 +66,22 @@ export interface QueryOptions {
 // UNIFIED MEMORY STORE
 // ============================================
 
-export class UnifiedMemoryStore {
+// Memories kept as moderation evidence when a user is erased
+const EVIDENCE_TYPES: MemoryType[] = ['action', 'decision', 'policy_violation'];
+
+// Memory types that expire under a retention category (profiles count from their last update)
+const RETENTION_TYPES: Array<{ category: RetentionCategory; types: MemoryType[]; description: string }> = [
+  { category: 'raw_content', types: ['conversation'], description: 'Remembered conversations' },
+  { category: 'profiles', types: ['user_profile'], description: 'Remembered user profiles' },
+  { category: 'audit', types: EVIDENCE_TYPES, description: 'Remembered actions, decisions and policy violations' },
+];
+
+export class UnifiedMemoryStore implements DataHolder {
+  // Data holder: memories whose data mentions the user
+  readonly id = 'unified_memory';
+  readonly description = 'Actions, decisions, conversations and feedback remembered about the user';
+  readonly guildScoped = true;
+
   private storage: StorageService;
   private cache: Map<string, MemoryEntry> = new Map();
   private indexes: {
@@ -82,6 +99,17 @@ export class UnifiedMemoryStore {
       byTag: new Map(),
       byRelation: new Map(),
     };
+    dataHolderRegistry.register(this);
+
+    for (const { category, types, description } of RETENTION_TYPES) {
+      retentionTargetRegistry.register({
+        id: `unified_memory_${category}`,
+        category,
+        description,
+        guildScoped: true,
+        sweep: sweep => this.expire(sweep, types, category === 'profiles' ? 'updatedAt' : 'createdAt'),
+      });
+    }
   }
 
   /**
@@ -272,6 +300,66 @@ export class UnifiedMemoryStore {
     return true;
   }
 
+  async exportSubject(subject: DataSubject): Promise<any[]> {
+    return this.memoriesOf(subject);
+  }
+
+  /**
+   * Remove the user's memories for good (not a soft delete), except recent moderation evidence
+   */
+  async eraseSubject(subject: DataSubject, context: ErasureContext): Promise<HolderErasure> {
+    const erasure: HolderErasure = { deleted: 0, pseudonymized: 0, retained: 0 };
+
+    for (const entry of this.memoriesOf(subject)) {
+      if (EVIDENCE_TYPES.includes(entry.type) && entry.metadata.createdAt >= context.evidenceCutoff.getTime()) {
+        erasure.retained++;
+        continue;
+      }
+
+      this.cache.delete(entry.id);
+      this.removeFromIndexes(entry);
+      erasure.deleted++;
+    }
+
+    if (erasure.retained > 0) {
+      erasure.retainedReason = `moderation evidence newer than ${context.evidenceCutoff.toISOString().slice(0, 10)}`;
+    }
+    if (erasure.deleted > 0) {
+      await this.persist();
+    }
+
+    return erasure;
+  }
+
+  /**
+   * Remove memories of these types older than the cutoff (not a soft delete),
+   * except those that mention a held user
+   */
+  private async expire(sweep: RetentionSweep, types: MemoryType[], timeField: 'createdAt' | 'updatedAt'): Promise<RetentionOutcome> {
+    const outcome: RetentionOutcome = { expired: 0, held: 0 };
+
+    for (const entry of Array.from(this.cache.values())) {
+      if (!types.includes(entry.type) || entry.metadata[timeField] >= sweep.cutoff.getTime()) continue;
+      if (!inRetentionScope(sweep.scope, entry.guildId)) continue;
+
+      if (sweep.holds.mentionsHeld(JSON.stringify(entry.data ?? null), entry.guildId)) {
+        outcome.held++;
+        continue;
+      }
+
+      outcome.expired++;
+      if (!sweep.dryRun) {
+        this.cache.delete(entry.id);
+        this.removeFromIndexes(entry);
+      }
+    }
+
+    if (!sweep.dryRun && outcome.expired > 0) {
+      await this.persist();
+    }
+    return outcome;
+  }
+
   /**
    * Get memory statistics
    */
@@ -335,6 +423,21 @@ export class UnifiedMemoryStore {
     }
   }
 
+  private removeFromIndexes(entry: MemoryEntry): void {
+    for (const index of [this.indexes.byType, this.indexes.byGuild, this.indexes.byTag, this.indexes.byRelation]) {
+      for (const ids of (index as Map<string, Set<string>>).values()) {
+        ids.delete(entry.id);
+      }
+    }
+  }
+
+  private memoriesOf(subject: DataSubject): MemoryEntry[] {
+    return Array.from(this.cache.values()).filter(entry =>
+      (!subject.guildId || entry.guildId === subject.guildId) &&
+      JSON.stringify(entry.data ?? null).includes(subject.userId)
+    );
+  }
+
   private async persist(): Promise<void> {
     const entries = Array.from(this.cache.values());
     await this.storage.save('unified_memory', entries);
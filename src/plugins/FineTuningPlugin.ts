@@ -43,6 +43,7 @@ export interface TrainingExample {
   output: string; // Expected model output
   metadata: {
     guildId: string;
+    userId?: string; // Subject of the example (lets data subject erasure find it)
     confidence?: number;
     outcome?: 'success' | 'failure' | 'uncertain';
     humanFeedback?: boolean;
@@ -175,6 +176,7 @@ Reasoning: ${reasoning}`;
         output,
         metadata: {
           guildId,
+          userId: event.metadata.userId,
           confidence,
           outcome: 'success', // Assumed successful detection
         },
@@ -230,6 +232,7 @@ Justification: ${reason}`;
         output,
         metadata: {
           guildId,
+          userId: targetUserId,
           outcome: 'success',
         },
         quality: {
@@ -0,0 +1,64 @@
+/**
+ * DATA HOLDERS - Every store that keeps personal data about a Discord user
+ *
+ * A holder can list what it keeps about a data subject and erase it. Stores
+ * that live in this process (profiles, memories) register themselves when
+ * constructed; database tables, dataset files and embeddings are registered
+ * by registerBuiltInHolders(). PrivacyService walks the registry, so a new
+ * store only has to register a holder to be covered by export and erasure.
+ */
+
+export interface DataSubject {
+  userId: string;
+  guildId: string | null; // null = every guild (the member's own request)
+}
+
+export interface ErasureContext {
+  requestId: string;
+  pseudonym: string; // Replaces the user ID in records that must stay but need not name them
+  evidenceCutoff: Date; // Moderation evidence newer than this is retained
+  recordsKept?: boolean; // Set for eraseLast holders: an earlier holder retained records or failed
+}
+
+export interface HolderErasure {
+  deleted: number;
+  pseudonymized: number;
+  retained: number;
+  retainedReason?: string;
+}
+
+export interface DataHolder {
+  readonly id: string;
+  readonly description: string;
+  readonly guildScoped: boolean; // false: cannot tell guilds apart, only part of guild-wide (null) requests
+  readonly eraseLast?: boolean; // Erased after every other holder (e.g. rows the others reference)
+
+  exportSubject(subject: DataSubject): Promise<any[]>;
+  eraseSubject(subject: DataSubject, context: ErasureContext): Promise<HolderErasure>;
+}
+
+export class DataHolderRegistry {
+  private holders: Map<string, DataHolder> = new Map();
+
+  /**
+   * Add a holder (replaces an earlier holder with the same ID)
+   */
+  register(holder: DataHolder): void {
+    this.holders.set(holder.id, holder);
+  }
+
+  unregister(id: string): void {
+    this.holders.delete(id);
+  }
+
+  get(id: string): DataHolder | undefined {
+    return this.holders.get(id);
+  }
+
+  list(): DataHolder[] {
+    return Array.from(this.holders.values());
+  }
+}
+
+// Singleton instance
+export const dataHolderRegistry = new DataHolderRegistry();
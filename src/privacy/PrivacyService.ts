@@ -0,0 +1,310 @@
+import crypto from 'crypto';
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ENV } from '../config/environment';
+import { getPostgresPool } from '../database/config';
+import { FederationIdentity } from '../federation/FederationIdentity';
+import { createLogger } from '../services/Logger';
+import { canonicalize } from '../utils/canonicalJson';
+import { DataHolder, DataHolderRegistry, DataSubject, ErasureContext, HolderErasure, dataHolderRegistry } from './DataHolder';
+import { RetentionStore, retentionStore } from './RetentionStore';
+
+const logger = createLogger('PrivacyService');
+
+/**
+ * PRIVACY SERVICE - "What do you know about me?" and "Delete me"
+ *
+ * Export collects every registered holder's records about a user into one
+ * machine-readable document. Erasure asks every holder to delete (or
+ * pseudonymize) them; moderation evidence younger than
+ * PRIVACY_EVIDENCE_RETENTION_DAYS is kept. Each erasure ends with a receipt
+ * signed with the instance identity, so the member can later prove what was
+ * erased. Requests are logged in privacy_requests under a hash of the user ID.
+ * A user under a legal hold (explicit or from an open incident) is not
+ * erased at all: the request is logged and receipted as held.
+ *
+ * Guild-scoped requests (a guild admin acting for a member) only reach
+ * holders that can tell guilds apart; the rest are listed as skipped.
+ */
+
+export type PrivacyRequestStatus = 'completed' | 'partial' | 'held';
+
+export interface HolderExport {
+  holder: string;
+  description: string;
+  records: any[];
+  error?: string;
+}
+
+export interface SubjectExport {
+  requestId: string;
+  userId: string;
+  guildId: string | null;
+  generatedAt: string;
+  status: PrivacyRequestStatus;
+  holders: HolderExport[];
+  skipped: string[]; // Holders that cannot be limited to the requested guild
+}
+
+export interface HolderErasureResult extends HolderErasure {
+  holder: string;
+  error?: string;
+}
+
+export interface ErasureReceipt {
+  requestId: string;
+  subjectHash: string;
+  guildId: string | null;
+  requestedBy: string;
+  startedAt: string;
+  completedAt: string;
+  status: PrivacyRequestStatus;
+  pseudonym: string;
+  evidenceCutoff: string;
+  holders: HolderErasureResult[];
+  skipped: string[];
+  instanceId: string;
+  signature: string; // Over the canonical JSON of every other field
+}
+
+export interface PrivacyRequestRecord {
+  id: string;
+  kind: 'export' | 'erasure';
+  subjectHash: string;
+  guildId: string | null;
+  requestedBy: string;
+  status: PrivacyRequestStatus;
+  summary: Record<string, any>;
+  receipt: ErasureReceipt | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+export class PrivacyService {
+  private identity?: FederationIdentity;
+
+  constructor(
+    private registry: DataHolderRegistry = dataHolderRegistry,
+    private db?: Pool,
+    private retention: RetentionStore = retentionStore
+  ) {}
+
+  /**
+   * Everything the registered holders keep about a user
+   */
+  async exportSubject(subject: DataSubject, requestedBy: string): Promise<SubjectExport> {
+    const requestId = uuidv4();
+    const { holders, skipped } = this.holdersFor(subject);
+
+    const exports: HolderExport[] = [];
+    for (const holder of holders) {
+      try {
+        const records = await holder.exportSubject(subject);
+        exports.push({ holder: holder.id, description: holder.description, records });
+      } catch (error: any) {
+        logger.error(`Export from ${holder.id} failed for request ${requestId}`, error);
+        exports.push({ holder: holder.id, description: holder.description, records: [], error: error?.message || String(error) });
+      }
+    }
+
+    const result: SubjectExport = {
+      requestId,
+      userId: subject.userId,
+      guildId: subject.guildId,
+      generatedAt: new Date().toISOString(),
+      status: exports.some(e => e.error) ? 'partial' : 'completed',
+      holders: exports,
+      skipped,
+    };
+
+    await this.record({
+      id: requestId,
+      kind: 'export',
+      subject,
+      requestedBy,
+      status: result.status,
+      summary: Object.fromEntries(exports.map(e => [e.holder, e.error ? { error: e.error } : { records: e.records.length }])),
+      receipt: null,
+    });
+
+    logger.info(`Exported data for request ${requestId} (${exports.reduce((n, e) => n + e.records.length, 0)} records, ${result.status})`);
+    return result;
+  }
+
+  /**
+   * Erase a user from every registered holder and return the signed receipt.
+   * Nothing is erased while the user is under a legal hold (or holds cannot be checked).
+   */
+  async eraseSubject(subject: DataSubject, requestedBy: string): Promise<ErasureReceipt> {
+    const requestId = uuidv4();
+    const startedAt = new Date().toISOString();
+    const context: ErasureContext = {
+      requestId,
+      pseudonym: `erased-${crypto.randomBytes(6).toString('hex')}`, // Fits the 20-character user ID columns
+      evidenceCutoff: new Date(Date.now() - ENV.PRIVACY_EVIDENCE_RETENTION_DAYS * 86400000),
+    };
+    const held = (await this.retention.loadHolds()).isHeld(subject.userId, subject.guildId);
+    const { holders, skipped } = held
+      ? { holders: [], skipped: this.registry.list().map(h => h.id) }
+      : this.holdersFor(subject);
+
+    const results: HolderErasureResult[] = [];
+    for (const holder of [...holders.filter(h => !h.eraseLast), ...holders.filter(h => h.eraseLast)]) {
+      if (holder.eraseLast) {
+        context.recordsKept = results.some(r => r.retained > 0 || r.error);
+      }
+
+      try {
+        const erasure = await holder.eraseSubject(subject, context);
+        results.push({ holder: holder.id, ...erasure });
+      } catch (error: any) {
+        logger.error(`Erasure in ${holder.id} failed for request ${requestId}`, error);
+        results.push({ holder: holder.id, deleted: 0, pseudonymized: 0, retained: 0, error: error?.message || String(error) });
+      }
+    }
+
+    const identity = this.getIdentity();
+    const unsigned: Omit<ErasureReceipt, 'signature'> = {
+      requestId,
+      subjectHash: PrivacyService.subjectHash(subject.userId),
+      guildId: subject.guildId,
+      requestedBy,
+      startedAt,
+      completedAt: new Date().toISOString(),
+      status: held ? 'held' : results.some(r => r.error) ? 'partial' : 'completed',
+      pseudonym: context.pseudonym,
+      evidenceCutoff: context.evidenceCutoff.toISOString(),
+      holders: results,
+      skipped,
+      instanceId: identity.instanceId,
+    };
+    const receipt: ErasureReceipt = { ...unsigned, signature: identity.sign(canonicalize(unsigned)) };
+
+    await this.record({
+      id: requestId,
+      kind: 'erasure',
+      subject,
+      requestedBy,
+      status: receipt.status,
+      summary: {
+        deleted: results.reduce((n, r) => n + r.deleted, 0),
+        pseudonymized: results.reduce((n, r) => n + r.pseudonymized, 0),
+        retained: results.reduce((n, r) => n + r.retained, 0),
+        failed: results.filter(r => r.error).map(r => r.holder),
+      },
+      receipt,
+    });
+
+    logger.info(`Erasure ${requestId} ${receipt.status}: ${results.map(r => `${r.holder}=${r.error ? 'failed' : r.deleted}`).join(', ')}`);
+    return receipt;
+  }
+
+  /**
+   * Check a receipt's signature against this instance's identity
+   */
+  verifyReceipt(receipt: ErasureReceipt): boolean {
+    const { signature, ...unsigned } = receipt;
+    const identity = this.getIdentity();
+    return receipt.instanceId === identity.instanceId &&
+      FederationIdentity.verify(canonicalize(unsigned), signature, identity.publicKey);
+  }
+
+  async getRequest(requestId: string): Promise<PrivacyRequestRecord | null> {
+    const result = await this.pool.query('SELECT * FROM privacy_requests WHERE id = $1', [requestId]);
+    return result.rows[0] ? toRecord(result.rows[0]) : null;
+  }
+
+  /**
+   * Requests about one user, newest first
+   */
+  async listRequests(userId: string, limit: number = 50): Promise<PrivacyRequestRecord[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM privacy_requests WHERE subject_hash = $1 ORDER BY created_at DESC LIMIT $2',
+      [PrivacyService.subjectHash(userId), limit]
+    );
+    return result.rows.map(toRecord);
+  }
+
+  /**
+   * Public key receipts are signed with (for verification elsewhere)
+   */
+  getSigningKey(): { instanceId: string; publicKey: string } {
+    const identity = this.getIdentity();
+    return { instanceId: identity.instanceId, publicKey: identity.publicKey };
+  }
+
+  static subjectHash(userId: string): string {
+    return crypto.createHash('sha256').update(userId).digest('hex');
+  }
+
+  private holdersFor(subject: DataSubject): { holders: DataHolder[]; skipped: string[] } {
+    const all = this.registry.list();
+    if (!subject.guildId) return { holders: all, skipped: [] };
+
+    return {
+      holders: all.filter(h => h.guildScoped),
+      skipped: all.filter(h => !h.guildScoped).map(h => h.id),
+    };
+  }
+
+  private async record(request: {
+    id: string;
+    kind: 'export' | 'erasure';
+    subject: DataSubject;
+    requestedBy: string;
+    status: PrivacyRequestStatus;
+    summary: Record<string, any>;
+    receipt: ErasureReceipt | null;
+  }): Promise<void> {
+    try {
+      await this.pool.query(
+        `
+        INSERT INTO privacy_requests (id, kind, subject_hash, guild_id, requested_by, status, summary, receipt, completed_at)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+        `,
+        [
+          request.id,
+          request.kind,
+          PrivacyService.subjectHash(request.subject.userId),
+          request.subject.guildId,
+          request.requestedBy,
+          request.status,
+          JSON.stringify(request.summary),
+          request.receipt ? JSON.stringify(request.receipt) : null,
+        ]
+      );
+    } catch (error) {
+      // The caller still gets the export or receipt; only the log entry is missing
+      logger.error(`Failed to record privacy request ${request.id}`, error);
+    }
+  }
+
+  private getIdentity(): FederationIdentity {
+    if (!this.identity) {
+      this.identity = FederationIdentity.load();
+    }
+    return this.identity;
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
+
+function toRecord(row: any): PrivacyRequestRecord {
+  return {
+    id: row.id,
+    kind: row.kind,
+    subjectHash: row.subject_hash,
+    guildId: row.guild_id,
+    requestedBy: row.requested_by,
+    status: row.status,
+    summary: row.summary,
+    receipt: row.receipt,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
+
+// Singleton instance
+export const privacyService = new PrivacyService();
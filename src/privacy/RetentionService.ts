@@ -0,0 +1,235 @@
+import { v4 as uuidv4 } from 'uuid';
+import { actionScheduler, ActionScheduler } from '../advanced/ActionScheduler';
+import { ENV } from '../config/environment';
+import { createLogger } from '../services/Logger';
+import { INSTANCE_GUILD_ID, RetentionRule, RetentionStore, retentionStore } from './RetentionStore';
+import {
+  RETENTION_CATEGORIES,
+  RetentionCategory,
+  RetentionScope,
+  RetentionTarget,
+  RetentionTargetRegistry,
+  retentionTargetRegistry,
+} from './RetentionTarget';
+
+const logger = createLogger('RetentionService');
+
+/**
+ * RETENTION SERVICE - Expire data once its retention period is over
+ *
+ * Each category's period comes from the guild's rule, else the instance-wide
+ * rule, else the RETENTION_*_DAYS default. A full run sweeps every guild with
+ * its own rule separately, then everything else with the instance period.
+ * Runs are scheduled as a recurring job and stay dry runs (report only)
+ * while RETENTION_DRY_RUN is on. Every run's report is kept.
+ */
+
+const ENFORCE_JOB_ID = 'retention:enforce';
+const ENFORCE_JOB_TYPE = 'retention_enforce';
+
+export type RetentionSource = 'guild' | 'instance' | 'default';
+
+export interface EffectiveRetention {
+  category: RetentionCategory;
+  retainDays: number | null; // null: keep forever
+  source: RetentionSource;
+}
+
+export interface RetentionSweepReport {
+  target: string;
+  category: RetentionCategory;
+  guildId: string; // '*' for the instance-wide sweep
+  retainDays: number;
+  cutoff: string;
+  expired: number;
+  held: number;
+  error?: string;
+}
+
+export interface RetentionReport {
+  runId: string;
+  guildId: string | null;
+  dryRun: boolean;
+  startedAt: string;
+  completedAt: string;
+  status: 'completed' | 'partial';
+  expired: number;
+  held: number;
+  sweeps: RetentionSweepReport[];
+  skipped: string[]; // Targets outside a guild-only run
+}
+
+export class RetentionService {
+  constructor(
+    private store: RetentionStore = retentionStore,
+    private registry: RetentionTargetRegistry = retentionTargetRegistry,
+    private scheduler: ActionScheduler = actionScheduler
+  ) {}
+
+  /**
+   * Schedule the recurring enforcement job (keeps the next run time of an existing job)
+   */
+  async start(): Promise<void> {
+    this.scheduler.registerHandler<{ dryRun: boolean }>(ENFORCE_JOB_TYPE, async job => {
+      await this.enforce({ dryRun: job.payload.dryRun });
+    });
+
+    const payload = { dryRun: ENV.RETENTION_DRY_RUN };
+    const existing = await this.scheduler.getJob(ENFORCE_JOB_ID);
+    const current = existing && existing.status === 'pending' &&
+      existing.intervalMs === ENV.RETENTION_ENFORCE_INTERVAL &&
+      existing.payload?.dryRun === payload.dryRun;
+
+    if (!current) {
+      await this.scheduler.schedule({
+        id: ENFORCE_JOB_ID,
+        type: ENFORCE_JOB_TYPE,
+        runAt: existing?.status === 'pending' ? existing.runAt : new Date(Date.now() + ENV.RETENTION_ENFORCE_INTERVAL),
+        intervalMs: ENV.RETENTION_ENFORCE_INTERVAL,
+        payload,
+      });
+    }
+
+    logger.info(`Retention enforcement every ${Math.round(ENV.RETENTION_ENFORCE_INTERVAL / 3600000)}h${payload.dryRun ? ' (dry run)' : ''}`);
+  }
+
+  /**
+   * Retention period per category for a guild (or the instance)
+   */
+  async getEffectivePolicy(guildId?: string): Promise<EffectiveRetention[]> {
+    const rules = await this.store.listRules();
+    return (Object.keys(RETENTION_CATEGORIES) as RetentionCategory[]).map(category =>
+      this.resolve(rules, category, guildId)
+    );
+  }
+
+  /**
+   * Expire everything past its retention period (or, in a dry run, report what would expire).
+   * With a guildId only that guild's data is swept.
+   */
+  async enforce(options: { dryRun: boolean; guildId?: string }): Promise<RetentionReport> {
+    const runId = uuidv4();
+    const startedAt = new Date();
+    const rules = await this.store.listRules();
+    const holds = await this.store.loadHolds();
+
+    const sweeps: RetentionSweepReport[] = [];
+    const skipped: string[] = [];
+
+    for (const target of this.registry.list()) {
+      if (options.guildId && !target.guildScoped) {
+        skipped.push(target.id);
+        continue;
+      }
+
+      for (const { guildId, scope, retainDays } of this.plan(target, rules, options.guildId)) {
+        if (retainDays === null) continue;
+
+        const cutoff = new Date(startedAt.getTime() - retainDays * 86400000);
+        const report: RetentionSweepReport = {
+          target: target.id,
+          category: target.category,
+          guildId,
+          retainDays,
+          cutoff: cutoff.toISOString(),
+          expired: 0,
+          held: 0,
+        };
+
+        try {
+          Object.assign(report, await target.sweep({ cutoff, scope, holds, dryRun: options.dryRun }));
+        } catch (error: any) {
+          logger.error(`Retention sweep of ${target.id} (${guildId}) failed in run ${runId}`, error);
+          report.error = error?.message || String(error);
+        }
+        sweeps.push(report);
+      }
+    }
+
+    const result: RetentionReport = {
+      runId,
+      guildId: options.guildId || null,
+      dryRun: options.dryRun,
+      startedAt: startedAt.toISOString(),
+      completedAt: new Date().toISOString(),
+      status: sweeps.some(s => s.error) ? 'partial' : 'completed',
+      expired: sweeps.reduce((n, s) => n + s.expired, 0),
+      held: sweeps.reduce((n, s) => n + s.held, 0),
+      sweeps,
+      skipped,
+    };
+
+    try {
+      await this.store.recordRun({
+        id: runId,
+        guildId: result.guildId,
+        dryRun: result.dryRun,
+        status: result.status,
+        expired: result.expired,
+        held: result.held,
+        report: result,
+        startedAt,
+      });
+    } catch (error) {
+      // The caller still gets the report; only the stored copy is missing
+      logger.error(`Failed to record retention run ${runId}`, error);
+    }
+
+    logger.info(`Retention run ${runId}${result.dryRun ? ' (dry run)' : ''}: ${result.expired} expired, ${result.held} held, ${result.status}`);
+    return result;
+  }
+
+  /**
+   * The sweeps one target needs: one per guild with its own rule, then the rest at the instance period
+   */
+  private plan(
+    target: RetentionTarget,
+    rules: RetentionRule[],
+    onlyGuildId?: string
+  ): Array<{ guildId: string; scope: RetentionScope; retainDays: number | null }> {
+    if (onlyGuildId) {
+      return [{
+        guildId: onlyGuildId,
+        scope: { guildId: onlyGuildId },
+        retainDays: this.resolve(rules, target.category, onlyGuildId).retainDays,
+      }];
+    }
+
+    const instance = this.resolve(rules, target.category).retainDays;
+    if (!target.guildScoped || !RETENTION_CATEGORIES[target.category].guildRules) {
+      return [{ guildId: INSTANCE_GUILD_ID, scope: {}, retainDays: instance }];
+    }
+
+    const overrides = rules.filter(r => r.category === target.category && r.guildId !== INSTANCE_GUILD_ID);
+    return [
+      ...overrides.map(r => ({ guildId: r.guildId, scope: { guildId: r.guildId }, retainDays: r.retainDays })),
+      { guildId: INSTANCE_GUILD_ID, scope: { excludeGuildIds: overrides.map(r => r.guildId) }, retainDays: instance },
+    ];
+  }
+
+  private resolve(rules: RetentionRule[], category: RetentionCategory, guildId?: string): EffectiveRetention {
+    const guild = guildId && RETENTION_CATEGORIES[category].guildRules
+      ? rules.find(r => r.guildId === guildId && r.category === category)
+      : undefined;
+    if (guild) return { category, retainDays: guild.retainDays, source: 'guild' };
+
+    const instance = rules.find(r => r.guildId === INSTANCE_GUILD_ID && r.category === category);
+    if (instance) return { category, retainDays: instance.retainDays, source: 'instance' };
+
+    return { category, retainDays: defaultDays(category) || null, source: 'default' };
+  }
+}
+
+function defaultDays(category: RetentionCategory): number {
+  switch (category) {
+    case 'raw_content': return ENV.RETENTION_RAW_CONTENT_DAYS;
+    case 'analysis_scores': return ENV.RETENTION_ANALYSIS_SCORES_DAYS;
+    case 'embeddings': return ENV.RETENTION_EMBEDDINGS_DAYS;
+    case 'profiles': return ENV.RETENTION_PROFILES_DAYS;
+    case 'audit': return ENV.RETENTION_AUDIT_DAYS;
+    case 'federation_events': return ENV.RETENTION_FEDERATION_EVENTS_DAYS;
+  }
+}
+
+// Singleton instance
+export const retentionService = new RetentionService();
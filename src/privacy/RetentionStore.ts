@@ -0,0 +1,241 @@
+import { Pool } from 'pg';
+import { getPostgresPool } from '../database/config';
+import { LegalHold, LegalHoldSet, RetentionCategory } from './RetentionTarget';
+
+/**
+ * RETENTION STORE - Retention rules, legal holds and enforcement run reports
+ *
+ * Rules live per guild and category, with instance-wide rules under guild
+ * '*'. Users held by an explicit legal hold, or named in an open alert
+ * incident, are exempt from expiry until the hold is released or the
+ * incident acknowledged.
+ */
+
+export const INSTANCE_GUILD_ID = '*';
+
+export interface RetentionRule {
+  guildId: string;
+  category: RetentionCategory;
+  retainDays: number | null; // null: keep forever
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+export interface LegalHoldRecord {
+  id: number;
+  guildId: string | null;
+  userId: string;
+  reason: string;
+  createdBy: string;
+  createdAt: Date;
+  releasedBy: string | null;
+  releasedAt: Date | null;
+}
+
+export interface RetentionRunRecord {
+  id: string;
+  guildId: string | null;
+  dryRun: boolean;
+  status: string;
+  expired: number;
+  held: number;
+  report: any;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+/**
+ * Holds loaded for one enforcement run
+ */
+export class LegalHolds implements LegalHoldSet {
+  constructor(private holds: LegalHold[]) {}
+
+  entries(): LegalHold[] {
+    return this.holds;
+  }
+
+  isHeld(userId: string, guildId: string | null): boolean {
+    return this.holds.some(h => h.userId === userId && (!h.guildId || !guildId || h.guildId === guildId));
+  }
+
+  mentionsHeld(text: string, guildId: string | null): boolean {
+    return this.holds.some(h => (!h.guildId || !guildId || h.guildId === guildId) && text.includes(h.userId));
+  }
+}
+
+export class RetentionStore {
+  constructor(private db?: Pool) {}
+
+  async listRules(guildId?: string): Promise<RetentionRule[]> {
+    const result = guildId
+      ? await this.pool.query('SELECT * FROM retention_policies WHERE guild_id = $1 ORDER BY category', [guildId])
+      : await this.pool.query('SELECT * FROM retention_policies ORDER BY guild_id, category');
+    return result.rows.map(toRule);
+  }
+
+  async setRule(guildId: string, category: RetentionCategory, retainDays: number | null, updatedBy: string): Promise<RetentionRule> {
+    const result = await this.pool.query(
+      `
+      INSERT INTO retention_policies (guild_id, category, retain_days, updated_by)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (guild_id, category) DO UPDATE
+        SET retain_days = EXCLUDED.retain_days,
+            updated_by = EXCLUDED.updated_by,
+            updated_at = NOW()
+      RETURNING *
+      `,
+      [guildId, category, retainDays, updatedBy]
+    );
+    return toRule(result.rows[0]);
+  }
+
+  /**
+   * Remove a rule so the category falls back to the instance rule or default
+   */
+  async deleteRule(guildId: string, category: RetentionCategory): Promise<boolean> {
+    const result = await this.pool.query(
+      'DELETE FROM retention_policies WHERE guild_id = $1 AND category = $2',
+      [guildId, category]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async createHold(guildId: string | null, userId: string, reason: string, createdBy: string): Promise<LegalHoldRecord> {
+    const result = await this.pool.query(
+      `
+      INSERT INTO retention_legal_holds (guild_id, user_id, reason, created_by)
+      VALUES ($1, $2, $3, $4)
+      RETURNING *
+      `,
+      [guildId, userId, reason, createdBy]
+    );
+    return toHold(result.rows[0]);
+  }
+
+  /**
+   * Release an active hold (false if it does not exist, is already released or belongs to another guild)
+   */
+  async releaseHold(id: number, releasedBy: string, guildId?: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `
+      UPDATE retention_legal_holds
+      SET released_by = $2, released_at = NOW()
+      WHERE id = $1 AND released_at IS NULL AND ($3::text IS NULL OR guild_id = $3)
+      `,
+      [id, releasedBy, guildId ?? null]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Explicit holds; a guild sees its own and the instance-wide ones
+   */
+  async listHolds(options: { guildId?: string; includeReleased?: boolean } = {}): Promise<LegalHoldRecord[]> {
+    const result = await this.pool.query(
+      `
+      SELECT * FROM retention_legal_holds
+      WHERE ($1::text IS NULL OR guild_id = $1 OR guild_id IS NULL)
+        AND ($2 OR released_at IS NULL)
+      ORDER BY created_at DESC
+      `,
+      [options.guildId ?? null, options.includeReleased === true]
+    );
+    return result.rows.map(toHold);
+  }
+
+  /**
+   * Users named in open alert incidents (held while the incident is open)
+   */
+  async listIncidentHolds(guildId?: string): Promise<Array<LegalHold & { incidentId: number; title: string }>> {
+    const result = await this.pool.query(
+      `
+      SELECT id, server_id, title, unnest(related_users) AS user_id
+      FROM alert_incidents
+      WHERE status = 'open' AND ($1::text IS NULL OR server_id = $1)
+      `,
+      [guildId ?? null]
+    );
+    return result.rows.map(row => ({ userId: row.user_id, guildId: row.server_id, incidentId: row.id, title: row.title }));
+  }
+
+  /**
+   * Every active hold, explicit or from an open incident
+   */
+  async loadHolds(): Promise<LegalHolds> {
+    const [explicit, incidents] = await Promise.all([this.listHolds(), this.listIncidentHolds()]);
+    return new LegalHolds([
+      ...explicit.map(h => ({ userId: h.userId, guildId: h.guildId })),
+      ...incidents.map(h => ({ userId: h.userId, guildId: h.guildId })),
+    ]);
+  }
+
+  async recordRun(run: Omit<RetentionRunRecord, 'completedAt'>): Promise<void> {
+    await this.pool.query(
+      `
+      INSERT INTO retention_runs (id, guild_id, dry_run, status, expired, held, report, started_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `,
+      [run.id, run.guildId, run.dryRun, run.status, run.expired, run.held, JSON.stringify(run.report), run.startedAt]
+    );
+  }
+
+  /**
+   * Recent runs, newest first (for a guild, only runs limited to it: full runs report on other guilds too)
+   */
+  async listRuns(options: { guildId?: string; limit?: number } = {}): Promise<RetentionRunRecord[]> {
+    const result = await this.pool.query(
+      `
+      SELECT * FROM retention_runs
+      WHERE ($1::text IS NULL OR guild_id = $1)
+      ORDER BY started_at DESC
+      LIMIT $2
+      `,
+      [options.guildId ?? null, Math.min(options.limit || 20, 100)]
+    );
+    return result.rows.map(toRun);
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
+
+function toRule(row: any): RetentionRule {
+  return {
+    guildId: row.guild_id,
+    category: row.category,
+    retainDays: row.retain_days,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toHold(row: any): LegalHoldRecord {
+  return {
+    id: row.id,
+    guildId: row.guild_id,
+    userId: row.user_id,
+    reason: row.reason,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    releasedBy: row.released_by,
+    releasedAt: row.released_at,
+  };
+}
+
+function toRun(row: any): RetentionRunRecord {
+  return {
+    id: row.id,
+    guildId: row.guild_id,
+    dryRun: row.dry_run,
+    status: row.status,
+    expired: row.expired,
+    held: row.held,
+    report: row.report,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+  };
+}
+
+// Singleton instance
+export const retentionStore = new RetentionStore();
@@ -0,0 +1,100 @@
+/**
+ * RETENTION TARGETS - Data that expires under the retention policies
+ *
+ * Every store that keeps data past its usefulness registers one target per
+ * data category it holds (a module can hold several). Enforcement asks each
+ * target to expire everything older than the category's cutoff, except data
+ * about users under legal hold. In a dry run targets only count.
+ */
+
+export type RetentionCategory =
+  | 'raw_content'       // What members wrote: message text, attachments, conversation summaries
+  | 'analysis_scores'   // Per-message and per-session scores, emotions, voice and reaction tracking
+  | 'embeddings'        // Vector embeddings of messages and conversations
+  | 'profiles'          // Derived per-user profiles (expire when not updated for the period)
+  | 'audit'             // Moderation and audit records
+  | 'federation_events' // Events exchanged with other Becas instances (instance-wide only)
+  ;
+
+export const RETENTION_CATEGORIES: Record<RetentionCategory, { description: string; guildRules: boolean }> = {
+  raw_content: { description: 'Message text, attachments and conversation summaries', guildRules: true },
+  analysis_scores: { description: 'Toxicity and sentiment scores, emotions, voice and reaction tracking', guildRules: true },
+  embeddings: { description: 'Vector embeddings of messages and conversations', guildRules: true },
+  profiles: { description: 'Derived user profiles, counted from their last update', guildRules: true },
+  audit: { description: 'Moderation records and the audit log', guildRules: true },
+  federation_events: { description: 'Events shared with and received from other instances', guildRules: false },
+};
+
+export function isRetentionCategory(value: any): value is RetentionCategory {
+  return typeof value === 'string' && value in RETENTION_CATEGORIES;
+}
+
+/**
+ * Which guilds a sweep covers: one guild, or every guild except the ones
+ * with their own rule (those get a sweep of their own)
+ */
+export interface RetentionScope {
+  guildId?: string;
+  excludeGuildIds?: string[];
+}
+
+export interface LegalHold {
+  userId: string;
+  guildId: string | null; // null: held in every guild
+}
+
+export interface LegalHoldSet {
+  entries(): LegalHold[];
+  isHeld(userId: string, guildId: string | null): boolean;
+  mentionsHeld(text: string, guildId: string | null): boolean; // For records without a user field
+}
+
+export interface RetentionSweep {
+  cutoff: Date; // Expire data older than this
+  scope: RetentionScope;
+  holds: LegalHoldSet;
+  dryRun: boolean;
+}
+
+export interface RetentionOutcome {
+  expired: number; // Removed (or, in a dry run, would be)
+  held: number; // Past the cutoff but kept for a legal hold
+}
+
+export interface RetentionTarget {
+  id: string;
+  category: RetentionCategory;
+  description: string;
+  guildScoped: boolean; // false: only the instance-wide rule applies
+  sweep(sweep: RetentionSweep): Promise<RetentionOutcome>;
+}
+
+/**
+ * Whether a guild falls inside a sweep's scope
+ */
+export function inRetentionScope(scope: RetentionScope, guildId: string | null | undefined): boolean {
+  if (scope.guildId) return guildId === scope.guildId;
+  return !guildId || !scope.excludeGuildIds?.includes(guildId);
+}
+
+export class RetentionTargetRegistry {
+  private targets: Map<string, RetentionTarget> = new Map();
+
+  /**
+   * Add a target (a target with the same ID is replaced)
+   */
+  register(target: RetentionTarget): void {
+    this.targets.set(target.id, target);
+  }
+
+  unregister(id: string): boolean {
+    return this.targets.delete(id);
+  }
+
+  list(): RetentionTarget[] {
+    return Array.from(this.targets.values());
+  }
+}
+
+// Singleton instance
+export const retentionTargetRegistry = new RetentionTargetRegistry();
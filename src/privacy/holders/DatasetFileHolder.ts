@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import { DataHolder, DataSubject, ErasureContext, HolderErasure } from '../DataHolder';
+
+/**
+ * DATASET FILE HOLDER - Training examples in fine-tuning datasets on disk
+ *
+ * Exported datasets are JSONL (one example per line) or JSON with an
+ * `examples` array. Examples do not have a fixed user field, so any example
+ * whose text contains the user ID belongs to the subject. Examples carry no
+ * reliable guild either, so this holder only takes part in requests that
+ * cover every guild.
+ */
+
+export const DATASET_DIRS = [
+  'fine-tuning',
+  'continuous_fine_tuning',
+  'multi_guild_models',
+  'dataset_versions',
+];
+
+export class DatasetFileHolder implements DataHolder {
+  readonly id = 'training_datasets';
+  readonly description = 'Fine-tuning dataset examples built from moderated messages';
+  readonly guildScoped = false;
+
+  constructor(private dirs: string[] = DATASET_DIRS.map(dir => path.join(ENV.DATA_DIR, dir))) {}
+
+  async exportSubject(subject: DataSubject): Promise<any[]> {
+    const records: any[] = [];
+
+    for (const file of await this.files()) {
+      const examples = await this.read(file);
+      for (const example of examples.filter(e => this.mentions(e, subject.userId))) {
+        records.push({ file: path.relative(ENV.DATA_DIR, file), example });
+      }
+    }
+
+    return records;
+  }
+
+  async eraseSubject(subject: DataSubject, _context: ErasureContext): Promise<HolderErasure> {
+    let deleted = 0;
+
+    for (const file of await this.files()) {
+      const examples = await this.read(file);
+      const kept = examples.filter(e => !this.mentions(e, subject.userId));
+      if (kept.length === examples.length) continue;
+
+      deleted += examples.length - kept.length;
+      await this.write(file, kept);
+    }
+
+    return { deleted, pseudonymized: 0, retained: 0 };
+  }
+
+  private mentions(example: any, userId: string): boolean {
+    return JSON.stringify(example).includes(userId);
+  }
+
+  private async files(): Promise<string[]> {
+    const files: string[] = [];
+
+    for (const dir of this.dirs) {
+      const entries = await fs.promises.readdir(dir).catch(() => [] as string[]);
+      for (const entry of entries) {
+        if (entry.endsWith('.jsonl') || entry.endsWith('.json')) {
+          files.push(path.join(dir, entry));
+        }
+      }
+    }
+
+    return files;
+  }
+
+  private async read(file: string): Promise<any[]> {
+    const content = await fs.promises.readFile(file, 'utf-8');
+
+    if (file.endsWith('.jsonl')) {
+      return content.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+    }
+
+    const parsed = JSON.parse(content);
+    return Array.isArray(parsed?.examples) ? parsed.examples : [];
+  }
+
+  private async write(file: string, examples: any[]): Promise<void> {
+    if (file.endsWith('.jsonl')) {
+      await fs.promises.writeFile(file, examples.map(example => JSON.stringify(example)).join('\n'));
+      return;
+    }
+
+    const parsed = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+    await fs.promises.writeFile(file, JSON.stringify({ ...parsed, examples }, null, 2));
+  }
+}
@@ -0,0 +1,39 @@
+import { ChromaDBService } from '../../database/ChromaDB';
+import { DataHolder, DataSubject, ErasureContext, HolderErasure } from '../DataHolder';
+
+/**
+ * EMBEDDING HOLDER - Message and behavior embeddings in ChromaDB
+ *
+ * Connects on first use, so an export or erasure fails loudly (and the
+ * receipt says so) when ChromaDB is configured but unreachable.
+ */
+export class EmbeddingHolder implements DataHolder {
+  readonly id = 'embeddings';
+  readonly description = 'Message and behavior embeddings (ChromaDB)';
+  readonly guildScoped = true;
+
+  private ready: Promise<void> | null = null;
+
+  constructor(private chroma: ChromaDBService = new ChromaDBService()) {}
+
+  async exportSubject(subject: DataSubject): Promise<any[]> {
+    await this.connect();
+    return this.chroma.getUserDocuments(subject.userId, subject.guildId || undefined);
+  }
+
+  async eraseSubject(subject: DataSubject, _context: ErasureContext): Promise<HolderErasure> {
+    await this.connect();
+    const deleted = await this.chroma.deleteUserDocuments(subject.userId, subject.guildId || undefined);
+    return { deleted, pseudonymized: 0, retained: 0 };
+  }
+
+  private connect(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.chroma.initialize().catch(error => {
+        this.ready = null; // Try again next request
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,379 @@
+import { Pool, PoolClient } from 'pg';
+import { getPostgresPool } from '../../database/config';
+import { DataHolder, DataSubject, ErasureContext, HolderErasure } from '../DataHolder';
+
+/**
+ * SQL TABLE HOLDER - Personal data in one Postgres table
+ *
+ * Rows whose user columns name the subject are deleted, except moderation
+ * evidence (the spec's evidence condition) newer than the evidence cutoff.
+ * Reference columns name the subject in other people's rows (the moderator
+ * of an action, the author a reaction went to); those are pseudonymized.
+ * Where they are foreign keys to users, a users row is created for the pseudonym.
+ * The users row itself is erased last: while other records about the subject
+ * are kept it is scrubbed instead of deleted (deleting it would cascade into
+ * them). A table that does not exist in this deployment holds nothing.
+ */
+
+export interface SqlTableSpec {
+  id: string;
+  table: string;
+  description: string;
+  userColumns: string[]; // Rows where any of these is the subject are theirs
+  guildColumn?: string; // Omitted: the table is not per guild
+  timeColumn?: string;
+  evidence?: string; // SQL condition marking moderation evidence ('TRUE': every row)
+  referenceColumns?: string[];
+  referencesUsers?: boolean; // Reference columns are foreign keys to users(id)
+  keepReason?: string; // Rows can never be erased here (e.g. published on-chain)
+  eraseLast?: boolean;
+  scrub?: Record<string, string | null>; // eraseLast: values that replace personal columns while other records are kept
+}
+
+const PSEUDONYM_USERNAME = 'erased user';
+
+const EXPORT_LIMIT = 10000; // Rows per table in one export
+const UNDEFINED_TABLE = '42P01';
+
+export const POSTGRES_TABLES: SqlTableSpec[] = [
+  {
+    id: 'users',
+    table: 'users',
+    description: 'Discord account details and network-wide risk flags',
+    userColumns: ['id'],
+    eraseLast: true,
+    scrub: { username: PSEUDONYM_USERNAME, discriminator: null, global_name: null, avatar_url: null },
+  },
+  {
+    id: 'server_members',
+    table: 'server_members',
+    description: 'Guild membership, roles, trust score and moderation counters',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+  },
+  {
+    id: 'sicil_actions',
+    table: 'user_actions',
+    description: 'Sicil action log with message content and analysis scores',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'timestamp',
+    evidence: 'triggered_moderation = TRUE OR moderation_action IS NOT NULL',
+    referenceColumns: ['moderator_id'],
+  },
+  {
+    id: 'sicil_summary',
+    table: 'user_sicil_summary',
+    description: 'Sicil summary: violation counts, risk category and moderator notes',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'last_violation_at',
+    evidence: 'total_bans > 0 OR total_kicks > 0 OR total_timeouts > 0 OR total_warnings > 0',
+  },
+  {
+    id: 'messages',
+    table: 'messages',
+    description: 'Stored messages with content and analysis',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'created_at',
+  },
+  {
+    id: 'conversation_threads',
+    table: 'conversation_threads',
+    description: 'Conversation threads the user started or took part in',
+    userColumns: [],
+    guildColumn: 'server_id',
+    referenceColumns: ['initiator_user_id'],
+    referencesUsers: true,
+  },
+  {
+    id: 'character_profiles',
+    table: 'user_character_profiles',
+    description: 'Character profile (personality and communication scores)',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+  },
+  {
+    id: 'behavior_snapshots',
+    table: 'user_behavior_snapshots',
+    description: 'Weekly behavior snapshots',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'created_at',
+  },
+  {
+    id: 'emotional_context',
+    table: 'emotional_context',
+    description: 'Detected emotions and triggers',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'detected_at',
+  },
+  {
+    id: 'emotional_intelligence',
+    table: 'emotional_intelligence_scores',
+    description: 'Emotional intelligence scores',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+  },
+  {
+    id: 'reactions',
+    table: 'message_reactions',
+    description: 'Reactions the user gave',
+    userColumns: ['reactor_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'reacted_at',
+    referenceColumns: ['author_id'],
+  },
+  {
+    id: 'reaction_patterns',
+    table: 'user_reaction_patterns',
+    description: 'Reaction habits (favourite emojis, most reacted-to users)',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+  },
+  {
+    id: 'reaction_relationships',
+    table: 'reaction_relationship_signals',
+    description: 'Relationship signals derived from reactions between two users',
+    userColumns: ['user_id_1', 'user_id_2'],
+    guildColumn: 'server_id',
+  },
+  {
+    id: 'voice_sessions',
+    table: 'voice_sessions',
+    description: 'Voice channel sessions',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'joined_at',
+  },
+  {
+    id: 'voice_participants',
+    table: 'voice_participants',
+    description: 'Time spent in voice channels together with other users',
+    userColumns: ['user_id', 'participant_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'overlap_start',
+  },
+  {
+    id: 'voice_patterns',
+    table: 'user_voice_patterns',
+    description: 'Voice habits (channels, partners, hours)',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+  },
+  {
+    id: 'threats',
+    table: 'threats',
+    description: 'Detected threats with evidence',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'detected_at',
+    evidence: 'TRUE',
+    referenceColumns: ['moderator_id'],
+  },
+  {
+    id: 'attachment_analysis',
+    table: 'attachment_analysis',
+    description: 'Analysis of uploaded attachments',
+    userColumns: ['user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'created_at',
+    evidence: 'action_taken IS NOT NULL',
+  },
+  {
+    id: 'moderator_actions',
+    table: 'moderator_actions',
+    description: 'Moderation actions taken against (or by) the user',
+    userColumns: ['target_user_id'],
+    guildColumn: 'server_id',
+    timeColumn: 'created_at',
+    evidence: 'TRUE',
+    referenceColumns: ['moderator_id'],
+    referencesUsers: true,
+  },
+  {
+    id: 'core_violations',
+    table: 'becas_core_violations',
+    description: 'Core rule violations with message content',
+    userColumns: ['user_id'],
+    guildColumn: 'guild_id',
+    timeColumn: 'timestamp',
+    evidence: 'TRUE',
+  },
+  {
+    id: 'policy_enforcement',
+    table: 'guild_policy_enforcement',
+    description: 'Guild policy enforcements with message content',
+    userColumns: ['user_id'],
+    guildColumn: 'guild_id',
+    timeColumn: 'timestamp',
+    evidence: 'TRUE',
+  },
+  {
+    id: 'global_reputation',
+    table: 'global_reputation',
+    description: 'Network-wide activity and violation totals',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'global_bans',
+    table: 'global_ban_list',
+    description: 'Network-wide ban list entries',
+    userColumns: ['user_id'],
+    timeColumn: 'banned_at',
+    evidence: 'is_active = TRUE',
+  },
+  {
+    id: 'shared_threats',
+    table: 'shared_threats',
+    description: 'Threats about the user shared between federated instances',
+    userColumns: ['user_id'],
+    timeColumn: 'detected_at',
+    evidence: 'TRUE',
+  },
+  {
+    id: 'cross_server_alerts',
+    table: 'cross_server_alerts',
+    description: 'Cross-server risk alerts',
+    userColumns: ['user_id'],
+    timeColumn: 'last_updated_at',
+    evidence: 'TRUE',
+  },
+  {
+    id: 'trust_score_leaves',
+    table: 'trust_score_leaves',
+    description: 'Trust scores committed in published on-chain batches',
+    userColumns: ['discord_id'],
+    keepReason: 'published on-chain; the leaf is needed to prove the committed Merkle root',
+  },
+];
+
+export class SqlTableHolder implements DataHolder {
+  readonly id: string;
+  readonly description: string;
+  readonly guildScoped: boolean;
+  readonly eraseLast: boolean;
+
+  constructor(private spec: SqlTableSpec, private db?: Pool) {
+    this.id = spec.id;
+    this.description = spec.description;
+    this.guildScoped = !!spec.guildColumn;
+    this.eraseLast = !!spec.eraseLast;
+  }
+
+  async exportSubject(subject: DataSubject): Promise<any[]> {
+    const { where, params } = this.subjectFilter(subject, [...this.spec.userColumns, ...(this.spec.referenceColumns || [])]);
+    const order = this.spec.timeColumn ? `ORDER BY ${this.spec.timeColumn} DESC` : '';
+
+    try {
+      const result = await this.pool.query(
+        `SELECT * FROM ${this.spec.table} WHERE ${where} ${order} LIMIT ${EXPORT_LIMIT}`,
+        params
+      );
+      return result.rows;
+    } catch (error: any) {
+      if (error?.code === UNDEFINED_TABLE) return [];
+      throw error;
+    }
+  }
+
+  async eraseSubject(subject: DataSubject, context: ErasureContext): Promise<HolderErasure> {
+    const erasure: HolderErasure = { deleted: 0, pseudonymized: 0, retained: 0 };
+
+    let client: PoolClient | undefined;
+    try {
+      client = await this.pool.connect();
+      await client.query('BEGIN');
+
+      if (this.spec.userColumns.length > 0) {
+        const { where, params } = this.subjectFilter(subject, this.spec.userColumns);
+
+        if (this.spec.keepReason) {
+          const kept = await client.query(`SELECT COUNT(*)::int AS count FROM ${this.spec.table} WHERE ${where}`, params);
+          erasure.retained = kept.rows[0].count;
+          erasure.retainedReason = this.spec.keepReason;
+        } else if (this.spec.scrub && context.recordsKept) {
+          const columns = Object.keys(this.spec.scrub);
+          const scrubbed = await client.query(
+            `UPDATE ${this.spec.table} SET ${columns.map((column, i) => `${column} = $${params.length + i + 1}`).join(', ')} WHERE ${where}`,
+            [...params, ...Object.values(this.spec.scrub)]
+          );
+          erasure.pseudonymized = scrubbed.rowCount ?? 0;
+          erasure.retained = erasure.pseudonymized;
+          if (erasure.retained > 0) {
+            erasure.retainedReason = 'scrubbed, not deleted: records kept in other holders still reference it';
+          }
+        } else {
+          // Evidence rows without a timestamp count as recent
+          const evidence = this.spec.evidence && this.spec.timeColumn
+            ? `((${this.spec.evidence}) AND COALESCE(${this.spec.timeColumn} >= $${params.length + 1}, TRUE))`
+            : 'FALSE';
+          const evidenceParams = evidence === 'FALSE' ? params : [...params, context.evidenceCutoff];
+
+          const retained = await client.query(
+            `SELECT COUNT(*)::int AS count FROM ${this.spec.table} WHERE ${where} AND ${evidence}`,
+            evidenceParams
+          );
+          erasure.retained = retained.rows[0].count;
+          if (erasure.retained > 0) {
+            erasure.retainedReason = `moderation evidence newer than ${context.evidenceCutoff.toISOString().slice(0, 10)}`;
+          }
+
+          const deleted = await client.query(
+            `DELETE FROM ${this.spec.table} WHERE ${where} AND NOT ${evidence}`,
+            evidenceParams
+          );
+          erasure.deleted = deleted.rowCount ?? 0;
+        }
+      }
+
+      // The pseudonym needs a users row before a foreign key column can point at it
+      if (this.spec.referencesUsers && this.spec.referenceColumns?.length) {
+        const { where, params } = this.subjectFilter(subject, this.spec.referenceColumns);
+        const referenced = await client.query(`SELECT 1 FROM ${this.spec.table} WHERE ${where} LIMIT 1`, params);
+        if ((referenced.rowCount ?? 0) > 0) {
+          await client.query(
+            'INSERT INTO users (id, username) VALUES ($1, $2) ON CONFLICT (id) DO NOTHING',
+            [context.pseudonym, PSEUDONYM_USERNAME]
+          );
+        }
+      }
+
+      for (const column of this.spec.referenceColumns || []) {
+        const { where, params } = this.subjectFilter(subject, [column]);
+        const updated = await client.query(
+          `UPDATE ${this.spec.table} SET ${column} = $${params.length + 1} WHERE ${where}`,
+          [...params, context.pseudonym]
+        );
+        erasure.pseudonymized += updated.rowCount ?? 0;
+      }
+
+      await client.query('COMMIT');
+      return erasure;
+    } catch (error: any) {
+      await client?.query('ROLLBACK').catch(() => undefined);
+      if (error?.code === UNDEFINED_TABLE) return { deleted: 0, pseudonymized: 0, retained: 0 };
+      throw error;
+    } finally {
+      client?.release();
+    }
+  }
+
+  private subjectFilter(subject: DataSubject, columns: string[]): { where: string; params: any[] } {
+    const params: any[] = [subject.userId];
+    let where = `(${columns.map(column => `${column} = $1`).join(' OR ')})`;
+
+    if (subject.guildId && this.spec.guildColumn) {
+      params.push(subject.guildId);
+      where += ` AND ${this.spec.guildColumn} = $2`;
+    }
+
+    return { where, params };
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
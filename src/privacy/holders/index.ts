@@ -0,0 +1,24 @@
+import { DataHolderRegistry } from '../DataHolder';
+import { DatasetFileHolder } from './DatasetFileHolder';
+import { EmbeddingHolder } from './EmbeddingHolder';
+import { POSTGRES_TABLES, SqlTableHolder } from './SqlTableHolder';
+
+export { DatasetFileHolder } from './DatasetFileHolder';
+export { EmbeddingHolder } from './EmbeddingHolder';
+export { POSTGRES_TABLES, SqlTableHolder, SqlTableSpec } from './SqlTableHolder';
+
+/**
+ * Register the holders that are not tied to an object in this process:
+ * Postgres tables, dataset files and (when CHROMA_URL is set) embeddings
+ */
+export function registerBuiltInHolders(registry: DataHolderRegistry): void {
+  for (const spec of POSTGRES_TABLES) {
+    registry.register(new SqlTableHolder(spec));
+  }
+
+  registry.register(new DatasetFileHolder());
+
+  if (process.env.CHROMA_URL) {
+    registry.register(new EmbeddingHolder());
+  }
+}
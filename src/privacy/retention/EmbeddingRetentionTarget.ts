@@ -0,0 +1,42 @@
+import { ChromaDBService } from '../../database/ChromaDB';
+import { RetentionOutcome, RetentionSweep, RetentionTarget } from '../RetentionTarget';
+
+/**
+ * EMBEDDING RETENTION TARGET - Message and conversation embeddings in ChromaDB
+ *
+ * Message embeddings name their author (held authors are kept); conversation
+ * summaries only name a guild.
+ */
+export class EmbeddingRetentionTarget implements RetentionTarget {
+  readonly id = 'embeddings';
+  readonly category = 'embeddings' as const;
+  readonly description = 'Message and conversation embeddings (ChromaDB)';
+  readonly guildScoped = true;
+
+  private ready: Promise<void> | null = null;
+
+  constructor(private chroma: ChromaDBService = new ChromaDBService()) {}
+
+  async sweep(sweep: RetentionSweep): Promise<RetentionOutcome> {
+    await this.connect();
+
+    const { expired, kept } = await this.chroma.expireDocuments(sweep.cutoff.getTime(), {
+      serverId: sweep.scope.guildId,
+      excludeServerIds: sweep.scope.excludeGuildIds,
+      keep: metadata => !!metadata.userId && sweep.holds.isHeld(String(metadata.userId), metadata.serverId ?? null),
+      dryRun: sweep.dryRun,
+    });
+
+    return { expired, held: kept };
+  }
+
+  private connect(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.chroma.initialize().catch(error => {
+        this.ready = null; // Try again next run
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,407 @@
+import { Pool } from 'pg';
+import { getPostgresPool } from '../../database/config';
+import { RetentionCategory, RetentionOutcome, RetentionSweep, RetentionTarget } from '../RetentionTarget';
+
+/**
+ * SQL RETENTION TARGET - One category of data in one Postgres table
+ *
+ * Expired rows are deleted, or, when the table mixes categories (message
+ * text and scores share a row), only the category's columns are cleared.
+ * Rows whose user columns name a held user are kept. A table that does not
+ * exist in this deployment has nothing to expire.
+ */
+
+export interface SqlRetentionSpec {
+  id: string;
+  table: string;
+  category: RetentionCategory;
+  description: string;
+  timeColumn: string;
+  guildColumn?: string; // Omitted: the table is not per guild
+  userColumns: string[]; // Checked against legal holds
+  redact?: {
+    set: string; // SET clause clearing the category's columns
+    pending: string; // Condition for rows not yet cleared
+  };
+}
+
+const UNDEFINED_TABLE = '42P01';
+
+const MESSAGE_SCORES = 'toxicity_score IS NOT NULL OR scam_score IS NOT NULL OR spam_score IS NOT NULL OR sentiment IS NOT NULL OR intent IS NOT NULL';
+
+export const RETENTION_TABLES: SqlRetentionSpec[] = [
+  // Raw content
+  {
+    id: 'messages_content',
+    table: 'messages',
+    category: 'raw_content',
+    description: 'Message text, summaries and links',
+    timeColumn: 'created_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+    redact: {
+      set: "content = '', ai_summary = NULL, content_tsv = NULL, extracted_links = '{}'",
+      pending: "content <> '' OR ai_summary IS NOT NULL OR cardinality(extracted_links) > 0",
+    },
+  },
+  {
+    id: 'sicil_content',
+    table: 'user_actions',
+    category: 'raw_content',
+    description: 'Message text and conversation context in the sicil log',
+    timeColumn: 'timestamp',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+    redact: {
+      set: 'content = NULL, content_after = NULL, conversation_context = NULL',
+      pending: 'content IS NOT NULL OR content_after IS NOT NULL OR conversation_context IS NOT NULL',
+    },
+  },
+  {
+    id: 'attachment_content',
+    table: 'attachment_analysis',
+    category: 'raw_content',
+    description: 'Attachment URLs and text extracted from attachments',
+    timeColumn: 'created_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+    redact: {
+      set: "attachment_url = '', extracted_text = NULL, scene_description = NULL, qr_code_url = NULL",
+      pending: "attachment_url <> '' OR extracted_text IS NOT NULL OR scene_description IS NOT NULL OR qr_code_url IS NOT NULL",
+    },
+  },
+  {
+    id: 'threat_evidence',
+    table: 'threats',
+    category: 'raw_content',
+    description: 'Message text kept as threat evidence',
+    timeColumn: 'detected_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+    redact: { set: 'evidence_content = NULL', pending: 'evidence_content IS NOT NULL' },
+  },
+  {
+    id: 'policy_enforcement_content',
+    table: 'guild_policy_enforcement',
+    category: 'raw_content',
+    description: 'Message text of guild policy enforcements',
+    timeColumn: 'timestamp',
+    guildColumn: 'guild_id',
+    userColumns: ['user_id'],
+    redact: { set: 'message_content = NULL', pending: 'message_content IS NOT NULL' },
+  },
+  {
+    id: 'core_violation_content',
+    table: 'becas_core_violations',
+    category: 'raw_content',
+    description: 'Message text of core violations',
+    timeColumn: 'timestamp',
+    guildColumn: 'guild_id',
+    userColumns: ['user_id'],
+    redact: { set: 'content = NULL', pending: 'content IS NOT NULL' },
+  },
+
+  // Analysis scores and tracking
+  {
+    id: 'messages_scores',
+    table: 'messages',
+    category: 'analysis_scores',
+    description: 'Per-message toxicity, scam, spam and sentiment scores',
+    timeColumn: 'created_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+    redact: {
+      set: "toxicity_score = NULL, scam_score = NULL, spam_score = NULL, harassment_score = NULL, sentiment = NULL, intent = NULL, emotions = '{}'",
+      pending: `${MESSAGE_SCORES} OR harassment_score IS NOT NULL`,
+    },
+  },
+  {
+    id: 'sicil_scores',
+    table: 'user_actions',
+    category: 'analysis_scores',
+    description: 'Toxicity, scam, spam and sentiment scores in the sicil log',
+    timeColumn: 'timestamp',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+    redact: {
+      set: 'toxicity_score = NULL, scam_score = NULL, spam_score = NULL, sentiment = NULL, intent = NULL, emotional_state = NULL',
+      pending: `${MESSAGE_SCORES} OR emotional_state IS NOT NULL`,
+    },
+  },
+  {
+    id: 'emotional_context',
+    table: 'emotional_context',
+    category: 'analysis_scores',
+    description: 'Detected emotions and triggers',
+    timeColumn: 'detected_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'behavior_snapshots',
+    table: 'user_behavior_snapshots',
+    category: 'analysis_scores',
+    description: 'Weekly behavior snapshots',
+    timeColumn: 'created_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'conflict_predictions',
+    table: 'conflict_predictions',
+    category: 'analysis_scores',
+    description: 'Predicted conflicts between members',
+    timeColumn: 'predicted_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_a', 'user_b'],
+  },
+  {
+    id: 'reactions',
+    table: 'message_reactions',
+    category: 'analysis_scores',
+    description: 'Individual reactions',
+    timeColumn: 'reacted_at',
+    guildColumn: 'server_id',
+    userColumns: ['reactor_id', 'author_id'],
+  },
+  {
+    id: 'voice_sessions',
+    table: 'voice_sessions',
+    category: 'analysis_scores',
+    description: 'Voice channel sessions',
+    timeColumn: 'joined_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'voice_participants',
+    table: 'voice_participants',
+    category: 'analysis_scores',
+    description: 'Who was in voice with whom',
+    timeColumn: 'overlap_start',
+    guildColumn: 'server_id',
+    userColumns: ['user_id', 'participant_id'],
+  },
+
+  // Profiles (expire when not updated for the period)
+  {
+    id: 'character_profiles',
+    table: 'user_character_profiles',
+    category: 'profiles',
+    description: 'Character and communication profiles',
+    timeColumn: 'updated_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'emotional_intelligence',
+    table: 'emotional_intelligence_scores',
+    category: 'profiles',
+    description: 'Emotional intelligence profiles',
+    timeColumn: 'updated_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'user_relationships',
+    table: 'user_relationships',
+    category: 'profiles',
+    description: 'Relationships between members',
+    timeColumn: 'updated_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_a_id', 'user_b_id'],
+  },
+  {
+    id: 'reaction_patterns',
+    table: 'user_reaction_patterns',
+    category: 'profiles',
+    description: 'Reaction habits',
+    timeColumn: 'updated_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'reaction_relationships',
+    table: 'reaction_relationship_signals',
+    category: 'profiles',
+    description: 'Relationship signals from reactions',
+    timeColumn: 'updated_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id_1', 'user_id_2'],
+  },
+  {
+    id: 'voice_patterns',
+    table: 'user_voice_patterns',
+    category: 'profiles',
+    description: 'Voice activity habits and frequent partners',
+    timeColumn: 'updated_at',
+    guildColumn: 'server_id',
+    userColumns: ['user_id'],
+  },
+
+  // Audit
+  {
+    id: 'moderator_actions',
+    table: 'moderator_actions',
+    category: 'audit',
+    description: 'Moderator actions',
+    timeColumn: 'created_at',
+    guildColumn: 'server_id',
+    userColumns: ['target_user_id', 'moderator_id'],
+  },
+  {
+    id: 'policy_enforcement',
+    table: 'guild_policy_enforcement',
+    category: 'audit',
+    description: 'Guild policy enforcements',
+    timeColumn: 'timestamp',
+    guildColumn: 'guild_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'core_violations',
+    table: 'becas_core_violations',
+    category: 'audit',
+    description: 'Core violations',
+    timeColumn: 'timestamp',
+    guildColumn: 'guild_id',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'behavior_executions',
+    table: 'behavior_executions',
+    category: 'audit',
+    description: 'BDL behavior executions',
+    timeColumn: 'started_at',
+    guildColumn: 'server_id',
+    userColumns: ['triggered_by'],
+  },
+
+  // Federation events
+  {
+    id: 'federation_events',
+    table: 'federation_events',
+    category: 'federation_events',
+    description: 'Federation event log',
+    timeColumn: 'created_at',
+    userColumns: [],
+  },
+  {
+    id: 'federation_outbox',
+    table: 'federation_outbox',
+    category: 'federation_events',
+    description: 'Messages published to federation peers',
+    timeColumn: 'created_at',
+    userColumns: [],
+  },
+  {
+    id: 'federation_seen_messages',
+    table: 'federation_seen_messages',
+    category: 'federation_events',
+    description: 'Message IDs received from federation peers (deduplication)',
+    timeColumn: 'received_at',
+    userColumns: [],
+  },
+  {
+    id: 'shared_threats',
+    table: 'shared_threats',
+    category: 'federation_events',
+    description: 'Threats shared across the network',
+    timeColumn: 'shared_at',
+    userColumns: ['user_id'],
+  },
+  {
+    id: 'cross_server_alerts',
+    table: 'cross_server_alerts',
+    category: 'federation_events',
+    description: 'Cross-server risk alerts',
+    timeColumn: 'last_updated_at',
+    userColumns: ['user_id'],
+  },
+];
+
+export class SqlRetentionTarget implements RetentionTarget {
+  readonly id: string;
+  readonly category: RetentionCategory;
+  readonly description: string;
+  readonly guildScoped: boolean;
+
+  constructor(private spec: SqlRetentionSpec, private db?: Pool) {
+    this.id = spec.id;
+    this.category = spec.category;
+    this.description = spec.description;
+    this.guildScoped = !!spec.guildColumn;
+  }
+
+  async sweep(sweep: RetentionSweep): Promise<RetentionOutcome> {
+    const { spec } = this;
+    const params: any[] = [sweep.cutoff];
+    const conditions = [`${spec.timeColumn} < $1`];
+
+    if (spec.guildColumn && sweep.scope.guildId) {
+      params.push(sweep.scope.guildId);
+      conditions.push(`${spec.guildColumn} = $${params.length}`);
+    } else if (spec.guildColumn && sweep.scope.excludeGuildIds?.length) {
+      params.push(sweep.scope.excludeGuildIds);
+      conditions.push(`NOT (${spec.guildColumn} = ANY($${params.length}))`);
+    }
+    if (spec.redact) {
+      conditions.push(`(${spec.redact.pending})`);
+    }
+
+    const where = conditions.join(' AND ');
+    const held = this.heldCondition(sweep, params);
+
+    try {
+      const counts = await this.pool.query(
+        `SELECT COUNT(*) FILTER (WHERE NOT ${held}) AS expired, COUNT(*) FILTER (WHERE ${held}) AS held FROM ${spec.table} WHERE ${where}`,
+        params
+      );
+      const outcome: RetentionOutcome = {
+        expired: parseInt(counts.rows[0].expired),
+        held: parseInt(counts.rows[0].held),
+      };
+
+      if (sweep.dryRun || outcome.expired === 0) return outcome;
+
+      const result = spec.redact
+        ? await this.pool.query(`UPDATE ${spec.table} SET ${spec.redact.set} WHERE ${where} AND NOT ${held}`, params)
+        : await this.pool.query(`DELETE FROM ${spec.table} WHERE ${where} AND NOT ${held}`, params);
+
+      return { ...outcome, expired: result.rowCount ?? 0 };
+    } catch (error: any) {
+      if (error?.code === UNDEFINED_TABLE) return { expired: 0, held: 0 };
+      throw error;
+    }
+  }
+
+  /**
+   * SQL condition (never NULL) that a row names a held user in its guild
+   */
+  private heldCondition(sweep: RetentionSweep, params: any[]): string {
+    const { spec } = this;
+    const holds = sweep.holds.entries();
+    if (spec.userColumns.length === 0 || holds.length === 0) return 'FALSE';
+
+    if (!spec.guildColumn) {
+      // Not per guild: a hold in any guild keeps the row
+      params.push(holds.map(h => h.userId));
+      const users = `$${params.length}`;
+      return `COALESCE(${spec.userColumns.map(c => `${c} = ANY(${users})`).join(' OR ')}, FALSE)`;
+    }
+
+    params.push(holds.filter(h => !h.guildId).map(h => h.userId));
+    const everywhere = `$${params.length}`;
+    params.push(holds.filter(h => h.guildId).map(h => `${h.guildId}:${h.userId}`));
+    const inGuild = `$${params.length}`;
+
+    const checks = spec.userColumns.map(c =>
+      `${c} = ANY(${everywhere}) OR (${spec.guildColumn} || ':' || ${c}) = ANY(${inGuild})`
+    );
+    return `COALESCE(${checks.join(' OR ')}, FALSE)`;
+  }
+
+  private get pool(): Pool {
+    return this.db || getPostgresPool();
+  }
+}
@@ -0,0 +1,20 @@
+import { RetentionTargetRegistry } from '../RetentionTarget';
+import { EmbeddingRetentionTarget } from './EmbeddingRetentionTarget';
+import { RETENTION_TABLES, SqlRetentionTarget } from './SqlRetentionTarget';
+
+export { EmbeddingRetentionTarget } from './EmbeddingRetentionTarget';
+export { RETENTION_TABLES, SqlRetentionSpec, SqlRetentionTarget } from './SqlRetentionTarget';
+
+/**
+ * Register the targets that are not tied to an object in this process:
+ * Postgres tables and (when CHROMA_URL is set) embeddings
+ */
+export function registerBuiltInRetentionTargets(registry: RetentionTargetRegistry): void {
+  for (const spec of RETENTION_TABLES) {
+    registry.register(new SqlRetentionTarget(spec));
+  }
+
+  if (process.env.CHROMA_URL) {
+    registry.register(new EmbeddingRetentionTarget());
+  }
+}
@@ -22,6 +22,7 @@ import logger from '../utils/logger';
  * - analytics: Analytics updates
  * - ai-inference: AI model calls
  * - notifications: Alert sending
+ * - scheduled-actions: Wake-ups for ActionScheduler (SCHEDULER_DRIVER=bullmq)
  */
 
 export interface QueueConfig {
@@ -83,6 +84,10 @@ export class EventQueue {
         limiter: { max: 30, duration: 1000 }  // 30/sec
       });
 
+      this.createQueue('scheduled-actions', {
+        defaultJobOptions: { removeOnComplete: true, removeOnFail: 100 }  // Wake-ups only (jobs live in Postgres)
+      });
+
       logger.info('✓ Event Queue System initialized');
     } catch (error) {
       logger.error('Failed to initialize Event Queue:', error);
@@ -2,6 +2,8 @@ import { Client, GuildMember, TextChannel, EmbedBuilder, User } from 'discord.js
 import { Pool } from 'pg';
 import { BDLAction } from './BehaviorParser';
 import { ExecutionContext } from '../core/BehaviorEngine';
+import { TrackingSystem } from './TrackingSystem';
+import { parseDuration } from '../utils/duration';
 import logger from '../utils/logger';
 
 /**
@@ -11,15 +13,50 @@ import logger from '../utils/logger';
  * Handles Discord API calls, permissions, error handling.
  */
 
+export type BehaviorRunner = (behaviorId: string, context: ExecutionContext) => Promise<void>;
+
 export class ActionExecutor {
   private discordClient: Client;
   private db: Pool;
+  private behaviorRunner?: BehaviorRunner;
+  private trackingSystem?: TrackingSystem;
 
   constructor(discordClient: Client, db: Pool) {
     this.discordClient = discordClient;
     this.db = db;
   }
 
+  /**
+   * Set the callback used by runBehavior actions (provided by BehaviorEngine)
+   */
+  setBehaviorRunner(runner: BehaviorRunner): void {
+    this.behaviorRunner = runner;
+  }
+
+  /**
+   * Set the tracking system used by stopTracking actions
+   */
+  setTrackingSystem(trackingSystem: TrackingSystem): void {
+    this.trackingSystem = trackingSystem;
+  }
+
+  /**
+   * Describe what an action would do, with variables resolved, without running it
+   */
+  preview(action: BDLAction, context: ExecutionContext, analysisResult?: any): { target?: string; params: Record<string, any> } {
+    const params: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(action)) {
+      if (key === 'type' || key === 'condition' || key === 'target') continue;
+      params[key] = typeof value === 'string' ? this.resolveVariable(value, context, analysisResult) : value;
+    }
+
+    return {
+      target: action.target ? this.resolveVariable(action.target, context, analysisResult) : undefined,
+      params
+    };
+  }
+
   /**
    * Execute an action
    */
@@ -136,7 +173,7 @@ export class ActionExecutor {
    */
   private async executeTimeout(action: BDLAction, context: ExecutionContext): Promise<void> {
     const userId = this.resolveVariable(action.target!, context);
-    const durationMs = this.parseDuration(action.duration!);
+    const durationMs = parseDuration(action.duration, 60000);
     const reason = action.reason || 'Automated action';
 
     const guild = await this.discordClient.guilds.fetch(context.serverId);
@@ -202,7 +239,7 @@ export class ActionExecutor {
     const userId = this.resolveVariable(action.target!, context);
     const question = this.resolveVariable(action.question!, context);
     const expectedAnswer = action.expectedAnswer!;
-    const timeoutMs = this.parseDuration(action.timeout || '60s');
+    const timeoutMs = parseDuration(action.timeout, 60000);
 
     const user = await this.discordClient.users.fetch(userId);
     await user.send(question);
@@ -299,16 +336,30 @@ export class ActionExecutor {
    * Run another behavior
    */
   private async executeRunBehavior(action: BDLAction, context: ExecutionContext): Promise<void> {
-    // TODO: Integrate with BehaviorEngine to trigger another behavior
+    if (!action.behaviorId) {
+      throw new Error('runBehavior action requires behaviorId');
+    }
+
+    if (!this.behaviorRunner) {
+      throw new Error('runBehavior is not available (no BehaviorEngine attached)');
+    }
+
     logger.info(`Triggering behavior ${action.behaviorId}`);
+    await this.behaviorRunner(action.behaviorId, context);
   }
 
   /**
    * Stop tracking session
    */
   private async executeStopTracking(action: BDLAction, context: ExecutionContext): Promise<void> {
-    // TODO: Integrate with TrackingSystem
-    logger.info(`Stopping tracking for target`);
+    if (!this.trackingSystem) {
+      throw new Error('stopTracking is not available (no TrackingSystem attached)');
+    }
+
+    const targetId = this.resolveVariable(action.target || '${triggeredUserId}', context);
+    const stopped = await this.trackingSystem.stopTrackingForTarget(context.serverId, targetId, action.reason || 'Stopped by behavior action');
+
+    logger.info(`Stopped ${stopped} tracking session(s) for target ${targetId}`);
   }
 
   /**
@@ -348,25 +399,6 @@ export class ActionExecutor {
     return embed;
   }
 
-  /**
-   * Parse duration string to milliseconds
-   */
-  private parseDuration(duration: string): number {
-    const match = duration.match(/^(\d+)([smhd])$/);
-    if (!match) return 60000; // Default 1 minute
-
-    const value = parseInt(match[1]);
-    const unit = match[2];
-
-    switch (unit) {
-      case 's': return value * 1000;
-      case 'm': return value * 60 * 1000;
-      case 'h': return value * 60 * 60 * 1000;
-      case 'd': return value * 24 * 60 * 60 * 1000;
-      default: return 60000;
-    }
-  }
-
   /**
    * Resolve variables in strings
    */
@@ -381,9 +413,10 @@ export class ActionExecutor {
 
     // Replace user variables
     if (context.eventData?.member) {
+      // A member restored from storage may be reduced to its id (see toPlainData)
       const member = context.eventData.member as GuildMember;
-      resolved = resolved.replace(/\$\{user\.username\}/g, member.user.username);
-      resolved = resolved.replace(/\$\{user\.id\}/g, member.user.id);
+      resolved = resolved.replace(/\$\{user\.username\}/g, member.user?.username ?? '');
+      resolved = resolved.replace(/\$\{user\.id\}/g, member.user?.id ?? member.id);
     }
 
     // Replace analysis variables
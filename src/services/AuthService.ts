@@ -15,6 +15,9 @@ const DISCORD_API_BASE = 'https://discord.com/api/v10';
 const DISCORD_OAUTH_URL = 'https://discord.com/oauth2/authorize';
 const DISCORD_TOKEN_URL = 'https://discord.com/api/oauth2/token';
 
+// Published defaults: anyone could sign a session with these
+const PUBLIC_SESSION_SECRETS = ['', 'change_this_secret'];
+
 export interface DiscordUser {
   id: string;
   username: string;
@@ -141,10 +144,21 @@ export class AuthService {
     });
   }
 
+  /**
+   * Whether sessions can be issued and accepted (SESSION_SECRET is set to something private)
+   */
+  static sessionsEnabled(): boolean {
+    return !PUBLIC_SESSION_SECRETS.includes(ENV.SESSION_SECRET);
+  }
+
   /**
    * Create JWT session token
    */
   static createSessionToken(session: AuthSession): string {
+    if (!this.sessionsEnabled()) {
+      throw new Error('Sessions are disabled: SESSION_SECRET is not set');
+    }
+
     return jwt.sign(
       {
         userId: session.userId,
@@ -164,6 +178,8 @@ export class AuthService {
    * Verify and decode JWT session token
    */
   static verifySessionToken(token: string): AuthSession | null {
+    if (!this.sessionsEnabled()) return null;
+
     try {
       const decoded = jwt.verify(token, ENV.SESSION_SECRET) as any;
 
@@ -0,0 +1,329 @@
+import { Pool } from 'pg';
+import { BDLAnalysis } from './BehaviorParser';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { OllamaService } from './OllamaService';
+import { ExecutionContext } from '../core/BehaviorEngine';
+import logger from '../utils/logger';
+
+/**
+ * BehaviorAnalyzer
+ *
+ * Runs the analysis step of a BDL behavior and returns a flat result object
+ * that action conditions can branch on ("toxicity > 0.7", "thresholdsMet").
+ *
+ * Analysis types:
+ * - rules:     evaluate each { if, then } and merge the "then" objects of matching rules
+ * - threshold: check metrics against { min, max } bounds
+ * - pattern:   match regex patterns against the message (and tracked messages)
+ * - ai:        ask the LLM for JSON and validate it against outputSchema
+ */
+
+// Metrics that are not in the event data and have to be looked up
+const DB_METRICS: Record<string, string> = {
+  userTotalMessages: 'SELECT COUNT(*) AS value FROM messages WHERE server_id = $1 AND user_id = $2',
+  userMessagesToday: `SELECT COUNT(*) AS value FROM messages WHERE server_id = $1 AND user_id = $2 AND created_at >= CURRENT_DATE`
+};
+
+const AI_MAX_ATTEMPTS = 2;
+
+export class BehaviorAnalyzer {
+  private db: Pool;
+  private conditionEvaluator: ConditionEvaluator;
+  private ollama?: OllamaService;
+
+  constructor(db: Pool, conditionEvaluator: ConditionEvaluator, ollama?: OllamaService) {
+    this.db = db;
+    this.conditionEvaluator = conditionEvaluator;
+    this.ollama = ollama;
+  }
+
+  /**
+   * Run analysis for a behavior
+   */
+  async analyze(analysis: BDLAnalysis, context: ExecutionContext, trackingData?: any): Promise<Record<string, any>> {
+    const variables = this.conditionEvaluator.buildContext(context, undefined, trackingData);
+
+    switch (analysis.type) {
+      case 'rules':
+        return this.runRules(analysis, variables);
+
+      case 'threshold':
+        return this.runThreshold(analysis, variables, context);
+
+      case 'pattern':
+        return this.runPatterns(analysis, variables, trackingData);
+
+      case 'ai':
+        return this.runAI(analysis, variables, trackingData);
+
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Rules analysis: merge "then" of every rule whose "if" holds
+   */
+  private runRules(analysis: BDLAnalysis, variables: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = { matchedRules: [] as string[] };
+
+    for (const rule of analysis.rules || []) {
+      if (!rule.if) continue;
+
+      // Later rules see values set by earlier ones
+      const matched = this.conditionEvaluator.evaluateVariables(rule.if, { ...variables, ...result });
+      if (matched) {
+        result.matchedRules.push(rule.if);
+        Object.assign(result, rule.then || {});
+      }
+    }
+
+    result.ruleMatched = result.matchedRules.length > 0;
+
+    return result;
+  }
+
+  /**
+   * Threshold analysis: check each metric against its bounds
+   */
+  private async runThreshold(
+    analysis: BDLAnalysis,
+    variables: Record<string, any>,
+    context: ExecutionContext
+  ): Promise<Record<string, any>> {
+    const result: Record<string, any> = { violations: [] as string[] };
+    const metrics: Record<string, number> = {};
+
+    for (const [name, bounds] of Object.entries(analysis.metrics || {})) {
+      const value = await this.resolveMetric(name, variables, context);
+      metrics[name] = value;
+      result[name] = value;
+
+      if (bounds.min !== undefined && value < bounds.min) {
+        result.violations.push(`${name} < ${bounds.min}`);
+      }
+      if (bounds.max !== undefined && value > bounds.max) {
+        result.violations.push(`${name} > ${bounds.max}`);
+      }
+    }
+
+    result.metrics = metrics;
+    result.thresholdsMet = result.violations.length === 0;
+    result.thresholdExceeded = !result.thresholdsMet;
+
+    return result;
+  }
+
+  /**
+   * Resolve a metric from the variables, falling back to a database lookup
+   */
+  private async resolveMetric(name: string, variables: Record<string, any>, context: ExecutionContext): Promise<number> {
+    try {
+      const value = this.conditionEvaluator.evaluateValue(name, variables);
+      if (value !== undefined && value !== null && !isNaN(Number(value))) {
+        return Number(value);
+      }
+    } catch {
+      // Not a valid expression; fall through to the DB lookup
+    }
+
+    const query = DB_METRICS[name];
+    if (query && context.triggeredBy) {
+      try {
+        const result = await this.db.query(query, [context.serverId, context.triggeredBy]);
+        return parseInt(result.rows[0].value) || 0;
+      } catch (error) {
+        logger.warn(`Failed to load metric ${name}:`, error);
+      }
+    }
+
+    return 0;
+  }
+
+  /**
+   * Pattern analysis: regex match against message content
+   */
+  private runPatterns(analysis: BDLAnalysis, variables: Record<string, any>, trackingData?: any): Record<string, any> {
+    const texts = this.collectTexts(variables, trackingData);
+    const matchedPatterns: string[] = [];
+    let matchCount = 0;
+
+    for (const pattern of analysis.patterns || []) {
+      let regex: RegExp;
+      try {
+        regex = new RegExp(pattern, 'i');
+      } catch {
+        logger.warn(`Invalid analysis pattern: ${pattern}`);
+        continue;
+      }
+
+      const hits = texts.filter(text => regex.test(text)).length;
+      if (hits > 0) {
+        matchedPatterns.push(pattern);
+        matchCount += hits;
+      }
+    }
+
+    return {
+      matchedPatterns,
+      matchCount,
+      patternMatched: matchedPatterns.length > 0
+    };
+  }
+
+  /**
+   * AI analysis: prompt the LLM and validate its JSON against outputSchema
+   */
+  private async runAI(analysis: BDLAnalysis, variables: Record<string, any>, trackingData?: any): Promise<Record<string, any>> {
+    if (!analysis.prompt) {
+      throw new Error('AI analysis requires a prompt');
+    }
+
+    if (!this.ollama) {
+      this.ollama = new OllamaService('analysis');
+    }
+
+    const prompt = this.buildAIPrompt(analysis, variables, trackingData);
+    const systemPrompt = 'You analyze Discord activity for a moderation bot. Respond with a single JSON object and nothing else.';
+
+    let lastError = 'Unknown error';
+
+    for (let attempt = 1; attempt <= AI_MAX_ATTEMPTS; attempt++) {
+      try {
+        const response = await this.ollama.generate(prompt, systemPrompt, {
+          temperature: analysis.temperature ?? 0.2,
+          model: analysis.model,
+          format: 'json'
+        });
+
+        const parsed = this.extractJSON(response);
+        return analysis.outputSchema ? this.validateOutput(parsed, analysis.outputSchema) : parsed;
+
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        logger.warn(`AI analysis attempt ${attempt}/${AI_MAX_ATTEMPTS} failed: ${lastError}`);
+      }
+    }
+
+    throw new Error(`AI analysis failed: ${lastError}`);
+  }
+
+  /**
+   * Build the AI prompt: interpolate ${variables} and append the schema and content
+   */
+  private buildAIPrompt(analysis: BDLAnalysis, variables: Record<string, any>, trackingData?: any): string {
+    const instructions = analysis.prompt!.replace(/\$\{([\w.]+)\}/g, (match, path) => {
+      const value = this.conditionEvaluator.evaluateValue(path, variables);
+      return value === undefined ? match : String(value);
+    });
+
+    const texts = this.collectTexts(variables, trackingData).slice(-20);
+    const content = texts.length > 0
+      ? `\n\nMessages:\n${texts.map((t, i) => `${i + 1}. ${t.substring(0, 500)}`).join('\n')}`
+      : '';
+
+    const schema = analysis.outputSchema
+      ? `\n\nReturn JSON with exactly these fields:\n${JSON.stringify(analysis.outputSchema, null, 2)}`
+      : '\n\nReturn your answer as a JSON object.';
+
+    return `${instructions}${content}${schema}`;
+  }
+
+  /**
+   * Extract a JSON object from an LLM response
+   */
+  private extractJSON(response: string): Record<string, any> {
+    const cleaned = response
+      .replace(/<think>[\s\S]*?<\/think>/g, '')
+      .replace(/```json\s*/g, '')
+      .replace(/```\s*/g, '')
+      .trim();
+
+    const match = cleaned.match(/\{[\s\S]*\}/);
+    if (!match) {
+      throw new Error('No JSON object in AI response');
+    }
+
+    const parsed = JSON.parse(match[0]);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('AI response is not a JSON object');
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Validate (and lightly coerce) AI output against the BDL outputSchema.
+   * Schema values are type names, optionally followed by a description:
+   * { "toxicity": "number (0-1)", "isSpammer": "boolean", "reason": "string" }
+   */
+  private validateOutput(output: Record<string, any>, schema: Record<string, string>): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    for (const [field, spec] of Object.entries(schema)) {
+      const type = String(spec).trim().split(/[\s(,-]/)[0].toLowerCase();
+      const value = output[field];
+
+      if (value === undefined || value === null) {
+        throw new Error(`AI output missing field "${field}"`);
+      }
+
+      switch (type) {
+        case 'number':
+        case 'float':
+        case 'integer': {
+          const num = typeof value === 'number' ? value : Number(value);
+          if (isNaN(num)) throw new Error(`AI output field "${field}" is not a number`);
+          result[field] = num;
+
+          // Honour a "(min-max)" range in the description
+          const range = String(spec).match(/\((-?[\d.]+)\s*-\s*(-?[\d.]+)\)/);
+          if (range && (num < parseFloat(range[1]) || num > parseFloat(range[2]))) {
+            throw new Error(`AI output field "${field}" out of range ${range[1]}-${range[2]}`);
+          }
+          break;
+        }
+
+        case 'boolean':
+          if (typeof value === 'boolean') result[field] = value;
+          else if (value === 'true' || value === 'false') result[field] = value === 'true';
+          else throw new Error(`AI output field "${field}" is not a boolean`);
+          break;
+
+        case 'array':
+        case 'string[]':
+          if (!Array.isArray(value)) throw new Error(`AI output field "${field}" is not an array`);
+          result[field] = value;
+          break;
+
+        case 'object':
+          if (typeof value !== 'object' || Array.isArray(value)) throw new Error(`AI output field "${field}" is not an object`);
+          result[field] = value;
+          break;
+
+        default:
+          result[field] = typeof value === 'string' ? value : JSON.stringify(value);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Message texts available for pattern/AI analysis
+   */
+  private collectTexts(variables: Record<string, any>, trackingData?: any): string[] {
+    const texts: string[] = [];
+
+    for (const message of trackingData?.messages || []) {
+      const content = typeof message === 'string' ? message : message?.content;
+      if (content) texts.push(content);
+    }
+
+    if (variables.message?.content) {
+      texts.push(variables.message.content);
+    }
+
+    return texts;
+  }
+}
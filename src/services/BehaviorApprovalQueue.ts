@@ -0,0 +1,304 @@
+import {
+  Client,
+  TextChannel,
+  EmbedBuilder,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ButtonInteraction,
+  ChannelType
+} from 'discord.js';
+import { Pool } from 'pg';
+import { BDLAction } from './BehaviorParser';
+import { ExecutionContext } from '../core/BehaviorEngine';
+import { toPlainData } from '../utils/plainData';
+import logger from '../utils/logger';
+
+/**
+ * BehaviorApprovalQueue
+ *
+ * Parks behavior actions that require moderator approval (safety.requireModApproval).
+ * Posts an approve/deny prompt to the mod channel and runs the action only once
+ * a moderator approves it. Pending approvals live in the database, so buttons
+ * keep working across restarts.
+ */
+
+export interface PendingApproval {
+  id: number;
+  behaviorId: string;
+  behaviorName: string;
+  executionId: number;
+  actionIndex: number;
+  serverId: string;
+  action: BDLAction;
+  context: ExecutionContext;
+  analysisResult?: any;
+}
+
+export type ApprovalDecision = 'approved' | 'denied' | 'expired';
+
+/**
+ * Called when a moderator decides. For approvals, the handler runs the action
+ * and throws if it fails.
+ */
+export type ApprovalHandler = (approval: PendingApproval, decision: ApprovalDecision, decidedBy?: string) => Promise<void>;
+
+const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class BehaviorApprovalQueue {
+  private db: Pool;
+  private discordClient: Client;
+  private handler?: ApprovalHandler;
+
+  constructor(db: Pool, discordClient: Client) {
+    this.db = db;
+    this.discordClient = discordClient;
+  }
+
+  /**
+   * Register the handler and start listening for button clicks
+   */
+  initialize(handler: ApprovalHandler): void {
+    this.handler = handler;
+
+    this.discordClient.on('interactionCreate', async (interaction) => {
+      if (!interaction.isButton()) return;
+
+      const match = interaction.customId.match(/^behavior_(approve|deny)_(\d+)$/);
+      if (!match) return;
+
+      await this.handleButton(interaction, match[1] as 'approve' | 'deny', parseInt(match[2]));
+    });
+
+    logger.info('BehaviorApprovalQueue initialized');
+  }
+
+  /**
+   * Queue an action for approval and post the prompt
+   */
+  async enqueue(
+    behaviorName: string,
+    behaviorId: string,
+    executionId: number,
+    actionIndex: number,
+    action: BDLAction,
+    context: ExecutionContext,
+    analysisResult?: any,
+    channelId?: string
+  ): Promise<number> {
+    const storedContext = this.serializeContext(context);
+
+    const result = await this.db.query(
+      `INSERT INTO behavior_action_approvals
+       (behavior_id, execution_id, action_index, server_id, action, context, analysis_result, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [
+        behaviorId,
+        executionId,
+        actionIndex,
+        context.serverId,
+        JSON.stringify(action),
+        JSON.stringify(storedContext),
+        analysisResult ? JSON.stringify(analysisResult) : null,
+        new Date(Date.now() + APPROVAL_TTL_MS)
+      ]
+    );
+
+    const approvalId: number = result.rows[0].id;
+
+    try {
+      const channel = await this.findApprovalChannel(context.serverId, channelId);
+      if (!channel) {
+        logger.warn(`No approval channel for server ${context.serverId}; approval ${approvalId} can only be decided via API`);
+        return approvalId;
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle('🛂 Behavior Action Needs Approval')
+        .setDescription(`**${behaviorName}** wants to run \`${action.type}\``)
+        .setColor('#F1C40F')
+        .addFields(
+          { name: 'Action', value: '```json\n' + JSON.stringify(action, null, 2).substring(0, 1000) + '\n```' },
+          { name: 'Triggered By', value: context.triggeredBy ? `<@${context.triggeredBy}>` : 'System', inline: true },
+          { name: 'Event', value: context.event, inline: true }
+        )
+        .setFooter({ text: `Approval #${approvalId} • expires in 24h` })
+        .setTimestamp();
+
+      const row = new ActionRowBuilder<ButtonBuilder>()
+        .addComponents(
+          new ButtonBuilder()
+            .setCustomId(`behavior_approve_${approvalId}`)
+            .setLabel('✅ Approve')
+            .setStyle(ButtonStyle.Success),
+          new ButtonBuilder()
+            .setCustomId(`behavior_deny_${approvalId}`)
+            .setLabel('❌ Deny')
+            .setStyle(ButtonStyle.Danger)
+        );
+
+      const sent = await channel.send({ embeds: [embed], components: [row] });
+
+      await this.db.query(
+        'UPDATE behavior_action_approvals SET channel_id = $1, message_id = $2 WHERE id = $3',
+        [channel.id, sent.id, approvalId]
+      );
+    } catch (error) {
+      logger.error(`Failed to post approval prompt ${approvalId}:`, error);
+    }
+
+    logger.info(`Queued action ${action.type} of behavior ${behaviorName} for approval (#${approvalId})`);
+
+    return approvalId;
+  }
+
+  /**
+   * Decide a pending approval (used by buttons and the API)
+   */
+  async decide(approvalId: number, approve: boolean, decidedBy: string): Promise<ApprovalDecision | null> {
+    const approval = await this.getPending(approvalId);
+    if (!approval) return null;
+
+    const expired = approval.expiresAt.getTime() < Date.now();
+    const decision: ApprovalDecision = expired ? 'expired' : approve ? 'approved' : 'denied';
+
+    // Claim the row first so two moderators clicking at once cannot both run it
+    const claimed = await this.db.query(
+      `UPDATE behavior_action_approvals
+       SET status = $1, decided_by = $2, decided_at = CURRENT_TIMESTAMP
+       WHERE id = $3 AND status = 'pending'`,
+      [decision, decidedBy, approvalId]
+    );
+    if (claimed.rowCount === 0) return null;
+
+    if (this.handler) {
+      try {
+        await this.handler(approval.pending, decision, decidedBy);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        await this.db.query(
+          'UPDATE behavior_action_approvals SET status = $1, error = $2 WHERE id = $3',
+          ['failed', errorMessage, approvalId]
+        );
+        throw error;
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * List pending approvals for a server
+   */
+  async listPending(serverId: string): Promise<any[]> {
+    const result = await this.db.query(
+      `SELECT * FROM behavior_action_approvals
+       WHERE server_id = $1 AND status = 'pending'
+       ORDER BY requested_at DESC`,
+      [serverId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Handle approve/deny button
+   */
+  private async handleButton(interaction: ButtonInteraction, choice: 'approve' | 'deny', approvalId: number): Promise<void> {
+    if (!interaction.memberPermissions?.has('ModerateMembers')) {
+      await interaction.reply({ content: '❌ You need moderator permissions to decide behavior actions', ephemeral: true });
+      return;
+    }
+
+    try {
+      const decision = await this.decide(approvalId, choice === 'approve', interaction.user.id);
+
+      if (!decision) {
+        await interaction.update({ content: 'ℹ️ This approval was already decided', components: [] });
+        return;
+      }
+
+      const text = {
+        approved: `✅ Approved by <@${interaction.user.id}> — action executed`,
+        denied: `❌ Denied by <@${interaction.user.id}>`,
+        expired: '⏱️ This approval expired before a decision was made'
+      }[decision];
+
+      await interaction.update({ content: text, components: [] });
+
+    } catch (error) {
+      logger.error(`Approval #${approvalId} failed:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      await interaction.update({ content: `⚠️ Approved, but the action failed: ${errorMessage}`, components: [] });
+    }
+  }
+
+  /**
+   * Load a pending approval with its behavior name
+   */
+  private async getPending(approvalId: number): Promise<{ pending: PendingApproval; expiresAt: Date } | null> {
+    const result = await this.db.query(
+      `SELECT a.*, b.name AS behavior_name
+       FROM behavior_action_approvals a
+       LEFT JOIN dynamic_behaviors b ON b.id = a.behavior_id
+       WHERE a.id = $1 AND a.status = 'pending'`,
+      [approvalId]
+    );
+
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    const context = typeof row.context === 'string' ? JSON.parse(row.context) : row.context;
+
+    return {
+      pending: {
+        id: row.id,
+        behaviorId: row.behavior_id,
+        behaviorName: row.behavior_name || row.behavior_id,
+        executionId: row.execution_id,
+        actionIndex: row.action_index,
+        serverId: row.server_id,
+        action: typeof row.action === 'string' ? JSON.parse(row.action) : row.action,
+        context: { ...context, triggeredAt: new Date(context.triggeredAt) },
+        analysisResult: row.analysis_result || undefined
+      },
+      expiresAt: new Date(row.expires_at)
+    };
+  }
+
+  /**
+   * Keep only the serializable parts of the context (Discord objects are reduced to their ids)
+   */
+  private serializeContext(context: ExecutionContext): ExecutionContext {
+    return {
+      serverId: context.serverId,
+      triggeredBy: context.triggeredBy,
+      triggeredChannelId: context.triggeredChannelId,
+      triggeredMessageId: context.triggeredMessageId,
+      triggeredAt: context.triggeredAt,
+      event: context.event,
+      eventData: toPlainData(context.eventData) || {}
+    };
+  }
+
+  /**
+   * Find the channel to post approval prompts in
+   */
+  private async findApprovalChannel(serverId: string, channelId?: string): Promise<TextChannel | null> {
+    const guild = await this.discordClient.guilds.fetch(serverId);
+
+    if (channelId) {
+      const channel = await guild.channels.fetch(channelId).catch(() => null);
+      if (channel && channel.type === ChannelType.GuildText) {
+        return channel as TextChannel;
+      }
+    }
+
+    const modChannel = guild.channels.cache.find(
+      c => c.type === ChannelType.GuildText && (c.name.includes('mod') || c.name.includes('admin'))
+    );
+
+    return (modChannel as TextChannel) || null;
+  }
+}
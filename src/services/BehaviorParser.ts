@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { llmFixtures } from './LLMFixtures';
 import logger from '../utils/logger';
 
 /**
@@ -96,7 +97,9 @@ export interface BDLSafety {
   preventInfiniteLoops?: boolean;
   errorRetries?: number;
   disableOnErrors?: boolean;
-  sandbox?: boolean;
+  disableAfterFailures?: number;  // Consecutive failed executions before disableOnErrors applies (default 5)
+  sandbox?: boolean;  // Dry-run: record what actions would do instead of running them
+  approvalChannelId?: string;  // Where requireModApproval prompts are posted (defaults to mod channel)
 }
 
 export class BehaviorParser {
@@ -202,6 +205,7 @@ export class BehaviorParser {
 
 **Action Conditions:**
 Add "condition": "analysis.isSpammer === true" to make actions conditional
+Analysis output fields can also be used directly: "condition": "toxicity > 0.7 && !isVerified"
 
 **Safety:**
 {
@@ -278,21 +282,25 @@ Now convert the user's request to BDL JSON:`;
    * Call Ollama API
    */
   private async callOllama(prompt: string): Promise<string> {
-    const response = await axios.post(
-      `${this.ollamaUrl}/api/generate`,
-      {
-        model: this.model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.2,  // Low for structured output
-          num_predict: 2000
-        }
-      },
-      { timeout: 60000 }
-    );
-
-    return response.data.response;
+    // Recorded/replayed under the same key as pooled /api/generate calls
+    const data = await llmFixtures.intercept('/api/generate', this.model, prompt, async () => {
+      const response = await axios.post(
+        `${this.ollamaUrl}/api/generate`,
+        {
+          model: this.model,
+          prompt,
+          stream: false,
+          options: {
+            temperature: 0.2,  // Low for structured output
+            num_predict: 2000
+          }
+        },
+        { timeout: 60000 }
+      );
+      return response.data;
+    });
+
+    return data.response;
   }
 
   /**
@@ -324,7 +332,7 @@ Now convert the user's request to BDL JSON:`;
   /**
    * Validate BDL structure
    */
-  private validateBDL(bdl: BDLBehavior): void {
+  validateBDL(bdl: BDLBehavior): void {
     if (!bdl.name || bdl.name.trim().length === 0) {
       throw new Error('Behavior must have a name');
     }
@@ -353,6 +361,16 @@ Now convert the user's request to BDL JSON:`;
       throw new Error('Schedule trigger must specify a cron expression');
     }
 
+    // Validate condition trigger
+    if (bdl.trigger.type === 'condition' && !bdl.trigger.check) {
+      throw new Error('Condition trigger must specify a check expression');
+    }
+
+    // Validate pattern trigger
+    if (bdl.trigger.type === 'pattern' && !bdl.trigger.pattern) {
+      throw new Error('Pattern trigger must specify a pattern');
+    }
+
     // Validate actions
     for (const action of bdl.actions) {
       if (!action.type) {
@@ -364,7 +382,7 @@ Now convert the user's request to BDL JSON:`;
   /**
    * Get default safety settings
    */
-  private getDefaultSafety(): BDLSafety {
+  getDefaultSafety(): BDLSafety {
     return {
       maxExecutionsPerHour: 100,
       maxExecutionsPerUser: 10,
@@ -372,7 +390,7 @@ Now convert the user's request to BDL JSON:`;
       preventInfiniteLoops: true,
       errorRetries: 3,
       disableOnErrors: true,
-      sandbox: true
+      sandbox: false
     };
   }
 
@@ -0,0 +1,390 @@
+import { Pool } from 'pg';
+import { BDLBehavior } from './BehaviorParser';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import type { BehaviorEngine, ExecutionContext, TriggerTrace, ExecutionPreview } from '../core/BehaviorEngine';
+import { parseDuration } from '../utils/duration';
+import logger from '../utils/logger';
+
+/**
+ * BehaviorSandbox
+ *
+ * Dry-run mode for behaviors. Replays synthetic events, or messages recorded
+ * in the messages table, through a behavior on a simulated clock and returns
+ * a trace of which filters matched, what analysis returned and which actions
+ * would have executed. Nothing is sent to Discord and no executions are recorded.
+ *
+ * Supported events: messageCreate, guildMemberAdd, guildMemberRemove,
+ * messageReactionAdd, plus "schedule" and "condition" to fire those triggers.
+ */
+
+export interface SimulatedEvent {
+  event: string;
+  offsetMs?: number;         // Time since the start of the replay (defaults to 1s per event)
+  userId?: string;
+  username?: string;
+  channelId?: string;
+  messageId?: string;
+  content?: string;
+  attachments?: number;
+  mentions?: number;
+  roles?: string[];
+  isBot?: boolean;
+  accountAgeDays?: number;
+  emoji?: string;
+  state?: Record<string, any>;  // Server state for "condition" events
+}
+
+export interface SandboxOptions {
+  serverId: string;
+  source?: 'synthetic' | 'recorded';
+  channelId?: string;        // Recorded source: only this channel
+  userId?: string;           // Recorded source: only this user
+  limit?: number;            // Recorded source: number of messages to replay
+  skipAI?: boolean;          // Don't call the LLM for AI analysis
+}
+
+export interface SandboxEventTrace {
+  index: number;
+  event: string;
+  userId?: string;
+  offsetMs: number;
+  trigger: TriggerTrace;
+  executed: boolean;
+  skippedReason?: string;
+  tracking?: Record<string, any>;
+  preview?: ExecutionPreview;
+}
+
+export interface SandboxTrace {
+  behaviorId?: string;
+  behaviorName: string;
+  source: 'synthetic' | 'recorded';
+  eventsReplayed: number;
+  triggered: number;
+  executions: number;
+  actionCounts: Record<string, number>;
+  events: SandboxEventTrace[];
+}
+
+const SUPPORTED_EVENTS = ['messageCreate', 'guildMemberAdd', 'guildMemberRemove', 'messageReactionAdd', 'schedule', 'condition'];
+const MAX_SANDBOX_EVENTS = 200;
+const DEFAULT_RECORDED_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BehaviorSandbox {
+  private db: Pool;
+  private engine: BehaviorEngine;
+  private conditionEvaluator = new ConditionEvaluator();
+
+  constructor(db: Pool, engine: BehaviorEngine) {
+    this.db = db;
+    this.engine = engine;
+  }
+
+  /**
+   * Replay events through a behavior. With source "recorded" the events are
+   * loaded from the server's message history and `events` is ignored.
+   */
+  async run(behavior: BDLBehavior, events: SimulatedEvent[] | null, options: SandboxOptions): Promise<SandboxTrace> {
+    const source = options.source || 'synthetic';
+    const replay = source === 'recorded' ? await this.loadRecordedEvents(options) : events || [];
+
+    if (replay.length === 0) {
+      throw new Error('No events to replay');
+    }
+    if (replay.length > MAX_SANDBOX_EVENTS) {
+      throw new Error(`Too many events (max ${MAX_SANDBOX_EVENTS})`);
+    }
+
+    for (const event of replay) {
+      if (!SUPPORTED_EVENTS.includes(event.event)) {
+        throw new Error(`Unsupported sandbox event: ${event.event}`);
+      }
+    }
+
+    const trace: SandboxTrace = {
+      behaviorId: behavior.id,
+      behaviorName: behavior.name,
+      source,
+      eventsReplayed: replay.length,
+      triggered: 0,
+      executions: 0,
+      actionCounts: {},
+      events: []
+    };
+
+    // Replay state is private to this run so live pattern windows are untouched
+    const windows = new Map<string, number[]>();
+    const executionTimes: number[] = [];
+    const userExecutions = new Map<string, number>();
+    const startedAt = Date.now();
+
+    for (let index = 0; index < replay.length; index++) {
+      const event = replay[index];
+      const offsetMs = event.offsetMs ?? index * 1000;
+      const now = startedAt + offsetMs;
+      const eventData = this.toEventData(event, index, options.serverId, now);
+
+      const trigger = this.matchTrigger(behavior, event, eventData, windows, now);
+      const eventTrace: SandboxEventTrace = { index, event: event.event, userId: event.userId, offsetMs, trigger, executed: false };
+      trace.events.push(eventTrace);
+
+      if (!trigger.matched) continue;
+      trace.triggered++;
+
+      // Safety limits, counted on the simulated clock
+      const skippedReason = this.checkSafety(behavior, event.userId, now, executionTimes, userExecutions);
+      if (skippedReason) {
+        eventTrace.skippedReason = skippedReason;
+        continue;
+      }
+
+      executionTimes.push(now);
+      if (event.userId) {
+        userExecutions.set(event.userId, (userExecutions.get(event.userId) || 0) + 1);
+      }
+
+      const context: ExecutionContext = {
+        serverId: options.serverId,
+        triggeredBy: eventData.triggeredBy,
+        triggeredChannelId: eventData.triggeredChannelId,
+        triggeredMessageId: eventData.triggeredMessageId,
+        triggeredAt: new Date(now),
+        event: event.event,
+        eventData
+      };
+
+      if (behavior.tracking?.enabled) {
+        eventTrace.tracking = this.buildTrackingData(behavior, replay, index, context, startedAt);
+      }
+
+      eventTrace.preview = await this.engine.previewExecution(behavior, context, eventTrace.tracking, { skipAI: options.skipAI });
+      eventTrace.executed = true;
+      trace.executions++;
+
+      for (const action of eventTrace.preview.actions) {
+        if (action.wouldExecute) {
+          trace.actionCounts[action.type] = (trace.actionCounts[action.type] || 0) + 1;
+        }
+      }
+    }
+
+    logger.info(`Sandbox run of ${behavior.name}: ${trace.triggered}/${trace.eventsReplayed} events triggered, ${trace.executions} executions`);
+
+    return trace;
+  }
+
+  /**
+   * Load recent messages from the server's history as messageCreate events
+   */
+  async loadRecordedEvents(options: SandboxOptions): Promise<SimulatedEvent[]> {
+    const limit = Math.min(options.limit || DEFAULT_RECORDED_LIMIT, MAX_SANDBOX_EVENTS);
+
+    const result = await this.db.query(
+      `SELECT id, channel_id, user_id, content, attachment_count,
+              COALESCE(array_length(mentioned_user_ids, 1), 0) AS mention_count, created_at
+       FROM messages
+       WHERE server_id = $1
+       AND ($2::varchar IS NULL OR channel_id = $2)
+       AND ($3::varchar IS NULL OR user_id = $3)
+       AND is_deleted = false
+       ORDER BY created_at DESC
+       LIMIT $4`,
+      [options.serverId, options.channelId || null, options.userId || null, limit]
+    );
+
+    const rows = result.rows.reverse();
+    if (rows.length === 0) return [];
+
+    const firstAt = new Date(rows[0].created_at).getTime();
+
+    return rows.map(row => ({
+      event: 'messageCreate',
+      offsetMs: new Date(row.created_at).getTime() - firstAt,
+      userId: row.user_id,
+      channelId: row.channel_id,
+      messageId: row.id,
+      content: row.content,
+      attachments: row.attachment_count || 0,
+      mentions: parseInt(row.mention_count) || 0
+    }));
+  }
+
+  /**
+   * Match the trigger; schedule and condition triggers fire on their own simulated events
+   */
+  private matchTrigger(
+    behavior: BDLBehavior,
+    event: SimulatedEvent,
+    eventData: any,
+    windows: Map<string, number[]>,
+    now: number
+  ): TriggerTrace {
+    const trigger = behavior.trigger;
+
+    if (trigger.type === 'schedule' && event.event === 'schedule') {
+      return { matched: true, reason: `Simulated schedule firing (${trigger.cron})`, filters: [] };
+    }
+
+    if (trigger.type === 'condition' && event.event === 'condition') {
+      const matched = !!trigger.check && this.conditionEvaluator.evaluateVariables(trigger.check, event.state || {});
+      return { matched, reason: matched ? `Check "${trigger.check}" is true` : `Check "${trigger.check}" is false`, filters: [] };
+    }
+
+    return this.engine.explainTrigger(behavior, event.event, eventData, windows, now);
+  }
+
+  /**
+   * Apply safety.maxExecutionsPerHour / maxExecutionsPerUser to the replay
+   */
+  private checkSafety(
+    behavior: BDLBehavior,
+    userId: string | undefined,
+    now: number,
+    executionTimes: number[],
+    userExecutions: Map<string, number>
+  ): string | undefined {
+    const safety = behavior.safety;
+    if (!safety) return undefined;
+
+    if (safety.maxExecutionsPerHour) {
+      const lastHour = executionTimes.filter(t => now - t < 60 * 60 * 1000).length;
+      if (lastHour >= safety.maxExecutionsPerHour) {
+        return `Rate limit exceeded (${safety.maxExecutionsPerHour}/hour)`;
+      }
+    }
+
+    if (safety.maxExecutionsPerUser && userId && (userExecutions.get(userId) || 0) >= safety.maxExecutionsPerUser) {
+      return `Per-user limit exceeded (${safety.maxExecutionsPerUser})`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Build event data shaped like the engine's Discord listeners produce,
+   * using plain stand-ins for the Discord objects
+   */
+  private toEventData(event: SimulatedEvent, index: number, serverId: string, now: number): any {
+    const userId = event.userId || 'sandbox-user';
+    const user = {
+      id: userId,
+      username: event.username || userId,
+      bot: event.isBot || false,
+      createdTimestamp: now - (event.accountAgeDays ?? 365) * DAY_MS
+    };
+
+    switch (event.event) {
+      case 'messageCreate': {
+        const messageId = event.messageId || `sandbox-${index}`;
+        const channelId = event.channelId || 'sandbox-channel';
+        return {
+          serverId,
+          triggeredBy: userId,
+          triggeredChannelId: channelId,
+          triggeredMessageId: messageId,
+          sandbox: true,
+          message: {
+            id: messageId,
+            guildId: serverId,
+            channelId,
+            content: event.content || '',
+            author: user,
+            attachments: { size: event.attachments || 0 },
+            mentions: { users: { size: event.mentions || 0 } }
+          }
+        };
+      }
+
+      case 'guildMemberAdd':
+      case 'guildMemberRemove':
+        return {
+          serverId,
+          triggeredBy: userId,
+          sandbox: true,
+          member: {
+            id: userId,
+            user,
+            roles: { cache: new Map((event.roles || []).map(role => [role, role])) },
+            joinedTimestamp: now
+          }
+        };
+
+      case 'messageReactionAdd': {
+        const messageId = event.messageId || `sandbox-${index}`;
+        return {
+          serverId,
+          triggeredBy: userId,
+          triggeredChannelId: event.channelId || 'sandbox-channel',
+          triggeredMessageId: messageId,
+          sandbox: true,
+          reaction: { emoji: { name: event.emoji || '👍' }, message: { id: messageId } },
+          user
+        };
+      }
+
+      default:
+        return { serverId, sandbox: true, state: event.state || {} };
+    }
+  }
+
+  /**
+   * Approximate the tracking dataset from the replay: the target's events
+   * after the trigger, within the tracking duration
+   */
+  private buildTrackingData(
+    behavior: BDLBehavior,
+    replay: SimulatedEvent[],
+    fromIndex: number,
+    context: ExecutionContext,
+    startedAt: number
+  ): Record<string, any> {
+    const tracking = behavior.tracking!;
+    const durationMs = parseDuration(tracking.duration, DAY_MS);
+    const triggeredAt = context.triggeredAt.getTime();
+    const targetId = tracking.targetType === 'channel'
+      ? context.triggeredChannelId
+      : tracking.targetType === 'server' ? context.serverId : context.triggeredBy;
+
+    const followUps = replay.slice(fromIndex + 1).filter((event, i) => {
+      const at = startedAt + (event.offsetMs ?? (fromIndex + 1 + i) * 1000);
+      if (at - triggeredAt > durationMs) return false;
+      if (tracking.targetType === 'channel') return event.channelId === targetId;
+      if (tracking.targetType === 'server') return true;
+      return event.userId === targetId;
+    });
+
+    const messages = followUps
+      .filter(event => event.event === 'messageCreate' && !event.isBot)
+      .slice(0, tracking.collect?.messages || undefined)
+      .map((event, i) => ({
+        id: event.messageId || `sandbox-${fromIndex + 1 + i}`,
+        channelId: event.channelId || 'sandbox-channel',
+        authorId: event.userId || 'sandbox-user',
+        content: event.content || '',
+        createdAt: new Date(startedAt + (event.offsetMs ?? 0)).toISOString(),
+        hasLinks: /https?:\/\//.test(event.content || ''),
+        attachmentCount: event.attachments || 0,
+        mentionCount: event.mentions || 0
+      }));
+
+    const lastOffset = followUps.length > 0 ? followUps[followUps.length - 1].offsetMs ?? 0 : 0;
+
+    return {
+      messages,
+      messageCount: messages.length,
+      linkCount: messages.filter(m => m.hasLinks).length,
+      attachmentCount: messages.reduce((sum, m) => sum + m.attachmentCount, 0),
+      mentionCount: messages.reduce((sum, m) => sum + m.mentionCount, 0),
+      reactionCount: tracking.collect?.reactions ? followUps.filter(e => e.event === 'messageReactionAdd').length : 0,
+      voiceMinutes: 0,
+      roleChanges: [],
+      roleChangeCount: 0,
+      elapsedMinutes: Math.max(0, Math.round((startedAt + lastOffset - triggeredAt) / 60000)),
+      targetType: tracking.targetType,
+      targetId,
+      trackingStatus: 'completed'
+    };
+  }
+
+}
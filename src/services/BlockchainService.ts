@@ -17,12 +17,16 @@ export class BlockchainService {
   private readonly CONTRACT_ABI = [
     "function updateTrustScore(bytes32 userId, uint256 score, uint256 riskScore, uint256 violations) external",
     "function linkWallet(bytes32 userId, address wallet) external",
+    "function unlinkWallet(address wallet) external",
     "function linkBasename(string basename, bytes32 userId) external",
     "function getTrustScore(bytes32 userId) external view returns (uint256 score, uint256 riskScore, uint256 violations, uint256 lastUpdated)",
     "function getTrustScoreByWallet(address wallet) external view returns (uint256 score, uint256 riskScore, uint256 violations, uint256 lastUpdated)",
     "function getTrustScoreByBasename(string basename) external view returns (uint256 score, uint256 riskScore, uint256 violations, uint256 lastUpdated)",
     "function getTotalUsers() external view returns (uint256)",
-    "function getLeaderboard(uint256 limit) external view returns (bytes32[] userIds, uint256[] scores)"
+    "function getLeaderboard(uint256 limit) external view returns (bytes32[] userIds, uint256[] scores)",
+    "function publishScoreRoot(uint256 epoch, bytes32 root, uint256 leafCount) external",
+    "function latestEpoch() external view returns (uint256)",
+    "function scoreRoots(uint256 epoch) external view returns (bytes32 root, uint256 leafCount, uint256 publishedAt)"
   ];
 
   constructor() {
@@ -66,7 +70,7 @@ export class BlockchainService {
   /**
    * Convert Discord user ID to bytes32 hash
    */
-  private hashUserId(discordId: string): string {
+  hashUserId(discordId: string): string {
     return ethers.id(discordId);
   }
 
@@ -106,6 +110,64 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Commit the Merkle root of a batch of trust scores
+   */
+  async publishScoreRoot(epoch: number, root: string, leafCount: number): Promise<string | null> {
+    if (!this.enabled || !this.contract) return null;
+
+    try {
+      logger.info(`🌳 Publishing score root for epoch ${epoch} (${leafCount} scores)`);
+
+      const tx = await this.contract.publishScoreRoot(BigInt(epoch), root, BigInt(leafCount));
+      logger.info(`⏳ Transaction sent: ${tx.hash}`);
+      await tx.wait();
+
+      logger.info(`✅ Score root published on blockchain!`);
+      return tx.hash;
+    } catch (error) {
+      logger.error('Failed to publish score root:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Latest published score batch epoch (null if unavailable)
+   */
+  async getLatestEpoch(): Promise<number | null> {
+    if (!this.enabled || !this.contract) return null;
+
+    try {
+      return Number(await this.contract.latestEpoch());
+    } catch (error) {
+      logger.error('Failed to get latest epoch:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Anchor a hash on-chain (a zero-value transaction to our own wallet with
+   * the hash as data). The transaction timestamp proves the hash existed then.
+   */
+  async anchorHash(hash: string): Promise<string | null> {
+    if (!this.enabled || !this.wallet) return null;
+
+    try {
+      const tx = await this.wallet.sendTransaction({
+        to: this.wallet.address,
+        value: 0n,
+        data: hash.startsWith('0x') ? hash : `0x${hash}`
+      });
+      await tx.wait();
+
+      logger.info(`⚓ Hash anchored on blockchain: ${tx.hash}`);
+      return tx.hash;
+    } catch (error) {
+      logger.error('Failed to anchor hash:', error);
+      return null;
+    }
+  }
+
   /**
    * Link wallet address to Discord user
    */
@@ -127,6 +189,26 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Remove a wallet link
+   */
+  async unlinkWallet(walletAddress: string): Promise<string | null> {
+    if (!this.enabled || !this.contract) return null;
+
+    try {
+      logger.info(`🔓 Unlinking wallet ${walletAddress}`);
+
+      const tx = await this.contract.unlinkWallet(walletAddress);
+      await tx.wait();
+
+      logger.info(`✅ Wallet unlinked on blockchain!`);
+      return tx.hash;
+    } catch (error) {
+      logger.error('Failed to unlink wallet:', error);
+      return null;
+    }
+  }
+
   /**
    * Link Basename to Discord user
    */
@@ -5,11 +5,30 @@ import logger from '../utils/logger';
  * ConditionEvaluator
  *
  * Safely evaluates conditions for BDL actions.
- * Supports operators: ===, !==, >, <, >=, <=, &&, ||, !
+ * Supports operators: ===, !==, ==, !=, >, <, >=, <=, &&, ||, !, +, -, *, /, %,
+ * contains, parentheses, and the keyword aliases and/or/not.
+ * Nothing is ever passed to eval/Function; only own properties of the
+ * variables object can be read.
  *
  * Example: "analysis.isSpammer === true && analysis.confidence > 0.8"
  */
 
+interface Token {
+  type: 'number' | 'string' | 'ident' | 'op' | 'paren';
+  value: string;
+}
+
+type ExpressionNode =
+  | { kind: 'literal'; value: any }
+  | { kind: 'variable'; path: string[] }
+  | { kind: 'unary'; operator: string; operand: ExpressionNode }
+  | { kind: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode };
+
+const MAX_EXPRESSION_LENGTH = 500;
+
+// Longest first so "===" wins over "=="
+const OPERATORS = ['===', '!==', '==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '+', '-', '*', '/', '%', '(', ')'];
+
 export class ConditionEvaluator {
   /**
    * Evaluate a condition string
@@ -38,14 +57,53 @@ export class ConditionEvaluator {
   }
 
   /**
-   * Build evaluation context with all available variables
+   * Evaluate a condition string against an explicit set of variables
+   * (used by condition triggers, which have no execution context yet)
    */
-  private buildContext(
+  evaluateVariables(condition: string, variables: Record<string, any>): boolean {
+    try {
+      const result = this.safeEvaluate(condition, variables);
+
+      logger.debug(`Condition "${condition}" evaluated to: ${result}`);
+
+      return result;
+
+    } catch (error) {
+      logger.error(`Error evaluating condition "${condition}":`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Evaluate an expression and return its raw value (not coerced to boolean)
+   */
+  evaluateValue(expression: string, variables: Record<string, any>): any {
+    const ast = this.parse(this.tokenize(expression));
+    return this.evaluateNode(ast, variables);
+  }
+
+  /**
+   * Build evaluation context with all available variables.
+   * Analysis output is exposed both as analysis.x and as a bare x, so
+   * conditions like "toxicity > 0.7" work alongside "analysis.toxicity > 0.7".
+   */
+  buildContext(
     context: ExecutionContext,
     analysisResult?: any,
     trackingData?: any
   ): Record<string, any> {
+    const eventData = context.eventData || {};
+
     const evalContext: Record<string, any> = {
+      // Tracking counters (defaults)
+      messageCount: trackingData?.messageCount || 0,
+      linkCount: trackingData?.linkCount || 0,
+      reactionCount: trackingData?.reactionCount || 0,
+
+      // Tracking data and analysis output (flattened)
+      ...(trackingData && typeof trackingData === 'object' ? this.plainValues(trackingData) : {}),
+      ...(analysisResult && typeof analysisResult === 'object' ? this.plainValues(analysisResult) : {}),
+
       // Trigger context
       triggeredUserId: context.triggeredBy,
       triggeredChannelId: context.triggeredChannelId,
@@ -55,15 +113,14 @@ export class ConditionEvaluator {
       // Event data
       event: context.event,
       serverId: context.serverId,
+      message: this.describeMessage(eventData.message || eventData.newMessage),
+      member: this.describeMember(eventData.member || eventData.newMember),
 
       // Analysis result
       analysis: analysisResult || {},
 
       // Tracking data
       tracking: trackingData || {},
-      messageCount: trackingData?.messageCount || 0,
-      linkCount: trackingData?.linkCount || 0,
-      reactionCount: trackingData?.reactionCount || 0,
 
       // User data (if available)
       user: {
@@ -72,9 +129,63 @@ export class ConditionEvaluator {
       }
     };
 
+    // Schedule/condition triggers carry their server snapshot
+    if (eventData.state && typeof eventData.state === 'object') {
+      Object.assign(evalContext, eventData.state);
+    }
+
     return evalContext;
   }
 
+  /**
+   * Keep only serializable values (drops Discord objects like messages arrays)
+   */
+  private plainValues(source: Record<string, any>): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [key, value] of Object.entries(source)) {
+      if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+        result[key] = value;
+      } else if (typeof value === 'object' && !Array.isArray(value) && value.constructor === Object) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Plain summary of a Discord message for conditions
+   */
+  private describeMessage(message: any): Record<string, any> {
+    if (!message || typeof message.content !== 'string') return {};
+
+    return {
+      content: message.content,
+      length: message.content.length,
+      hasLinks: /https?:\/\//.test(message.content),
+      mentionCount: message.mentions?.users?.size || 0,
+      attachmentCount: message.attachments?.size || 0,
+      authorIsBot: message.author?.bot || false
+    };
+  }
+
+  /**
+   * Plain summary of a guild member for conditions
+   */
+  private describeMember(member: any): Record<string, any> {
+    if (!member || !member.user) return {};
+
+    const day = 24 * 60 * 60 * 1000;
+
+    return {
+      id: member.id,
+      username: member.user.username,
+      isBot: member.user.bot || false,
+      roleCount: member.roles?.cache?.size || 0,
+      accountAgeDays: member.user.createdTimestamp ? Math.floor((Date.now() - member.user.createdTimestamp) / day) : 0,
+      joinedDaysAgo: member.joinedTimestamp ? Math.floor((Date.now() - member.joinedTimestamp) / day) : 0
+    };
+  }
+
   /**
    * Safely evaluate condition without arbitrary code execution
    */
@@ -86,171 +197,214 @@ export class ConditionEvaluator {
     const expression = this.parse(tokens);
 
     // Evaluate the expression
-    return this.evaluateExpression(expression, context);
+    return Boolean(this.evaluateNode(expression, context));
   }
 
   /**
    * Tokenize condition string
    */
-  private tokenize(condition: string): string[] {
-    const tokens: string[] = [];
-    let current = '';
-    let inString = false;
-    let stringChar = '';
+  private tokenize(condition: string): Token[] {
+    if (condition.length > MAX_EXPRESSION_LENGTH) {
+      throw new Error(`Condition too long (max ${MAX_EXPRESSION_LENGTH} characters)`);
+    }
+
+    const tokens: Token[] = [];
+    let i = 0;
 
-    for (let i = 0; i < condition.length; i++) {
+    while (i < condition.length) {
       const char = condition[i];
 
-      // Handle strings
-      if ((char === '"' || char === "'") && !inString) {
-        inString = true;
-        stringChar = char;
-        current += char;
+      // Whitespace
+      if (/\s/.test(char)) {
+        i++;
         continue;
       }
 
-      if (char === stringChar && inString) {
-        inString = false;
-        current += char;
-        tokens.push(current);
-        current = '';
+      // Strings
+      if (char === '"' || char === "'") {
+        let value = '';
+        i++;
+        while (i < condition.length && condition[i] !== char) {
+          if (condition[i] === '\\' && i + 1 < condition.length) {
+            i++;
+          }
+          value += condition[i];
+          i++;
+        }
+        if (i >= condition.length) {
+          throw new Error('Unterminated string literal');
+        }
+        i++; // Closing quote
+        tokens.push({ type: 'string', value });
         continue;
       }
 
-      if (inString) {
-        current += char;
+      // Numbers
+      if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(condition[i + 1] || ''))) {
+        const match = condition.slice(i).match(/^[0-9]*\.?[0-9]+/)!;
+        tokens.push({ type: 'number', value: match[0] });
+        i += match[0].length;
         continue;
       }
 
-      // Handle operators and delimiters
-      if (char === ' ') {
-        if (current) {
-          tokens.push(current);
-          current = '';
-        }
+      // Identifiers and keywords (e.g., analysis.isSpammer, and, or, not, contains)
+      if (/[A-Za-z_$]/.test(char)) {
+        const match = condition.slice(i).match(/^[A-Za-z_$][A-Za-z0-9_$]*(\.[A-Za-z_$][A-Za-z0-9_$]*)*/)!;
+        const word = match[0];
+        i += word.length;
+
+        if (word === 'and') tokens.push({ type: 'op', value: '&&' });
+        else if (word === 'or') tokens.push({ type: 'op', value: '||' });
+        else if (word === 'not') tokens.push({ type: 'op', value: '!' });
+        else if (word === 'contains') tokens.push({ type: 'op', value: 'contains' });
+        else tokens.push({ type: 'ident', value: word });
         continue;
       }
 
-      // Multi-character operators
-      if (char === '=' || char === '!' || char === '>' || char === '<' || char === '&' || char === '|') {
-        if (current) {
-          tokens.push(current);
-          current = '';
-        }
-
-        const nextChar = condition[i + 1];
-        if ((char === '=' && nextChar === '=') ||
-            (char === '!' && nextChar === '=') ||
-            (char === '>' && nextChar === '=') ||
-            (char === '<' && nextChar === '=') ||
-            (char === '&' && nextChar === '&') ||
-            (char === '|' && nextChar === '|')) {
-          tokens.push(char + nextChar);
-          i++; // Skip next character
-        } else {
-          tokens.push(char);
-        }
+      // Operators (longest first)
+      const op = OPERATORS.find(o => condition.startsWith(o, i));
+      if (op) {
+        tokens.push({ type: op === '(' || op === ')' ? 'paren' : 'op', value: op });
+        i += op.length;
         continue;
       }
 
-      // Regular characters
-      current += char;
-    }
-
-    if (current) {
-      tokens.push(current);
+      throw new Error(`Unexpected character "${char}" at position ${i}`);
     }
 
     return tokens;
   }
 
   /**
-   * Parse tokens into expression tree
+   * Parse tokens into expression tree (recursive descent)
+   *
+   * or         := and ('||' and)*
+   * and        := equality ('&&' equality)*
+   * equality   := comparison (('==' | '===' | '!=' | '!==') comparison)*
+   * comparison := additive (('>' | '<' | '>=' | '<=' | 'contains') additive)*
+   * additive   := term (('+' | '-') term)*
+   * term       := unary (('*' | '/' | '%') unary)*
+   * unary      := ('!' | '-') unary | primary
+   * primary    := number | string | identifier | '(' or ')'
    */
-  private parse(tokens: string[]): any {
-    // Simple recursive descent parser
-    // For now, handle basic expressions
-    return { type: 'tokens', tokens };
-  }
+  private parse(tokens: Token[]): ExpressionNode {
+    let pos = 0;
 
-  /**
-   * Evaluate expression tree
-   */
-  private evaluateExpression(expression: any, context: Record<string, any>): boolean {
-    const tokens = expression.tokens;
+    const peek = (): Token | undefined => tokens[pos];
+    const isOp = (...ops: string[]): boolean => {
+      const token = tokens[pos];
+      return !!token && token.type === 'op' && ops.includes(token.value);
+    };
+
+    const binary = (next: () => ExpressionNode, ops: string[]) => (): ExpressionNode => {
+      let left = next();
+      while (isOp(...ops)) {
+        const operator = tokens[pos++].value;
+        const right = next();
+        left = { kind: 'binary', operator, left, right };
+      }
+      return left;
+    };
+
+    const primary = (): ExpressionNode => {
+      const token = tokens[pos++];
+      if (!token) throw new Error('Unexpected end of condition');
+
+      switch (token.type) {
+        case 'number':
+          return { kind: 'literal', value: Number(token.value) };
+        case 'string':
+          return { kind: 'literal', value: token.value };
+        case 'ident':
+          if (token.value === 'true') return { kind: 'literal', value: true };
+          if (token.value === 'false') return { kind: 'literal', value: false };
+          if (token.value === 'null') return { kind: 'literal', value: null };
+          if (token.value === 'undefined') return { kind: 'literal', value: undefined };
+          return { kind: 'variable', path: token.value.split('.') };
+        case 'paren':
+          if (token.value === '(') {
+            const inner = or();
+            const closing = tokens[pos++];
+            if (!closing || closing.value !== ')') throw new Error('Missing closing parenthesis');
+            return inner;
+          }
+          throw new Error('Unexpected )');
+        default:
+          throw new Error(`Unexpected operator ${token.value}`);
+      }
+    };
+
+    const unary = (): ExpressionNode => {
+      if (isOp('!', '-')) {
+        const operator = tokens[pos++].value;
+        return { kind: 'unary', operator, operand: unary() };
+      }
+      return primary();
+    };
 
-    // Handle simple comparisons
-    if (tokens.length === 3) {
-      const left = this.getValue(tokens[0], context);
-      const operator = tokens[1];
-      const right = this.getValue(tokens[2], context);
+    const term = binary(unary, ['*', '/', '%']);
+    const additive = binary(term, ['+', '-']);
+    const comparison = binary(additive, ['>', '<', '>=', '<=', 'contains']);
+    const equality = binary(comparison, ['==', '===', '!=', '!==']);
+    const and = binary(equality, ['&&']);
+    const or = binary(and, ['||']);
 
-      return this.compare(left, operator, right);
+    const ast = or();
+    if (peek()) {
+      throw new Error(`Unexpected token "${peek()!.value}"`);
     }
 
-    // Handle logical operators (&&, ||)
-    let result = false;
-    let currentOperator = null;
+    return ast;
+  }
 
-    for (let i = 0; i < tokens.length; i++) {
-      const token = tokens[i];
+  /**
+   * Evaluate expression tree
+   */
+  private evaluateNode(node: ExpressionNode, context: Record<string, any>): any {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
 
-      if (token === '&&' || token === '||') {
-        currentOperator = token;
-        continue;
+      case 'variable':
+        return this.getValue(node.path, context);
+
+      case 'unary': {
+        const operand = this.evaluateNode(node.operand, context);
+        return node.operator === '!' ? !operand : -Number(operand);
       }
 
-      // Evaluate sub-expression
-      if (i + 2 < tokens.length && this.isOperator(tokens[i + 1])) {
-        const left = this.getValue(tokens[i], context);
-        const operator = tokens[i + 1];
-        const right = this.getValue(tokens[i + 2], context);
+      case 'binary': {
+        // Short-circuit logical operators
+        if (node.operator === '&&') {
+          return Boolean(this.evaluateNode(node.left, context)) && Boolean(this.evaluateNode(node.right, context));
+        }
+        if (node.operator === '||') {
+          return Boolean(this.evaluateNode(node.left, context)) || Boolean(this.evaluateNode(node.right, context));
+        }
 
-        const subResult = this.compare(left, operator, right);
+        const left = this.evaluateNode(node.left, context);
+        const right = this.evaluateNode(node.right, context);
 
-        if (currentOperator === null) {
-          result = subResult;
-        } else if (currentOperator === '&&') {
-          result = result && subResult;
-        } else if (currentOperator === '||') {
-          result = result || subResult;
+        switch (node.operator) {
+          case '+': return typeof left === 'string' || typeof right === 'string' ? `${left}${right}` : Number(left) + Number(right);
+          case '-': return Number(left) - Number(right);
+          case '*': return Number(left) * Number(right);
+          case '/': return Number(right) === 0 ? 0 : Number(left) / Number(right);
+          case '%': return Number(right) === 0 ? 0 : Number(left) % Number(right);
+          default: return this.compare(left, node.operator, right);
         }
-
-        i += 2; // Skip operator and right operand
       }
     }
-
-    return result;
   }
 
   /**
-   * Get value from context or literal
+   * Get value from context (own properties only, so prototype members are unreachable)
    */
-  private getValue(token: string, context: Record<string, any>): any {
-    // String literal
-    if (token.startsWith('"') || token.startsWith("'")) {
-      return token.slice(1, -1);
-    }
-
-    // Number literal
-    if (!isNaN(Number(token))) {
-      return Number(token);
-    }
-
-    // Boolean literal
-    if (token === 'true') return true;
-    if (token === 'false') return false;
-
-    // Null/undefined
-    if (token === 'null') return null;
-    if (token === 'undefined') return undefined;
-
-    // Variable access (e.g., analysis.isSpammer)
-    const parts = token.split('.');
+  private getValue(path: string[], context: Record<string, any>): any {
     let value: any = context;
 
-    for (const part of parts) {
-      if (value && typeof value === 'object' && part in value) {
+    for (const part of path) {
+      if (value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, part)) {
         value = value[part];
       } else {
         return undefined;
@@ -260,13 +414,6 @@ export class ConditionEvaluator {
     return value;
   }
 
-  /**
-   * Check if token is an operator
-   */
-  private isOperator(token: string): boolean {
-    return ['===', '!==', '>', '<', '>=', '<=', '==', '!='].includes(token);
-  }
-
   /**
    * Compare two values with operator
    */
@@ -292,6 +439,11 @@ export class ConditionEvaluator {
       case '<=':
         return left <= right;
 
+      case 'contains':
+        if (typeof left === 'string') return left.toLowerCase().includes(String(right).toLowerCase());
+        if (Array.isArray(left)) return left.includes(right);
+        return false;
+
       default:
         logger.warn(`Unknown operator: ${operator}`);
         return false;
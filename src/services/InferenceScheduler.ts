@@ -0,0 +1,266 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { ENV } from '../config/environment';
+import {
+  DEFAULT_INFERENCE_PRIORITY,
+  INFERENCE_CLASSES,
+  INFERENCE_PRIORITIES,
+  InferenceClassConfig,
+  InferencePriority,
+} from '../config/inference.config';
+import { createLogger } from './Logger';
+import { metricsService } from './MetricsService';
+
+const logger = createLogger('InferenceScheduler');
+
+/**
+ * INFERENCE SCHEDULER - Priority queues in front of every model call
+ *
+ * OllamaService acquires a slot here before each call (including its
+ * fallbacks), so a burst of chat or background work cannot starve the
+ * time-critical moderation checks:
+ * - Per-class queues, served strictly by priority (see inference.config.ts)
+ * - Admission control: full class queues and low classes under load are rejected
+ * - Deadlines: calls that waited too long are dropped
+ * - Queue depth, wait and latency per class exported through MetricsService
+ *
+ * Callers pick the class for everything they trigger with withPriority();
+ * otherwise the OllamaService config type decides. With a degrade handler,
+ * a rejected, expired or overrunning call resolves to the handler's
+ * (heuristic) result instead of failing.
+ */
+
+export class InferenceSchedulingError extends Error {
+  constructor(
+    public priority: InferencePriority,
+    public reason: 'rejected' | 'expired',
+    detail: string
+  ) {
+    super(`Inference ${reason} (${priority}): ${detail}`);
+    this.name = 'InferenceSchedulingError';
+  }
+}
+
+export interface InferenceClassStats {
+  priority: InferencePriority;
+  queued: number;
+  served: number;
+  failed: number;
+  rejected: number;
+  expired: number;
+  degraded: number;
+  avgWaitMs: number;
+  maxWaitMs: number;
+  deadlineMs: number;
+}
+
+interface InferenceContext {
+  priority: InferencePriority;
+  deadline: number; // Epoch ms
+}
+
+interface QueuedCall {
+  priority: InferencePriority;
+  enqueuedAt: number;
+  start: () => void;
+  timer?: NodeJS.Timeout;
+}
+
+interface ClassCounters {
+  served: number;
+  failed: number;
+  rejected: number;
+  expired: number;
+  degraded: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+export class InferenceScheduler {
+  private queues: Map<InferencePriority, QueuedCall[]> = new Map(INFERENCE_PRIORITIES.map(p => [p, []]));
+  private counters: Map<InferencePriority, ClassCounters> = new Map(
+    INFERENCE_PRIORITIES.map(p => [p, { served: 0, failed: 0, rejected: 0, expired: 0, degraded: 0, totalWaitMs: 0, maxWaitMs: 0 }])
+  );
+  private context = new AsyncLocalStorage<InferenceContext>();
+  private running = 0;
+
+  constructor(
+    private concurrency: number = ENV.INFERENCE_CONCURRENCY,
+    private classes: Record<InferencePriority, InferenceClassConfig> = INFERENCE_CLASSES
+  ) {
+    this.concurrency = Math.max(1, concurrency || 1);
+  }
+
+  /**
+   * Run fn with every model call it makes scheduled in the given class.
+   * With degrade, scheduling failures and deadline overruns resolve to degrade()
+   */
+  async withPriority<T>(
+    priority: InferencePriority,
+    fn: () => Promise<T>,
+    options: { deadlineMs?: number; degrade?: (error: InferenceSchedulingError) => T | Promise<T> } = {}
+  ): Promise<T> {
+    // A nested call never outlives the deadline of the call it serves
+    const parent = this.context.getStore();
+    const deadline = Math.min(Date.now() + (options.deadlineMs ?? this.classes[priority].deadlineMs), parent?.deadline ?? Infinity);
+    const deadlineMs = Math.max(0, deadline - Date.now());
+    const run = this.context.run({ priority, deadline }, fn);
+
+    if (!options.degrade) {
+      return run;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const overrun = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new InferenceSchedulingError(priority, 'expired', `no result within ${deadlineMs}ms`)),
+        deadlineMs
+      );
+    });
+
+    try {
+      return await Promise.race([run, overrun]);
+    } catch (error) {
+      if (!(error instanceof InferenceSchedulingError)) throw error;
+
+      this.counters.get(priority)!.degraded++;
+      metricsService.recordInferenceRequest(priority, 'degraded');
+      logger.warn(`${error.message} - degrading to heuristic result`);
+
+      return options.degrade(error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Run one model call when a slot is free (fallbackPriority applies outside withPriority)
+   */
+  async schedule<T>(call: () => Promise<T>, fallbackPriority: InferencePriority = DEFAULT_INFERENCE_PRIORITY): Promise<T> {
+    const context = this.context.getStore();
+    const priority = context?.priority ?? fallbackPriority;
+    const deadline = context?.deadline ?? Date.now() + this.classes[priority].deadlineMs;
+    const enqueuedAt = Date.now();
+
+    if (this.running < this.concurrency && this.queuedCount() === 0) {
+      this.running++;
+      return this.run(priority, call, enqueuedAt);
+    }
+
+    this.admit(priority, deadline);
+
+    await new Promise<void>((resolve, reject) => {
+      const queue = this.queues.get(priority)!;
+      const entry: QueuedCall = { priority, enqueuedAt, start: resolve };
+
+      entry.timer = setTimeout(() => {
+        const index = queue.indexOf(entry);
+        if (index >= 0) queue.splice(index, 1);
+        this.updateDepth(priority);
+        this.counters.get(priority)!.expired++;
+        metricsService.recordInferenceRequest(priority, 'expired');
+        reject(new InferenceSchedulingError(priority, 'expired', `waited ${Date.now() - enqueuedAt}ms for a slot`));
+      }, deadline - Date.now());
+
+      queue.push(entry);
+      this.updateDepth(priority);
+    });
+
+    return this.run(priority, call, enqueuedAt);
+  }
+
+  getStats(): { concurrency: number; running: number; classes: InferenceClassStats[] } {
+    return {
+      concurrency: this.concurrency,
+      running: this.running,
+      classes: INFERENCE_PRIORITIES.map(priority => {
+        const counters = this.counters.get(priority)!;
+        return {
+          priority,
+          queued: this.queues.get(priority)!.length,
+          served: counters.served,
+          failed: counters.failed,
+          rejected: counters.rejected,
+          expired: counters.expired,
+          degraded: counters.degraded,
+          avgWaitMs: counters.served + counters.failed > 0
+            ? Math.round(counters.totalWaitMs / (counters.served + counters.failed))
+            : 0,
+          maxWaitMs: counters.maxWaitMs,
+          deadlineMs: this.classes[priority].deadlineMs,
+        };
+      }),
+    };
+  }
+
+  private async run<T>(priority: InferencePriority, call: () => Promise<T>, enqueuedAt: number): Promise<T> {
+    const counters = this.counters.get(priority)!;
+    const waitMs = Date.now() - enqueuedAt;
+    counters.totalWaitMs += waitMs;
+    counters.maxWaitMs = Math.max(counters.maxWaitMs, waitMs);
+
+    try {
+      const result = await call();
+      counters.served++;
+      metricsService.recordInferenceRequest(priority, 'served', waitMs, Date.now() - enqueuedAt);
+      return result;
+    } catch (error) {
+      counters.failed++;
+      metricsService.recordInferenceRequest(priority, 'failed', waitMs, Date.now() - enqueuedAt);
+      throw error;
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hand the freed slot to the oldest call of the highest waiting class
+   */
+  private release(): void {
+    this.running--;
+
+    for (const priority of INFERENCE_PRIORITIES) {
+      const next = this.queues.get(priority)!.shift();
+      if (next) {
+        clearTimeout(next.timer);
+        this.updateDepth(priority);
+        this.running++;
+        next.start();
+        return;
+      }
+    }
+  }
+
+  private admit(priority: InferencePriority, deadline: number): void {
+    const config = this.classes[priority];
+    const classDepth = this.queues.get(priority)!.length;
+    const totalDepth = this.queuedCount();
+
+    let detail: string | null = null;
+    if (deadline <= Date.now()) {
+      detail = 'deadline already passed';
+    } else if (classDepth >= config.maxQueued) {
+      detail = `class queue full (${classDepth}/${config.maxQueued})`;
+    } else if (config.shedAtDepth !== undefined && totalDepth >= config.shedAtDepth) {
+      detail = `shedding load (${totalDepth} calls waiting)`;
+    }
+
+    if (detail) {
+      this.counters.get(priority)!.rejected++;
+      metricsService.recordInferenceRequest(priority, 'rejected');
+      throw new InferenceSchedulingError(priority, 'rejected', detail);
+    }
+  }
+
+  private queuedCount(): number {
+    let count = 0;
+    for (const queue of this.queues.values()) count += queue.length;
+    return count;
+  }
+
+  private updateDepth(priority: InferencePriority): void {
+    metricsService.updateInferenceQueueDepth(priority, this.queues.get(priority)!.length);
+  }
+}
+
+// Singleton instance
+export const inferenceScheduler = new InferenceScheduler();
@@ -0,0 +1,258 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ENV } from '../config/environment';
+import { createLogger } from './Logger';
+import type { LLMChatMessage, LLMChatRequest, LLMChatResult, LLMProvider } from './LLMProvider';
+
+const logger = createLogger('LLMFixtures');
+
+/**
+ * LLM FIXTURES - Record/replay of model calls for offline, deterministic runs
+ *
+ * Modes (LLM_FIXTURE_MODE):
+ * - off:    Calls go to the real providers
+ * - record: Calls go to the real providers and every prompt → response pair is
+ *           written to LLM_FIXTURE_DIR (one JSON file per pair)
+ * - replay: Calls are answered from the fixture files only; an unknown prompt
+ *           throws LLMFixtureMissingError (no network, no fallbacks)
+ *
+ * Fixtures are keyed by model + normalized prompt (roles and text with
+ * whitespace collapsed) - sampling options are not part of the key.
+ * Chat calls are captured at the provider level (any provider), other Ollama
+ * endpoints (embeddings, /api/generate) at the OllamaConnectionPool level.
+ *
+ * For hand-written scenarios use ScriptedLLMProvider with llmRouter.setOverride().
+ */
+
+export type LLMFixtureMode = 'off' | 'record' | 'replay';
+
+export interface LLMFixture {
+  key: string;
+  kind: string; // "chat" or the Ollama endpoint path
+  model: string;
+  prompt: string; // Normalized prompt (for reading/diffing fixtures)
+  response: any;
+  recordedAt: string;
+}
+
+export class LLMFixtureMissingError extends Error {
+  constructor(
+    public fixtureKey: string,
+    public model: string,
+    public prompt: string,
+    hint: string = 'Record it with LLM_FIXTURE_MODE=record.'
+  ) {
+    super(`No LLM fixture for ${model} (key ${fixtureKey}). ${hint} Prompt: "${prompt.slice(0, 200)}${prompt.length > 200 ? '…' : ''}"`);
+    this.name = 'LLMFixtureMissingError';
+  }
+}
+
+export class LLMFixtureStore {
+  private fixtures: Map<string, LLMFixture> | null = null;
+  private misses: LLMFixtureMissingError[] = [];
+
+  constructor(
+    readonly mode: LLMFixtureMode = (ENV.LLM_FIXTURE_MODE as LLMFixtureMode) || 'off',
+    readonly dir: string = ENV.LLM_FIXTURE_DIR
+  ) {
+    if (mode !== 'off') {
+      logger.info(`LLM fixtures: ${mode} mode (${path.resolve(dir)})`);
+    }
+  }
+
+  get active(): boolean {
+    return this.mode === 'record' || this.mode === 'replay';
+  }
+
+  /**
+   * Answer from a fixture (replay), or call through and save the response (record)
+   */
+  async intercept<T>(kind: string, model: string, prompt: string, call: () => Promise<T>): Promise<T> {
+    if (this.mode === 'off') return call();
+
+    const normalized = normalizePrompt(prompt);
+    const key = fixtureKey(kind, model, normalized);
+
+    if (this.mode === 'replay') {
+      const fixture = this.load().get(key);
+      if (!fixture) {
+        const error = new LLMFixtureMissingError(key, model, normalized);
+        this.misses.push(error);
+        logger.error(`❌ ${error.message}`);
+        throw error;
+      }
+      return fixture.response as T;
+    }
+
+    const response = await call();
+    await this.save({ key, kind, model, prompt: normalized, response, recordedAt: new Date().toISOString() });
+    return response;
+  }
+
+  /**
+   * Prompts replay could not answer (for test harness assertions)
+   */
+  getMisses(): LLMFixtureMissingError[] {
+    return [...this.misses];
+  }
+
+  private load(): Map<string, LLMFixture> {
+    if (this.fixtures) return this.fixtures;
+
+    this.fixtures = new Map();
+    if (fs.existsSync(this.dir)) {
+      for (const file of fs.readdirSync(this.dir).filter(f => f.endsWith('.json'))) {
+        try {
+          const fixture: LLMFixture = JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf-8'));
+          this.fixtures.set(fixture.key, fixture);
+        } catch (error) {
+          logger.error(`Invalid LLM fixture ${file}`, error);
+        }
+      }
+    }
+
+    logger.info(`Loaded ${this.fixtures.size} LLM fixtures`);
+    return this.fixtures;
+  }
+
+  private async save(fixture: LLMFixture): Promise<void> {
+    const model = fixture.model.replace(/[^a-zA-Z0-9.-]+/g, '_');
+    const kind = fixture.kind.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+    const file = path.join(this.dir, `${kind}-${model}-${fixture.key.slice(0, 16)}.json`);
+
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify(fixture, null, 2) + '\n');
+      this.fixtures?.set(fixture.key, fixture);
+    } catch (error) {
+      logger.error(`Failed to record LLM fixture ${file}`, error);
+    }
+  }
+}
+
+/**
+ * Provider wrapper that records/replays chat calls
+ */
+export class FixtureLLMProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private store: LLMFixtureStore) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get type() {
+    return this.inner.type;
+  }
+
+  chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    return this.store.intercept('chat', request.model, chatPrompt(request.messages, request.json), () => this.inner.chat(request));
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.store.mode === 'replay' ? true : this.inner.healthCheck();
+  }
+
+  async listModels(): Promise<string[]> {
+    return this.store.mode === 'replay' ? [] : this.inner.listModels();
+  }
+}
+
+export type ScriptedMatcher = string | RegExp | ((request: LLMChatRequest, prompt: string) => boolean);
+export type ScriptedReply = string | object | LLMChatResult | ((request: LLMChatRequest, prompt: string) => string | object | LLMChatResult);
+
+interface ScriptedRule {
+  matcher: ScriptedMatcher;
+  reply: ScriptedReply;
+  remaining: number; // Infinity = every time
+}
+
+/**
+ * Hand-written fake provider for test scenarios
+ *
+ *   const fake = new ScriptedLLMProvider()
+ *     .when(/free nitro/i).reply({ isScam: true, confidence: 0.95, scamType: 'phishing' })
+ *     .when('summarize').replyOnce('Quiet day.');
+ *   llmRouter.setOverride(fake);
+ *
+ * Strings match anywhere in the normalized prompt; object replies are sent as JSON.
+ * Unmatched prompts throw, so a scenario never silently talks to a real model.
+ * OllamaService.generateJSON makes a second, extraction call (JSON_MODEL) - script
+ * it too, e.g. .when('You are a JSON extractor').reply((_, p) => p.slice(p.lastIndexOf('{'))).
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly type = 'ollama';
+  readonly calls: Array<{ request: LLMChatRequest; prompt: string; response: LLMChatResult }> = [];
+  private rules: ScriptedRule[] = [];
+
+  constructor(readonly name: string = 'scripted') {}
+
+  when(matcher: ScriptedMatcher) {
+    return {
+      reply: (reply: ScriptedReply) => this.addRule(matcher, reply, Infinity),
+      replyOnce: (reply: ScriptedReply) => this.addRule(matcher, reply, 1),
+    };
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    const prompt = normalizePrompt(chatPrompt(request.messages, request.json));
+    const rule = this.rules.find(r => r.remaining > 0 && this.matches(r.matcher, request, prompt));
+
+    if (!rule) {
+      throw new LLMFixtureMissingError('scripted', request.model, prompt, 'ScriptedLLMProvider has no matching rule.');
+    }
+
+    rule.remaining--;
+    const reply = typeof rule.reply === 'function' ? rule.reply(request, prompt) : rule.reply;
+    const response: LLMChatResult = typeof reply === 'string'
+      ? { content: reply }
+      : 'content' in reply && typeof (reply as LLMChatResult).content === 'string'
+        ? reply as LLMChatResult
+        : { content: JSON.stringify(reply) };
+
+    this.calls.push({ request, prompt, response });
+    return response;
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  async listModels(): Promise<string[]> {
+    return ['scripted'];
+  }
+
+  private addRule(matcher: ScriptedMatcher, reply: ScriptedReply, times: number): this {
+    this.rules.push({ matcher, reply, remaining: times });
+    return this;
+  }
+
+  private matches(matcher: ScriptedMatcher, request: LLMChatRequest, prompt: string): boolean {
+    if (typeof matcher === 'string') return prompt.includes(normalizePrompt(matcher));
+    if (matcher instanceof RegExp) return matcher.test(prompt);
+    return matcher(request, prompt);
+  }
+}
+
+/**
+ * Prompt text for a chat request (roles kept so system/user swaps don't collide)
+ */
+export function chatPrompt(messages: LLMChatMessage[], json?: boolean): string {
+  const text = messages.map(m => `[${m.role}] ${m.content}${m.images?.length ? ` [images:${imagesDigest(m.images)}]` : ''}`).join('\n');
+  return json ? `${text}\n[format] json` : text;
+}
+
+export function normalizePrompt(prompt: string): string {
+  return prompt.replace(/\s+/g, ' ').trim();
+}
+
+function fixtureKey(kind: string, model: string, normalizedPrompt: string): string {
+  return crypto.createHash('sha256').update(`${kind}\n${model}\n${normalizedPrompt}`).digest('hex');
+}
+
+function imagesDigest(images: string[]): string {
+  return crypto.createHash('sha256').update(images.join('|')).digest('hex').slice(0, 16);
+}
+
+// Singleton instance
+export const llmFixtures = new LLMFixtureStore();
@@ -0,0 +1,187 @@
+import axios, { AxiosInstance } from 'axios';
+import { LLMProviderConfig, LLMProviderType } from '../config/llm.config';
+import { OllamaConnectionPool } from './OllamaConnectionPool';
+import { FixtureLLMProvider, llmFixtures } from './LLMFixtures';
+
+/**
+ * LLM PROVIDERS
+ *
+ * One chat interface over the inference backends BECAS can talk to:
+ * - OllamaProvider: Ollama /api/chat (through an OllamaConnectionPool)
+ * - OpenAICompatibleProvider: /chat/completions of OpenAI, vLLM, llama.cpp server, LM Studio, ...
+ *
+ * Providers only move bytes - caching, circuit breaking, routing and
+ * answer cleanup stay in OllamaService / LLMRouter.
+ */
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  images?: string[]; // Base64 images (vision models)
+}
+
+export interface LLMChatRequest {
+  model: string;
+  messages: LLMChatMessage[];
+  temperature?: number;
+  maxTokens?: number; // <= 0 or undefined = provider default
+  contextWindow?: number; // Ollama num_ctx
+  json?: boolean; // Ask for a JSON object
+}
+
+export interface LLMChatResult {
+  content: string;
+  thinking?: string; // Reasoning, for models that return it separately
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly type: LLMProviderType;
+  chat(request: LLMChatRequest): Promise<LLMChatResult>;
+  healthCheck(): Promise<boolean>;
+  listModels(): Promise<string[]>;
+}
+
+/**
+ * Create a provider (wrapped for record/replay when LLM fixtures are active)
+ */
+export function createLLMProvider(config: LLMProviderConfig, pool?: OllamaConnectionPool): LLMProvider {
+  let provider: LLMProvider;
+
+  switch (config.type) {
+    case 'ollama': provider = new OllamaProvider(config.name, pool || new OllamaConnectionPool({ baseURL: config.baseUrl })); break;
+    case 'openai': provider = new OpenAICompatibleProvider(config); break;
+    default: throw new Error(`Unknown LLM provider type: ${(config as any).type}`);
+  }
+
+  return llmFixtures.active ? new FixtureLLMProvider(provider, llmFixtures) : provider;
+}
+
+/**
+ * Ollama /api/chat
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly type = 'ollama';
+
+  constructor(readonly name: string, private pool: OllamaConnectionPool) {}
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    const body: any = {
+      model: request.model,
+      messages: request.messages,
+      stream: false,
+      options: {
+        temperature: request.temperature,
+        ...(request.maxTokens !== undefined ? { num_predict: request.maxTokens } : {}),
+        ...(request.contextWindow ? { num_ctx: request.contextWindow } : {}),
+        num_gpu: -1, // Use ALL GPU layers (auto-detect CUDA/ROCm)
+      },
+    };
+
+    if (request.json) {
+      body.format = 'json';
+    }
+
+    const response = await this.pool.post<any>('/api/chat', body);
+
+    return {
+      content: response.message?.content || '',
+      thinking: response.message?.thinking,
+      promptTokens: response.prompt_eval_count,
+      completionTokens: response.eval_count,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.pool.healthCheck();
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await this.pool.get<any>('/api/tags');
+    return response.models?.map((m: any) => m.name) || [];
+  }
+}
+
+/**
+ * OpenAI-compatible /chat/completions (baseUrl includes the /v1 prefix)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly type = 'openai';
+  readonly name: string;
+  private client: AxiosInstance;
+
+  constructor(config: LLMProviderConfig) {
+    this.name = config.name;
+
+    const apiKey = config.apiKey || (config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined);
+
+    this.client = axios.create({
+      baseURL: config.baseUrl.replace(/\/+$/, ''),
+      timeout: config.timeoutMs ?? 120000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        ...(config.headers || {}),
+      },
+    });
+  }
+
+  async chat(request: LLMChatRequest): Promise<LLMChatResult> {
+    const body: any = {
+      model: request.model,
+      messages: request.messages.map(message => this.toOpenAIMessage(message)),
+      stream: false,
+    };
+
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.maxTokens !== undefined && request.maxTokens > 0) body.max_tokens = request.maxTokens;
+    if (request.json) body.response_format = { type: 'json_object' };
+
+    const response = await this.client.post('/chat/completions', body);
+    const message = response.data.choices?.[0]?.message;
+
+    if (!message) {
+      throw new Error(`${this.name}: response has no choices`);
+    }
+
+    return {
+      content: message.content || '',
+      thinking: message.reasoning_content, // DeepSeek / llama.cpp reasoning models
+      promptTokens: response.data.usage?.prompt_tokens,
+      completionTokens: response.data.usage?.completion_tokens,
+    };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.client.get('/models');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const response = await this.client.get('/models');
+    return response.data.data?.map((m: any) => m.id) || [];
+  }
+
+  private toOpenAIMessage(message: LLMChatMessage): any {
+    if (!message.images || message.images.length === 0) {
+      return { role: message.role, content: message.content };
+    }
+
+    return {
+      role: message.role,
+      content: [
+        { type: 'text', text: message.content },
+        ...message.images.map(image => ({
+          type: 'image_url',
+          image_url: { url: image.startsWith('data:') ? image : `data:image/png;base64,${image}` },
+        })),
+      ],
+    };
+  }
+}
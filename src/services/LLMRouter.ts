@@ -0,0 +1,233 @@
+import {
+  DEFAULT_LLM_PROVIDER,
+  LLM_PROVIDERS,
+  LLM_ROUTES,
+  LLMProviderConfig,
+  LLMRoute,
+  LLMRouteTarget,
+} from '../config/llm.config';
+import { CircuitBreaker } from './CircuitBreaker';
+import { createLLMProvider, LLMChatResult, LLMProvider } from './LLMProvider';
+import { createLogger } from './Logger';
+import { OllamaConnectionPool } from './OllamaConnectionPool';
+
+const logger = createLogger('LLMRouter');
+
+/**
+ * LLM ROUTER
+ *
+ * Resolves which provider/model serves a config type (see llm.config.ts),
+ * owns the shared provider instances and their circuit breakers (used for
+ * fallback targets), and keeps per-provider metrics for /metrics/ollama.
+ */
+
+export interface ResolvedTarget {
+  provider: string;
+  model: string;
+}
+
+export interface LLMProviderMetrics {
+  provider: string;
+  type: string;
+  requests: number;
+  successes: number;
+  failures: number;
+  fallbackRequests: number; // Requests this provider served as a fallback target
+  avgLatencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  models: string[];
+  circuitState?: string;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+interface MetricsState {
+  requests: number;
+  successes: number;
+  failures: number;
+  fallbackRequests: number;
+  totalLatencyMs: number;
+  promptTokens: number;
+  completionTokens: number;
+  models: Set<string>;
+  lastError: string | null;
+  lastErrorAt: Date | null;
+}
+
+export class LLMRouter {
+  private providerConfigs: Map<string, LLMProviderConfig>;
+  private providers: Map<string, LLMProvider> = new Map();
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private metrics: Map<string, MetricsState> = new Map();
+  private warned: Set<string> = new Set();
+  private ollamaPool?: OllamaConnectionPool;
+  private override: LLMProvider | null = null;
+
+  constructor(
+    providers: LLMProviderConfig[] = LLM_PROVIDERS,
+    private routes: Record<string, LLMRoute> = LLM_ROUTES
+  ) {
+    this.providerConfigs = new Map(providers.map(p => [p.name, p]));
+  }
+
+  /**
+   * Share the application's Ollama pool with the default provider
+   */
+  setOllamaPool(pool: OllamaConnectionPool): void {
+    this.ollamaPool = pool;
+    this.providers.delete(DEFAULT_LLM_PROVIDER);
+  }
+
+  /**
+   * Send every call to one provider, ignoring routes (e.g. a ScriptedLLMProvider in tests)
+   */
+  setOverride(provider: LLMProvider | null): void {
+    this.override = provider;
+  }
+
+  getOverride(): LLMProvider | null {
+    return this.override;
+  }
+
+  /**
+   * Primary target followed by fallbacks for a config type.
+   * Targets without a model use the config type's default model.
+   */
+  resolve(configType: string, defaultModel: string): ResolvedTarget[] {
+    if (this.override) {
+      return [{ provider: this.override.name, model: defaultModel }];
+    }
+
+    const route = this.routes[configType] || this.routes['*'] || { provider: DEFAULT_LLM_PROVIDER };
+    const targets: LLMRouteTarget[] = [route, ...(route.fallbacks || [])];
+
+    const resolved = targets
+      .filter(target => this.isKnown(target.provider, configType))
+      .map(target => ({ provider: target.provider, model: target.model || defaultModel }));
+
+    return resolved.length > 0 ? resolved : [{ provider: DEFAULT_LLM_PROVIDER, model: defaultModel }];
+  }
+
+  getProvider(name: string): LLMProvider {
+    if (this.override) return this.override;
+
+    let provider = this.providers.get(name);
+    if (!provider) {
+      const config = this.providerConfigs.get(name);
+      if (!config) throw new Error(`Unknown LLM provider: ${name}`);
+
+      provider = createLLMProvider(config, name === DEFAULT_LLM_PROVIDER ? this.ollamaPool : undefined);
+      this.providers.set(name, provider);
+    }
+    return provider;
+  }
+
+  /**
+   * Circuit breaker shared by all fallback calls to a provider
+   */
+  getBreaker(name: string): CircuitBreaker {
+    let breaker = this.breakers.get(name);
+    if (!breaker) {
+      breaker = new CircuitBreaker(`LLM-${name}`, {
+        failureThreshold: 3,
+        successThreshold: 2,
+        timeout: 60000,
+        monitoringWindow: 60000,
+      });
+      this.breakers.set(name, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Record the outcome of one provider call
+   */
+  record(
+    target: ResolvedTarget,
+    durationMs: number,
+    outcome: { result?: LLMChatResult; error?: unknown; fallback?: boolean }
+  ): void {
+    const state = this.metricsFor(target.provider);
+
+    state.requests++;
+    state.totalLatencyMs += durationMs;
+    state.models.add(target.model);
+    if (outcome.fallback) state.fallbackRequests++;
+
+    if (outcome.error) {
+      state.failures++;
+      state.lastError = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+      state.lastErrorAt = new Date();
+    } else {
+      state.successes++;
+      state.promptTokens += outcome.result?.promptTokens || 0;
+      state.completionTokens += outcome.result?.completionTokens || 0;
+    }
+  }
+
+  getMetrics(): LLMProviderMetrics[] {
+    return Array.from(this.providerConfigs.values()).map(config => {
+      const state = this.metricsFor(config.name);
+      return {
+        provider: config.name,
+        type: config.type,
+        requests: state.requests,
+        successes: state.successes,
+        failures: state.failures,
+        fallbackRequests: state.fallbackRequests,
+        avgLatencyMs: state.requests > 0 ? Math.round(state.totalLatencyMs / state.requests) : 0,
+        promptTokens: state.promptTokens,
+        completionTokens: state.completionTokens,
+        models: Array.from(state.models),
+        circuitState: this.breakers.get(config.name)?.getState(),
+        lastError: state.lastError,
+        lastErrorAt: state.lastErrorAt?.toISOString() || null,
+      };
+    });
+  }
+
+  /**
+   * Configured providers (without secrets) and routes
+   */
+  describe(): { providers: Array<{ name: string; type: string; baseUrl: string }>; routes: Record<string, LLMRoute> } {
+    return {
+      providers: Array.from(this.providerConfigs.values()).map(p => ({ name: p.name, type: p.type, baseUrl: p.baseUrl })),
+      routes: this.routes,
+    };
+  }
+
+  private isKnown(provider: string, configType: string): boolean {
+    if (this.providerConfigs.has(provider)) return true;
+
+    const key = `${configType}:${provider}`;
+    if (!this.warned.has(key)) {
+      this.warned.add(key);
+      logger.warn(`Route for ${configType} uses unknown provider "${provider}" - skipping it`);
+    }
+    return false;
+  }
+
+  private metricsFor(provider: string): MetricsState {
+    let state = this.metrics.get(provider);
+    if (!state) {
+      state = {
+        requests: 0,
+        successes: 0,
+        failures: 0,
+        fallbackRequests: 0,
+        totalLatencyMs: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        models: new Set(),
+        lastError: null,
+        lastErrorAt: null,
+      };
+      this.metrics.set(provider, state);
+    }
+    return state;
+  }
+}
+
+// Singleton instance
+export const llmRouter = new LLMRouter();
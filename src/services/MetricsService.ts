@@ -24,6 +24,12 @@ export class MetricsService {
   public aiCircuitBreakerState: Gauge<string>;
   public aiFallbackUsage: Counter<string>;
 
+  // Inference Scheduling Metrics
+  public inferenceQueueDepth: Gauge<string>;
+  public inferenceQueueWait: Histogram<string>;
+  public inferenceLatency: Histogram<string>;
+  public inferenceRequestsTotal: Counter<string>;
+
   // Moderation Metrics
   public moderationActionsTotal: Counter<string>;
   public scamDetectionTotal: Counter<string>;
@@ -76,6 +82,37 @@ export class MetricsService {
       registers: [this.registry],
     });
 
+    // ========== Inference Scheduling Metrics ==========
+    this.inferenceQueueDepth = new Gauge({
+      name: 'becas_inference_queue_depth',
+      help: 'Model calls waiting for an inference slot',
+      labelNames: ['priority'],
+      registers: [this.registry],
+    });
+
+    this.inferenceQueueWait = new Histogram({
+      name: 'becas_inference_queue_wait_seconds',
+      help: 'Time model calls waited for an inference slot',
+      labelNames: ['priority'],
+      buckets: [0.01, 0.1, 0.5, 1, 2, 5, 10, 30, 60],
+      registers: [this.registry],
+    });
+
+    this.inferenceLatency = new Histogram({
+      name: 'becas_inference_latency_seconds',
+      help: 'Model call latency including queue wait',
+      labelNames: ['priority'],
+      buckets: [0.1, 0.5, 1, 2, 5, 10, 30, 60, 120],
+      registers: [this.registry],
+    });
+
+    this.inferenceRequestsTotal = new Counter({
+      name: 'becas_inference_requests_total',
+      help: 'Scheduled model calls by outcome (served, failed, rejected, expired, degraded)',
+      labelNames: ['priority', 'outcome'],
+      registers: [this.registry],
+    });
+
     // ========== Moderation Metrics ==========
     this.moderationActionsTotal = new Counter({
       name: 'becas_moderation_actions_total',
@@ -213,6 +250,22 @@ export class MetricsService {
     this.aiFallbackUsage.inc({ service, reason });
   }
 
+  /**
+   * Update inference queue depth for a priority class
+   */
+  updateInferenceQueueDepth(priority: string, depth: number): void {
+    this.inferenceQueueDepth.set({ priority }, depth);
+  }
+
+  /**
+   * Record a scheduled model call (waitMs/latencyMs only for calls that got a slot)
+   */
+  recordInferenceRequest(priority: string, outcome: string, waitMs?: number, latencyMs?: number): void {
+    this.inferenceRequestsTotal.inc({ priority, outcome });
+    if (waitMs !== undefined) this.inferenceQueueWait.observe({ priority }, waitMs / 1000);
+    if (latencyMs !== undefined) this.inferenceLatency.observe({ priority }, latencyMs / 1000);
+  }
+
   /**
    * Record moderation action
    */
@@ -1,5 +1,6 @@
 import axios, { AxiosInstance } from 'axios';
 import { createLogger } from './Logger';
+import { llmFixtures } from './LLMFixtures';
 
 const logger = createLogger('OllamaConnectionPool');
 
@@ -185,6 +186,16 @@ export class OllamaConnectionPool {
    * Make POST request with connection pooling and retry
    */
   async post<T = any>(path: string, data: any): Promise<T> {
+    // Chat calls are recorded/replayed by the provider; other endpoints (embeddings, /api/generate) here
+    if (llmFixtures.active && path !== '/api/chat') {
+      const prompt = typeof data?.prompt === 'string' ? data.prompt : JSON.stringify(data?.input ?? data?.messages ?? data);
+      return llmFixtures.intercept(path, data?.model || 'unknown', prompt, () => this.request<T>(path, data));
+    }
+
+    return this.request<T>(path, data);
+  }
+
+  private async request<T>(path: string, data: any): Promise<T> {
     this.totalRequests++;
     const startTime = Date.now();
 
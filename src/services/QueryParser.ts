@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { llmFixtures } from './LLMFixtures';
 import logger from '../utils/logger';
 
 /**
@@ -239,21 +240,25 @@ Common columns:
    * Call Ollama API
    */
   private async callOllama(prompt: string): Promise<string> {
-    const response = await axios.post(
-      `${this.ollamaUrl}/api/generate`,
-      {
-        model: this.model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: 0.1, // Low temperature for deterministic SQL
-          num_predict: 1000
-        }
-      },
-      { timeout: 30000 }
-    );
-
-    return response.data.response;
+    // Recorded/replayed under the same key as pooled /api/generate calls
+    const data = await llmFixtures.intercept('/api/generate', this.model, prompt, async () => {
+      const response = await axios.post(
+        `${this.ollamaUrl}/api/generate`,
+        {
+          model: this.model,
+          prompt,
+          stream: false,
+          options: {
+            temperature: 0.1, // Low temperature for deterministic SQL
+            num_predict: 1000
+          }
+        },
+        { timeout: 30000 }
+      );
+      return response.data;
+    });
+
+    return data.response;
   }
 
   /**
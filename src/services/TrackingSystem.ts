@@ -1,6 +1,10 @@
 import { Pool } from 'pg';
-import { Client, Message, MessageReaction, User } from 'discord.js';
+import { Client, Message, MessageReaction, User, VoiceState, GuildMember, PartialGuildMember } from 'discord.js';
 import { BDLTracking } from './BehaviorParser';
+import { ConditionEvaluator } from './ConditionEvaluator';
+import { ExecutionContext } from '../core/BehaviorEngine';
+import { parseDuration } from '../utils/duration';
+import { toPlainData } from '../utils/plainData';
 import logger from '../utils/logger';
 
 /**
@@ -9,6 +13,10 @@ import logger from '../utils/logger';
  * Monitors users/channels/servers for a specified duration and collects data.
  * Used by behaviors to track activity before making decisions.
  *
+ * When a session completes (stop condition, message limit) or expires, the
+ * collected dataset is handed to the registered session-end handlers, which
+ * BehaviorEngine uses to run the behavior's analysis and actions.
+ *
  * Example: Track new user's first 10 messages to detect spam
  */
 
@@ -23,31 +31,64 @@ export interface TrackingSession {
   startedAt: Date;
   expiresAt: Date;
   collectedData: CollectedData;
+  collect: BDLTracking['collect'];
   stopConditions: string[];
+  context?: ExecutionContext;
   status: 'active' | 'completed' | 'expired' | 'stopped';
   completedAt?: Date;
 }
 
+export interface TrackedMessage {
+  id: string;
+  channelId: string;
+  authorId: string;
+  content: string;
+  createdAt: string;
+  hasLinks: boolean;
+  attachmentCount: number;
+  mentionCount: number;
+}
+
 export interface CollectedData {
-  messages: Message[];
+  messages: TrackedMessage[];
   messageCount: number;
   linkCount: number;
+  attachmentCount: number;
+  mentionCount: number;
   reactionCount: number;
   voiceMinutes: number;
-  roleChanges: any[];
+  voiceJoinedAt?: string;  // Set while the target is in a voice channel
+  roleChanges: Array<{ added: string[]; removed: string[]; at: string }>;
   customData: Record<string, any>;
 }
 
+export type SessionEndHandler = (session: TrackingSession) => Promise<void>;
+
+// Tracked message bodies kept per session (counts keep going past this)
+const MAX_STORED_MESSAGES = 100;
+
+// Sessions without a valid duration run for a day
+const DEFAULT_DURATION_MS = 24 * 60 * 60 * 1000;
+
 export class TrackingSystem {
   private db: Pool;
   private discordClient: Client;
   private activeSessions: Map<string, TrackingSession> = new Map();
+  private sessionEndHandlers: SessionEndHandler[] = [];
+  private conditionEvaluator = new ConditionEvaluator();
 
   constructor(db: Pool, discordClient: Client) {
     this.db = db;
     this.discordClient = discordClient;
   }
 
+  /**
+   * Register a handler called with the collected data when a session completes, expires or is stopped
+   */
+  onSessionEnd(handler: SessionEndHandler): void {
+    this.sessionEndHandlers.push(handler);
+  }
+
   /**
    * Initialize tracking system
    */
@@ -65,16 +106,26 @@ export class TrackingSystem {
     behaviorId: string,
     executionId: number,
     serverId: string,
-    tracking: BDLTracking
+    tracking: BDLTracking,
+    context?: ExecutionContext
   ): Promise<TrackingSession> {
     const id = `track-${behaviorId}-${executionId}-${Date.now()}`;
 
     // Parse duration (24h, 7d, etc.)
-    const durationMs = this.parseDuration(tracking.duration);
+    const durationMs = parseDuration(tracking.duration, DEFAULT_DURATION_MS);
     const expiresAt = new Date(Date.now() + durationMs);
 
     // Resolve target ID (replace variables)
-    const targetId = this.resolveVariable(tracking.targetId, { executionId });
+    const targetId = this.resolveVariable(tracking.targetId || '', {
+      executionId,
+      serverId,
+      triggeredUserId: context?.triggeredBy,
+      triggeredChannelId: context?.triggeredChannelId
+    }) || (tracking.targetType === 'server' ? serverId : '');
+
+    if (!targetId || targetId.includes('${')) {
+      throw new Error(`Could not resolve tracking target: ${tracking.targetId}`);
+    }
 
     const session: TrackingSession = {
       id,
@@ -86,16 +137,10 @@ export class TrackingSystem {
       duration: tracking.duration,
       startedAt: new Date(),
       expiresAt,
-      collectedData: {
-        messages: [],
-        messageCount: 0,
-        linkCount: 0,
-        reactionCount: 0,
-        voiceMinutes: 0,
-        roleChanges: [],
-        customData: {}
-      },
+      collectedData: this.emptyData(),
+      collect: tracking.collect || {},
       stopConditions: tracking.stopConditions || [],
+      context: context ? this.serializeContext(context) : undefined,
       status: 'active'
     };
 
@@ -116,8 +161,8 @@ export class TrackingSystem {
   private async saveSession(session: TrackingSession): Promise<void> {
     const query = `
       INSERT INTO behavior_active_tracking
-      (id, behavior_id, execution_id, server_id, target_type, target_id, duration, expires_at, collected_data, stop_conditions, status)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      (id, behavior_id, execution_id, server_id, target_type, target_id, duration, expires_at, collected_data, stop_conditions, status, collect, context)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
     `;
 
     await this.db.query(query, [
@@ -131,7 +176,9 @@ export class TrackingSystem {
       session.expiresAt,
       JSON.stringify(session.collectedData),
       JSON.stringify(session.stopConditions),
-      session.status
+      session.status,
+      JSON.stringify(session.collect),
+      session.context ? JSON.stringify(session.context) : null
     ]);
   }
 
@@ -156,18 +203,22 @@ export class TrackingSystem {
   }
 
   /**
-   * Load active sessions from database
+   * Load active sessions from database.
+   * Sessions that expired while the bot was down are loaded too; the next
+   * expiration check ends them and delivers their data.
    */
   private async loadActiveSessions(): Promise<void> {
     const query = `
       SELECT * FROM behavior_active_tracking
       WHERE status = 'active'
-      AND expires_at > CURRENT_TIMESTAMP
     `;
 
     const result = await this.db.query(query);
+    const parse = (value: any) => typeof value === 'string' ? JSON.parse(value) : value;
 
     for (const row of result.rows) {
+      const context = parse(row.context);
+
       const session: TrackingSession = {
         id: row.id,
         behaviorId: row.behavior_id,
@@ -178,8 +229,10 @@ export class TrackingSystem {
         duration: row.duration,
         startedAt: new Date(row.started_at),
         expiresAt: new Date(row.expires_at),
-        collectedData: JSON.parse(row.collected_data),
-        stopConditions: JSON.parse(row.stop_conditions),
+        collectedData: { ...this.emptyData(), ...parse(row.collected_data) },
+        collect: parse(row.collect) || {},
+        stopConditions: parse(row.stop_conditions) || [],
+        context: context ? { ...context, triggeredAt: new Date(context.triggeredAt) } : undefined,
         status: row.status
       };
 
@@ -203,38 +256,72 @@ export class TrackingSystem {
       await this.handleReactionAdd(reaction, user);
     });
 
+    // Track voice activity
+    this.discordClient.on('voiceStateUpdate', async (oldState: VoiceState, newState: VoiceState) => {
+      await this.handleVoiceStateUpdate(oldState, newState);
+    });
+
+    // Track role changes
+    this.discordClient.on('guildMemberUpdate', async (oldMember, newMember) => {
+      await this.handleMemberUpdate(oldMember, newMember);
+    });
+
     logger.info('Tracking event listeners setup');
   }
 
+  /**
+   * Find active sessions a Discord event belongs to
+   */
+  private findSessions(serverId: string, userId?: string, channelId?: string): TrackingSession[] {
+    return Array.from(this.activeSessions.values()).filter(s => {
+      if (s.status !== 'active' || s.serverId !== serverId) return false;
+
+      switch (s.targetType) {
+        case 'user': return !!userId && s.targetId === userId;
+        case 'channel': return !!channelId && s.targetId === channelId;
+        case 'server': return true;
+        default: return false;
+      }
+    });
+  }
+
   /**
    * Handle message create event
    */
   private async handleMessageCreate(message: Message): Promise<void> {
-    if (!message.guildId) return;
+    if (!message.guildId || message.author.bot) return;
 
-    // Find sessions tracking this user
-    const sessions = Array.from(this.activeSessions.values()).filter(s =>
-      s.serverId === message.guildId &&
-      s.targetType === 'user' &&
-      s.targetId === message.author.id &&
-      s.status === 'active'
-    );
+    const sessions = this.findSessions(message.guildId, message.author.id, message.channelId);
 
     for (const session of sessions) {
-      // Add message to collected data
-      session.collectedData.messages.push(message);
-      session.collectedData.messageCount++;
+      const data = session.collectedData;
+      const hasLinks = /https?:\/\//.test(message.content);
 
-      // Count links
-      if (/https?:\/\//.test(message.content)) {
-        session.collectedData.linkCount++;
+      // Add message to collected data
+      if (data.messages.length < MAX_STORED_MESSAGES) {
+        data.messages.push({
+          id: message.id,
+          channelId: message.channelId,
+          authorId: message.author.id,
+          content: message.content,
+          createdAt: message.createdAt.toISOString(),
+          hasLinks,
+          attachmentCount: message.attachments.size,
+          mentionCount: message.mentions.users.size
+        });
       }
 
-      // Update database
-      await this.updateSession(session);
+      data.messageCount++;
+      if (hasLinks) data.linkCount++;
+      data.attachmentCount += message.attachments.size;
+      data.mentionCount += message.mentions.users.size;
+
+      await this.afterUpdate(session);
 
-      // Check stop conditions
-      await this.checkStopConditions(session);
+      // collect.messages is a cap: "first 10 messages"
+      if (session.status === 'active' && session.collect.messages && data.messageCount >= session.collect.messages) {
+        await this.completeSession(session, 'completed');
+      }
     }
   }
 
@@ -243,93 +330,214 @@ export class TrackingSystem {
    */
   private async handleReactionAdd(reaction: MessageReaction, user: User): Promise<void> {
     const message = reaction.message;
-    if (!message.guildId) return;
+    if (!message.guildId || user.bot) return;
 
-    // Find sessions tracking this user
-    const sessions = Array.from(this.activeSessions.values()).filter(s =>
-      s.serverId === message.guildId &&
-      s.targetType === 'user' &&
-      s.targetId === user.id &&
-      s.status === 'active'
-    );
+    const sessions = this.findSessions(message.guildId, user.id, message.channelId)
+      .filter(s => s.collect.reactions);
 
     for (const session of sessions) {
       session.collectedData.reactionCount++;
-      await this.updateSession(session);
-      await this.checkStopConditions(session);
+      await this.afterUpdate(session);
+    }
+  }
+
+  /**
+   * Handle voice join/leave for voice activity collection
+   */
+  private async handleVoiceStateUpdate(oldState: VoiceState, newState: VoiceState): Promise<void> {
+    const userId = newState.member?.id || oldState.member?.id;
+    if (!userId) return;
+
+    const joined = !oldState.channelId && !!newState.channelId;
+    const left = !!oldState.channelId && !newState.channelId;
+    if (!joined && !left) return;
+
+    const channelId = newState.channelId || oldState.channelId || undefined;
+    const sessions = this.findSessions(newState.guild.id, userId, channelId)
+      .filter(s => s.collect.voiceActivity);
+
+    for (const session of sessions) {
+      const data = session.collectedData;
+
+      if (joined) {
+        data.voiceJoinedAt = new Date().toISOString();
+      } else if (data.voiceJoinedAt) {
+        data.voiceMinutes += (Date.now() - new Date(data.voiceJoinedAt).getTime()) / 60000;
+        data.voiceJoinedAt = undefined;
+      }
+
+      await this.afterUpdate(session);
+    }
+  }
+
+  /**
+   * Handle role changes
+   */
+  private async handleMemberUpdate(oldMember: GuildMember | PartialGuildMember, newMember: GuildMember): Promise<void> {
+    const added = newMember.roles.cache.filter(r => !oldMember.roles.cache.has(r.id)).map(r => r.id);
+    const removed = oldMember.roles.cache.filter(r => !newMember.roles.cache.has(r.id)).map(r => r.id);
+    if (added.length === 0 && removed.length === 0) return;
+
+    const sessions = this.findSessions(newMember.guild.id, newMember.id)
+      .filter(s => s.collect.roleChanges);
+
+    for (const session of sessions) {
+      session.collectedData.roleChanges.push({ added, removed, at: new Date().toISOString() });
+      await this.afterUpdate(session);
     }
   }
 
+  /**
+   * Persist an updated session and check its stop conditions
+   */
+  private async afterUpdate(session: TrackingSession): Promise<void> {
+    this.computeCustomData(session);
+    await this.updateSession(session);
+    await this.checkStopConditions(session);
+  }
+
   /**
    * Check if stop conditions are met
    */
   private async checkStopConditions(session: TrackingSession): Promise<void> {
     for (const condition of session.stopConditions) {
       if (this.evaluateCondition(condition, session)) {
-        await this.completeSession(session);
+        await this.completeSession(session, 'completed');
         return;
       }
     }
   }
 
   /**
-   * Evaluate a stop condition
+   * Evaluate a stop condition against the collected data
    */
   private evaluateCondition(condition: string, session: TrackingSession): boolean {
+    // "duration >= 30m" style conditions
+    const durationMatch = condition.match(/^\s*duration\s*>=\s*(\d+)([smhd])\s*$/);
+    if (durationMatch) {
+      const elapsed = Date.now() - session.startedAt.getTime();
+      return elapsed >= parseDuration(`${durationMatch[1]}${durationMatch[2]}`, 0);
+    }
+
+    return this.conditionEvaluator.evaluateVariables(condition, this.buildDataset(session));
+  }
+
+  /**
+   * Compute customData expressions, e.g. { linkCount: "${count(messages.links)}" }
+   */
+  private computeCustomData(session: TrackingSession): void {
+    const definitions = session.collect.customData;
+    if (!definitions) return;
+
     const data = session.collectedData;
+    const counts: Record<string, number> = {
+      'messages': data.messageCount,
+      'messages.links': data.linkCount,
+      'messages.attachments': data.attachmentCount,
+      'messages.mentions': data.mentionCount,
+      'reactions': data.reactionCount,
+      'roleChanges': data.roleChanges.length
+    };
 
-    // Simple condition evaluation
-    if (condition.includes('messageCount')) {
-      const match = condition.match(/messageCount\s*>=\s*(\d+)/);
-      if (match) {
-        const threshold = parseInt(match[1]);
-        return data.messageCount >= threshold;
-      }
-    }
+    for (const [key, definition] of Object.entries(definitions)) {
+      const expression = String(definition).replace(/^\$\{(.*)\}$/, '$1').trim();
+      const countMatch = expression.match(/^count\(([\w.]+)\)$/);
 
-    if (condition.includes('duration')) {
-      const elapsed = Date.now() - session.startedAt.getTime();
-      const match = condition.match(/duration\s*>=\s*(\d+)([smhd])/);
-      if (match) {
-        const value = parseInt(match[1]);
-        const unit = match[2];
-        const thresholdMs = this.parseDuration(`${value}${unit}`);
-        return elapsed >= thresholdMs;
+      try {
+        data.customData[key] = countMatch
+          ? counts[countMatch[1]] ?? 0
+          : this.conditionEvaluator.evaluateValue(expression, this.buildDataset(session, false));
+      } catch {
+        data.customData[key] = null;
       }
     }
+  }
 
-    return false;
+  /**
+   * Flat dataset handed to stop conditions and the behavior's analysis step
+   */
+  buildDataset(session: TrackingSession, includeCustom: boolean = true): Record<string, any> {
+    const data = session.collectedData;
+    const liveVoiceMinutes = data.voiceJoinedAt
+      ? (Date.now() - new Date(data.voiceJoinedAt).getTime()) / 60000
+      : 0;
+
+    return {
+      ...(includeCustom ? data.customData : {}),
+      messages: data.messages,
+      messageCount: data.messageCount,
+      linkCount: data.linkCount,
+      attachmentCount: data.attachmentCount,
+      mentionCount: data.mentionCount,
+      reactionCount: data.reactionCount,
+      voiceMinutes: Math.round((data.voiceMinutes + liveVoiceMinutes) * 10) / 10,
+      roleChanges: data.roleChanges,
+      roleChangeCount: data.roleChanges.length,
+      elapsedMinutes: Math.floor((Date.now() - session.startedAt.getTime()) / 60000),
+      targetType: session.targetType,
+      targetId: session.targetId,
+      trackingStatus: session.status
+    };
   }
 
   /**
-   * Complete a tracking session
+   * Complete, expire or stop a tracking session and deliver its data
    */
-  private async completeSession(session: TrackingSession): Promise<void> {
-    session.status = 'completed';
+  private async completeSession(session: TrackingSession, status: 'completed' | 'expired' | 'stopped'): Promise<void> {
+    if (session.status !== 'active') return;
+
+    // Close an open voice interval
+    const data = session.collectedData;
+    if (data.voiceJoinedAt) {
+      data.voiceMinutes += (Date.now() - new Date(data.voiceJoinedAt).getTime()) / 60000;
+      data.voiceJoinedAt = undefined;
+    }
+
+    this.computeCustomData(session);
+
+    session.status = status;
     session.completedAt = new Date();
 
     await this.updateSession(session);
     this.activeSessions.delete(session.id);
 
-    logger.info(`Tracking session ${session.id} completed`);
+    logger.info(`Tracking session ${session.id} ${status} (${data.messageCount} messages)`);
 
-    // TODO: Trigger analysis for this session
+    for (const handler of this.sessionEndHandlers) {
+      try {
+        await handler(session);
+      } catch (error) {
+        logger.error(`Session end handler failed for ${session.id}:`, error);
+      }
+    }
   }
 
   /**
-   * Stop tracking session manually
+   * Stop tracking session manually. The session is finalized like an expired
+   * one, so the waiting execution resumes with the data collected so far.
    */
   async stopTracking(sessionId: string, reason: string = 'Manual stop'): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
 
-    session.status = 'stopped';
-    session.completedAt = new Date();
+    logger.info(`Stopping tracking session ${sessionId}: ${reason}`);
 
-    await this.updateSession(session);
-    this.activeSessions.delete(sessionId);
+    await this.completeSession(session, 'stopped');
+  }
+
+  /**
+   * Stop all active sessions for a target (used by the stopTracking action)
+   */
+  async stopTrackingForTarget(serverId: string, targetId: string, reason: string = 'Stopped by action'): Promise<number> {
+    const sessions = Array.from(this.activeSessions.values()).filter(s =>
+      s.serverId === serverId && s.targetId === targetId && s.status === 'active'
+    );
+
+    for (const session of sessions) {
+      await this.stopTracking(session.id, reason);
+    }
 
-    logger.info(`Tracking session ${sessionId} stopped: ${reason}`);
+    return sessions.length;
   }
 
   /**
@@ -347,25 +555,6 @@ export class TrackingSystem {
     return session?.collectedData;
   }
 
-  /**
-   * Parse duration string to milliseconds
-   */
-  private parseDuration(duration: string): number {
-    const match = duration.match(/^(\d+)([smhd])$/);
-    if (!match) return 24 * 60 * 60 * 1000; // Default 24h
-
-    const value = parseInt(match[1]);
-    const unit = match[2];
-
-    switch (unit) {
-      case 's': return value * 1000;
-      case 'm': return value * 60 * 1000;
-      case 'h': return value * 60 * 60 * 1000;
-      case 'd': return value * 24 * 60 * 60 * 1000;
-      default: return 24 * 60 * 60 * 1000;
-    }
-  }
-
   /**
    * Resolve variables in strings
    */
@@ -375,6 +564,39 @@ export class TrackingSystem {
     });
   }
 
+  /**
+   * Empty collected data
+   */
+  private emptyData(): CollectedData {
+    return {
+      messages: [],
+      messageCount: 0,
+      linkCount: 0,
+      attachmentCount: 0,
+      mentionCount: 0,
+      reactionCount: 0,
+      voiceMinutes: 0,
+      roleChanges: [],
+      customData: {}
+    };
+  }
+
+  /**
+   * Keep only the serializable parts of the context (Discord objects are reduced
+   * to their ids; members keep their user's id and name for the resumed actions)
+   */
+  private serializeContext(context: ExecutionContext): ExecutionContext {
+    return {
+      serverId: context.serverId,
+      triggeredBy: context.triggeredBy,
+      triggeredChannelId: context.triggeredChannelId,
+      triggeredMessageId: context.triggeredMessageId,
+      triggeredAt: context.triggeredAt,
+      event: context.event,
+      eventData: toPlainData(context.eventData) || {}
+    };
+  }
+
   /**
    * Start expiration check job
    */
@@ -382,15 +604,9 @@ export class TrackingSystem {
     setInterval(async () => {
       const now = Date.now();
 
-      for (const [id, session] of this.activeSessions.entries()) {
+      for (const session of Array.from(this.activeSessions.values())) {
         if (now >= session.expiresAt.getTime()) {
-          session.status = 'expired';
-          session.completedAt = new Date();
-
-          await this.updateSession(session);
-          this.activeSessions.delete(id);
-
-          logger.info(`Tracking session ${id} expired`);
+          await this.completeSession(session, 'expired');
         }
       }
     }, 60000); // Check every minute
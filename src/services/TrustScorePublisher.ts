@@ -0,0 +1,274 @@
+import { blockchainService } from './BlockchainService';
+import { DatabaseService, getDatabaseService } from '../database/DatabaseService';
+import { MerkleTree, TrustScoreLeaf } from '../utils/MerkleTree';
+import { ENV } from '../config/environment';
+import { createLogger } from './Logger';
+
+const logger = createLogger('TrustScorePublisher');
+
+const MAX_CACHED_TREES = 5;
+
+interface PendingScore {
+  score: number;
+  riskScore: number;
+  violations: number;
+}
+
+export interface TrustScoreProof {
+  discordId: string;
+  userHash: string;
+  score: number;
+  riskScore: number;
+  violations: number;
+  epoch: number;
+  leaf: string;
+  root: string;
+  proof: string[];
+  txHash: string | null;
+  contractAddress: string;
+}
+
+/**
+ * TrustScorePublisher - Batched, Merkle-committed trust score publishing
+ *
+ * Instead of one transaction per score change, changes are accumulated and
+ * published periodically as a single Merkle root per epoch
+ * (BecasTrustScore.publishScoreRoot). Only the latest change per user in a
+ * batch is kept.
+ *
+ * Leaves are (userHash, score, riskScore, violations, epoch) and are stored
+ * in trust_score_leaves, so getProof() can serve an inclusion proof that
+ * anyone can check with BecasTrustScore.verifyScore or MerkleTree.verify.
+ * A user's current published score is the leaf in the latest epoch that
+ * contains them.
+ */
+export class TrustScorePublisher {
+  private pending: Map<string, PendingScore> = new Map(); // discordId -> latest score
+  private trees: Map<number, MerkleTree> = new Map(); // epoch -> tree (recent epochs)
+  private timer?: NodeJS.Timeout;
+  private flushing = false;
+  private db: DatabaseService | null = null;
+
+  /**
+   * Queue a score change for the next batch
+   */
+  enqueue(discordId: string, score: number, riskScore: number, violations: number): void {
+    if (!blockchainService.isEnabled()) return;
+
+    this.pending.set(discordId, {
+      score: Math.round(score),
+      riskScore: Math.round(riskScore),
+      violations
+    });
+
+    if (this.pending.size >= ENV.TRUST_BATCH_MAX_SIZE) {
+      this.flush().catch(error => logger.error('Trust score batch flush failed:', error));
+    }
+  }
+
+  /**
+   * Publish pending changes every intervalMs
+   */
+  start(intervalMs: number = ENV.TRUST_BATCH_INTERVAL): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.flush().catch(error => logger.error('Trust score batch flush failed:', error));
+    }, intervalMs);
+
+    logger.info(`Trust score batching every ${Math.round(intervalMs / 60000)} min (max ${ENV.TRUST_BATCH_MAX_SIZE} per batch)`);
+  }
+
+  /**
+   * Stop the timer and publish whatever is pending
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    await this.flush();
+  }
+
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Build a Merkle tree of the pending changes and commit its root on-chain.
+   * Returns the published epoch, or null if nothing was published.
+   */
+  async flush(): Promise<number | null> {
+    if (this.flushing || this.pending.size === 0 || !blockchainService.isEnabled()) return null;
+    this.flushing = true;
+
+    const batch = this.pending;
+    this.pending = new Map();
+
+    try {
+      const db = this.getDb();
+      const epoch = await this.nextEpoch(db);
+
+      const leaves: Array<TrustScoreLeaf & { discordId: string }> = [...batch.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([discordId, s]) => ({
+          discordId,
+          userHash: blockchainService.hashUserId(discordId),
+          score: s.score,
+          riskScore: s.riskScore,
+          violations: s.violations,
+          epoch
+        }));
+
+      const tree = new MerkleTree(leaves.map(leaf => MerkleTree.hashTrustScore(leaf)));
+
+      await db.query(
+        `INSERT INTO trust_score_batches (epoch, merkle_root, leaf_count) VALUES ($1, $2, $3)`,
+        [epoch, tree.root, tree.leafCount]
+      );
+      await db.query(
+        `INSERT INTO trust_score_leaves (epoch, leaf_index, discord_id, user_hash, score, risk_score, violations)
+         SELECT $1, * FROM unnest($2::int[], $3::text[], $4::text[], $5::int[], $6::int[], $7::int[])`,
+        [
+          epoch,
+          leaves.map((_, i) => i),
+          leaves.map(l => l.discordId),
+          leaves.map(l => l.userHash),
+          leaves.map(l => l.score),
+          leaves.map(l => l.riskScore),
+          leaves.map(l => l.violations)
+        ]
+      );
+
+      const txHash = await blockchainService.publishScoreRoot(epoch, tree.root, tree.leafCount);
+
+      if (!txHash) {
+        await db.query(`UPDATE trust_score_batches SET status = 'failed' WHERE epoch = $1`, [epoch]);
+        this.requeue(batch);
+        logger.warn(`Trust score batch ${epoch} failed to publish - ${batch.size} score(s) re-queued`);
+        return null;
+      }
+
+      await db.query(
+        `UPDATE trust_score_batches SET status = 'published', tx_hash = $2, published_at = NOW() WHERE epoch = $1`,
+        [epoch, txHash]
+      );
+
+      this.cacheTree(epoch, tree);
+      logger.info(`⛓️  Published ${tree.leafCount} trust score(s) as epoch ${epoch}: ${tree.root}`);
+
+      return epoch;
+    } catch (error) {
+      this.requeue(batch);
+      throw error;
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Inclusion proof for a user's latest published score (null if never published)
+   */
+  async getProof(discordId: string): Promise<TrustScoreProof | null> {
+    const db = this.getDb();
+
+    const row = await db.queryOne(
+      `SELECT l.*, b.merkle_root, b.tx_hash
+       FROM trust_score_leaves l
+       JOIN trust_score_batches b ON b.epoch = l.epoch
+       WHERE l.discord_id = $1 AND b.status = 'published'
+       ORDER BY l.epoch DESC
+       LIMIT 1`,
+      [discordId]
+    );
+    if (!row) return null;
+
+    const epoch = row.epoch;
+    const tree = await this.loadTree(db, epoch);
+
+    if (tree.root !== row.merkle_root) {
+      logger.error(`Rebuilt tree for epoch ${epoch} does not match stored root`);
+      return null;
+    }
+
+    const leaf = MerkleTree.hashTrustScore({
+      userHash: row.user_hash,
+      score: row.score,
+      riskScore: row.risk_score,
+      violations: row.violations,
+      epoch
+    });
+
+    return {
+      discordId,
+      userHash: row.user_hash,
+      score: row.score,
+      riskScore: row.risk_score,
+      violations: row.violations,
+      epoch,
+      leaf,
+      root: row.merkle_root,
+      proof: tree.getProof(row.leaf_index),
+      txHash: row.tx_hash,
+      contractAddress: blockchainService.getContractAddress()
+    };
+  }
+
+  /**
+   * Next epoch: after both the on-chain latest and any batch we recorded
+   */
+  private async nextEpoch(db: DatabaseService): Promise<number> {
+    const onChain = (await blockchainService.getLatestEpoch()) ?? 0;
+    const stored = await db.queryOne(`SELECT COALESCE(MAX(epoch), 0) AS max FROM trust_score_batches`);
+
+    return Math.max(onChain, parseInt(stored?.max) || 0) + 1;
+  }
+
+  private async loadTree(db: DatabaseService, epoch: number): Promise<MerkleTree> {
+    const cached = this.trees.get(epoch);
+    if (cached) return cached;
+
+    const rows = await db.queryMany(
+      `SELECT user_hash, score, risk_score, violations FROM trust_score_leaves WHERE epoch = $1 ORDER BY leaf_index`,
+      [epoch]
+    );
+
+    const tree = new MerkleTree(rows.map(r => MerkleTree.hashTrustScore({
+      userHash: r.user_hash,
+      score: r.score,
+      riskScore: r.risk_score,
+      violations: r.violations,
+      epoch
+    })));
+
+    this.cacheTree(epoch, tree);
+    return tree;
+  }
+
+  private cacheTree(epoch: number, tree: MerkleTree): void {
+    this.trees.set(epoch, tree);
+    if (this.trees.size > MAX_CACHED_TREES) {
+      this.trees.delete(Math.min(...this.trees.keys()));
+    }
+  }
+
+  /**
+   * Put a failed batch back, without overwriting newer changes queued meanwhile
+   */
+  private requeue(batch: Map<string, PendingScore>): void {
+    for (const [discordId, score] of batch) {
+      if (!this.pending.has(discordId)) this.pending.set(discordId, score);
+    }
+  }
+
+  private getDb(): DatabaseService {
+    if (!this.db) {
+      this.db = getDatabaseService();
+    }
+    return this.db;
+  }
+}
+
+// Singleton instance
+export const trustScorePublisher = new TrustScorePublisher();
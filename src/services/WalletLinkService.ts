@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import { ethers } from 'ethers';
+import { ENV } from '../config/environment';
+import { blockchainService } from './BlockchainService';
+import { getSupabaseClient } from '../database/SupabaseClient';
+import { createLogger } from './Logger';
+
+const logger = createLogger('WalletLinkService');
+
+const CHALLENGE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_FAILED_ATTEMPTS = 5;
+const CHAIN_ID = 84532; // Base Sepolia
+
+export interface WalletLinkChallenge {
+  nonce: string;
+  discordId: string;
+  username: string;
+  address: string; // Checksummed
+  message: string;
+  issuedAt: Date;
+  expiresAt: Date;
+  failedAttempts: number;
+  onLinked?: (result: WalletLinkResult) => Promise<void>;
+}
+
+export interface WalletLinkResult {
+  discordId: string;
+  address: string;
+  txHash: string | null;
+}
+
+export class WalletLinkError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WalletLinkError';
+  }
+}
+
+/**
+ * WalletLinkService - Proves wallet ownership before linking it to a Discord account
+ *
+ * 1. /linkwallet creates a challenge: an EIP-4361 (Sign-In with Ethereum)
+ *    style message bound to the Discord user, wallet, a random nonce and an
+ *    expiry time
+ * 2. The user signs it with their wallet (EIP-191 personal_sign) on the
+ *    /linkwallet page served by the dashboard API
+ * 3. The wallet is only linked if the signature recovers to the claimed
+ *    address. Each nonce can be used once; unknown, used and expired nonces
+ *    are rejected.
+ *
+ * Challenges live in memory: a restart simply invalidates pending ones.
+ */
+export class WalletLinkService {
+  private challenges: Map<string, WalletLinkChallenge> = new Map(); // nonce -> challenge
+
+  /**
+   * Create a challenge for a Discord user to prove they own a wallet.
+   * Replaces any pending challenge of the same user.
+   */
+  createChallenge(
+    discordId: string,
+    username: string,
+    walletAddress: string,
+    onLinked?: (result: WalletLinkResult) => Promise<void>
+  ): WalletLinkChallenge {
+    if (!ethers.isAddress(walletAddress)) {
+      throw new WalletLinkError('Invalid wallet address');
+    }
+
+    this.pruneExpired();
+    for (const [nonce, pending] of this.challenges) {
+      if (pending.discordId === discordId) this.challenges.delete(nonce);
+    }
+
+    const address = ethers.getAddress(walletAddress.toLowerCase());
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + CHALLENGE_TTL_MS);
+
+    const challenge: WalletLinkChallenge = {
+      nonce,
+      discordId,
+      username,
+      address,
+      message: this.buildMessage(discordId, username, address, nonce, issuedAt, expiresAt),
+      issuedAt,
+      expiresAt,
+      failedAttempts: 0,
+      onLinked
+    };
+
+    this.challenges.set(nonce, challenge);
+    logger.info(`Wallet link challenge issued for ${discordId} (${address})`);
+
+    return challenge;
+  }
+
+  /**
+   * Pending challenge by nonce (null if unknown, used or expired)
+   */
+  getChallenge(nonce: string): WalletLinkChallenge | null {
+    const challenge = this.challenges.get(nonce);
+    if (!challenge) return null;
+
+    if (challenge.expiresAt.getTime() < Date.now()) {
+      this.challenges.delete(nonce);
+      return null;
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Page where the user signs the challenge
+   */
+  getSigningUrl(challenge: WalletLinkChallenge): string {
+    return `${ENV.PUBLIC_DASHBOARD_URL}/linkwallet?nonce=${challenge.nonce}`;
+  }
+
+  /**
+   * Verify a signed challenge and link the wallet
+   */
+  async verifyAndLink(nonce: string, signature: string): Promise<WalletLinkResult> {
+    const challenge = this.getChallenge(nonce);
+    if (!challenge) {
+      throw new WalletLinkError('Challenge not found, already used or expired. Run /linkwallet again.', 410);
+    }
+
+    let recovered: string;
+    try {
+      recovered = ethers.verifyMessage(challenge.message, signature);
+    } catch (error) {
+      this.recordFailure(challenge);
+      throw new WalletLinkError('Malformed signature');
+    }
+
+    if (recovered !== challenge.address) {
+      this.recordFailure(challenge);
+      logger.warn(`Wallet link signature for ${challenge.discordId} recovered ${recovered}, expected ${challenge.address}`);
+      throw new WalletLinkError('Signature was not made by the claimed wallet', 401);
+    }
+
+    // Consume the nonce before doing anything else - a signature works once
+    this.challenges.delete(nonce);
+
+    const supabase = getSupabaseClient();
+    const address = challenge.address.toLowerCase();
+
+    const { data: existing, error: lookupError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('wallet_address', address)
+      .neq('id', challenge.discordId)
+      .limit(1);
+
+    if (lookupError) {
+      logger.error('Failed to check existing wallet links:', lookupError);
+      throw new WalletLinkError('Failed to link wallet to database', 500);
+    }
+    if (existing && existing.length > 0) {
+      throw new WalletLinkError('This wallet is already linked to another account. Unlink it there first.', 409);
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('users')
+      .select('wallet_address')
+      .eq('id', challenge.discordId)
+      .maybeSingle();
+
+    if (currentError) {
+      logger.error('Failed to look up current wallet link:', currentError);
+      throw new WalletLinkError('Failed to link wallet to database', 500);
+    }
+
+    const previousAddress: string | null = current?.wallet_address || null;
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        wallet_address: address,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', challenge.discordId);
+
+    if (error) {
+      logger.error('Failed to update wallet in database:', error);
+      throw new WalletLinkError('Failed to link wallet to database', 500);
+    }
+
+    let txHash: string | null = null;
+    if (blockchainService.isEnabled()) {
+      // Re-linking: the old wallet must stop resolving to this user on-chain
+      if (previousAddress && previousAddress !== address) {
+        await blockchainService.unlinkWallet(previousAddress);
+      }
+
+      // Don't fail the link - the database is the source of truth
+      txHash = await blockchainService.linkWallet(challenge.discordId, challenge.address);
+    }
+
+    const result: WalletLinkResult = { discordId: challenge.discordId, address: challenge.address, txHash };
+    logger.info(`✅ Wallet ${challenge.address} verified and linked to ${challenge.discordId}`);
+
+    if (challenge.onLinked) {
+      await challenge.onLinked(result).catch(err => logger.warn('Wallet link callback failed:', err));
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove a user's wallet link. Returns the unlinked address (null if none).
+   */
+  async unlink(discordId: string): Promise<{ address: string; txHash: string | null } | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error: lookupError } = await supabase
+      .from('users')
+      .select('wallet_address')
+      .eq('id', discordId)
+      .maybeSingle();
+
+    if (lookupError) {
+      logger.error('Failed to look up wallet link:', lookupError);
+      throw new WalletLinkError('Failed to read wallet link', 500);
+    }
+
+    const address: string | null = data?.wallet_address || null;
+    if (!address) return null;
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        wallet_address: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', discordId);
+
+    if (error) {
+      logger.error('Failed to remove wallet from database:', error);
+      throw new WalletLinkError('Failed to unlink wallet', 500);
+    }
+
+    let txHash: string | null = null;
+    if (blockchainService.isEnabled()) {
+      txHash = await blockchainService.unlinkWallet(address);
+    }
+
+    logger.info(`Wallet ${address} unlinked from ${discordId}`);
+    return { address, txHash };
+  }
+
+  /**
+   * EIP-4361 style message. Binding the Discord ID, wallet, nonce and expiry
+   * means a signature can't be reused for another account or after expiry.
+   */
+  private buildMessage(
+    discordId: string,
+    username: string,
+    address: string,
+    nonce: string,
+    issuedAt: Date,
+    expiresAt: Date
+  ): string {
+    const url = new URL(ENV.PUBLIC_DASHBOARD_URL);
+
+    return [
+      `${url.host} wants you to sign in with your Ethereum account:`,
+      address,
+      '',
+      `Link this wallet to Discord user ${username} (${discordId}) on Becas. This does not send a transaction or cost gas.`,
+      '',
+      `URI: ${url.origin}/linkwallet`,
+      'Version: 1',
+      `Chain ID: ${CHAIN_ID}`,
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`
+    ].join('\n');
+  }
+
+  private recordFailure(challenge: WalletLinkChallenge): void {
+    challenge.failedAttempts++;
+    if (challenge.failedAttempts >= MAX_FAILED_ATTEMPTS) {
+      this.challenges.delete(challenge.nonce);
+      logger.warn(`Wallet link challenge for ${challenge.discordId} dropped after ${MAX_FAILED_ATTEMPTS} failed attempts`);
+    }
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now();
+    for (const [nonce, challenge] of this.challenges) {
+      if (challenge.expiresAt.getTime() < now) this.challenges.delete(nonce);
+    }
+  }
+}
+
+// Singleton instance
+export const walletLinkService = new WalletLinkService();
@@ -1,6 +1,7 @@
 // AIJurySystem.ts - Multi-model consensus for critical decisions
 
 import { OllamaService } from '../services/OllamaService';
+import { inferenceScheduler } from '../services/InferenceScheduler';
 
 export interface JuryVerdict {
   decision: 'ban' | 'timeout' | 'warn' | 'no_action';
@@ -54,11 +55,12 @@ Respond with:
   "reasoning": string
 }`;
 
-        const result = await ollama.generateJSON<{
+        // Jury votes are moderation decisions - schedule them with policy matching, not chat
+        const result = await inferenceScheduler.withPriority('policy', () => ollama.generateJSON<{
           decision: string;
           confidence: number;
           reasoning: string;
-        }>(prompt, systemPrompt, schema);
+        }>(prompt, systemPrompt, schema));
 
         votes.push({
           model,
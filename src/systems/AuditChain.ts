@@ -0,0 +1,535 @@
+// AuditChain.ts - Append-only, hash-chained audit log
+// Every event carries the hash of its predecessor, so edits, deletions and
+// gaps are detectable. The chain head is periodically signed (checkpoints)
+// and can optionally be anchored on-chain. Retention prunes whole segments
+// from the start of the chain; a signed prune marker says where it now starts.
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { ENV } from '../config/environment';
+import { canonicalize } from '../utils/canonicalJson';
+import { csvCell } from '../utils/csv';
+import { FederationIdentity } from '../federation/FederationIdentity';
+import { blockchainService } from '../services/BlockchainService';
+import { createLogger } from '../services/Logger';
+import type { AuditEvent } from './AuditLogger';
+
+const logger = createLogger('AuditChain');
+
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_REPORTED_ERRORS = 100;
+
+export interface AuditRecord {
+  seq: number;
+  prevHash: string;
+  hash: string;
+  event: AuditEvent;
+}
+
+export interface AuditCheckpoint {
+  seq: number;
+  hash: string;
+  createdAt: string;
+  instanceId: string;
+  publicKey?: string; // Signing key (absent on checkpoints from before it was recorded)
+  signature: string;
+  anchorTx?: string;
+}
+
+export interface AuditPrune {
+  seq: number; // Last pruned record; the chain now starts at seq + 1
+  hash: string;
+  prunedAt: string;
+  segments: string[];
+  instanceId: string;
+  publicKey?: string;
+  signature: string;
+}
+
+export interface AuditPruneResult {
+  records: number; // Pruned (or, in a dry run, would be)
+  kept: number; // Old enough, but kept because an event was vetoed
+  segments: string[];
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  records: number;
+  headHash: string;
+  checkpointsVerified: number;
+  lastCheckpoint?: AuditCheckpoint;
+  prunedThrough?: number; // Records up to this seq were pruned by retention
+  signers: string[]; // Instance IDs whose keys signed the checkpoints and prune markers
+  errors: Array<{ seq?: number; file?: string; line?: number; problem: string }>;
+}
+
+export type AuditExportFormat = 'jsonl' | 'csv';
+
+const CSV_COLUMNS = [
+  'seq', 'timestamp', 'type', 'action', 'success',
+  'actorId', 'actorName', 'actorType', 'targetId', 'targetName',
+  'channelId', 'messageId', 'aiConfidence', 'aiReasoning', 'error', 'details',
+  'prevHash', 'hash',
+];
+
+export class AuditChain {
+  private dir: string;
+  private checkpointFile: string;
+  private pruneFile: string;
+  private headSeq = 0;
+  private headHash = GENESIS_HASH;
+  private lastCheckpointSeq = 0;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private ready: Promise<void>;
+  private identity?: FederationIdentity;
+  private checkpointTimer?: NodeJS.Timeout;
+
+  private trustedInstanceIds: string[]; // Earlier keys of this instance, besides its current identity
+
+  constructor(
+    dir: string = path.join(ENV.DATA_DIR, 'audit', 'chain'),
+    trustedInstanceIds: string[] = ENV.AUDIT_TRUSTED_INSTANCE_IDS.split(',').map(id => id.trim()).filter(Boolean)
+  ) {
+    this.dir = dir;
+    this.trustedInstanceIds = trustedInstanceIds;
+    this.checkpointFile = path.join(dir, 'checkpoints.jsonl');
+    this.pruneFile = path.join(dir, 'prunes.jsonl');
+    this.ready = this.restoreHead();
+  }
+
+  /**
+   * Hash of a record: SHA-256 over the canonical JSON of seq, prevHash and event
+   */
+  static hashRecord(seq: number, prevHash: string, event: AuditEvent): string {
+    return crypto
+      .createHash('sha256')
+      .update(canonicalize({ seq, prevHash, event }))
+      .digest('hex');
+  }
+
+  /**
+   * Append an event to the chain (writes are serialized)
+   */
+  append(event: AuditEvent): Promise<AuditRecord> {
+    const write = this.writeQueue.then(async () => {
+      await this.ready;
+
+      const storedEvent = JSON.parse(JSON.stringify(event)) as AuditEvent;
+      const seq = this.headSeq + 1;
+      const record: AuditRecord = {
+        seq,
+        prevHash: this.headHash,
+        hash: AuditChain.hashRecord(seq, this.headHash, storedEvent),
+        event: storedEvent,
+      };
+
+      await fs.promises.appendFile(this.segmentFor(new Date()), JSON.stringify(record) + '\n');
+
+      this.headSeq = seq;
+      this.headHash = record.hash;
+      return record;
+    });
+
+    this.writeQueue = write.catch(error => logger.error('Failed to append audit record:', error));
+    return write;
+  }
+
+  getHead(): { seq: number; hash: string } {
+    return { seq: this.headSeq, hash: this.headHash };
+  }
+
+  /**
+   * Sign the current chain head (and anchor it on-chain if enabled).
+   * Returns null if nothing was appended since the last checkpoint.
+   */
+  async checkpoint(): Promise<AuditCheckpoint | null> {
+    await this.ready;
+    await this.writeQueue;
+
+    if (this.headSeq === 0 || this.headSeq === this.lastCheckpointSeq) return null;
+
+    const identity = this.getIdentity();
+    const unsigned = {
+      seq: this.headSeq,
+      hash: this.headHash,
+      createdAt: new Date().toISOString(),
+      instanceId: identity.instanceId,
+      publicKey: identity.publicKey,
+    };
+
+    const checkpoint: AuditCheckpoint = {
+      ...unsigned,
+      signature: identity.sign(canonicalize(unsigned)),
+    };
+
+    if (ENV.AUDIT_ANCHOR_CHECKPOINTS && blockchainService.isEnabled()) {
+      checkpoint.anchorTx = (await blockchainService.anchorHash(checkpoint.hash)) || undefined;
+    }
+
+    await fs.promises.appendFile(this.checkpointFile, JSON.stringify(checkpoint) + '\n');
+    this.lastCheckpointSeq = checkpoint.seq;
+
+    logger.info(`🔏 Audit checkpoint #${checkpoint.seq} ${checkpoint.hash.slice(0, 16)}…${checkpoint.anchorTx ? ` (anchored ${checkpoint.anchorTx})` : ''}`);
+    return checkpoint;
+  }
+
+  /**
+   * Checkpoint periodically
+   */
+  startCheckpoints(intervalMs: number = ENV.AUDIT_CHECKPOINT_INTERVAL): void {
+    if (this.checkpointTimer) return;
+
+    this.checkpointTimer = setInterval(() => {
+      this.checkpoint().catch(error => logger.error('Audit checkpoint failed:', error));
+    }, intervalMs);
+  }
+
+  async getCheckpoints(): Promise<AuditCheckpoint[]> {
+    const checkpoints: AuditCheckpoint[] = [];
+    for await (const { value } of this.readLines(this.checkpointFile)) {
+      if (value) checkpoints.push(value);
+    }
+    return checkpoints;
+  }
+
+  async getPrunes(): Promise<AuditPrune[]> {
+    const prunes: AuditPrune[] = [];
+    for await (const { value } of this.readLines(this.pruneFile)) {
+      if (value) prunes.push(value);
+    }
+    return prunes;
+  }
+
+  /**
+   * Delete monthly segments whose events are all older than the cutoff. The
+   * newest segment is never pruned, and pruning stops at the first segment
+   * that is too new or has an event `keep` vetoes, so what remains is always
+   * an unbroken suffix of the chain.
+   */
+  async prune(
+    cutoff: Date,
+    options: { keep?: (event: AuditEvent) => boolean; dryRun?: boolean } = {}
+  ): Promise<AuditPruneResult> {
+    await this.ready;
+    await this.writeQueue;
+
+    const result: AuditPruneResult = { records: 0, kept: 0, segments: [] };
+    let last: AuditRecord | null = null;
+    let blocked = false;
+
+    for (const file of (await this.segments()).slice(0, -1)) {
+      const records: AuditRecord[] = [];
+      for await (const { value } of this.readLines(file)) {
+        if (value) records.push(value);
+      }
+
+      const newest = records[records.length - 1];
+      if (newest && new Date(newest.event.timestamp) >= cutoff) break;
+
+      blocked = blocked || records.some(r => options.keep?.(r.event));
+      if (blocked) {
+        // Everything from here on stays until the veto is lifted
+        result.kept += records.length;
+        continue;
+      }
+
+      result.records += records.length;
+      result.segments.push(path.basename(file));
+      last = newest || last;
+    }
+
+    if (options.dryRun || !last) return result;
+
+    // Marker first: if the process dies mid-prune, verify() skips the leftovers
+    const identity = this.getIdentity();
+    const unsigned = {
+      seq: last.seq,
+      hash: last.hash,
+      prunedAt: new Date().toISOString(),
+      segments: result.segments,
+      instanceId: identity.instanceId,
+      publicKey: identity.publicKey,
+    };
+    const prune: AuditPrune = { ...unsigned, signature: identity.sign(canonicalize(unsigned)) };
+    await fs.promises.appendFile(this.pruneFile, JSON.stringify(prune) + '\n');
+
+    for (const segment of result.segments) {
+      await fs.promises.unlink(path.join(this.dir, segment));
+    }
+
+    logger.info(`🗑️ Pruned audit chain through #${last.seq} (${result.records} records, ${result.segments.length} segment(s))`);
+    return result;
+  }
+
+  /**
+   * Walk the whole chain: recompute every hash, check sequence numbers and
+   * links, and check every checkpoint's signature and that it matches the chain.
+   * Only this instance's current key and its earlier keys listed in
+   * AUDIT_TRUSTED_INSTANCE_IDS are accepted, so checkpoints survive a key
+   * rotation but a chain re-signed with any other key does not verify. The
+   * signing instances are listed in `signers`.
+   * A pruned chain is walked from its last signed prune marker.
+   */
+  async verify(): Promise<AuditVerification> {
+    await this.ready;
+    await this.writeQueue;
+
+    const errors: AuditVerification['errors'] = [];
+    const report = (error: AuditVerification['errors'][number]) => {
+      if (errors.length < MAX_REPORTED_ERRORS) errors.push(error);
+    };
+
+    const checkpoints = await this.getCheckpoints();
+    const checkpointsBySeq = new Map(checkpoints.map(c => [c.seq, c]));
+    const signers = new Set<string>();
+    let checkpointsVerified = 0;
+
+    for (const checkpoint of checkpoints) {
+      const { signature, anchorTx, ...unsigned } = checkpoint;
+      const problem = this.checkSignature(unsigned, signature, signers);
+      if (problem) report({ seq: checkpoint.seq, problem: `checkpoint ${problem}` });
+    }
+
+    const prunes = await this.getPrunes();
+    for (const prune of prunes) {
+      const { signature, ...unsigned } = prune;
+      const problem = this.checkSignature(unsigned, signature, signers);
+      if (problem) report({ seq: prune.seq, problem: `prune marker ${problem}` });
+    }
+    const lastPrune = prunes[prunes.length - 1];
+
+    let expectedSeq = lastPrune ? lastPrune.seq + 1 : 1;
+    let prevHash = lastPrune ? lastPrune.hash : GENESIS_HASH;
+    let records = 0;
+
+    for (const file of await this.segments()) {
+      for await (const { value, line, raw } of this.readLines(file)) {
+        if (!value) {
+          report({ file: path.basename(file), line, problem: `unparseable record: ${raw.slice(0, 80)}` });
+          continue;
+        }
+
+        const record = value as AuditRecord;
+        if (lastPrune && record.seq <= lastPrune.seq) continue; // Left over from an interrupted prune
+        records++;
+
+        if (record.seq !== expectedSeq) {
+          const missing = record.seq - 1 > expectedSeq ? `${expectedSeq}-${record.seq - 1}` : `${expectedSeq}`;
+          report({ seq: record.seq, problem: record.seq > expectedSeq
+            ? `gap: record(s) ${missing} missing`
+            : `out of order (expected ${expectedSeq})` });
+        }
+        if (record.prevHash !== prevHash) {
+          report({ seq: record.seq, problem: 'prevHash does not match previous record' });
+        }
+        if (AuditChain.hashRecord(record.seq, record.prevHash, record.event) !== record.hash) {
+          report({ seq: record.seq, problem: 'hash mismatch - record was modified' });
+        }
+
+        const checkpoint = checkpointsBySeq.get(record.seq);
+        if (checkpoint) {
+          if (checkpoint.hash === record.hash) {
+            checkpointsVerified++;
+          } else {
+            report({ seq: record.seq, problem: 'record does not match signed checkpoint' });
+          }
+        }
+
+        expectedSeq = record.seq + 1;
+        prevHash = record.hash;
+      }
+    }
+
+    const lastCheckpoint = checkpoints[checkpoints.length - 1];
+    if (lastCheckpoint && lastCheckpoint.seq >= expectedSeq) {
+      report({ seq: lastCheckpoint.seq, problem: `chain truncated: checkpoint covers ${lastCheckpoint.seq} records, log ends at ${expectedSeq - 1}` });
+    }
+
+    const result: AuditVerification = {
+      valid: errors.length === 0,
+      records,
+      headHash: prevHash,
+      checkpointsVerified,
+      lastCheckpoint,
+      prunedThrough: lastPrune?.seq,
+      signers: [...signers],
+      errors,
+    };
+
+    if (!result.valid) {
+      logger.warn(`⚠️ Audit chain verification failed: ${errors.length} problem(s)`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Export a guild's records as JSONL (full records, hashes included) or CSV
+   */
+  async *exportGuild(
+    guildId: string,
+    format: AuditExportFormat = 'jsonl',
+    range: { from?: Date; to?: Date } = {}
+  ): AsyncGenerator<string> {
+    await this.ready;
+    await this.writeQueue;
+
+    if (format === 'csv') {
+      yield CSV_COLUMNS.join(',') + '\n';
+    }
+
+    for (const file of await this.segments()) {
+      for await (const { value } of this.readLines(file)) {
+        const record = value as AuditRecord | null;
+        if (!record || record.event?.guildId !== guildId) continue;
+
+        const timestamp = new Date(record.event.timestamp);
+        if (range.from && timestamp < range.from) continue;
+        if (range.to && timestamp > range.to) continue;
+
+        yield format === 'csv' ? this.toCsvRow(record) : JSON.stringify(record) + '\n';
+      }
+    }
+  }
+
+  /**
+   * Most recent events (for warming the in-memory cache)
+   */
+  async readRecent(limit: number): Promise<AuditEvent[]> {
+    await this.ready;
+
+    const events: AuditEvent[] = [];
+    for (const file of (await this.segments()).reverse()) {
+      const segment: AuditEvent[] = [];
+      for await (const { value } of this.readLines(file)) {
+        if (value?.event) segment.push(value.event);
+      }
+      events.unshift(...segment.slice(-(limit - events.length)));
+      if (events.length >= limit) break;
+    }
+
+    return events;
+  }
+
+  /**
+   * Find the chain head (last record of the newest segment) and last checkpoint
+   */
+  private async restoreHead(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    const segments = await this.segments();
+    for (const file of segments.reverse()) {
+      let last: AuditRecord | null = null;
+      for await (const { value } of this.readLines(file)) {
+        if (value) last = value;
+      }
+      if (last) {
+        this.headSeq = last.seq;
+        this.headHash = last.hash;
+        break;
+      }
+    }
+
+    const checkpoints = await this.getCheckpoints();
+    this.lastCheckpointSeq = checkpoints[checkpoints.length - 1]?.seq || 0;
+
+    if (this.headSeq > 0) {
+      logger.info(`📋 Audit chain head #${this.headSeq} ${this.headHash.slice(0, 16)}…`);
+    }
+  }
+
+  /**
+   * Segment files, oldest first (one per month: audit-YYYY-MM.jsonl)
+   */
+  private async segments(): Promise<string[]> {
+    const files = await fs.promises.readdir(this.dir).catch(() => [] as string[]);
+    return files
+      .filter(f => /^audit-\d{4}-\d{2}\.jsonl$/.test(f))
+      .sort()
+      .map(f => path.join(this.dir, f));
+  }
+
+  private segmentFor(date: Date): string {
+    // Segment by write time (not event time) so file order always follows chain order
+    return path.join(this.dir, `audit-${date.toISOString().slice(0, 7)}.jsonl`);
+  }
+
+  private async *readLines(file: string): AsyncGenerator<{ value: any; line: number; raw: string }> {
+    if (!fs.existsSync(file)) return;
+
+    const rl = readline.createInterface({ input: fs.createReadStream(file, 'utf-8'), crlfDelay: Infinity });
+    let line = 0;
+
+    for await (const raw of rl) {
+      line++;
+      if (!raw.trim()) continue;
+
+      let value: any = null;
+      try {
+        value = JSON.parse(raw);
+      } catch (error) {
+        // Reported by verify()
+      }
+      yield { value, line, raw };
+    }
+  }
+
+  private toCsvRow(record: AuditRecord): string {
+    const e = record.event;
+    const values: any[] = [
+      record.seq, e.timestamp, e.type, e.action, e.success,
+      e.actorId, e.actorName, e.actorType, e.targetId, e.targetName,
+      e.channelId, e.messageId, e.aiConfidence, e.aiReasoning, e.error,
+      e.details !== undefined ? JSON.stringify(e.details) : '',
+      record.prevHash, record.hash,
+    ];
+
+    return values.map(csvCell).join(',') + '\n';
+  }
+
+  /**
+   * Check a signed entry: its instance ID must be this instance's current key
+   * or a trusted earlier one, and an earlier key must be recorded in the entry
+   * and match that ID. Returns the problem, or null if the signature holds.
+   */
+  private checkSignature(
+    unsigned: { instanceId: string; publicKey?: string },
+    signature: string,
+    signers: Set<string>
+  ): string | null {
+    const identity = this.getIdentity();
+
+    if (unsigned.publicKey) {
+      let fingerprint: string | null = null;
+      try {
+        fingerprint = FederationIdentity.fingerprint(unsigned.publicKey);
+      } catch (error) {
+        // Reported below
+      }
+      if (fingerprint !== unsigned.instanceId) return 'signing key does not match its instance ID';
+    }
+
+    if (unsigned.instanceId !== identity.instanceId && !this.trustedInstanceIds.includes(unsigned.instanceId)) {
+      return `signed by untrusted key ${unsigned.instanceId}`;
+    }
+
+    const publicKey = unsigned.instanceId === identity.instanceId ? identity.publicKey : unsigned.publicKey;
+    if (!publicKey) return `signed by earlier key ${unsigned.instanceId}, which is not recorded`;
+
+    if (!FederationIdentity.verify(canonicalize(unsigned), signature, publicKey)) {
+      return 'signature invalid';
+    }
+
+    signers.add(unsigned.instanceId);
+    return null;
+  }
+
+  private getIdentity(): FederationIdentity {
+    if (!this.identity) {
+      this.identity = FederationIdentity.load();
+    }
+    return this.identity;
+  }
+}
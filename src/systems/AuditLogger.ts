@@ -1,8 +1,11 @@
 // AuditLogger.ts - Comprehensive audit logging system
 // Logs EVERYTHING: commands, moderation, trust changes, permissions, AI decisions
+// Events are persisted to the hash-chained AuditChain; memory only holds a recent cache
 
 import { StorageService } from '../services/StorageService';
 import { createLogger } from '../services/Logger';
+import { AuditChain, AuditCheckpoint, AuditExportFormat, AuditVerification } from './AuditChain';
+import { retentionTargetRegistry } from '../privacy/RetentionTarget';
 
 const logger = createLogger('AuditLogger');
 
@@ -19,6 +22,7 @@ export type AuditEventType =
   | 'bulk_action'
   | 'global_ban'
   | 'rate_limit_hit'
+  | 'api_call'
   | 'error'
   | 'warning';
 
@@ -56,8 +60,9 @@ export interface AuditEvent {
 
 export class AuditLogger {
   private storage: StorageService;
+  private chain: AuditChain;
   private events: AuditEvent[] = [];
-  private maxEvents = 10000; // Keep last 10k events in memory
+  private maxEvents = 10000; // Keep last 10k events in memory (the chain keeps everything)
 
   // Rate limiting tracking
   private commandCounts: Map<string, { count: number; resetAt: number }> = new Map();
@@ -66,12 +71,28 @@ export class AuditLogger {
     perGuild: 50, // 50 commands per minute per guild
   };
 
-  constructor(storage: StorageService) {
+  constructor(storage: StorageService, chain: AuditChain = new AuditChain()) {
     this.storage = storage;
+    this.chain = chain;
     this.loadEvents();
 
-    // Auto-save every 5 minutes
-    setInterval(() => this.saveEvents(), 5 * 60 * 1000);
+    // Sign the chain head periodically
+    this.chain.startCheckpoints();
+
+    // Old months of the chain expire under the instance-wide audit retention rule
+    retentionTargetRegistry.register({
+      id: 'audit_chain',
+      category: 'audit',
+      description: 'Hash-chained audit log (whole months, every guild)',
+      guildScoped: false,
+      sweep: async ({ cutoff, holds, dryRun }) => {
+        const result = await this.chain.prune(cutoff, {
+          dryRun,
+          keep: event => [event.actorId, event.targetId].some(id => !!id && holds.isHeld(id, event.guildId || null)),
+        });
+        return { expired: result.records, held: result.kept };
+      },
+    });
   }
 
   /**
@@ -86,6 +107,12 @@ export class AuditLogger {
 
     this.events.push(auditEvent);
 
+    try {
+      await this.chain.append(auditEvent);
+    } catch (error) {
+      logger.error('Failed to persist audit event:', error);
+    }
+
     // Keep only last N events in memory
     if (this.events.length > this.maxEvents) {
       this.events = this.events.slice(-this.maxEvents);
@@ -283,35 +310,60 @@ export class AuditLogger {
   }
 
   /**
-   * Load events from storage
+   * Verify the whole chain (gaps, edits, truncation, checkpoint signatures)
    */
-  private async loadEvents(): Promise<void> {
-    try {
-      const data = await this.storage.read<{ events: AuditEvent[] }>('audit', 'audit_log.json');
-      if (data?.events) {
-        this.events = data.events.map(e => ({
-          ...e,
-          timestamp: new Date(e.timestamp),
-        }));
-        logger.info(`📋 Loaded ${this.events.length} audit events`);
-      }
-    } catch (error) {
-      logger.warn('No audit log found, starting fresh');
-    }
+  async verifyIntegrity(): Promise<AuditVerification> {
+    return this.chain.verify();
+  }
+
+  /**
+   * Signed checkpoints of the chain head
+   */
+  async getCheckpoints(): Promise<AuditCheckpoint[]> {
+    return this.chain.getCheckpoints();
   }
 
   /**
-   * Save events to storage
+   * Sign the current chain head now (null if nothing new since the last checkpoint)
    */
-  private async saveEvents(): Promise<void> {
+  async checkpoint(): Promise<AuditCheckpoint | null> {
+    return this.chain.checkpoint();
+  }
+
+  /**
+   * Stream a guild's full audit history as JSONL or CSV
+   */
+  exportGuild(
+    guildId: string,
+    format: AuditExportFormat = 'jsonl',
+    range: { from?: Date; to?: Date } = {}
+  ): AsyncGenerator<string> {
+    return this.chain.exportGuild(guildId, format, range);
+  }
+
+  /**
+   * Warm the in-memory cache from the chain
+   * (falls back to the legacy audit_log.json dump if the chain is empty)
+   */
+  private async loadEvents(): Promise<void> {
     try {
-      await this.storage.write('audit', 'audit_log.json', {
-        events: this.events,
-        savedAt: new Date(),
-      });
-      logger.info(`💾 Saved ${this.events.length} audit events`);
+      let events = await this.chain.readRecent(this.maxEvents);
+
+      if (events.length === 0) {
+        const legacy = await this.storage.read<{ events: AuditEvent[] }>('audit', 'audit_log.json');
+        events = legacy?.events || [];
+      }
+
+      this.events = [
+        ...events.map(e => ({ ...e, timestamp: new Date(e.timestamp) })),
+        ...this.events,
+      ].slice(-this.maxEvents);
+
+      if (events.length > 0) {
+        logger.info(`📋 Loaded ${events.length} audit events`);
+      }
     } catch (error) {
-      logger.error('Failed to save audit log:', error);
+      logger.warn('No audit log found, starting fresh');
     }
   }
 
@@ -332,6 +384,7 @@ export class AuditLogger {
       bulk_action: '📦',
       global_ban: '🌐',
       rate_limit_hit: '⏱️',
+      api_call: '🔐',
       error: '❌',
       warning: '⚠️',
     };
@@ -339,7 +392,8 @@ export class AuditLogger {
   }
 
   /**
-   * Clean up old events (older than 30 days)
+   * Drop old events (older than 30 days) from the in-memory cache.
+   * The chain itself is append-only and is never trimmed here.
    */
   async cleanup(daysToKeep: number = 30): Promise<number> {
     const cutoffDate = new Date();
@@ -350,7 +404,6 @@ export class AuditLogger {
     const removed = before - this.events.length;
 
     if (removed > 0) {
-      await this.saveEvents();
       logger.info(`🗑️ Cleaned up ${removed} old audit events`);
     }
 
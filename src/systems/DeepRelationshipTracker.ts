@@ -2,6 +2,8 @@ import { Message, User, GuildMember } from 'discord.js';
 import { OllamaService } from '../services/OllamaService';
 import { StorageService } from '../services/StorageService';
 import { createLogger } from '../services/Logger';
+import { DataHolder, DataSubject, ErasureContext, HolderErasure, dataHolderRegistry } from '../privacy/DataHolder';
+import { RetentionOutcome, RetentionSweep, retentionTargetRegistry } from '../privacy/RetentionTarget';
 
 const logger = createLogger('RelationshipTracker');
 
@@ -89,7 +91,12 @@ export interface DeepUserProfile {
   updatedAt: Date;
 }
 
-export class DeepRelationshipTracker {
+export class DeepRelationshipTracker implements DataHolder {
+  // Data holder (profiles are per user, not per guild)
+  readonly id = 'deep_profiles';
+  readonly description = 'Personal details, emotions, relationships and conversation memories learned from messages';
+  readonly guildScoped = false;
+
   private ollama: OllamaService;
   private storage: StorageService;
   private profiles: Map<string, DeepUserProfile> = new Map();
@@ -98,6 +105,134 @@ export class DeepRelationshipTracker {
     this.ollama = ollama;
     this.storage = storage;
     this.loadProfiles();
+    dataHolderRegistry.register(this);
+    this.registerRetentionTargets();
+  }
+
+  /**
+   * The user's profile, and how other profiles describe their relationship with the user
+   */
+  async exportSubject(subject: DataSubject): Promise<any[]> {
+    const records: any[] = [];
+
+    const profile = this.profiles.get(subject.userId);
+    if (profile) {
+      records.push({ kind: 'profile', ...profile, topicsDiscussed: Object.fromEntries(profile.topicsDiscussed) });
+    }
+
+    for (const other of this.profiles.values()) {
+      for (const relationship of other.relationships.filter(r => r.otherUserId === subject.userId)) {
+        records.push({ kind: 'relationship', ...relationship });
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Drop the user's profile and every relationship with them; pseudonymize them in others' conversation memories
+   */
+  async eraseSubject(subject: DataSubject, context: ErasureContext): Promise<HolderErasure> {
+    const erasure: HolderErasure = { deleted: 0, pseudonymized: 0, retained: 0 };
+
+    if (this.profiles.delete(subject.userId)) {
+      erasure.deleted++;
+    }
+
+    for (const other of this.profiles.values()) {
+      const before = other.relationships.length;
+      other.relationships = other.relationships.filter(r => r.otherUserId !== subject.userId);
+      erasure.deleted += before - other.relationships.length;
+
+      for (const memory of other.conversationMemories) {
+        if (memory.participants.includes(subject.userId)) {
+          memory.participants = memory.participants.map(p => p === subject.userId ? context.pseudonym : p);
+          erasure.pseudonymized++;
+        }
+      }
+    }
+
+    if (erasure.deleted > 0 || erasure.pseudonymized > 0) {
+      await this.saveProfiles();
+    }
+
+    return erasure;
+  }
+
+  /**
+   * Profiles expire when not updated for the period; their conversation
+   * memories and emotional history expire entry by entry
+   */
+  private registerRetentionTargets(): void {
+    retentionTargetRegistry.register({
+      id: 'deep_profiles',
+      category: 'profiles',
+      description: 'Deep user profiles',
+      guildScoped: false,
+      sweep: sweep => this.expireProfiles(sweep),
+    });
+    retentionTargetRegistry.register({
+      id: 'deep_profile_conversations',
+      category: 'raw_content',
+      description: 'Conversation memories in deep user profiles',
+      guildScoped: false,
+      sweep: sweep => this.expireEntries(sweep, 'conversationMemories'),
+    });
+    retentionTargetRegistry.register({
+      id: 'deep_profile_emotions',
+      category: 'analysis_scores',
+      description: 'Emotional history in deep user profiles',
+      guildScoped: false,
+      sweep: sweep => this.expireEntries(sweep, 'emotionalHistory'),
+    });
+  }
+
+  private async expireProfiles(sweep: RetentionSweep): Promise<RetentionOutcome> {
+    const outcome: RetentionOutcome = { expired: 0, held: 0 };
+
+    for (const profile of Array.from(this.profiles.values())) {
+      if (new Date(profile.updatedAt) >= sweep.cutoff) continue;
+
+      if (sweep.holds.isHeld(profile.userId, null)) {
+        outcome.held++;
+        continue;
+      }
+
+      outcome.expired++;
+      if (!sweep.dryRun) {
+        this.profiles.delete(profile.userId);
+      }
+    }
+
+    if (!sweep.dryRun && outcome.expired > 0) {
+      await this.saveProfiles();
+    }
+    return outcome;
+  }
+
+  private async expireEntries(sweep: RetentionSweep, key: 'conversationMemories' | 'emotionalHistory'): Promise<RetentionOutcome> {
+    const outcome: RetentionOutcome = { expired: 0, held: 0 };
+
+    for (const profile of this.profiles.values()) {
+      const entries = profile[key] as Array<{ timestamp: Date }>;
+      const kept = entries.filter(entry => new Date(entry.timestamp) >= sweep.cutoff);
+      if (kept.length === entries.length) continue;
+
+      if (sweep.holds.isHeld(profile.userId, null)) {
+        outcome.held += entries.length - kept.length;
+        continue;
+      }
+
+      outcome.expired += entries.length - kept.length;
+      if (!sweep.dryRun) {
+        profile[key] = kept as any;
+      }
+    }
+
+    if (!sweep.dryRun && outcome.expired > 0) {
+      await this.saveProfiles();
+    }
+    return outcome;
   }
 
   /**
@@ -2,6 +2,41 @@ import { Client, Guild, GuildMember, TextChannel } from 'discord.js';
 import { ModerationAction } from '../types/Response.types';
 import { AnalyticsManager } from '../analytics/AnalyticsManager';
 import type { BecasDatabaseIntegration } from '../database/BecasDatabaseIntegration';
+import { actionScheduler, ScheduledJob } from '../advanced/ActionScheduler';
+import { createLogger } from '../services/Logger';
+
+const logger = createLogger('ModerationHandler');
+
+export interface ScheduledUnban {
+  userId: string;
+  reason: string;
+}
+
+/**
+ * Lift a ban after durationMs (replaces an earlier scheduled unban of the same user).
+ * The 'unban' handler is registered by ModerationHandler.
+ */
+export async function scheduleUnban(guildId: string, userId: string, durationMs: number, reason: string): Promise<string> {
+  return actionScheduler.schedule<ScheduledUnban>({
+    id: unbanJobId(guildId, userId),
+    type: 'unban',
+    guildId,
+    runAt: new Date(Date.now() + durationMs),
+    payload: { userId, reason: `Temporary ban ended (${reason})` },
+  });
+}
+
+/**
+ * Drop a pending scheduled unban - called when a ban becomes permanent or the
+ * user is unbanned by hand, so an old temp-ban timer can't lift a later ban.
+ */
+export async function cancelScheduledUnban(guildId: string, userId: string): Promise<boolean> {
+  return actionScheduler.cancel(unbanJobId(guildId, userId));
+}
+
+function unbanJobId(guildId: string, userId: string): string {
+  return `unban:${guildId}:${userId}`;
+}
 
 export class ModerationHandler {
   private client: Client;
@@ -12,6 +47,9 @@ export class ModerationHandler {
   constructor(client: Client, analytics?: AnalyticsManager) {
     this.client = client;
     this.analytics = analytics;
+
+    // Temporary bans end through the durable scheduler (survives restarts)
+    actionScheduler.registerHandler<ScheduledUnban>('unban', job => this.runScheduledUnban(job));
   }
 
   /**
@@ -61,6 +99,11 @@ export class ModerationHandler {
 
         case 'ban':
           success = await this.banUser(member, reason);
+          if (success && action.duration) {
+            await scheduleUnban(guild.id, targetUserId, action.duration, reason);
+          } else if (success) {
+            await cancelScheduledUnban(guild.id, targetUserId);
+          }
           break;
 
         case 'role_change':
@@ -218,12 +261,27 @@ export class ModerationHandler {
     }
   }
 
+  private async runScheduledUnban(job: ScheduledJob<ScheduledUnban>): Promise<void> {
+    const guild = this.client.guilds.cache.get(job.guildId!);
+    if (!guild) {
+      throw new Error(`Guild ${job.guildId} not available`);
+    }
+
+    // Already unbanned by hand - nothing to do
+    const ban = await guild.bans.fetch(job.payload.userId).catch(() => null);
+    if (!ban) return;
+
+    await guild.members.unban(job.payload.userId, job.payload.reason);
+    logger.info(`Unbanned ${job.payload.userId}: ${job.payload.reason}`);
+  }
+
   /**
    * Unban a user
    */
   async unbanUser(userId: string, guild: Guild, reason: string): Promise<boolean> {
     try {
       await guild.members.unban(userId, reason);
+      await cancelScheduledUnban(guild.id, userId);
       console.log(`Unbanned ${userId}: ${reason}`);
       return true;
     } catch (error) {
@@ -5,6 +5,7 @@ import { TRUST_CONFIG } from '../config/trust.config';
 import { AuditLogger } from './AuditLogger';
 import { V3Integration } from '../integration/V3Integration';
 import { blockchainService } from '../services/BlockchainService';
+import { trustScorePublisher } from '../services/TrustScorePublisher';
 import { DatabaseService } from '../database/DatabaseService';
 import { SicilRepository } from '../database/repositories/SicilRepository';
 
@@ -254,28 +255,19 @@ export class TrustScoreEngine {
     // TODO: Implement Supabase sync via DatabaseService
     // For now, use TrustScoreEngineDB for database operations
 
-    // ⛓️ BLOCKCHAIN SYNC - Write trust score to Base blockchain
+    // ⛓️ BLOCKCHAIN SYNC - Queue trust score for the next Merkle batch on Base
     if (blockchainService.isEnabled() && Math.abs(delta) > 0) {
-      try {
-        // Calculate total violations from history
-        const violations = trustScore.history.filter(
-          (event) => event.delta < 0
-        ).length;
+      // Calculate total violations from history
+      const violations = trustScore.history.filter(
+        (event) => event.delta < 0
+      ).length;
 
-        const txHash = await blockchainService.updateTrustScore(
-          userId,
-          Math.round(trustScore.score),
-          Math.round(100 - trustScore.score), // risk score (inverse of trust)
-          violations
-        );
-
-        if (txHash) {
-          console.log(`⛓️  Trust score synced to blockchain: ${txHash}`);
-        }
-      } catch (error) {
-        console.error('Failed to sync trust score to blockchain:', error);
-        // Don't throw - blockchain sync is optional
-      }
+      trustScorePublisher.enqueue(
+        userId,
+        trustScore.score,
+        100 - trustScore.score, // risk score (inverse of trust)
+        violations
+      );
     }
 
     return trustScore;
@@ -7,6 +7,7 @@ import { ActionExecutor } from './ActionExecutor';
 import { createLogger } from '../services/Logger';
 import { OllamaService } from '../services/OllamaService';
 import { IntentAnalyzer } from './IntentAnalyzer'; // 🔥 NEW: Multi-layer intent analysis
+import { actionScheduler, ScheduledJob } from '../advanced/ActionScheduler';
 
 const logger = createLogger('WatchSystem');
 
@@ -133,10 +134,60 @@ export interface TriggerEvent {
   timestamp: Date;
 }
 
+// ============================================
+// PERSISTENCE
+// ============================================
+
+/**
+ * A watch as stored in its scheduler job payload (JSON: dates as strings, no Map)
+ */
+type StoredWatch = Omit<WatchConfig, 'createdAt' | 'expiresAt' | 'violationTracking'> & {
+  createdAt: string;
+  expiresAt: string;
+  violationTracking?: Record<string, {
+    count: number;
+    firstViolation: string;
+    lastViolation: string;
+    history: { timestamp: string; conditionType: ConditionType; evidence: string }[];
+  }>;
+};
+
+function storeWatch(watch: WatchConfig): StoredWatch {
+  return JSON.parse(JSON.stringify({
+    ...watch,
+    violationTracking: Object.fromEntries(watch.violationTracking ?? new Map()),
+  }));
+}
+
+function restoreWatch(stored: StoredWatch): WatchConfig {
+  const violationTracking = new Map<string, ViolationRecord>();
+  for (const [userId, record] of Object.entries(stored.violationTracking ?? {})) {
+    violationTracking.set(userId, {
+      count: record.count,
+      firstViolation: new Date(record.firstViolation),
+      lastViolation: new Date(record.lastViolation),
+      history: record.history.map(h => ({ ...h, timestamp: new Date(h.timestamp) })),
+    });
+  }
+
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    expiresAt: new Date(stored.expiresAt),
+    violationTracking,
+  };
+}
+
 // ============================================
 // WATCH SYSTEM
 // ============================================
 
+/**
+ * Watches live in memory for fast message checks and are persisted as
+ * 'watch_expire' jobs in the ActionScheduler (run when the watch expires),
+ * so they survive restarts and are restored on startup.
+ */
+
 export class WatchSystem {
   private activeWatches: Map<string, WatchConfig> = new Map();
   private trustEngine: TrustScoreEngineDB;
@@ -161,9 +212,12 @@ export class WatchSystem {
     this.ollama = ollama;
     this.intentAnalyzer = new IntentAnalyzer(trustEngine); // 🔥 Initialize intent analyzer
 
-    // Cleanup expired watches every minute
+    // Cleanup expired watches every minute (the expiry job only runs in one process)
     this.cleanupInterval = setInterval(() => this.cleanupExpiredWatches(), 60000);
 
+    actionScheduler.registerHandler('watch_expire', job => this.expireWatch(job));
+    this.restoreWatches().catch(error => logger.warn('Could not restore persisted watches', error));
+
     logger.info('WatchSystem initialized with Multi-Layer Intent Analysis');
   }
 
@@ -182,6 +236,15 @@ export class WatchSystem {
       violationTracking: new Map() // 🔥 NEW: Track violations per user
     };
 
+    // Only watch once expiry is durable, so a failed schedule leaves no watch behind
+    await actionScheduler.schedule<StoredWatch>({
+      id: watchId,
+      type: 'watch_expire',
+      guildId: watch.guildId,
+      runAt: watch.expiresAt,
+      payload: storeWatch(watch),
+    });
+
     this.activeWatches.set(watchId, watch);
 
     logger.info(`Created watch ${watchId}: monitoring ${watch.userIds.length || 'filtered'} users for ${watch.conditions.length} conditions`);
@@ -612,6 +675,7 @@ Return JSON: {"sentiment": number between -1 and 1}`;
             await this.announceEscalation(watch, event, stage, violation);
           }
 
+          await this.persistWatch(watch);
           return; // Skip regular actions
         }
       }
@@ -625,6 +689,8 @@ Return JSON: {"sentiment": number between -1 and 1}`;
         logger.error(`Failed to execute action for watch ${watch.id}:`, error);
       }
     }
+
+    await this.persistWatch(watch);
   }
 
   /**
@@ -850,10 +916,48 @@ ${violation.history.slice(-3).map(h => `• ${h.conditionType} - ${h.timestamp.t
     if (!watch) return false;
 
     watch.active = false;
+    actionScheduler.cancel(watchId)
+      .catch(error => logger.warn(`Could not cancel persisted watch ${watchId}`, error));
     logger.info(`Cancelled watch ${watchId}`);
     return true;
   }
 
+  /**
+   * Save trigger count and violation tracking to the watch's job
+   */
+  private async persistWatch(watch: WatchConfig): Promise<void> {
+    try {
+      await actionScheduler.updatePayload<StoredWatch>(watch.id, storeWatch(watch));
+    } catch (error) {
+      logger.warn(`Could not persist watch ${watch.id}`, error);
+    }
+  }
+
+  /**
+   * Load watches that were active before a restart
+   */
+  private async restoreWatches(): Promise<void> {
+    const jobs = await actionScheduler.list<StoredWatch>({ type: 'watch_expire', status: 'pending' }, 1000);
+
+    for (const job of jobs) {
+      if (!this.activeWatches.has(job.id)) {
+        this.activeWatches.set(job.id, restoreWatch(job.payload));
+      }
+    }
+
+    if (jobs.length > 0) {
+      logger.info(`Restored ${jobs.length} persisted watches`);
+    }
+  }
+
+  /**
+   * A watch's expiry job came due
+   */
+  private async expireWatch(job: ScheduledJob<StoredWatch>): Promise<void> {
+    this.activeWatches.delete(job.id);
+    logger.info(`Watch ${job.id} expired`);
+  }
+
   /**
    * Cleanup expired watches
    */
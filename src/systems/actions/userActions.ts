@@ -3,6 +3,7 @@
 import { PermissionFlagsBits, GuildMember } from 'discord.js';
 import { Action, ActionContext, ActionResult } from '../ActionRegistry';
 import { createLogger } from '../../services/Logger';
+import { scheduleUnban, cancelScheduledUnban } from '../ModerationHandler';
 
 const logger = createLogger('UserActions');
 
@@ -213,6 +214,13 @@ export const banUser: Action = {
       description: 'Delete messages from last N days (0-7)',
       default: 0,
       validation: { min: 0, max: 7 }
+    },
+    {
+      name: 'duration_minutes',
+      type: 'number',
+      required: false,
+      description: 'Temporary ban: unban after this many minutes (omit for a permanent ban)',
+      validation: { min: 1 }
     }
   ],
   execute: async (context: ActionContext): Promise<ActionResult> => {
@@ -220,6 +228,7 @@ export const banUser: Action = {
       const userId = context.parameters.user;
       const reason = context.parameters.reason || 'Banned by moderator';
       const deleteMessageDays = context.parameters.delete_messages_days || 0;
+      const durationMinutes = context.parameters.duration_minutes;
 
       const member = await context.message.guild!.members.fetch(userId);
 
@@ -235,6 +244,12 @@ export const banUser: Action = {
         deleteMessageSeconds: deleteMessageDays * 86400
       });
 
+      if (durationMinutes) {
+        await scheduleUnban(context.message.guild!.id, userId, durationMinutes * 60000, reason);
+      } else {
+        await cancelScheduledUnban(context.message.guild!.id, userId);
+      }
+
       await context.auditLogger.log({
         type: 'command_executed',
         guildId: context.message.guild!.id,
@@ -245,7 +260,7 @@ export const banUser: Action = {
         targetId: userId,
         targetName: member.user.tag,
         action: 'ban',
-        details: { reason, deleteMessageDays },
+        details: { reason, deleteMessageDays, durationMinutes },
         success: true,
         channelId: context.message.channelId,
         messageId: context.message.id
@@ -253,7 +268,9 @@ export const banUser: Action = {
 
       return {
         success: true,
-        message: `Banned ${member.user.tag}`,
+        message: durationMinutes
+          ? `Banned ${member.user.tag} for ${durationMinutes} minutes`
+          : `Banned ${member.user.tag}`,
         affectedUsers: [userId],
         canUndo: true,
         undoData: { user: userId }
@@ -297,6 +314,7 @@ export const unbanUser: Action = {
       const reason = context.parameters.reason || 'Unbanned by moderator';
 
       await context.message.guild!.members.unban(userId, reason);
+      await cancelScheduledUnban(context.message.guild!.id, userId);
 
       await context.auditLogger.log({
         type: 'command_executed',
@@ -0,0 +1,99 @@
+import { ethers } from 'ethers';
+
+/**
+ * MerkleTree - keccak256 Merkle tree compatible with BecasTrustScore.verifyScore
+ *
+ * - Leaves are hashed twice (keccak256(keccak256(abi.encode(...)))) so a leaf
+ *   can never be confused with an inner node
+ * - Pairs are hashed in sorted order, so a proof is just the list of siblings
+ * - An odd node at the end of a level is carried up unchanged
+ */
+
+export interface TrustScoreLeaf {
+  userHash: string; // bytes32 (ethers.id(discordId))
+  score: number;
+  riskScore: number;
+  violations: number;
+  epoch: number;
+}
+
+export class MerkleTree {
+  private layers: string[][];
+
+  constructor(leaves: string[]) {
+    if (leaves.length === 0) {
+      throw new Error('Cannot build a Merkle tree without leaves');
+    }
+
+    this.layers = [leaves];
+
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const level = this.layers[this.layers.length - 1];
+      const next: string[] = [];
+
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(i + 1 < level.length ? MerkleTree.hashPair(level[i], level[i + 1]) : level[i]);
+      }
+
+      this.layers.push(next);
+    }
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  get leafCount(): number {
+    return this.layers[0].length;
+  }
+
+  /**
+   * Sibling hashes from the leaf at index up to the root
+   */
+  getProof(index: number): string[] {
+    if (index < 0 || index >= this.leafCount) {
+      throw new Error(`Leaf index ${index} out of range`);
+    }
+
+    const proof: string[] = [];
+
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      const nodes = this.layers[level];
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+
+      if (sibling < nodes.length) {
+        proof.push(nodes[sibling]);
+      }
+
+      index = Math.floor(index / 2);
+    }
+
+    return proof;
+  }
+
+  /**
+   * Verify a proof off-chain (same algorithm as the contract)
+   */
+  static verify(leaf: string, proof: string[], root: string): boolean {
+    const computed = proof.reduce((hash, sibling) => MerkleTree.hashPair(hash, sibling), leaf);
+    return computed.toLowerCase() === root.toLowerCase();
+  }
+
+  /**
+   * Leaf hash for a trust score
+   */
+  static hashTrustScore(leaf: TrustScoreLeaf): string {
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['bytes32', 'uint256', 'uint256', 'uint256', 'uint256'],
+      [leaf.userHash, leaf.score, leaf.riskScore, leaf.violations, leaf.epoch]
+    );
+
+    return ethers.keccak256(ethers.keccak256(encoded));
+  }
+
+  private static hashPair(a: string, b: string): string {
+    return BigInt(a) < BigInt(b)
+      ? ethers.keccak256(ethers.concat([a, b]))
+      : ethers.keccak256(ethers.concat([b, a]));
+  }
+}
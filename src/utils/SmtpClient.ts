@@ -0,0 +1,249 @@
+/**
+ * SMTP CLIENT - Minimal mail sender for alert emails
+ *
+ * Speaks just enough SMTP to hand a plain-text message to a relay:
+ * implicit TLS (port 465) or STARTTLS, AUTH PLAIN (only over TLS), one message
+ * per connection.
+ * Attachments are sent as base64 parts of a multipart/mixed message.
+ */
+
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS; otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Reads SMTP replies (including multi-line "250-..." replies) from a socket
+ */
+class SmtpConnection {
+  private buffer = '';
+  private pending: SmtpReply[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+  private current: string[] = [];
+  private error: Error | null = null;
+
+  constructor(public socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  /**
+   * Swap in the TLS socket after STARTTLS
+   */
+  upgrade(socket: tls.TLSSocket): void {
+    this.socket.removeAllListeners('data');
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(line + '\r\n');
+
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${line?.split(' ')[0] || 'greeting'} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+    }
+    return reply;
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.error) return Promise.reject(this.error);
+
+    const reply = this.pending.shift();
+    if (reply) return Promise.resolve(reply);
+
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.on('data', chunk => this.onData(chunk.toString('utf-8')));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')));
+  }
+
+  private onData(data: string): void {
+    this.buffer += data;
+
+    let index: number;
+    while ((index = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+
+      this.current.push(line.slice(4));
+      if (line[3] === '-') continue; // More lines follow
+
+      const reply = { code: parseInt(line.slice(0, 3)), lines: this.current };
+      this.current = [];
+
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        waiter.resolve(reply);
+      } else {
+        this.pending.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.error) return;
+    this.error = error;
+
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+}
+
+/**
+ * Send one plain-text message
+ */
+export async function sendMail(options: SmtpOptions, message: MailMessage): Promise<void> {
+  if (message.to.length === 0) throw new SmtpError('No recipients');
+
+  const timeoutMs = options.timeoutMs ?? 15000;
+  const socket = await connect(options, timeoutMs);
+  const connection = new SmtpConnection(socket);
+  const hostname = os.hostname() || 'localhost';
+
+  try {
+    await connection.command(null, [220]);
+    let ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+    let encrypted = options.secure;
+
+    if (!options.secure && ehlo.lines.some(l => l.toUpperCase().startsWith('STARTTLS'))) {
+      await connection.command('STARTTLS', [220]);
+
+      const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+        const upgraded = tls.connect({ socket: connection.socket, servername: options.host }, () => resolve(upgraded));
+        upgraded.once('error', reject);
+      });
+
+      connection.upgrade(secured);
+      encrypted = true;
+      ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+    }
+
+    if (options.user) {
+      // AUTH PLAIN is only base64 - never send it over a cleartext connection
+      if (!encrypted) {
+        throw new SmtpError(`${options.host} did not offer STARTTLS; refusing to send credentials without TLS`);
+      }
+      const credentials = Buffer.from(`\0${options.user}\0${options.pass || ''}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await connection.command(`MAIL FROM:<${extractAddress(options.from)}>`, [250]);
+    for (const recipient of message.to) {
+      await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+    }
+
+    await connection.command('DATA', [354]);
+    await connection.command(`${formatMessage(options.from, message)}\r\n.`, [250]);
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.socket.destroy();
+  }
+}
+
+function connect(options: SmtpOptions, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+
+    socket.setTimeout(timeoutMs, () => socket.destroy(new SmtpError('SMTP timeout')));
+    socket.once('error', reject);
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+  });
+}
+
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+function formatMessage(from: string, message: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+  ];
+
+  // Normalize line endings and dot-stuff lines starting with "."
+  const text = message.text
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map(line => (line.startsWith('.') ? '.' + line : line))
+    .join('\r\n');
+
+  if (!message.attachments || message.attachments.length === 0) {
+    headers.push('Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 8bit');
+    return `${headers.join('\r\n')}\r\n\r\n${text}`;
+  }
+
+  const boundary = `becas-${crypto.randomBytes(12).toString('hex')}`;
+  headers.push(`Content-Type: multipart/mixed; boundary="${boundary}"`);
+
+  const parts = [
+    `--${boundary}\r\nContent-Type: text/plain; charset=utf-8\r\nContent-Transfer-Encoding: 8bit\r\n\r\n${text}`,
+    ...message.attachments.map(attachment => {
+      const content = Buffer.isBuffer(attachment.content) ? attachment.content : Buffer.from(attachment.content, 'utf-8');
+      const filename = attachment.filename.replace(/["\r\n]/g, '');
+      return [
+        `--${boundary}`,
+        `Content-Type: ${attachment.contentType}; name="${filename}"`,
+        `Content-Disposition: attachment; filename="${filename}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        content.toString('base64').replace(/.{76}/g, '$&\r\n').replace(/\r\n$/, ''),
+      ].join('\r\n');
+    }),
+  ];
+
+  return `${headers.join('\r\n')}\r\n\r\n${parts.join('\r\n')}\r\n--${boundary}--`;
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf-8').toString('base64')}?=`;
+}
@@ -0,0 +1,12 @@
+/**
+ * One CSV field. Text starting with =, +, -, @ or a control character gets a
+ * leading quote so spreadsheet apps don't evaluate user-provided text as a formula.
+ */
+export function csvCell(value: any): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && isNaN(Number(text))) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,17 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a BDL duration such as 30s, 5m, 1h or 7d to milliseconds,
+ * returning the fallback when the string is not in that form
+ */
+export function parseDuration(duration: string | undefined, fallbackMs: number): number {
+  const match = (duration || '').trim().match(/^(\d+)([smhd])$/);
+  if (!match) return fallbackMs;
+
+  return parseInt(match[1]) * UNIT_MS[match[2]];
+}
@@ -0,0 +1,45 @@
+const MAX_DEPTH = 5;
+
+/**
+ * Copy of a value that survives a JSON round trip. Plain objects, arrays and
+ * primitives are kept, dates become ISO strings, and class instances such as
+ * Discord messages or members are reduced to their id (or dropped without one).
+ * Users keep their username and members their user's id and username, which
+ * action variables and conditions read.
+ */
+export function toPlainData(value: any, depth = 0): any {
+  if (value === null || value === undefined) return value;
+
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean') return value;
+  if (type === 'bigint') return value.toString();
+  if (type !== 'object') return undefined;
+
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= MAX_DEPTH) return undefined;
+
+  if (Array.isArray(value)) {
+    return value.map(item => toPlainData(item, depth + 1)).filter(item => item !== undefined);
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return typeof value.id === 'string' ? toIdentity(value) : undefined;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const plain = toPlainData(item, depth + 1);
+    if (plain !== undefined) result[key] = plain;
+  }
+  return result;
+}
+
+function toIdentity(value: any): Record<string, any> {
+  const identity: Record<string, any> = { id: value.id };
+  if (typeof value.username === 'string') identity.username = value.username;
+  if (value.user && typeof value.user.id === 'string') {
+    identity.user = { id: value.user.id, username: value.user.username };
+  }
+  return identity;
+}
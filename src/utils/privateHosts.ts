@@ -0,0 +1,39 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/**
+ * Whether a URL hostname points at this machine or a private network
+ * (outbound webhooks and link expansion must not reach internal services)
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return true;
+  if (host.includes(':')) {
+    return host === '::1' || host === '::' || /^(fc|fd|fe80)/.test(host) || host.startsWith('::ffff:');
+  }
+
+  const ipv4 = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!ipv4) return false;
+
+  const [a, b] = [parseInt(ipv4[1]), parseInt(ipv4[2])];
+  return a === 10 || a === 127 || a === 0 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127);
+}
+
+/**
+ * Like isPrivateHost, but also true when any address the name resolves to is
+ * private (a public-looking name can point at an internal service)
+ */
+export async function resolvesToPrivateHost(hostname: string): Promise<boolean> {
+  if (isPrivateHost(hostname)) return true;
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return false;
+
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.some(({ address }) => isPrivateHost(address));
+}
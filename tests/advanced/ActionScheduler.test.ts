@@ -0,0 +1,181 @@
+import { expect } from 'chai';
+import { ActionScheduler, SchedulerDriver, actionScheduler } from '../../src/advanced/ActionScheduler';
+import { getOllamaCache } from '../../src/services/OllamaCacheService';
+import { WatchSystem } from '../../src/systems/WatchSystem';
+import { fakePool } from '../helpers';
+
+/**
+ * In-memory stand-in for scheduled_jobs, answering the queries ActionScheduler makes
+ */
+function jobsDb() {
+  const rows = new Map<string, any>();
+
+  const pool = fakePool((sql, params) => {
+    if (sql.includes('INSERT INTO scheduled_jobs')) {
+      const [id, type, guildId, payload, runAt, intervalMs, maxAttempts] = params;
+      rows.set(id, {
+        id, job_type: type, guild_id: guildId, payload: JSON.parse(payload), run_at: runAt, interval_ms: intervalMs,
+        max_attempts: maxAttempts, status: 'pending', attempts: 0, locked_by: null, locked_until: null,
+        last_error: null, last_run_at: null, created_at: new Date(),
+      });
+      return { rows: [], rowCount: 1 };
+    }
+    if (sql.includes("SET status = 'running'")) {
+      const [workerId, leaseMs, types] = params;
+      const due = [...rows.values()]
+        .filter(row => row.status === 'pending' && row.run_at <= new Date() && types.includes(row.job_type))
+        .sort((a, b) => a.run_at - b.run_at)
+        .slice(0, Number(sql.match(/LIMIT (\d+)/)![1]));
+      for (const row of due) {
+        Object.assign(row, { status: 'running', locked_by: workerId, locked_until: new Date(Date.now() + leaseMs), attempts: row.attempts + 1 });
+      }
+      return due.map(row => ({ ...row }));
+    }
+    if (sql.includes('WHERE id = $1 AND locked_by = $6')) {
+      const [id, status, runAt, error, resetAttempts, workerId] = params;
+      const row = rows.get(id);
+      if (!row || row.locked_by !== workerId) return { rows: [], rowCount: 0 };
+      Object.assign(row, {
+        status, run_at: runAt ?? row.run_at, last_error: error ?? row.last_error,
+        attempts: resetAttempts ? 0 : row.attempts, locked_by: null, locked_until: null,
+      });
+      return { rows: [], rowCount: 1 };
+    }
+    if (sql.includes('GROUP BY status')) {
+      const counts = new Map<string, number>();
+      for (const row of rows.values()) counts.set(row.status, (counts.get(row.status) || 0) + 1);
+      return [...counts.entries()].map(([status, count]) => ({ status, count }));
+    }
+    return [];
+  });
+
+  return { pool, rows };
+}
+
+const idleDriver: SchedulerDriver = {
+  start: async () => undefined,
+  notify: async () => undefined,
+  stop: async () => undefined,
+};
+
+describe('ActionScheduler', () => {
+  let db: ReturnType<typeof jobsDb>;
+  let scheduler: ActionScheduler;
+
+  beforeEach(() => {
+    db = jobsDb();
+    scheduler = new ActionScheduler(db.pool as any, idleDriver);
+  });
+
+  afterEach(() => scheduler.stop());
+
+  it('claims one due job at a time, leaving the rest pending while it runs', async () => {
+    const seen: Array<{ running: string; statuses: string[] }> = [];
+    scheduler.registerHandler('unban', async job => {
+      seen.push({ running: job.id, statuses: [...db.rows.values()].map(row => `${row.id}:${row.status}`) });
+    });
+
+    const past = Date.now() - 60000;
+    for (const id of ['a', 'b', 'c']) {
+      await scheduler.schedule({ id, type: 'unban', runAt: new Date(past + id.charCodeAt(0)) });
+    }
+    await scheduler.schedule({ id: 'later', type: 'unban', runAt: new Date(Date.now() + 60000) });
+
+    await scheduler.start();
+
+    expect(seen).to.deep.equal([
+      { running: 'a', statuses: ['a:running', 'b:pending', 'c:pending', 'later:pending'] },
+      { running: 'b', statuses: ['a:completed', 'b:running', 'c:pending', 'later:pending'] },
+      { running: 'c', statuses: ['a:completed', 'b:completed', 'c:running', 'later:pending'] },
+    ]);
+    expect(await scheduler.getStats()).to.include({ completed: 3, pending: 1, running: 0 });
+  });
+
+  it('starts each job\'s lease when that job is claimed', async () => {
+    const leases: number[] = [];
+    scheduler.registerHandler('task', async job => {
+      leases.push(db.rows.get(job.id).locked_until.getTime());
+      await new Promise(resolve => setTimeout(resolve, 30));
+    });
+
+    await scheduler.schedule({ id: 'one', type: 'task', runAt: new Date(Date.now() - 1000) });
+    await scheduler.schedule({ id: 'two', type: 'task', runAt: new Date(Date.now() - 500) });
+    await scheduler.start();
+
+    expect(leases[1] - leases[0]).to.be.at.least(20);
+  });
+
+  it('retries a failing job with backoff, then marks it failed', async () => {
+    scheduler.registerHandler('task', async () => { throw new Error('guild unavailable'); });
+
+    await scheduler.schedule({ id: 'job', type: 'task', runAt: new Date(Date.now() - 1000), maxAttempts: 2 });
+    await scheduler.start();
+
+    const row = db.rows.get('job');
+    expect(row).to.include({ status: 'pending', attempts: 1, last_error: 'guild unavailable' });
+    expect(row.run_at.getTime()).to.be.greaterThan(Date.now() + 20000);
+
+    row.run_at = new Date(Date.now() - 1);
+    await scheduler.runDue();
+    expect(db.rows.get('job')).to.include({ status: 'failed', attempts: 2 });
+  });
+
+  it('moves a recurring job to its next occurrence, keeping its phase', async () => {
+    scheduler.registerHandler('digest', async () => undefined);
+
+    const firstRun = new Date(Date.now() - 2500);
+    await scheduler.schedule({ id: 'digest', type: 'digest', runAt: firstRun, intervalMs: 1000 });
+    await scheduler.start();
+
+    const row = db.rows.get('digest');
+    expect(row.status).to.equal('pending');
+    expect(row.run_at.getTime()).to.equal(firstRun.getTime() + 3000);
+  });
+});
+
+describe('WatchSystem.createWatch', () => {
+  const realSchedule = actionScheduler.schedule;
+  let watches: WatchSystem;
+
+  before(() => {
+    getOllamaCache({ enabled: false });
+  });
+
+  beforeEach(() => {
+    watches = new WatchSystem({} as any, {} as any, {} as any);
+  });
+
+  afterEach(() => {
+    actionScheduler.schedule = realSchedule;
+    watches.shutdown();
+  });
+
+  const config = {
+    guildId: 'g1',
+    createdBy: 'mod',
+    expiresAt: new Date(Date.now() + 3600000),
+    userIds: ['u1'],
+    conditions: [],
+    actions: [],
+  } as any;
+
+  it('does not activate a watch whose expiry could not be scheduled', async () => {
+    actionScheduler.schedule = async () => { throw new Error('database unavailable'); };
+
+    let error: Error | undefined;
+    await watches.createWatch(config).catch(e => { error = e; });
+
+    expect(error?.message).to.equal('database unavailable');
+    expect(watches.getActiveWatches('g1')).to.have.length(0);
+  });
+
+  it('activates the watch once its expiry is scheduled', async () => {
+    const scheduled: string[] = [];
+    actionScheduler.schedule = async options => { scheduled.push(options.type); return options.id!; };
+
+    const id = await watches.createWatch(config);
+
+    expect(scheduled).to.deep.equal(['watch_expire']);
+    expect(watches.getActiveWatches('g1').map(watch => watch.id)).to.deep.equal([id]);
+  });
+});
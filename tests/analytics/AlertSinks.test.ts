@@ -0,0 +1,170 @@
+import { expect } from 'chai';
+import dns from 'dns/promises';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { checkWebhookAddress, postWebhook } from '../../src/analytics/AlertSinks';
+import { AlertSystem } from '../../src/analytics/AlertSystem';
+import { ENV } from '../../src/config/environment';
+import { fakeClient, fakePool } from '../helpers';
+
+describe('AlertSinks', () => {
+  describe('webhook addresses', () => {
+    const realLookup = dns.lookup;
+
+    before(() => {
+      (dns as any).lookup = async (host: string) => {
+        if (host === 'hooks.example.com') return [{ address: '93.184.216.34', family: 4 }];
+        if (host === 'internal.example.com') return [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }];
+        throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: 'ENOTFOUND' });
+      };
+    });
+
+    after(() => {
+      (dns as any).lookup = realLookup;
+    });
+
+    it('refuses hosts that resolve to a private address', async () => {
+      expect(await checkWebhookAddress('ok', 'https://hooks.example.com/x')).to.equal(null);
+      expect(await checkWebhookAddress('rebind', 'https://internal.example.com/x')).to.match(/resolves to a private address/);
+      expect(await checkWebhookAddress('literal', 'http://169.254.169.254/latest')).to.match(/private address/);
+      expect(await checkWebhookAddress('missing', 'https://nowhere.example.com/x')).to.match(/does not resolve: ENOTFOUND/);
+    });
+
+    it('checks the address again when delivering', async () => {
+      let error: Error | undefined;
+      await postWebhook('https://internal.example.com/hook', {}, '{}').catch(e => { error = e; });
+      expect(error?.message).to.match(/private address/);
+    });
+  });
+
+  describe('delivery', () => {
+    let server: Server;
+    let baseUrl: string;
+    const received: string[] = [];
+
+    before(async () => {
+      ENV.ALERT_ALLOW_PRIVATE_SINKS = true; // The test server is on loopback
+      server = http.createServer((req, res) => {
+        received.push(req.url!);
+        if (req.url === '/redirect') {
+          res.writeHead(302, { Location: '/hook' }).end();
+        } else {
+          res.writeHead(204).end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+      ENV.ALERT_ALLOW_PRIVATE_SINKS = false;
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('posts to the webhook but does not follow redirects', async () => {
+      await postWebhook(`${baseUrl}/hook`, { 'Content-Type': 'application/json' }, '{}');
+
+      let error: Error | undefined;
+      await postWebhook(`${baseUrl}/redirect`, {}, '{}').catch(e => { error = e; });
+
+      expect(error).to.be.instanceOf(Error);
+      expect(received).to.deep.equal(['/hook', '/redirect']);
+    });
+  });
+});
+
+describe('AlertSystem incidents', () => {
+  let nextId: number;
+  let system: AlertSystem;
+
+  beforeEach(() => {
+    nextId = 1;
+    system = new AlertSystem(fakePool(sql => (sql.includes('INSERT INTO alert_incidents') ? [{ id: nextId++ }] : [])) as any, fakeClient());
+  });
+
+  function alert(overrides: Record<string, any>): any {
+    return { type: 'anomaly', severity: 'medium', title: 't', message: 'm', serverId: 'g1', actionable: false, ...overrides };
+  }
+
+  async function assign(a: any): Promise<{ id: number; isNew: boolean }> {
+    const { incident, isNew } = await (system as any).assignIncident(a, 15 * 60 * 1000);
+    return { id: incident.id, isNew };
+  }
+
+  it('keeps same-type alerts about different users apart', async () => {
+    const first = await assign(alert({ relatedUsers: ['u1'] }));
+    const second = await assign(alert({ relatedUsers: ['u2'] }));
+
+    expect(first).to.deep.equal({ id: 1, isNew: true });
+    expect(second).to.deep.equal({ id: 2, isNew: true });
+  });
+
+  it('groups alerts that share a user or channel, whatever their type', async () => {
+    await assign(alert({ relatedUsers: ['u1'], relatedChannels: ['c1'] }));
+
+    expect(await assign(alert({ type: 'conflict', relatedUsers: ['u1', 'u9'] }))).to.deep.equal({ id: 1, isNew: false });
+    expect(await assign(alert({ type: 'behavior', relatedChannels: ['c1'] }))).to.deep.equal({ id: 1, isNew: false });
+    // u9 joined the incident through the conflict alert
+    expect(await assign(alert({ relatedUsers: ['u9'] }))).to.deep.equal({ id: 1, isNew: false });
+  });
+
+  it('groups server-wide alerts by type', async () => {
+    await assign(alert({ type: 'health' }));
+
+    expect(await assign(alert({ type: 'health' }))).to.deep.equal({ id: 1, isNew: false });
+    expect(await assign(alert({ type: 'trend' }))).to.deep.equal({ id: 2, isNew: true });
+    expect(await assign(alert({ type: 'health', serverId: 'g2' }))).to.deep.equal({ id: 3, isNew: true });
+  });
+});
+
+describe('AlertSystem acknowledge button', () => {
+  it('posts the stored alert ID on the button and acknowledges that alert when clicked', async () => {
+    const pool = fakePool(sql => {
+      if (sql.includes('INSERT INTO alert_incidents')) return [{ id: 3 }];
+      if (sql.includes('INSERT INTO alert_history')) return [{ id: 42 }];
+      if (sql.includes('SET acknowledged = true') && sql.includes('RETURNING incident_id')) return [{ incident_id: 3 }];
+    });
+    const sent: any[] = [];
+    const channel = { id: 'c1', send: async (message: any) => { sent.push(message); } };
+    const handlers: Array<(interaction: any) => Promise<void>> = [];
+    const client = fakeClient({
+      on: (event: string, handler: any) => { if (event === 'interactionCreate') handlers.push(handler); },
+      guilds: { cache: new Map([['g1', { id: 'g1', channels: { cache: new Map([['c1', channel]]) } }]]) },
+    });
+
+    const system = new AlertSystem(pool as any, client);
+    await system.initialize();
+    system.shutdown();
+    await system.updatePreferences('g1', { alertChannel: 'c1', quietHours: undefined });
+
+    await system.sendCustomAlert({
+      type: 'anomaly', severity: 'high', title: 'Raid', message: 'm', serverId: 'g1', actionable: true,
+    } as any);
+
+    const buttons = sent[0].components[0].toJSON().components.map((button: any) => button.custom_id);
+    expect(buttons[0]).to.equal('alert_ack_42');
+    expect(pool.find('SET sent_to_channel')[0].params).to.deep.equal(['c1', 42]);
+
+    const updates: any[] = [];
+    const click = (memberCanModerate: boolean) => ({
+      isButton: () => true,
+      customId: 'alert_ack_42',
+      guildId: 'g1',
+      user: { id: 'mod1' },
+      memberPermissions: { has: () => memberCanModerate },
+      reply: async (message: any) => { updates.push(message); },
+      update: async (message: any) => { updates.push(message); },
+    });
+
+    await handlers[0](click(false));
+    expect(pool.find('RETURNING incident_id')).to.have.length(0);
+
+    await handlers[0](click(true));
+    expect(pool.find('RETURNING incident_id')[0].params).to.deep.equal(['mod1', 42, 'g1']);
+    expect(pool.find('UPDATE alert_incidents')[0].params).to.deep.equal(['mod1', 3]);
+    expect(updates.map(message => message.content)).to.deep.equal([
+      '❌ You need moderator permissions to acknowledge alerts',
+      '✅ Acknowledged by <@mod1>',
+    ]);
+  });
+});
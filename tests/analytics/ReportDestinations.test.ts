@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import dns from 'dns/promises';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ReportGenerator } from '../../src/analytics/ReportGenerator';
+import { WebhookReportDestination } from '../../src/analytics/ReportDestinations';
+import { ENV } from '../../src/config/environment';
+import { fakeClient, fakePool } from '../helpers';
+
+function report(): any {
+  return {
+    data: { serverId: 'g1', reportType: 'weekly' },
+    title: 'Weekly',
+    summary: 's',
+    insights: [],
+    recommendations: [],
+    generatedAt: new Date(),
+    generationTimeMs: 1,
+  };
+}
+
+describe('ReportDestinations', () => {
+  describe('webhook addresses', () => {
+    const realLookup = dns.lookup;
+
+    before(() => {
+      (dns as any).lookup = async (host: string) => {
+        if (host === 'hooks.example.com') return [{ address: '93.184.216.34', family: 4 }];
+        return [{ address: '10.0.0.5', family: 4 }];
+      };
+    });
+
+    after(() => {
+      (dns as any).lookup = realLookup;
+    });
+
+    it('refuses to save a webhook destination that resolves to a private address', async () => {
+      const pool = fakePool();
+      const generator = new ReportGenerator(pool as any, fakeClient(), null);
+
+      let error: Error | undefined;
+      await generator.updateDestinations('g1', [{ name: 'internal', type: 'webhook', url: 'https://internal.example.com/x' }])
+        .catch(e => { error = e; });
+      expect(error?.message).to.match(/resolves to a private address/);
+      expect(pool.queries).to.have.length(0);
+
+      await generator.updateDestinations('g1', [{ name: 'ok', type: 'webhook', url: 'https://hooks.example.com/x' }]);
+      expect(pool.find('INSERT INTO report_destinations')).to.have.length(1);
+    });
+
+    it('checks the address again when delivering', async () => {
+      const destination = new WebhookReportDestination({ name: 'internal', type: 'webhook', url: 'https://internal.example.com/x' });
+
+      let error: Error | undefined;
+      await destination.deliver(report()).catch(e => { error = e; });
+      expect(error?.message).to.match(/private address/);
+    });
+  });
+
+  describe('webhook delivery', () => {
+    let server: Server;
+    let baseUrl: string;
+    const received: string[] = [];
+
+    before(async () => {
+      ENV.ALERT_ALLOW_PRIVATE_SINKS = true; // The test server is on loopback
+      server = http.createServer((req, res) => {
+        received.push(req.url!);
+        if (req.url === '/redirect') {
+          res.writeHead(302, { Location: '/hook' }).end();
+        } else {
+          res.writeHead(204).end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+      ENV.ALERT_ALLOW_PRIVATE_SINKS = false;
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('posts the report but does not follow redirects', async () => {
+      await new WebhookReportDestination({ name: 'ok', type: 'webhook', url: `${baseUrl}/hook` }).deliver(report());
+
+      let error: Error | undefined;
+      await new WebhookReportDestination({ name: 'moved', type: 'webhook', url: `${baseUrl}/redirect` })
+        .deliver(report())
+        .catch(e => { error = e; });
+
+      expect(error).to.be.instanceOf(Error);
+      expect(received).to.deep.equal(['/hook', '/redirect']);
+    });
+  });
+});
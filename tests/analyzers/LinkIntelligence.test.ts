@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import dns from 'dns/promises';
+import { DomainReputationStore, NETWORK_SERVER_ID } from '../../src/analyzers/links/DomainReputationStore';
+import { MALICIOUS_RISK, SUSPICIOUS_RISK } from '../../src/analyzers/links/LinkAnalyzer';
+import { FetchedResponse, UrlExpander } from '../../src/analyzers/links/UrlExpander';
+import { fakePool } from '../helpers';
+
+function row(serverId: string, maliciousReports: number, maliciousSources: string[], benignReports = 0) {
+  return {
+    domain: 'evil.example', server_id: serverId, malicious_reports: maliciousReports, benign_reports: benignReports,
+    malicious_sources: maliciousSources, verdict: null, last_reason: null, first_seen: new Date(), last_seen: new Date(),
+  };
+}
+
+describe('DomainReputationStore', () => {
+  it('keeps network risk from a single guild or peer below the malicious threshold', async () => {
+    const oneGuild = new DomainReputationStore(fakePool(() => [row(NETWORK_SERVER_ID, 50, ['g1'])]) as any);
+    const onePeer = new DomainReputationStore(fakePool(() => [row(NETWORK_SERVER_ID, 50, ['peer:abc'])]) as any);
+    const twoSources = new DomainReputationStore(fakePool(() => [row(NETWORK_SERVER_ID, 50, ['g1', 'peer:abc'])]) as any);
+
+    expect((await oneGuild.getRisk('evil.example', 'g2')).risk).to.be.below(SUSPICIOUS_RISK);
+    expect((await onePeer.getRisk('evil.example', 'g2')).risk).to.be.below(SUSPICIOUS_RISK);
+    expect((await twoSources.getRisk('evil.example', 'g2')).risk).to.be.within(SUSPICIOUS_RISK, MALICIOUS_RISK);
+  });
+
+  it('treats a domain reported by enough distinct sources as malicious', async () => {
+    const store = new DomainReputationStore(fakePool(() => [row(NETWORK_SERVER_ID, 50, ['g1', 'g3', 'peer:abc'])]) as any);
+
+    const risk = await store.getRisk('evil.example', 'g2');
+    expect(risk.source).to.equal('network');
+    expect(risk.risk).to.be.at.least(MALICIOUS_RISK);
+  });
+
+  it('still lets a guild\'s own reports decide for that guild', async () => {
+    const store = new DomainReputationStore(fakePool(() => [row('g1', 50, ['g1']), row(NETWORK_SERVER_ID, 50, ['g1'])]) as any);
+
+    const risk = await store.getRisk('evil.example', 'g1');
+    expect(risk.source).to.equal('guild');
+    expect(risk.risk).to.be.at.least(MALICIOUS_RISK);
+  });
+
+  it('records the reporting guild or peer as a source of malicious reports', async () => {
+    const pool = fakePool();
+    const store = new DomainReputationStore(pool as any);
+
+    await store.recordReport('evil.example', 'g1', true, 'phishing');
+    await store.recordReport('fine.example', 'g1', false, 'false positive');
+    await store.recordFederatedReport('evil.example', 'abc', 'Reported by beta');
+
+    const inserts = pool.find('INSERT INTO domain_reputation').map(q => [q.params[0], q.params[1], q.params[4]]);
+    expect(inserts).to.deep.equal([
+      ['evil.example', 'g1', ['g1']],
+      ['evil.example', NETWORK_SERVER_ID, ['g1']],
+      ['fine.example', 'g1', []],
+      ['fine.example', NETWORK_SERVER_ID, []],
+      ['evil.example', NETWORK_SERVER_ID, ['peer:abc']],
+    ]);
+  });
+});
+
+describe('UrlExpander', () => {
+  const realLookup = dns.lookup;
+  const requested: string[] = [];
+
+  const redirects: Record<string, string> = {
+    'https://bit.ly/safe': 'https://landing.example/page',
+    'https://bit.ly/rebind': 'https://internal.example/admin',
+    'https://bit.ly/gone': 'https://nowhere.example/x',
+    'https://bit.ly/loopback': 'http://127.0.0.1:8080/',
+  };
+
+  const fetcher = async (url: string): Promise<FetchedResponse> => {
+    requested.push(url);
+    return redirects[url] ? { status: 301, location: redirects[url] } : { status: 200, location: null };
+  };
+
+  before(() => {
+    (dns as any).lookup = async (host: string) => {
+      if (host === 'internal.example') return [{ address: '10.0.0.8', family: 4 }];
+      if (host === 'nowhere.example') throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: 'ENOTFOUND' });
+      return [{ address: '93.184.216.34', family: 4 }];
+    };
+  });
+
+  after(() => {
+    (dns as any).lookup = realLookup;
+  });
+
+  beforeEach(() => {
+    requested.length = 0;
+  });
+
+  it('follows a shortener to its public landing page', async () => {
+    const result = await new UrlExpander(fetcher).expand('https://bit.ly/safe');
+
+    expect(result).to.include({ finalUrl: 'https://landing.example/page', complete: true });
+    expect(requested).to.deep.equal(['https://bit.ly/safe', 'https://landing.example/page']);
+  });
+
+  it('does not request a hop whose host resolves to a private address', async () => {
+    const result = await new UrlExpander(fetcher).expand('https://bit.ly/rebind');
+
+    expect(result).to.include({ finalUrl: 'https://internal.example/admin', complete: false, error: 'redirects to a private address' });
+    expect(requested).to.deep.equal(['https://bit.ly/rebind']);
+
+    expect((await new UrlExpander(fetcher).expand('https://bit.ly/loopback')).error).to.equal('redirects to a private address');
+    expect(requested).to.deep.equal(['https://bit.ly/rebind', 'https://bit.ly/loopback']);
+  });
+
+  it('stops at a hop that does not resolve', async () => {
+    const result = await new UrlExpander(fetcher).expand('https://bit.ly/gone');
+
+    expect(result).to.include({ complete: false, error: 'nowhere.example does not resolve: ENOTFOUND' });
+    expect(requested).to.deep.equal(['https://bit.ly/gone']);
+  });
+});
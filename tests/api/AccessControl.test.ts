@@ -0,0 +1,191 @@
+import { expect } from 'chai';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { PermissionFlagsBits, PermissionsBitField } from 'discord.js';
+import { BehaviorAPI } from '../../src/api/BehaviorAPI';
+import { accessControl, guildIdFromRequest, GuildScopeError, Principal } from '../../src/api/AccessControl';
+import { ENV } from '../../src/config/environment';
+import { AuthService } from '../../src/services/AuthService';
+import { fakePool } from '../helpers';
+
+const MANAGE_GUILD = PermissionFlagsBits.ManageGuild;
+
+// Current guild permissions as the bot sees them: guild -> user -> permissions
+const members = new Map<string, Map<string, bigint>>();
+
+/**
+ * Discord client stand-in whose guilds hold the members above (owner of g-owned: u9)
+ */
+const client: any = {
+  guilds: {
+    cache: {
+      get: (guildId: string) => members.has(guildId) ? {
+        ownerId: 'u9',
+        members: {
+          fetch: async (userId: string) => {
+            const permissions = members.get(guildId)!.get(userId);
+            if (permissions === undefined) throw new Error('Unknown Member');
+            return { permissions: new PermissionsBitField(permissions) };
+          },
+        },
+      } : undefined,
+    },
+  },
+};
+
+/**
+ * A session principal; the guilds set the member's current permissions (the token carries none)
+ */
+function session(id: string, guilds: Array<{ id: string; permissions: bigint }>): Principal {
+  members.clear();
+  for (const guild of guilds) members.set(guild.id, new Map([[id, guild.permissions]]));
+  return {
+    type: 'session',
+    id,
+    name: `user-${id}`,
+    globalRole: null,
+    session: { userId: id, username: `user-${id}`, avatar: null, guilds: [], accessToken: '', refreshToken: '', expiresAt: 0 } as any,
+  };
+}
+
+function apiKey(guildIds: string[] | null, role: 'viewer' | 'admin' = 'admin'): Principal {
+  const key = { id: 'k1', name: 'ci', keyPrefix: 'becas_1', role, guildIds } as any;
+  return { type: 'api_key', id: 'k1', name: 'key:ci', globalRole: guildIds === null ? role : null, apiKey: key };
+}
+
+describe('AccessControl guild scoping', () => {
+  describe('guildIdFromRequest', () => {
+    it('takes the guild from whichever place names it', () => {
+      expect(guildIdFromRequest({ params: { guildId: 'g1' }, query: {}, body: {} } as any)).to.equal('g1');
+      expect(guildIdFromRequest({ params: {}, query: { serverId: 'g1' }, body: { serverId: 'g1' } } as any)).to.equal('g1');
+      expect(guildIdFromRequest({ params: {}, query: {}, body: {} } as any)).to.equal(null);
+    });
+
+    it('refuses requests naming different guilds or non-string IDs', () => {
+      expect(() => guildIdFromRequest({ params: { guildId: 'g1' }, query: { serverId: 'g2' }, body: {} } as any)).to.throw(GuildScopeError);
+      expect(() => guildIdFromRequest({ params: {}, query: { serverId: 'g1' }, body: { serverId: 'g2' } } as any)).to.throw(GuildScopeError);
+      expect(() => guildIdFromRequest({ params: {}, query: { serverId: ['g1', 'g2'] }, body: {} } as any)).to.throw(GuildScopeError);
+    });
+  });
+
+  describe('behavior routes', () => {
+    const db = fakePool();
+    let server: Server;
+    let baseUrl: string;
+    let principal: Principal;
+    const originalDb = (accessControl as any).db;
+
+    before(async () => {
+      accessControl.setClient(client);
+      (accessControl as any).db = { queryOne: async () => null, queryMany: async () => [], query: async () => ({ rows: [] }) };
+
+      const engine = { reload: async () => undefined } as any;
+      const app = express();
+      app.use(express.json());
+      app.use((_req, res, next) => {
+        res.locals.principal = principal;
+        next();
+      });
+      app.use('/api', new BehaviorAPI(db as any, {} as any, engine).getRouter());
+
+      await new Promise<void>(resolve => { server = app.listen(0, () => resolve()); });
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+    });
+
+    after(async () => {
+      (accessControl as any).client = undefined;
+      (accessControl as any).db = originalDb;
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => db.queries.length = 0);
+
+    const bdl = { name: 'Greeter', trigger: { type: 'event', event: 'guildMemberAdd' }, actions: [], safety: {} };
+
+    function create(body: any, query = '') {
+      return fetch(`${baseUrl}/behaviors${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+    }
+
+    it('records the authenticated user as creator, ignoring a userId in the body', async () => {
+      principal = session('u1', [{ id: 'g1', permissions: MANAGE_GUILD }]);
+
+      const response = await create({ serverId: 'g1', userId: 'someone-else', bdl });
+
+      expect(response.status).to.equal(200);
+      const [insert] = db.find('INSERT INTO dynamic_behaviors');
+      expect(insert.params.slice(1, 3)).to.deep.equal(['g1', 'u1']);
+    });
+
+    it('rejects a query guild the caller manages paired with a body guild they do not', async () => {
+      principal = session('u1', [{ id: 'g1', permissions: MANAGE_GUILD }]);
+
+      const response = await create({ serverId: 'g2', bdl }, '?serverId=g1');
+
+      expect(response.status).to.equal(400);
+      expect(db.find('INSERT INTO dynamic_behaviors')).to.have.length(0);
+    });
+
+    it('checks the body guild against the caller role and API key scope', async () => {
+      principal = session('u1', [{ id: 'g2', permissions: 0n }]);
+      expect((await create({ serverId: 'g2', bdl })).status).to.equal(403);
+
+      principal = apiKey(['g1']);
+      expect((await create({ serverId: 'g2', bdl })).status).to.equal(403);
+      expect((await create({ serverId: 'g1', bdl })).status).to.equal(200);
+      expect(db.find('INSERT INTO dynamic_behaviors')[0].params[2]).to.equal('k1');
+    });
+  });
+
+  describe('session roles', () => {
+    const secret = ENV.SESSION_SECRET;
+    const noGrants = { queryOne: async () => null };
+    let originalDb: any;
+
+    before(() => {
+      originalDb = (accessControl as any).db;
+      (accessControl as any).db = noGrants;
+      accessControl.setClient(client);
+    });
+
+    after(() => {
+      ENV.SESSION_SECRET = secret;
+      (accessControl as any).db = originalDb;
+      (accessControl as any).client = undefined;
+    });
+
+    it('follows the member\'s current permissions, not the ones in the token', async () => {
+      const principal = session('u1', [{ id: 'g1', permissions: PermissionFlagsBits.Administrator }]);
+      principal.session!.guilds = [{ id: 'g2', owner: true, permissions: '8' } as any];
+
+      expect(await accessControl.resolveRole(principal, 'g1')).to.equal('admin');
+      expect(await accessControl.resolveRole(principal, 'g2')).to.equal(null);
+
+      members.get('g1')!.set('u1', PermissionFlagsBits.ModerateMembers); // Admin role removed since login
+      expect(await accessControl.resolveRole(principal, 'g1')).to.equal(null);
+
+      members.get('g1')!.delete('u1'); // Left the guild
+      expect(await accessControl.resolveRole(principal, 'g1')).to.equal(null);
+      expect(await accessControl.resolveRole(session('u9', [{ id: 'g1', permissions: 0n }]), 'g1')).to.equal('owner');
+    });
+
+    it('refuses sessions while SESSION_SECRET is unset or the published default', () => {
+      const login = { userId: 'u1', username: 'u', avatar: null, guilds: [], accessToken: '', refreshToken: '', expiresAt: Date.now() + 60000 };
+
+      ENV.SESSION_SECRET = 'change_this_secret';
+      expect(AuthService.sessionsEnabled()).to.equal(false);
+      expect(() => AuthService.createSessionToken(login)).to.throw(/SESSION_SECRET/);
+
+      ENV.SESSION_SECRET = 'a-private-test-secret';
+      const token = AuthService.createSessionToken(login);
+      expect(AuthService.verifySessionToken(token)?.userId).to.equal('u1');
+
+      ENV.SESSION_SECRET = '';
+      expect(AuthService.verifySessionToken(token)).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { BecasCompensationStore } from '../../src/becasflow/core/BecasCompensation';
+import { addRoleTool } from '../../src/becasflow/tools/moderation/add_role.tool';
+import { timeoutTool } from '../../src/becasflow/tools/moderation/timeout.tool';
+import { fakePool } from '../helpers';
+
+const context: any = { guild: { id: 'g1' }, member: { id: 'mod1' } };
+const plan: any = { id: 'p1', query: 'timeout and add role', steps: [] };
+
+describe('BecasCompensationStore', () => {
+  it('skips inverses for state that existed before the plan', () => {
+    const store = new BecasCompensationStore(fakePool() as any);
+    const log = store.begin(plan, context);
+
+    store.record(log, 's1', addRoleTool, { userId: 'u1', roleId: 'r1' }, { success: true, data: { hadRole: true } });
+    store.record(log, 's2', timeoutTool, { userId: 'u1' }, { success: true, data: { previousTimeoutUntil: '2030-01-01T00:00:00.000Z' } });
+    expect(log.entries).to.have.length(0);
+
+    store.record(log, 's3', addRoleTool, { userId: 'u1', roleId: 'r2' }, { success: true, data: { hadRole: false } });
+    store.record(log, 's4', timeoutTool, { userId: 'u2' }, { success: true, data: { previousTimeoutUntil: null } });
+    expect(log.entries.map(e => e.inverse!.toolName)).to.deep.equal(['remove_role', 'remove_timeout']);
+  });
+
+  it('stores logs and finds them again after a restart', async () => {
+    const rows: any[] = [];
+    const pool = fakePool((sql, params) => {
+      if (sql.includes('INSERT INTO becasflow_compensation_logs')) {
+        const [guildId, planId, query, executedBy, entries, undone, createdAt] = params;
+        const row = { guild_id: guildId, plan_id: planId, query, executed_by: executedBy, entries, undone, created_at: createdAt };
+        const index = rows.findIndex(r => r.plan_id === planId);
+        if (index >= 0) rows[index] = row; else rows.push(row);
+      }
+      if (sql.includes('FROM becasflow_compensation_logs')) return rows;
+    });
+
+    const store = new BecasCompensationStore(pool as any);
+    const log = store.begin(plan, context);
+    store.record(log, 's1', addRoleTool, { userId: 'u1', roleId: 'r1' }, { success: true, data: { hadRole: false } });
+    await store.save(log);
+
+    const restarted = new BecasCompensationStore(pool as any);
+    const loaded = await restarted.getLastUndoable('g1');
+    expect(loaded!.planId).to.equal('p1');
+    expect(loaded!.entries[0].inverse!.params).to.deep.include({ userId: 'u1', roleId: 'r1' });
+
+    const executed: any[] = [];
+    const registry: any = { get: () => ({ execute: async (params: any) => { executed.push(params); return { success: true }; } }) };
+    const result = await restarted.undo(loaded!, context, registry);
+
+    expect(result.success).to.equal(true);
+    expect(executed).to.have.length(1);
+    expect(rows[0].undone).to.equal(true);
+    expect(await new BecasCompensationStore(pool as any).getLastUndoable('g1')).to.equal(undefined);
+  });
+
+  it('keeps working from memory when the database is unavailable', async () => {
+    const store = new BecasCompensationStore(fakePool(() => { throw new Error('connection refused'); }) as any);
+    const log = store.begin(plan, context);
+    store.record(log, 's1', addRoleTool, { userId: 'u1', roleId: 'r1' }, { success: true, data: { hadRole: false } });
+    await store.save(log);
+
+    expect((await store.getLastUndoable('g1'))!.planId).to.equal('p1');
+  });
+});
@@ -0,0 +1,67 @@
+import { expect } from 'chai';
+import { BecasDependencyGraph } from '../../src/becasflow/core/BecasDependencyGraph';
+import { BecasPlan, BecasStep } from '../../src/becasflow/types/BecasFlow.types';
+
+function plan(steps: BecasStep[]): BecasPlan {
+  return { id: 'p1', query: 'test', steps, metadata: { createdAt: 0 } } as BecasPlan;
+}
+
+const mutating = (step: BecasStep) => !step.toolName.startsWith('get_');
+
+describe('BecasDependencyGraph', () => {
+  it('orders steps by dependsOn and by references in params', () => {
+    const graph = BecasDependencyGraph.build(plan([
+      { id: 'a', toolName: 'get_user', params: {}, outputAs: 'user' },
+      { id: 'b', toolName: 'get_history', params: { userId: '{{user.id}}' } },
+      { id: 'c', toolName: 'get_other', params: {}, dependsOn: ['b'] },
+      { id: 'd', toolName: 'get_stats', params: {} },
+    ]));
+
+    expect(graph.dependenciesOf('b')).to.deep.equal(['a']);
+    expect(graph.dependenciesOf('c')).to.deep.equal(['b']);
+    expect(graph.dependenciesOf('d')).to.deep.equal([]);
+    expect(graph.branchCount).to.equal(2);
+  });
+
+  it('reports cycles and missing dependencies', () => {
+    const graph = BecasDependencyGraph.build(plan([
+      { id: 'a', toolName: 'x', params: {}, dependsOn: ['b'] },
+      { id: 'b', toolName: 'x', params: {}, dependsOn: ['a', 'ghost'] },
+    ]));
+
+    expect(graph.findCycle()).to.deep.equal(['a', 'b', 'a']);
+    expect(graph.findMissingDependencies()).to.deep.equal([{ stepId: 'b', depId: 'ghost' }]);
+  });
+
+  it('chains side-effecting steps in plan order and leaves read-only steps free', () => {
+    const graph = BecasDependencyGraph.build(plan([
+      { id: 'warn', toolName: 'warn', params: {} },
+      { id: 'lookup', toolName: 'get_user', params: {} },
+      { id: 'ban', toolName: 'ban', params: {} },
+      { id: 'add', toolName: 'add_role', params: {} },
+    ]), mutating);
+
+    expect(graph.dependenciesOf('ban')).to.deep.equal(['warn']);
+    expect(graph.dependenciesOf('add')).to.deep.equal(['ban']);
+    expect(graph.dependenciesOf('lookup')).to.deep.equal([]);
+  });
+
+  it('keeps an explicit reverse order instead of creating a cycle', () => {
+    const graph = BecasDependencyGraph.build(plan([
+      { id: 'ban', toolName: 'ban', params: {}, dependsOn: ['warn'] },
+      { id: 'warn', toolName: 'warn', params: {} },
+    ]), mutating);
+
+    expect(graph.findCycle()).to.equal(null);
+    expect(graph.dependenciesOf('warn')).to.deep.equal([]);
+  });
+
+  it('treats a step as side-effecting when a nested step is', () => {
+    const graph = BecasDependencyGraph.build(plan([
+      { id: 'kick', toolName: 'kick', params: {} },
+      { id: 'check', toolName: 'get_user', params: {}, ifTrue: [{ id: 'nested', toolName: 'ban', params: {} }] },
+    ]), mutating);
+
+    expect(graph.dependenciesOf('check')).to.deep.equal(['kick']);
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import { BecasExecutor } from '../../src/becasflow/core/BecasExecutor';
+import { BecasContext } from '../../src/becasflow/core/BecasContext';
+import { BecasToolRegistry } from '../../src/becasflow/registry/BecasToolRegistry';
+import { BecasPlan, BecasTool } from '../../src/becasflow/types/BecasFlow.types';
+
+const events: string[] = [];
+
+function tool(name: string, readOnly: boolean): BecasTool {
+  return {
+    name,
+    description: name,
+    category: 'utility',
+    parameters: {},
+    readOnly,
+    async execute() {
+      events.push(`start ${name}`);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      events.push(`end ${name}`);
+      return { success: true };
+    },
+  } as BecasTool;
+}
+
+describe('BecasExecutor concurrency', () => {
+  const registry = BecasToolRegistry.getInstance();
+  const tools = [tool('test_warn', false), tool('test_ban', false), tool('test_lookup', true)];
+
+  before(() => tools.forEach(t => registry.register(t)));
+  after(() => tools.forEach(t => registry.unregister(t.name)));
+  beforeEach(() => { events.length = 0; });
+
+  it('runs side-effecting steps one after another while read-only steps overlap', async () => {
+    const executor = new BecasExecutor(registry);
+    (executor as any).safetyValidator = { validate: async () => ({ safe: true }) };
+    const context = new BecasContext({ guild: { id: 'g1' }, channel: { id: 'c1' }, member: { id: 'm1' } } as any);
+
+    const plan = {
+      id: 'p1',
+      query: 'warn then ban',
+      steps: [
+        { id: 's1', toolName: 'test_warn', params: {} },
+        { id: 's2', toolName: 'test_ban', params: {} },
+        { id: 's3', toolName: 'test_lookup', params: {} },
+      ],
+      metadata: { createdAt: 0 },
+    } as BecasPlan;
+
+    const result = await executor.execute(plan, context, { maxConcurrency: 4 });
+
+    expect(result.success).to.equal(true);
+    expect(events.indexOf('end test_warn')).to.be.lessThan(events.indexOf('start test_ban'));
+    expect(events.indexOf('start test_lookup')).to.be.lessThan(events.indexOf('end test_warn'));
+    expect(result.results.map(r => r.stepId)).to.deep.equal(['s1', 's2', 's3']);
+  });
+});
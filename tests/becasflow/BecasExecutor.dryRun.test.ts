@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { BecasExecutor } from '../../src/becasflow/core/BecasExecutor';
+import { BecasContext } from '../../src/becasflow/core/BecasContext';
+import { BecasToolRegistry } from '../../src/becasflow/registry/BecasToolRegistry';
+import { BecasPlan, BecasTool } from '../../src/becasflow/types/BecasFlow.types';
+
+const executed: string[] = [];
+
+const lookupTool = {
+  name: 'dryrun_lookup',
+  description: 'Find spammers',
+  category: 'analytics',
+  parameters: {},
+  readOnly: true,
+  async execute() {
+    executed.push('lookup');
+    return { success: true, data: { userId: 'u1' } };
+  },
+} as BecasTool;
+
+const kickTool = {
+  name: 'dryrun_kick',
+  description: 'Kick a user',
+  category: 'moderation',
+  parameters: { userId: { type: 'userId', description: 'User', required: true } },
+  requiresConfirmation: true,
+  confirmationMessage: (params: any) => `Kick <@${params.userId}>?\nReason: none`,
+  async execute() {
+    executed.push('kick');
+    return { success: true };
+  },
+} as BecasTool;
+
+describe('BecasExecutor dry runs', () => {
+  const registry = BecasToolRegistry.getInstance();
+
+  before(() => [lookupTool, kickTool].forEach(t => registry.register(t)));
+  after(() => [lookupTool, kickTool].forEach(t => registry.unregister(t.name)));
+  beforeEach(() => { executed.length = 0; });
+
+  it('runs read-only steps for real and reports what the others would change', async () => {
+    const executor = new BecasExecutor(registry);
+    (executor as any).safetyValidator = { validate: async () => ({ safe: true }) };
+    const context = new BecasContext({
+      guild: { id: 'g1', members: { fetch: async () => ({ user: { tag: 'spammer#0001' } }) } },
+      channel: { id: 'c1' },
+      member: { id: 'mod1' },
+    } as any);
+
+    const plan = {
+      id: 'p1',
+      query: 'kick the spammer',
+      steps: [
+        { id: 'find', toolName: 'dryrun_lookup', params: {} },
+        { id: 'kick', toolName: 'dryrun_kick', params: { userId: '{{find.userId}}' } },
+      ],
+      metadata: { createdAt: 0 },
+    } as BecasPlan;
+
+    expect(executor.needsConfirmation(plan)).to.equal(true);
+
+    const preview = await executor.preview(plan, context);
+
+    expect(executed).to.deep.equal(['lookup']);
+    expect(preview.impact!.totals.users).to.equal(1);
+    expect(preview.impact!.irreversible).to.deep.equal(['kick']);
+    expect(preview.finalOutput).to.include('Kick <@u1>');
+    expect(preview.finalOutput).to.include('spammer#0001');
+    expect(preview.finalOutput).to.include('Cannot be undone: dryrun_kick');
+    expect(context.stepResults.size).to.equal(0);
+  });
+});
@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import { BecasFeedbackStore } from '../../src/becasflow/core/BecasFeedback';
+
+function plan(id: string, query: string, tools: string[]): any {
+  return { id, query, steps: tools.map((toolName, i) => ({ id: `s${i}`, toolName, params: {} })) };
+}
+
+const moderator = { userId: 'mod1', username: 'mod', role: 'moderator' as const };
+const member = { userId: 'u1', username: 'member', role: 'user' as const };
+
+describe('BecasFeedbackStore', () => {
+  const store = BecasFeedbackStore.getInstance();
+  const writes: any[][] = [];
+
+  before(() => {
+    (store as any).db = {
+      query: async (_sql: string, params: any[]) => { writes.push(params); },
+      queryMany: async () => [],
+    };
+  });
+
+  it('ignores feedback on plans it did not see', async () => {
+    expect(await store.submit({ planId: 'unknown', wasCorrect: true, providedBy: moderator })).to.equal(null);
+  });
+
+  it('turns accepted corrections into examples and tool adjustments for similar queries', async () => {
+    store.trackPlan(plan('fb1', 'remove spam messages from <@123456789>', ['warn']), 'fb-guild');
+    store.trackPlan(plan('fb2', 'remove spam messages quickly', ['delete_messages']), 'fb-guild');
+
+    const correction = await store.submit({
+      planId: 'fb1',
+      wasCorrect: false,
+      correction: { shouldHaveDone: 'Delete their messages', suggestedTools: ['delete_messages'] },
+      providedBy: moderator,
+    });
+    expect(correction!.accepted).to.equal(true);
+    expect(writes.pop()).to.include('fb1');
+
+    // Plain members' feedback is stored but not learned from
+    const ignored = await store.submit({ planId: 'fb2', wasCorrect: false, providedBy: member });
+    expect(ignored!.accepted).to.equal(false);
+
+    const corrections = await store.getCorrections('fb-guild', 'remove spam messages from <@987654321>');
+    expect(corrections.map(c => c.planId)).to.deep.equal(['fb1']);
+    expect(await store.getCorrections('fb-guild', 'ban the raiders')).to.deep.equal([]);
+
+    const adjustments = await store.getToolAdjustments('fb-guild', 'remove spam messages');
+    expect(adjustments.get('warn')).to.be.below(0);
+    expect(adjustments.get('delete_messages')).to.be.above(0);
+  });
+
+  it('measures query similarity without mentions and IDs', () => {
+    expect(BecasFeedbackStore.similarity('ban <@111111> for spam', 'ban <@222222> for spam')).to.equal(1);
+    expect(BecasFeedbackStore.similarity('ban spammers', 'welcome newcomers')).to.equal(0);
+  });
+});
@@ -0,0 +1,334 @@
+import { expect } from 'chai';
+import { PermissionFlagsBits, PermissionsBitField } from 'discord.js';
+import { actionScheduler } from '../../../src/advanced/ActionScheduler';
+import { banTool } from '../../../src/becasflow/tools/moderation/ban.tool';
+import { policyManagementTool } from '../../../src/becasflow/tools/PolicyManagementTool';
+import * as banCommand from '../../../src/commands/slash/ban';
+import * as behaviorCommand from '../../../src/commands/slash/behavior';
+import * as casesCommand from '../../../src/commands/slash/cases';
+import * as policyCommand from '../../../src/commands/slash/policy';
+import * as timeoutCommand from '../../../src/commands/slash/timeout';
+import * as warnCommand from '../../../src/commands/slash/warn';
+import * as watchCommand from '../../../src/commands/slash/watch';
+import * as databaseConfig from '../../../src/database/config';
+import { SicilRepository } from '../../../src/database/repositories/SicilRepository';
+import { GuildPolicyEngineDB } from '../../../src/intelligence/GuildPolicyEngineDB';
+import { fakePool } from '../../helpers';
+
+/**
+ * A guild slash command interaction from a member with the given permissions.
+ * `click` is the confirmation button the member presses (none: the prompt times out).
+ */
+function fakeInteraction(commandName: string, permissions: bigint[], options: Record<string, any>, click?: string) {
+  const replies: string[] = [];
+  const interaction: any = {
+    id: 'i1',
+    commandName,
+    guildId: 'g1',
+    channelId: 'c1',
+    guild: options.guild ?? { id: 'g1', name: 'Guild' },
+    channel: { id: 'c1' },
+    member: { id: 'mod1', user: { tag: 'mod#0001' }, permissions: new PermissionsBitField(permissions) },
+    user: { id: 'mod1', username: 'mod' },
+    memberPermissions: new PermissionsBitField(permissions),
+    deferred: false,
+    replied: false,
+    replies,
+    embeds: [] as any[],
+    inCachedGuild: () => true,
+    reply: async (reply: any) => { interaction.replied = true; replies.push(reply.content); },
+    deferReply: async () => { interaction.deferred = true; },
+    editReply: async (reply: any) => {
+      if (reply.content) replies.push(reply.content);
+      if (reply.embeds) interaction.embeds.push(...reply.embeds);
+      return {
+        awaitMessageComponent: async () => {
+          if (!click) throw new Error('Collector received no interactions before ending with reason: time');
+          return { customId: click, update: async (update: any) => { replies.push(update.content); } };
+        },
+      };
+    },
+    options: {
+      getSubcommand: () => options.subcommand,
+      getString: (name: string) => options[name] ?? null,
+      getBoolean: (name: string) => options[name] ?? null,
+      getInteger: (name: string) => options[name] ?? null,
+      getNumber: (name: string) => options[name] ?? null,
+      getChannel: (name: string) => options[name] ?? null,
+      getUser: (name: string) => options[name],
+    },
+  };
+  return interaction;
+}
+
+/**
+ * A BecasExecutor stand-in recording the single-step plans slash commands run.
+ * `run` executes the step (default: succeed without doing anything).
+ */
+function fakeExecutor(options: { confirm?: boolean; run?: (step: any, context: any) => Promise<any> } = {}) {
+  const runs: Array<{ toolName: string; params: any }> = [];
+  const executor: any = {
+    runs,
+    needsConfirmation: () => !!options.confirm,
+    preview: async () => ({ finalOutput: 'Would ban <@u1>' }),
+    execute: async (plan: any, context: any) => {
+      const step = plan.steps[0];
+      runs.push({ toolName: step.toolName, params: step.params });
+      const result = options.run ? await options.run(step, context) : { success: true };
+      return { results: [{ stepId: step.id, result }], errors: [] };
+    },
+  };
+  return executor;
+}
+
+function fakeAuditLogger() {
+  const events: any[] = [];
+  return { events, log: async (event: any) => { events.push(event); } };
+}
+
+const member = { id: 'u1', tag: 'member#0001', toString: () => '<@u1>' };
+
+describe('/behavior', () => {
+  const realGetPool = databaseConfig.getPostgresPool;
+  let pool: ReturnType<typeof fakePool>;
+
+  beforeEach(() => {
+    pool = fakePool(sql => (sql.startsWith('UPDATE dynamic_behaviors') ? [{ id: 'behavior-g1-1', name: 'Link Guard' }] : []));
+    (databaseConfig as any).getPostgresPool = () => pool;
+  });
+
+  afterEach(() => {
+    (databaseConfig as any).getPostgresPool = realGetPool;
+  });
+
+  it('needs Manage Server: moderators are turned away', async () => {
+    const interaction = fakeInteraction('behavior', [PermissionFlagsBits.ModerateMembers], { subcommand: 'list' });
+
+    await behaviorCommand.execute(interaction, {});
+
+    expect(interaction.replies[0]).to.include('**Manage Server**');
+    expect(pool.queries).to.have.length(0);
+    expect(behaviorCommand.data.toJSON().default_member_permissions).to.equal(PermissionFlagsBits.ManageGuild.toString());
+  });
+
+  it('reloads only the toggled behavior', async () => {
+    const reloaded: string[] = [];
+    const behaviorEngine: any = {
+      reloadBehavior: async (id: string) => { reloaded.push(id); },
+      reload: async () => { throw new Error('full reload'); },
+    };
+    const interaction = fakeInteraction('behavior', [PermissionFlagsBits.Administrator], {
+      subcommand: 'toggle', behavior: 'behavior-g1-1', enabled: false,
+    });
+
+    await behaviorCommand.execute(interaction, { behaviorEngine });
+
+    expect(pool.find('UPDATE dynamic_behaviors')[0].params).to.deep.equal(['g1', 'behavior-g1-1', false]);
+    expect(reloaded).to.deep.equal(['behavior-g1-1']);
+    expect(interaction.replies).to.deep.equal(['⏸️ Disabled behavior: **Link Guard**']);
+  });
+});
+
+describe('/cases', () => {
+  const originals = {
+    getSicilSummary: SicilRepository.prototype.getSicilSummary,
+    getModerationCases: SicilRepository.prototype.getModerationCases,
+  };
+
+  afterEach(() => {
+    Object.assign(SicilRepository.prototype, originals);
+  });
+
+  it('shows the member\'s moderation cases up to the limit', async () => {
+    const requested: number[] = [];
+    SicilRepository.prototype.getSicilSummary = async () => ({
+      total_warnings: 2, total_timeouts: 1, total_kicks: 0, total_bans: 0, risk_category: 'watch', clean_streak_days: 3,
+    } as any);
+    SicilRepository.prototype.getModerationCases = async (_serverId, _userId, limit) => {
+      requested.push(limit!);
+      return [{ moderation_action: 'timeout', timestamp: new Date(), moderator_id: 'mod1', metadata: { reason: 'spam' } } as any];
+    };
+    const user = { id: 'u1', tag: 'member#0001', displayAvatarURL: () => 'https://cdn.example.com/a.png' };
+    const interaction = fakeInteraction('cases', [PermissionFlagsBits.ModerateMembers], { user, limit: 5 });
+
+    await casesCommand.execute(interaction, {});
+
+    expect(requested).to.deep.equal([5]);
+    const fields = interaction.embeds[0].toJSON().fields;
+    expect(fields.find((f: any) => f.name === 'Recent Cases (1)').value).to.include('**timeout**').and.include('by <@mod1>');
+  });
+});
+
+describe('slash command confirmation', () => {
+  it('runs the tool once the moderator confirms', async () => {
+    const executor = fakeExecutor({ confirm: true });
+    const auditLogger = fakeAuditLogger();
+    const interaction = fakeInteraction('ban', [PermissionFlagsBits.BanMembers], { user: member, reason: 'raid' }, 'slash_confirm_yes');
+
+    await banCommand.execute(interaction, { executor, auditLogger: auditLogger as any });
+
+    expect(executor.runs).to.have.length(1);
+    expect(interaction.replies).to.deep.equal(['Would ban <@u1>\n\nProceed?', '⏳ Running...', '🔨 Banned <@u1> — raid']);
+    expect(auditLogger.events.map(e => [e.type, e.action, e.success])).to.deep.equal([['command_executed', '/ban', true]]);
+  });
+
+  it('does nothing when the moderator cancels', async () => {
+    const executor = fakeExecutor({ confirm: true });
+    const auditLogger = fakeAuditLogger();
+    const interaction = fakeInteraction('ban', [PermissionFlagsBits.BanMembers], { user: member, reason: 'raid' }, 'slash_confirm_no');
+
+    await banCommand.execute(interaction, { executor, auditLogger: auditLogger as any });
+
+    expect(executor.runs).to.have.length(0);
+    expect(interaction.replies.slice(1)).to.deep.equal(['✗ Cancelled']);
+    expect(auditLogger.events).to.have.length(0);
+  });
+
+  it('does nothing when the prompt times out', async () => {
+    const executor = fakeExecutor({ confirm: true });
+    const interaction = fakeInteraction('ban', [PermissionFlagsBits.BanMembers], { user: member, reason: 'raid' });
+
+    await banCommand.execute(interaction, { executor });
+
+    expect(executor.runs).to.have.length(0);
+    expect(interaction.replies.slice(1)).to.deep.equal(['⏱️ Timed out, nothing was done.']);
+  });
+});
+
+describe('slash command permissions', () => {
+  it('audits a denied command', async () => {
+    const executor = fakeExecutor();
+    const auditLogger = fakeAuditLogger();
+    const interaction = fakeInteraction('warn', [], { user: member, reason: 'spam' });
+
+    await warnCommand.execute(interaction, { executor, auditLogger: auditLogger as any });
+
+    expect(executor.runs).to.have.length(0);
+    expect(interaction.replies).to.deep.equal(['❌ You need the **Moderate Members** permission to use `/warn`.']);
+    expect(auditLogger.events).to.have.length(1);
+    expect(auditLogger.events[0]).to.include({ type: 'command_denied', action: '/warn', success: false, guildId: 'g1', actorId: 'mod1' });
+    expect(auditLogger.events[0].details).to.deep.equal({ required: 'Moderate Members' });
+  });
+});
+
+describe('slash moderation commands', () => {
+  it('pass their options to the warn, timeout and ban tools', async () => {
+    const executor = fakeExecutor();
+    const moderator = [PermissionFlagsBits.ModerateMembers, PermissionFlagsBits.BanMembers];
+
+    await warnCommand.execute(fakeInteraction('warn', moderator, { user: member, reason: 'spam', severity: 'high', dm: false }), { executor });
+    await timeoutCommand.execute(fakeInteraction('timeout', moderator, { user: member, reason: 'spam', duration: 10 }), { executor });
+    await banCommand.execute(fakeInteraction('ban', moderator, { user: member, reason: 'raid', delete_days: 3 }), { executor });
+
+    expect(executor.runs).to.deep.equal([
+      { toolName: 'warn', params: { userId: 'u1', reason: 'spam', severity: 'high', dmUser: false } },
+      { toolName: 'timeout', params: { userId: 'u1', duration: 10 * 60 * 1000, reason: 'spam' } },
+      { toolName: 'ban', params: { userId: 'u1', reason: 'raid', deleteMessageDays: 3 } },
+    ]);
+  });
+
+  it('/ban with delete_days 0 deletes no messages', async () => {
+    const originalCancel = actionScheduler.cancel;
+    (actionScheduler as any).cancel = async () => false;
+    const bans: any[] = [];
+    const guild = {
+      id: 'g1',
+      name: 'Guild',
+      members: {
+        fetch: async () => { throw new Error('Unknown Member'); },
+        ban: async (userId: string, options: any) => { bans.push({ userId, ...options }); },
+      },
+    };
+    const executor = fakeExecutor({ run: (step, context) => banTool.execute(step.params, context) });
+    const interaction = fakeInteraction('ban', [PermissionFlagsBits.BanMembers], { user: member, reason: 'raid', delete_days: 0, guild });
+
+    try {
+      await banCommand.execute(interaction, { executor });
+    } finally {
+      (actionScheduler as any).cancel = originalCancel;
+    }
+
+    expect(bans).to.have.length(1);
+    expect(bans[0].deleteMessageSeconds).to.equal(0);
+  });
+});
+
+describe('/policy', () => {
+  const originals = {
+    getAllGuildPolicies: GuildPolicyEngineDB.prototype.getAllGuildPolicies,
+    updatePolicy: GuildPolicyEngineDB.prototype.updatePolicy,
+  };
+
+  afterEach(() => {
+    Object.assign(GuildPolicyEngineDB.prototype, originals);
+  });
+
+  it('re-activates an inactive policy', async () => {
+    const policy = { id: 'a1b2c3d4-0000', ruleText: 'No invite links', isActive: false, severity: 'medium', actionType: 'warn' } as any;
+    const updates: any[] = [];
+    GuildPolicyEngineDB.prototype.getAllGuildPolicies = async () => [policy];
+    GuildPolicyEngineDB.prototype.updatePolicy = async (id: string, changes: any) => { updates.push([id, changes]); return true; };
+    const cleared: string[] = [];
+    const policyEngine: any = {
+      getAllGuildPolicies: async () => [policy],
+      clearCache: (guildId: string) => { cleared.push(guildId); },
+    };
+    const executor = fakeExecutor({ run: (step, context) => policyManagementTool.execute(step.params, context) });
+    const interaction = fakeInteraction('policy', [PermissionFlagsBits.Administrator], {
+      subcommand: 'toggle', policy: 'a1b2c3d4', active: true,
+    });
+
+    await policyCommand.execute(interaction, { executor, policyEngine });
+
+    expect(updates).to.deep.equal([['a1b2c3d4-0000', { isActive: true }]]);
+    expect(cleared).to.deep.equal(['g1']);
+    expect(interaction.replies).to.deep.equal(['✅ Enabled policy: **No invite links**']);
+  });
+});
+
+describe('/watch', () => {
+  function fakeWatchSystem() {
+    const watches = [
+      { id: 'watch_g1', guildId: 'g1' },
+      { id: 'watch_g2', guildId: 'g2' },
+    ];
+    const created: any[] = [];
+    const cancelled: string[] = [];
+    const watchSystem: any = {
+      created,
+      cancelled,
+      getActiveWatches: (guildId: string) => watches.filter(w => w.guildId === guildId),
+      cancelWatch: (id: string) => { cancelled.push(id); return true; },
+      createWatch: async (options: any) => { created.push(options); return 'watch_new'; },
+    };
+    return watchSystem;
+  }
+
+  it('needs Kick Members for a kick watch', async () => {
+    const watchSystem = fakeWatchSystem();
+    const options = { subcommand: 'create', user: member, condition: 'toxicity', action: 'kick' };
+
+    const moderator = fakeInteraction('watch', [PermissionFlagsBits.ModerateMembers], options);
+    await watchCommand.execute(moderator, { watchSystem });
+
+    expect(watchSystem.created).to.have.length(0);
+    expect(moderator.replies).to.deep.equal(['❌ You need the **Kick Members** permission to use `/watch`.']);
+
+    const kicker = fakeInteraction('watch', [PermissionFlagsBits.ModerateMembers, PermissionFlagsBits.KickMembers], options);
+    await watchCommand.execute(kicker, { watchSystem });
+
+    expect(watchSystem.created.map((w: any) => w.actions[0].action_id)).to.deep.equal(['kick']);
+  });
+
+  it('will not cancel another guild\'s watch', async () => {
+    const watchSystem = fakeWatchSystem();
+    const auditLogger = fakeAuditLogger();
+    const interaction = fakeInteraction('watch', [PermissionFlagsBits.ModerateMembers], { subcommand: 'cancel', id: 'watch_g2' });
+
+    await watchCommand.execute(interaction, { watchSystem, auditLogger: auditLogger as any });
+
+    expect(watchSystem.cancelled).to.have.length(0);
+    expect(interaction.replies).to.deep.equal(['❌ No active watch with ID `watch_g2`']);
+    expect(auditLogger.events[0]).to.include({ action: '/watch cancel', success: false, error: 'Watch not found' });
+  });
+});
@@ -0,0 +1,141 @@
+import { expect } from 'chai';
+import { ConfigBundleService } from '../../src/config/bundles/ConfigBundleService';
+import { ConfigBundleStore } from '../../src/config/bundles/ConfigBundleStore';
+import { GuildConfigManager } from '../../src/config/GuildConfig';
+import { fakePool } from '../helpers';
+
+/**
+ * Postgres stand-in for the tables a bundle touches (no behaviors). BEGIN
+ * snapshots the rows and ROLLBACK restores them; failCommit makes COMMIT throw.
+ */
+function fakeDatabase() {
+  let state = { policies: [] as any[], alerts: null as any, versions: [] as any[] };
+  let snapshot = '';
+  const db = { failCommit: false, get state() { return state; } };
+
+  const pool = fakePool((sql, params) => {
+    const statement = sql.trim();
+    if (statement === 'BEGIN') snapshot = JSON.stringify(state);
+    if (statement === 'ROLLBACK') state = JSON.parse(snapshot);
+    if (statement === 'COMMIT' && db.failCommit) throw new Error('could not serialize access');
+
+    if (sql.includes('FROM guild_policies')) return state.policies.filter(p => p.is_active);
+    if (sql.includes('INSERT INTO guild_policies')) {
+      const [, rule, interpretation, category, action, actionParams, severity, channelId] = params;
+      state.policies.push({
+        id: `p${state.policies.length + 1}`, rule_text: rule, ai_interpretation: interpretation, category,
+        action_type: action, action_params: JSON.parse(actionParams), severity, source_channel_id: channelId, is_active: true,
+      });
+    }
+    if (sql.includes('SET is_active = false')) {
+      for (const policy of state.policies) if (params[0].includes(policy.id)) policy.is_active = false;
+    }
+
+    if (sql.includes('FROM alert_preferences')) return state.alerts ? [{ preferences: state.alerts }] : [];
+    if (sql.includes('INSERT INTO alert_preferences')) state.alerts = JSON.parse(params[1]);
+
+    if (sql.includes('INSERT INTO config_bundle_versions')) {
+      const [guildId, source, bundleName, bundle, hash, batchId, restoredVersion, note, createdBy] = params;
+      const row = {
+        guild_id: guildId, version: state.versions.length + 1, source, bundle_name: bundleName, bundle: JSON.parse(bundle),
+        hash, batch_id: batchId, restored_version: restoredVersion, note, created_by: createdBy, created_at: new Date(),
+      };
+      state.versions.push(row);
+      return [row];
+    }
+    if (sql.includes('ORDER BY version DESC LIMIT 1')) return state.versions.slice(-1);
+    if (sql.includes('FROM config_bundle_versions')) return state.versions.filter(v => v.version === params[1]);
+
+    return [];
+  });
+
+  return Object.assign(db, { pool });
+}
+
+const STRICT = {
+  version: 1,
+  name: 'strict',
+  config: { moderation: { warningThreshold: 80 } },
+  policies: [{ rule: 'No invite links', action: 'timeout', duration: 600, severity: 'medium' }],
+  alerts: { minSeverity: 'high' },
+};
+
+const RELAXED = {
+  version: 1,
+  name: 'relaxed',
+  config: { moderation: { warningThreshold: 40 } },
+  policies: [{ rule: 'Be kind', action: 'warn', severity: 'low' }],
+};
+
+describe('ConfigBundleService', () => {
+  let db: ReturnType<typeof fakeDatabase>;
+  let configManager: GuildConfigManager;
+  let service: ConfigBundleService;
+
+  beforeEach(() => {
+    db = fakeDatabase();
+    configManager = new GuildConfigManager({ read: async () => null, write: async () => undefined } as any);
+    service = new ConfigBundleService(new ConfigBundleStore(db.pool as any), db.pool as any);
+    service.attach({ configManager });
+  });
+
+  it('keeps the setup before the first bundle and diffs any two versions', async () => {
+    const result = await service.apply('g1', STRICT, { appliedBy: 'admin' });
+
+    expect(result).to.include({ status: 'applied', version: 2 });
+    expect(db.state.versions.map(v => v.source)).to.deep.equal(['snapshot', 'apply']);
+    expect(configManager.getConfig('g1').moderation.warningThreshold).to.equal(80);
+
+    const changes = await service.diff('g1', 1, 2);
+    expect(changes!.map(c => `${c.change} ${c.path}`)).to.have.members([
+      'changed config.moderation.warningThreshold',
+      'added policies["No invite links"]',
+      'changed alerts.minSeverity',
+    ]);
+    expect(await service.diff('g1', 2, 'current')).to.deep.equal([]);
+    expect(await service.diff('g1', 1, 7)).to.equal(null);
+
+    expect(await service.apply('g1', STRICT, { appliedBy: 'admin' })).to.include({ status: 'unchanged', version: 2 });
+  });
+
+  it('rolls back to the version before the latest', async () => {
+    await service.apply('g1', STRICT, { appliedBy: 'admin' });
+    await service.apply('g1', RELAXED, { appliedBy: 'admin' });
+    expect(db.state.policies.filter(p => p.is_active).map(p => p.rule_text)).to.deep.equal(['Be kind']);
+
+    const result = await service.rollback('g1', { appliedBy: 'admin' });
+
+    expect(result).to.include({ status: 'applied', version: 4 });
+    expect(db.state.versions[3]).to.include({ source: 'rollback', restored_version: 2, note: 'Rollback to version 2' });
+    expect(db.state.policies.filter(p => p.is_active).map(p => p.rule_text)).to.deep.equal(['No invite links']);
+    expect(configManager.getConfig('g1').moderation.warningThreshold).to.equal(80);
+    expect(await service.diff('g1', 2, 'current')).to.deep.equal([]);
+
+    expect(await service.rollback('g1', { appliedBy: 'admin', version: 9 })).to.equal(null);
+  });
+
+  it('records no version when the configuration cannot be applied', async () => {
+    await service.apply('g1', STRICT, { appliedBy: 'admin' });
+    configManager.updateConfig = async () => { throw new Error('disk full'); };
+
+    let error: Error | undefined;
+    await service.apply('g1', RELAXED, { appliedBy: 'admin' }).catch(e => { error = e; });
+
+    expect(error?.message).to.equal('disk full');
+    expect(db.state.versions).to.have.length(2);
+    expect(db.state.policies.filter(p => p.is_active).map(p => p.rule_text)).to.deep.equal(['No invite links']);
+  });
+
+  it('puts the configuration back when the commit fails', async () => {
+    await service.apply('g1', STRICT, { appliedBy: 'admin' });
+    db.failCommit = true;
+
+    let error: Error | undefined;
+    await service.apply('g1', RELAXED, { appliedBy: 'admin' }).catch(e => { error = e; });
+
+    expect(error?.message).to.equal('could not serialize access');
+    expect(db.state.versions).to.have.length(2);
+    expect(configManager.getConfig('g1').moderation.warningThreshold).to.equal(80);
+    expect(await service.diff('g1', 2, 'current')).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from 'chai';
+import { BehaviorEngine } from '../../src/core/BehaviorEngine';
+import { fakeClient, fakePool } from '../helpers';
+
+const rows = [
+  {
+    id: 'flaky', server_id: 'g1', name: 'Flaky', enabled: true,
+    trigger: { type: 'schedule', cron: '0 9 * * *' }, actions: [],
+    safety: { disableOnErrors: true, disableAfterFailures: 2 },
+  },
+  { id: 'steady', server_id: 'g1', name: 'Steady', enabled: true, trigger: { type: 'schedule', cron: '0 10 * * *' }, actions: [] },
+];
+
+describe('BehaviorEngine failure handling', () => {
+  let engine: BehaviorEngine;
+  let pool: ReturnType<typeof fakePool>;
+  let enabled: Record<string, boolean>;
+
+  beforeEach(async () => {
+    enabled = { flaky: true, steady: true };
+    pool = fakePool((sql, params) => {
+      if (sql.includes('WHERE enabled = true') && !sql.includes('id = $1')) return rows.filter(r => enabled[r.id]);
+      if (sql.includes('SELECT * FROM dynamic_behaviors WHERE id = $1')) return rows.filter(r => r.id === params[0] && enabled[r.id]);
+      if (sql.includes('SELECT enabled FROM dynamic_behaviors')) return [{ enabled: enabled[params[0]] }];
+    });
+    engine = new BehaviorEngine(pool as any, fakeClient());
+    await engine.loadBehaviors();
+  });
+
+  afterEach(() => engine.shutdown());
+
+  const fail = (id: string) => (engine as any).handleBehaviorFailure(engine.getBehavior(id), 'boom');
+  const fullReloads = () => pool.find('SELECT * FROM dynamic_behaviors WHERE enabled = true').length;
+
+  it('disables after the configured number of consecutive failures without reloading other behaviors', async () => {
+    await fail('flaky');
+    expect(engine.getBehavior('flaky')).to.exist;
+
+    await fail('flaky');
+    expect(pool.find('SET enabled = false')).to.have.length(1);
+    expect(engine.getBehavior('flaky')).to.equal(undefined);
+    expect([...(engine as any).scheduledJobs.keys()]).to.deep.equal(['steady']);
+    expect(fullReloads()).to.equal(1);
+  });
+
+  it('unloads a behavior the database disabled for too many total errors', async () => {
+    enabled.steady = false;
+    await fail('steady');
+
+    expect(engine.getBehavior('steady')).to.equal(undefined);
+    expect(engine.getBehavior('flaky')).to.exist;
+    expect(fullReloads()).to.equal(1);
+  });
+
+  it('reloads a single behavior', async () => {
+    const steadyJob = (engine as any).scheduledJobs.get('steady');
+
+    enabled.flaky = false;
+    await engine.reloadBehavior('flaky');
+    expect(engine.getBehavior('flaky')).to.equal(undefined);
+
+    enabled.flaky = true;
+    await engine.reloadBehavior('flaky');
+    expect(engine.getBehavior('flaky')).to.exist;
+    expect((engine as any).scheduledJobs.get('steady')).to.equal(steadyJob);
+    expect(fullReloads()).to.equal(1);
+  });
+});
@@ -0,0 +1,154 @@
+import { expect } from 'chai';
+import { BehaviorEngine } from '../../src/core/BehaviorEngine';
+import { BDLBehavior, BehaviorParser } from '../../src/services/BehaviorParser';
+import { ConditionEvaluator } from '../../src/services/ConditionEvaluator';
+import { fakeClient, fakePool } from '../helpers';
+
+function behavior(trigger: any, overrides: Partial<BDLBehavior> = {}): BDLBehavior {
+  return { id: 'b1', name: 'Test', trigger, actions: [{ type: 'log', message: 'x' }], ...overrides } as BDLBehavior;
+}
+
+function message(content: string): any {
+  return { content, mentions: { users: new Map() }, attachments: new Map() };
+}
+
+describe('BehaviorEngine triggers', () => {
+  let engine: BehaviorEngine;
+
+  beforeEach(() => {
+    engine = new BehaviorEngine(fakePool() as any, fakeClient());
+  });
+
+  afterEach(() => engine.shutdown());
+
+  describe('event triggers', () => {
+    it('matches the event and applies filters', () => {
+      const b = behavior({ type: 'event', event: 'messageCreate', filters: { channelId: 'c1' } });
+
+      expect(engine.explainTrigger(b, 'messageCreate', { triggeredChannelId: 'c1' }, new Map(), 0).matched).to.equal(true);
+      const other = engine.explainTrigger(b, 'messageCreate', { triggeredChannelId: 'c2' }, new Map(), 0);
+      expect(other.matched).to.equal(false);
+      expect(other.filters[0]).to.include({ filter: 'channelId', passed: false });
+      expect(engine.explainTrigger(b, 'guildMemberAdd', {}, new Map(), 0).matched).to.equal(false);
+    });
+  });
+
+  describe('pattern triggers', () => {
+    it('fires once the rate is reached inside the window, then resets', () => {
+      const b = behavior({ type: 'pattern', pattern: '3 messages in 10 seconds' });
+      const windows = new Map<string, number[]>();
+      const event = { triggeredBy: 'u1', message: message('hi') };
+
+      expect(engine.explainTrigger(b, 'messageCreate', event, windows, 0).matched).to.equal(false);
+      expect(engine.explainTrigger(b, 'messageCreate', event, windows, 1000).matched).to.equal(false);
+      expect(engine.explainTrigger(b, 'messageCreate', event, windows, 2000).matched).to.equal(true);
+      // Window was reset after firing
+      expect(engine.explainTrigger(b, 'messageCreate', event, windows, 3000).matched).to.equal(false);
+    });
+
+    it('drops events that fell out of the window', () => {
+      const b = behavior({ type: 'pattern', pattern: '2 messages in 10 seconds' });
+      const windows = new Map<string, number[]>();
+      const event = { triggeredBy: 'u1', message: message('hi') };
+
+      engine.explainTrigger(b, 'messageCreate', event, windows, 0);
+      expect(engine.explainTrigger(b, 'messageCreate', event, windows, 11000).matched).to.equal(false);
+    });
+
+    it('counts per user by default and per channel when scoped', () => {
+      const perUser = behavior({ type: 'pattern', pattern: '2 messages in 1 minute' });
+      const perChannel = behavior({ type: 'pattern', pattern: '2 messages in 1 minute', scope: 'channel' }, { id: 'b2' });
+      const windows = new Map<string, number[]>();
+      const a = { triggeredBy: 'u1', triggeredChannelId: 'c1', message: message('hi') };
+      const b = { triggeredBy: 'u2', triggeredChannelId: 'c1', message: message('hi') };
+
+      engine.explainTrigger(perUser, 'messageCreate', a, windows, 0);
+      expect(engine.explainTrigger(perUser, 'messageCreate', b, windows, 1).matched).to.equal(false);
+
+      engine.explainTrigger(perChannel, 'messageCreate', a, windows, 0);
+      expect(engine.explainTrigger(perChannel, 'messageCreate', b, windows, 1).matched).to.equal(true);
+    });
+
+    it('only counts messages with links for link patterns', () => {
+      const b = behavior({ type: 'pattern', pattern: '2 links in 1 minute' });
+      const windows = new Map<string, number[]>();
+
+      engine.explainTrigger(b, 'messageCreate', { triggeredBy: 'u1', message: message('no link') }, windows, 0);
+      engine.explainTrigger(b, 'messageCreate', { triggeredBy: 'u1', message: message('https://a.example') }, windows, 1);
+      expect(engine.explainTrigger(b, 'messageCreate', { triggeredBy: 'u1', message: message('http://b.example') }, windows, 2).matched)
+        .to.equal(true);
+    });
+
+    it('treats other patterns as a content regex', () => {
+      const b = behavior({ type: 'pattern', pattern: 'free\\s+nitro' });
+
+      expect(engine.explainTrigger(b, 'messageCreate', { message: message('Get FREE  nitro now') }, new Map(), 0).matched).to.equal(true);
+      expect(engine.explainTrigger(b, 'messageCreate', { message: message('hello') }, new Map(), 0).matched).to.equal(false);
+      expect(engine.explainTrigger(b, 'guildMemberAdd', {}, new Map(), 0).matched).to.equal(false);
+    });
+  });
+
+  describe('schedule and condition triggers', () => {
+    const rows = [
+      { id: 's1', server_id: 'g1', name: 'Daily', enabled: true, trigger: { type: 'schedule', cron: '0 9 * * *' }, actions: [] },
+      { id: 's2', server_id: 'g1', name: 'Broken', enabled: true, trigger: { type: 'schedule', cron: 'not a cron' }, actions: [] },
+      { id: 'c1', server_id: 'g1', name: 'Raid', enabled: true, trigger: { type: 'condition', check: 'joinsLastHour > 1', interval: '1m' }, actions: [] },
+    ];
+
+    it('registers a cron job per valid schedule and a poller per condition', async () => {
+      engine = new BehaviorEngine(fakePool(sql => (sql.includes('FROM dynamic_behaviors') ? rows : [])) as any, fakeClient());
+      await engine.loadBehaviors();
+
+      expect([...(engine as any).scheduledJobs.keys()]).to.deep.equal(['s1']);
+      expect([...(engine as any).conditionTimers.keys()]).to.deep.equal(['c1']);
+
+      engine.shutdown();
+      expect((engine as any).scheduledJobs.size).to.equal(0);
+      expect((engine as any).conditionTimers.size).to.equal(0);
+    });
+
+    it('fires a condition trigger only when the check turns true', async () => {
+      const ticks: Array<() => Promise<void>> = [];
+      const realSetInterval = global.setInterval;
+      (global as any).setInterval = (fn: () => Promise<void>) => {
+        ticks.push(fn);
+        return realSetInterval(() => undefined, 1 << 30);
+      };
+
+      try {
+        engine = new BehaviorEngine(fakePool(sql => (sql.includes('FROM dynamic_behaviors') ? [rows[2]] : [])) as any, fakeClient());
+        await engine.loadBehaviors();
+      } finally {
+        global.setInterval = realSetInterval;
+      }
+
+      const fired: string[] = [];
+      (engine as any).executeBehavior = async (b: BDLBehavior, context: any) => { fired.push(context.event); };
+
+      await ticks[0](); // 0 joins: false
+      await engine.handleEvent('guildMemberAdd', { serverId: 'g1' });
+      await engine.handleEvent('guildMemberAdd', { serverId: 'g1' });
+      await ticks[0](); // 2 joins: turns true
+      await ticks[0](); // still true: no re-fire
+
+      expect(fired).to.deep.equal(['condition']);
+    });
+  });
+
+  describe('validation', () => {
+    const parser = new BehaviorParser();
+
+    it('requires a check for condition triggers and a pattern for pattern triggers', () => {
+      expect(() => parser.validateBDL(behavior({ type: 'condition' }))).to.throw(/check expression/);
+      expect(() => parser.validateBDL(behavior({ type: 'pattern' }))).to.throw(/pattern/);
+      expect(() => parser.validateBDL(behavior({ type: 'condition', check: 'memberCount > 10' }))).not.to.throw();
+    });
+
+    it('evaluates condition checks against server state', () => {
+      const evaluator = new ConditionEvaluator();
+      expect(evaluator.evaluateVariables('joinsLastHour > 5 && server.memberCount < 100', { joinsLastHour: 6, server: { memberCount: 50 } }))
+        .to.equal(true);
+      expect(evaluator.evaluateVariables('joinsLastHour > 5', { joinsLastHour: 1 })).to.equal(false);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { expect } from 'chai';
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { FederationIdentity } from '../../src/federation/FederationIdentity';
+import { FederationNode } from '../../src/federation/FederationNode';
+import { createMessage } from '../../src/federation/FederationProtocol';
+import { fakePool } from '../helpers';
+
+/**
+ * In-memory stand-in for the tables one instance's node reads and writes
+ */
+function instanceDb() {
+  const state = {
+    outbox: [] as Array<{ seq: number; message_type: string; message: any; uncommitted?: boolean }>,
+    peers: new Map<string, any>(),
+    seen: new Set<string>(),
+    threats: [] as any[][],
+    bans: [] as any[][],
+    reputation: [] as any[][],
+    failReputation: false,
+  };
+
+  const pool = fakePool((sql, params) => {
+    if (sql.includes('INSERT INTO federation_outbox')) {
+      state.outbox.push({ seq: state.outbox.length + 1, message_type: params[1], message: JSON.parse(params[2]) });
+    } else if (sql.includes('SELECT seq, message FROM federation_outbox')) {
+      const [since, types, limit] = params;
+      return state.outbox
+        .filter(row => !row.uncommitted && row.seq > since && types.includes(row.message_type))
+        .slice(0, limit);
+    } else if (sql.includes('INSERT INTO federation_peers')) {
+      const [instanceId, name, baseUrl, publicKey, level] = params;
+      const row = {
+        instance_id: instanceId, name, base_url: baseUrl, public_key: publicKey, federation_level: level,
+        is_active: true, last_pull_seq: state.peers.get(instanceId)?.last_pull_seq || 0, created_at: new Date(),
+      };
+      state.peers.set(instanceId, row);
+      return [row];
+    } else if (sql.includes('FROM federation_peers WHERE instance_id')) {
+      return state.peers.has(params[0]) ? [state.peers.get(params[0])] : [];
+    } else if (sql.includes('FROM federation_peers')) {
+      return [...state.peers.values()];
+    } else if (sql.includes('SET last_pull_seq')) {
+      const peer = state.peers.get(params[0]);
+      peer.last_pull_seq = Math.max(peer.last_pull_seq, params[1]);
+    } else if (sql.includes('INSERT INTO federation_seen_messages')) {
+      if (state.seen.has(params[0])) return [];
+      state.seen.add(params[0]);
+      return [{ message_id: params[0] }];
+    } else if (sql.includes('DELETE FROM federation_seen_messages WHERE message_id')) {
+      state.seen.delete(params[0]);
+    } else if (sql.includes('INSERT INTO shared_threats')) {
+      state.threats.push(params);
+      return [{ id: state.threats.length }];
+    } else if (sql.includes('INSERT INTO global_ban_list')) {
+      state.bans.push(params);
+    } else if (sql.includes('INSERT INTO global_reputation')) {
+      if (state.failReputation) throw new Error('connection reset');
+      state.reputation.push(params);
+    }
+  });
+
+  return { pool, state };
+}
+
+function identity(): FederationIdentity {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  process.env.FEDERATION_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  try {
+    return FederationIdentity.load();
+  } finally {
+    delete process.env.FEDERATION_PRIVATE_KEY;
+  }
+}
+
+function baseUrl(node: FederationNode): string {
+  return `http://127.0.0.1:${((node as any).httpServer.address() as AddressInfo).port}`;
+}
+
+describe('FederationNode between two instances', () => {
+  const a = instanceDb();
+  const b = instanceDb();
+  const nodeA = new FederationNode(a.pool as any, identity(), { name: 'alpha', port: 0 });
+  const nodeB = new FederationNode(b.pool as any, identity(), { name: 'beta', port: 0 });
+
+  before(async () => {
+    await nodeA.start();
+    await nodeB.start();
+    await nodeA.getRegistry().addPeer(baseUrl(nodeB), 'trusted');
+    await nodeB.getRegistry().addPeer(baseUrl(nodeA), 'trusted');
+  });
+
+  after(async () => {
+    await nodeA.stop();
+    await nodeB.stop();
+  });
+
+  it('pushes a ban recorded on one instance to the other with the peer as origin', async () => {
+    await nodeA.federationFor('guild-a').addGlobalBan({
+      userId: 'u1', username: 'scammer', reason: 'phishing', bannedBy: 'system', banType: 'scam', confidence: 0.95,
+    });
+
+    expect(b.state.bans).to.have.length(1);
+    expect(b.state.bans[0][0]).to.equal('u1');
+    expect(b.state.bans[0][4]).to.equal(`peer:${nodeA.instanceId}`);
+    // Received messages are not published back
+    expect(b.state.outbox).to.have.length(0);
+  });
+
+  it('retries a message the receiver failed to store on its next pull', async () => {
+    b.state.failReputation = true;
+    await nodeA.federationFor('guild-a').updateGlobalReputation('u2', 'spammer', { violations: 1 });
+    expect(b.state.reputation).to.have.length(0);
+
+    b.state.failReputation = false;
+    const peerA = (await nodeB.getRegistry().getPeer(nodeA.instanceId))!;
+    expect(await nodeB.pull(peerA)).to.equal(1);
+    expect(b.state.reputation.map(params => params[0])).to.deep.equal(['u2']);
+
+    // The cursor moved past both messages
+    expect(await nodeB.pull((await nodeB.getRegistry().getPeer(nodeA.instanceId))!)).to.equal(0);
+    expect(b.state.bans).to.have.length(1);
+  });
+
+  it('only shares threats with a public peer', async () => {
+    b.state.peers.get(nodeA.instanceId).federation_level = 'public';
+
+    await nodeA.federationFor('guild-a').addGlobalBan({
+      userId: 'u3', username: 'raider', reason: 'raid', bannedBy: 'system', banType: 'raid', confidence: 0.9,
+    });
+
+    expect(b.state.bans.map(params => params[0])).to.deep.equal(['u1']);
+  });
+
+  it('does not move the cursor past a message that commits after a later one', async () => {
+    a.state.peers.get(nodeB.instanceId).federation_level = 'public';
+    const signer: FederationIdentity = (nodeA as any).identity;
+    const threat = createMessage(signer, 'threat', {
+      type: 'phishing', severity: 'high', confidence: 0.9, description: 'fake nitro link',
+    });
+    const ban = createMessage(signer, 'ban', {
+      userId: 'u4', username: 'spammer', reason: 'spam', bannedBy: 'system', banType: 'spam', confidence: 0.9,
+    });
+
+    // The threat's seq is reserved first, but the ban (hidden from a public peer) commits first
+    const seq = a.state.outbox.length + 1;
+    a.state.outbox.push({ seq, message_type: 'threat', message: threat, uncommitted: true });
+    a.state.outbox.push({ seq: seq + 1, message_type: 'ban', message: ban });
+
+    expect(await nodeB.pull((await nodeB.getRegistry().getPeer(nodeA.instanceId))!)).to.equal(0);
+
+    a.state.outbox[seq - 1].uncommitted = false;
+    expect(await nodeB.pull((await nodeB.getRegistry().getPeer(nodeA.instanceId))!)).to.equal(1);
+    expect(b.state.threats.map(params => params[4])).to.deep.equal(['fake nitro link']);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Shared test doubles
+ */
+
+export interface RecordedQuery {
+  sql: string;
+  params: any[];
+}
+
+/**
+ * A pg Pool stand-in: every query is recorded and answered by the handler
+ * (rows default to none). connect() hands out a client backed by the same handler.
+ */
+export function fakePool(handler: (sql: string, params: any[]) => any[] | { rows: any[]; rowCount?: number } | void = () => []) {
+  const queries: RecordedQuery[] = [];
+
+  const query = async (sql: string, params: any[] = []) => {
+    queries.push({ sql, params });
+    const result = await handler(sql, params);
+    if (Array.isArray(result)) return { rows: result, rowCount: result.length };
+    return result || { rows: [], rowCount: 0 };
+  };
+
+  return {
+    queries,
+    query,
+    connect: async () => ({ query, release: () => undefined }),
+    /** Queries whose SQL contains the fragment */
+    find(fragment: string): RecordedQuery[] {
+      return queries.filter(q => q.sql.includes(fragment));
+    },
+  };
+}
+
+/**
+ * A discord.js Client stand-in with no guilds and inert listeners
+ */
+export function fakeClient(overrides: Record<string, any> = {}): any {
+  return {
+    on: () => undefined,
+    once: () => undefined,
+    guilds: { cache: new Map() },
+    channels: { cache: new Map(), fetch: async () => null },
+    users: { fetch: async () => null },
+    ...overrides,
+  };
+}
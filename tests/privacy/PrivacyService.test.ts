@@ -0,0 +1,179 @@
+import { expect } from 'chai';
+import crypto from 'crypto';
+import { DataHolder, DataHolderRegistry, ErasureContext, HolderErasure } from '../../src/privacy/DataHolder';
+import { POSTGRES_TABLES, SqlTableHolder } from '../../src/privacy/holders';
+import { PrivacyService } from '../../src/privacy/PrivacyService';
+import { RetentionStore } from '../../src/privacy/RetentionStore';
+import { fakePool } from '../helpers';
+
+function spec(id: string) {
+  return POSTGRES_TABLES.find(table => table.id === id)!;
+}
+
+function context(overrides: Partial<ErasureContext> = {}): ErasureContext {
+  return { requestId: 'r1', pseudonym: 'erased-0123456789ab', evidenceCutoff: new Date('2026-01-01'), ...overrides };
+}
+
+/**
+ * Holder that records the order erasures ran in and what it was told
+ */
+function holder(id: string, log: string[], result: Partial<HolderErasure> | Error, eraseLast = false): DataHolder {
+  return {
+    id,
+    description: id,
+    guildScoped: false,
+    eraseLast,
+    exportSubject: async () => [],
+    eraseSubject: async (_subject, ctx) => {
+      log.push(eraseLast ? `${id} (recordsKept=${ctx.recordsKept})` : id);
+      if (result instanceof Error) throw result;
+      return { deleted: 0, pseudonymized: 0, retained: 0, ...result };
+    },
+  };
+}
+
+/**
+ * Retention store whose explicit holds and open incidents are the given rows
+ */
+function holdStore(holds: Array<{ user_id: string; guild_id: string | null }> = [], incidentUsers: string[] = []) {
+  return new RetentionStore(fakePool(sql => {
+    if (sql.includes('FROM retention_legal_holds')) return holds;
+    if (sql.includes('FROM alert_incidents')) return incidentUsers.map(user_id => ({ id: 1, server_id: 'g1', title: 'raid', user_id }));
+    return [];
+  }) as any);
+}
+
+function withIdentity(retention = holdStore()): PrivacyService {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  process.env.FEDERATION_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  try {
+    const service = new PrivacyService(new DataHolderRegistry(), fakePool() as any, retention);
+    service.getSigningKey(); // Loads the identity while the key is set
+    return service;
+  } finally {
+    delete process.env.FEDERATION_PRIVATE_KEY;
+  }
+}
+
+describe('PrivacyService erasure', () => {
+  it('erases eraseLast holders after the others and tells them whether records were kept', async () => {
+    const log: string[] = [];
+    const service = withIdentity();
+    const registry: DataHolderRegistry = (service as any).registry;
+
+    registry.register(holder('users', log, { deleted: 1 }, true));
+    registry.register(holder('messages', log, { deleted: 4 }));
+    registry.register(holder('threats', log, { retained: 2 }));
+
+    const receipt = await service.eraseSubject({ userId: 'u1', guildId: null }, 'self');
+
+    expect(log).to.deep.equal(['messages', 'threats', 'users (recordsKept=true)']);
+    expect(receipt.holders.map(h => h.holder)).to.deep.equal(['messages', 'threats', 'users']);
+    expect(receipt.requestedBy).to.equal('self');
+    expect(service.verifyReceipt(receipt)).to.equal(true);
+
+    registry.unregister('threats');
+    registry.register(holder('threats', log, new Error('connection reset')));
+    log.length = 0;
+    await service.eraseSubject({ userId: 'u1', guildId: null }, 'self');
+    expect(log[2]).to.equal('users (recordsKept=true)');
+
+    registry.unregister('threats');
+    log.length = 0;
+    await service.eraseSubject({ userId: 'u1', guildId: null }, 'self');
+    expect(log).to.deep.equal(['messages', 'users (recordsKept=false)']);
+  });
+
+  it('keeps everything about a user under a legal hold', async () => {
+    const log: string[] = [];
+    const service = withIdentity(holdStore([{ user_id: 'u1', guild_id: 'g2' }], ['u3']));
+    const registry: DataHolderRegistry = (service as any).registry;
+    registry.register(holder('users', log, { deleted: 1 }, true));
+    registry.register(holder('messages', log, { deleted: 4 }));
+
+    // A member-wide request is held by a hold in any guild
+    const receipt = await service.eraseSubject({ userId: 'u1', guildId: null }, 'self');
+    expect(log).to.deep.equal([]);
+    expect(receipt.status).to.equal('held');
+    expect(receipt.holders).to.deep.equal([]);
+    expect(receipt.skipped).to.have.members(['users', 'messages']);
+    expect(service.verifyReceipt(receipt)).to.equal(true);
+
+    // Users named in an open incident are held too
+    expect((await service.eraseSubject({ userId: 'u3', guildId: 'g1' }, 'api:admin')).status).to.equal('held');
+
+    // Another guild's hold does not stop a guild-scoped request
+    expect((await service.eraseSubject({ userId: 'u1', guildId: 'g1' }, 'api:admin')).status).to.equal('completed');
+  });
+
+  it('erases nothing when the holds cannot be loaded', async () => {
+    const log: string[] = [];
+    const service = withIdentity(new RetentionStore(fakePool(() => { throw new Error('connection refused'); }) as any));
+    (service as any).registry.register(holder('messages', log, { deleted: 4 }));
+
+    let error: Error | undefined;
+    await service.eraseSubject({ userId: 'u1', guildId: null }, 'self').catch(e => { error = e; });
+
+    expect(error?.message).to.equal('connection refused');
+    expect(log).to.deep.equal([]);
+  });
+
+  it('never logs the requesting user\'s ID in the clear', async () => {
+    const service = withIdentity();
+    const pool = fakePool();
+    (service as any).db = pool;
+
+    await service.eraseSubject({ userId: '123456789012345678', guildId: null }, 'self');
+
+    const [insert] = pool.find('INSERT INTO privacy_requests');
+    expect(JSON.stringify(insert.params)).not.to.include('123456789012345678');
+  });
+});
+
+describe('SqlTableHolder', () => {
+  it('scrubs the users row instead of deleting it while other records are kept', async () => {
+    const pool = fakePool(sql => (sql.startsWith('UPDATE users') ? { rows: [], rowCount: 1 } : []));
+    const erasure = await new SqlTableHolder(spec('users'), pool as any).eraseSubject({ userId: 'u1', guildId: null }, context({ recordsKept: true }));
+
+    expect(pool.find('DELETE FROM users')).to.have.length(0);
+    const [update] = pool.find('UPDATE users SET');
+    expect(update.sql).to.include('username = $2').and.include('avatar_url = $5');
+    expect(update.params).to.deep.equal(['u1', 'erased user', null, null, null]);
+    expect(erasure).to.include({ deleted: 0, pseudonymized: 1, retained: 1 });
+  });
+
+  it('deletes the users row once nothing else is kept', async () => {
+    const pool = fakePool(sql => (sql.startsWith('DELETE FROM users') ? { rows: [], rowCount: 1 } : [{ count: 0 }]));
+    const erasure = await new SqlTableHolder(spec('users'), pool as any).eraseSubject({ userId: 'u1', guildId: null }, context({ recordsKept: false }));
+
+    expect(pool.find('UPDATE users')).to.have.length(0);
+    expect(erasure).to.include({ deleted: 1, retained: 0 });
+  });
+
+  it('creates a users row for the pseudonym before pointing a moderator reference at it', async () => {
+    const pool = fakePool(sql => {
+      if (sql.startsWith('SELECT 1 FROM moderator_actions')) return [{ '?column?': 1 }];
+      if (sql.startsWith('UPDATE moderator_actions')) return { rows: [], rowCount: 3 };
+      if (sql.includes('COUNT(*)')) return [{ count: 2 }];
+      return [];
+    });
+
+    const erasure = await new SqlTableHolder(spec('moderator_actions'), pool as any)
+      .eraseSubject({ userId: 'u1', guildId: null }, context());
+
+    const statements = pool.queries.map(q => q.sql.trim().split(/\s+/).slice(0, 3).join(' '));
+    const insertAt = statements.indexOf('INSERT INTO users');
+    expect(insertAt).to.be.greaterThan(-1);
+    expect(insertAt).to.be.lessThan(statements.indexOf('UPDATE moderator_actions SET'));
+    expect(pool.find('INSERT INTO users')[0].params).to.deep.equal(['erased-0123456789ab', 'erased user']);
+    expect(erasure).to.include({ pseudonymized: 3, retained: 2 });
+  });
+
+  it('does not create a pseudonym row when nothing references the subject', async () => {
+    const pool = fakePool(sql => (sql.includes('COUNT(*)') ? [{ count: 0 }] : []));
+
+    await new SqlTableHolder(spec('moderator_actions'), pool as any).eraseSubject({ userId: 'u1', guildId: null }, context());
+
+    expect(pool.find('INSERT INTO users')).to.have.length(0);
+  });
+});
@@ -0,0 +1,175 @@
+import { expect } from 'chai';
+import { RETENTION_TABLES, SqlRetentionTarget } from '../../src/privacy/retention';
+import { RetentionService } from '../../src/privacy/RetentionService';
+import { LegalHolds, RetentionStore } from '../../src/privacy/RetentionStore';
+import { RetentionSweep, RetentionTargetRegistry } from '../../src/privacy/RetentionTarget';
+import { fakePool } from '../helpers';
+
+const DAY = 86400000;
+
+function spec(id: string) {
+  return RETENTION_TABLES.find(table => table.id === id)!;
+}
+
+/**
+ * Data tables where every sweep finds 3 expired rows and 1 held row
+ */
+function dataPool() {
+  return fakePool(sql => (sql.startsWith('SELECT COUNT') ? [{ expired: '3', held: '1' }] : { rows: [], rowCount: 3 }));
+}
+
+function sweep(overrides: Partial<RetentionSweep> = {}): RetentionSweep {
+  return { cutoff: new Date('2026-01-01'), scope: {}, holds: new LegalHolds([]), dryRun: false, ...overrides };
+}
+
+/**
+ * Retention store with the given rules, explicit holds and users named in open incidents
+ */
+function store(
+  rules: Array<{ guild_id: string; category: string; retain_days: number | null }>,
+  holds: Array<{ user_id: string; guild_id: string | null }> = [],
+  incidents: Array<{ server_id: string; user_id: string }> = []
+) {
+  const pool = fakePool(sql => {
+    if (sql.includes('FROM retention_policies')) return rules;
+    if (sql.includes('FROM retention_legal_holds')) return holds;
+    if (sql.includes('FROM alert_incidents')) return incidents.map(row => ({ id: 1, title: 'raid', ...row }));
+  });
+  return { pool, store: new RetentionStore(pool as any) };
+}
+
+describe('SqlRetentionTarget', () => {
+  it('clears only the category\'s columns of a table that mixes categories', async () => {
+    const pool = dataPool();
+    const target = new SqlRetentionTarget(spec('messages_content'), pool as any);
+
+    expect(await target.sweep(sweep())).to.deep.equal({ expired: 3, held: 1 });
+
+    expect(pool.find('DELETE')).to.have.length(0);
+    const [update] = pool.find('UPDATE messages');
+    expect(update.sql).to.include("SET content = '', ai_summary = NULL");
+    expect(update.sql).to.include("WHERE created_at < $1 AND (content <> '' OR ai_summary IS NOT NULL");
+  });
+
+  it('deletes expired rows of a single-category table', async () => {
+    const pool = dataPool();
+    const target = new SqlRetentionTarget(spec('emotional_context'), pool as any);
+
+    expect(await target.sweep(sweep())).to.deep.equal({ expired: 3, held: 1 });
+
+    expect(pool.find('UPDATE')).to.have.length(0);
+    expect(pool.find('DELETE FROM emotional_context')[0].sql).to.include('WHERE detected_at < $1 AND NOT FALSE');
+  });
+
+  it('keeps rows naming a user held everywhere or in the row\'s guild', async () => {
+    const pool = dataPool();
+    const target = new SqlRetentionTarget(spec('conflict_predictions'), pool as any);
+    const holds = new LegalHolds([{ userId: 'u1', guildId: null }, { userId: 'u2', guildId: 'g2' }]);
+
+    await target.sweep(sweep({ holds }));
+
+    const [remove] = pool.find('DELETE FROM conflict_predictions');
+    expect(remove.sql).to.include(
+      "AND NOT COALESCE(user_a = ANY($2) OR (server_id || ':' || user_a) = ANY($3) OR user_b = ANY($2) OR (server_id || ':' || user_b) = ANY($3), FALSE)"
+    );
+    expect(remove.params.slice(1)).to.deep.equal([['u1'], ['g2:u2']]);
+  });
+
+  it('keeps rows of a table without guilds when the user is held in any guild', async () => {
+    const pool = dataPool();
+    const target = new SqlRetentionTarget(spec('shared_threats'), pool as any);
+    const holds = new LegalHolds([{ userId: 'u1', guildId: null }, { userId: 'u2', guildId: 'g2' }]);
+
+    await target.sweep(sweep({ holds }));
+
+    const [remove] = pool.find('DELETE FROM shared_threats');
+    expect(remove.sql).to.include('AND NOT COALESCE(user_id = ANY($2), FALSE)');
+    expect(remove.params.slice(1)).to.deep.equal([['u1', 'u2']]);
+  });
+
+  it('sweeps one guild, or every guild except the excluded ones', async () => {
+    const pool = dataPool();
+    const target = new SqlRetentionTarget(spec('emotional_context'), pool as any);
+
+    await target.sweep(sweep({ scope: { guildId: 'g1' } }));
+    await target.sweep(sweep({ scope: { excludeGuildIds: ['g1', 'g2'] } }));
+
+    const [guild, rest] = pool.find('DELETE FROM emotional_context');
+    expect(guild.sql).to.include('WHERE detected_at < $1 AND server_id = $2 AND NOT FALSE');
+    expect(guild.params.slice(1)).to.deep.equal(['g1']);
+    expect(rest.sql).to.include('WHERE detected_at < $1 AND NOT (server_id = ANY($2)) AND NOT FALSE');
+    expect(rest.params.slice(1)).to.deep.equal([['g1', 'g2']]);
+  });
+
+  it('only counts in a dry run', async () => {
+    const pool = dataPool();
+    const target = new SqlRetentionTarget(spec('messages_content'), pool as any);
+
+    expect(await target.sweep(sweep({ dryRun: true }))).to.deep.equal({ expired: 3, held: 1 });
+
+    expect(pool.queries.map(q => q.sql.split(' ')[0])).to.deep.equal(['SELECT']);
+  });
+});
+
+describe('RetentionService', () => {
+  function service(retention: RetentionStore, ...ids: string[]) {
+    const pool = dataPool();
+    const registry = new RetentionTargetRegistry();
+    for (const id of ids) registry.register(new SqlRetentionTarget(spec(id), pool as any));
+    return { pool, service: new RetentionService(retention, registry) };
+  }
+
+  it('sweeps guilds with their own rule separately from the rest', async () => {
+    const { store: retention } = store([
+      { guild_id: '*', category: 'analysis_scores', retain_days: 30 },
+      { guild_id: 'g1', category: 'analysis_scores', retain_days: 7 },
+    ]);
+    const { service: retentionService } = service(retention, 'emotional_context');
+
+    const report = await retentionService.enforce({ dryRun: false });
+
+    expect(report.sweeps.map(s => [s.guildId, s.retainDays])).to.deep.equal([['g1', 7], ['*', 30]]);
+    const started = new Date(report.startedAt).getTime();
+    expect(report.sweeps.map(s => (started - new Date(s.cutoff).getTime()) / DAY)).to.deep.equal([7, 30]);
+    expect(report.expired).to.equal(6);
+  });
+
+  it('sweeps only the guild\'s data, and skips instance-wide targets, in a guild run', async () => {
+    const { store: retention } = store([{ guild_id: '*', category: 'federation_events', retain_days: 30 }]);
+    const { pool, service: retentionService } = service(retention, 'emotional_context', 'federation_outbox');
+
+    const report = await retentionService.enforce({ dryRun: false, guildId: 'g1' });
+
+    expect(report.skipped).to.deep.equal(['federation_outbox']);
+    expect(report.sweeps.map(s => [s.target, s.guildId])).to.deep.equal([['emotional_context', 'g1']]);
+    expect(pool.find('DELETE FROM emotional_context')[0].params[1]).to.equal('g1');
+    expect(pool.find('federation_outbox')).to.have.length(0);
+  });
+
+  it('keeps users under explicit holds and in open incidents', async () => {
+    const { store: retention } = store(
+      [],
+      [{ user_id: 'u1', guild_id: null }],
+      [{ server_id: 'g1', user_id: 'u3' }]
+    );
+    const { pool, service: retentionService } = service(retention, 'emotional_context');
+
+    await retentionService.enforce({ dryRun: false });
+
+    const [remove] = pool.find('DELETE FROM emotional_context');
+    expect(remove.sql).to.include("AND NOT COALESCE(user_id = ANY($2) OR (server_id || ':' || user_id) = ANY($3), FALSE)");
+    expect(remove.params.slice(1)).to.deep.equal([['u1'], ['g1:u3']]);
+  });
+
+  it('writes nothing but the run report in a dry run', async () => {
+    const { pool: storePool, store: retention } = store([]);
+    const { pool, service: retentionService } = service(retention, 'messages_content', 'emotional_context', 'federation_outbox');
+
+    const report = await retentionService.enforce({ dryRun: true });
+
+    expect(report.dryRun).to.equal(true);
+    expect(report.expired).to.equal(9);
+    expect(pool.queries.every(q => q.sql.startsWith('SELECT COUNT'))).to.equal(true);
+    expect(storePool.find('INSERT INTO retention_runs')[0].params[2]).to.equal(true);
+  });
+});
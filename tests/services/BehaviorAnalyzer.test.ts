@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { BehaviorAnalyzer } from '../../src/services/BehaviorAnalyzer';
+import { ConditionEvaluator } from '../../src/services/ConditionEvaluator';
+import { fakePool } from '../helpers';
+
+function context(content?: string): any {
+  return {
+    serverId: 'g1',
+    triggeredBy: 'u1',
+    triggeredAt: new Date(0),
+    event: 'messageCreate',
+    eventData: content === undefined ? {} : { message: { content, mentions: { users: new Map() }, attachments: new Map() } },
+  };
+}
+
+describe('BehaviorAnalyzer', () => {
+  const evaluator = new ConditionEvaluator();
+
+  it('merges the "then" of every matching rule, letting later rules see earlier results', async () => {
+    const analyzer = new BehaviorAnalyzer(fakePool() as any, evaluator);
+    const result = await analyzer.analyze({
+      type: 'rules',
+      rules: [
+        { if: 'message.length > 3', then: { long: true } },
+        { if: 'long == true', then: { severity: 'high' } },
+        { if: 'message.hasLinks', then: { link: true } },
+      ],
+    } as any, context('hello there'));
+
+    expect(result).to.deep.include({ long: true, severity: 'high', ruleMatched: true });
+    expect(result.link).to.equal(undefined);
+  });
+
+  it('checks metrics against bounds, loading missing ones from the database', async () => {
+    const pool = fakePool(sql => (sql.includes('FROM messages') ? [{ value: '42' }] : []));
+    const analyzer = new BehaviorAnalyzer(pool as any, evaluator);
+    const result = await analyzer.analyze({
+      type: 'threshold',
+      metrics: { 'message.length': { max: 3 }, userTotalMessages: { min: 10 } },
+    } as any, context('hello'));
+
+    expect(result.metrics).to.deep.equal({ 'message.length': 5, userTotalMessages: 42 });
+    expect(result.violations).to.deep.equal(['message.length > 3']);
+    expect(result.thresholdExceeded).to.equal(true);
+  });
+
+  it('matches patterns against the message and tracked messages', async () => {
+    const analyzer = new BehaviorAnalyzer(fakePool() as any, evaluator);
+    const result = await analyzer.analyze(
+      { type: 'pattern', patterns: ['free\\s+nitro', '(unclosed'] } as any,
+      context('FREE nitro'),
+      { messages: [{ content: 'free  nitro here' }, 'nothing'] }
+    );
+
+    expect(result).to.deep.equal({ matchedPatterns: ['free\\s+nitro'], matchCount: 2, patternMatched: true });
+  });
+
+  it('validates AI output against the schema and retries once on bad output', async () => {
+    const responses = ['not json', '```json\n{"toxicity": "0.9", "isSpammer": "true", "reason": "spam"}\n```'];
+    const ollama = { generate: async () => responses.shift() };
+    const analyzer = new BehaviorAnalyzer(fakePool() as any, evaluator, ollama as any);
+
+    const result = await analyzer.analyze({
+      type: 'ai',
+      prompt: 'Rate ${message.content}',
+      outputSchema: { toxicity: 'number (0-1)', isSpammer: 'boolean', reason: 'string' },
+    } as any, context('buy now'));
+
+    expect(result).to.deep.equal({ toxicity: 0.9, isSpammer: true, reason: 'spam' });
+  });
+
+  it('fails AI analysis when the output stays out of range', async () => {
+    const ollama = { generate: async () => '{"toxicity": 3}' };
+    const analyzer = new BehaviorAnalyzer(fakePool() as any, evaluator, ollama as any);
+
+    let error: Error | undefined;
+    try {
+      await analyzer.analyze({ type: 'ai', prompt: 'Rate', outputSchema: { toxicity: 'number (0-1)' } } as any, context('x'));
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.match(/out of range/);
+  });
+});
+
+describe('ConditionEvaluator action conditions', () => {
+  const evaluator = new ConditionEvaluator();
+
+  it('exposes analysis output both bare and under analysis.', () => {
+    const ctx = context('hi');
+    expect(evaluator.evaluate('toxicity > 0.7 && analysis.isSpammer', ctx, { toxicity: 0.8, isSpammer: true })).to.equal(true);
+    expect(evaluator.evaluate('toxicity > 0.7', ctx, { toxicity: 0.5 })).to.equal(false);
+  });
+
+  it('treats an invalid condition as false instead of throwing', () => {
+    expect(evaluator.evaluate('toxicity >', context('hi'), { toxicity: 1 })).to.equal(false);
+  });
+});
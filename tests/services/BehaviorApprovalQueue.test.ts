@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { Collection, PermissionsBitField } from 'discord.js';
+import { ActionExecutor } from '../../src/services/ActionExecutor';
+import { BehaviorApprovalQueue } from '../../src/services/BehaviorApprovalQueue';
+import { fakeClient, fakePool } from '../helpers';
+
+function clientWithListener() {
+  const listeners: Record<string, (...args: any[]) => any> = {};
+  const client = fakeClient({
+    on: (event: string, listener: (...args: any[]) => any) => { listeners[event] = listener; },
+    guilds: { fetch: async () => ({ channels: { cache: new Collection(), fetch: async () => null } }) },
+  });
+  return { client, listeners };
+}
+
+function button(customId: string, permissions: bigint[]) {
+  const replies: any[] = [];
+  return {
+    replies,
+    interaction: {
+      customId,
+      isButton: () => true,
+      user: { id: 'mod1' },
+      memberPermissions: new PermissionsBitField(permissions),
+      reply: async (payload: any) => { replies.push(payload); },
+      update: async (payload: any) => { replies.push(payload); },
+    },
+  };
+}
+
+describe('BehaviorApprovalQueue', () => {
+  it('keeps the plain event data when parking an action', async () => {
+    const pool = fakePool(sql => (sql.includes('INSERT INTO behavior_action_approvals') ? [{ id: 7 }] : []));
+    const queue = new BehaviorApprovalQueue(pool as any, clientWithListener().client);
+
+    class FakeMessage { id = 'm1'; content = 'hi'; }
+    await queue.enqueue('Test', 'b1', 1, 0, { type: 'ban' } as any, {
+      serverId: 'g1',
+      triggeredAt: new Date(0),
+      event: 'messageCreate',
+      eventData: { serverId: 'g1', count: 3, message: new FakeMessage(), callback: () => undefined },
+    });
+
+    const stored = JSON.parse(pool.find('INSERT INTO behavior_action_approvals')[0].params[5]);
+    expect(stored.eventData).to.deep.equal({ serverId: 'g1', count: 3, message: { id: 'm1' } });
+  });
+
+  it('lets members with Moderate Members decide from the button, using the interaction permissions', async () => {
+    const pool = fakePool(sql => {
+      if (sql.includes('FROM behavior_action_approvals a')) {
+        return [{
+          id: 7, behavior_id: 'b1', behavior_name: 'Test', execution_id: 1, action_index: 0, server_id: 'g1',
+          action: { type: 'ban' }, context: { serverId: 'g1', triggeredAt: 0, event: 'x', eventData: {} },
+          expires_at: new Date(Date.now() + 60000),
+        }];
+      }
+      if (sql.startsWith('UPDATE behavior_action_approvals')) return { rows: [], rowCount: 1 };
+    });
+    const { client, listeners } = clientWithListener();
+    const queue = new BehaviorApprovalQueue(pool as any, client);
+    const decided: string[] = [];
+    queue.initialize(async (_approval, decision) => { decided.push(decision); });
+
+    const denied = button('behavior_approve_7', []);
+    await listeners.interactionCreate(denied.interaction);
+    expect(denied.replies[0].content).to.match(/moderator permissions/);
+    expect(decided).to.deep.equal([]);
+
+    const allowed = button('behavior_approve_7', [PermissionsBitField.Flags.ModerateMembers]);
+    await listeners.interactionCreate(allowed.interaction);
+    expect(decided).to.deep.equal(['approved']);
+    expect(allowed.replies[0].content).to.match(/Approved by <@mod1>/);
+  });
+
+  it('runs an approved action from a member event with the member\'s name', async () => {
+    class FakeUser { id = 'u1'; username = 'newbie'; }
+    class FakeMember { id = 'u1'; user = new FakeUser(); roles = { cache: new Collection() }; }
+
+    let stored: any;
+    const pool = fakePool((sql, params) => {
+      if (sql.includes('INSERT INTO behavior_action_approvals')) {
+        stored = params;
+        return [{ id: 7 }];
+      }
+      if (sql.includes('FROM behavior_action_approvals a')) {
+        return [{
+          id: 7, behavior_id: 'b1', behavior_name: 'Greeter', execution_id: 1, action_index: 0, server_id: 'g1',
+          action: stored[4], context: stored[5], expires_at: new Date(Date.now() + 60000),
+        }];
+      }
+      if (sql.startsWith('UPDATE behavior_action_approvals')) return { rows: [], rowCount: 1 };
+    });
+
+    const sent: string[] = [];
+    const client = fakeClient({
+      guilds: { fetch: async () => ({ channels: { cache: new Collection(), fetch: async () => null } }) },
+      users: { fetch: async (id: string) => ({ send: async (text: string) => { sent.push(`${id}: ${text}`); } }) },
+    });
+    const queue = new BehaviorApprovalQueue(pool as any, client);
+    const executor = new ActionExecutor(client, pool as any);
+    queue.initialize(approval => executor.execute(approval.action, approval.context, approval.analysisResult));
+
+    await queue.enqueue('Greeter', 'b1', 1, 0, { type: 'sendDM', target: '${user.id}', message: 'Welcome, ${user.username}!' }, {
+      serverId: 'g1',
+      triggeredBy: 'u1',
+      triggeredAt: new Date(0),
+      event: 'guildMemberAdd',
+      eventData: { member: new FakeMember() },
+    });
+
+    expect(await queue.decide(7, true, 'mod1')).to.equal('approved');
+    expect(sent).to.deep.equal(['u1: Welcome, newbie!']);
+  });
+});
@@ -0,0 +1,58 @@
+import { expect } from 'chai';
+import { BehaviorEngine } from '../../src/core/BehaviorEngine';
+import { BDLBehavior } from '../../src/services/BehaviorParser';
+import { fakeClient, fakePool } from '../helpers';
+
+const spamBehavior = {
+  id: 'b1',
+  name: 'Spam',
+  trigger: { type: 'pattern', pattern: '3 messages in 10 seconds' },
+  actions: [
+    { type: 'timeout', target: '${triggeredUserId}', duration: '5m' },
+    { type: 'log', message: 'long', condition: 'message.length > 10' },
+  ],
+  safety: { maxExecutionsPerUser: 1 },
+} as BDLBehavior;
+
+describe('BehaviorSandbox', () => {
+  let pool: ReturnType<typeof fakePool>;
+  let engine: BehaviorEngine;
+
+  beforeEach(() => {
+    pool = fakePool(sql => (sql.includes('FROM messages') ? [
+      { id: 'm3', channel_id: 'c1', user_id: 'u1', content: 'three', created_at: new Date(2000), mention_count: '0' },
+      { id: 'm2', channel_id: 'c1', user_id: 'u1', content: 'two', created_at: new Date(1000), mention_count: '0' },
+      { id: 'm1', channel_id: 'c1', user_id: 'u1', content: 'one', created_at: new Date(0), mention_count: '0' },
+    ] : []));
+    engine = new BehaviorEngine(pool as any, fakeClient());
+  });
+
+  it('replays synthetic events on a simulated clock and applies safety limits', async () => {
+    const events = Array.from({ length: 6 }, () => ({ event: 'messageCreate', userId: 'u1', content: 'hi' }));
+    const trace = await engine.simulate(spamBehavior, events, { serverId: 'g1' });
+
+    expect(trace.events.map(e => e.trigger.matched)).to.deep.equal([false, false, true, false, false, true]);
+    expect(trace.executions).to.equal(1);
+    expect(trace.events[5].skippedReason).to.match(/Per-user limit/);
+    expect(trace.actionCounts).to.deep.equal({ timeout: 1 });
+    expect(trace.events[2].preview!.actions.map(a => a.wouldExecute)).to.deep.equal([true, false]);
+  });
+
+  it('replays recorded history oldest first without touching execution records', async () => {
+    const trace = await engine.simulate(spamBehavior, null, { serverId: 'g1', source: 'recorded', channelId: 'c1' });
+
+    expect(trace.events.map(e => e.offsetMs)).to.deep.equal([0, 1000, 2000]);
+    expect(trace.triggered).to.equal(1);
+    expect(pool.find('behavior_executions')).to.have.length(0);
+  });
+
+  it('rejects unsupported events', async () => {
+    let error: Error | undefined;
+    try {
+      await engine.simulate(spamBehavior, [{ event: 'voiceStateUpdate' }], { serverId: 'g1' });
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.match(/Unsupported sandbox event/);
+  });
+});
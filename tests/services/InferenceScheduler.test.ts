@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import { InferenceClassConfig, InferencePriority } from '../../src/config/inference.config';
+import { InferenceScheduler, InferenceSchedulingError } from '../../src/services/InferenceScheduler';
+
+const CLASSES: Record<InferencePriority, InferenceClassConfig> = {
+  reflex: { deadlineMs: 1000, maxQueued: 10 },
+  policy: { deadlineMs: 1000, maxQueued: 10 },
+  planning: { deadlineMs: 1000, maxQueued: 10 },
+  chat: { deadlineMs: 1000, maxQueued: 2, shedAtDepth: 3 },
+  background: { deadlineMs: 1000, maxQueued: 10, shedAtDepth: 1 },
+};
+
+/**
+ * A model call that stays running until finish() is called
+ */
+function heldCall(log: string[], name: string) {
+  let finish!: () => void;
+  const done = new Promise<void>(resolve => (finish = resolve));
+  return {
+    call: async () => {
+      log.push(name);
+      await done;
+      return name;
+    },
+    finish: () => finish(),
+  };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<InferenceSchedulingError> {
+  try {
+    await promise;
+  } catch (error) {
+    return error as InferenceSchedulingError;
+  }
+  throw new Error('expected a rejection');
+}
+
+describe('InferenceScheduler', () => {
+  it('hands a freed slot to the highest waiting class first', async () => {
+    const scheduler = new InferenceScheduler(1, CLASSES);
+    const log: string[] = [];
+    const first = heldCall(log, 'chat-1');
+
+    const running = scheduler.schedule(first.call, 'chat');
+    const queued = [
+      scheduler.schedule(async () => { log.push('chat-2'); }, 'chat'),
+      scheduler.schedule(async () => { log.push('planning'); }, 'planning'),
+      scheduler.schedule(async () => { log.push('reflex'); }, 'reflex'),
+    ];
+
+    expect(scheduler.getStats().classes.find(c => c.priority === 'chat')!.queued).to.equal(1);
+    first.finish();
+    await Promise.all([running, ...queued]);
+
+    expect(log).to.deep.equal(['chat-1', 'reflex', 'planning', 'chat-2']);
+    expect(scheduler.getStats().running).to.equal(0);
+  });
+
+  it('rejects calls when their class queue is full or the scheduler is shedding load', async () => {
+    const scheduler = new InferenceScheduler(1, CLASSES);
+    const held = heldCall([], 'held');
+    const running = scheduler.schedule(held.call, 'reflex');
+
+    const waiting = [scheduler.schedule(async () => 'a', 'chat'), scheduler.schedule(async () => 'b', 'chat')];
+    expect((await rejection(scheduler.schedule(async () => 'c', 'chat'))).message).to.match(/class queue full \(2\/2\)/);
+
+    // Background is shed once anything is waiting; reflex is still admitted
+    const shed = await rejection(scheduler.schedule(async () => 'd', 'background'));
+    expect(shed.reason).to.equal('rejected');
+    expect(shed.message).to.match(/shedding load/);
+    waiting.push(scheduler.schedule(async () => 'e', 'reflex'));
+
+    held.finish();
+    expect(await Promise.all([running, ...waiting])).to.deep.equal(['held', 'a', 'b', 'e']);
+
+    const stats = scheduler.getStats().classes;
+    expect(stats.find(c => c.priority === 'chat')).to.include({ served: 2, rejected: 1 });
+    expect(stats.find(c => c.priority === 'background')).to.include({ rejected: 1 });
+  });
+
+  it('drops a queued call once its deadline passes', async () => {
+    const scheduler = new InferenceScheduler(1, { ...CLASSES, policy: { deadlineMs: 20, maxQueued: 10 } });
+    const held = heldCall([], 'held');
+    const running = scheduler.schedule(held.call, 'reflex');
+
+    let ran = false;
+    const error = await rejection(scheduler.schedule(async () => { ran = true; }, 'policy'));
+
+    expect(error).to.be.instanceOf(InferenceSchedulingError);
+    expect(error.reason).to.equal('expired');
+    expect(scheduler.getStats().classes.find(c => c.priority === 'policy')).to.include({ queued: 0, expired: 1 });
+
+    held.finish();
+    await running;
+    expect(ran).to.equal(false);
+  });
+
+  it('schedules nested calls in the caller\'s class and degrades when the deadline is overrun', async () => {
+    const scheduler = new InferenceScheduler(1, CLASSES);
+    const log: string[] = [];
+    const held = heldCall(log, 'held');
+    const running = scheduler.schedule(held.call, 'background');
+
+    const queuedChat = scheduler.schedule(async () => { log.push('chat'); }, 'chat');
+    // The config type would say chat; withPriority moves the call to reflex
+    const verdict = scheduler.withPriority('reflex', () => scheduler.schedule(async () => { log.push('verdict'); }, 'chat'));
+
+    held.finish();
+    await Promise.all([running, verdict, queuedChat]);
+    expect(log).to.deep.equal(['held', 'verdict', 'chat']);
+
+    const slow = heldCall([], 'slow');
+    const degraded = await scheduler.withPriority('reflex', () => scheduler.schedule(slow.call), {
+      deadlineMs: 20,
+      degrade: error => `heuristic (${error.reason})`,
+    });
+    slow.finish();
+
+    expect(degraded).to.equal('heuristic (expired)');
+    expect(scheduler.getStats().classes.find(c => c.priority === 'reflex')).to.include({ degraded: 1 });
+  });
+});
@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BehaviorParser } from '../../src/services/BehaviorParser';
+import * as fixturesModule from '../../src/services/LLMFixtures';
+import { LLMFixtureMissingError, LLMFixtureStore, ScriptedLLMProvider } from '../../src/services/LLMFixtures';
+import { llmRouter } from '../../src/services/LLMRouter';
+import { getOllamaCache } from '../../src/services/OllamaCacheService';
+import { OllamaService } from '../../src/services/OllamaService';
+import { QueryParser } from '../../src/services/QueryParser';
+
+// Recorded with LLM_FIXTURE_MODE=record against a local model server
+const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'llm');
+
+// Nothing listens here: a call that is not answered from a fixture fails
+const OFFLINE_URL = 'http://127.0.0.1:9';
+
+describe('LLM fixtures', () => {
+  const realStore = fixturesModule.llmFixtures;
+
+  function useStore(store: LLMFixtureStore): LLMFixtureStore {
+    (fixturesModule as any).llmFixtures = store;
+    return store;
+  }
+
+  afterEach(() => {
+    (fixturesModule as any).llmFixtures = realStore;
+  });
+
+  describe('replay', () => {
+    it('parses a behavior from a recorded response', async () => {
+      useStore(new LLMFixtureStore('replay', FIXTURE_DIR));
+
+      const bdl = await new BehaviorParser(OFFLINE_URL).parse('delete links from members who joined less than a day ago', 'g1');
+
+      expect(bdl.name).to.equal('New Member Link Guard');
+      expect(bdl.trigger).to.include({ type: 'event', event: 'messageCreate' });
+      expect(bdl.actions.map(a => a.type)).to.deep.equal(['deleteMessage', 'sendDM']);
+      expect(bdl.enabled).to.equal(true);
+    });
+
+    it('scopes a recorded query to the server', async () => {
+      useStore(new LLMFixtureStore('replay', FIXTURE_DIR));
+
+      const query = await new QueryParser(OFFLINE_URL).parseQuery('who has the most warnings?', {
+        serverId: 'g1', userId: 'u1', userRole: 'admin', language: 'en',
+      });
+
+      expect(query.safe).to.equal(true);
+      expect(query.sql).to.include("server_id = 'g1'").and.to.match(/LIMIT \d+$/);
+    });
+
+    it('fails loudly on a prompt that was never recorded', async () => {
+      const store = useStore(new LLMFixtureStore('replay', FIXTURE_DIR));
+
+      let error: Error | undefined;
+      await new BehaviorParser(OFFLINE_URL).parse('ban everyone who says hello', 'g1').catch(e => { error = e; });
+
+      expect(error?.message).to.match(/No LLM fixture for qwen2\.5:14b/);
+      expect(store.getMisses()).to.have.length(1);
+      expect(store.getMisses()[0]).to.be.instanceOf(LLMFixtureMissingError);
+    });
+  });
+
+  describe('record', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('saves each call once and replays it with whitespace ignored', async () => {
+      let calls = 0;
+      const answer = async () => ({ response: `answer ${++calls}` });
+
+      const recorder = new LLMFixtureStore('record', dir);
+      expect(await recorder.intercept('/api/generate', 'm', 'hello   world', answer)).to.deep.equal({ response: 'answer 1' });
+      expect(fs.readdirSync(dir)).to.have.length(1);
+
+      const replayer = new LLMFixtureStore('replay', dir);
+      expect(await replayer.intercept('/api/generate', 'm', ' hello world\n', answer)).to.deep.equal({ response: 'answer 1' });
+      expect(calls).to.equal(1);
+
+      // Model is part of the key
+      let error: Error | undefined;
+      await replayer.intercept('/api/generate', 'other', 'hello world', answer).catch(e => { error = e; });
+      expect(error).to.be.instanceOf(LLMFixtureMissingError);
+    });
+  });
+});
+
+describe('ScriptedLLMProvider', () => {
+  before(() => {
+    getOllamaCache({ enabled: false });
+  });
+
+  afterEach(() => {
+    llmRouter.setOverride(null);
+  });
+
+  it('answers matching prompts and records the calls', async () => {
+    const fake = new ScriptedLLMProvider()
+      .when(/free nitro/i).reply('SCAM')
+      .when('summarize').replyOnce({ summary: 'Quiet day.' });
+    llmRouter.setOverride(fake);
+
+    const service = new OllamaService('analysis');
+    expect(await service.generate('Is "FREE NITRO here" a scam?')).to.equal('SCAM');
+    expect(JSON.parse(await service.generate('summarize the day'))).to.deep.equal({ summary: 'Quiet day.' });
+
+    let error: Error | undefined;
+    await service.generate('summarize the day').catch(e => { error = e; });
+    expect(error).to.be.instanceOf(LLMFixtureMissingError);
+
+    expect(fake.calls.map(call => call.response.content)).to.deep.equal(['SCAM', '{"summary":"Quiet day."}']);
+  });
+});
@@ -0,0 +1,153 @@
+import { expect } from 'chai';
+import http, { Server } from 'http';
+import { AddressInfo } from 'net';
+import { LLMProviderConfig } from '../../src/config/llm.config';
+import { LLMChatRequest, LLMProvider, OpenAICompatibleProvider } from '../../src/services/LLMProvider';
+import { LLMRouter, llmRouter } from '../../src/services/LLMRouter';
+import { getOllamaCache } from '../../src/services/OllamaCacheService';
+import { OllamaService } from '../../src/services/OllamaService';
+
+const PROVIDERS: LLMProviderConfig[] = [
+  { name: 'ollama', type: 'ollama', baseUrl: 'http://localhost:11434' },
+  { name: 'openai', type: 'openai', baseUrl: 'https://api.example.com/v1' },
+  { name: 'llamacpp', type: 'openai', baseUrl: 'http://gpu-box:8080/v1' },
+];
+
+function fakeProvider(name: string, answer: (request: LLMChatRequest) => string): LLMProvider & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    name,
+    type: 'openai',
+    calls,
+    chat: async request => {
+      calls.push(request.model);
+      return { content: answer(request), promptTokens: 10, completionTokens: 5 };
+    },
+    healthCheck: async () => true,
+    listModels: async () => [],
+  };
+}
+
+describe('LLMRouter', () => {
+  it('resolves a config type to its route, then the "*" route, then the default provider', () => {
+    const router = new LLMRouter(PROVIDERS, {
+      analysis: { provider: 'openai', model: 'gpt-4o-mini', fallbacks: [{ provider: 'ollama' }] },
+      '*': { provider: 'llamacpp', model: 'qwen2.5-7b-instruct' },
+    });
+
+    expect(router.resolve('analysis', 'qwen3:1.7b')).to.deep.equal([
+      { provider: 'openai', model: 'gpt-4o-mini' },
+      { provider: 'ollama', model: 'qwen3:1.7b' },
+    ]);
+    expect(router.resolve('dialogue', 'qwen3:1.7b')).to.deep.equal([{ provider: 'llamacpp', model: 'qwen2.5-7b-instruct' }]);
+    expect(new LLMRouter(PROVIDERS, {}).resolve('dialogue', 'qwen3:1.7b')).to.deep.equal([{ provider: 'ollama', model: 'qwen3:1.7b' }]);
+  });
+
+  it('skips targets naming an unknown provider', () => {
+    const router = new LLMRouter(PROVIDERS, {
+      governance: { provider: 'missing', fallbacks: [{ provider: 'openai', model: 'gpt-4o' }] },
+      vision: { provider: 'missing' },
+    });
+
+    expect(router.resolve('governance', 'm')).to.deep.equal([{ provider: 'openai', model: 'gpt-4o' }]);
+    expect(router.resolve('vision', 'm')).to.deep.equal([{ provider: 'ollama', model: 'm' }]);
+  });
+
+  it('keeps metrics per provider', () => {
+    const router = new LLMRouter(PROVIDERS, {});
+
+    router.record({ provider: 'openai', model: 'gpt-4o' }, 100, { result: { content: 'x', promptTokens: 7, completionTokens: 3 } });
+    router.record({ provider: 'openai', model: 'gpt-4o-mini' }, 300, { error: new Error('429'), fallback: true });
+
+    const openai = router.getMetrics().find(m => m.provider === 'openai')!;
+    expect(openai).to.include({
+      requests: 2, successes: 1, failures: 1, fallbackRequests: 1, avgLatencyMs: 200, promptTokens: 7, completionTokens: 3, lastError: '429',
+    });
+    expect(openai.models).to.deep.equal(['gpt-4o', 'gpt-4o-mini']);
+    expect(router.getMetrics().find(m => m.provider === 'llamacpp')!.requests).to.equal(0);
+  });
+
+  describe('OllamaService routing', () => {
+    const saved: Record<string, any> = {};
+    const primary = fakeProvider('openai', () => { throw new Error('upstream 503'); });
+    const backup = fakeProvider('llamacpp', () => 'from backup');
+
+    before(() => {
+      getOllamaCache({ enabled: false });
+      for (const key of ['providerConfigs', 'routes', 'providers', 'metrics']) saved[key] = (llmRouter as any)[key];
+
+      Object.assign(llmRouter as any, {
+        providerConfigs: new Map(PROVIDERS.map(p => [p.name, p])),
+        routes: { analysis: { provider: 'openai', model: 'gpt-4o-mini', fallbacks: [{ provider: 'llamacpp', model: 'qwen2.5' }] } },
+        providers: new Map([['openai', primary], ['llamacpp', backup]]),
+        metrics: new Map(),
+      });
+    });
+
+    after(() => {
+      Object.assign(llmRouter as any, saved);
+    });
+
+    it('serves the call from the fallback when the primary fails', async () => {
+      const service = new OllamaService('analysis');
+
+      expect(await service.generate('classify this')).to.equal('from backup');
+      expect(primary.calls).to.deep.equal(['gpt-4o-mini']);
+      expect(backup.calls).to.deep.equal(['qwen2.5']);
+
+      const metrics = llmRouter.getMetrics();
+      expect(metrics.find(m => m.provider === 'openai')).to.include({ failures: 1, lastError: 'upstream 503' });
+      expect(metrics.find(m => m.provider === 'llamacpp')).to.include({ successes: 1, fallbackRequests: 1 });
+    });
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: Array<{ url: string; authorization?: string; body: any }> = [];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let data = '';
+      req.on('data', chunk => (data += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url!, authorization: req.headers.authorization, body: data ? JSON.parse(data) : null });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(req.url === '/v1/models'
+          ? { data: [{ id: 'gpt-4o' }] }
+          : { choices: [{ message: { content: '{"ok":true}', reasoning_content: 'because' } }], usage: { prompt_tokens: 12, completion_tokens: 4 } }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('posts chat completions and maps the answer, reasoning and usage', async () => {
+    process.env.TEST_LLM_KEY = 'sk-test';
+    const provider = new OpenAICompatibleProvider({ name: 'openai', type: 'openai', baseUrl, apiKeyEnv: 'TEST_LLM_KEY' });
+    delete process.env.TEST_LLM_KEY;
+
+    const result = await provider.chat({
+      model: 'gpt-4o',
+      messages: [{ role: 'user', content: 'describe', images: ['aGk='] }],
+      temperature: 0.2,
+      maxTokens: 0,
+      json: true,
+    });
+
+    expect(result).to.deep.equal({ content: '{"ok":true}', thinking: 'because', promptTokens: 12, completionTokens: 4 });
+    expect(requests[0].url).to.equal('/v1/chat/completions');
+    expect(requests[0].authorization).to.equal('Bearer sk-test');
+    expect(requests[0].body).to.include({ model: 'gpt-4o', temperature: 0.2, stream: false });
+    expect(requests[0].body).not.to.have.property('max_tokens');
+    expect(requests[0].body.response_format).to.deep.equal({ type: 'json_object' });
+    expect(requests[0].body.messages[0].content[1].image_url.url).to.equal('data:image/png;base64,aGk=');
+
+    expect(await provider.listModels()).to.deep.equal(['gpt-4o']);
+  });
+});
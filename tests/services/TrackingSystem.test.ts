@@ -0,0 +1,112 @@
+import { expect } from 'chai';
+import { BehaviorEngine } from '../../src/core/BehaviorEngine';
+import { ActionExecutor } from '../../src/services/ActionExecutor';
+import { TrackingSession, TrackingSystem } from '../../src/services/TrackingSystem';
+import { fakeClient, fakePool } from '../helpers';
+
+const context = { serverId: 'g1', triggeredBy: 'u1', triggeredAt: new Date(0), event: 'guildMemberAdd', eventData: {} };
+
+function message(content: string): any {
+  return {
+    id: `m${Math.random()}`,
+    content,
+    guildId: 'g1',
+    author: { id: 'u1', bot: false },
+    channel: { id: 'c1' },
+    channelId: 'c1',
+    createdAt: new Date(),
+    attachments: new Map(),
+    mentions: { users: new Map() },
+  };
+}
+
+describe('TrackingSystem', () => {
+  let pool: ReturnType<typeof fakePool>;
+  let tracking: TrackingSystem;
+
+  beforeEach(() => {
+    pool = fakePool();
+    tracking = new TrackingSystem(pool as any, fakeClient());
+  });
+
+  it('collects messages from the target and finishes on a stop condition', async () => {
+    const ended: TrackingSession[] = [];
+    tracking.onSessionEnd(async session => { ended.push(session); });
+
+    const session = await tracking.startTracking('b1', 1, 'g1', {
+      targetType: 'user', targetId: '${triggeredUserId}', duration: '1h', stopConditions: ['linkCount >= 2'],
+    } as any, context);
+    expect(session.targetId).to.equal('u1');
+    expect(session.expiresAt.getTime() - session.startedAt.getTime()).to.be.closeTo(60 * 60 * 1000, 1000);
+
+    const handle = (m: any) => (tracking as any).handleMessageCreate(m);
+    await handle(message('hello'));
+    await handle(message('https://a.example'));
+    expect(ended).to.have.length(0);
+    await handle(message('https://b.example'));
+
+    expect(ended).to.have.length(1);
+    expect(ended[0].status).to.equal('completed');
+    expect(ended[0].collectedData).to.include({ messageCount: 3, linkCount: 2 });
+  });
+
+  it('finalizes a manually stopped session and hands its data to the handlers', async () => {
+    const ended: TrackingSession[] = [];
+    tracking.onSessionEnd(async session => { ended.push(session); });
+
+    const session = await tracking.startTracking('b1', 1, 'g1', { targetType: 'user', targetId: 'u1', duration: '1h' } as any, context);
+    await (tracking as any).handleMessageCreate(message('hello'));
+
+    expect(await tracking.stopTrackingForTarget('g1', 'u1')).to.equal(1);
+
+    expect(ended.map(s => s.status)).to.deep.equal(['stopped']);
+    expect(ended[0].collectedData.messageCount).to.equal(1);
+    expect(tracking.getSession(session.id)).to.equal(undefined);
+    expect(pool.find('UPDATE behavior_active_tracking').pop()!.params[1]).to.equal('stopped');
+  });
+
+  it('resumes the waiting execution when a session is stopped', async () => {
+    const row = { id: 'b1', server_id: 'g1', name: 'Watch', enabled: true, trigger: { type: 'event', event: 'guildMemberAdd' }, actions: [] };
+    pool = fakePool(sql => (sql.includes('FROM dynamic_behaviors') ? [row] : []));
+    tracking = new TrackingSystem(pool as any, fakeClient());
+    const engine = new BehaviorEngine(pool as any, fakeClient(), undefined, tracking);
+    await engine.loadBehaviors();
+    tracking.onSessionEnd(session => (engine as any).handleTrackingEnd(session));
+
+    await tracking.startTracking('b1', 42, 'g1', { targetType: 'user', targetId: 'u1', duration: '1h' } as any, context);
+    await tracking.stopTrackingForTarget('g1', 'u1');
+
+    const update = pool.find('UPDATE behavior_executions').pop()!;
+    expect(update.params[0]).to.equal('completed');
+    expect(update.params[update.params.length - 1]).to.equal(42);
+    engine.shutdown();
+  });
+
+  it('runs the actions of a member event with the member\'s name once tracking ends', async () => {
+    class FakeUser { id = 'u1'; username = 'newbie'; bot = false; }
+    class FakeMember { id = 'u1'; user = new FakeUser(); }
+
+    const row = {
+      id: 'b1', server_id: 'g1', name: 'Welcome check', enabled: true,
+      trigger: { type: 'event', event: 'guildMemberAdd' },
+      actions: [{ type: 'sendDM', target: '${user.id}', message: 'Thanks for staying, ${user.username}' }],
+      safety: { sandbox: false },
+    };
+    pool = fakePool(sql => (sql.includes('FROM dynamic_behaviors') ? [row] : sql.includes('INSERT INTO behavior_executions') ? [{ id: 42 }] : []));
+    const sent: string[] = [];
+    const client = fakeClient({ users: { fetch: async (id: string) => ({ send: async (text: string) => { sent.push(`${id}: ${text}`); } }) } });
+    tracking = new TrackingSystem(pool as any, client);
+    const engine = new BehaviorEngine(pool as any, client, new ActionExecutor(client, pool as any), tracking);
+    await engine.loadBehaviors();
+    tracking.onSessionEnd(session => (engine as any).handleTrackingEnd(session));
+
+    await tracking.startTracking('b1', 42, 'g1', { targetType: 'user', targetId: 'u1', duration: '1h' } as any, {
+      ...context, eventData: { member: new FakeMember() },
+    });
+    await tracking.stopTrackingForTarget('g1', 'u1');
+
+    expect(sent).to.deep.equal(['u1: Thanks for staying, newbie']);
+    expect(pool.find('UPDATE behavior_executions').pop()!.params[0]).to.equal('completed');
+    engine.shutdown();
+  });
+});
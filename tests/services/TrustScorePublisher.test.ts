@@ -0,0 +1,109 @@
+import { expect } from 'chai';
+import { blockchainService } from '../../src/services/BlockchainService';
+import { TrustScorePublisher } from '../../src/services/TrustScorePublisher';
+import { MerkleTree } from '../../src/utils/MerkleTree';
+
+/**
+ * DatabaseService stand-in holding trust_score_batches and trust_score_leaves
+ */
+function fakeDb() {
+  const batches = new Map<number, any>();
+  const leaves: any[] = [];
+
+  return {
+    batches,
+    leaves,
+    query: async (sql: string, params: any[]) => {
+      if (sql.includes('INSERT INTO trust_score_batches')) {
+        batches.set(params[0], { epoch: params[0], merkle_root: params[1], status: 'pending', tx_hash: null });
+      } else if (sql.includes('INSERT INTO trust_score_leaves')) {
+        const [epoch, indexes, discordIds, userHashes, scores, risks, violations] = params;
+        indexes.forEach((leaf_index: number, i: number) => leaves.push({
+          epoch, leaf_index, discord_id: discordIds[i], user_hash: userHashes[i],
+          score: scores[i], risk_score: risks[i], violations: violations[i],
+        }));
+      } else if (sql.includes("status = 'failed'")) {
+        batches.get(params[0]).status = 'failed';
+      } else if (sql.includes("status = 'published'")) {
+        Object.assign(batches.get(params[0]), { status: 'published', tx_hash: params[1] });
+      }
+    },
+    queryOne: async (sql: string, params: any[] = []) => {
+      if (sql.includes('MAX(epoch)')) return { max: Math.max(0, ...batches.keys()) };
+      const row = leaves
+        .filter(l => l.discord_id === params[0] && batches.get(l.epoch).status === 'published')
+        .sort((a, b) => b.epoch - a.epoch)[0];
+      return row ? { ...row, merkle_root: batches.get(row.epoch).merkle_root, tx_hash: batches.get(row.epoch).tx_hash } : null;
+    },
+    queryMany: async (_sql: string, params: any[]) =>
+      leaves.filter(l => l.epoch === params[0]).sort((a, b) => a.leaf_index - b.leaf_index),
+  };
+}
+
+describe('TrustScorePublisher', () => {
+  const originals = {
+    isEnabled: blockchainService.isEnabled,
+    getLatestEpoch: blockchainService.getLatestEpoch,
+    publishScoreRoot: blockchainService.publishScoreRoot,
+  };
+  let published: Array<{ epoch: number; root: string; leafCount: number }>;
+  let publishFails: boolean;
+
+  before(() => {
+    blockchainService.isEnabled = () => true;
+    blockchainService.getLatestEpoch = async () => 0;
+    blockchainService.publishScoreRoot = async (epoch, root, leafCount) => {
+      if (publishFails) return null;
+      published.push({ epoch, root, leafCount });
+      return `0xtx${epoch}`;
+    };
+  });
+
+  after(() => Object.assign(blockchainService, originals));
+
+  beforeEach(() => {
+    published = [];
+    publishFails = false;
+  });
+
+  it('publishes one root per batch and serves proofs that verify against it', async () => {
+    const publisher = new TrustScorePublisher();
+    const db = fakeDb();
+    (publisher as any).db = db;
+
+    publisher.enqueue('u1', 40, 5, 1);
+    publisher.enqueue('u2', 90, 0, 0);
+    publisher.enqueue('u3', 75.4, 2.6, 0);
+    publisher.enqueue('u1', 35, 8, 2); // Only the latest change per user is kept
+
+    expect(await publisher.flush()).to.equal(1);
+    expect(published).to.deep.equal([{ epoch: 1, root: db.batches.get(1).merkle_root, leafCount: 3 }]);
+
+    // Proofs also verify once the tree has to be rebuilt from stored leaves
+    (publisher as any).trees.clear();
+    for (const id of ['u1', 'u2', 'u3']) {
+      const proof = (await publisher.getProof(id))!;
+      expect(MerkleTree.verify(proof.leaf, proof.proof, proof.root), id).to.equal(true);
+      expect(proof.txHash).to.equal('0xtx1');
+    }
+    expect((await publisher.getProof('u1'))!).to.include({ score: 35, riskScore: 8, violations: 2, epoch: 1 });
+    expect((await publisher.getProof('u3'))!).to.include({ score: 75, riskScore: 3 });
+    expect(await publisher.getProof('unknown')).to.equal(null);
+  });
+
+  it('re-queues a batch whose root failed to publish and serves no proof for it', async () => {
+    const publisher = new TrustScorePublisher();
+    const db = fakeDb();
+    (publisher as any).db = db;
+
+    publisher.enqueue('u1', 40, 5, 1);
+    publishFails = true;
+    expect(await publisher.flush()).to.equal(null);
+    expect(publisher.getPendingCount()).to.equal(1);
+    expect(await publisher.getProof('u1')).to.equal(null);
+
+    publishFails = false;
+    expect(await publisher.flush()).to.equal(2);
+    expect((await publisher.getProof('u1'))!.epoch).to.equal(2);
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import * as supabaseModule from '../../src/database/SupabaseClient';
+import { blockchainService } from '../../src/services/BlockchainService';
+import { WalletLinkService } from '../../src/services/WalletLinkService';
+
+/**
+ * Supabase stand-in for the users table: query builders resolve against a
+ * discord id -> wallet address map
+ */
+function fakeSupabase(wallets: Map<string, string | null>) {
+  return {
+    from: () => {
+      const filters: Record<string, string> = {};
+      const excluded: Record<string, string> = {};
+      let update: Record<string, any> | null = null;
+
+      const matches = () =>
+        [...wallets.entries()].filter(([id, wallet]) =>
+          (!filters.id || id === filters.id) &&
+          (!filters.wallet_address || wallet === filters.wallet_address) &&
+          (!excluded.id || id !== excluded.id));
+
+      const builder: any = {
+        select: () => builder,
+        update: (values: Record<string, any>) => { update = values; return builder; },
+        eq: (column: string, value: string) => { filters[column] = value; return builder; },
+        neq: (column: string, value: string) => { excluded[column] = value; return builder; },
+        limit: () => builder,
+        maybeSingle: async () => {
+          const row = matches()[0];
+          return { data: row ? { wallet_address: row[1] } : null, error: null };
+        },
+        then: (resolve: (value: any) => void) => {
+          if (update) {
+            for (const [id] of matches()) wallets.set(id, update.wallet_address);
+            return resolve({ error: null });
+          }
+          return resolve({ data: matches().map(([id]) => ({ id })), error: null });
+        },
+      };
+      return builder;
+    },
+  };
+}
+
+describe('WalletLinkService', () => {
+  const wallets = new Map<string, string | null>();
+  const chain: string[] = [];
+  const originals = {
+    getSupabaseClient: supabaseModule.getSupabaseClient,
+    isEnabled: blockchainService.isEnabled,
+    linkWallet: blockchainService.linkWallet,
+    unlinkWallet: blockchainService.unlinkWallet,
+  };
+
+  before(() => {
+    (supabaseModule as any).getSupabaseClient = () => fakeSupabase(wallets);
+    blockchainService.isEnabled = () => true;
+    blockchainService.linkWallet = async (discordId, address) => { chain.push(`link ${discordId} ${address.toLowerCase()}`); return '0xlink'; };
+    blockchainService.unlinkWallet = async address => { chain.push(`unlink ${address}`); return '0xunlink'; };
+  });
+
+  after(() => {
+    (supabaseModule as any).getSupabaseClient = originals.getSupabaseClient;
+    Object.assign(blockchainService, {
+      isEnabled: originals.isEnabled,
+      linkWallet: originals.linkWallet,
+      unlinkWallet: originals.unlinkWallet,
+    });
+  });
+
+  beforeEach(() => {
+    wallets.clear();
+    chain.length = 0;
+  });
+
+  async function link(service: WalletLinkService, discordId: string, wallet: ethers.HDNodeWallet) {
+    const challenge = service.createChallenge(discordId, 'user', wallet.address);
+    return service.verifyAndLink(challenge.nonce, await wallet.signMessage(challenge.message));
+  }
+
+  it('unlinks the previous wallet on-chain when a user links a new one', async () => {
+    const service = new WalletLinkService();
+    const first = ethers.Wallet.createRandom();
+    const second = ethers.Wallet.createRandom();
+    wallets.set('u1', null);
+
+    await link(service, 'u1', first);
+    await link(service, 'u1', second);
+
+    expect(wallets.get('u1')).to.equal(second.address.toLowerCase());
+    expect(chain).to.deep.equal([
+      `link u1 ${first.address.toLowerCase()}`,
+      `unlink ${first.address.toLowerCase()}`,
+      `link u1 ${second.address.toLowerCase()}`,
+    ]);
+  });
+
+  it('does not unlink when the same wallet is linked again', async () => {
+    const service = new WalletLinkService();
+    const wallet = ethers.Wallet.createRandom();
+    wallets.set('u1', wallet.address.toLowerCase());
+
+    await link(service, 'u1', wallet);
+
+    expect(chain).to.deep.equal([`link u1 ${wallet.address.toLowerCase()}`]);
+  });
+
+  it('rejects a signature from another wallet and a reused nonce', async () => {
+    const service = new WalletLinkService();
+    const wallet = ethers.Wallet.createRandom();
+    wallets.set('u1', null);
+
+    const challenge = service.createChallenge('u1', 'user', wallet.address);
+    const forged = await ethers.Wallet.createRandom().signMessage(challenge.message);
+    await service.verifyAndLink(challenge.nonce, forged).then(
+      () => expect.fail('should reject'),
+      error => expect(error.status).to.equal(401)
+    );
+
+    const signature = await wallet.signMessage(challenge.message);
+    await service.verifyAndLink(challenge.nonce, signature);
+    await service.verifyAndLink(challenge.nonce, signature).then(
+      () => expect.fail('should reject'),
+      error => expect(error.status).to.equal(410)
+    );
+  });
+});
@@ -0,0 +1,2 @@
+// Keep test output readable (errors still show)
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
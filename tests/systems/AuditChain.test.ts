@@ -0,0 +1,178 @@
+import { expect } from 'chai';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FederationIdentity } from '../../src/federation/FederationIdentity';
+import { AuditChain } from '../../src/systems/AuditChain';
+import type { AuditEvent } from '../../src/systems/AuditLogger';
+
+function identity(): FederationIdentity {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  process.env.FEDERATION_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  try {
+    return FederationIdentity.load();
+  } finally {
+    delete process.env.FEDERATION_PRIVATE_KEY;
+  }
+}
+
+function event(id: string, overrides: Partial<AuditEvent> = {}): AuditEvent {
+  return {
+    id,
+    timestamp: new Date(),
+    type: 'moderation_action',
+    guildId: 'g1',
+    actorType: 'moderator',
+    action: 'warn',
+    details: {},
+    success: true,
+    ...overrides,
+  } as AuditEvent;
+}
+
+function chainWith(dir: string, signer: FederationIdentity, trusted: FederationIdentity[] = []): AuditChain {
+  const chain = new AuditChain(dir, trusted.map(t => t.instanceId));
+  (chain as any).identity = signer;
+  return chain;
+}
+
+function segmentFiles(dir: string): string[] {
+  return fs.readdirSync(dir).filter(f => f.startsWith('audit-')).sort();
+}
+
+describe('AuditChain', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'audit-chain-'));
+  });
+
+  afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('verifies an intact chain and finds edited and removed records', async () => {
+    const chain = chainWith(dir, identity());
+    for (const id of ['e1', 'e2', 'e3']) await chain.append(event(id));
+    await chain.checkpoint();
+
+    const intact = await chain.verify();
+    expect(intact).to.include({ valid: true, records: 3, checkpointsVerified: 1 });
+
+    const [segment] = segmentFiles(dir);
+    const lines = fs.readFileSync(path.join(dir, segment), 'utf-8').trim().split('\n');
+    const edited = JSON.parse(lines[1]);
+    edited.event.action = 'ban';
+    fs.writeFileSync(path.join(dir, segment), [lines[0], JSON.stringify(edited), lines[2]].join('\n') + '\n');
+    expect((await chain.verify()).errors.map(e => e.problem)).to.deep.equal(['hash mismatch - record was modified']);
+
+    fs.writeFileSync(path.join(dir, segment), [lines[0], lines[2]].join('\n') + '\n');
+    const gap = await chain.verify();
+    expect(gap.valid).to.equal(false);
+    expect(gap.errors[0].problem).to.match(/gap: record\(s\) 2 missing/);
+  });
+
+  it('keeps verifying checkpoints signed before a key rotation', async () => {
+    const oldKey = identity();
+    const newKey = identity();
+
+    const before = chainWith(dir, oldKey);
+    await before.append(event('e1'));
+    await before.checkpoint();
+
+    const after = chainWith(dir, newKey, [oldKey]);
+    await after.append(event('e2'));
+    await after.checkpoint();
+
+    const result = await after.verify();
+    expect(result).to.include({ valid: true, checkpointsVerified: 2 });
+    expect(result.signers).to.deep.equal([oldKey.instanceId, newKey.instanceId]);
+
+    // Without the old key on the allowlist its checkpoint is not trusted
+    const untrusted = await chainWith(dir, newKey).verify();
+    expect(untrusted.valid).to.equal(false);
+    expect(untrusted.errors[0].problem).to.equal(`checkpoint signed by untrusted key ${oldKey.instanceId}`);
+  });
+
+  it('rejects a chain rewritten and re-signed with another key', async () => {
+    const signer = identity();
+    const chain = chainWith(dir, signer);
+    await chain.append(event('e1'));
+    await chain.checkpoint();
+
+    // The attacker rewrites the record and signs a new checkpoint with their own key
+    const attacker = identity();
+    const [segment] = segmentFiles(dir);
+    const record = JSON.parse(fs.readFileSync(path.join(dir, segment), 'utf-8'));
+    record.event.action = 'unban';
+    record.hash = AuditChain.hashRecord(record.seq, record.prevHash, record.event);
+    fs.writeFileSync(path.join(dir, segment), JSON.stringify(record) + '\n');
+    fs.rmSync(path.join(dir, 'checkpoints.jsonl'));
+    const forger = chainWith(dir, attacker);
+    await forger.checkpoint();
+
+    const result = await chainWith(dir, signer).verify();
+    expect(result.valid).to.equal(false);
+    expect(result.errors.map(e => e.problem)).to.include(`checkpoint signed by untrusted key ${attacker.instanceId}`);
+    expect(result.signers).to.deep.equal([]);
+  });
+
+  it('rejects a checkpoint re-signed with a key that is not its own', async () => {
+    const signer = identity();
+    const chain = chainWith(dir, signer);
+    await chain.append(event('e1'));
+    await chain.checkpoint();
+
+    const file = path.join(dir, 'checkpoints.jsonl');
+    const checkpoint = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    checkpoint.publicKey = identity().publicKey;
+    fs.writeFileSync(file, JSON.stringify(checkpoint) + '\n');
+
+    expect((await chain.verify()).errors.map(e => e.problem)).to.deep.equal(['checkpoint signing key does not match its instance ID']);
+  });
+
+  it('prunes old segments behind a signed marker and stops at a vetoed one', async () => {
+    const chain = chainWith(dir, identity());
+    const old = new Date('2020-01-15T00:00:00Z');
+
+    // Three months of old records, then the current segment
+    for (const [month, ids] of [['2020-01', ['a1', 'a2']], ['2020-02', ['b1']], ['2020-03', ['c1']]] as const) {
+      for (const id of ids) await chain.append(event(id, { timestamp: old, details: { hold: id === 'c1' } }));
+      fs.renameSync(path.join(dir, segmentFiles(dir).pop()!), path.join(dir, `audit-${month}.jsonl`));
+    }
+    await chain.append(event('now'));
+
+    const keep = (e: AuditEvent) => e.details?.hold === true;
+    const dryRun = await chain.prune(new Date('2021-01-01'), { keep, dryRun: true });
+    expect(dryRun).to.deep.equal({ records: 3, kept: 1, segments: ['audit-2020-01.jsonl', 'audit-2020-02.jsonl'] });
+    expect(segmentFiles(dir)).to.have.length(4);
+
+    await chain.prune(new Date('2021-01-01'), { keep });
+    expect(segmentFiles(dir)).to.deep.equal(['audit-2020-03.jsonl', segmentFiles(dir)[1]]);
+
+    const result = await chain.verify();
+    expect(result).to.include({ valid: true, records: 2, prunedThrough: 3 });
+
+    // A prune marker forged with another key does not hide records
+    const forged = chainWith(dir, identity());
+    await forged.prune(new Date('2021-01-01'));
+    const afterForgery = await chain.verify();
+    expect(afterForgery.valid).to.equal(false);
+    expect(afterForgery.errors.map(e => e.problem)).to.satisfy((problems: string[]) =>
+      problems.some(p => p.startsWith('prune marker signed by untrusted key')));
+  });
+
+  it('exports CSV without cells a spreadsheet would run as formulas', async () => {
+    const chain = chainWith(dir, identity());
+    await chain.append(event('e1', { targetName: '=HYPERLINK("http://evil")', aiReasoning: '-5 points' }));
+    await chain.append(event('e2', { guildId: 'other' }));
+
+    let csv = '';
+    for await (const chunk of chain.exportGuild('g1', 'csv')) csv += chunk;
+
+    const [header, row, ...rest] = csv.trim().split('\n');
+    expect(header.split(',')[0]).to.equal('seq');
+    expect(rest).to.deep.equal([]);
+    expect(row).to.include(`"'=HYPERLINK(""http://evil"")"`);
+    expect(row).to.include(`'-5 points`);
+  });
+});
@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import { actionScheduler } from '../../src/advanced/ActionScheduler';
+import { ModerationHandler } from '../../src/systems/ModerationHandler';
+import { banTool } from '../../src/becasflow/tools/moderation/ban.tool';
+import { unbanTool } from '../../src/becasflow/tools/moderation/unban.tool';
+import { fakeClient } from '../helpers';
+
+function fakeGuild() {
+  const calls: string[] = [];
+  const member: any = {
+    id: 'u1',
+    bannable: true,
+    user: { id: 'u1', tag: 'user#0001' },
+    roles: { highest: { position: 1 } },
+    send: async () => undefined,
+    ban: async () => { calls.push('ban'); },
+  };
+  const guild: any = {
+    id: 'g1',
+    name: 'Guild',
+    members: {
+      me: { id: 'bot' },
+      fetch: async () => member,
+      ban: async () => { calls.push('ban'); },
+      unban: async () => { calls.push('unban'); },
+    },
+    bans: { fetch: async () => ({ user: { tag: 'user#0001' } }) },
+  };
+  member.guild = guild;
+  return { guild, calls };
+}
+
+function toolContext(guild: any): any {
+  return {
+    guild,
+    channel: { id: 'c1' },
+    member: {
+      id: 'mod1',
+      user: { tag: 'mod#0001' },
+      permissions: { has: () => true },
+      roles: { highest: { position: 10 } },
+    },
+    services: {},
+  };
+}
+
+describe('ModerationHandler scheduled unbans', () => {
+  const original = { schedule: actionScheduler.schedule, cancel: actionScheduler.cancel };
+  let scheduled: string[];
+  let cancelled: string[];
+
+  beforeEach(() => {
+    scheduled = [];
+    cancelled = [];
+    (actionScheduler as any).schedule = async (options: any) => { scheduled.push(options.id); return options.id; };
+    (actionScheduler as any).cancel = async (jobId: string) => { cancelled.push(jobId); return true; };
+  });
+
+  afterEach(() => {
+    (actionScheduler as any).schedule = original.schedule;
+    (actionScheduler as any).cancel = original.cancel;
+  });
+
+  it('schedules the unban for a temporary ban', async () => {
+    const { guild } = fakeGuild();
+    const handler = new ModerationHandler(fakeClient());
+
+    expect(await handler.executeAction({ type: 'ban', duration: 60000 }, 'u1', guild, 'spam')).to.equal(true);
+
+    expect(scheduled).to.deep.equal(['unban:g1:u1']);
+    expect(cancelled).to.deep.equal([]);
+  });
+
+  it('cancels a pending unban when the ban is permanent', async () => {
+    const { guild } = fakeGuild();
+    const handler = new ModerationHandler(fakeClient());
+
+    expect(await handler.executeAction({ type: 'ban' }, 'u1', guild, 'raid')).to.equal(true);
+
+    expect(scheduled).to.deep.equal([]);
+    expect(cancelled).to.deep.equal(['unban:g1:u1']);
+  });
+
+  it('cancels a pending unban on a manual unban', async () => {
+    const { guild, calls } = fakeGuild();
+    const handler = new ModerationHandler(fakeClient());
+
+    expect(await handler.unbanUser('u1', guild, 'appeal accepted')).to.equal(true);
+
+    expect(calls).to.deep.equal(['unban']);
+    expect(cancelled).to.deep.equal(['unban:g1:u1']);
+  });
+
+  it('cancels a pending unban from the ban and unban tools', async () => {
+    const { guild, calls } = fakeGuild();
+
+    const banned = await banTool.execute({ userId: 'u1', reason: 'raid' }, toolContext(guild));
+    const unbanned = await unbanTool.execute({ userId: 'u1', reason: 'appeal' }, toolContext(guild));
+
+    expect(banned.success).to.equal(true);
+    expect(unbanned.success).to.equal(true);
+    expect(calls).to.deep.equal(['ban', 'unban']);
+    expect(cancelled).to.deep.equal(['unban:g1:u1', 'unban:g1:u1']);
+  });
+});
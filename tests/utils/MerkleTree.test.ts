@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { ethers } from 'ethers';
+import { MerkleTree } from '../../src/utils/MerkleTree';
+
+function leaves(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => MerkleTree.hashTrustScore({
+    userHash: ethers.id(`user-${i}`),
+    score: 50 + i,
+    riskScore: i,
+    violations: i % 3,
+    epoch: 1,
+  }));
+}
+
+describe('MerkleTree', () => {
+  it('proves every leaf for balanced and odd-sized trees', () => {
+    for (let count = 1; count <= 9; count++) {
+      const hashes = leaves(count);
+      const tree = new MerkleTree(hashes);
+
+      hashes.forEach((leaf, i) => {
+        expect(MerkleTree.verify(leaf, tree.getProof(i), tree.root), `leaf ${i} of ${count}`).to.equal(true);
+      });
+    }
+  });
+
+  it('uses the leaf as the root of a one-leaf tree', () => {
+    const [leaf] = leaves(1);
+    const tree = new MerkleTree([leaf]);
+
+    expect(tree.root).to.equal(leaf);
+    expect(tree.getProof(0)).to.deep.equal([]);
+  });
+
+  it('rejects a proof for another leaf, a tampered proof or another root', () => {
+    const hashes = leaves(5);
+    const tree = new MerkleTree(hashes);
+    const proof = tree.getProof(2);
+
+    expect(MerkleTree.verify(hashes[3], proof, tree.root)).to.equal(false);
+    expect(MerkleTree.verify(hashes[2], [ethers.id('x'), ...proof.slice(1)], tree.root)).to.equal(false);
+    expect(MerkleTree.verify(hashes[2], proof, new MerkleTree(leaves(4)).root)).to.equal(false);
+  });
+
+  it('binds the leaf to every score field and the epoch', () => {
+    const leaf = { userHash: ethers.id('u1'), score: 70, riskScore: 10, violations: 1, epoch: 3 };
+    const hash = MerkleTree.hashTrustScore(leaf);
+
+    expect(MerkleTree.hashTrustScore({ ...leaf, score: 71 })).not.to.equal(hash);
+    expect(MerkleTree.hashTrustScore({ ...leaf, epoch: 4 })).not.to.equal(hash);
+    // Double hashed, so a leaf is never a valid inner node
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['bytes32', 'uint256', 'uint256', 'uint256', 'uint256'],
+      [leaf.userHash, leaf.score, leaf.riskScore, leaf.violations, leaf.epoch]
+    );
+    expect(hash).to.equal(ethers.keccak256(ethers.keccak256(encoded)));
+  });
+
+  it('refuses empty trees and out-of-range proofs', () => {
+    expect(() => new MerkleTree([])).to.throw(/without leaves/);
+    expect(() => new MerkleTree(leaves(3)).getProof(3)).to.throw(/out of range/);
+  });
+});
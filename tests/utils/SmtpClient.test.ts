@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import net, { AddressInfo, Server } from 'net';
+import { sendMail } from '../../src/utils/SmtpClient';
+
+/**
+ * A cleartext SMTP server that does not offer STARTTLS, recording every command
+ */
+function plainServer(commands: string[]): Promise<Server> {
+  return new Promise(resolve => {
+    const server = net.createServer(socket => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 test ESMTP\r\n');
+
+      socket.on('data', chunk => {
+        buffer += chunk.toString('utf-8');
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+            }
+            continue;
+          }
+
+          commands.push(line);
+          const verb = line.split(' ')[0].toUpperCase();
+          if (verb === 'EHLO') socket.write('250-test\r\n250 AUTH PLAIN\r\n');
+          else if (verb === 'AUTH') socket.write('235 ok\r\n');
+          else if (verb === 'DATA') { inData = true; socket.write('354 go\r\n'); }
+          else if (verb === 'QUIT') socket.end('221 bye\r\n');
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+}
+
+describe('sendMail', () => {
+  const message = { to: ['oncall@example.com'], subject: 'Alert', text: 'Raid detected' };
+  let server: Server;
+  let commands: string[];
+
+  beforeEach(async () => {
+    commands = [];
+    server = await plainServer(commands);
+  });
+
+  afterEach(done => {
+    server.close(() => done());
+  });
+
+  function options(user?: string) {
+    const { port } = server.address() as AddressInfo;
+    return { host: '127.0.0.1', port, secure: false, user, pass: 'secret', from: 'alerts@example.com', timeoutMs: 2000 };
+  }
+
+  it('refuses to send credentials when the server does not offer STARTTLS', async () => {
+    let error: Error | undefined;
+    try {
+      await sendMail(options('alerts'), message);
+    } catch (caught) {
+      error = caught as Error;
+    }
+
+    expect(error?.message).to.match(/refusing to send credentials without TLS/);
+    expect(commands.some(command => command.startsWith('AUTH'))).to.equal(false);
+    expect(commands.some(command => command.startsWith('MAIL FROM'))).to.equal(false);
+  });
+
+  it('still relays without credentials over a cleartext connection', async () => {
+    await sendMail(options(), message);
+
+    expect(commands.map(command => command.split(/[ :]/)[0])).to.deep.equal(['EHLO', 'MAIL', 'RCPT', 'DATA', 'QUIT']);
+  });
+});
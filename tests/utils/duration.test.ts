@@ -0,0 +1,17 @@
+import { expect } from 'chai';
+import { parseDuration } from '../../src/utils/duration';
+
+describe('parseDuration', () => {
+  it('parses seconds, minutes, hours and days', () => {
+    expect(parseDuration('30s', 0)).to.equal(30 * 1000);
+    expect(parseDuration('5m', 0)).to.equal(5 * 60 * 1000);
+    expect(parseDuration('2h', 0)).to.equal(2 * 60 * 60 * 1000);
+    expect(parseDuration('7d', 0)).to.equal(7 * 24 * 60 * 60 * 1000);
+  });
+
+  it('falls back for anything else', () => {
+    expect(parseDuration(undefined, 123)).to.equal(123);
+    expect(parseDuration('1w', 123)).to.equal(123);
+    expect(parseDuration('five minutes', 123)).to.equal(123);
+  });
+});